@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { haversineMeters } from "@/lib/geo";
 
 type OverpassElement = {
   type: "node" | "way" | "relation";
@@ -9,21 +10,6 @@ type OverpassElement = {
   tags?: Record<string, string>;
 };
 
-function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371000;
-  const toRad = (d: number) => (d * Math.PI) / 180;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) ** 2;
-
-  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
 function isProbablyNotAGolfCourse(tags: Record<string, string>) {
   // Optional: filter out obvious non-courses that sometimes appear
   const tourism = (tags.tourism ?? "").toLowerCase();
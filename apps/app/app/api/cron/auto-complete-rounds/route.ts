@@ -4,6 +4,8 @@ import { finishRound } from "@/lib/rounds/finishRound";
 import { reconcileEventStatus } from "@/lib/majors/reconcileStatus";
 import { runEntryOpenNotifications } from "@/lib/notifications/entryOpenSweep";
 import { runFantasySweeps } from "@/lib/fantasy/cronSweeps";
+import { runLeagueDeadlineSweep } from "@/lib/majors/leagueDeadlineSweep";
+import { runPccJob } from "@/lib/handicap/pccJob";
 import { safeCompare } from "@/lib/auth/safeCompare";
 
 export const runtime = "nodejs";
@@ -102,6 +104,18 @@ export async function GET(req: Request) {
     console.error("[auto-complete-rounds] entry-open sweep failed:", e?.message);
   }
 
+  // Matchplay league deadlines: reminders, then walkovers once a fixture's
+  // play-by date has passed. Best-effort.
+  let leagueDeadlines: Awaited<ReturnType<typeof runLeagueDeadlineSweep>> | null = null;
+  try {
+    leagueDeadlines = await runLeagueDeadlineSweep();
+    if (leagueDeadlines.errors.length > 0) {
+      console.error("[auto-complete-rounds] league deadline errors:", leagueDeadlines.errors);
+    }
+  } catch (e: any) {
+    console.error("[auto-complete-rounds] league deadline sweep failed:", e?.message);
+  }
+
   // Fantasy picks sweeps (pre-event market generation + job hygiene). Best-effort.
   let fantasy: Awaited<ReturnType<typeof runFantasySweeps>> | null = null;
   try {
@@ -113,6 +127,18 @@ export async function GET(req: Request) {
     console.error("[auto-complete-rounds] fantasy sweep failed:", e?.message);
   }
 
+  // Playing conditions calculation over recent course-days — after rounds are
+  // finished so today's auto-completed scores are included. Best-effort.
+  let pcc: Awaited<ReturnType<typeof runPccJob>> | null = null;
+  try {
+    pcc = await runPccJob();
+    if (pcc.errors.length > 0) {
+      console.error("[auto-complete-rounds] pcc errors:", pcc.errors);
+    }
+  } catch (e: any) {
+    console.error("[auto-complete-rounds] pcc job failed:", e?.message);
+  }
+
   const completed = results.filter((r) => r.status === "ok").length;
-  return NextResponse.json({ ok: true, completed, results, entryOpen, fantasy });
+  return NextResponse.json({ ok: true, completed, results, entryOpen, leagueDeadlines, fantasy, pcc });
 }
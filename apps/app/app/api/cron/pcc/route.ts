@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { runPccJob } from "@/lib/handicap/pccJob";
+import { safeCompare } from "@/lib/auth/safeCompare";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/pcc
+ *
+ * Manual / on-demand Playing Conditions Calculation. NOT scheduled in
+ * vercel.json — the daily auto-complete-rounds cron runs the same job (see
+ * runPccJob). Optional `?days=N` widens the lookback, e.g. to backfill a
+ * winter's worth of course-days.
+ *
+ * Secured with CRON_SECRET (Vercel sends "Authorization: Bearer <CRON_SECRET>").
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("[pcc] CRON_SECRET not set");
+    return NextResponse.json({ error: "Not configured" }, { status: 500 });
+  }
+  if (!safeCompare(req.headers.get("authorization"), `Bearer ${cronSecret}`)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const days = Number(new URL(req.url).searchParams.get("days"));
+  const lookbackDays = Number.isInteger(days) && days > 0 ? Math.min(days, 366) : undefined;
+
+  try {
+    const result = await runPccJob({ lookbackDays });
+    if (result.errors.length > 0) console.error("[pcc] errors:", result.errors);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    console.error("[pcc] error:", e?.message);
+    return NextResponse.json({ error: e?.message ?? "error" }, { status: 500 });
+  }
+}
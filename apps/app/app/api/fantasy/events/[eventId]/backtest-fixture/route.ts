@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+import { buildBacktestFixture } from "@/lib/fantasy/backtestReplay";
+
+export const runtime = "nodejs";
+
+// GET /api/fantasy/events/[eventId]/backtest-fixture — a settled event's
+// captured inputs + markets + final scoring as a JSON fixture for the vitest
+// backtest command. Group owner/admin only.
+export async function GET(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eventId } = await params;
+
+    const { data: eventRow, error: eventErr } = await supabaseAdmin
+      .from("events")
+      .select("group_id")
+      .eq("id", eventId)
+      .maybeSingle();
+    if (eventErr) throw eventErr;
+    const groupId = (eventRow as { group_id: string | null } | null)?.group_id;
+    if (!groupId) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+    const role = await getGroupRole(groupId, profileId);
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json({ error: "Admin only" }, { status: 403 });
+    }
+
+    const fixture = await buildBacktestFixture(eventId);
+    if (!fixture) {
+      return NextResponse.json(
+        { error: "Event isn't settled or has no captured generation inputs" },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(JSON.stringify(fixture, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="backtest-${eventId}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Unknown error";
+    const status = msg.toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { createExchangeOffer, getEventExchange } from "@/lib/fantasy/exchange";
+import { PickError } from "@/lib/fantasy/picks";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function eventGroupId(eventId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("events")
+    .select("group_id")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as { group_id: string | null } | null)?.group_id ?? null;
+}
+
+// GET /api/fantasy/events/[eventId]/exchange — open member offers, the
+// caller's matched bets, and the markets a new offer can target.
+export async function GET(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eventId } = await params;
+
+    const groupId = await eventGroupId(eventId);
+    if (!groupId) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    const role = await getGroupRole(groupId, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const exchange = await getEventExchange(eventId, profileId);
+    return NextResponse.json(
+      { ...exchange, viewerId: profileId },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// POST /api/fantasy/events/[eventId]/exchange — post an offer.
+// Body: { marketId, selectionKey, side: "back"|"lay", odds, stake }
+// odds: decimal (4.0) or fractional ("3/1"); stake: backer-stake points.
+// Nothing is escrowed until someone takes the offer.
+export async function POST(req: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eventId } = await params;
+    const body = await req.json();
+
+    const { marketId, selectionKey, side, odds, stake } = body ?? {};
+    if (!marketId || !selectionKey) {
+      return NextResponse.json({ error: "marketId and selectionKey are required" }, { status: 400 });
+    }
+
+    const { data: marketRow } = await supabaseAdmin
+      .from("fantasy_markets")
+      .select("group_id, event_id")
+      .eq("id", marketId)
+      .maybeSingle();
+    const market = marketRow as { group_id: string; event_id: string } | null;
+    if (!market || market.event_id !== eventId) {
+      return NextResponse.json({ error: "Market not found" }, { status: 404 });
+    }
+    const role = await getGroupRole(market.group_id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const { offer } = await createExchangeOffer({ profileId, marketId, selectionKey, side, odds, stake });
+    return NextResponse.json({ ok: true, offer });
+  } catch (e: any) {
+    if (e instanceof PickError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
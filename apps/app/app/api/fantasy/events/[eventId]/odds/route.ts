@@ -73,7 +73,9 @@ export async function GET(req: Request, { params }: { params: Promise<{ eventId:
         supabaseAdmin.from("fantasy_markets").select("*").eq("event_id", eventId),
         supabaseAdmin
           .from("fantasy_odds_snapshots")
-          .select("id, market_id, selection_key, probability, decimal_odds, event_version, computed_at")
+          .select(
+            "id, market_id, selection_key, probability, decimal_odds, event_version, computed_at, each_way_places, each_way_fraction"
+          )
           .eq("event_id", eventId)
           .eq("status", "active"),
       ]);
@@ -84,6 +86,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ eventId:
     const snapshots = (snapData ?? []) as {
       id: string; market_id: string; selection_key: string;
       probability: number; decimal_odds: number; event_version: number; computed_at: string;
+      each_way_places: number | null; each_way_fraction: number | null;
     }[];
 
     // Names for player-scoped markets and player selection keys.
@@ -136,6 +139,10 @@ export async function GET(req: Request, { params }: { params: Promise<{ eventId:
             decimal_odds: Number(s.decimal_odds),
             snapshot_id: s.id,
             event_version: s.event_version,
+            each_way:
+              s.each_way_places != null && s.each_way_fraction != null
+                ? { places: s.each_way_places, fraction: s.each_way_fraction }
+                : null,
           }))
           .sort((a, b) => b.probability - a.probability);
         return {
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { acceptExchangeOffer, cancelExchangeOffer } from "@/lib/fantasy/exchange";
+import { PickError } from "@/lib/fantasy/picks";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// POST /api/fantasy/exchange/[offerId] — take all or part of an offer.
+// Body: { amount } — backer-stake points, up to the offer's remaining size.
+// Both sides are escrowed atomically by the match RPC.
+export async function POST(req: Request, { params }: { params: Promise<{ offerId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { offerId } = await params;
+    const body = await req.json();
+
+    const { data: offerRow } = await supabaseAdmin
+      .from("fantasy_exchange_offers")
+      .select("group_id")
+      .eq("id", offerId)
+      .maybeSingle();
+    const groupId = (offerRow as { group_id: string } | null)?.group_id;
+    if (!groupId) return NextResponse.json({ error: "Offer not found" }, { status: 404 });
+    const role = await getGroupRole(groupId, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const { matchId } = await acceptExchangeOffer({ profileId, offerId, amount: body?.amount });
+    return NextResponse.json({ ok: true, matchId });
+  } catch (e: any) {
+    if (e instanceof PickError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// DELETE /api/fantasy/exchange/[offerId] — withdraw the unmatched remainder
+// of your own offer. Already-matched parts stand.
+export async function DELETE(req: Request, { params }: { params: Promise<{ offerId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { offerId } = await params;
+    await cancelExchangeOffer(offerId, profileId);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof PickError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+import { getLatestBacktest, runGroupBacktest } from "@/lib/fantasy/backtestReplay";
+
+export const runtime = "nodejs";
+// A run re-simulates every replayable settled event (capped) in one request.
+export const maxDuration = 60;
+
+// GET /api/fantasy/groups/[id]/backtest — the latest stored calibration
+// report (null before the first run). Group owner/admin only.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id: groupId } = await params;
+
+    const role = await getGroupRole(groupId, profileId);
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json({ error: "Admin only" }, { status: 403 });
+    }
+
+    const run = await getLatestBacktest(groupId);
+    return NextResponse.json({ run }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// POST /api/fantasy/groups/[id]/backtest — replay the group's settled events
+// from their captured generation inputs and store a fresh report.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id: groupId } = await params;
+
+    const role = await getGroupRole(groupId, profileId);
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json({ error: "Admin only" }, { status: 403 });
+    }
+
+    const run = await runGroupBacktest(groupId, profileId);
+    return NextResponse.json({ run });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
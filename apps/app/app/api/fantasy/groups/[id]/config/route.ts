@@ -31,7 +31,11 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
 
 // PUT /api/fantasy/groups/[id]/config — enable/update/disable (owner/admin only)
 // Body: { disabled: true }  → disable fantasy picks
-//       { mode, budgetScope, budgetAmount, topupIncrement? } → enable/update
+//       { mode, budgetScope, budgetAmount, topupIncrement?, draft?, eachWay? } → enable/update
+//       draft: { rosterSize, lineupSize, captainMultiplier?, scoring? } adds the
+//       draft league; omit it (or null) to turn the draft league off.
+//       eachWay: { terms: [{ minField, places, fraction }] } offers each-way on
+//       outright and season winner markets; omit it to keep them win only.
 export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { profileId } = await getAuthedProfileOrThrow(req);
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, setDraftLineup } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+// PUT /api/fantasy/groups/[id]/draft/lineups/[eventId] — set the caller's lineup for an event
+// Body: { starters: string[], bench: string[], captain: string }
+// Bench order is the substitution order; lineups lock on the event date.
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, eventId } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const body = await req.json();
+    if (!isIdList(body?.starters) || !isIdList(body?.bench ?? [])) {
+      return NextResponse.json({ error: "starters and bench must be lists of players" }, { status: 400 });
+    }
+
+    const lineup = await setDraftLineup({
+      groupId: id,
+      managerId: profileId,
+      eventId,
+      lineup: {
+        starters: body.starters,
+        bench: body.bench ?? [],
+        captain: typeof body.captain === "string" ? body.captain : null,
+      },
+    });
+    return NextResponse.json({ lineup });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, joinDraftLeague, leaveDraftLeague } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// POST /api/fantasy/groups/[id]/draft/managers — join the draft league (before the draft)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    await joinDraftLeague(id, profileId);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// DELETE /api/fantasy/groups/[id]/draft/managers — leave the draft league (before the draft)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    await leaveDraftLeague(id, profileId);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
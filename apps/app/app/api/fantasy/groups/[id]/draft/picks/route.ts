@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, makeDraftPick } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// POST /api/fantasy/groups/[id]/draft/picks — make the pick on the clock
+// Body: { playerId }. Owners/admins may pick for the manager on the clock.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const body = await req.json();
+    if (typeof body?.playerId !== "string") {
+      return NextResponse.json({ error: "playerId is required" }, { status: 400 });
+    }
+
+    const result = await makeDraftPick({
+      groupId: id,
+      actorId: profileId,
+      actorIsAdmin: role === "owner" || role === "admin",
+      playerId: body.playerId,
+    });
+    return NextResponse.json(result);
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { createDraftLeague, DraftError, getDraftLeagueState } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// GET /api/fantasy/groups/[id]/draft — the current season's draft league:
+// draft board, rosters, lineups, trades, the caller's waiver claims and the
+// table. { league: null } until an admin creates it.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const state = await getDraftLeagueState(id, profileId);
+    return NextResponse.json({ ...state, role, viewerId: profileId }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// POST /api/fantasy/groups/[id]/draft — create this season's draft league (owner/admin only)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json({ error: "Only group owner or admin can set up the draft league" }, { status: 403 });
+    }
+
+    const league = await createDraftLeague(id, profileId);
+    return NextResponse.json({ league });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, startDraft } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// POST /api/fantasy/groups/[id]/draft/start — draw the snake order and open the draft (owner/admin only)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (role !== "owner" && role !== "admin") {
+      return NextResponse.json({ error: "Only group owner or admin can start the draft" }, { status: 403 });
+    }
+
+    const { order } = await startDraft(id);
+    return NextResponse.json({ order });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
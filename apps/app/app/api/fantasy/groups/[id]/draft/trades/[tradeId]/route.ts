@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, respondToTrade } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// PATCH /api/fantasy/groups/[id]/draft/trades/[tradeId] — respond to a pending trade
+// Body: { action: "accept" | "reject" } (recipient) or { action: "cancel" } (proposer)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; tradeId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, tradeId } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const body = await req.json();
+    if (!["accept", "reject", "cancel"].includes(body?.action)) {
+      return NextResponse.json({ error: "action must be accept, reject or cancel" }, { status: 400 });
+    }
+
+    const trade = await respondToTrade({ groupId: id, tradeId, profileId, action: body.action });
+    return NextResponse.json({ trade });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
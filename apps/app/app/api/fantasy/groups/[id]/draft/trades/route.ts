@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, proposeTrade } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+const isIdList = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+// POST /api/fantasy/groups/[id]/draft/trades — offer a trade to another manager
+// Body: { recipientId, offered: string[], requested: string[] }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const body = await req.json();
+    if (typeof body?.recipientId !== "string" || !isIdList(body?.offered) || !isIdList(body?.requested)) {
+      return NextResponse.json({ error: "recipientId, offered and requested are required" }, { status: 400 });
+    }
+
+    const trade = await proposeTrade({
+      groupId: id,
+      proposerId: profileId,
+      recipientId: body.recipientId,
+      offered: body.offered,
+      requested: body.requested,
+    });
+    return NextResponse.json({ trade });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { cancelWaiverClaim, DraftError } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// DELETE /api/fantasy/groups/[id]/draft/waivers/[claimId] — withdraw a pending claim
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; claimId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, claimId } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    await cancelWaiverClaim({ groupId: id, managerId: profileId, claimId });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
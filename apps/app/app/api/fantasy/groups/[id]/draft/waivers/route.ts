@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { DraftError, submitWaiverClaim } from "@/lib/fantasy/draftLeague";
+import { getGroupRole } from "@/lib/fantasy/wallet";
+
+export const runtime = "nodejs";
+
+// POST /api/fantasy/groups/[id]/draft/waivers — claim a free agent, dropping a rostered player
+// Body: { addPlayerId, dropPlayerId }. Claims run in the daily cron in waiver order.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    const role = await getGroupRole(id, profileId);
+    if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
+
+    const body = await req.json();
+    if (typeof body?.addPlayerId !== "string" || typeof body?.dropPlayerId !== "string") {
+      return NextResponse.json({ error: "addPlayerId and dropPlayerId are required" }, { status: 400 });
+    }
+
+    const claim = await submitWaiverClaim({
+      groupId: id,
+      managerId: profileId,
+      addPlayerId: body.addPlayerId,
+      dropPlayerId: body.dropPlayerId,
+    });
+    return NextResponse.json({ claim });
+  } catch (e: any) {
+    if (e instanceof DraftError) return NextResponse.json({ error: e.message }, { status: e.status });
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
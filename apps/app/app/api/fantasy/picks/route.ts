@@ -8,7 +8,8 @@ export const runtime = "nodejs";
 export const maxDuration = 60;
 
 // POST /api/fantasy/picks — place a pick.
-// Body: { marketId, selectionKey, snapshotId, stake }
+// Body: { marketId, selectionKey, snapshotId, stake, eachWay? }
+// eachWay doubles the cost: `stake` is staked on both the win and the place part.
 // The snapshot must still be active at the current event version — placing
 // against stale odds is rejected by the RPC (anti-sniping).
 export async function POST(req: Request) {
@@ -16,7 +17,7 @@ export async function POST(req: Request) {
     const { profileId } = await getAuthedProfileOrThrow(req);
     const body = await req.json();
 
-    const { marketId, selectionKey, snapshotId, stake } = body ?? {};
+    const { marketId, selectionKey, snapshotId, stake, eachWay } = body ?? {};
     if (!marketId || !selectionKey || !snapshotId) {
       return NextResponse.json(
         { error: "marketId, selectionKey and snapshotId are required" },
@@ -35,7 +36,7 @@ export async function POST(req: Request) {
     const role = await getGroupRole(groupId, profileId);
     if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
 
-    const { pickId } = await placePick({ profileId, marketId, selectionKey, snapshotId, stake });
+    const { pickId } = await placePick({ profileId, marketId, selectionKey, snapshotId, stake, eachWay });
     return NextResponse.json({ ok: true, pickId });
   } catch (e: any) {
     if (e instanceof PickError) {
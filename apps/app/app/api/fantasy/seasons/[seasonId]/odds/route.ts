@@ -66,7 +66,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ seasonId
         .eq("status", "open"),
       supabaseAdmin
         .from("fantasy_season_odds_snapshots")
-        .select("id, season_market_id, selection_key, decimal_odds, probability")
+        .select("id, season_market_id, selection_key, decimal_odds, probability, each_way_places, each_way_fraction")
         .eq("group_season_id", seasonId)
         .eq("season_version", state.version)
         .eq("status", "active"),
@@ -74,6 +74,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ seasonId
 
     const snaps = (snapRows ?? []) as {
       id: string; season_market_id: string; selection_key: string; decimal_odds: number | string; probability: number | string;
+      each_way_places: number | null; each_way_fraction: number | null;
     }[];
     const selectionIds = [...new Set(snaps.map((s) => s.selection_key))];
     const names: Record<string, string> = {};
@@ -96,6 +97,10 @@ export async function GET(req: Request, { params }: { params: Promise<{ seasonId
           decimal_odds: Number(s.decimal_odds),
           probability: Number(s.probability),
           snapshot_id: s.id,
+          each_way:
+            s.each_way_places != null && s.each_way_fraction != null
+              ? { places: s.each_way_places, fraction: s.each_way_fraction }
+              : null,
         }))
         .sort((a, b) => b.probability - a.probability),
     }));
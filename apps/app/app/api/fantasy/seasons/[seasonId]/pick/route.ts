@@ -8,13 +8,13 @@ import { supabaseAdmin } from "@/lib/supabaseAdmin";
 export const runtime = "nodejs";
 
 // POST /api/fantasy/seasons/[seasonId]/pick — place a season pick.
-// Body: { seasonMarketId, selectionKey, snapshotId, stake }
+// Body: { seasonMarketId, selectionKey, snapshotId, stake, eachWay? }
 export async function POST(req: Request, { params }: { params: Promise<{ seasonId: string }> }) {
   try {
     const { profileId } = await getAuthedProfileOrThrow(req);
     const { seasonId } = await params;
     const body = await req.json();
-    const { seasonMarketId, selectionKey, snapshotId, stake } = body ?? {};
+    const { seasonMarketId, selectionKey, snapshotId, stake, eachWay } = body ?? {};
     if (!seasonMarketId || !selectionKey || !snapshotId) {
       return NextResponse.json({ error: "seasonMarketId, selectionKey and snapshotId are required" }, { status: 400 });
     }
@@ -31,7 +31,14 @@ export async function POST(req: Request, { params }: { params: Promise<{ seasonI
     const role = await getGroupRole(market.group_id, profileId);
     if (!role) return NextResponse.json({ error: "Not a group member" }, { status: 403 });
 
-    const { pickId } = await placeSeasonPick({ profileId, seasonMarketId, selectionKey, snapshotId, stake });
+    const { pickId } = await placeSeasonPick({
+      profileId,
+      seasonMarketId,
+      selectionKey,
+      snapshotId,
+      stake,
+      eachWay,
+    });
     return NextResponse.json({ ok: true, pickId });
   } catch (e: any) {
     if (e instanceof PickError) return NextResponse.json({ error: e.message }, { status: e.status });
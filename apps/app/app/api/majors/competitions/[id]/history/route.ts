@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
 import { getCompetitionHistory } from "@/lib/majors/queries";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { loadTeamMatchHistory } from "@/lib/majors/teamMatchData";
 
 export const runtime = "nodejs";
 
@@ -76,8 +77,11 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
       })),
     }));
 
+    // Team match competitions also carry each team's record across editions.
+    const team_history = await loadTeamMatchHistory(id);
+
     return NextResponse.json(
-      { history: annotatedHistory, viewer_stats },
+      { history: annotatedHistory, viewer_stats, team_history },
       { headers: { "Cache-Control": "no-store" } }
     );
   } catch (e: any) {
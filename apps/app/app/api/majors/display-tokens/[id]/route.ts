@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { canManageDisplays } from "@/lib/majors/kioskData";
+
+export const runtime = "nodejs";
+
+// DELETE /api/majors/display-tokens/[id] — revoke a display; its link stops working at once
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data: display } = await supabaseAdmin
+      .from("display_tokens")
+      .select("id, event_id, group_season_id, revoked_at")
+      .eq("id", id)
+      .maybeSingle();
+    if (!display) return NextResponse.json({ error: "Display not found" }, { status: 404 });
+
+    const allowed = await canManageDisplays(profileId, {
+      eventId: (display as any).event_id,
+      groupSeasonId: (display as any).group_season_id,
+    });
+    if (!allowed) {
+      return NextResponse.json({ error: "Only group owner or admin can manage displays" }, { status: 403 });
+    }
+
+    if (!(display as any).revoked_at) {
+      const { error } = await supabaseAdmin
+        .from("display_tokens")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
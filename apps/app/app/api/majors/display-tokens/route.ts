@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { canManageDisplays, newDisplayToken } from "@/lib/majors/kioskData";
+
+export const runtime = "nodejs";
+
+// GET /api/majors/display-tokens?event_id=… | ?group_season_id=…
+// Lists the clubhouse displays (active and revoked) for an event or season.
+export async function GET(req: Request) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const url = new URL(req.url);
+    const eventId = url.searchParams.get("event_id");
+    const groupSeasonId = url.searchParams.get("group_season_id");
+    if (!eventId === !groupSeasonId) {
+      return NextResponse.json({ error: "Pass exactly one of event_id or group_season_id" }, { status: 400 });
+    }
+
+    if (!(await canManageDisplays(profileId, { eventId, groupSeasonId }))) {
+      return NextResponse.json({ error: "Only group owner or admin can manage displays" }, { status: 403 });
+    }
+
+    let query = supabaseAdmin
+      .from("display_tokens")
+      .select("*")
+      .order("created_at", { ascending: false });
+    query = eventId ? query.eq("event_id", eventId) : query.eq("group_season_id", groupSeasonId!);
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ displays: data ?? [] });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// POST /api/majors/display-tokens
+// Body: { event_id?: string, group_season_id?: string, label?: string }
+// Creates a revocable, login-free link to the kiosk page for one event or season.
+export async function POST(req: Request) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const body = await req.json();
+    const eventId: string | null = body.event_id ?? null;
+    const groupSeasonId: string | null = body.group_season_id ?? null;
+    if (!eventId === !groupSeasonId) {
+      return NextResponse.json({ error: "Pass exactly one of event_id or group_season_id" }, { status: 400 });
+    }
+
+    if (!(await canManageDisplays(profileId, { eventId, groupSeasonId }))) {
+      return NextResponse.json({ error: "Only group owner or admin can manage displays" }, { status: 403 });
+    }
+
+    const label = typeof body.label === "string" && body.label.trim() ? body.label.trim().slice(0, 60) : null;
+    const { data, error } = await supabaseAdmin
+      .from("display_tokens")
+      .insert({
+        token: newDisplayToken(),
+        event_id: eventId,
+        group_season_id: groupSeasonId,
+        label,
+        created_by: profileId,
+      })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json({ display: data }, { status: 201 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { readEclecticSettings } from "@/lib/majors/eclectic";
+import { getEclecticCompetition, loadEclecticLeaderboard } from "@/lib/majors/eclecticData";
+
+export const runtime = "nodejs";
+
+async function isGroupAdmin(groupId: string, profileId: string) {
+  const { data: membership } = await supabaseAdmin
+    .from("major_group_memberships")
+    .select("role")
+    .eq("group_id", groupId)
+    .eq("profile_id", profileId)
+    .eq("status", "active")
+    .maybeSingle();
+  return !!membership && ["owner", "admin"].includes((membership as any).role);
+}
+
+// GET /api/majors/eclectics/[eclecticId] — live leaderboard with each player's card and improvement history
+export async function GET(req: Request, { params }: { params: Promise<{ eclecticId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eclecticId } = await params;
+
+    const eclectic = await getEclecticCompetition(eclecticId);
+    if (!eclectic) return NextResponse.json({ error: "Eclectic not found" }, { status: 404 });
+
+    const [board, can_manage] = await Promise.all([
+      loadEclecticLeaderboard(eclectic),
+      isGroupAdmin(eclectic.group_id, profileId),
+    ]);
+
+    return NextResponse.json({ ...board, can_manage }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// PATCH /api/majors/eclectics/[eclecticId] — update rules or close the eclectic (admin)
+export async function PATCH(req: Request, { params }: { params: Promise<{ eclecticId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eclecticId } = await params;
+
+    const eclectic = await getEclecticCompetition(eclecticId);
+    if (!eclectic) return NextResponse.json({ error: "Eclectic not found" }, { status: 404 });
+    if (!(await isGroupAdmin(eclectic.group_id, profileId))) {
+      return NextResponse.json({ error: "Only group owner or admin can update an eclectic." }, { status: 403 });
+    }
+
+    const body = (await req.json()) as Record<string, unknown>;
+    const parsed = readEclecticSettings(body, true);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const patch: Record<string, unknown> = { ...parsed.settings, updated_at: new Date().toISOString() };
+    if (body.status !== undefined) {
+      if (body.status !== "active" && body.status !== "closed") {
+        return NextResponse.json({ error: "status must be active or closed." }, { status: 400 });
+      }
+      patch.status = body.status;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("eclectic_competitions")
+      .update(patch)
+      .eq("id", eclecticId)
+      .select("*, course:courses(id, name)")
+      .single();
+
+    if (error) throw error;
+    return NextResponse.json({ eclectic: data });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// DELETE /api/majors/eclectics/[eclecticId] (admin)
+export async function DELETE(req: Request, { params }: { params: Promise<{ eclecticId: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { eclecticId } = await params;
+
+    const eclectic = await getEclecticCompetition(eclecticId);
+    if (!eclectic) return NextResponse.json({ error: "Eclectic not found" }, { status: 404 });
+    if (!(await isGroupAdmin(eclectic.group_id, profileId))) {
+      return NextResponse.json({ error: "Only group owner or admin can delete an eclectic." }, { status: 403 });
+    }
+
+    const { error } = await supabaseAdmin.from("eclectic_competitions").delete().eq("id", eclecticId);
+    if (error) throw error;
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
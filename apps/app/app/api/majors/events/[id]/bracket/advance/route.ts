@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { advanceBracket } from "@/lib/majors/knockoutBracketData";
 
 export const runtime = "nodejs";
 
@@ -33,13 +34,10 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       }
     }
 
-    const { error } = await supabaseAdmin.rpc("ciaga_advance_matchplay_bracket", {
-      p_event_id: id,
-    });
+    // Routes winners and losers into their next slots and settles byes.
+    const { updated } = await advanceBracket(id);
 
-    if (error) throw error;
-
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, updated });
   } catch (e: any) {
     const msg = e?.message ?? "Unknown error";
     const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { parseBracketConfig } from "@/lib/majors/knockoutBracket";
+import { deleteBracket, generateBracket } from "@/lib/majors/knockoutBracketData";
+
+export const runtime = "nodejs";
+
+async function requireEventAdmin(eventId: string, profileId: string) {
+  const { data: event } = await supabaseAdmin
+    .from("events")
+    .select("id, group_id")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+  const groupId = (event as any).group_id;
+  if (groupId) {
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", groupId)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can draw the bracket" }, { status: 403 });
+    }
+  }
+  return null;
+}
+
+// POST /api/majors/events/[id]/bracket — seed the field and draw the knockout bracket
+// Body: { template: "single" | "double" | "plate", seeding: "handicap" | "order_of_merit" | "random", reseed?: boolean, redraw?: boolean }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const denied = await requireEventAdmin(id, profileId);
+    if (denied) return denied;
+
+    const body = await req.json();
+    const config = parseBracketConfig(body);
+
+    const { count } = await supabaseAdmin
+      .from("matchplay_stages")
+      .select("id", { count: "exact", head: true })
+      .eq("event_id", id)
+      .not("bracket_side", "is", null);
+
+    if ((count ?? 0) > 0) {
+      if (body.redraw !== true) {
+        return NextResponse.json({ error: "A bracket has already been drawn" }, { status: 409 });
+      }
+      await deleteBracket(id);
+    }
+
+    const { error: cfgErr } = await supabaseAdmin.from("events").update({ bracket_config: config }).eq("id", id);
+    if (cfgErr) throw cfgErr;
+
+    const randomSeed = Number.isInteger(body.random_seed)
+      ? Number(body.random_seed)
+      : Math.floor(Math.random() * 2 ** 31);
+    const { fixtures } = await generateBracket(id, config, randomSeed);
+
+    return NextResponse.json({ bracket_config: config, fixtures }, { status: 201 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth")
+      ? 401
+      : /at least 2 entries|no longer be redrawn/i.test(msg)
+      ? 400
+      : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// DELETE /api/majors/events/[id]/bracket — clear a bracket before any result is recorded
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const denied = await requireEventAdmin(id, profileId);
+    if (denied) return denied;
+
+    await deleteBracket(id);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth")
+      ? 401
+      : /no longer be redrawn/i.test(msg)
+      ? 400
+      : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
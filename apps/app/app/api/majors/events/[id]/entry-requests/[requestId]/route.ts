@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import {
+  createEventEntry,
+  evaluateEntryEligibility,
+  isEventAdmin,
+  isEventFull,
+  recordEntryAudit,
+} from "@/lib/majors/eventEntry";
+
+export const runtime = "nodejs";
+
+// PATCH /api/majors/events/[id]/entry-requests/[requestId]
+// Body: { action: "approve" | "reject" | "withdraw", reason? }
+// approve/reject — organiser only. Approval re-checks eligibility and capacity,
+// then creates the entry with the charges/pots the player picked.
+// withdraw — the requester only.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, requestId } = await params;
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action as string | undefined;
+    const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+    if (action !== "approve" && action !== "reject" && action !== "withdraw") {
+      return NextResponse.json({ error: "action must be approve, reject or withdraw" }, { status: 400 });
+    }
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+    const { data: request } = await supabaseAdmin
+      .from("event_entry_requests")
+      .select("*")
+      .eq("id", requestId)
+      .eq("event_id", id)
+      .maybeSingle();
+    if (!request) return NextResponse.json({ error: "Request not found" }, { status: 404 });
+
+    const r = request as any;
+    if (r.status !== "pending") {
+      return NextResponse.json({ error: `Request is already ${r.status}` }, { status: 409 });
+    }
+
+    if (action === "withdraw") {
+      if (r.profile_id !== profileId) {
+        return NextResponse.json({ error: "Only the requester can withdraw" }, { status: 403 });
+      }
+      const { data: updated, error } = await supabaseAdmin
+        .from("event_entry_requests")
+        .update({ status: "withdrawn", decided_at: new Date().toISOString() })
+        .eq("id", requestId)
+        .select("*")
+        .single();
+      if (error) throw error;
+      return NextResponse.json({ request: updated });
+    }
+
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can approve or reject entries" }, { status: 403 });
+    }
+
+    if (action === "reject") {
+      const { data: updated, error } = await supabaseAdmin
+        .from("event_entry_requests")
+        .update({
+          status: "rejected",
+          decision_reason: reason,
+          decided_by_profile_id: profileId,
+          decided_at: new Date().toISOString(),
+        })
+        .eq("id", requestId)
+        .select("*")
+        .single();
+      if (error) throw error;
+
+      await recordEntryAudit(id, profileId, "entry_rejected", {
+        request_id: requestId,
+        profile_id: r.profile_id,
+        reason,
+      });
+      return NextResponse.json({ request: updated });
+    }
+
+    // ── Approve ─────────────────────────────────────────────────────────────
+    if (event.majors_status === "cancelled" || event.majors_status === "completed") {
+      return NextResponse.json({ error: `Event is ${event.majors_status}` }, { status: 400 });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from("event_entries")
+      .select("id")
+      .eq("event_id", id)
+      .eq("profile_id", r.profile_id)
+      .maybeSingle();
+    if (existing) {
+      return NextResponse.json({ error: "Player is already entered" }, { status: 409 });
+    }
+
+    const { facts, failures } = await evaluateEntryEligibility(event, r.profile_id);
+    if (failures.length > 0) {
+      await recordEntryAudit(id, profileId, "entry_eligibility_failed", {
+        request_id: requestId,
+        profile_id: r.profile_id,
+        handicap_index: facts.handicap_index,
+        failures,
+      });
+      return NextResponse.json(
+        { error: `Player is no longer eligible: ${failures[0].message}`, failures },
+        { status: 403 }
+      );
+    }
+
+    if (await isEventFull(event)) {
+      return NextResponse.json({ error: "This event is full." }, { status: 409 });
+    }
+
+    const entry = await createEventEntry({
+      event,
+      profileId: r.profile_id,
+      handicapIndex: facts.handicap_index,
+      recordedBy: profileId,
+      options: r.options ?? {},
+    });
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("event_entry_requests")
+      .update({
+        status: "approved",
+        decision_reason: reason,
+        decided_by_profile_id: profileId,
+        decided_at: new Date().toISOString(),
+      })
+      .eq("id", requestId)
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    await recordEntryAudit(id, profileId, "entry_approved", {
+      request_id: requestId,
+      profile_id: r.profile_id,
+      entry_id: (entry as any).id,
+      handicap_index: facts.handicap_index,
+    });
+
+    return NextResponse.json({ request: updated, entry });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
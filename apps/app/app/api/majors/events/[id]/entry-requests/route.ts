@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { evaluateEntryEligibility, isEventAdmin } from "@/lib/majors/eventEntry";
+
+export const runtime = "nodejs";
+
+// GET /api/majors/events/[id]/entry-requests
+// Organisers get the approval queue (pending first, then recent decisions) with
+// each requester's eligibility re-checked against the current rules.
+// Everyone else gets only their own request, if any.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+    const isAdmin = await isEventAdmin(event, profileId);
+
+    const query = supabaseAdmin
+      .from("event_entry_requests")
+      .select(`
+        id, event_id, profile_id, status, handicap_index, options,
+        decision_reason, decided_by_profile_id, decided_at, created_at,
+        profile:profiles!profile_id(id, name, avatar_url)
+      `)
+      .eq("event_id", id)
+      .order("created_at", { ascending: true });
+
+    const { data, error } = isAdmin
+      ? await query
+      : await query.eq("profile_id", profileId);
+    if (error) throw error;
+
+    const rows = (data ?? []) as any[];
+    const requests = await Promise.all(
+      rows.map(async (r) => ({
+        ...r,
+        eligibility_failures:
+          isAdmin && r.status === "pending"
+            ? (await evaluateEntryEligibility(event, r.profile_id)).failures
+            : [],
+      }))
+    );
+    requests.sort((a, b) => Number(b.status === "pending") - Number(a.status === "pending"));
+
+    return NextResponse.json(
+      { requests, is_admin: isAdmin },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
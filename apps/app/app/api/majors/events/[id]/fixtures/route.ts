@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
 import { getEventFixtures } from "@/lib/majors/eventDetailQueries";
+import { parseLeagueConfig, roundDeadline, roundRobinSchedule } from "@/lib/majors/matchplayLeague";
 
 export const runtime = "nodejs";
 
@@ -26,7 +27,8 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
 
 // POST /api/majors/competitions/[id]/fixtures/generate
 // Generates fixtures for a league stage from entries, or first-round bracket.
-// Body: { stage_id?: string, stage_type?: string, stage_name?: string, mode: "league_round_robin" | "knockout_first_round" }
+// Body: { stage_id?: string, stage_type?: string, stage_name?: string, mode: "league_round_robin" | "knockout_first_round",
+//         league_config?: LeagueConfig (saved to the event), start_date?: "YYYY-MM-DD" (sets round deadlines) }
 export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { profileId } = await getAuthedProfileOrThrow(req);
@@ -36,7 +38,7 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
     // Auth check
     const { data: comp } = await supabaseAdmin
       .from("events")
-      .select("group_id")
+      .select("group_id, league_config")
       .eq("id", id)
       .maybeSingle();
 
@@ -59,6 +61,11 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
 
     const mode = body.mode ?? "league_round_robin";
 
+    const startDate = body.start_date ?? null;
+    if (startDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(String(startDate))) {
+      return NextResponse.json({ error: "start_date must be YYYY-MM-DD" }, { status: 400 });
+    }
+
     // Fetch entries
     const { data: entries, error: entriesErr } = await supabaseAdmin
       .from("event_entries")
@@ -90,17 +97,26 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
     const fixtures: Record<string, unknown>[] = [];
 
     if (mode === "league_round_robin") {
-      // Generate all pairs (round-robin)
-      for (let i = 0; i < entries.length; i++) {
-        for (let j = i + 1; j < entries.length; j++) {
-          fixtures.push({
-            event_id: id,
-            stage_id: stageId,
-            home_entry_id: entries[i].id,
-            away_entry_id: entries[j].id,
-            status: "scheduled",
-          });
-        }
+      const config = parseLeagueConfig({ ...((comp as any).league_config ?? {}), ...(body.league_config ?? {}) });
+      if (body.league_config) {
+        const { error: cfgErr } = await supabaseAdmin
+          .from("events")
+          .update({ league_config: config })
+          .eq("id", id);
+        if (cfgErr) throw cfgErr;
+      }
+
+      // Circle-method rounds so nobody has two fixtures due in the same window
+      for (const f of roundRobinSchedule(entries.map((e) => e.id), config.legs)) {
+        fixtures.push({
+          event_id: id,
+          stage_id: stageId,
+          round_number: f.round_number,
+          home_entry_id: f.home_entry_id,
+          away_entry_id: f.away_entry_id,
+          deadline_at: startDate ? roundDeadline(startDate, f.round_number, config.round_days) : null,
+          status: "scheduled",
+        });
       }
     } else if (mode === "knockout_first_round") {
       // Pair entries sequentially: 1v2, 3v4, etc.
@@ -2,25 +2,10 @@ import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
 import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
 
 export const runtime = "nodejs";
 
-/** True if `profileId` may manage this event (group owner/admin, or the creator
- *  of a non-group event). Mirrors the tee-times route + client isAdminOrOwner. */
-async function isEventAdmin(event: any, profileId: string): Promise<boolean> {
-  if (event.group_id) {
-    const { data: membership } = await supabaseAdmin
-      .from("major_group_memberships")
-      .select("role")
-      .eq("group_id", event.group_id)
-      .eq("profile_id", profileId)
-      .eq("status", "active")
-      .maybeSingle();
-    return !!membership && ["owner", "admin"].includes((membership as any).role);
-  }
-  return event.created_by_profile_id === profileId;
-}
-
 // POST /api/majors/events/[id]/invitations — invite a player to an event.
 // Body: { profile_id }
 export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
 import { getEventById } from "@/lib/majors/queries";
+import { requiresGroupMembership } from "@/lib/majors/eligibility";
+import { evaluateEntryEligibility } from "@/lib/majors/eventEntry";
 
 export const runtime = "nodejs";
 
@@ -19,16 +21,18 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
       return NextResponse.json({ error: "Event has no associated group" }, { status: 400 });
     }
 
-    // Must be an active group member
-    const { data: membership } = await supabaseAdmin
-      .from("major_group_memberships")
-      .select("status")
-      .eq("group_id", event.group_id)
-      .eq("profile_id", profileId)
-      .maybeSingle();
+    // Must be an active group member (public events are open to non-members)
+    if (requiresGroupMembership(event)) {
+      const { data: membership } = await supabaseAdmin
+        .from("major_group_memberships")
+        .select("status")
+        .eq("group_id", event.group_id)
+        .eq("profile_id", profileId)
+        .maybeSingle();
 
-    if (!membership || (membership as any).status !== "active") {
-      return NextResponse.json({ error: "You must be a group member to preview this event" }, { status: 403 });
+      if (!membership || (membership as any).status !== "active") {
+        return NextResponse.json({ error: "You must be a group member to preview this event" }, { status: 403 });
+      }
     }
 
     // ── 1. Event charges ──────────────────────────────────────────────────────
@@ -116,6 +120,9 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
       .reduce((s: number, p: any) => s + (p.entry_fee_amount ? Number(p.entry_fee_amount) : 0), 0);
     const groupMandatoryTotal = group_mandatory_charges.reduce((s: number, c: any) => s + Number(c.amount), 0);
 
+    // ── 7. Eligibility + approval ─────────────────────────────────────────────
+    const { failures: eligibility_failures } = await evaluateEntryEligibility(event, profileId);
+
     const projected_balance =
       current_balance +
       (entryFee ?? 0) +
@@ -136,6 +143,8 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
         entry_fee_amount: entryFee,
         current_balance,
         projected_balance,
+        eligibility_failures,
+        entry_approval_required: !!(event as any).entry_approval_required,
       },
       { headers: { "Cache-Control": "no-store" } }
     );
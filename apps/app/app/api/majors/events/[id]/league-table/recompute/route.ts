@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { recomputeLeagueTable } from "@/lib/majors/matchplayLeagueData";
 
 export const runtime = "nodejs";
 
@@ -33,11 +34,7 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       }
     }
 
-    const { error } = await supabaseAdmin.rpc("ciaga_compute_matchplay_league_table", {
-      p_event_id: id,
-    });
-
-    if (error) throw error;
+    await recomputeLeagueTable(id);
 
     return NextResponse.json({ ok: true });
   } catch (e: any) {
@@ -453,6 +453,10 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
           resolutionType: effectiveType === "countback" ? "countback" : "playoff",
         });
 
+        // A tie held back the winner's cut when the event completed.
+        const { recordWinnersCuts } = await import("@/lib/majors/handicapCommitteeData");
+        await recordWinnersCuts(eventId).catch(() => {});
+
         return NextResponse.json({ ok: true });
       }
 
@@ -3,6 +3,12 @@ import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
 import { getEventById } from "@/lib/majors/queries";
 import { reconcileEventStatus } from "@/lib/majors/reconcileStatus";
+import { parseEligibilityRules } from "@/lib/majors/eligibility";
+import { parseLeagueConfig } from "@/lib/majors/matchplayLeague";
+import { recomputeLeagueTable } from "@/lib/majors/matchplayLeagueData";
+import { parseBracketConfig } from "@/lib/majors/knockoutBracket";
+import { advanceBracket } from "@/lib/majors/knockoutBracketData";
+import { recordEntryAudit } from "@/lib/majors/eventEntry";
 
 export const runtime = "nodejs";
 
@@ -63,12 +69,33 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       // Leaderboard freeze / ceremony reveal config
       "leaderboard_freeze_last_holes", "leaderboard_freeze_scope", "leaderboard_freeze_top_x",
       "leaderboard_freeze_auto_reveal", "leaderboard_reveal_style", "leaderboard_reveal_top_x",
-      "points_config"];
+      "points_config",
+      // Party games for the event's rounds
+      "side_games",
+      // Public listing + organiser approval of entries
+      "visibility", "entry_approval_required",
+      // Matchplay league points, tiebreakers and deadlines
+      "league_config",
+      // Knockout template, seeding and re-seeding
+      "bracket_config"];
     const updates: Record<string, unknown> = {};
     for (const field of allowedFields) {
       if (field in body) updates[field] = body[field];
     }
 
+    if ("eligibility_rules" in updates) {
+      updates.eligibility_rules = parseEligibilityRules(updates.eligibility_rules);
+    }
+    if ("league_config" in updates) {
+      updates.league_config = parseLeagueConfig(updates.league_config);
+    }
+    if ("bracket_config" in updates) {
+      updates.bracket_config = parseBracketConfig(updates.bracket_config);
+    }
+    if ("visibility" in updates && updates.visibility !== "group" && updates.visibility !== "public") {
+      return NextResponse.json({ error: "visibility must be group or public" }, { status: 400 });
+    }
+
     if (body.majors_status === "cancelled") {
       await supabaseAdmin
         .from("event_rounds")
@@ -92,6 +119,42 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
 
     if (error) throw error;
 
+    // Entry conditions are checked against every entrant, so changes are audited.
+    const entryRuleFields = ["eligibility_rules", "visibility", "entry_approval_required"] as const;
+    const changedRules = entryRuleFields.filter(
+      (f) => f in updates && JSON.stringify((event as any)[f] ?? null) !== JSON.stringify(updates[f] ?? null)
+    );
+    if (changedRules.length > 0) {
+      await recordEntryAudit(id, profileId, "rules_changed", {
+        fields: changedRules,
+        before: Object.fromEntries(changedRules.map((f) => [f, (event as any)[f] ?? null])),
+        after: Object.fromEntries(changedRules.map((f) => [f, updates[f] ?? null])),
+      });
+    }
+
+    // Tee-time rounds copy side_games when they're created — keep the ones
+    // that haven't started in step with the event.
+    if ("side_games" in updates) {
+      const { data: tts } = await supabaseAdmin.from("event_tee_times").select("round_id").eq("event_id", id);
+      const roundIds = (tts ?? []).map((t: any) => t.round_id).filter(Boolean) as string[];
+      if (roundIds.length > 0) {
+        await supabaseAdmin
+          .from("rounds")
+          .update({ side_games: updates.side_games ?? [] })
+          .in("id", roundIds)
+          .eq("status", "scheduled");
+      }
+    }
+
+    // New points or tiebreakers re-rank results already played.
+    if ("league_config" in updates) {
+      await recomputeLeagueTable(id);
+    }
+    // Turning re-seeding on or off re-draws rounds not yet played.
+    if ("bracket_config" in updates) {
+      await advanceBracket(id);
+    }
+
     return NextResponse.json({ event: data });
   } catch (e: any) {
     const msg = e?.message ?? "Unknown error";
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+import { isTeamMatchEvent } from "@/lib/majors/labels";
+import { loadTeamMatchBoard } from "@/lib/majors/teamMatchData";
+
+export const runtime = "nodejs";
+
+type TeamInput = {
+  team_number: 1 | 2;
+  name: string;
+  color?: string | null;
+  captain_profile_id?: string | null;
+  profile_ids: string[];
+};
+
+// GET /api/majors/events/[id]/teams — teams, sessions, matches and the team scoreboard
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const board = await loadTeamMatchBoard(id, profileId);
+    return NextResponse.json(board, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// PUT /api/majors/events/[id]/teams — organiser names the two teams, captains and rosters
+// Body: { teams: Array<{ team_number: 1 | 2, name, color?, captain_profile_id?, profile_ids: string[] }> }
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    if (!isTeamMatchEvent(event.event_type)) {
+      return NextResponse.json({ error: "Teams are only used by team match events" }, { status: 400 });
+    }
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can set up teams" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const input = (Array.isArray(body.teams) ? body.teams : []) as TeamInput[];
+    const numbers = input.map((t) => t.team_number).sort();
+    if (input.length !== 2 || numbers[0] !== 1 || numbers[1] !== 2) {
+      return NextResponse.json({ error: "Exactly two teams (1 and 2) are required" }, { status: 400 });
+    }
+
+    const { data: entries } = await supabaseAdmin
+      .from("event_entries")
+      .select("profile_id")
+      .eq("event_id", id);
+    const entrantIds = new Set(((entries ?? []) as any[]).map((e) => e.profile_id as string));
+
+    const seen = new Set<string>();
+    for (const t of input) {
+      if (!t.name?.trim()) return NextResponse.json({ error: "Each team needs a name" }, { status: 400 });
+      const ids = Array.isArray(t.profile_ids) ? t.profile_ids : [];
+      for (const pid of ids) {
+        if (!entrantIds.has(pid)) {
+          return NextResponse.json({ error: "Team rosters can only include entrants" }, { status: 400 });
+        }
+        if (seen.has(pid)) {
+          return NextResponse.json({ error: "A player can only be on one team" }, { status: 400 });
+        }
+        seen.add(pid);
+      }
+      if (t.captain_profile_id && !ids.includes(t.captain_profile_id)) {
+        return NextResponse.json({ error: "A captain must be on their own team" }, { status: 400 });
+      }
+    }
+
+    const { data: teams, error: teamErr } = await supabaseAdmin
+      .from("event_teams")
+      .upsert(
+        input.map((t) => ({
+          event_id: id,
+          team_number: t.team_number,
+          name: t.name.trim(),
+          color: t.color ?? null,
+          captain_profile_id: t.captain_profile_id ?? null,
+        })),
+        { onConflict: "event_id,team_number" }
+      )
+      .select("id, team_number");
+    if (teamErr) throw teamErr;
+
+    const { error: delErr } = await supabaseAdmin.from("event_team_members").delete().eq("event_id", id);
+    if (delErr) throw delErr;
+
+    const members = input.flatMap((t) => {
+      const teamId = ((teams ?? []) as any[]).find((row) => row.team_number === t.team_number)?.id;
+      return (t.profile_ids ?? []).map((pid) => ({ event_id: id, team_id: teamId, profile_id: pid }));
+    });
+    if (members.length > 0) {
+      const { error: memErr } = await supabaseAdmin.from("event_team_members").insert(members);
+      if (memErr) throw memErr;
+    }
+
+    const board = await loadTeamMatchBoard(id, profileId);
+    return NextResponse.json(board);
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
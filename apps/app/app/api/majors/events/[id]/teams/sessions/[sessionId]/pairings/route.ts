@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+import { SIDE_SIZE, TEAM_MATCH_FORMAT_LABELS } from "@/lib/majors/teamMatch";
+import { createSessionMatches } from "@/lib/majors/teamMatchData";
+import type { EventTeamSession } from "@/lib/majors/types";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string; sessionId: string }> };
+
+/**
+ * The team a caller may submit for: their own as captain, or either team
+ * (named in the request) as the organiser.
+ */
+async function resolveTeam(event: any, profileId: string, requested: number | null) {
+  const { data: teams } = await supabaseAdmin
+    .from("event_teams")
+    .select("id, team_number, captain_profile_id")
+    .eq("event_id", event.id);
+  const list = (teams ?? []) as any[];
+  const captainOf = list.find((t) => t.captain_profile_id === profileId);
+  if (captainOf && (requested == null || requested === captainOf.team_number)) return captainOf;
+  if (requested != null && (await isEventAdmin(event, profileId))) {
+    return list.find((t) => t.team_number === requested) ?? null;
+  }
+  return null;
+}
+
+// GET /api/majors/events/[id]/teams/sessions/[sessionId]/pairings?team=1|2
+// A captain's own submission, so they can edit it before the other side is in.
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, sessionId } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+    const teamParam = new URL(req.url).searchParams.get("team");
+    const team = await resolveTeam(event, profileId, teamParam ? Number(teamParam) : null);
+    if (!team) return NextResponse.json({ error: "Only captains can view pairings" }, { status: 403 });
+
+    const { data } = await supabaseAdmin
+      .from("event_team_pairings")
+      .select("pairings, submitted_at")
+      .eq("session_id", sessionId)
+      .eq("team_id", team.id)
+      .maybeSingle();
+
+    return NextResponse.json(
+      { team_number: team.team_number, pairings: (data as any)?.pairings ?? [], submitted_at: (data as any)?.submitted_at ?? null },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// PUT /api/majors/events/[id]/teams/sessions/[sessionId]/pairings
+// Body: { pairings: string[][], team_number?: 1 | 2 }
+// Pairings are in playing order. Once both captains have submitted, the
+// matches are drawn and each gets its own tee time.
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, sessionId } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+
+    const { data: sessionRow } = await supabaseAdmin
+      .from("event_team_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .eq("event_id", id)
+      .maybeSingle();
+    if (!sessionRow) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    const session = sessionRow as EventTeamSession;
+
+    const body = await req.json().catch(() => ({}));
+    const team = await resolveTeam(event, profileId, body.team_number != null ? Number(body.team_number) : null);
+    if (!team) return NextResponse.json({ error: "Only captains can submit pairings" }, { status: 403 });
+
+    const { count: drawn } = await supabaseAdmin
+      .from("event_team_matches")
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", sessionId);
+    if ((drawn ?? 0) > 0) {
+      return NextResponse.json({ error: "This session's matches have already been drawn" }, { status: 409 });
+    }
+
+    const pairings = (Array.isArray(body.pairings) ? body.pairings : []) as string[][];
+    if (pairings.length === 0) return NextResponse.json({ error: "pairings are required" }, { status: 400 });
+
+    const { data: members } = await supabaseAdmin
+      .from("event_team_members")
+      .select("profile_id")
+      .eq("team_id", team.id);
+    const roster = new Set(((members ?? []) as any[]).map((m) => m.profile_id as string));
+
+    const size = SIDE_SIZE[session.format];
+    const seen = new Set<string>();
+    for (const pairing of pairings) {
+      if (!Array.isArray(pairing) || pairing.length !== size) {
+        return NextResponse.json(
+          { error: `${TEAM_MATCH_FORMAT_LABELS[session.format]} need ${size} player${size === 1 ? "" : "s"} per match` },
+          { status: 400 }
+        );
+      }
+      for (const pid of pairing) {
+        if (!roster.has(pid)) return NextResponse.json({ error: "Pairings can only include your team" }, { status: 400 });
+        if (seen.has(pid)) return NextResponse.json({ error: "A player can only play once per session" }, { status: 400 });
+        seen.add(pid);
+      }
+    }
+
+    // The other captain's list fixes the number of matches once it's in.
+    const { data: other } = await supabaseAdmin
+      .from("event_team_pairings")
+      .select("pairings")
+      .eq("session_id", sessionId)
+      .neq("team_id", team.id)
+      .maybeSingle();
+    const otherCount = Array.isArray((other as any)?.pairings) ? (other as any).pairings.length : null;
+    if (otherCount != null && otherCount !== pairings.length) {
+      return NextResponse.json(
+        { error: `The other captain has submitted ${otherCount} match${otherCount === 1 ? "" : "es"}` },
+        { status: 400 }
+      );
+    }
+
+    const { error: upErr } = await supabaseAdmin.from("event_team_pairings").upsert(
+      {
+        session_id: sessionId,
+        team_id: team.id,
+        pairings,
+        submitted_by_profile_id: profileId,
+        submitted_at: new Date().toISOString(),
+      },
+      { onConflict: "session_id,team_id" }
+    );
+    if (upErr) throw upErr;
+
+    const result = await createSessionMatches(event, session, profileId);
+    if ("error" in result) return NextResponse.json({ error: result.error }, { status: 400 });
+
+    return NextResponse.json({ submitted: true, matches_created: result.created });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
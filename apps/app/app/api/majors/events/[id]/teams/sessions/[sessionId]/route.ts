@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+
+export const runtime = "nodejs";
+
+// DELETE /api/majors/events/[id]/teams/sessions/[sessionId]
+// Only while no matches have been drawn — after that, remove the tee times instead.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, sessionId } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can remove sessions" }, { status: 403 });
+    }
+
+    const { count } = await supabaseAdmin
+      .from("event_team_matches")
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", sessionId);
+    if ((count ?? 0) > 0) {
+      return NextResponse.json({ error: "This session's matches have already been drawn" }, { status: 409 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from("event_team_sessions")
+      .delete()
+      .eq("id", sessionId)
+      .eq("event_id", id);
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+import { isTeamMatchEvent } from "@/lib/majors/labels";
+import { TEAM_MATCH_FORMAT_LABELS, type TeamMatchFormat } from "@/lib/majors/teamMatch";
+
+export const runtime = "nodejs";
+
+// POST /api/majors/events/[id]/teams/sessions — organiser adds a session
+// Body: { format: "fourball" | "foursomes" | "singles", name?, scheduled_at?, event_round_id?, points_per_match? }
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    if (!isTeamMatchEvent(event.event_type)) {
+      return NextResponse.json({ error: "Sessions are only used by team match events" }, { status: 400 });
+    }
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can add sessions" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const format = body.format as TeamMatchFormat;
+    if (!(format in TEAM_MATCH_FORMAT_LABELS)) {
+      return NextResponse.json({ error: "Invalid session format" }, { status: 400 });
+    }
+    const points = body.points_per_match != null ? Number(body.points_per_match) : 1;
+    if (!Number.isFinite(points) || points <= 0) {
+      return NextResponse.json({ error: "points_per_match must be positive" }, { status: 400 });
+    }
+    if (body.scheduled_at && Number.isNaN(new Date(body.scheduled_at).getTime())) {
+      return NextResponse.json({ error: "Invalid scheduled_at" }, { status: 400 });
+    }
+
+    const { data: last } = await supabaseAdmin
+      .from("event_team_sessions")
+      .select("session_number")
+      .eq("event_id", id)
+      .order("session_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const sessionNumber = ((last as any)?.session_number ?? 0) + 1;
+
+    const { data: session, error } = await supabaseAdmin
+      .from("event_team_sessions")
+      .insert({
+        event_id: id,
+        session_number: sessionNumber,
+        name: typeof body.name === "string" && body.name.trim()
+          ? body.name.trim()
+          : `Session ${sessionNumber} · ${TEAM_MATCH_FORMAT_LABELS[format]}`,
+        format,
+        scheduled_at: body.scheduled_at ?? null,
+        event_round_id: body.event_round_id ?? null,
+        points_per_match: points,
+      })
+      .select("*")
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
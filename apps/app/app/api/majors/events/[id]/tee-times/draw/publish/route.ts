@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+import { announceEventTeeTime, createEventTeeTime, removeEventTeeTimes, resolveEventRound } from "@/lib/majors/eventTeeTimes";
+import { loadDrawEntrants } from "@/lib/majors/teeTimeDrawData";
+
+export const runtime = "nodejs";
+
+type PublishGroup = {
+  tee_time: string;
+  group_number: number;
+  start_hole?: number | null;
+  profile_ids: string[];
+};
+
+// POST /api/majors/events/[id]/tee-times/draw/publish
+// Body: { event_round_id?: string, groups: Array<{ tee_time, group_number, start_hole?, profile_ids }> }
+// Turns a previewed draw into real tee times. Refused while the round already
+// has tee times so a draw never silently reshuffles a published one; if any
+// group fails to save, the groups created so far are removed again so the
+// draw can simply be re-published. Players are only notified once every
+// group has saved.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can publish tee times" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const groups = (Array.isArray(body.groups) ? body.groups : []) as PublishGroup[];
+    if (groups.length === 0) {
+      return NextResponse.json({ error: "groups are required" }, { status: 400 });
+    }
+
+    const entrants = await loadDrawEntrants(id);
+    const genderById = new Map(entrants.map((p) => [p.profile_id, p.gender ?? null]));
+    const seen = new Set<string>();
+    for (const g of groups) {
+      if (!g.tee_time || Number.isNaN(new Date(g.tee_time).getTime())) {
+        return NextResponse.json({ error: "Each group needs a tee_time" }, { status: 400 });
+      }
+      if (!Array.isArray(g.profile_ids) || g.profile_ids.length === 0 || g.profile_ids.length > 4) {
+        return NextResponse.json({ error: "Groups must have 1–4 players" }, { status: 400 });
+      }
+      if (g.start_hole != null && g.start_hole !== 1 && g.start_hole !== 10) {
+        return NextResponse.json({ error: "start_hole must be 1 or 10" }, { status: 400 });
+      }
+      for (const pid of g.profile_ids) {
+        if (!genderById.has(pid)) {
+          return NextResponse.json({ error: "Draw includes a player who is not entered" }, { status: 400 });
+        }
+        if (seen.has(pid)) {
+          return NextResponse.json({ error: "A player appears in more than one group" }, { status: 400 });
+        }
+        seen.add(pid);
+      }
+    }
+
+    const { eventRoundId, eventRoundLabel, defaultTees } = await resolveEventRound(
+      id,
+      typeof body.event_round_id === "string" ? body.event_round_id : null
+    );
+
+    let existingQuery = supabaseAdmin
+      .from("event_tee_times")
+      .select("id", { count: "exact", head: true })
+      .eq("event_id", id);
+    if (eventRoundId) existingQuery = existingQuery.eq("event_round_id", eventRoundId);
+    const { count: existing } = await existingQuery;
+    if ((existing ?? 0) > 0) {
+      return NextResponse.json(
+        { error: "Tee times already exist for this round — remove them before publishing a draw" },
+        { status: 409 }
+      );
+    }
+
+    const ordered = [...groups].sort((a, b) => a.group_number - b.group_number);
+    const playersOf = (g: PublishGroup) =>
+      g.profile_ids.map((pid) => ({
+        profile_id: pid,
+        tee_box_id: genderById.get(pid) === "female" ? defaultTees.female : defaultTees.male,
+      }));
+    const created: { id: string; round_id: string | null }[] = [];
+    try {
+      for (const g of ordered) {
+        const row = await createEventTeeTime({
+          event,
+          profileId,
+          teeTime: g.tee_time,
+          groupNumber: g.group_number,
+          startHole: g.start_hole ?? null,
+          eventRoundId,
+          eventRoundLabel,
+          players: playersOf(g),
+          announce: false,
+        });
+        created.push(row);
+      }
+    } catch (e) {
+      await removeEventTeeTimes(created);
+      throw e;
+    }
+
+    for (const [i, g] of ordered.entries()) {
+      await announceEventTeeTime({
+        event,
+        profileId,
+        teeTime: g.tee_time,
+        groupNumber: g.group_number,
+        roundId: created[i].round_id as string,
+        players: playersOf(g),
+      });
+    }
+
+    return NextResponse.json({ tee_times: created }, { status: 201 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
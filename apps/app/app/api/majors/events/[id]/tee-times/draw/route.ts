@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getEventById } from "@/lib/majors/queries";
+import { isEventAdmin } from "@/lib/majors/eventEntry";
+import { drawTeeTimes, type DrawMode } from "@/lib/majors/teeTimeDraw";
+import { loadDrawEntrants, loadSeasonPairings } from "@/lib/majors/teeTimeDrawData";
+
+export const runtime = "nodejs";
+
+const DRAW_MODES: DrawMode[] = ["random", "handicap_low_first", "handicap_high_first", "avoid_repeats", "shotgun"];
+
+// POST /api/majors/events/[id]/tee-times/draw
+// Body: { mode, start_time, interval_minutes, group_size, seed?, locked?: { [profile_id]: groupIndex } }
+// Previews a draw over the event's entrants. Nothing is written; re-roll by
+// sending a new seed with the same locks, then POST the groups to ./publish.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const event = await getEventById(id);
+    if (!event) return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    if (!(await isEventAdmin(event, profileId))) {
+      return NextResponse.json({ error: "Only the organiser can draw tee times" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const mode = body.mode as DrawMode;
+    if (!DRAW_MODES.includes(mode)) {
+      return NextResponse.json({ error: "Invalid draw mode" }, { status: 400 });
+    }
+    const startTime = typeof body.start_time === "string" ? body.start_time : "";
+    if (!startTime || Number.isNaN(new Date(startTime).getTime())) {
+      return NextResponse.json({ error: "start_time is required" }, { status: 400 });
+    }
+    const interval = Number(body.interval_minutes);
+    if (!Number.isFinite(interval) || interval < 0 || interval > 60) {
+      return NextResponse.json({ error: "interval_minutes must be between 0 and 60" }, { status: 400 });
+    }
+    const groupSize = Number(body.group_size);
+    if (!Number.isInteger(groupSize) || groupSize < 2 || groupSize > 4) {
+      return NextResponse.json({ error: "group_size must be 2, 3 or 4" }, { status: 400 });
+    }
+    const seed = Number.isInteger(body.seed) ? Number(body.seed) : Math.floor(Math.random() * 2 ** 31);
+
+    const locked: Record<string, number> = {};
+    if (body.locked && typeof body.locked === "object") {
+      for (const [pid, idx] of Object.entries(body.locked)) {
+        if (Number.isInteger(idx)) locked[pid] = idx as number;
+      }
+    }
+
+    const players = await loadDrawEntrants(id);
+    if (players.length === 0) {
+      return NextResponse.json({ error: "No entrants to draw" }, { status: 400 });
+    }
+    const pastPairings = mode === "avoid_repeats" ? await loadSeasonPairings(event) : {};
+
+    const result = drawTeeTimes({
+      players,
+      mode,
+      startTime,
+      intervalMinutes: interval,
+      groupSize,
+      seed,
+      locked,
+      pastPairings,
+    });
+
+    return NextResponse.json({ ...result, seed }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
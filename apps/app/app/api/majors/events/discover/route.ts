@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { getPublicEvents } from "@/lib/majors/queries";
+
+export const runtime = "nodejs";
+
+const numParam = (v: string | null): number | null => {
+  if (v == null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+// GET /api/majors/events/discover
+// Upcoming public events. Query: from, to (YYYY-MM-DD), lat, lng, radius_km,
+// hcp_min, hcp_max, sort=date|distance
+export async function GET(req: Request) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const url = new URL(req.url);
+    const p = url.searchParams;
+
+    const lat = numParam(p.get("lat"));
+    const lng = numParam(p.get("lng"));
+    if ((lat == null) !== (lng == null)) {
+      return NextResponse.json({ error: "lat and lng must be given together" }, { status: 400 });
+    }
+
+    const items = await getPublicEvents(profileId, {
+      from: p.get("from") || undefined,
+      to: p.get("to") || undefined,
+      lat,
+      lng,
+      radiusKm: numParam(p.get("radius_km")),
+      hcpMin: numParam(p.get("hcp_min")),
+      hcpMax: numParam(p.get("hcp_max")),
+      sort: p.get("sort") === "distance" ? "distance" : "date",
+    });
+    return NextResponse.json({ items }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { parseEligibilityRules } from "@/lib/majors/eligibility";
 import { createNotificationsForMany } from "@/lib/notifications/notify";
 
 export const runtime = "nodejs";
@@ -46,7 +47,7 @@ export async function POST(req: Request) {
       scoring_model, points_model, points_table, eligibility_rules, handicap_rules,
       num_rounds, round_rules, time_rules, membership_rules, standings_contribution,
       competition_id, competition_event_template_id, event_year, event_category, aggregate_config,
-      rounds,
+      rounds, side_games, visibility, entry_approval_required,
       // Leaderboard freeze / ceremony reveal
       leaderboard_freeze_last_holes, leaderboard_freeze_scope, leaderboard_freeze_top_x,
       leaderboard_freeze_auto_reveal, leaderboard_reveal_style, leaderboard_reveal_top_x,
@@ -101,7 +102,9 @@ export async function POST(req: Request) {
         scoring_model: scoring_model ?? "net",
         points_model: points_model ?? "none",
         points_table: points_table ?? {},
-        eligibility_rules: eligibility_rules ?? {},
+        eligibility_rules: parseEligibilityRules(eligibility_rules),
+        visibility: visibility === "public" ? "public" : "group",
+        entry_approval_required: entry_approval_required === true,
         handicap_rules: handicap_rules ?? {},
         num_rounds: num_rounds ?? 1,
         round_rules: round_rules ?? {},
@@ -123,6 +126,7 @@ export async function POST(req: Request) {
         leaderboard_freeze_state: "live",
         leaderboard_reveal_style: leaderboard_reveal_style ?? "none",
         leaderboard_reveal_top_x: leaderboard_reveal_top_x ?? null,
+        side_games: Array.isArray(side_games) ? side_games : [],
       })
       .select("*")
       .single();
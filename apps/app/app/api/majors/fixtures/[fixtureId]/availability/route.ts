@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+
+export const runtime = "nodejs";
+
+// POST /api/majors/fixtures/[fixtureId]/availability — a player marks themselves ready to play
+// Body: { available: boolean }
+// If the deadline passes unplayed, the walkover goes to the only available player.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ fixtureId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { fixtureId } = await params;
+    const body = await req.json();
+
+    const { data: fixture } = await supabaseAdmin
+      .from("matchplay_fixtures")
+      .select(`
+        id, status, available_entry_ids,
+        home_entry:event_entries!home_entry_id(id, profile_id),
+        away_entry:event_entries!away_entry_id(id, profile_id)
+      `)
+      .eq("id", fixtureId)
+      .maybeSingle();
+
+    if (!fixture) return NextResponse.json({ error: "Fixture not found" }, { status: 404 });
+
+    const f = fixture as any;
+    const entryId = [f.home_entry, f.away_entry].find((e: any) => e?.profile_id === profileId)?.id;
+    if (!entryId) {
+      return NextResponse.json({ error: "Only the players in this fixture can set availability" }, { status: 403 });
+    }
+    if (f.status !== "scheduled") {
+      return NextResponse.json({ error: "This fixture has already been decided" }, { status: 409 });
+    }
+
+    const current: string[] = f.available_entry_ids ?? [];
+    const next = body.available === false
+      ? current.filter((id) => id !== entryId)
+      : [...new Set([...current, entryId])];
+
+    const { data: updated, error } = await supabaseAdmin
+      .from("matchplay_fixtures")
+      .update({ available_entry_ids: next })
+      .eq("id", fixtureId)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return NextResponse.json({ fixture: updated });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
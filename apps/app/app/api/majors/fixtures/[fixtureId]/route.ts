@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { recomputeLeagueTable } from "@/lib/majors/matchplayLeagueData";
+import { advanceBracket } from "@/lib/majors/knockoutBracketData";
 
 export const runtime = "nodejs";
 
@@ -18,7 +20,7 @@ export async function PATCH(
     // Fetch fixture to get competition for auth
     const { data: fixture } = await supabaseAdmin
       .from("matchplay_fixtures")
-      .select("competition_id, home_entry_id, away_entry_id, status")
+      .select("event_id, home_entry_id, away_entry_id, status")
       .eq("id", fixtureId)
       .maybeSingle();
 
@@ -28,7 +30,7 @@ export async function PATCH(
     const { data: comp } = await supabaseAdmin
       .from("events")
       .select("group_id")
-      .eq("id", (fixture as any).competition_id)
+      .eq("id", (fixture as any).event_id)
       .maybeSingle();
 
     const groupId = (comp as any)?.group_id;
@@ -96,16 +98,23 @@ export async function PATCH(
     // Emit audit log
     if (updates.result_type) {
       await supabaseAdmin.from("event_audit_log").insert({
-        event_id: (fixture as any).competition_id,
+        event_id: (fixture as any).event_id,
         actor_profile_id: profileId,
         action_type: "fixture_result_updated",
         payload: { fixture_id: fixtureId, result_type: updates.result_type },
       });
 
       // Trigger bracket advancement if applicable
-      await supabaseAdmin.rpc("ciaga_advance_matchplay_bracket", {
-        p_event_id: (fixture as any).competition_id,
-      });
+      await advanceBracket((fixture as any).event_id);
+
+      await recomputeLeagueTable((fixture as any).event_id);
+
+      // Settle fantasy markets on this fixture (and a finished bracket or
+      // league). Best-effort; the next odds refresh retries.
+      const eventId = (fixture as any).event_id as string;
+      import("@/lib/fantasy/settlement")
+        .then(({ settleFantasyMatchplayMarkets }) => settleFantasyMatchplayMarkets(eventId))
+        .catch(() => {});
     }
 
     return NextResponse.json({ fixture: updated });
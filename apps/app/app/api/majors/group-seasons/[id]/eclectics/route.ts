@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { readEclecticSettings } from "@/lib/majors/eclectic";
+
+export const runtime = "nodejs";
+
+// GET /api/majors/group-seasons/[id]/eclectics — the season's eclectic competitions
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data, error } = await supabaseAdmin
+      .from("eclectic_competitions")
+      .select("*, course:courses(id, name)")
+      .eq("group_season_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return NextResponse.json({ eclectics: data ?? [] }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// POST /api/majors/group-seasons/[id]/eclectics — create an eclectic at a nominated course (admin)
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data: gs } = await supabaseAdmin
+      .from("group_seasons")
+      .select("id, group_id")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!gs) return NextResponse.json({ error: "Season not found" }, { status: 404 });
+
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", (gs as any).group_id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can create an eclectic." }, { status: 403 });
+    }
+
+    const body = (await req.json()) as Record<string, unknown>;
+    const parsed = readEclecticSettings(body);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const courseId = String(body.course_id ?? "");
+    const { data: course } = courseId
+      ? await supabaseAdmin.from("courses").select("id").eq("id", courseId).maybeSingle()
+      : { data: null };
+    if (!course) return NextResponse.json({ error: "course_id must be an existing course." }, { status: 400 });
+
+    const { data, error } = await supabaseAdmin
+      .from("eclectic_competitions")
+      .insert({
+        ...parsed.settings,
+        group_id: (gs as any).group_id,
+        group_season_id: id,
+        course_id: courseId,
+        created_by_profile_id: profileId,
+      })
+      .select("*, course:courses(id, name)")
+      .single();
+
+    if (error) throw error;
+    return NextResponse.json({ eclectic: data }, { status: 201 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
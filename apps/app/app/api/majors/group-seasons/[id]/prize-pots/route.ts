@@ -93,6 +93,7 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       prize_table,
       metric_type,
       metric_description,
+      eclectic_competition_id,
       is_monetary = true,
       is_mandatory = false,
       prize_description,
@@ -102,6 +103,18 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       return NextResponse.json({ error: "name is required." }, { status: 400 });
     }
 
+    if (eclectic_competition_id) {
+      const { data: eclectic } = await supabaseAdmin
+        .from("eclectic_competitions")
+        .select("id")
+        .eq("id", String(eclectic_competition_id))
+        .eq("group_season_id", id)
+        .maybeSingle();
+      if (!eclectic) {
+        return NextResponse.json({ error: "Eclectic competition must belong to this season." }, { status: 400 });
+      }
+    }
+
     const { data, error } = await supabaseAdmin
       .from("prize_pots")
       .insert({
@@ -116,6 +129,7 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
         prize_table: prize_table ?? null,
         metric_type: metric_type ?? null,
         metric_description: metric_description ?? null,
+        eclectic_competition_id: eclectic_competition_id ?? null,
         is_monetary: is_monetary ?? true,
         is_mandatory: is_mandatory ?? false,
         prize_description: prize_description ?? null,
@@ -1,13 +1,14 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { SEASON_COUNTING_MODES } from "@/lib/majors/seasonCounting";
 
 export const runtime = "nodejs";
 
 // GET /api/majors/group-seasons/[id] — season metadata + all events across all competitions
 export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
-    await getAuthedProfileOrThrow(req);
+    const { profileId } = await getAuthedProfileOrThrow(req);
     const { id } = await params;
 
     const { data: season, error: seasonErr } = await supabaseAdmin
@@ -27,8 +28,17 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
 
     if (eventsErr) throw eventsErr;
 
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", (season as any).group_id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+    const can_manage = !!membership && ["owner", "admin"].includes((membership as any).role);
+
     return NextResponse.json(
-      { season, events: events ?? [] },
+      { season, events: events ?? [], can_manage },
       { headers: { "Cache-Control": "no-store" } }
     );
   } catch (e: any) {
@@ -38,7 +48,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
   }
 }
 
-// PATCH /api/majors/group-seasons/[id] — update name, dates, standings_model, status
+// PATCH /api/majors/group-seasons/[id] — update name, dates, standings_model, status, counting rule
 export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { profileId } = await getAuthedProfileOrThrow(req);
@@ -71,6 +81,42 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       if (key in body) patch[key] = body[key];
     }
 
+    // Counting rule: best N / drop worst N, with majors that always count.
+    const countingChanged =
+      "counting_mode" in body || "counting_n" in body || "counting_mandatory_event_ids" in body;
+    if ("counting_mode" in body) {
+      if (!SEASON_COUNTING_MODES.some((m) => m.value === body.counting_mode)) {
+        return NextResponse.json({ error: "Invalid counting_mode" }, { status: 400 });
+      }
+      patch.counting_mode = body.counting_mode;
+    }
+    if ("counting_n" in body) {
+      const n = body.counting_n == null ? null : Number(body.counting_n);
+      if (n !== null && (!Number.isInteger(n) || n < 1)) {
+        return NextResponse.json({ error: "counting_n must be a positive whole number" }, { status: 400 });
+      }
+      patch.counting_n = n;
+    }
+    if ((patch.counting_mode === "best_n" || patch.counting_mode === "drop_worst") && patch.counting_n == null) {
+      return NextResponse.json({ error: "counting_n is required for this counting rule" }, { status: 400 });
+    }
+    if ("counting_mandatory_event_ids" in body) {
+      const ids = Array.isArray(body.counting_mandatory_event_ids)
+        ? [...new Set(body.counting_mandatory_event_ids as string[])]
+        : [];
+      if (ids.length > 0) {
+        const { data: seasonEvents } = await supabaseAdmin
+          .from("events")
+          .select("id")
+          .eq("group_season_id", id)
+          .in("id", ids);
+        if ((seasonEvents ?? []).length !== ids.length) {
+          return NextResponse.json({ error: "Mandatory events must belong to this season" }, { status: 400 });
+        }
+      }
+      patch.counting_mandatory_event_ids = ids;
+    }
+
     const { data, error } = await supabaseAdmin
       .from("group_seasons")
       .update(patch)
@@ -79,6 +125,10 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       .single();
 
     if (error) throw error;
+
+    if (countingChanged) {
+      await supabaseAdmin.rpc("ciaga_compute_group_season_standings", { p_group_season_id: id });
+    }
     return NextResponse.json({ season: data });
   } catch (e: any) {
     const msg = e?.message ?? "Unknown error";
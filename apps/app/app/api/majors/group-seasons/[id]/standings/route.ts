@@ -22,6 +22,11 @@ export type SeasonStandingEntry = {
   avg_gross_to_par: number | null;
   avg_net_to_par: number | null;
   won_events: { event_id: string; event_name: string; event_date: string | null }[];
+  counted_event_ids: string[];
+  dropped_event_ids: string[];
+  dropped_points: number;
+  /** Every season result, flagged with whether it counted under the season's counting rule. */
+  results: { event_id: string; event_name: string; event_date: string | null; points: number; counted: boolean }[];
 };
 
 async function refreshGroupSeasonStandings(groupSeasonId: string) {
@@ -54,6 +59,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
       .select(`
         group_season_id, profile_id, position, season_points,
         events_played, wins, top_3s, best_finish, last_computed_at,
+        counted_event_ids, dropped_event_ids, dropped_points,
         profile:profiles(id, name, avatar_url)
       `)
       .eq("group_season_id", id)
@@ -66,7 +72,8 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
       .from("events")
       .select("id, name, event_date")
       .eq("group_season_id", id)
-      .in("majors_status", ["completed", "official"]);
+      .in("majors_status", ["completed", "official"])
+      .order("event_date", { ascending: true, nullsFirst: false });
 
     const eventIds = (seasonEvents ?? []).map((e: any) => e.id as string);
     const eventMap = new Map((seasonEvents ?? []).map((e: any) => [e.id as string, e]));
@@ -82,16 +89,22 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
     };
 
     const strokeMap = new Map<string, StrokeAgg>();
+    // profile_id → event_id → season points earned there
+    const pointsByPlayer = new Map<string, Map<string, number>>();
 
     if (eventIds.length > 0) {
       const { data: leaderEntries } = await supabaseAdmin
         .from("event_leaderboard_entries")
-        .select("profile_id, event_id, position, playoff_final_position, net_score, gross_score, to_par, course_par, rounds_submitted")
-        .in("event_id", eventIds)
-        .not("net_score", "is", null);
+        .select("profile_id, event_id, position, playoff_final_position, points_earned, net_score, gross_score, to_par, course_par, rounds_submitted")
+        .in("event_id", eventIds);
 
       for (const e of leaderEntries ?? []) {
         if (!e.profile_id) continue;
+        const pts = pointsByPlayer.get(e.profile_id) ?? new Map<string, number>();
+        pts.set(e.event_id, Number((e as any).points_earned ?? 0));
+        pointsByPlayer.set(e.profile_id, pts);
+        // Stroke aggregates only cover results with a net score.
+        if (e.net_score == null) continue;
         const agg: StrokeAgg = strokeMap.get(e.profile_id) ?? {
           total_gross: 0,
           total_net: 0,
@@ -126,6 +139,8 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
 
     const enriched = (standings ?? []).map((s: any) => {
       const agg = strokeMap.get(s.profile_id);
+      const counted = new Set<string>(s.counted_event_ids ?? []);
+      const dropped = new Set<string>(s.dropped_event_ids ?? []);
       return {
         ...s,
         // Rename group_season_id → season_id for compatibility with SeasonStandingEntry shape
@@ -143,6 +158,15 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
             ? Math.round((agg.net_to_par_sum / agg.total_rounds) * 10) / 10
             : null,
         won_events: agg?.won_events ?? [],
+        results: (seasonEvents ?? [])
+          .filter((ev: any) => counted.has(ev.id) || dropped.has(ev.id))
+          .map((ev: any) => ({
+            event_id: ev.id as string,
+            event_name: ev.name as string,
+            event_date: (ev.event_date as string | null) ?? null,
+            points: pointsByPlayer.get(s.profile_id)?.get(ev.id) ?? 0,
+            counted: counted.has(ev.id),
+          })),
       };
     });
 
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { MAX_STATEMENT_LINES } from "@/lib/majors/bankReconciliation";
+import {
+  loadGroupMembers,
+  loadOutstandingCharges,
+  postBankLine,
+  type ConfirmedBankLine,
+  type PostedBankLine,
+} from "@/lib/majors/bankReconciliationData";
+
+export const runtime = "nodejs";
+
+// POST /api/majors/groups/[id]/bank-import/confirm
+// Owner/admin only. Body: { lines: [{ line, profile_id, player_charge_ids }] }
+// Posts the credits the treasurer confirmed as payment transactions, marking
+// the chosen charges paid. Lines already imported are skipped, not repeated.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can import bank statements." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const input: ConfirmedBankLine[] = Array.isArray(body?.lines) ? body.lines : [];
+    if (input.length === 0) {
+      return NextResponse.json({ error: "No lines to post." }, { status: 400 });
+    }
+    if (input.length > MAX_STATEMENT_LINES) {
+      return NextResponse.json({ error: `Post ${MAX_STATEMENT_LINES} lines or fewer at a time.` }, { status: 400 });
+    }
+
+    const [members, outstanding] = await Promise.all([loadGroupMembers(id), loadOutstandingCharges(id)]);
+    const memberIds = new Set(members.map((m) => m.profile_id));
+
+    const results: PostedBankLine[] = [];
+    for (const item of input) {
+      const line = item?.line;
+      if (!line || typeof line.key !== "string" || !line.key || typeof line.amount !== "number") {
+        results.push({ key: String(line?.key ?? ""), status: "error", transaction_ids: [], error: "Malformed line." });
+        continue;
+      }
+      if (!memberIds.has(item.profile_id)) {
+        results.push({ key: line.key, status: "error", transaction_ids: [], error: "Not a member of this group." });
+        continue;
+      }
+      results.push(
+        await postBankLine(
+          id,
+          {
+            line: {
+              key: line.key,
+              row: Number(line.row) || 0,
+              date: typeof line.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(line.date) ? line.date : null,
+              amount: Math.round(line.amount * 100) / 100,
+              description: String(line.description ?? "").slice(0, 500),
+              reference: String(line.reference ?? "").slice(0, 500),
+            },
+            profile_id: item.profile_id,
+            player_charge_ids: Array.isArray(item.player_charge_ids) ? item.player_charge_ids.map(String) : [],
+          },
+          outstanding,
+          profileId
+        )
+      );
+    }
+
+    return NextResponse.json({
+      results,
+      posted: results.filter((r) => r.status === "posted").length,
+      already_imported: results.filter((r) => r.status === "already_imported").length,
+      failed: results.filter((r) => r.status === "error").length,
+    });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
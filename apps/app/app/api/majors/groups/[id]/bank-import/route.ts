@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { parseBankStatement } from "@/lib/majors/bankReconciliation";
+import { previewBankImport } from "@/lib/majors/bankReconciliationData";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+// POST /api/majors/groups/[id]/bank-import
+// Owner/admin only. Step 1 of the bank import: read an uploaded CSV / OFX
+// statement and suggest a member and the charges each credit settles.
+// Nothing is written — see ./confirm.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can import bank statements." }, { status: 403 });
+    }
+
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "File is larger than 2 MB" }, { status: 400 });
+    }
+    const name = file.name.toLowerCase();
+    if (![".csv", ".ofx", ".qfx"].some((ext) => name.endsWith(ext))) {
+      return NextResponse.json({ error: "Upload a .csv or .ofx bank statement" }, { status: 400 });
+    }
+
+    const { lines, errors } = parseBankStatement(await file.text(), file.name);
+    if (lines.length === 0) {
+      return NextResponse.json({ error: errors[0] ?? "No transactions found in the statement." }, { status: 400 });
+    }
+
+    const preview = await previewBankImport(id, lines);
+    return NextResponse.json({ ...preview, errors }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
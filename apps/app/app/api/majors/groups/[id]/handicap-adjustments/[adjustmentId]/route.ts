@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { recordHandicapAudit } from "@/lib/majors/handicapCommitteeData";
+
+export const runtime = "nodejs";
+
+// DELETE /api/majors/groups/[id]/handicap-adjustments/[adjustmentId]
+// Owner/admin only. Body: { reason }. Revokes the adjustment from the next
+// round started; the row is kept for the audit trail.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; adjustmentId: string }> }
+) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id, adjustmentId } = await params;
+
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can manage handicaps." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 200) : "";
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required." }, { status: 400 });
+    }
+
+    const { data: revoked, error } = await supabaseAdmin
+      .from("group_handicap_adjustments")
+      .update({ revoked_at: new Date().toISOString(), revoked_by: profileId, revoke_reason: reason })
+      .eq("id", adjustmentId)
+      .eq("group_id", id)
+      .is("revoked_at", null)
+      .select("id, profile_id, kind")
+      .maybeSingle();
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    if (!revoked) return NextResponse.json({ error: "Adjustment not found or already revoked." }, { status: 404 });
+
+    await recordHandicapAudit({
+      group_id: id,
+      action: "adjustment_revoked",
+      adjustment_id: adjustmentId,
+      profile_id: (revoked as any).profile_id,
+      actor_profile_id: profileId,
+      payload: { kind: (revoked as any).kind, reason },
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
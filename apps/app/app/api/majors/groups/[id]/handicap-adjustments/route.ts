@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { recordHandicapAudit } from "@/lib/majors/handicapCommitteeData";
+
+export const runtime = "nodejs";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST /api/majors/groups/[id]/handicap-adjustments
+// Owner/admin only. Body: { profile_id, kind: 'manual' | 'cap', strokes?, cap?,
+// reason, effective_from?, expires_at? }. Manual adjustments add `strokes`
+// (negative = cut); caps set the highest playing handicap allowed. Winner's
+// cuts are recorded automatically when an event completes, not here.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (!membership || !["owner", "admin"].includes((membership as any).role)) {
+      return NextResponse.json({ error: "Only group owner or admin can manage handicaps." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const kind = body?.kind;
+    const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 200) : "";
+    const effectiveFrom = typeof body?.effective_from === "string" && DATE_RE.test(body.effective_from)
+      ? body.effective_from
+      : new Date().toISOString().slice(0, 10);
+    const expiresAt = typeof body?.expires_at === "string" && DATE_RE.test(body.expires_at) ? body.expires_at : null;
+
+    if (kind !== "manual" && kind !== "cap") {
+      return NextResponse.json({ error: "kind must be 'manual' or 'cap'." }, { status: 400 });
+    }
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required." }, { status: 400 });
+    }
+    if (expiresAt && expiresAt < effectiveFrom) {
+      return NextResponse.json({ error: "Expiry can't be before the start date." }, { status: 400 });
+    }
+
+    let strokes: number | null = null;
+    let cap: number | null = null;
+    if (kind === "manual") {
+      strokes = Math.round(Number(body?.strokes) * 10) / 10;
+      if (!Number.isFinite(strokes) || strokes === 0 || Math.abs(strokes) > 18) {
+        return NextResponse.json({ error: "Strokes must be between -18 and 18, and not 0." }, { status: 400 });
+      }
+    } else {
+      cap = Number(body?.cap);
+      if (!Number.isInteger(cap) || cap < 0 || cap > 54) {
+        return NextResponse.json({ error: "Cap must be a whole number from 0 to 54." }, { status: 400 });
+      }
+    }
+
+    const { data: target } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("profile_id")
+      .eq("group_id", id)
+      .eq("profile_id", body?.profile_id ?? "")
+      .eq("status", "active")
+      .maybeSingle();
+    if (!target) {
+      return NextResponse.json({ error: "Not a member of this group." }, { status: 400 });
+    }
+
+    const { data: adjustment, error } = await supabaseAdmin
+      .from("group_handicap_adjustments")
+      .insert({
+        group_id: id,
+        profile_id: body.profile_id,
+        kind,
+        strokes,
+        cap,
+        reason,
+        effective_from: effectiveFrom,
+        expires_at: expiresAt,
+        created_by: profileId,
+      })
+      .select("*")
+      .single();
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    await recordHandicapAudit({
+      group_id: id,
+      action: "adjustment_created",
+      adjustment_id: (adjustment as any).id,
+      profile_id: body.profile_id,
+      actor_profile_id: profileId,
+      payload: { kind, strokes, cap, reason, effective_from: effectiveFrom, expires_at: expiresAt },
+    });
+
+    return NextResponse.json({ adjustment });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
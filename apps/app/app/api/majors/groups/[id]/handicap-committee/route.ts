@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { parseHandicapCommitteeConfig } from "@/lib/majors/handicapCommittee";
+import { listHandicapCommittee, recordHandicapAudit } from "@/lib/majors/handicapCommitteeData";
+
+export const runtime = "nodejs";
+
+async function isGroupAdmin(groupId: string, profileId: string): Promise<boolean> {
+  const { data: membership } = await supabaseAdmin
+    .from("major_group_memberships")
+    .select("role")
+    .eq("group_id", groupId)
+    .eq("profile_id", profileId)
+    .eq("status", "active")
+    .maybeSingle();
+  return !!membership && ["owner", "admin"].includes((membership as any).role);
+}
+
+// GET /api/majors/groups/[id]/handicap-committee
+// Owner/admin only. The committee rules, active adjustments and recent audit trail.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    if (!(await isGroupAdmin(id, profileId))) {
+      return NextResponse.json({ error: "Only group owner or admin can manage handicaps." }, { status: 403 });
+    }
+    return NextResponse.json(await listHandicapCommittee(id));
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// PATCH /api/majors/groups/[id]/handicap-committee
+// Owner/admin only. Body: { winners_cut: { strokes, decay_per_event } | null,
+// society_handicap: { weight_pct, window_events } | null }. Applies from the
+// next round started; rounds already under way keep their handicaps.
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const { id } = await params;
+    if (!(await isGroupAdmin(id, profileId))) {
+      return NextResponse.json({ error: "Only group owner or admin can manage handicaps." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const config = parseHandicapCommitteeConfig(body);
+
+    const { data: before } = await supabaseAdmin
+      .from("major_groups")
+      .select("handicap_committee")
+      .eq("id", id)
+      .maybeSingle();
+
+    const { error } = await supabaseAdmin.from("major_groups").update({ handicap_committee: config }).eq("id", id);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    await recordHandicapAudit({
+      group_id: id,
+      action: "config_updated",
+      actor_profile_id: profileId,
+      payload: { before: parseHandicapCommitteeConfig((before as any)?.handicap_committee), after: config },
+    });
+
+    return NextResponse.json({ config });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
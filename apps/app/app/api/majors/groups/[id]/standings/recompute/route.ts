@@ -31,6 +31,15 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
     }
 
     await supabaseAdmin.rpc("ciaga_compute_group_standings", { p_group_id: id });
+
+    // Season standings too, each under its own counting rule (best N / drop worst).
+    const { data: seasons } = await supabaseAdmin
+      .from("group_seasons")
+      .select("id")
+      .eq("group_id", id);
+    for (const gs of (seasons ?? []) as { id: string }[]) {
+      await supabaseAdmin.rpc("ciaga_compute_group_season_standings", { p_group_season_id: gs.id });
+    }
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     const msg = e?.message ?? "Unknown error";
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getKioskPayload, resolveDisplayToken } from "@/lib/majors/kioskData";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/majors/kiosk/[token]
+// Public and read-only: the display token is the only credential. Polled by
+// the clubhouse display; a revoked or unknown token gets a 404.
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const display = await resolveDisplayToken(token);
+    if (!display) return NextResponse.json({ error: "Display not found" }, { status: 404 });
+
+    const payload = await getKioskPayload(display);
+
+    // Best-effort heartbeat so organisers can see which screens are live.
+    await supabaseAdmin
+      .from("display_tokens")
+      .update({ last_seen_at: payload.generated_at })
+      .eq("id", display.id);
+
+    return NextResponse.json(payload, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
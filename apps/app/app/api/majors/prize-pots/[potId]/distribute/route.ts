@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { splitPrizeTable } from "@/lib/majors/eclectic";
+import { rankEclecticForPot } from "@/lib/majors/eclecticData";
 
 export const runtime = "nodejs";
 
@@ -125,10 +127,35 @@ export async function POST(req: Request, { params }: { params: Promise<{ potId:
           return NextResponse.json({ error: "No prize table configured for this pot." }, { status: 400 });
         }
 
-        // Resolve positions — for event pots use event leaderboard; for group-season pots use group season standings
+        // Resolve positions — eclectic pots use the linked eclectic among enrolled players;
+        // otherwise event pots use the event leaderboard and group-season pots the season standings
         let positionMap: Record<number, { profile_id: string; profile: unknown }> = {};
 
-        if ((pot as any).event_id) {
+        if ((pot as any).metric_type === "eclectic") {
+          if (!(pot as any).eclectic_competition_id) {
+            return NextResponse.json({ error: "Link an eclectic competition to this pot first." }, { status: 400 });
+          }
+          const ranked = await rankEclecticForPot(
+            (pot as any).eclectic_competition_id,
+            (entries as any[]).map((e) => e.profile_id)
+          );
+          // Eclectic totals tie often (positions 1, 1, 3) — tied cards split
+          // the combined share of the places they occupy.
+          proposed = splitPrizeTable(ranked ?? [], prizeTable).map(({ entry, position, pct, tied }) => ({
+            profile_id: entry.profile_id,
+            profile: { id: entry.profile_id, name: entry.name, avatar_url: entry.avatar_url },
+            position,
+            amount: totalPot > 0 ? Math.round((totalPot * pct) / 100 * 100) / 100 : 0,
+            note:
+              tied > 1
+                ? `Tied ${position} (${Math.round(pct * 100) / 100}% of pot, split ${tied} ways)`
+                : `Position ${position} (${pct}% of pot)`,
+          }));
+          if (proposed.length === 0) {
+            return NextResponse.json({ error: "No leaderboard/standings data found to determine positions." }, { status: 400 });
+          }
+          break;
+        } else if ((pot as any).event_id) {
           const { data: lb } = await supabaseAdmin
             .from("event_leaderboard_entries")
             .select("profile_id, position, playoff_final_position, profile:profiles!profile_id(id, name, avatar_url)")
@@ -1,12 +1,14 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { rankEclecticForPot } from "@/lib/majors/eclecticData";
 
 export const runtime = "nodejs";
 
 // POST /api/majors/prize-pots/[potId]/metrics/compute
 // Auto-computes metric values for enrolled players from hole score data.
-// Currently only supports metric_type = 'twos' (holes scored 2).
+// Supports metric_type = 'twos' (holes scored 2) on event pots and
+// metric_type = 'eclectic' (the linked eclectic's card total and best holes).
 // Updates prize_pot_entries.metric_value and metric_detail for each enrolled player.
 export async function POST(req: Request, { params }: { params: Promise<{ potId: string }> }) {
   try {
@@ -20,12 +22,16 @@ export async function POST(req: Request, { params }: { params: Promise<{ potId:
       .maybeSingle();
 
     if (!pot) return NextResponse.json({ error: "Prize pot not found." }, { status: 404 });
-    if ((pot as any).metric_type !== "twos") {
-      return NextResponse.json({ error: "Auto-compute is only supported for metric_type = 'twos'." }, { status: 400 });
+    const metricType = (pot as any).metric_type;
+    if (metricType !== "twos" && metricType !== "eclectic") {
+      return NextResponse.json({ error: "Auto-compute is only supported for metric_type = 'twos' or 'eclectic'." }, { status: 400 });
     }
-    if (!(pot as any).event_id) {
+    if (metricType === "twos" && !(pot as any).event_id) {
       return NextResponse.json({ error: "Auto-compute requires an event-scoped pot." }, { status: 400 });
     }
+    if (metricType === "eclectic" && !(pot as any).eclectic_competition_id) {
+      return NextResponse.json({ error: "Link an eclectic competition to this pot first." }, { status: 400 });
+    }
     if ((pot as any).status === "distributed") {
       return NextResponse.json({ error: "Cannot recompute metrics on a distributed pot." }, { status: 400 });
     }
@@ -56,6 +62,30 @@ export async function POST(req: Request, { params }: { params: Promise<{ potId:
 
     const enrolledIds = (entries as any[]).map((e) => e.profile_id);
 
+    if (metricType === "eclectic") {
+      const ranked = await rankEclecticForPot((pot as any).eclectic_competition_id, enrolledIds);
+      if (!ranked) return NextResponse.json({ error: "Linked eclectic competition not found." }, { status: 404 });
+      const byProfile = new Map(ranked.map((r) => [r.profile_id, r]));
+
+      const results: Array<{ profile_id: string; total: number | null; position: number | null }> = [];
+      for (const pid of enrolledIds) {
+        const row = byProfile.get(pid);
+        const { error: updateErr } = await supabaseAdmin
+          .from("prize_pot_entries")
+          .update({
+            metric_value: row ? row.card.total : null,
+            metric_detail: row
+              ? row.card.best.map((b) => ({ round_id: b.round_id, hole_number: b.hole_number, score: b.value }))
+              : null,
+          })
+          .eq("prize_pot_id", potId)
+          .eq("profile_id", pid);
+
+        if (!updateErr) results.push({ profile_id: pid, total: row?.card.total ?? null, position: row?.position ?? null });
+      }
+      return NextResponse.json({ updated: results.length, results });
+    }
+
     // Get accepted round submissions for this event and these players
     const { data: submissions } = await supabaseAdmin
       .from("event_round_submissions")
@@ -40,12 +40,24 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ potId:
     const body = await req.json();
     const allowed = ["name", "description", "prize_table", "metric_description", "prize_description",
       "entry_fee_amount", "entry_fee_currency", "entry_fee_notes", "distribution_type", "metric_type",
-      "is_monetary", "is_mandatory"];
+      "is_monetary", "is_mandatory", "eclectic_competition_id"];
     const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
     for (const key of allowed) {
       if (key in body) updates[key] = body[key];
     }
 
+    if (updates.eclectic_competition_id) {
+      const { data: eclectic } = await supabaseAdmin
+        .from("eclectic_competitions")
+        .select("id")
+        .eq("id", String(updates.eclectic_competition_id))
+        .eq("group_season_id", (pot as any).group_season_id ?? "")
+        .maybeSingle();
+      if (!eclectic) {
+        return NextResponse.json({ error: "Eclectic competition must belong to this pot's season." }, { status: 400 });
+      }
+    }
+
     const { data, error } = await supabaseAdmin
       .from("prize_pots")
       .update(updates)
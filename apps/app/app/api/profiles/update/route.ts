@@ -16,6 +16,9 @@ export async function POST(req: Request) {
     const name = typeof body?.name === "string" ? body.name.trim() : null;
     const avatar_url = typeof body?.avatar_url === "string" ? body.avatar_url.trim() : null;
     const gender = typeof body?.gender === "string" ? body.gender : null;
+    // Home club — string sets, explicit null clears, absent leaves unchanged.
+    const hasHomeCourse = body && "home_course_id" in body;
+    const home_course_id = typeof body?.home_course_id === "string" ? body.home_course_id : null;
 
     // Only allow updating specific fields
     const patch: Record<string, any> = {};
@@ -30,6 +33,17 @@ export async function POST(req: Request) {
         return NextResponse.json({ error: "Invalid gender" }, { status: 400 });
       patch.gender = gender;
     }
+    if (hasHomeCourse) {
+      if (home_course_id) {
+        const { data: course } = await supabaseAdmin
+          .from("courses")
+          .select("id")
+          .eq("id", home_course_id)
+          .maybeSingle();
+        if (!course) return NextResponse.json({ error: "Unknown course" }, { status: 400 });
+      }
+      patch.home_course_id = home_course_id;
+    }
 
     if (Object.keys(patch).length === 0) {
       return NextResponse.json({ error: "No fields to update" }, { status: 400 });
@@ -40,7 +54,7 @@ export async function POST(req: Request) {
       .from("profiles")
       .update(patch)
       .eq("owner_user_id", user.id)
-      .select("id, owner_user_id, name, email, avatar_url, gender")
+      .select("id, owner_user_id, name, email, avatar_url, gender, home_course_id")
       .maybeSingle();
 
     if (upErr) return NextResponse.json({ error: upErr.message }, { status: 500 });
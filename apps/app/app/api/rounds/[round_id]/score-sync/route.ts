@@ -0,0 +1,187 @@
+// /app/api/rounds/[round_id]/score-sync/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createSupabaseServer } from "@/lib/supabaseServer";
+import { getOwnedProfileIdOrThrow } from "@/lib/serverOwnedProfile";
+import { shotStatsForInsert, shotStatsFromRow } from "@/lib/rounds/shotStats";
+import {
+  resolveQueuedScore,
+  type QueuedScoreOp,
+  type ScoreSyncResult,
+  type ServerHoleState,
+} from "@/lib/rounds/scoreSync";
+import type { HoleState } from "@/lib/rounds/hooks/useRoundDetail";
+
+type Body = { ops?: QueuedScoreOp[] };
+
+const HOLE_STATES: HoleState[] = ["completed", "picked_up", "not_started"];
+const MAX_OPS = 200;
+
+function validOp(op: any, roundId: string): op is QueuedScoreOp {
+  return (
+    op &&
+    op.roundId === roundId &&
+    typeof op.participantId === "string" &&
+    Number.isInteger(op.holeNumber) &&
+    op.holeNumber >= 1 &&
+    op.holeNumber <= 18 &&
+    (op.strokes === null || (Number.isInteger(op.strokes) && op.strokes >= 1 && op.strokes <= 30)) &&
+    HOLE_STATES.includes(op.holeStatus) &&
+    Number.isFinite(op.timestamp)
+  );
+}
+
+/**
+ * The caller's auth user id: the page sends a bearer token; the service
+ * worker keeps no token and sends the session cookies instead.
+ */
+async function authUserId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get("authorization") || "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+  if (token) {
+    const { data, error } = await supabaseAdmin.auth.getUser(token);
+    return error ? null : data?.user?.id ?? null;
+  }
+  const supabase = await createSupabaseServer();
+  const { data } = await supabase.auth.getUser();
+  return data?.user?.id ?? null;
+}
+
+// Writes score ops queued while offline (page flush or the service worker's
+// background sync). Each op is checked against the hole's latest score event
+// first — see resolveQueuedScore — so a late sync can't silently overwrite a
+// newer entry from the marker. Ops are applied oldest first; the response says
+// what happened to each so the client can drop it from its queue.
+export async function POST(req: Request, { params }: { params: Promise<{ round_id: string }> }) {
+  try {
+    const { round_id: roundId } = await params;
+    if (!roundId) return NextResponse.json({ error: "Missing round_id" }, { status: 400 });
+
+    const userId = await authUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const myProfileId = await getOwnedProfileIdOrThrow(userId);
+    const body = (await req.json()) as Body;
+    const ops = Array.isArray(body?.ops) ? body.ops : [];
+    if (!ops.length) return NextResponse.json({ results: [] });
+    if (ops.length > MAX_OPS) return NextResponse.json({ error: `At most ${MAX_OPS} ops per sync` }, { status: 400 });
+    if (!ops.every((op) => validOp(op, roundId))) {
+      return NextResponse.json({ error: "Invalid score op" }, { status: 400 });
+    }
+
+    const [{ data: round, error: roundErr }, { data: roster, error: rosterErr }] = await Promise.all([
+      supabaseAdmin.from("rounds").select("status").eq("id", roundId).maybeSingle(),
+      supabaseAdmin.from("round_participants").select("id, profile_id, role").eq("round_id", roundId),
+    ]);
+    if (roundErr) return NextResponse.json({ error: roundErr.message }, { status: 500 });
+    if (!round) return NextResponse.json({ error: "Round not found" }, { status: 404 });
+    if (rosterErr) return NextResponse.json({ error: rosterErr.message }, { status: 500 });
+
+    const roleByProfile = new Map<string, string>();
+    for (const r of roster ?? []) if (r.profile_id) roleByProfile.set(r.profile_id, r.role);
+    const participantIds = new Set((roster ?? []).map((r) => r.id as string));
+
+    // Any participant can score — same permission model as the live page.
+    const myRole = roleByProfile.get(myProfileId) ?? null;
+    if (!myRole) return NextResponse.json({ error: "Not a participant in this round" }, { status: 403 });
+    if (round.status === "finished") {
+      return NextResponse.json({ error: "Round was finished before these scores synced" }, { status: 409 });
+    }
+    if (round.status !== "live") {
+      return NextResponse.json({ error: "Round hasn't started yet", needs_start: true }, { status: 409 });
+    }
+    if (!ops.every((op) => participantIds.has(op.participantId))) {
+      return NextResponse.json({ error: "Score op for a player who isn't in this round" }, { status: 400 });
+    }
+
+    // Latest event + hole state for every hole being written.
+    const pids = [...new Set(ops.map((op) => op.participantId))];
+    const [{ data: events, error: evErr }, { data: states, error: stErr }] = await Promise.all([
+      supabaseAdmin
+        .from("round_score_events")
+        .select("participant_id, hole_number, strokes, created_at, entered_by, putts, fairway, gir, sand_save, penalty_strokes")
+        .eq("round_id", roundId)
+        .in("participant_id", pids)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false }),
+      supabaseAdmin
+        .from("round_hole_states")
+        .select("participant_id, hole_number, status")
+        .eq("round_id", roundId)
+        .in("participant_id", pids),
+    ]);
+    if (evErr) return NextResponse.json({ error: evErr.message }, { status: 500 });
+    if (stErr) return NextResponse.json({ error: stErr.message }, { status: 500 });
+
+    const statusByKey = new Map<string, HoleState>();
+    for (const s of states ?? []) statusByKey.set(`${s.participant_id}:${s.hole_number}`, s.status as HoleState);
+
+    const server = new Map<string, ServerHoleState>();
+    for (const e of events ?? []) {
+      const key = `${e.participant_id}:${e.hole_number}`;
+      if (server.has(key)) continue; // ordered newest first
+      server.set(key, {
+        strokes: e.strokes ?? null,
+        holeStatus: statusByKey.get(key) ?? "not_started",
+        enteredAt: e.created_at,
+        enteredByRole: roleByProfile.get(e.entered_by) ?? null,
+        stats: shotStatsFromRow(e),
+      });
+    }
+
+    const results: ScoreSyncResult[] = [];
+    for (const op of [...ops].sort((a, b) => a.timestamp - b.timestamp)) {
+      const key = `${op.participantId}:${op.holeNumber}`;
+      const current = server.get(key) ?? null;
+      const outcome = resolveQueuedScore(op, myRole, current);
+
+      if (outcome === "applied") {
+        const event = {
+          round_id: roundId,
+          participant_id: op.participantId,
+          hole_number: op.holeNumber,
+          strokes: op.strokes,
+          entered_by: myProfileId,
+          ...shotStatsForInsert(op.strokes, op.stats ? shotStatsFromRow(op.stats) : null),
+        };
+        const state = { round_id: roundId, participant_id: op.participantId, hole_number: op.holeNumber, status: op.holeStatus };
+
+        // Same write order as the live page: a stroke's event first (its trigger
+        // marks the hole completed), a pick-up/clear's state first.
+        if (typeof op.strokes === "number") {
+          const { error } = await supabaseAdmin.from("round_score_events").insert(event);
+          if (error) return NextResponse.json({ error: error.message, results }, { status: 500 });
+        }
+        const { error: upErr } = await supabaseAdmin
+          .from("round_hole_states")
+          .upsert(state, { onConflict: "participant_id,hole_number" });
+        if (upErr) return NextResponse.json({ error: upErr.message, results }, { status: 500 });
+        if (typeof op.strokes !== "number") {
+          const { error } = await supabaseAdmin.from("round_score_events").insert(event);
+          if (error) return NextResponse.json({ error: error.message, results }, { status: 500 });
+        }
+
+        server.set(key, {
+          strokes: op.strokes,
+          holeStatus: op.holeStatus,
+          enteredAt: new Date().toISOString(),
+          enteredByRole: myRole,
+          stats: shotStatsFromRow(event),
+        });
+      }
+
+      const now = server.get(key);
+      results.push({
+        key: op.key,
+        timestamp: op.timestamp,
+        outcome,
+        strokes: now?.strokes ?? null,
+        holeStatus: now?.holeStatus ?? "not_started",
+      });
+    }
+
+    return NextResponse.json({ results });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+// /app/api/rounds/[round_id]/settlement/route.ts
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { playerName } from "@/lib/rounds/roundExport";
+import { isRoundParticipant } from "@/lib/rounds/roundExportData";
+import { loadRoundSettlement, loadRunningBalances, recordPayment } from "@/lib/rounds/settlementData";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ round_id: string }> };
+
+// Settle-up view for a participant: each side game's amounts, the round's
+// netted transfers, and the caller's running tab with the other profile
+// players in this round (across every round they've settled).
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { round_id: roundId } = await params;
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    if (!(await isRoundParticipant(profileId, roundId))) {
+      return NextResponse.json({ error: "Round not found" }, { status: 404 });
+    }
+
+    const loaded = await loadRoundSettlement(roundId);
+    if (!loaded) return NextResponse.json({ error: "Round not found" }, { status: 404 });
+    const { settlement, participants } = loaded;
+
+    const nameById = new Map(participants.map((p) => [p.id, playerName(p)]));
+    const profilePlayers = participants.filter((p) => p.profile_id && p.profile_id !== profileId);
+    const balances = await loadRunningBalances(
+      profileId,
+      profilePlayers.map((p) => p.profile_id as string)
+    );
+
+    return NextResponse.json({
+      games: settlement.games,
+      net: settlement.net,
+      transfers: settlement.transfers.map((t) => ({
+        ...t,
+        from_name: nameById.get(t.from) ?? "Player",
+        to_name: nameById.get(t.to) ?? "Player",
+      })),
+      players: participants.map((p) => ({ id: p.id, name: nameById.get(p.id), profile_id: p.profile_id ?? null })),
+      tab: profilePlayers.map((p) => ({
+        profile_id: p.profile_id,
+        name: nameById.get(p.id),
+        balance: balances[p.profile_id as string] ?? 0,
+      })),
+    });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+// The caller records cash received from another player in this round.
+// Body: { payer_profile_id, amount }
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { round_id: roundId } = await params;
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const body = await req.json().catch(() => ({}));
+    const payer = typeof body?.payer_profile_id === "string" ? body.payer_profile_id : null;
+    const amount = Number(body?.amount);
+
+    if (!payer || payer === profileId) {
+      return NextResponse.json({ error: "Choose who paid you" }, { status: 400 });
+    }
+    if (!Number.isFinite(amount) || amount <= 0 || amount > 100000) {
+      return NextResponse.json({ error: "Enter an amount greater than zero" }, { status: 400 });
+    }
+
+    const [iPlayed, theyPlayed] = await Promise.all([
+      isRoundParticipant(profileId, roundId),
+      isRoundParticipant(payer, roundId),
+    ]);
+    if (!iPlayed || !theyPlayed) {
+      return NextResponse.json({ error: "Both players must be in this round" }, { status: 403 });
+    }
+
+    await recordPayment({ payerProfileId: payer, payeeProfileId: profileId, amount });
+    const balances = await loadRunningBalances(profileId, [payer]);
+    return NextResponse.json({ ok: true, balance: balances[payer] ?? 0 });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
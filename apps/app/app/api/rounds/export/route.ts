@@ -0,0 +1,68 @@
+// /app/api/rounds/export/route.ts
+import { NextResponse } from "next/server";
+import { getAuthedProfileOrThrow } from "@/lib/auth/getAuthedProfile";
+import { parseImportDate } from "@/lib/rounds/scorecardImport";
+import { roundExportFilename, roundExportsToCsv, type RoundExport } from "@/lib/rounds/roundExport";
+import { MAX_EXPORT_ROUNDS, finishedRoundIdsInRange, isRoundParticipant, loadRoundExport } from "@/lib/rounds/roundExportData";
+
+export const runtime = "nodejs";
+
+// Player export of their own rounds, hole by hole.
+//   ?round_id=…            one round (any status) the caller played in
+//   ?from=YYYY-MM-DD&to=…  finished rounds in the range, oldest first
+//   &format=csv|json       default csv
+export async function GET(req: Request) {
+  try {
+    const { profileId } = await getAuthedProfileOrThrow(req);
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") === "json" ? "json" : "csv";
+    const roundId = url.searchParams.get("round_id");
+
+    let roundIds: string[];
+    let truncated = false;
+
+    if (roundId) {
+      if (!(await isRoundParticipant(profileId, roundId))) {
+        return NextResponse.json({ error: "Round not found" }, { status: 404 });
+      }
+      roundIds = [roundId];
+    } else {
+      const from = parseImportDate(url.searchParams.get("from") ?? "");
+      const to = parseImportDate(url.searchParams.get("to") ?? "");
+      if (!from || !to) {
+        return NextResponse.json({ error: "Pass round_id, or from and to (YYYY-MM-DD)" }, { status: 400 });
+      }
+      if (from > to) {
+        return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+      }
+      ({ roundIds, truncated } = await finishedRoundIdsInRange(profileId, from, to));
+    }
+
+    // Sequential: each round is a snapshot RPC plus a wolf-picks read.
+    const rounds: RoundExport[] = [];
+    for (const id of roundIds) {
+      const r = await loadRoundExport(id);
+      if (r) rounds.push(r);
+    }
+    if (roundId && !rounds.length) {
+      return NextResponse.json({ error: "Round not found" }, { status: 404 });
+    }
+
+    const headers = new Headers();
+    headers.set("Cache-Control", "no-store");
+    headers.set("Content-Disposition", `attachment; filename="${roundExportFilename(rounds, format)}"`);
+    if (truncated) headers.set("X-Export-Truncated", String(MAX_EXPORT_ROUNDS));
+
+    if (format === "json") {
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ rounds, truncated }, null, 2), { headers });
+    }
+
+    headers.set("Content-Type", "text/csv; charset=utf-8");
+    return new Response(roundExportsToCsv(rounds), { headers });
+  } catch (e: any) {
+    const msg = e?.message ?? "Unknown error";
+    const status = String(msg).toLowerCase().includes("auth") ? 401 : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
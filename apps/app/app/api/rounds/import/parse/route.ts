@@ -0,0 +1,64 @@
+// /app/api/rounds/import/parse/route.ts
+import { NextResponse } from "next/server";
+import ExcelJS from "exceljs";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { cellString } from "@/lib/admin/season-import/parse";
+import { parseScorecardCsv, parseScorecardTable } from "@/lib/rounds/scorecardImport";
+
+export const runtime = "nodejs";
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+// Step 1 of the scorecard import wizard: turn an uploaded CSV / XLSX into
+// scorecards. Nothing is written. XLSX reads the first worksheet only.
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("authorization") || "";
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+    if (!token) {
+      return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+    }
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(token);
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "File is larger than 2 MB" }, { status: 400 });
+    }
+
+    const name = file.name.toLowerCase();
+
+    if (name.endsWith(".csv")) {
+      return NextResponse.json(parseScorecardCsv(await file.text()));
+    }
+
+    if (name.endsWith(".xlsx")) {
+      const wb = new ExcelJS.Workbook();
+      await wb.xlsx.load(await file.arrayBuffer());
+      const sheet = wb.worksheets[0];
+      if (!sheet) return NextResponse.json({ error: "Workbook has no sheets" }, { status: 400 });
+
+      const rows: string[][] = [];
+      sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const cells: string[] = [];
+        for (let c = 1; c <= sheet.columnCount; c++) cells.push(cellString(row.getCell(c)));
+        rows[rowNumber - 1] = cells;
+      });
+      // eachRow skips trailing gaps; keep row numbers aligned with the sheet.
+      for (let i = 0; i < rows.length; i++) rows[i] = rows[i] ?? [];
+
+      return NextResponse.json(parseScorecardTable(rows));
+    }
+
+    return NextResponse.json({ error: "Upload a .csv or .xlsx file" }, { status: 400 });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
+  }
+}
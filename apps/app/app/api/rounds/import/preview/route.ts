@@ -0,0 +1,111 @@
+// /app/api/rounds/import/preview/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getOwnedProfileIdOrThrow } from "@/lib/serverOwnedProfile";
+import { checkScorecard, type ImportTee } from "@/lib/rounds/scorecardImport";
+
+type PreviewCard = {
+  row: number;
+  played_at: string;
+  tee_box_id: string;
+  strokes: (number | null)[];
+  total: number | null;
+};
+
+type Body = { cards?: PreviewCard[] };
+
+export type ImportPreviewResult = {
+  row: number;
+  blocking: string[];
+  warnings: string[];
+  /** A finished round of yours already exists at this course on this date. */
+  duplicate: boolean;
+};
+
+// Step 3 of the scorecard import wizard: check each card against the tee it
+// was matched to (hole count, totals, rating/slope) and against rounds the
+// player already has. Nothing is written.
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("authorization") || "";
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+    if (!token) {
+      return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+    }
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(token);
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profileId = await getOwnedProfileIdOrThrow(userData.user.id);
+    const body = (await req.json().catch(() => ({}))) as Body;
+    const cards = Array.isArray(body.cards) ? body.cards : [];
+    if (!cards.length) return NextResponse.json({ results: [] });
+
+    const teeIds = Array.from(new Set(cards.map((c) => c.tee_box_id).filter(Boolean)));
+
+    const { data: teeRows, error: teeErr } = await supabaseAdmin
+      .from("course_tee_boxes")
+      .select("id, course_id, holes_count, rating, slope")
+      .in("id", teeIds);
+    if (teeErr) return NextResponse.json({ error: teeErr.message }, { status: 500 });
+
+    const { data: holeRows, error: holeErr } = await supabaseAdmin
+      .from("course_tee_holes")
+      .select("tee_box_id, hole_number, par")
+      .in("tee_box_id", teeIds);
+    if (holeErr) return NextResponse.json({ error: holeErr.message }, { status: 500 });
+
+    const parsByTee = new Map<string, (number | null)[]>();
+    for (const h of (holeRows ?? []) as any[]) {
+      const pars = parsByTee.get(h.tee_box_id) ?? [];
+      pars[h.hole_number - 1] = h.par ?? null;
+      parsByTee.set(h.tee_box_id, pars);
+    }
+
+    const teeById = new Map<string, { course_id: string; tee: ImportTee; rated: boolean }>();
+    for (const t of (teeRows ?? []) as any[]) {
+      const pars = parsByTee.get(t.id) ?? [];
+      const holesCount = Number(t.holes_count) || pars.length || 18;
+      teeById.set(t.id, {
+        course_id: t.course_id,
+        tee: { holesCount, pars: Array.from({ length: holesCount }, (_, i) => pars[i] ?? null) },
+        rated: t.rating != null && t.slope != null,
+      });
+    }
+
+    const courseIds = Array.from(new Set(Array.from(teeById.values()).map((t) => t.course_id)));
+    const { data: existing, error: exErr } = await supabaseAdmin
+      .from("rounds")
+      .select("course_id, started_at")
+      .eq("created_by", profileId)
+      .eq("status", "finished")
+      .in("course_id", courseIds);
+    if (exErr) return NextResponse.json({ error: exErr.message }, { status: 500 });
+
+    const playedKeys = new Set(
+      ((existing ?? []) as any[])
+        .filter((r) => r.started_at)
+        .map((r) => `${r.course_id}|${String(r.started_at).slice(0, 10)}`)
+    );
+
+    const results: ImportPreviewResult[] = cards.map((c) => {
+      const t = teeById.get(c.tee_box_id);
+      if (!t) return { row: c.row, blocking: ["Tee not found"], warnings: [], duplicate: false };
+
+      const check = checkScorecard({ strokes: c.strokes ?? [], total: c.total ?? null }, t.tee);
+      if (!t.rated) check.warnings.push("Tee has no rating/slope — this won't count towards your handicap");
+
+      return {
+        row: c.row,
+        ...check,
+        duplicate: playedKeys.has(`${t.course_id}|${c.played_at}`),
+      };
+    });
+
+    return NextResponse.json({ results });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,236 @@
+// /app/api/rounds/import/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getOwnedProfileIdOrThrow } from "@/lib/serverOwnedProfile";
+import { checkScorecard, parseImportDate } from "@/lib/rounds/scorecardImport";
+
+type Body = {
+  played_at?: string;
+  course_id?: string;
+  tee_box_id?: string;
+  strokes?: (number | null)[];
+  total?: number | null;
+};
+
+type TeeHole = {
+  hole_number: number;
+  par: number | null;
+  yardage: number | null;
+  handicap: number | null;
+};
+
+// Final step of the scorecard import wizard: create ONE finished round for the
+// caller from an imported card. The wizard calls this once per card, oldest
+// first, so each round's handicap index is taken from the history the earlier
+// imports just built.
+//
+// Same write path as the admin historical-round importer: round inserted as
+// 'live', snapshots + score events written, playing handicaps persisted with
+// the backdated variant, then flipped to 'finished' so the DB triggers compute
+// the WHS result and recalculate handicap history.
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("authorization") || "";
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+    if (!token) {
+      return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+    }
+
+    const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(token);
+    if (userErr || !userData?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profileId = await getOwnedProfileIdOrThrow(userData.user.id);
+    const body = (await req.json().catch(() => ({}))) as Body;
+
+    const playedAt = parseImportDate(body.played_at ?? "");
+    if (!playedAt || playedAt !== body.played_at) {
+      return NextResponse.json({ error: "played_at must be YYYY-MM-DD" }, { status: 400 });
+    }
+    if (playedAt > new Date().toISOString().slice(0, 10)) {
+      return NextResponse.json({ error: "Date is in the future" }, { status: 400 });
+    }
+    if (!body.course_id) return NextResponse.json({ error: "course_id is required" }, { status: 400 });
+    if (!body.tee_box_id) return NextResponse.json({ error: "tee_box_id is required" }, { status: 400 });
+    const strokes = Array.isArray(body.strokes) ? body.strokes.slice(0, 18) : [];
+
+    // 1) Course + tee
+    const { data: course, error: cErr } = await supabaseAdmin
+      .from("courses")
+      .select("id,name,city,country,lat,lng")
+      .eq("id", body.course_id)
+      .single();
+    if (cErr || !course) return NextResponse.json({ error: "Course not found" }, { status: 404 });
+
+    const { data: teeBox, error: tbErr } = await supabaseAdmin
+      .from("course_tee_boxes")
+      .select("id,course_id,name,gender,yards,par,rating,slope,holes_count")
+      .eq("id", body.tee_box_id)
+      .single();
+    if (tbErr || !teeBox || teeBox.course_id !== course.id) {
+      return NextResponse.json({ error: "Tee not found for this course" }, { status: 404 });
+    }
+
+    const { data: holes, error: hErr } = await supabaseAdmin
+      .from("course_tee_holes")
+      .select("hole_number,par,yardage,handicap")
+      .eq("tee_box_id", teeBox.id)
+      .order("hole_number", { ascending: true });
+    if (hErr) throw new Error(`Tee holes lookup failed: ${hErr.message}`);
+
+    const teeHoles: TeeHole[] = (holes ?? []) as TeeHole[];
+    if (!teeHoles.length) return NextResponse.json({ error: "Tee has no holes" }, { status: 400 });
+
+    const holesCount = teeBox.holes_count ?? teeHoles.length;
+    const check = checkScorecard(
+      { strokes, total: body.total ?? null },
+      { holesCount, pars: Array.from({ length: holesCount }, (_, i) => teeHoles[i]?.par ?? null) }
+    );
+    if (check.blocking.length) return NextResponse.json({ error: check.blocking.join("; ") }, { status: 400 });
+
+    const scored = strokes.flatMap((s, i) =>
+      Number.isInteger(s) && (s as number) >= 1 ? [{ hole_number: i + 1, strokes: s as number }] : []
+    );
+    if (!scored.length) return NextResponse.json({ error: "No hole-by-hole scores" }, { status: 400 });
+
+    // 2) Duplicate guard — one finished round per course per day.
+    const dayStart = `${playedAt}T00:00:00.000Z`;
+    const dayEnd = new Date(Date.parse(dayStart) + 24 * 60 * 60 * 1000).toISOString();
+    const { data: dupes, error: dupErr } = await supabaseAdmin
+      .from("rounds")
+      .select("id")
+      .eq("created_by", profileId)
+      .eq("course_id", course.id)
+      .eq("status", "finished")
+      .gte("started_at", dayStart)
+      .lt("started_at", dayEnd)
+      .limit(1);
+    if (dupErr) throw new Error(dupErr.message);
+    if (dupes?.length) {
+      return NextResponse.json(
+        { error: "You already have a round at this course on this date", duplicate: true, round_id: dupes[0].id },
+        { status: 409 }
+      );
+    }
+
+    // 3) HI as of the day before — same snapshot rule as the handicap replays.
+    const dayBefore = new Date(Date.parse(dayStart) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { data: hiAsOf, error: hiErr } = await supabaseAdmin.rpc("ciaga_true_hi_as_of", {
+      p_profile_id: profileId,
+      p_as_of: dayBefore,
+    });
+    if (hiErr) throw new Error(`Handicap lookup failed: ${hiErr.message}`);
+    const handicapIndex = hiAsOf != null ? Number(hiAsOf) : null;
+
+    // 4) Round (live first so the UPDATE to 'finished' fires the triggers)
+    const playedAtIso = new Date(playedAt).toISOString();
+    const { data: round, error: rErr } = await supabaseAdmin
+      .from("rounds")
+      .insert({
+        created_by: profileId,
+        status: "live",
+        visibility: "private",
+        course_id: course.id,
+        name: course.name,
+        started_at: playedAtIso,
+        finished_at: playedAtIso,
+      })
+      .select("id")
+      .single();
+    if (rErr || !round) throw new Error(`Create round failed: ${rErr?.message}`);
+
+    try {
+      // 5) Snapshots
+      const { data: courseSnap, error: csErr } = await supabaseAdmin
+        .from("round_course_snapshots")
+        .insert({
+          round_id: round.id,
+          source_course_id: course.id,
+          course_name: course.name,
+          city: course.city,
+          country: course.country,
+          lat: course.lat,
+          lng: course.lng,
+        })
+        .select("id")
+        .single();
+      if (csErr || !courseSnap) throw new Error(`Create course snapshot failed: ${csErr?.message}`);
+
+      const { data: teeSnap, error: tsErr } = await supabaseAdmin
+        .from("round_tee_snapshots")
+        .insert({
+          round_course_snapshot_id: courseSnap.id,
+          source_tee_box_id: teeBox.id,
+          name: teeBox.name,
+          gender: teeBox.gender,
+          holes_count: holesCount,
+          yards_total: teeBox.yards ?? teeHoles.reduce((a, h) => a + (h.yardage ?? 0), 0),
+          par_total: teeBox.par ?? teeHoles.reduce((a, h) => a + (h.par ?? 0), 0),
+          rating: teeBox.rating,
+          slope: teeBox.slope,
+        })
+        .select("id")
+        .single();
+      if (tsErr || !teeSnap) throw new Error(`Create tee snapshot failed: ${tsErr?.message}`);
+
+      const { error: hsErr } = await supabaseAdmin.from("round_hole_snapshots").insert(
+        teeHoles.map((h) => ({
+          round_tee_snapshot_id: teeSnap.id,
+          hole_number: h.hole_number,
+          par: h.par,
+          yardage: h.yardage,
+          stroke_index: h.handicap,
+        }))
+      );
+      if (hsErr) throw new Error(`Create hole snapshots failed: ${hsErr.message}`);
+
+      // 6) The player
+      const { data: part, error: rpErr } = await supabaseAdmin
+        .from("round_participants")
+        .insert({
+          round_id: round.id,
+          profile_id: profileId,
+          is_guest: false,
+          role: "owner",
+          handicap_index: handicapIndex,
+          // Frozen so later replays can't drift it to the current HI.
+          assigned_handicap_index: handicapIndex,
+          tee_snapshot_id: teeSnap.id,
+        })
+        .select("id")
+        .single();
+      if (rpErr || !part) throw new Error(`Create participant failed: ${rpErr?.message}`);
+
+      // 7) Scores
+      const { error: seErr } = await supabaseAdmin.from("round_score_events").insert(
+        scored.map((s) => ({
+          round_id: round.id,
+          participant_id: part.id,
+          hole_number: s.hole_number,
+          strokes: s.strokes,
+          entered_by: profileId,
+        }))
+      );
+      if (seErr) throw new Error(`Create score events failed: ${seErr.message}`);
+
+      // 8) CH / PH from the snapshotted HI (backdated: never the current HI)
+      const { error: phErr } = await supabaseAdmin.rpc("ciaga_persist_playing_handicaps_backdated", {
+        p_round_id: round.id,
+      });
+      if (phErr) throw new Error(`Persist playing handicaps failed: ${phErr.message}`);
+
+      // 9) Finish — fires the WHS result + handicap history triggers
+      const { error: finErr } = await supabaseAdmin.from("rounds").update({ status: "finished" }).eq("id", round.id);
+      if (finErr) throw new Error(`Finish round failed: ${finErr.message}`);
+    } catch (e) {
+      // Don't leave a half-built live round behind for the next attempt to trip over.
+      await supabaseAdmin.from("rounds").delete().eq("id", round.id);
+      throw e;
+    }
+
+    return NextResponse.json({ ok: true, round_id: round.id, warnings: check.warnings });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { getOwnedProfileIdOrThrow } from "@/lib/serverOwnedProfile";
 import { notifyFollowersOfRoundActivity } from "@/lib/notifications/roundActivity";
+import { isSingleBallFormat, teamPlayingHandicap } from "@/lib/rounds/whsDefaults";
+import { applyCommitteeAtRoundStart } from "@/lib/majors/handicapCommitteeData";
+import type { RoundFormatType } from "@/components/rounds/FormatSelector";
 
 type Body = { round_id: string };
 
@@ -242,16 +245,24 @@ export async function POST(req: Request) {
 
     if (handicapErr) return NextResponse.json({ error: handicapErr.message }, { status: 500 });
 
+    // Group handicap committee (cuts, caps, society handicap, event max) on
+    // top of the WHS values just persisted — before team handicaps use them.
+    let committeeStrokes: Map<string, number>;
+    try {
+      committeeStrokes = await applyCommitteeAtRoundStart(round.id);
+    } catch (e: any) {
+      return NextResponse.json({ error: e?.message ?? "Handicap committee failed" }, { status: 500 });
+    }
+
     // Compute and store team handicaps for single-ball formats
-    const SINGLE_BALL_FORMATS = ["scramble", "greensomes", "foursomes"];
     const { data: roundForFormat } = await supabaseAdmin
       .from("rounds")
       .select("format_type")
       .eq("id", round.id)
       .single();
 
-    if (roundForFormat && SINGLE_BALL_FORMATS.includes((roundForFormat as any).format_type)) {
-      const formatType = (roundForFormat as any).format_type as string;
+    if (roundForFormat && isSingleBallFormat((roundForFormat as any).format_type)) {
+      const formatType = (roundForFormat as any).format_type as RoundFormatType;
 
       // Fetch participants with team assignment and resolved course handicap
       const { data: teamsData } = await supabaseAdmin
@@ -268,25 +279,18 @@ export async function POST(req: Request) {
       if (teamsData && partsData) {
         for (const team of teamsData as any[]) {
           const members = (partsData as any[]).filter((p) => p.team_id === team.id);
+          // Committee cuts and caps carried onto the course handicap.
           const handicaps = members
-            .map((p) => typeof p.course_handicap_used === "number" ? p.course_handicap_used : null)
+            .map((p) =>
+              typeof p.course_handicap_used === "number"
+                ? p.course_handicap_used + (committeeStrokes.get(p.id) ?? 0)
+                : null
+            )
             .filter((h): h is number => h !== null);
 
-          if (handicaps.length === 0) continue;
-
-          const sorted = [...handicaps].sort((a, b) => a - b);
-          let teamHcp = 0;
-
-          if (formatType === "scramble") {
-            if (sorted.length === 1) teamHcp = Math.round(sorted[0] * 0.35);
-            else if (sorted.length === 2) teamHcp = Math.round(sorted[0] * 0.35 + sorted[1] * 0.15);
-            else if (sorted.length === 3) teamHcp = Math.round(sorted[0] * 0.30 + sorted[1] * 0.20 + sorted[2] * 0.10);
-            else teamHcp = Math.round(sorted[0] * 0.25 + sorted[1] * 0.20 + sorted[2] * 0.15 + sorted[3] * 0.10);
-          } else if (formatType === "greensomes") {
-            teamHcp = Math.round(sorted[0] * 0.6 + (sorted[1] ?? sorted[0]) * 0.4);
-          } else if (formatType === "foursomes") {
-            teamHcp = Math.round((sorted[0] + (sorted[1] ?? sorted[0])) * 0.5);
-          }
+          // Weighted per the format's WHS team allowance
+          const teamHcp = teamPlayingHandicap(formatType, handicaps);
+          if (teamHcp === null) continue;
 
           await supabaseAdmin
             .from("round_teams")
@@ -10,6 +10,7 @@ import type { HistorySummaryRound } from "@/lib/rounds/historySummary";
 import { Button } from "@/components/ui/button";
 import { BackButton } from "@/components/ui/BackButton";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import RoundExportPanel from "@/components/rounds/RoundExportPanel";
 import { formatHI, strokesReceivedOnHole } from "@/lib/rounds/handicapUtils";
 
 type ProfileRow = {
@@ -570,7 +571,13 @@ export default function RoundsHistoryPage() {
               </div>
             </div>
 
-            <div className="w-[64px]" />
+            {profileFromQuery ? (
+              <div className="w-[64px]" />
+            ) : (
+              <Button asChild variant="ghost" size="sm" className="px-2 text-emerald-100 hover:bg-emerald-900/30 shrink-0 min-w-[64px] justify-center">
+                <Link href="/history/import">Import</Link>
+              </Button>
+            )}
           </div>
         </header>
 
@@ -619,6 +626,12 @@ export default function RoundsHistoryPage() {
             </div>
           )}
 
+          {!loading && !error && rounds.length > 0 && !profileFromQuery && (
+            <div className="mb-3">
+              <RoundExportPanel />
+            </div>
+          )}
+
           {!loading && !error && rounds.length > 0 && (
             <Tabs defaultValue="acceptable" className="space-y-3">
               <TabsList className="w-full bg-emerald-900/30 border border-emerald-900/70 rounded-xl p-1">
@@ -0,0 +1,647 @@
+// /app/history/import/ImportClient.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { Button } from "@/components/ui/button";
+import { BackButton } from "@/components/ui/BackButton";
+import {
+  MAX_IMPORT_ROWS,
+  holesPlayed,
+  matchTeeName,
+  type ImportedScorecard,
+} from "@/lib/rounds/scorecardImport";
+import type { ImportPreviewResult } from "@/app/api/rounds/import/preview/route";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+type SearchItem = { id: string; name: string; lat: number; lng: number; subtitle?: string };
+type TeeBox = { id: string; name: string | null; rating: number | null; slope: number | null; par: number | null };
+
+type CourseMatch = {
+  query: string;
+  results: SearchItem[];
+  searching: boolean;
+  resolvingId: string | null;
+  courseId: string | null;
+  courseLabel: string | null;
+  tees: TeeBox[];
+  error: string | null;
+};
+
+type ImportStatus = { state: "pending" | "ok" | "duplicate" | "error"; message?: string; roundId?: string };
+
+const STEPS = ["Upload", "Courses", "Preview", "Import"];
+
+const TEMPLATE_CSV =
+  ["date,course,tee,total," + Array.from({ length: 18 }, (_, i) => i + 1).join(","),
+   "2024-03-09,Royal Example Golf Club,Yellow,88,5,4,6,3,5,5,4,6,4,5,4,5,3,6,5,4,5,4"].join("\n") + "\n";
+
+const CARD = "rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4";
+const INPUT =
+  "h-10 w-full rounded-xl border border-emerald-900/70 bg-[#042713] px-3 text-sm font-semibold text-emerald-50 outline-none focus:border-[#f5e6b0]/70";
+
+async function authHeader(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not authenticated");
+  return { Authorization: `Bearer ${token}` };
+}
+
+function teeKey(courseName: string, teeName: string) {
+  return `${courseName}|${teeName}`;
+}
+
+function shortDate(iso: string | null) {
+  if (!iso) return "—";
+  const d = new Date(`${iso}T12:00:00Z`);
+  return d.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "2-digit" });
+}
+
+function gross(card: ImportedScorecard) {
+  return card.strokes.reduce<number>((s, v) => s + (v ?? 0), 0);
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export default function ImportClient() {
+  const [step, setStep] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // Step 1
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [cards, setCards] = useState<ImportedScorecard[]>([]);
+
+  // Step 2 — keyed by course name as written in the file
+  const [courses, setCourses] = useState<Record<string, CourseMatch>>({});
+  const [teeChoice, setTeeChoice] = useState<Record<string, string>>({});
+
+  // Step 3
+  const [preview, setPreview] = useState<Record<number, ImportPreviewResult>>({});
+  const [included, setIncluded] = useState<Record<number, boolean>>({});
+
+  // Step 4
+  const [status, setStatus] = useState<Record<number, ImportStatus>>({});
+  const [done, setDone] = useState(false);
+
+  const readyCards = useMemo(() => cards.filter((c) => c.errors.length === 0), [cards]);
+  const courseNames = useMemo(
+    () => Array.from(new Set(readyCards.map((c) => c.courseName))).sort((a, b) => a.localeCompare(b)),
+    [readyCards]
+  );
+  const teeNamesByCourse = useMemo(() => {
+    const out = new Map<string, string[]>();
+    for (const c of readyCards) {
+      const list = out.get(c.courseName) ?? [];
+      if (!list.includes(c.teeName)) list.push(c.teeName);
+      out.set(c.courseName, list);
+    }
+    return out;
+  }, [readyCards]);
+
+  // Tee box chosen for each row (rows whose course isn't matched, or whose
+  // tee was set to "skip", are absent).
+  const teeIdByRow = useMemo(() => {
+    const out = new Map<number, string>();
+    for (const c of readyCards) {
+      if (!courses[c.courseName]?.courseId) continue;
+      const id = teeChoice[teeKey(c.courseName, c.teeName)];
+      if (id) out.set(c.row, id);
+    }
+    return out;
+  }, [readyCards, courses, teeChoice]);
+
+  function teeFor(card: ImportedScorecard): string | null {
+    return teeIdByRow.get(card.row) ?? null;
+  }
+
+  // ── Step 1: upload + parse ─────────────────────────────────────────────────
+
+  async function onFile(file: File) {
+    setBusy(true);
+    setErr(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/rounds/import/parse", { method: "POST", headers: await authHeader(), body: form });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Couldn't read the file");
+      if (json.errors?.length) throw new Error(json.errors.join(" "));
+      setFileName(file.name);
+      setCards(json.cards ?? []);
+      setCourses({});
+      setTeeChoice({});
+      setPreview({});
+      setStatus({});
+      setDone(false);
+    } catch (e: any) {
+      setErr(e?.message || "Couldn't read the file");
+      setCards([]);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function downloadTemplate() {
+    const url = URL.createObjectURL(new Blob([TEMPLATE_CSV], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "scorecards-template.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // ── Step 2: courses + tees ─────────────────────────────────────────────────
+
+  function patchCourse(name: string, patch: Partial<CourseMatch>) {
+    setCourses((prev) => ({ ...prev, [name]: { ...prev[name], ...patch } }));
+  }
+
+  async function search(name: string, query: string): Promise<SearchItem[]> {
+    patchCourse(name, { query, searching: true, error: null });
+    try {
+      const res = await fetch(`/api/courses/search?q=${encodeURIComponent(query)}&limit=5`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Search failed");
+      const results: SearchItem[] = Array.isArray(json?.items) ? json.items : [];
+      patchCourse(name, { results, searching: false });
+      return results;
+    } catch (e: any) {
+      patchCourse(name, { results: [], searching: false, error: e?.message || "Search failed" });
+      return [];
+    }
+  }
+
+  async function selectCourse(name: string, item: SearchItem) {
+    patchCourse(name, { resolvingId: item.id, error: null });
+    try {
+      const res = await fetch("/api/courses/resolve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ osm_id: item.id, name: item.name, lat: item.lat, lng: item.lng }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.course_id) throw new Error(json?.error ?? json?.reason ?? "Couldn't match that course");
+
+      const teeRes = await fetch(`/api/courses/tee-boxes?course_id=${encodeURIComponent(json.course_id)}`);
+      const teeJson = await teeRes.json();
+      if (!teeRes.ok) throw new Error(teeJson?.error || "Couldn't load tees");
+      const tees: TeeBox[] = teeJson.tee_boxes ?? [];
+
+      patchCourse(name, { resolvingId: null, courseId: json.course_id, courseLabel: item.name, tees });
+      setTeeChoice((prev) => {
+        const next = { ...prev };
+        for (const teeName of teeNamesByCourse.get(name) ?? []) {
+          next[teeKey(name, teeName)] = matchTeeName(teeName, tees)?.id ?? "";
+        }
+        return next;
+      });
+    } catch (e: any) {
+      patchCourse(name, { resolvingId: null, error: e?.message || "Couldn't match that course" });
+    }
+  }
+
+  async function startCourses() {
+    setStep(1);
+    const initial: Record<string, CourseMatch> = {};
+    for (const name of courseNames) {
+      initial[name] = courses[name] ?? {
+        query: name,
+        results: [],
+        searching: false,
+        resolvingId: null,
+        courseId: null,
+        courseLabel: null,
+        tees: [],
+        error: null,
+      };
+    }
+    setCourses(initial);
+
+    // Suggest the top search hit for each course not yet matched — one at a
+    // time, the search route fans out to Nominatim.
+    for (const name of courseNames) {
+      if (initial[name].courseId) continue;
+      const results = await search(name, name);
+      if (results[0]) await selectCourse(name, results[0]);
+    }
+  }
+
+  const coursesReady = teeIdByRow.size > 0;
+
+  // ── Step 3: preview ────────────────────────────────────────────────────────
+
+  async function startPreview() {
+    setBusy(true);
+    setErr(null);
+    try {
+      const matched = readyCards.filter((c) => teeIdByRow.has(c.row));
+      const res = await fetch("/api/rounds/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeader()) },
+        body: JSON.stringify({
+          cards: matched.map((c) => ({
+            row: c.row,
+            played_at: c.playedAt,
+            tee_box_id: teeFor(c),
+            strokes: c.strokes,
+            total: c.total,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error || "Preview failed");
+
+      const byRow: Record<number, ImportPreviewResult> = {};
+      const include: Record<number, boolean> = {};
+      for (const r of (json.results ?? []) as ImportPreviewResult[]) {
+        byRow[r.row] = r;
+        include[r.row] = r.blocking.length === 0 && !r.duplicate;
+      }
+      setPreview(byRow);
+      setIncluded(include);
+      setStep(2);
+    } catch (e: any) {
+      setErr(e?.message || "Preview failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const toImport = useMemo(
+    () =>
+      readyCards
+        .filter((c) => included[c.row] && preview[c.row] && teeIdByRow.has(c.row))
+        .sort((a, b) => (a.playedAt ?? "").localeCompare(b.playedAt ?? "") || a.row - b.row),
+    [readyCards, included, preview, teeIdByRow]
+  );
+
+  // ── Step 4: import, oldest first ───────────────────────────────────────────
+
+  async function runImport() {
+    setStep(3);
+    setBusy(true);
+    setErr(null);
+    const initial: Record<number, ImportStatus> = {};
+    for (const c of toImport) initial[c.row] = { state: "pending" };
+    setStatus(initial);
+
+    try {
+      const headers = { "Content-Type": "application/json", ...(await authHeader()) };
+      for (const c of toImport) {
+        try {
+          const res = await fetch("/api/rounds/import", {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+              played_at: c.playedAt,
+              course_id: courses[c.courseName]?.courseId,
+              tee_box_id: teeFor(c),
+              strokes: c.strokes,
+              total: c.total,
+            }),
+          });
+          const json = await res.json().catch(() => ({}));
+          const next: ImportStatus = res.ok
+            ? { state: "ok", roundId: json.round_id }
+            : json?.duplicate
+            ? { state: "duplicate", message: "Already in your history" }
+            : { state: "error", message: json?.error || "Import failed" };
+          setStatus((prev) => ({ ...prev, [c.row]: next }));
+        } catch (e: any) {
+          setStatus((prev) => ({ ...prev, [c.row]: { state: "error", message: e?.message || "Import failed" } }));
+        }
+      }
+    } catch (e: any) {
+      setErr(e?.message || "Import failed");
+    } finally {
+      setBusy(false);
+      setDone(true);
+    }
+  }
+
+  const counts = useMemo(() => {
+    const vals = Object.values(status);
+    return {
+      ok: vals.filter((s) => s.state === "ok").length,
+      duplicate: vals.filter((s) => s.state === "duplicate").length,
+      error: vals.filter((s) => s.state === "error").length,
+    };
+  }, [status]);
+
+  // ── Render ─────────────────────────────────────────────────────────────────
+
+  return (
+    <div className="min-h-screen bg-[#042713] text-slate-100 px-1.5 sm:px-2 pt-4 pb-10">
+      <div className="mx-auto w-full max-w-3xl space-y-4">
+        <header className="flex items-center justify-between gap-2 px-1">
+          {step > 0 && step < 3 ? (
+            <BackButton onClick={() => setStep((s) => s - 1)} />
+          ) : (
+            <BackButton href="/history" />
+          )}
+          <div className="text-center flex-1 min-w-0 px-2">
+            <div className="text-[15px] sm:text-base font-semibold tracking-wide text-[#f5e6b0] truncate">
+              Import rounds
+            </div>
+            <div className="text-[10px] uppercase tracking-[0.14em] text-emerald-200/70 truncate">
+              Step {step + 1} of {STEPS.length} · {STEPS[step]}
+            </div>
+          </div>
+          <div className="w-[64px]" />
+        </header>
+
+        {err ? (
+          <div className="rounded-2xl border border-red-900/50 bg-red-950/30 p-4 text-sm text-red-100">{err}</div>
+        ) : null}
+
+        {step === 0 && (
+          <div className={`${CARD} space-y-3`}>
+            <p className="text-[12px] text-emerald-100/80 leading-snug">
+              Upload a CSV or XLSX export with one round per row: a date, the course, optionally the tee, and a
+              score for each hole (columns 1–18 or H1–H18). Hole-by-hole scores are needed for your handicap. Up to{" "}
+              {MAX_IMPORT_ROWS} rounds per file.
+            </p>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              disabled={busy}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) onFile(f);
+                e.target.value = "";
+              }}
+              className="block w-full text-sm text-emerald-100 file:mr-3 file:rounded-xl file:border-0 file:bg-[#f5e6b0] file:px-3 file:py-2 file:text-sm file:font-semibold file:text-[#042713]"
+            />
+            <button
+              type="button"
+              onClick={downloadTemplate}
+              className="text-[12px] font-semibold text-emerald-200 underline underline-offset-2"
+            >
+              Download a template
+            </button>
+
+            {busy ? <div className="text-[12px] text-emerald-100/70">Reading file…</div> : null}
+
+            {fileName && cards.length > 0 ? (
+              <div className="space-y-2">
+                <div className="text-sm font-semibold text-emerald-50">
+                  {fileName}: {readyCards.length} of {cards.length} round{cards.length === 1 ? "" : "s"} readable
+                </div>
+                {cards
+                  .filter((c) => c.errors.length)
+                  .slice(0, 20)
+                  .map((c) => (
+                    <div key={c.row} className="text-[11px] text-amber-200/90">
+                      Row {c.row}: {c.errors.join("; ")}
+                    </div>
+                  ))}
+                <Button
+                  disabled={!readyCards.length}
+                  onClick={startCourses}
+                  className="w-full bg-[#f5e6b0] text-[#042713] hover:bg-[#f5e6b0]/90"
+                >
+                  Match courses
+                </Button>
+              </div>
+            ) : null}
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-3">
+            {courseNames.map((name) => {
+              const m = courses[name];
+              if (!m) return null;
+              const n = readyCards.filter((c) => c.courseName === name).length;
+              return (
+                <div key={name} className={`${CARD} space-y-3`}>
+                  <div className="flex items-baseline justify-between gap-2">
+                    <div className="text-sm font-semibold text-emerald-50 truncate">{name}</div>
+                    <div className="text-[11px] text-emerald-100/70 shrink-0">
+                      {n} round{n === 1 ? "" : "s"}
+                    </div>
+                  </div>
+
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (m.query.trim()) search(name, m.query.trim());
+                    }}
+                  >
+                    <input
+                      value={m.query}
+                      onChange={(e) => patchCourse(name, { query: e.target.value })}
+                      className={INPUT}
+                      placeholder="Search courses"
+                    />
+                    <Button type="submit" variant="outline" className="border-emerald-900/70 bg-[#042713] text-emerald-50">
+                      Search
+                    </Button>
+                  </form>
+
+                  {m.searching ? <div className="text-[12px] text-emerald-100/70">Searching…</div> : null}
+
+                  {m.results.length > 0 ? (
+                    <div className="space-y-1">
+                      {m.results.map((r) => (
+                        <button
+                          key={r.id}
+                          type="button"
+                          disabled={!!m.resolvingId}
+                          onClick={() => selectCourse(name, r)}
+                          className={[
+                            "w-full rounded-xl border px-3 py-2 text-left",
+                            m.courseLabel === r.name && m.courseId
+                              ? "border-[#f5e6b0]/70 bg-emerald-900/40"
+                              : "border-emerald-900/70 bg-[#042713]/60 hover:bg-emerald-900/20",
+                          ].join(" ")}
+                        >
+                          <div className="text-[13px] font-semibold text-emerald-50">
+                            {r.name}
+                            {m.resolvingId === r.id ? " · matching…" : ""}
+                          </div>
+                          {r.subtitle ? <div className="text-[11px] text-emerald-100/60">{r.subtitle}</div> : null}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {m.error ? <div className="text-[12px] text-red-200">{m.error}</div> : null}
+
+                  {m.courseId ? (
+                    <div className="space-y-2">
+                      {m.tees.length === 0 ? (
+                        <div className="text-[12px] text-amber-200/90">
+                          No tees on file for this course yet — add them on the{" "}
+                          <Link className="underline" href={`/courses/${m.courseId}`}>
+                            course page
+                          </Link>{" "}
+                          and search again.
+                        </div>
+                      ) : null}
+                      {(teeNamesByCourse.get(name) ?? []).map((teeName) => (
+                        <div key={teeName || "-"} className="flex items-center gap-3">
+                          <div className="text-xs text-emerald-100/70 w-[90px] font-semibold truncate">
+                            {teeName || "No tee given"}
+                          </div>
+                          <select
+                            value={teeChoice[teeKey(name, teeName)] ?? ""}
+                            onChange={(e) => setTeeChoice((prev) => ({ ...prev, [teeKey(name, teeName)]: e.target.value }))}
+                            className={`${INPUT} flex-1`}
+                          >
+                            <option value="">Skip these rounds</option>
+                            {m.tees.map((t) => (
+                              <option key={t.id} value={t.id}>
+                                {t.name ?? "Tee"}
+                                {t.rating != null && t.slope != null ? ` · ${t.rating}/${t.slope}` : " · unrated"}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+
+            <Button
+              disabled={!coursesReady || busy}
+              onClick={startPreview}
+              className="w-full bg-[#f5e6b0] text-[#042713] hover:bg-[#f5e6b0]/90"
+            >
+              {busy ? "Checking…" : "Preview"}
+            </Button>
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-3">
+            <div className="text-[12px] text-emerald-100/70 px-1">
+              Rounds are imported as finished, private rounds and added to your handicap record, oldest first.
+            </div>
+            {readyCards
+              .filter((c) => preview[c.row])
+              .map((c) => {
+                const p = preview[c.row];
+                const m = courses[c.courseName];
+                const tee = m?.tees.find((t) => t.id === teeFor(c));
+                const blocked = p.blocking.length > 0;
+                return (
+                  <label
+                    key={c.row}
+                    className={[
+                      "flex gap-3 rounded-2xl border p-3",
+                      blocked ? "border-red-900/50 bg-red-950/20" : "border-emerald-900/70 bg-[#0b3b21]/70",
+                    ].join(" ")}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      disabled={blocked}
+                      checked={!!included[c.row]}
+                      onChange={(e) => setIncluded((prev) => ({ ...prev, [c.row]: e.target.checked }))}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <div className="text-[13px] font-semibold text-emerald-50 truncate">
+                          {shortDate(c.playedAt)} · {m?.courseLabel ?? c.courseName}
+                        </div>
+                        <div className="text-sm font-extrabold tabular-nums text-[#f5e6b0]">{gross(c)}</div>
+                      </div>
+                      <div className="text-[11px] text-emerald-100/60">
+                        {tee?.name ?? "Tee"} · {holesPlayed(c.strokes).length} holes · row {c.row}
+                      </div>
+                      {p.duplicate ? (
+                        <div className="mt-1 text-[11px] text-amber-200/90">
+                          You already have a round here on this date — unticked.
+                        </div>
+                      ) : null}
+                      {[...p.blocking, ...p.warnings].map((w) => (
+                        <div key={w} className={`mt-1 text-[11px] ${blocked ? "text-red-200" : "text-amber-200/90"}`}>
+                          {w}
+                        </div>
+                      ))}
+                    </div>
+                  </label>
+                );
+              })}
+
+            <Button
+              disabled={!toImport.length || busy}
+              onClick={runImport}
+              className="w-full bg-[#f5e6b0] text-[#042713] hover:bg-[#f5e6b0]/90"
+            >
+              Import {toImport.length} round{toImport.length === 1 ? "" : "s"}
+            </Button>
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="space-y-3">
+            <div className={CARD}>
+              <div className="text-sm font-semibold text-emerald-50">
+                {done ? "Import finished" : "Importing…"} · {counts.ok} imported
+                {counts.duplicate ? ` · ${counts.duplicate} already there` : ""}
+                {counts.error ? ` · ${counts.error} failed` : ""}
+              </div>
+              {done ? (
+                <div className="mt-3 flex gap-2">
+                  <Button asChild className="bg-[#f5e6b0] text-[#042713] hover:bg-[#f5e6b0]/90">
+                    <Link href="/history">View history</Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-50 hover:bg-emerald-900/20"
+                    onClick={() => {
+                      setStep(0);
+                      setCards([]);
+                      setFileName(null);
+                    }}
+                  >
+                    Import another file
+                  </Button>
+                </div>
+              ) : null}
+            </div>
+
+            {toImport.map((c) => {
+              const s = status[c.row];
+              return (
+                <div key={c.row} className="flex items-center justify-between gap-2 rounded-xl border border-emerald-900/70 bg-[#042713]/60 px-3 py-2">
+                  <div className="text-[12px] text-emerald-50 truncate">
+                    {shortDate(c.playedAt)} · {courses[c.courseName]?.courseLabel ?? c.courseName}
+                  </div>
+                  <div
+                    className={[
+                      "text-[11px] font-semibold shrink-0",
+                      s?.state === "ok"
+                        ? "text-emerald-300"
+                        : s?.state === "error"
+                        ? "text-red-200"
+                        : s?.state === "duplicate"
+                        ? "text-amber-200/90"
+                        : "text-emerald-100/60",
+                    ].join(" ")}
+                  >
+                    {s?.state === "ok" ? (
+                      <Link href={`/round/${s.roundId}`}>Imported</Link>
+                    ) : s?.state === "pending" || !s ? (
+                      "Waiting"
+                    ) : (
+                      s.message
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import type { Metadata } from "next";
+// /app/history/import/page.tsx
+import ImportClient from "./ImportClient";
+
+export const metadata: Metadata = { title: "Import Rounds" };
+
+export default function ImportRoundsPage() {
+  return <ImportClient />;
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  HIGHLIGHT_LABELS,
+  KIOSK_SLIDE_SECONDS,
+  kioskSlides,
+  type KioskPayload,
+  type KioskSlide,
+} from "@/lib/majors/kiosk";
+import type { LeaderboardRevealStyle } from "@/lib/majors/types";
+
+const LeaderboardReveal = dynamic(
+  () => import("@/components/majors/LeaderboardReveal").then((m) => m.LeaderboardReveal),
+  { ssr: false }
+);
+
+const POLL_MS = 15_000;
+/** The layout is drawn for this canvas and zoomed to fill the screen. */
+const BASE_WIDTH = 1280;
+const BASE_HEIGHT = 720;
+const LEADERBOARD_ROWS = 20;
+
+const SLIDE_TITLES: Record<KioskSlide, string> = {
+  leaderboard: "Leaderboard",
+  highlights: "Birdies & Eagles",
+  nearest_pin: "Nearest the Pin",
+  standings: "Season Standings",
+};
+
+function formatScore(row: any, scoringModel: string): string {
+  if (scoringModel === "stableford_points") {
+    const pts = row.format_points ?? row.net_score ?? row.gross_score;
+    return pts != null ? `${pts} pts` : "—";
+  }
+  if (row.to_par != null) return row.to_par === 0 ? "E" : row.to_par > 0 ? `+${row.to_par}` : String(row.to_par);
+  const score = row.net_score ?? row.gross_score;
+  return score != null ? String(score) : "—";
+}
+
+/**
+ * Full-screen clubhouse display. Polls the kiosk API, rotates through the
+ * leaderboard, scoring highlights, nearest-the-pin and season standings, and
+ * runs the reveal ceremony when an organiser reveals results while it's up.
+ *
+ * Keys: → next slide, R replay the ceremony once revealed, F full screen.
+ */
+export default function KioskClient({ token }: { token: string }) {
+  const [data, setData] = useState<KioskPayload | null>(null);
+  const [gone, setGone] = useState(false);
+  const [slideIdx, setSlideIdx] = useState(0);
+  const [showReveal, setShowReveal] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [revealZoom, setRevealZoom] = useState(1);
+  const lastFreezeState = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/majors/kiosk/${encodeURIComponent(token)}`, { cache: "no-store" });
+        if (res.status === 404) {
+          if (!cancelled) setGone(true);
+          return;
+        }
+        if (!res.ok) return; // keep the last good payload on screen
+        const j = (await res.json()) as KioskPayload;
+        if (cancelled) return;
+        const state = j.leaderboard?.freeze.freeze_state ?? null;
+        // Only a reveal that happens while the screen is up starts the ceremony.
+        if (lastFreezeState.current && lastFreezeState.current !== "revealed" && state === "revealed") {
+          setShowReveal(true);
+        }
+        lastFreezeState.current = state;
+        setGone(false);
+        setData(j);
+      } catch {
+        // Network blip — try again on the next poll.
+      }
+    };
+    load();
+    const t = setInterval(load, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, [token]);
+
+  useEffect(() => {
+    const fit = () => {
+      setZoom(Math.max(0.5, Math.min(window.innerWidth / BASE_WIDTH, window.innerHeight / BASE_HEIGHT)));
+      setRevealZoom(Math.max(1, Math.min(window.innerWidth / 420, window.innerHeight / 760)));
+    };
+    fit();
+    window.addEventListener("resize", fit);
+    return () => window.removeEventListener("resize", fit);
+  }, []);
+
+  const slides = data ? kioskSlides(data) : [];
+  const current = slides.length > 0 ? slides[slideIdx % slides.length] : null;
+  const revealed = data?.leaderboard?.freeze.freeze_state === "revealed";
+
+  useEffect(() => {
+    if (!current || showReveal || slides.length < 2) return;
+    const t = setTimeout(() => setSlideIdx((i) => (i + 1) % slides.length), KIOSK_SLIDE_SECONDS[current] * 1000);
+    return () => clearTimeout(t);
+  }, [current, showReveal, slides.length, slideIdx]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowRight" && slides.length > 0) setSlideIdx((i) => (i + 1) % slides.length);
+      if ((e.key === "r" || e.key === "R") && revealed) setShowReveal(true);
+      if (e.key === "f" || e.key === "F") {
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+        else document.documentElement.requestFullscreen().catch(() => {});
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [slides.length, revealed]);
+
+  if (gone) {
+    return (
+      <div className="fixed inset-0 grid place-items-center bg-[#042713] text-center px-6">
+        <div className="space-y-2">
+          <div className="text-2xl font-semibold text-emerald-50">This display link is no longer active</div>
+          <div className="text-sm text-emerald-200/60">Ask an organiser for a new clubhouse display link.</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <div className="fixed inset-0 grid place-items-center bg-[#042713] text-emerald-200/60">Loading…</div>;
+  }
+
+  const lb = data.leaderboard;
+  const frozen = lb?.freeze.freeze_state === "frozen" && lb.freeze.freeze_last_holes != null;
+
+  return (
+    <div className="fixed inset-0 overflow-hidden bg-[#042713] cursor-none flex items-center justify-center">
+      <div className="flex flex-col shrink-0 px-10 py-8" style={{ width: BASE_WIDTH, height: BASE_HEIGHT, zoom }}>
+        <div className="flex items-end justify-between gap-6 shrink-0">
+          <div className="min-w-0">
+            <div className="text-sm uppercase tracking-[0.3em] text-emerald-200/50">
+              {data.label ?? (data.season && data.event ? data.season.name : "Clubhouse")}
+            </div>
+            <div className="text-4xl font-bold text-[#f5e6b0] truncate">{data.event?.name ?? data.title}</div>
+          </div>
+          <div className="text-right shrink-0">
+            <div className="text-2xl font-semibold text-emerald-50">{current ? SLIDE_TITLES[current] : ""}</div>
+            {frozen && (
+              <div className="text-sm text-amber-300/80">
+                Final {lb!.freeze.freeze_last_holes} holes hidden until the prize-giving
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="border-t border-emerald-900/60 my-5 shrink-0" />
+
+        <div className="relative flex-1 min-h-0">
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={current ?? "empty"}
+              initial={{ opacity: 0, y: 16 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -16 }}
+              transition={{ duration: 0.5 }}
+              className="absolute inset-0"
+            >
+              {current === null && (
+                <div className="h-full grid place-items-center text-2xl text-emerald-200/50">
+                  Scores will appear here once play begins.
+                </div>
+              )}
+              {current === "leaderboard" && lb && <LeaderboardSlide rows={lb.rows} scoringModel={lb.scoring_model} />}
+              {current === "highlights" && <HighlightsSlide data={data} />}
+              {current === "nearest_pin" && <NearestPinSlide data={data} />}
+              {current === "standings" && <StandingsSlide data={data} />}
+            </motion.div>
+          </AnimatePresence>
+        </div>
+
+        {slides.length > 1 && (
+          <div className="flex justify-center gap-2 pt-4 shrink-0">
+            {slides.map((s, i) => (
+              <div
+                key={s}
+                className={`h-1.5 rounded-full transition-all ${
+                  i === slideIdx % slides.length ? "w-8 bg-[#f5e6b0]" : "w-3 bg-emerald-800"
+                }`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showReveal && lb && (
+        <LeaderboardReveal
+          rows={lb.rows}
+          revealStyle={(lb.freeze.reveal_style as LeaderboardRevealStyle) ?? "animated"}
+          revealTopX={lb.freeze.reveal_top_x ?? null}
+          scoringModel={lb.scoring_model}
+          scale={revealZoom}
+          onDone={() => setShowReveal(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function LeaderboardSlide({ rows, scoringModel }: { rows: any[]; scoringModel: string }) {
+  const shown = rows.slice(0, LEADERBOARD_ROWS);
+  const half = Math.ceil(shown.length / 2);
+  const columns = shown.length > 10 ? [shown.slice(0, half), shown.slice(half)] : [shown];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className={`grid gap-x-10 ${columns.length > 1 ? "grid-cols-2" : "grid-cols-1 max-w-3xl mx-auto w-full"}`}>
+        {columns.map((col, c) => (
+          <div key={c} className="space-y-1.5">
+            {col.map((row) => {
+              const holes = row.holes_shown ?? row.holes_completed ?? null;
+              const pos = row.position != null ? `${row.tied_count > 1 ? "T" : ""}${row.position}` : "–";
+              return (
+                <div
+                  key={row.profile_id}
+                  className={`flex items-center gap-4 rounded-xl px-4 py-2 ${
+                    row.position === 1 ? "bg-[#f5e6b0]/10 border border-[#f5e6b0]/30" : "bg-[#0b3b21]/60"
+                  }`}
+                >
+                  <span className="w-10 text-xl font-bold text-emerald-200/70 tabular-nums">{pos}</span>
+                  <span className="flex-1 truncate text-xl text-emerald-50">{row.profile?.name ?? "Player"}</span>
+                  {row.is_live && holes != null && (
+                    <span className="text-sm text-emerald-300/70 tabular-nums">Thru {holes}</span>
+                  )}
+                  <span className="w-20 text-right text-2xl font-bold text-[#f5e6b0] tabular-nums">
+                    {formatScore(row, scoringModel)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      {rows.length > LEADERBOARD_ROWS && (
+        <div className="mt-3 text-center text-sm text-emerald-200/50">+{rows.length - LEADERBOARD_ROWS} more in the app</div>
+      )}
+    </div>
+  );
+}
+
+function HighlightsSlide({ data }: { data: KioskPayload }) {
+  const multiRound = data.highlights.some((h) => h.round_number > 1);
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {data.highlights.map((h) => {
+        const big = h.kind !== "birdie";
+        return (
+          <div
+            key={`${h.round_id}:${h.profile_id}:${h.hole_number}`}
+            className={`rounded-2xl px-5 py-4 border ${
+              big ? "border-[#f5e6b0]/40 bg-[#f5e6b0]/10" : "border-emerald-900/60 bg-[#0b3b21]/60"
+            }`}
+          >
+            <div className={`text-sm font-bold uppercase tracking-widest ${big ? "text-[#f5e6b0]" : "text-emerald-300"}`}>
+              {HIGHLIGHT_LABELS[h.kind]}
+            </div>
+            <div className="mt-1 text-2xl font-semibold text-emerald-50 truncate">{h.name ?? "Player"}</div>
+            <div className="text-base text-emerald-200/60">
+              {multiRound ? `Round ${h.round_number} · ` : ""}Hole {h.hole_number} · Par {h.par} · {h.strokes}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NearestPinSlide({ data }: { data: KioskPayload }) {
+  const boards = data.nearest_pins.filter((b) => b.entries.length > 0);
+  return (
+    <div className={`grid gap-6 ${boards.length > 1 ? "grid-cols-2" : "grid-cols-1 max-w-2xl mx-auto w-full"}`}>
+      {boards.map((b) => (
+        <div key={b.pot_id} className="rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/60 px-6 py-5 space-y-3">
+          <div>
+            <div className="text-2xl font-semibold text-[#f5e6b0]">{b.name}</div>
+            {b.description && <div className="text-base text-emerald-200/60">{b.description}</div>}
+          </div>
+          {b.entries.map((e, i) => (
+            <div key={e.profile_id} className="flex items-center gap-4">
+              <span className="w-8 text-xl font-bold text-emerald-200/60">{i + 1}</span>
+              <span className="flex-1 truncate text-xl text-emerald-50">{e.name ?? "Player"}</span>
+              <span className="text-2xl font-bold text-emerald-50 tabular-nums">{e.distance}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StandingsSlide({ data }: { data: KioskPayload }) {
+  return (
+    <div className="max-w-4xl mx-auto w-full space-y-1.5">
+      <div className="flex items-center gap-4 px-4 text-sm uppercase tracking-wider text-emerald-200/50">
+        <span className="w-10">Pos</span>
+        <span className="flex-1">{data.season?.name}</span>
+        <span className="w-20 text-right">Played</span>
+        <span className="w-16 text-right">Wins</span>
+        <span className="w-24 text-right">Points</span>
+      </div>
+      {data.standings.map((s) => (
+        <div key={s.profile_id} className="flex items-center gap-4 rounded-xl bg-[#0b3b21]/60 px-4 py-2">
+          <span className="w-10 text-xl font-bold text-emerald-200/70 tabular-nums">{s.position ?? "–"}</span>
+          <span className="flex-1 truncate text-xl text-emerald-50">{s.name ?? "Player"}</span>
+          <span className="w-20 text-right text-lg text-emerald-200/70 tabular-nums">{s.events_played}</span>
+          <span className="w-16 text-right text-lg text-emerald-200/70 tabular-nums">{s.wins}</span>
+          <span className="w-24 text-right text-2xl font-bold text-[#f5e6b0] tabular-nums">{s.season_points}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import type { Metadata } from "next";
+import KioskClient from "./KioskClient";
+
+export const metadata: Metadata = { title: "Clubhouse Display", robots: { index: false, follow: false } };
+
+export default async function KioskPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <KioskClient token={token} />;
+}
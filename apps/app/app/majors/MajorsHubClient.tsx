@@ -286,6 +286,19 @@ export default function MajorsHubClient() {
             )}
           </section>
 
+          {/* Public Events */}
+          <button
+            type="button"
+            onClick={() => router.push("/majors/discover")}
+            className="w-full flex items-center justify-between rounded-2xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-3 hover:brightness-110 transition-all text-left"
+          >
+            <div>
+              <div className="text-sm font-semibold text-emerald-50">Find public events</div>
+              <div className="text-[10px] text-emerald-200/50 mt-0.5">Open competitions by date, distance and handicap</div>
+            </div>
+            <span className="text-emerald-700 text-sm shrink-0">→</span>
+          </button>
+
           {/* Discover Groups */}
           <section className="space-y-3">
             <h2 className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/55">Discover Groups</h2>
@@ -10,6 +10,7 @@ import type {
   EventScoringModel,
   EventPointsModel,
   EventCategory,
+  TeamMatchHistoryRow,
 } from "@/lib/majors/types";
 import { EVENT_TYPES, FORMAT_DEFAULT_SCORING, FORMAT_ALLOWS_SCORING_CHOICE } from "@/lib/events/constants";
 import { HandicapRulesEditor, type HandicapRules, type HandicapMode } from "@/components/competitions/HandicapRulesEditor";
@@ -285,6 +286,7 @@ export default function CompetitionDetailClient({ competitionId }: { competition
   const [competition, setCompetition] = useState<CompetitionWithEventTemplates | null>(null);
   const [history, setHistory] = useState<EnrichedYearGroup[]>([]);
   const [viewerStats, setViewerStats] = useState<CompetitionViewerStats | null>(null);
+  const [teamHistory, setTeamHistory] = useState<TeamMatchHistoryRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [myRole, setMyRole] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<"upcoming" | "history">("upcoming");
@@ -327,6 +329,7 @@ export default function CompetitionDetailClient({ competitionId }: { competition
         const hj = await historyRes.json();
         setHistory(hj.history ?? []);
         setViewerStats(hj.viewer_stats ?? null);
+        setTeamHistory(hj.team_history ?? []);
       }
 
     } finally {
@@ -507,6 +510,31 @@ export default function CompetitionDetailClient({ competitionId }: { competition
                 </div>
               )}
 
+              {/* Team match record across years */}
+              {teamHistory.length > 0 && (
+                <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 p-4 space-y-2">
+                  <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/65 font-semibold">
+                    Team Record
+                  </div>
+                  <div className="grid grid-cols-6 text-[10px] uppercase tracking-wider text-emerald-200/50">
+                    <span className="col-span-2">Team</span>
+                    <span className="text-center">W</span>
+                    <span className="text-center">H</span>
+                    <span className="text-center">L</span>
+                    <span className="text-center">Pts</span>
+                  </div>
+                  {teamHistory.map((t) => (
+                    <div key={t.name} className="grid grid-cols-6 items-center text-xs">
+                      <span className="col-span-2 font-semibold text-emerald-50 truncate">{t.name}</span>
+                      <span className="text-center text-emerald-100/70">{t.won}</span>
+                      <span className="text-center text-emerald-100/70">{t.halved}</span>
+                      <span className="text-center text-emerald-100/70">{t.lost}</span>
+                      <span className="text-center font-bold text-[#f5e6b0]">{t.points_for}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Year group history cards */}
               {completedYearGroups.length === 0 ? (
                 <div className="rounded-2xl border border-emerald-900/40 bg-[#0b3b21]/40 p-6 text-sm text-emerald-100/40 text-center">
@@ -17,7 +17,7 @@ import {
 import { HandicapRulesEditor, type HandicapRules } from "@/components/competitions/HandicapRulesEditor";
 
 const COMPETITION_FORMATS = EVENT_TYPES.filter((t) =>
-  ["stroke", "stableford", "matchplay", "skins", "scramble", "bestball", "custom"].includes(t.value)
+  ["stroke", "stableford", "matchplay", "skins", "scramble", "bestball", "team_match", "custom"].includes(t.value)
 );
 
 const MONTH_NAMES = [
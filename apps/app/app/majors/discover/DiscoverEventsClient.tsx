@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { describeEligibility, parseEligibilityRules } from "@/lib/majors/eligibility";
+import type { LocationResult } from "@/lib/useLocationSearch";
+import type { PublicEventListing } from "@/lib/majors/types";
+
+const RADIUS_OPTIONS = [25, 50, 100, 250];
+
+const WHEN_OPTIONS = [
+  { value: "", label: "Any time" },
+  { value: "30", label: "Next 30 days" },
+  { value: "90", label: "Next 3 months" },
+];
+
+function entryStatusLabel(status: PublicEventListing["entry_status"]) {
+  switch (status) {
+    case "entered": return { text: "Entered", className: "text-emerald-300 bg-emerald-900/60" };
+    case "requested": return { text: "Requested", className: "text-sky-300 bg-sky-900/40" };
+    case "open": return { text: "Open", className: "text-amber-300 bg-amber-900/40" };
+    case "closed": return { text: "Closed", className: "text-slate-400 bg-slate-900/40" };
+    default: return { text: "N/A", className: "text-slate-400 bg-slate-900/40" };
+  }
+}
+
+function daysFromToday(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function DiscoverEventsClient() {
+  const router = useRouter();
+  const [items, setItems] = useState<PublicEventListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [when, setWhen] = useState("");
+  const [hcpMin, setHcpMin] = useState("");
+  const [hcpMax, setHcpMax] = useState("");
+  const [radiusKm, setRadiusKm] = useState<number | null>(50);
+  const [origin, setOrigin] = useState<{ lat: number; lng: number; label: string } | null>(null);
+  const [sort, setSort] = useState<"date" | "distance">("date");
+
+  // Location search
+  const [locationQuery, setLocationQuery] = useState("");
+  const [locationResults, setLocationResults] = useState<LocationResult[]>([]);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const session = await requireViewerSession();
+        if (!session || cancelled) return;
+        const params = new URLSearchParams();
+        if (when) params.set("to", daysFromToday(Number(when)));
+        if (hcpMin.trim()) params.set("hcp_min", hcpMin.trim());
+        if (hcpMax.trim()) params.set("hcp_max", hcpMax.trim());
+        if (origin) {
+          params.set("lat", String(origin.lat));
+          params.set("lng", String(origin.lng));
+          if (radiusKm != null) params.set("radius_km", String(radiusKm));
+          params.set("sort", sort);
+        }
+        const res = await fetch(`/api/majors/events/discover?${params}`, {
+          headers: { Authorization: `Bearer ${session.accessToken}` },
+        });
+        const json = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json.error ?? "Failed to load events");
+          return;
+        }
+        setItems(json.items ?? []);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [when, hcpMin, hcpMax, origin, radiusKm, sort]);
+
+  async function searchLocations() {
+    const q = locationQuery.trim();
+    if (!q) return;
+    setLocating(true);
+    try {
+      const res = await fetch(`/api/courses/location-search?q=${encodeURIComponent(q)}&limit=6`, { cache: "no-store" });
+      const json = await res.json().catch(() => ({}));
+      setLocationResults(res.ok ? json.items ?? [] : []);
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  function locateMe() {
+    if (!navigator.geolocation) return;
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setOrigin({ lat: pos.coords.latitude, lng: pos.coords.longitude, label: "Current location" });
+        setLocationResults([]);
+        setLocating(false);
+      },
+      () => setLocating(false),
+      { timeout: 10000 }
+    );
+  }
+
+  return (
+    <div className="min-h-[100dvh] pb-[env(safe-area-inset-bottom)] px-4 pt-8 max-w-sm mx-auto space-y-5">
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => router.push("/majors")} className="text-[11px] text-emerald-100/70 hover:text-emerald-50">
+          ← Majors
+        </button>
+        <h1 className="text-lg font-semibold tracking-wide text-[#f5e6b0]">Public Events</h1>
+        <div className="w-14" />
+      </div>
+
+      {/* Location */}
+      <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/60 p-3 space-y-2">
+        <div className="text-[10px] uppercase tracking-wider text-emerald-200/60">Near</div>
+        {origin ? (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-emerald-50 truncate">{origin.label}</span>
+            <button
+              type="button"
+              onClick={() => { setOrigin(null); setSort("date"); }}
+              className="shrink-0 text-[11px] text-emerald-300/70 hover:text-emerald-200"
+            >
+              Clear
+            </button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => { e.preventDefault(); searchLocations(); }}
+            className="flex gap-2"
+          >
+            <input
+              value={locationQuery}
+              onChange={(e) => setLocationQuery(e.target.value)}
+              placeholder="Town or postcode"
+              className="flex-1 min-w-0 rounded-xl border border-emerald-800/50 bg-emerald-950/40 px-3 py-1.5 text-xs text-emerald-50 placeholder:text-emerald-200/30 outline-none focus:border-emerald-600"
+            />
+            <button
+              type="submit"
+              disabled={locating}
+              className="shrink-0 rounded-xl bg-emerald-700 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+            >
+              {locating ? "…" : "Search"}
+            </button>
+            <button
+              type="button"
+              onClick={locateMe}
+              className="shrink-0 rounded-xl border border-emerald-800/50 px-2 py-1.5 text-xs text-emerald-200/70 hover:text-emerald-50"
+              aria-label="Use my location"
+            >
+              ◎
+            </button>
+          </form>
+        )}
+        {!origin && locationResults.length > 0 && (
+          <div className="space-y-1">
+            {locationResults.map((loc) => (
+              <button
+                key={loc.place_id}
+                type="button"
+                onClick={() => {
+                  setOrigin({ lat: loc.lat, lng: loc.lng, label: loc.display_name });
+                  setLocationResults([]);
+                }}
+                className="w-full text-left rounded-lg px-2 py-1.5 text-[11px] text-emerald-100/80 hover:bg-emerald-900/40 truncate"
+              >
+                {loc.display_name}
+              </button>
+            ))}
+          </div>
+        )}
+        {origin && (
+          <div className="flex gap-1.5 flex-wrap">
+            {RADIUS_OPTIONS.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setRadiusKm(r)}
+                className={`rounded-xl border px-2 py-1.5 text-[10px] ${
+                  radiusKm === r
+                    ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+                    : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+                }`}
+              >
+                {r} km
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRadiusKm(null)}
+              className={`rounded-xl border px-2 py-1.5 text-[10px] ${
+                radiusKm == null
+                  ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+                  : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+              }`}
+            >
+              Any
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Date + handicap */}
+      <div className="flex gap-2 overflow-x-auto">
+        {WHEN_OPTIONS.map((f) => (
+          <button
+            key={f.value}
+            type="button"
+            onClick={() => setWhen(f.value)}
+            className={`shrink-0 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+              when === f.value
+                ? "bg-emerald-700 text-white"
+                : "border border-emerald-900/60 text-emerald-200/70 hover:text-emerald-50"
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-[11px] text-emerald-200/60">
+        <span>Handicap</span>
+        <input
+          inputMode="decimal"
+          value={hcpMin}
+          onChange={(e) => setHcpMin(e.target.value)}
+          placeholder="min"
+          className="w-16 rounded-xl border border-emerald-800/50 bg-emerald-950/40 px-2 py-1 text-xs text-emerald-50 placeholder:text-emerald-200/30 outline-none focus:border-emerald-600"
+        />
+        <span>–</span>
+        <input
+          inputMode="decimal"
+          value={hcpMax}
+          onChange={(e) => setHcpMax(e.target.value)}
+          placeholder="max"
+          className="w-16 rounded-xl border border-emerald-800/50 bg-emerald-950/40 px-2 py-1 text-xs text-emerald-50 placeholder:text-emerald-200/30 outline-none focus:border-emerald-600"
+        />
+        {origin && (
+          <button
+            type="button"
+            onClick={() => setSort(sort === "date" ? "distance" : "date")}
+            className="ml-auto text-[11px] text-emerald-300/70 hover:text-emerald-200"
+          >
+            Sort: {sort === "date" ? "Date" : "Distance"}
+          </button>
+        )}
+      </div>
+
+      {loading && (
+        <div className="text-sm text-emerald-100/60 text-center py-10">Loading…</div>
+      )}
+
+      {!loading && error && (
+        <div className="text-sm text-red-300/80 text-center py-10">{error}</div>
+      )}
+
+      {!loading && !error && items.length === 0 && (
+        <div className="text-sm text-emerald-100/60 text-center py-10">
+          No public events match these filters.
+        </div>
+      )}
+
+      <div className="space-y-3 pb-8">
+        {items.map((item) => {
+          const badge = entryStatusLabel(item.entry_status);
+          const conditions = describeEligibility(parseEligibilityRules(item.eligibility_rules));
+          if (item.entry_approval_required) conditions.push("Approval required");
+          return (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => router.push(`/majors/events/${item.id}`)}
+              className="w-full text-left rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 p-4 space-y-2 hover:border-emerald-700/70 transition-colors"
+            >
+              {item.group && (
+                <div className="text-[10px] uppercase tracking-[0.16em] text-emerald-200/55">
+                  {item.group.name}
+                </div>
+              )}
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-sm font-semibold text-emerald-50 leading-tight">{item.name}</span>
+                <span className={`shrink-0 text-[10px] font-medium px-2 py-0.5 rounded-full ${badge.className}`}>
+                  {badge.text}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 text-[11px] text-emerald-100/65 flex-wrap">
+                {item.event_date && (
+                  <span>{new Date(item.event_date).toLocaleDateString()}</span>
+                )}
+                {item.course && <span>{item.course.name}</span>}
+                {item.distance_km != null && <span>{item.distance_km.toFixed(0)} km</span>}
+                <span>
+                  {item.entry_count}
+                  {item.max_entries != null ? `/${item.max_entries}` : ""} entered
+                </span>
+              </div>
+              {conditions.length > 0 && (
+                <div className="flex gap-1.5 flex-wrap">
+                  {conditions.map((c) => (
+                    <span
+                      key={c}
+                      className="text-[10px] px-2 py-0.5 rounded-full border border-emerald-800/50 text-emerald-200/70"
+                    >
+                      {c}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import type { Metadata } from "next";
+import DiscoverEventsClient from "./DiscoverEventsClient";
+
+export const metadata: Metadata = { title: "Public Events" };
+
+export default function DiscoverEventsPage() {
+  return <DiscoverEventsClient />;
+}
@@ -26,15 +26,25 @@ import type {
   PrizePotDistributionType,
   PrizeTableEntry,
   EventPlayoff,
+  EventVisibility,
+  EventEntryRequest,
 } from "@/lib/majors/types";
 import { EVENT_TYPES, SCORING_MODELS, POINTS_MODELS, FEDEX_POINTS, computeFormulaPoints } from "@/lib/events/constants";
-import { isMatchplayLeague, isMatchplayKnockout } from "@/lib/majors/labels";
+import { isMatchplayLeague, isMatchplayKnockout, isTeamMatchEvent, roundFormatForEventType } from "@/lib/majors/labels";
 import { useDebouncedRefresh } from "@/lib/majors/useDebouncedRefresh";
+import { describeEligibility, parseEligibilityRules } from "@/lib/majors/eligibility";
 import { runGuarded } from "@/lib/guardedAction";
 import type { EventDetailSnapshot } from "@/lib/majors/getEventDetailSnapshot";
 import type { PointsConfig } from "@/lib/majors/types";
 import { HandicapRulesEditor } from "@/components/competitions/HandicapRulesEditor";
 import { CoursePickerModal } from "@/components/rounds/CoursePickerModal";
+import { EntryRequestsPanel } from "@/components/majors/EntryRequestsPanel";
+import { TeeTimeDrawSheet } from "@/components/majors/TeeTimeDrawSheet";
+import { LeagueSetupSheet } from "@/components/majors/LeagueSetupSheet";
+import { BracketView } from "@/components/majors/BracketView";
+import { DisplayLinksSheet } from "@/components/majors/DisplayLinksSheet";
+import { TeamMatchPanel } from "@/components/majors/TeamMatchPanel";
+import { SideGamesManager } from "@/components/rounds/SideGamesManager";
 import { supabase } from "@/lib/supabaseClient";
 import dynamic from "next/dynamic";
 
@@ -46,6 +56,7 @@ const LeaderboardReveal = dynamic(
 import { TieManagementDrawer } from "../../leaderboard/TieManagementDrawer";
 import { PlayoffStatusBanner } from "../../leaderboard/TieBanner";
 import { PlayoffScorecardClient } from "./PlayoffScorecardClient";
+import { describeSteps } from "@/lib/majors/handicapCommittee";
 
 const FEDEX_POINTS_SCALE = FEDEX_POINTS;
 
@@ -82,7 +93,7 @@ function getPointsForPosition(
   return null;
 }
 
-type Tab = "overview" | "leaderboard" | "tee-times" | "rules" | "fixtures" | "bracket" | "league-table" | "winnings" | "finances";
+type Tab = "overview" | "leaderboard" | "tee-times" | "rules" | "fixtures" | "bracket" | "league-table" | "teams" | "winnings" | "finances";
 
 const STROKE_TABS: { id: Tab; label: string }[] = [
   { id: "overview", label: "Overview" },
@@ -106,8 +117,16 @@ const MATCHPLAY_KNOCKOUT_TABS: { id: Tab; label: string }[] = [
   { id: "rules", label: "Rules" },
 ];
 
+const TEAM_MATCH_TABS: { id: Tab; label: string }[] = [
+  { id: "overview", label: "Overview" },
+  { id: "teams", label: "Teams" },
+  { id: "tee-times", label: "Tee Times" },
+  { id: "rules", label: "Rules" },
+];
+
 function getTabsForEvent(comp: EventWithGroup | null) {
   if (!comp) return STROKE_TABS;
+  if (isTeamMatchEvent(comp.event_type)) return TEAM_MATCH_TABS;
   if (isMatchplayKnockout(comp.event_type)) return MATCHPLAY_KNOCKOUT_TABS;
   if (isMatchplayLeague(comp.event_type)) return MATCHPLAY_LEAGUE_TABS;
   return STROKE_TABS;
@@ -891,6 +910,9 @@ function TeeTimeCard({
           )}
           <span className="text-sm font-semibold text-[#f5e6b0]">{timeStr}</span>
           <span className="text-[11px] text-emerald-100/55 ml-2">{dateStr}</span>
+          {tt.start_hole != null && (
+            <span className="text-[10px] text-emerald-200/55 ml-2">Tee {tt.start_hole}</span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {tt.round?.status && (
@@ -973,15 +995,34 @@ function TeeTimeCard({
 
 // ─── Fixture card ────────────────────────────────────────────────────────────
 
-function FixtureCard({ fixture }: { fixture: MatchplayFixture & { home_entry?: any; away_entry?: any } }) {
+function FixtureCard({
+  fixture,
+  myProfileId,
+  onAvailability,
+}: {
+  fixture: MatchplayFixture & { home_entry?: any; away_entry?: any };
+  myProfileId?: string | null;
+  /** Lets a player in the fixture say they're ready to play before the deadline. */
+  onAvailability?: (available: boolean) => void;
+}) {
   const resultLabel = fixture.result_type
     ? fixture.result_type === "halved"
       ? "½"
+      : fixture.result_type === "walkover_home" || fixture.result_type === "walkover_away"
+      ? "W/O"
+      : fixture.result_type === "double_withdrawal"
+      ? "Forfeit"
       : fixture.margin_holes != null && fixture.holes_remaining != null
       ? `${fixture.margin_holes}&${fixture.holes_remaining}`
       : fixture.result_type.replace("_", " ")
     : null;
 
+  const myEntry = [fixture.home_entry, fixture.away_entry].find((e) => e && e.profile_id === myProfileId);
+  const opponentEntry = myEntry === fixture.home_entry ? fixture.away_entry : fixture.home_entry;
+  const available = fixture.available_entry_ids ?? [];
+  const iAmReady = !!myEntry && available.includes(myEntry.id);
+  const opponentReady = !!opponentEntry && available.includes(opponentEntry.id);
+
   const homeWon = fixture.result_type === "home_win" || fixture.result_type === "walkover_home";
   const awayWon = fixture.result_type === "away_win" || fixture.result_type === "walkover_away";
 
@@ -1000,7 +1041,7 @@ function FixtureCard({ fixture }: { fixture: MatchplayFixture & { home_entry?: a
 
         {/* Result */}
         <div className="shrink-0 text-center w-14">
-          {fixture.status === "completed" && resultLabel ? (
+          {(fixture.status === "completed" || fixture.status === "walkover") && resultLabel ? (
             <span className="text-xs font-bold text-[#f5e6b0]">{resultLabel}</span>
           ) : fixture.scheduled_at ? (
             <span className="text-[10px] text-emerald-200/50">
@@ -1021,6 +1062,25 @@ function FixtureCard({ fixture }: { fixture: MatchplayFixture & { home_entry?: a
           </div>
         </div>
       </div>
+
+      {myEntry && fixture.status === "scheduled" && fixture.deadline_at && onAvailability && (
+        <div className="mt-2 flex items-center justify-between gap-2 border-t border-emerald-900/40 pt-2">
+          <span className="text-[10px] text-emerald-200/50">
+            {opponentReady ? "Your opponent is ready to play" : "Not played by the deadline? It goes to whoever is ready."}
+          </span>
+          <button
+            type="button"
+            onClick={() => onAvailability(!iAmReady)}
+            className={`shrink-0 rounded-full border px-2.5 py-1 text-[10px] font-semibold ${
+              iAmReady
+                ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+                : "border-emerald-800/50 text-emerald-200/70"
+            }`}
+          >
+            {iAmReady ? "✓ Ready" : "Ready to play"}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1179,6 +1239,20 @@ function EventSetupSheet({
   const [handicapPct, setHandicapPct] = useState(handicap.allowance_pct != null ? String(handicap.allowance_pct) : "100");
   const [handicapMax, setHandicapMax] = useState(handicap.max_handicap != null ? String(handicap.max_handicap) : "");
   const [majorsStatus, setMajorsStatus] = useState<string>(event.majors_status ?? "upcoming");
+  const [sideGames, setSideGames] = useState<Array<any>>(event.side_games ?? []);
+
+  // Entry & eligibility
+  const initialRules = parseEligibilityRules(event.eligibility_rules);
+  const [visibility, setVisibility] = useState<EventVisibility>(event.visibility ?? "group");
+  const [approvalRequired, setApprovalRequired] = useState(!!event.entry_approval_required);
+  const [minHi, setMinHi] = useState<number | null>(initialRules.min_handicap_index ?? null);
+  const [maxHi, setMaxHi] = useState<number | null>(initialRules.max_handicap_index ?? null);
+  const [genderRule, setGenderRule] = useState<"male" | "female" | null>(initialRules.gender ?? null);
+  const [homeClubs, setHomeClubs] = useState<{ id: string; name: string }[]>(
+    (initialRules.home_course_ids ?? []).map((id) => ({ id, name: "" }))
+  );
+  const [requireMembership, setRequireMembership] = useState(!!initialRules.require_group_membership);
+  const [showHomeClubPicker, setShowHomeClubPicker] = useState(false);
 
   // Per-round state
   const [rounds, setRounds] = useState<RoundEditState[]>(() =>
@@ -1199,6 +1273,21 @@ function EventSetupSheet({
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Resolve names for the home-club restriction
+  useEffect(() => {
+    const ids = initialRules.home_course_ids ?? [];
+    if (ids.length === 0) return;
+    supabase
+      .from("courses")
+      .select("id, name")
+      .in("id", ids)
+      .then(({ data }) => {
+        const names = new Map((data ?? []).map((c: any) => [c.id as string, c.name as string]));
+        setHomeClubs((prev) => prev.map((c) => ({ ...c, name: names.get(c.id) ?? c.name })));
+      });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // Fetch tee boxes for rounds that already have a course on mount
   useEffect(() => {
     eventRounds.forEach((r, idx) => {
@@ -1316,6 +1405,16 @@ function EventSetupSheet({
           standings_contribution: standingsContrib,
           tee_time_mode: teeTimeMode,
           majors_status: majorsStatus,
+          side_games: sideGames,
+          visibility,
+          entry_approval_required: approvalRequired,
+          eligibility_rules: {
+            min_handicap_index: minHi,
+            max_handicap_index: maxHi,
+            gender: genderRule,
+            home_course_ids: homeClubs.map((c) => c.id),
+            require_group_membership: requireMembership,
+          },
         }),
       });
       const json = await res.json();
@@ -1408,6 +1507,76 @@ function EventSetupSheet({
               </div>
             </div>
 
+            {/* Entry & eligibility */}
+            <div className="rounded-xl border border-emerald-900/40 bg-emerald-950/30 p-3 space-y-3">
+              <div className="text-[10px] uppercase tracking-wider text-emerald-200/50 font-semibold">Entry &amp; Eligibility</div>
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Visibility</label>
+                <div className="grid grid-cols-2 gap-1.5">
+                  {(["group", "public"] as const).map((v) => (
+                    <button key={v} type="button" onClick={() => setVisibility(v)}
+                      className={`rounded-xl border px-2 py-1.5 text-[10px] text-center transition-colors ${visibility === v ? "border-emerald-500 bg-emerald-900/50 text-emerald-50" : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"}`}>
+                      {v === "group" ? "Group only" : "Public"}
+                    </button>
+                  ))}
+                </div>
+                {visibility === "public" && (
+                  <p className="text-[10px] text-emerald-200/45 leading-relaxed">
+                    Listed on Public Events — anyone who meets the rules below can enter.
+                  </p>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-[11px] text-emerald-100/80">
+                <input type="checkbox" checked={approvalRequired} onChange={(e) => setApprovalRequired(e.target.checked)} />
+                Entries need organiser approval
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Min HI</label>
+                  <NumberField allowDecimal allowNegative value={minHi} onValueChange={setMinHi}
+                    placeholder="Any"
+                    className="w-full rounded-xl bg-emerald-900/30 border border-emerald-800/40 px-3 py-2 text-sm text-emerald-50 focus:outline-none" />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Max HI</label>
+                  <NumberField allowDecimal allowNegative value={maxHi} onValueChange={setMaxHi}
+                    placeholder="Any"
+                    className="w-full rounded-xl bg-emerald-900/30 border border-emerald-800/40 px-3 py-2 text-sm text-emerald-50 focus:outline-none" />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Gender</label>
+                <div className="grid grid-cols-3 gap-1.5">
+                  {([null, "male", "female"] as const).map((g) => (
+                    <button key={g ?? "any"} type="button" onClick={() => setGenderRule(g)}
+                      className={`rounded-xl border px-2 py-1.5 text-[10px] text-center transition-colors ${genderRule === g ? "border-emerald-500 bg-emerald-900/50 text-emerald-50" : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"}`}>
+                      {g === null ? "Open" : g === "male" ? "Men" : "Women"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Home Club</label>
+                {homeClubs.map((c) => (
+                  <div key={c.id} className="flex items-center justify-between rounded-xl border border-emerald-600/60 bg-emerald-900/30 px-3 py-1.5">
+                    <span className="text-xs text-emerald-50 truncate">{c.name || "Course"}</span>
+                    <button type="button" onClick={() => setHomeClubs((prev) => prev.filter((x) => x.id !== c.id))}
+                      className="ml-3 text-[11px] text-emerald-300/60 hover:text-emerald-200 shrink-0">✕</button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setShowHomeClubPicker(true)}
+                  className="w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-1.5 text-xs text-emerald-100/40 hover:border-emerald-700/60 text-left">
+                  {homeClubs.length ? "+ Add another club" : "Any club — restrict to members of…"}
+                </button>
+              </div>
+              {event.group_id && visibility === "public" && (
+                <label className="flex items-center gap-2 text-[11px] text-emerald-100/80">
+                  <input type="checkbox" checked={requireMembership} onChange={(e) => setRequireMembership(e.target.checked)} />
+                  Group members only
+                </label>
+              )}
+            </div>
+
             {/* Per-round course + tees */}
             {!isAggregate && (
               <div className="space-y-2">
@@ -1524,6 +1693,17 @@ function EventSetupSheet({
               </div>
             )}
 
+            {/* Party games — copied onto each tee time's round */}
+            <div className="rounded-xl border border-emerald-900/40 bg-emerald-950/30 p-3 space-y-2">
+              <div className="text-[10px] uppercase tracking-wider text-emerald-200/50 font-semibold">Party Games</div>
+              <SideGamesManager
+                value={sideGames}
+                onChange={setSideGames}
+                disabled={isScoringLocked}
+                formatType={roundFormatForEventType(selectedCompType)}
+              />
+            </div>
+
             {/* Points model */}
             <div className="space-y-1">
               <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Points</label>
@@ -1597,6 +1777,16 @@ function EventSetupSheet({
           onSelect={(id, cname) => handleRoundCourseSelect(showCoursePickerIdx, id, cname ?? "")}
         />
       )}
+      {showHomeClubPicker && (
+        <CoursePickerModal
+          open={true}
+          onClose={() => setShowHomeClubPicker(false)}
+          onSelect={(id, cname) => {
+            if (id) setHomeClubs((prev) => (prev.some((c) => c.id === id) ? prev : [...prev, { id, name: cname ?? "" }]));
+            setShowHomeClubPicker(false);
+          }}
+        />
+      )}
     </>
   );
 }
@@ -1633,7 +1823,7 @@ export default function EventDetailClient({
   const router = useRouter();
   const searchParams = useSearchParams();
   const fromHome = searchParams.get("from") === "home";
-  const VALID_TABS: readonly Tab[] = ["overview", "leaderboard", "tee-times", "rules", "fixtures", "bracket", "league-table", "winnings", "finances"];
+  const VALID_TABS: readonly Tab[] = ["overview", "leaderboard", "tee-times", "rules", "fixtures", "bracket", "league-table", "teams", "winnings", "finances"];
   const tabParam = searchParams.get("tab") as Tab | null;
   const [tab, setTab] = useState<Tab>(tabParam && VALID_TABS.includes(tabParam) ? tabParam : "overview");
   const [event, setCompetition] = useState<EventWithGroup | null>(null);
@@ -1644,6 +1834,7 @@ export default function EventDetailClient({
   const [isEntered, setIsEntered] = useState(false);
   const [entering, setEntering] = useState(false);
   const [enterError, setEnterError] = useState<string | null>(null);
+  const [myEntryRequest, setMyEntryRequest] = useState<EventEntryRequest | null>(null);
   const [showInvitePlayers, setShowInvitePlayers] = useState(false);
   // Join drawer
   const [showJoinDrawer, setShowJoinDrawer] = useState(false);
@@ -1653,6 +1844,8 @@ export default function EventDetailClient({
   const [selectedOptionalPotIds, setSelectedOptionalPotIds] = useState<string[]>([]);
   const [selectedOptionalGroupChargeIds, setSelectedOptionalGroupChargeIds] = useState<string[]>([]);
   const [showAddTeeTime, setShowAddTeeTime] = useState(false);
+  const [showTeeTimeDraw, setShowTeeTimeDraw] = useState(false);
+  const [showLeagueSetup, setShowLeagueSetup] = useState(false);
   const [editingTeeTime, setEditingTeeTime] = useState<EventTeeTime | null>(null);
   const [myProfileId, setMyProfileId] = useState<string | null>(null);
   const [myRole, setMyRole] = useState<string | null>(null);
@@ -1681,6 +1874,7 @@ export default function EventDetailClient({
     reveal_top_x: number | null;
   } | null>(null);
   const [showReveal, setShowReveal] = useState(false);
+  const [showDisplayLinks, setShowDisplayLinks] = useState(false);
   const [revealLoading, setRevealLoading] = useState(false);
   const [hasFirstPlaceTie, setHasFirstPlaceTie] = useState(false);
   const [allEntrantsComplete, setAllEntrantsComplete] = useState(false);
@@ -2038,6 +2232,39 @@ export default function EventDetailClient({
     }
   };
 
+  const refreshMatchplay = async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const headers = { Authorization: `Bearer ${session.accessToken}` };
+    const [fixRes, ltRes] = await Promise.all([
+      fetch(`/api/majors/events/${eventId}/fixtures`, { headers }),
+      fetch(`/api/majors/events/${eventId}/league-table`, { headers }),
+    ]);
+    if (fixRes.ok) {
+      const j = await fixRes.json();
+      setMatchplayStages(j.stages ?? []);
+      setMatchplayFixtures(j.fixtures ?? []);
+    }
+    if (ltRes.ok) {
+      const j = await ltRes.json();
+      setLeagueTable(j.entries ?? []);
+    }
+  };
+
+  const setFixtureAvailability = async (fixtureId: string, available: boolean) => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/majors/fixtures/${fixtureId}/availability`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ available }),
+    });
+    if (res.ok) {
+      const j = await res.json();
+      setMatchplayFixtures((prev) => prev.map((f) => (f.id === fixtureId ? { ...f, ...j.fixture } : f)));
+    }
+  };
+
   const refreshFinances = async () => {
     const session = await requireViewerSession();
     if (!session) return;
@@ -2095,7 +2322,12 @@ export default function EventDetailClient({
           optional_group_charge_ids: selectedOptionalGroupChargeIds,
         }),
       });
-      if (res.ok) {
+      if (res.status === 202) {
+        // Organiser approval required — the entry is now a pending request.
+        const j = await res.json();
+        setMyEntryRequest(j.request ?? null);
+        setShowJoinDrawer(false);
+      } else if (res.ok) {
         setIsEntered(true);
         setShowJoinDrawer(false);
         // Refresh participants so the leaderboard shows the new entrant
@@ -2115,6 +2347,27 @@ export default function EventDetailClient({
     }
   };
 
+  const handleWithdrawEntryRequest = async () => {
+    if (!myEntryRequest) return;
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/majors/events/${eventId}/entry-requests/${myEntryRequest.id}`, {
+      method: "PATCH",
+      headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "withdraw" }),
+    });
+    if (res.ok) setMyEntryRequest(null);
+  };
+
+  const refreshParticipants = async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/majors/events/${eventId}/participants`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    if (res.ok) { const j = await res.json(); setParticipants(j.participants ?? []); }
+  };
+
   const handleWithdraw = async () => {
     setWithdrawing(true);
     try {
@@ -2269,6 +2522,27 @@ export default function EventDetailClient({
     myRole === "admin" ||
     (!event?.group_id && event?.created_by_profile_id === myProfileId);
 
+  // Events needing approval: load the viewer's own request (pending / rejected).
+  const approvalRequired = !!event?.entry_approval_required;
+  useEffect(() => {
+    if (!approvalRequired || isEntered) return;
+    let cancelled = false;
+    (async () => {
+      const session = await requireViewerSession();
+      if (!session || cancelled) return;
+      const res = await fetch(`/api/majors/events/${eventId}/entry-requests`, {
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+      });
+      if (!res.ok || cancelled) return;
+      const j = await res.json();
+      const mine = (j.requests ?? []).find(
+        (r: EventEntryRequest) => r.profile_id === session.profileId && r.status !== "withdrawn"
+      );
+      setMyEntryRequest(mine ?? null);
+    })();
+    return () => { cancelled = true; };
+  }, [eventId, approvalRequired, isEntered]);
+
   // Accepting an event invite from Home navigates here with ?autoEnter=1 — open
   // the entry drawer once the data has loaded and entry is open.
   const autoEnter = searchParams.get("autoEnter") === "1";
@@ -2436,6 +2710,23 @@ export default function EventDetailClient({
           </div>
         )}
 
+        {/* Entry conditions */}
+        {(() => {
+          const conditions = describeEligibility(parseEligibilityRules(event.eligibility_rules));
+          if (event.visibility === "public") conditions.unshift("Public");
+          if (approvalRequired) conditions.push("Approval required");
+          if (conditions.length === 0) return null;
+          return (
+            <div className="flex gap-1.5 flex-wrap">
+              {conditions.map((c) => (
+                <span key={c} className="text-[10px] px-2 py-0.5 rounded-full border border-emerald-800/50 text-emerald-200/70">
+                  {c}
+                </span>
+              ))}
+            </div>
+          );
+        })()}
+
         {/* Admin edit setup */}
         {isAdminOrOwner && (
           <button
@@ -2490,8 +2781,34 @@ export default function EventDetailClient({
           </div>
         )}
 
+        {/* Admin: approval queue */}
+        {isAdminOrOwner && approvalRequired && (
+          <EntryRequestsPanel eventId={eventId} onApproved={refreshParticipants} />
+        )}
+
+        {/* Entry request status (approval required) */}
+        {!isEntered && myEntryRequest?.status === "pending" && (
+          <div className="space-y-2">
+            <div className="rounded-xl border border-sky-800/40 bg-sky-950/20 px-3 py-2.5 text-center text-[11px] text-sky-300 font-semibold">
+              Entry requested — awaiting organiser approval
+            </div>
+            <button type="button" onClick={handleWithdrawEntryRequest}
+              className="w-full py-2 rounded-full border border-red-900/50 text-sm text-red-400/70 hover:text-red-400">
+              Withdraw Request
+            </button>
+          </div>
+        )}
+        {!isEntered && myEntryRequest?.status === "rejected" && (
+          <div className="rounded-xl border border-red-900/40 bg-red-950/20 px-3 py-2.5 text-center space-y-0.5">
+            <div className="text-[11px] text-red-300 font-semibold">Your entry request was declined</div>
+            {myEntryRequest.decision_reason && (
+              <div className="text-[10px] text-red-200/60">{myEntryRequest.decision_reason}</div>
+            )}
+          </div>
+        )}
+
         {/* Entry / Submit CTAs */}
-        {!isEntered && entryOpen && (
+        {!isEntered && entryOpen && myEntryRequest?.status !== "pending" && (
           <>
             <button
               type="button"
@@ -2702,13 +3019,24 @@ export default function EventDetailClient({
                         </div>
                       </div>
                     )}
+                    {joinPreview?.eligibility_failures?.length > 0 && (
+                      <div className="rounded-xl border border-red-900/40 bg-red-950/20 px-3 py-2 space-y-0.5">
+                        {joinPreview.eligibility_failures.map((f: any) => (
+                          <div key={f.rule} className="text-[11px] text-red-300">{f.message}</div>
+                        ))}
+                      </div>
+                    )}
                     <button
                       type="button"
                       onClick={handleEnter}
-                      disabled={entering}
+                      disabled={entering || joinPreview?.eligibility_failures?.length > 0}
                       className="w-full py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
                     >
-                      {entering ? "Joining…" : "Confirm & Join"}
+                      {entering
+                        ? "Joining…"
+                        : joinPreview?.entry_approval_required && !isAdminOrOwner
+                        ? "Request Entry"
+                        : "Confirm & Join"}
                     </button>
                     {enterError && <div className="text-sm text-red-400 text-center">{enterError}</div>}
                   </div>
@@ -2945,6 +3273,15 @@ export default function EventDetailClient({
               ↺ Replay ceremony
             </button>
           )}
+          {isAdminOrOwner && (
+            <button
+              type="button"
+              onClick={() => setShowDisplayLinks(true)}
+              className="w-full py-1 mb-1.5 text-[11px] text-emerald-200/25 hover:text-emerald-200/50 transition-colors"
+            >
+              Clubhouse display
+            </button>
+          )}
         <div className="space-y-2">
           {leaderboard.length > 0 && (
             <div className="flex gap-1 mb-2">
@@ -3017,6 +3354,14 @@ export default function EventDetailClient({
                   <div className="flex items-center gap-1 min-w-0">
                     <span className="text-sm font-semibold text-emerald-50 truncate">{row.profile?.name ?? "Unknown"}</span>
                     {isFrozenRow && <span className="text-[11px] leading-none shrink-0">❄️</span>}
+                    {(row as any).handicap_adjustment && (
+                      <span
+                        title={`Playing handicap ${(row as any).handicap_adjustment.base} → ${(row as any).handicap_adjustment.value}: ${describeSteps((row as any).handicap_adjustment.steps ?? [])}`}
+                        className="shrink-0 text-[9px] font-bold px-1.5 py-0.5 rounded-full border border-amber-400/40 text-amber-200/90"
+                      >
+                        PH {(row as any).handicap_adjustment.value}
+                      </span>
+                    )}
                   </div>
                   {(row as any).playoff_result && (
                     <span className={`inline-block mt-0.5 text-[9px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded-full ${
@@ -3433,6 +3778,15 @@ export default function EventDetailClient({
               + {isSelfSelect ? "Add Slot" : "Add Tee Time"}
             </button>
           )}
+          {isAdminOrOwner && !isSelfSelect && participants.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowTeeTimeDraw(true)}
+              className="w-full py-2.5 rounded-full border border-emerald-800/50 text-sm text-emerald-200/70 hover:bg-emerald-900/30"
+            >
+              Draw Tee Times
+            </button>
+          )}
           {teeTimes.length === 0 && eventRounds.length === 0 ? (
             <div className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 p-5 text-center space-y-1">
               <div className="text-sm text-emerald-100/60">
@@ -3562,31 +3916,99 @@ export default function EventDetailClient({
       </div>
     ) : null,
 
-    fixtures: (
-      <div className="space-y-4">
-        {matchplayStages.length === 0 && matchplayFixtures.length === 0 ? (
-          <div className="text-sm text-emerald-100/60 text-center py-8">
-            {isAdminOrOwner ? "No fixtures generated yet." : "Fixtures not yet scheduled."}
-          </div>
-        ) : (
-          matchplayStages.length > 0
-            ? matchplayStages.map((stage) => (
-                <div key={stage.id} className="space-y-2">
-                  <div className="text-[10px] uppercase tracking-wider text-emerald-200/60 font-semibold px-1">{stage.name}</div>
-                  {matchplayFixtures.filter((f) => f.stage_id === stage.id).map((f) => (
-                    <FixtureCard key={f.id} fixture={f as any} />
-                  ))}
-                </div>
-              ))
-            : matchplayFixtures.map((f) => <FixtureCard key={f.id} fixture={f as any} />)
-        )}
-      </div>
-    ),
+    fixtures: (() => {
+      const isLeague = isMatchplayLeague(event?.event_type);
+      const card = (f: MatchplayFixture) => (
+        <FixtureCard
+          key={f.id}
+          fixture={f as any}
+          myProfileId={myProfileId}
+          onAvailability={(available) => setFixtureAvailability(f.id, available)}
+        />
+      );
+      // League fixtures are grouped by round, each with its play-by date.
+      const byRound = (fixtures: MatchplayFixture[]) => {
+        if (!isLeague || !fixtures.some((f) => f.round_number != null)) return fixtures.map(card);
+        const rounds = [...new Set(fixtures.map((f) => f.round_number ?? 0))].sort((a, b) => a - b);
+        return rounds.map((r) => {
+          const inRound = fixtures.filter((f) => (f.round_number ?? 0) === r);
+          const deadline = inRound.find((f) => f.deadline_at)?.deadline_at;
+          return (
+            <div key={r} className="space-y-1.5">
+              <div className="flex items-center justify-between px-1 text-[10px] text-emerald-200/50">
+                <span>Round {r}</span>
+                {deadline && (
+                  <span>
+                    Play by {new Date(deadline).toLocaleDateString([], { month: "short", day: "numeric", timeZone: "UTC" })}
+                  </span>
+                )}
+              </div>
+              {inRound.map(card)}
+            </div>
+          );
+        });
+      };
+      return (
+        <div className="space-y-4">
+          {isAdminOrOwner && isLeague && (matchplayFixtures.length > 0 || participants.length >= 2) && (
+            <button
+              type="button"
+              onClick={() => setShowLeagueSetup(true)}
+              className="w-full py-2.5 rounded-full border border-emerald-800/50 text-sm text-emerald-200/70 hover:bg-emerald-900/30"
+            >
+              {matchplayFixtures.length > 0 ? "League Rules" : "Generate League Fixtures"}
+            </button>
+          )}
+          {matchplayStages.length === 0 && matchplayFixtures.length === 0 ? (
+            <div className="text-sm text-emerald-100/60 text-center py-8">
+              {isAdminOrOwner ? "No fixtures generated yet." : "Fixtures not yet scheduled."}
+            </div>
+          ) : (
+            matchplayStages.length > 0
+              ? matchplayStages.map((stage) => (
+                  <div key={stage.id} className="space-y-2">
+                    <div className="text-[10px] uppercase tracking-wider text-emerald-200/60 font-semibold px-1">{stage.name}</div>
+                    {byRound(matchplayFixtures.filter((f) => f.stage_id === stage.id))}
+                  </div>
+                ))
+              : byRound(matchplayFixtures)
+          )}
+        </div>
+      );
+    })(),
 
     bracket: (
-      <div className="space-y-3 text-sm text-emerald-100/70 text-center py-8">
-        Bracket view coming soon.
-      </div>
+      <BracketView
+        eventId={eventId}
+        stages={matchplayStages}
+        fixtures={matchplayFixtures}
+        config={event?.bracket_config}
+        isAdmin={isAdminOrOwner}
+        entrantCount={participants.length}
+        myProfileId={myProfileId}
+        onChanged={async () => {
+          await refreshMatchplay();
+          const session = await requireViewerSession();
+          if (!session) return;
+          const res = await fetch(`/api/majors/events/${eventId}`, {
+            headers: { Authorization: `Bearer ${session.accessToken}` },
+          });
+          if (res.ok) {
+            const j = await res.json();
+            if (j.event) setCompetition((prev) => (prev ? { ...prev, bracket_config: j.event.bracket_config } : prev));
+          }
+        }}
+      />
+    ),
+
+    teams: (
+      <TeamMatchPanel
+        eventId={eventId}
+        participants={participants}
+        isAdmin={isAdminOrOwner}
+        eventRounds={eventRounds}
+        onChanged={refreshTeeTimes}
+      />
     ),
 
     "league-table": (
@@ -3597,15 +4019,16 @@ export default function EventDetailClient({
           </div>
         ) : (
           <>
-            <div className="grid grid-cols-6 text-[10px] uppercase tracking-wider text-emerald-200/50 px-3 pb-1">
+            <div className="grid grid-cols-7 text-[10px] uppercase tracking-wider text-emerald-200/50 px-3 pb-1">
               <span className="col-span-2">Player</span>
               <span className="text-center">P</span>
               <span className="text-center">W</span>
               <span className="text-center">H</span>
+              <span className="text-center">+/−</span>
               <span className="text-center">Pts</span>
             </div>
             {leagueTable.map((row) => (
-              <div key={row.id} className="grid grid-cols-6 items-center rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2.5">
+              <div key={row.id} className="grid grid-cols-7 items-center rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2.5">
                 <div className="col-span-2 flex items-center gap-2 min-w-0">
                   <span className="text-[11px] text-emerald-200/50 w-4 shrink-0">{row.position ?? "—"}</span>
                   {row.profile?.avatar_url ? (
@@ -3620,6 +4043,12 @@ export default function EventDetailClient({
                 <span className="text-center text-xs text-emerald-100/70">{row.played}</span>
                 <span className="text-center text-xs text-emerald-100/70">{row.won}</span>
                 <span className="text-center text-xs text-emerald-100/70">{row.halved}</span>
+                <span className="text-center text-xs text-emerald-100/70">
+                  {(() => {
+                    const up = (row.matches_for ?? 0) - (row.matches_against ?? 0);
+                    return up > 0 ? `+${up}` : up;
+                  })()}
+                </span>
                 <span className="text-center text-xs font-bold text-[#f5e6b0]">{row.league_points}</span>
               </div>
             ))}
@@ -5114,6 +5543,40 @@ export default function EventDetailClient({
         />
       )}
 
+      {showDisplayLinks && (
+        <DisplayLinksSheet eventId={eventId} onClose={() => setShowDisplayLinks(false)} />
+      )}
+
+      {showLeagueSetup && event && (
+        <LeagueSetupSheet
+          eventId={eventId}
+          config={event.league_config}
+          scheduled={matchplayFixtures.length > 0}
+          onClose={() => setShowLeagueSetup(false)}
+          onSaved={async () => {
+            await refreshMatchplay();
+            const session = await requireViewerSession();
+            if (!session) return;
+            const res = await fetch(`/api/majors/events/${eventId}`, {
+              headers: { Authorization: `Bearer ${session.accessToken}` },
+            });
+            if (res.ok) {
+              const j = await res.json();
+              if (j.event) setCompetition((prev) => (prev ? { ...prev, league_config: j.event.league_config } : prev));
+            }
+          }}
+        />
+      )}
+
+      {showTeeTimeDraw && (
+        <TeeTimeDrawSheet
+          eventId={eventId}
+          eventRounds={eventRounds}
+          onClose={() => setShowTeeTimeDraw(false)}
+          onPublished={refreshTeeTimes}
+        />
+      )}
+
       {editingTeeTime && (
         <EditTeeTimeSheet
           eventId={eventId}
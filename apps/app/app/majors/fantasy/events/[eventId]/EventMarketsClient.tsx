@@ -31,6 +31,7 @@ import { OddsBlank, OddsButton } from "@/components/fantasy/board/OddsButton";
 import { MarketTable } from "@/components/fantasy/board/MarketTable";
 import { PlayerAccordion } from "@/components/fantasy/board/PlayerAccordion";
 import { SeasonMarketsPanel } from "@/components/fantasy/SeasonMarketsPanel";
+import { ExchangePanel } from "@/components/fantasy/ExchangePanel";
 import { PlayerStatsSheet, type PlayerStats } from "@/components/fantasy/PlayerStatsSheet";
 
 type BoardResponse = {
@@ -61,12 +62,17 @@ type BoardResponse = {
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const FLASH_MS = 1400;
 const SEASON_TAB = "season";
+const EXCHANGE_TAB = "exchange";
 
 type HoleOutcome = "birdie_or_better" | "bogey_or_worse";
 
 type CategoryId =
   | "finishes" | "match" | "scoreBands" | "scoreTotals" | "birdies" | "eagles" | "rare" | "holes";
 
+// Matchplay events' markets, shown under Finishes and Match Bets.
+const MATCHPLAY_WINNER_TYPES = ["bracket_winner", "league_winner"];
+const MATCHPLAY_FIXTURE_TYPES = ["match_winner", "match_margin", "match_distance"];
+
 const CATEGORY_TABS: { id: CategoryId; label: string }[] = [
   { id: "finishes", label: "Finishes" },
   { id: "match", label: "Match Bets" },
@@ -87,7 +93,7 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
   // Admin "Refresh": rebuild every field profile then force-reprice this event.
   const [refreshingMarkets, setRefreshingMarkets] = useState(false);
   const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  // Tabs: "event" | "round-N" | "season".
+  // Tabs: "event" | "round-N" | "exchange" | "season".
   const [activeTab, setActiveTab] = useState<string>("event");
   const [seasonId, setSeasonId] = useState<string | null>(null);
   // Category tabs within the Event/Round board (Finishes, Match Bets, ...).
@@ -304,6 +310,7 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
       subjectProfileId: market.subject_profile_id,
       opponentProfileId: market.opponent_profile_id,
       eventRankingBasis: board.event.ranking_basis,
+      eachWayTerms: selection.each_way ?? null,
     });
   };
 
@@ -317,7 +324,7 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
   const names = board?.names ?? {};
 
   const tabs = useMemo(() => {
-    const base = deriveTabs(markets);
+    const base = [...deriveTabs(markets), { id: EXCHANGE_TAB, label: "Exchange", round: null }];
     return seasonId ? [...base, { id: SEASON_TAB, label: "Season", round: null }] : base;
   }, [markets, seasonId]);
 
@@ -460,6 +467,11 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
       eagles: buildCountTable(tabMarkets, names, "eagle_count", round, (c) => `${c}+`),
       rare: round == null ? buildRareRows(tabMarkets) : [],
       holeMarkets: round == null ? tabMarkets.filter((m) => m.market_type === "hole_score") : [],
+      matchplayWinners: tabMarkets.filter((m) => MATCHPLAY_WINNER_TYPES.includes(m.market_type)),
+      // Each fixture's winner, margin and distance markets together.
+      fixtures: tabMarkets
+        .filter((m) => MATCHPLAY_FIXTURE_TYPES.includes(m.market_type))
+        .sort((a, b) => String(a.params.fixture_id).localeCompare(String(b.params.fixture_id))),
     };
   };
 
@@ -472,9 +484,14 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
           if (data.roundWinner.length === 0) return noMarkets(round);
           return <div className="space-y-2">{data.roundWinner.map((m) => marketCard(m, m.selections))}</div>;
         }
-        if (!data.finishes && data.exact.length === 0 && data.ranges.length === 0) return noMarkets(round);
+        if (!data.finishes && data.exact.length === 0 && data.ranges.length === 0 && data.matchplayWinners.length === 0) {
+          return noMarkets(round);
+        }
         return (
           <div className="space-y-3">
+            {data.matchplayWinners.length > 0 && (
+              <div className="space-y-2">{data.matchplayWinners.map((m) => marketCard(m, m.selections))}</div>
+            )}
             {data.finishes && <MarketTable model={data.finishes} renderCell={renderCell} onPlayer={openStats} />}
             {data.exact.length > 0 && (
               <div className="space-y-2">
@@ -507,6 +524,9 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
 
       case "match": {
         const matchRows = buildMatchRows(data.h2h, names);
+        if (data.fixtures.length > 0) {
+          return <div className="space-y-2">{data.fixtures.map((m) => marketCard(m, m.selections))}</div>;
+        }
         if (matchRows.length === 0) return noMarkets(round);
         return (
           <div>
@@ -777,6 +797,13 @@ export default function EventMarketsClient({ eventId }: { eventId: string }) {
 
           {activeTab === SEASON_TAB && seasonId ? (
             <SeasonMarketsPanel seasonId={seasonId} />
+          ) : activeTab === EXCHANGE_TAB ? (
+            <ExchangePanel
+              eventId={eventId}
+              onChanged={() => {
+                if (board?.event?.group_id) fetchBalance(board.event.group_id);
+              }}
+            />
           ) : (
             <>
               {/* Category tabs */}
@@ -33,6 +33,7 @@ type InspectPayload = {
   players: {
     profileId: string; name: string; playingHandicap: number;
     playingHandicapSource: string; completedHoles: number; roundComplete: boolean;
+    playingHandicapCommittee: { base: number; summary: string } | null;
     modelPath: string;
     profile: {
       handicap_index: number | null; avg_gross: number | null; avg_net: number | null;
@@ -436,7 +437,12 @@ function PlayerRows({
       >
         <td className={`${td} font-medium`}>{p.name}</td>
         <td className={td}>{p.playingHandicap}</td>
-        <td className={td}>{p.playingHandicapSource.replaceAll("_", " ")}</td>
+        <td className={td} title={p.playingHandicapCommittee?.summary}>
+          {p.playingHandicapSource.replaceAll("_", " ")}
+          {p.playingHandicapCommittee && (
+            <span className="text-amber-300"> · committee from {p.playingHandicapCommittee.base}</span>
+          )}
+        </td>
         <td className={`${td} ${p.modelPath === "differential" ? "text-emerald-300" : "text-amber-300"}`}>
           {p.modelPath}
         </td>
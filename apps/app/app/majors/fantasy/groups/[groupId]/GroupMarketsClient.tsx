@@ -205,6 +205,16 @@ export default function GroupMarketsClient({ groupId }: { groupId: string }) {
               {refreshingAll ? "Refreshing…" : "⟳ Refresh all"}
             </button>
           )}
+          {isAdmin && (
+            <button
+              type="button"
+              onClick={() => router.push(`/majors/fantasy/groups/${groupId}/backtest`)}
+              className="text-[10px] text-emerald-200/80 border border-emerald-800/50 rounded-full px-2 py-0.5 hover:text-emerald-100"
+              title="Backtest the odds model against settled events"
+            >
+              Calibration
+            </button>
+          )}
           <OddsFormatMenu />
         </div>
       </div>
@@ -242,6 +252,25 @@ export default function GroupMarketsClient({ groupId }: { groupId: string }) {
             </div>
           </div>
 
+          {/* Draft league */}
+          {group.config.draft && (
+            <button
+              type="button"
+              onClick={() => router.push(`/majors/fantasy/groups/${groupId}/draft`)}
+              className="w-full text-left rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/70 px-3.5 py-3 hover:bg-emerald-900/30 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-[13px] font-semibold text-emerald-50">Draft League</div>
+                  <div className="text-[10px] text-emerald-200/50 mt-0.5">
+                    Draft a roster, pick a lineup each event, climb the table
+                  </div>
+                </div>
+                <span className="shrink-0 text-[11px] font-semibold text-emerald-400">Open →</span>
+              </div>
+            </button>
+          )}
+
           {/* Season markets */}
           {season && (
             <section>
@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { HANDICAP_BANDS, type BacktestReport, type CalibrationSummary } from "@/lib/fantasy/backtest";
+
+/**
+ * Model calibration report — group owner/admin. Shows the latest backtest run
+ * (settled events replayed from their captured generation inputs) and lets an
+ * admin re-run it. Lower Brier / log-loss is better; a calibrated model's
+ * reliability bins sit on the diagonal.
+ */
+
+type BacktestRun = { id: string; created_at: string; report: BacktestReport };
+
+const card = "rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/70 px-3.5 py-3";
+const th = "py-1 text-left text-[9px] font-semibold uppercase tracking-wide text-emerald-200/50";
+const td = "py-1 text-[11px] text-emerald-100/90 tabular-nums";
+const primaryButton =
+  "w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-40";
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+const score = (n: number) => n.toFixed(4);
+const typeLabel = (t: string) => t.replace(/_/g, " ");
+const bandLabel = (b: string) => HANDICAP_BANDS.find((x) => x.id === b)?.label ?? b;
+
+function SummaryTable({
+  title,
+  rows,
+  label,
+}: {
+  title: string;
+  rows: Record<string, CalibrationSummary>;
+  label: (key: string) => string;
+}) {
+  const entries = Object.entries(rows);
+  if (entries.length === 0) return null;
+  return (
+    <section className={card}>
+      <h2 className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">{title}</h2>
+      <table className="w-full">
+        <thead>
+          <tr>
+            <th className={th} />
+            <th className={`${th} text-right`}>n</th>
+            <th className={`${th} text-right`}>Brier</th>
+            <th className={`${th} text-right`}>Log-loss</th>
+            <th className={`${th} text-right`}>Pred / Obs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(([key, s]) => (
+            <tr key={key} className="border-t border-emerald-900/40">
+              <td className={`${td} capitalize`}>{label(key)}</td>
+              <td className={`${td} text-right`}>{s.count}</td>
+              <td className={`${td} text-right`}>{score(s.brier)}</td>
+              <td className={`${td} text-right`}>{score(s.logLoss)}</td>
+              <td className={`${td} text-right`}>
+                {pct(s.meanPredicted)} / {pct(s.observedRate)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function ReliabilityChart({ summary }: { summary: CalibrationSummary }) {
+  return (
+    <section className={card}>
+      <h2 className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">Reliability</h2>
+      <div className="space-y-1.5">
+        {summary.reliability.map((bin) => (
+          <div key={bin.lower} className="text-[10px] text-emerald-100/80">
+            <div className="flex justify-between">
+              <span>
+                {pct(bin.lower)}–{pct(bin.upper)}
+              </span>
+              <span className="text-emerald-200/50">
+                n={bin.count} · pred {pct(bin.meanPredicted)} · obs {pct(bin.observedRate)}
+              </span>
+            </div>
+            <div className="relative h-1.5 rounded-full bg-emerald-950/80 mt-0.5">
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-emerald-600/70"
+                style={{ width: `${bin.observedRate * 100}%` }}
+              />
+              <div
+                className="absolute inset-y-[-2px] w-0.5 bg-[#f5e6b0]"
+                style={{ left: `${bin.meanPredicted * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="text-[9px] text-emerald-200/40 mt-2">
+        Bar = observed win rate · gold tick = mean predicted probability
+      </div>
+    </section>
+  );
+}
+
+export default function BacktestReportClient({ groupId }: { groupId: string }) {
+  const router = useRouter();
+  const [run, setRun] = useState<BacktestRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/fantasy/groups/${groupId}/backtest`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    const j = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(j?.error ?? "Failed to load the report");
+      return;
+    }
+    setRun((j?.run ?? null) as BacktestRun | null);
+  }, [groupId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        await load();
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const runBacktest = async () => {
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/fantasy/groups/${groupId}/backtest`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok) setError(j?.error ?? "Backtest failed");
+      else setRun(j.run as BacktestRun);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadFixture = async (eventId: string) => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/fantasy/events/${eventId}/backtest-fixture`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    if (!res.ok) {
+      const j = await res.json().catch(() => null);
+      setError(j?.error ?? "Fixture export failed");
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `backtest-${eventId}.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const report: BacktestReport | null = run?.report ?? null;
+  // Bands in handicap order rather than the report's alphabetical order.
+  const bands: Record<string, CalibrationSummary> = {};
+  for (const b of HANDICAP_BANDS) {
+    const s = report?.byHandicapBand[b.id];
+    if (s) bands[b.id] = s;
+  }
+
+  return (
+    <div className="min-h-[100dvh] max-w-sm mx-auto">
+      <div className="px-4 pt-8 flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={() => router.push(`/majors/fantasy/groups/${groupId}`)}
+          className="text-[11px] text-emerald-100/70 hover:text-emerald-50"
+        >
+          ← Markets
+        </button>
+        <h1 className="text-lg font-bold tracking-wide text-[#f5e6b0]">Model Calibration</h1>
+        <div className="w-12" />
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-emerald-100/60 text-center py-20">Loading…</div>
+      ) : (
+        <div className="px-4 pb-12 space-y-4">
+          {error && <div className="text-[11px] text-red-300 text-center">{error}</div>}
+
+          <button type="button" disabled={busy} onClick={runBacktest} className={primaryButton}>
+            {busy ? "Replaying events…" : run ? "Re-run backtest" : "Run backtest"}
+          </button>
+
+          {!report ? (
+            <div className={`${card} text-center text-sm text-emerald-100/70`}>
+              No backtest yet. Events are replayable once they settle, from the inputs captured when
+              their odds were generated.
+            </div>
+          ) : (
+            <>
+              <div className={card}>
+                <div className="text-[10px] text-emerald-200/50">
+                  {new Date(run!.created_at).toLocaleString()} · {report.eventCount} events ·{" "}
+                  {report.forecastCount} forecasts · {report.simulationCount.toLocaleString()} sims each
+                </div>
+                <div className="mt-2 grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <div className="text-base font-bold text-[#f5e6b0]">{score(report.overall.brier)}</div>
+                    <div className="text-[9px] uppercase tracking-wide text-emerald-200/50">Brier</div>
+                  </div>
+                  <div>
+                    <div className="text-base font-bold text-[#f5e6b0]">{score(report.overall.logLoss)}</div>
+                    <div className="text-[9px] uppercase tracking-wide text-emerald-200/50">Log-loss</div>
+                  </div>
+                  <div>
+                    <div className="text-base font-bold text-[#f5e6b0]">
+                      {pct(report.overall.meanPredicted)} / {pct(report.overall.observedRate)}
+                    </div>
+                    <div className="text-[9px] uppercase tracking-wide text-emerald-200/50">Pred / Obs</div>
+                  </div>
+                </div>
+              </div>
+
+              {report.forecastCount > 0 && <ReliabilityChart summary={report.overall} />}
+              <SummaryTable title="By model version" rows={report.byModelVersion} label={(k) => k} />
+              <SummaryTable title="By market type" rows={report.byMarketType} label={typeLabel} />
+              <SummaryTable title="By handicap band" rows={bands} label={bandLabel} />
+
+              {report.events.length > 0 && (
+                <section className={card}>
+                  <h2 className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">Events</h2>
+                  <div className="space-y-1.5">
+                    {report.events.map((e) => (
+                      <div key={e.eventId} className="flex items-center justify-between gap-2 text-[11px]">
+                        <div className="min-w-0">
+                          <div className="truncate text-emerald-50">{e.label ?? "Event"}</div>
+                          <div className="text-[10px] text-emerald-200/50">
+                            {e.forecastCount} forecasts · Brier {score(e.brier)}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => downloadFixture(e.eventId)}
+                          className="shrink-0 text-[10px] font-semibold text-emerald-400 hover:text-emerald-300"
+                        >
+                          Fixture ↓
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import BacktestReportClient from "./BacktestReportClient";
+
+export const metadata: Metadata = { title: "Model Calibration" };
+
+export default async function FantasyBacktestPage({
+  params,
+}: {
+  params: Promise<{ groupId: string }>;
+}) {
+  const { groupId } = await params;
+  return (
+    <Suspense>
+      <BacktestReportClient groupId={groupId} />
+    </Suspense>
+  );
+}
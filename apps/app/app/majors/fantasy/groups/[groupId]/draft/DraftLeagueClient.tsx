@@ -0,0 +1,591 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { draftRound, lineupForEvent, type DraftTableRow } from "@/lib/fantasy/draftRules";
+import type {
+  DraftLeagueConfig,
+  FantasyDraftLeague,
+  FantasyDraftLineup,
+  FantasyDraftPick,
+  FantasyDraftTrade,
+  FantasyDraftWaiverClaim,
+} from "@/lib/fantasy/types";
+
+type DraftEvent = {
+  id: string;
+  name: string;
+  event_date: string | null;
+  majors_status: string;
+  locked: boolean;
+  finished: boolean;
+};
+
+type DraftState = {
+  config: DraftLeagueConfig;
+  season: { id: string; name: string } | null;
+  league: FantasyDraftLeague | null;
+  role: string;
+  viewerId: string;
+  names: Record<string, string>;
+  players: string[];
+  managers: { profileId: string; draftSlot: number | null }[];
+  draft?: { order: string[]; picks: FantasyDraftPick[]; onClock: string | null; totalPicks: number };
+  rosters?: Record<string, string[]>;
+  events?: DraftEvent[];
+  lineups?: FantasyDraftLineup[];
+  trades?: FantasyDraftTrade[];
+  myClaims?: FantasyDraftWaiverClaim[];
+  scores?: { eventId: string; managerId: string; total: number }[];
+  table?: DraftTableRow[];
+};
+
+type LineupDraft = { eventId: string; starters: string[]; bench: string[]; captain: string | null };
+
+type Tab = "table" | "team" | "trades" | "waivers";
+
+function formatPoints(n: number): string {
+  const r = Math.round(n * 10) / 10;
+  return Number.isInteger(r) ? String(r) : r.toFixed(1);
+}
+
+const card = "rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/70 px-3.5 py-3";
+const pill = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[11px] font-semibold transition-colors ${
+    active ? "bg-emerald-700 text-white" : "border border-emerald-900/60 text-emerald-200/70 hover:text-emerald-100"
+  }`;
+const primaryButton =
+  "w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-40";
+
+export default function DraftLeagueClient({ groupId }: { groupId: string }) {
+  const router = useRouter();
+  const [state, setState] = useState<DraftState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [tab, setTab] = useState<Tab>("table");
+  const [lineupDraft, setLineupDraft] = useState<LineupDraft | null>(null);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [tradeWith, setTradeWith] = useState<string | null>(null);
+  const [offered, setOffered] = useState<string[]>([]);
+  const [requested, setRequested] = useState<string[]>([]);
+  const [dropId, setDropId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/fantasy/groups/${groupId}/draft`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    const j = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(j?.error ?? "Failed to load the draft league");
+      return;
+    }
+    setState(j as DraftState);
+  }, [groupId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        await load();
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  /** Send a draft action, then reload the board. */
+  const act = async (path: string, method: string, body?: unknown) => {
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/fantasy/groups/${groupId}/draft${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+      if (!res.ok) {
+        const j = await res.json().catch(() => null);
+        setError(j?.error ?? "Something went wrong");
+      }
+      await load();
+      return res.ok;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const name = (id: string) => state?.names[id] ?? "Player";
+  const isAdmin = state?.role === "owner" || state?.role === "admin";
+  const league = state?.league ?? null;
+  const viewerId = state?.viewerId ?? "";
+  const isManager = !!state?.managers.some((m) => m.profileId === viewerId);
+  const rosters = state?.rosters ?? {};
+  const myRoster = rosters[viewerId] ?? [];
+  const rostered = new Set(Object.values(rosters).flat());
+  const picked = new Set((state?.draft?.picks ?? []).map((p) => p.player_profile_id));
+  const freeAgents = (state?.players ?? []).filter((p) => !rostered.has(p) && !picked.has(p));
+
+  // Lineup editor: the chosen open event, prefilled from its lineup (or the
+  // one carried over from an earlier event), else the first N on the roster.
+  const events = state?.events ?? [];
+  const openEvents = events.filter((e) => !e.locked);
+  const selectedEvent = openEvents.find((e) => e.id === eventId) ?? openEvents[0] ?? null;
+  const currentLineup: LineupDraft | null = (() => {
+    if (!selectedEvent || !state) return null;
+    if (lineupDraft?.eventId === selectedEvent.id) return lineupDraft;
+    const saved = lineupForEvent(
+      (state.lineups ?? []).filter((l) => l.manager_profile_id === viewerId),
+      events.map((e) => e.id),
+      selectedEvent.id
+    );
+    const owned = new Set(myRoster);
+    const starters = (saved?.starters ?? []).filter((p) => owned.has(p));
+    for (const p of myRoster) {
+      if (starters.length >= state.config.lineupSize) break;
+      if (!starters.includes(p)) starters.push(p);
+    }
+    const bench = [
+      ...(saved?.bench ?? []).filter((p) => owned.has(p) && !starters.includes(p)),
+      ...myRoster.filter((p) => !starters.includes(p) && !(saved?.bench ?? []).includes(p)),
+    ];
+    const captain = saved?.captain_profile_id && starters.includes(saved.captain_profile_id)
+      ? saved.captain_profile_id
+      : starters[0] ?? null;
+    return { eventId: selectedEvent.id, starters, bench, captain };
+  })();
+
+  const toggleStarter = (p: string) => {
+    if (!currentLineup) return;
+    const starting = currentLineup.starters.includes(p);
+    const starters = starting ? currentLineup.starters.filter((x) => x !== p) : [...currentLineup.starters, p];
+    const bench = starting ? [...currentLineup.bench, p] : currentLineup.bench.filter((x) => x !== p);
+    const captain = starters.includes(currentLineup.captain ?? "") ? currentLineup.captain : starters[0] ?? null;
+    setLineupDraft({ ...currentLineup, starters, bench, captain });
+  };
+
+  const moveBenchUp = (i: number) => {
+    if (!currentLineup || i === 0) return;
+    const bench = [...currentLineup.bench];
+    [bench[i - 1], bench[i]] = [bench[i], bench[i - 1]];
+    setLineupDraft({ ...currentLineup, bench });
+  };
+
+  const toggle = (list: string[], set: (v: string[]) => void, p: string) =>
+    set(list.includes(p) ? list.filter((x) => x !== p) : [...list, p]);
+
+  const pendingTrades = (state?.trades ?? []).filter((t) => t.status === "pending");
+  const recentTrades = (state?.trades ?? []).filter((t) => t.status !== "pending").slice(0, 5);
+
+  return (
+    <div className="min-h-[100dvh] max-w-sm mx-auto">
+      <div className="px-4 pt-8 flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={() => router.push(`/majors/fantasy/groups/${groupId}`)}
+          className="text-[11px] text-emerald-100/70 hover:text-emerald-50"
+        >
+          ← Markets
+        </button>
+        <h1 className="text-lg font-bold tracking-wide text-[#f5e6b0]">Draft League</h1>
+        <div className="w-12" />
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-emerald-100/60 text-center py-20">Loading…</div>
+      ) : !state ? (
+        <div className="px-4 py-20 text-center text-sm text-emerald-100/70">{error ?? "Draft league not found."}</div>
+      ) : (
+        <div className="px-4 pb-12 space-y-4">
+          <div className="text-[10px] text-emerald-200/50 text-center">
+            {state.season ? state.season.name : "No season"} · {state.config.rosterSize} players ·{" "}
+            {state.config.lineupSize} start · captain ×{state.config.captainMultiplier}
+          </div>
+
+          {error && <div className="text-[11px] text-red-300 text-center">{error}</div>}
+
+          {!state.season ? (
+            <div className={`${card} text-center text-sm text-emerald-100/70`}>
+              Draft leagues run per season — create a season to get started.
+            </div>
+          ) : !league ? (
+            <div className={`${card} space-y-3 text-center`}>
+              <div className="text-sm text-emerald-100/70">No draft league for {state.season.name} yet.</div>
+              {isAdmin && (
+                <button type="button" disabled={busy} onClick={() => act("", "POST")} className={primaryButton}>
+                  Create draft league
+                </button>
+              )}
+            </div>
+          ) : league.status === "setup" ? (
+            <section className="space-y-3">
+              <div className={card}>
+                <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">
+                  Managers ({state.managers.length})
+                </div>
+                {state.managers.length === 0 ? (
+                  <div className="text-[12px] text-emerald-100/60">Nobody has joined yet.</div>
+                ) : (
+                  <div className="flex flex-wrap gap-1.5">
+                    {state.managers.map((m) => (
+                      <span key={m.profileId} className="rounded-full border border-emerald-900/60 px-2 py-0.5 text-[11px] text-emerald-100">
+                        {name(m.profileId)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => act("/managers", isManager ? "DELETE" : "POST")}
+                className={primaryButton}
+              >
+                {isManager ? "Leave the league" : "Join the league"}
+              </button>
+              {isAdmin && (
+                <button
+                  type="button"
+                  disabled={busy || state.managers.length < 2}
+                  onClick={() => act("/start", "POST")}
+                  className="w-full py-2.5 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 hover:bg-emerald-900/30 disabled:opacity-40"
+                >
+                  Draw order &amp; start draft
+                </button>
+              )}
+            </section>
+          ) : league.status === "drafting" && state.draft ? (
+            <section className="space-y-3">
+              <div className={card}>
+                <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50">
+                  Pick {state.draft.picks.length + 1} of {state.draft.totalPicks} · Round{" "}
+                  {draftRound(state.draft.order.length, state.draft.picks.length)}
+                </div>
+                <div className="mt-1 text-[14px] font-semibold text-[#f5e6b0]">
+                  {state.draft.onClock === viewerId
+                    ? "You're on the clock"
+                    : `${name(state.draft.onClock ?? "")} is on the clock`}
+                </div>
+                <div className="mt-1 text-[10px] text-emerald-200/45">
+                  Order: {state.draft.order.map(name).join(" → ")} (snakes back each round)
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                {freeAgents.map((p) => (
+                  <div key={p} className="flex items-center justify-between rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2">
+                    <span className="text-[12px] text-emerald-50 truncate">{name(p)}</span>
+                    {(state.draft!.onClock === viewerId || isAdmin) && (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => act("/picks", "POST", { playerId: p })}
+                        className="text-[11px] font-semibold text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+                      >
+                        Draft
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {state.draft.picks.length > 0 && (
+                <div className={card}>
+                  <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-1.5">Picks</div>
+                  {[...state.draft.picks].reverse().map((p) => (
+                    <div key={p.id} className="flex justify-between text-[11px] py-0.5">
+                      <span className="text-emerald-200/50">
+                        {draftRound(state.draft!.order.length, p.pick_number)}.{(p.pick_number % state.draft!.order.length) + 1}{" "}
+                        {name(p.manager_profile_id)}
+                      </span>
+                      <span className="text-emerald-50">{name(p.player_profile_id)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          ) : (
+            <section className="space-y-3">
+              <div className="flex gap-2 overflow-x-auto">
+                {(["table", "team", "trades", "waivers"] as const)
+                  .filter((t) => t === "table" || isManager)
+                  .map((t) => (
+                    <button key={t} type="button" onClick={() => setTab(t)} className={pill(tab === t)}>
+                      {t === "table" ? "Table" : t === "team" ? "My team" : t === "trades" ? "Trades" : "Waivers"}
+                    </button>
+                  ))}
+              </div>
+
+              {tab === "table" && (
+                <div className="space-y-1.5">
+                  {(state.table ?? []).map((r) => (
+                    <div key={r.profileId} className="flex items-center gap-3 rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/70 px-3 py-2">
+                      <span className="w-6 text-center text-[12px] font-bold text-emerald-200/60">{r.rank}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[13px] font-semibold text-emerald-50 truncate">{name(r.profileId)}</div>
+                        <div className="text-[10px] text-emerald-200/45">
+                          {(rosters[r.profileId] ?? []).map(name).join(", ")}
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="text-[13px] font-bold text-[#f5e6b0]">{formatPoints(r.total)}</div>
+                        {r.best != null && (
+                          <div className="text-[9px] text-emerald-200/40">best {formatPoints(r.best)}</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {tab === "team" && (
+                <div className="space-y-3">
+                  {!selectedEvent || !currentLineup ? (
+                    <div className={`${card} text-center text-sm text-emerald-100/70`}>
+                      No upcoming events to set a lineup for.
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex gap-2 overflow-x-auto">
+                        {openEvents.map((e) => (
+                          <button key={e.id} type="button" onClick={() => setEventId(e.id)} className={pill(e.id === selectedEvent.id)}>
+                            {e.name}
+                          </button>
+                        ))}
+                      </div>
+                      <div className={card}>
+                        <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">
+                          Starters ({currentLineup.starters.length}/{state.config.lineupSize}) · tap C for captain
+                        </div>
+                        {currentLineup.starters.map((p) => (
+                          <div key={p} className="flex items-center gap-2 py-1">
+                            <button
+                              type="button"
+                              onClick={() => setLineupDraft({ ...currentLineup, captain: p })}
+                              className={`h-6 w-6 rounded-full text-[10px] font-bold ${currentLineup.captain === p ? "bg-[#f5e6b0] text-[#07301a]" : "border border-emerald-900/60 text-emerald-200/50"}`}
+                            >
+                              C
+                            </button>
+                            <span className="flex-1 text-[12px] text-emerald-50 truncate">{name(p)}</span>
+                            <button type="button" onClick={() => toggleStarter(p)} className="text-[11px] text-emerald-200/60 hover:text-emerald-100">
+                              Bench
+                            </button>
+                          </div>
+                        ))}
+                        <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mt-3 mb-2">
+                          Bench · subs in this order
+                        </div>
+                        {currentLineup.bench.map((p, i) => (
+                          <div key={p} className="flex items-center gap-2 py-1">
+                            <button
+                              type="button"
+                              onClick={() => moveBenchUp(i)}
+                              disabled={i === 0}
+                              className="h-6 w-6 rounded-full border border-emerald-900/60 text-[10px] text-emerald-200/60 disabled:opacity-30"
+                            >
+                              ↑
+                            </button>
+                            <span className="flex-1 text-[12px] text-emerald-100/80 truncate">{name(p)}</span>
+                            <button type="button" onClick={() => toggleStarter(p)} className="text-[11px] text-emerald-400 hover:text-emerald-300">
+                              Start
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={async () => {
+                          const ok = await act(`/lineups/${currentLineup.eventId}`, "PUT", currentLineup);
+                          if (ok) setLineupDraft(null);
+                        }}
+                        className={primaryButton}
+                      >
+                        Save lineup
+                      </button>
+                    </>
+                  )}
+                  <div className={card}>
+                    <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-1.5">Results</div>
+                    {events.filter((e) => e.finished).length === 0 ? (
+                      <div className="text-[11px] text-emerald-100/60">No events scored yet.</div>
+                    ) : (
+                      events
+                        .filter((e) => e.finished)
+                        .map((e) => {
+                          const s = (state.scores ?? []).find((x) => x.eventId === e.id && x.managerId === viewerId);
+                          return (
+                            <div key={e.id} className="flex justify-between text-[11px] py-0.5">
+                              <span className="text-emerald-100/80 truncate">{e.name}</span>
+                              <span className="font-semibold text-[#f5e6b0]">{s ? formatPoints(s.total) : "—"}</span>
+                            </div>
+                          );
+                        })
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {tab === "trades" && (
+                <div className="space-y-3">
+                  {pendingTrades.map((t) => (
+                    <div key={t.id} className={card}>
+                      <div className="text-[11px] text-emerald-100/80">
+                        {name(t.proposer_profile_id)} gives {t.offered_player_ids.map(name).join(", ")} for{" "}
+                        {t.requested_player_ids.map(name).join(", ")} ({name(t.recipient_profile_id)})
+                      </div>
+                      <div className="mt-2 flex gap-3 justify-end">
+                        {t.recipient_profile_id === viewerId && (
+                          <>
+                            <button type="button" disabled={busy} onClick={() => act(`/trades/${t.id}`, "PATCH", { action: "reject" })} className="text-[11px] text-red-300">
+                              Reject
+                            </button>
+                            <button type="button" disabled={busy} onClick={() => act(`/trades/${t.id}`, "PATCH", { action: "accept" })} className="text-[11px] font-semibold text-emerald-400">
+                              Accept
+                            </button>
+                          </>
+                        )}
+                        {t.proposer_profile_id === viewerId && (
+                          <button type="button" disabled={busy} onClick={() => act(`/trades/${t.id}`, "PATCH", { action: "cancel" })} className="text-[11px] text-emerald-200/60">
+                            Withdraw
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className={card}>
+                    <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">Offer a trade</div>
+                    <div className="flex flex-wrap gap-1.5 mb-3">
+                      {state.managers
+                        .filter((m) => m.profileId !== viewerId)
+                        .map((m) => (
+                          <button
+                            key={m.profileId}
+                            type="button"
+                            onClick={() => {
+                              setTradeWith(m.profileId);
+                              setRequested([]);
+                            }}
+                            className={pill(tradeWith === m.profileId)}
+                          >
+                            {name(m.profileId)}
+                          </button>
+                        ))}
+                    </div>
+                    {tradeWith && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <div className="text-[10px] text-emerald-200/50 mb-1">You give</div>
+                          {myRoster.map((p) => (
+                            <label key={p} className="flex items-center gap-1.5 text-[11px] text-emerald-100 py-0.5">
+                              <input type="checkbox" checked={offered.includes(p)} onChange={() => toggle(offered, setOffered, p)} />
+                              <span className="truncate">{name(p)}</span>
+                            </label>
+                          ))}
+                        </div>
+                        <div>
+                          <div className="text-[10px] text-emerald-200/50 mb-1">You get</div>
+                          {(rosters[tradeWith] ?? []).map((p) => (
+                            <label key={p} className="flex items-center gap-1.5 text-[11px] text-emerald-100 py-0.5">
+                              <input type="checkbox" checked={requested.includes(p)} onChange={() => toggle(requested, setRequested, p)} />
+                              <span className="truncate">{name(p)}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      disabled={busy || !tradeWith || offered.length === 0 || offered.length !== requested.length}
+                      onClick={async () => {
+                        const ok = await act("/trades", "POST", { recipientId: tradeWith, offered, requested });
+                        if (ok) {
+                          setOffered([]);
+                          setRequested([]);
+                        }
+                      }}
+                      className={`mt-3 ${primaryButton}`}
+                    >
+                      Send offer
+                    </button>
+                  </div>
+
+                  {recentTrades.length > 0 && (
+                    <div className={card}>
+                      <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-1.5">Recent</div>
+                      {recentTrades.map((t) => (
+                        <div key={t.id} className="text-[11px] text-emerald-100/60 py-0.5">
+                          {name(t.proposer_profile_id)} ⇄ {name(t.recipient_profile_id)} · {t.status}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {tab === "waivers" && (
+                <div className="space-y-3">
+                  {(state.myClaims ?? []).length > 0 && (
+                    <div className={card}>
+                      <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-1.5">Your claims</div>
+                      {(state.myClaims ?? []).map((c) => (
+                        <div key={c.id} className="flex items-center justify-between text-[11px] py-0.5">
+                          <span className="text-emerald-100/80">
+                            +{name(c.add_player_id)} / −{name(c.drop_player_id)}
+                          </span>
+                          <button type="button" disabled={busy} onClick={() => act(`/waivers/${c.id}`, "DELETE")} className="text-emerald-200/60">
+                            Withdraw
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className={card}>
+                    <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mb-2">Drop</div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {myRoster.map((p) => (
+                        <button key={p} type="button" onClick={() => setDropId(p)} className={pill(dropId === p)}>
+                          {name(p)}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="text-[10px] uppercase tracking-[0.18em] text-emerald-200/50 mt-3 mb-1.5">
+                      Claim · processed daily, bottom of the table first
+                    </div>
+                    {freeAgents.length === 0 ? (
+                      <div className="text-[11px] text-emerald-100/60">No free agents.</div>
+                    ) : (
+                      freeAgents.map((p) => (
+                        <div key={p} className="flex items-center justify-between py-1">
+                          <span className="text-[12px] text-emerald-50 truncate">{name(p)}</span>
+                          <button
+                            type="button"
+                            disabled={busy || !dropId}
+                            onClick={() => act("/waivers", "POST", { addPlayerId: p, dropPlayerId: dropId })}
+                            className="text-[11px] font-semibold text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+                          >
+                            Claim
+                          </button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import DraftLeagueClient from "./DraftLeagueClient";
+
+export const metadata: Metadata = { title: "Draft League" };
+
+export default async function FantasyDraftPage({
+  params,
+}: {
+  params: Promise<{ groupId: string }>;
+}) {
+  const { groupId } = await params;
+  return (
+    <Suspense>
+      <DraftLeagueClient groupId={groupId} />
+    </Suspense>
+  );
+}
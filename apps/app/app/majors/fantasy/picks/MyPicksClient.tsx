@@ -15,7 +15,12 @@ type Pick = {
   stake: number;
   decimal_odds: number;
   potential_return: number;
+  each_way: boolean;
+  place_odds: number | null;
+  each_way_places: number | null;
+  each_way_fraction: number | null;
   status: "open" | "cashed_out" | "won" | "lost" | "void";
+  settled_return: number | null;
   cashout_value: number | null;
   placed_at: string;
   settled_at: string | null;
@@ -256,10 +261,15 @@ export default function MyPicksClient() {
           <div className="flex items-center justify-between mt-1.5">
             <span className="text-[11px] text-emerald-200/60">
               {p.stake} pts @ <OddsValue odds={Number(p.decimal_odds)} />
+              {p.each_way && p.each_way_places != null && (
+                <span className="ml-1.5 rounded border border-emerald-700/50 px-1 text-[9px] font-semibold text-emerald-300">
+                  E/W 1/{p.each_way_fraction} · top {p.each_way_places}
+                </span>
+              )}
             </span>
             <span className="text-[11px] font-bold text-[#f5e6b0]">
               {p.status === "won"
-                ? `+${p.potential_return} pts`
+                ? `+${p.settled_return ?? p.potential_return} pts`
                 : p.status === "cashed_out" && p.cashout_value != null
                 ? `+${p.cashout_value} pts`
                 : p.status === "void"
@@ -8,8 +8,16 @@ import type {
   PrizePotWithDetails,
   PrizePotDistributionType,
 } from "@/lib/majors/types";
+import {
+  SEASON_COUNTING_MODES,
+  describeCountingRule,
+  readCountingRule,
+  type SeasonCountingMode,
+} from "@/lib/majors/seasonCounting";
+import { EclecticPanel } from "@/components/majors/EclecticPanel";
+import { DisplayLinksSheet } from "@/components/majors/DisplayLinksSheet";
 
-type Tab = "schedule" | "standings" | "finances";
+type Tab = "schedule" | "standings" | "eclectic" | "finances";
 
 type GroupSeason = {
   id: string;
@@ -20,6 +28,9 @@ type GroupSeason = {
   status: string;
   season_label: string | null;
   standings_model: string;
+  counting_mode: SeasonCountingMode;
+  counting_n: number | null;
+  counting_mandatory_event_ids: string[];
   group: { id: string; name: string; type: string } | null;
 };
 
@@ -44,6 +55,8 @@ type StandingRow = {
   total_net: number | null;
   avg_gross_to_par: number | null;
   avg_net_to_par: number | null;
+  dropped_points: number;
+  results: { event_id: string; event_name: string; event_date: string | null; points: number; counted: boolean }[];
   profile: { id: string; name: string | null; avatar_url: string | null } | null;
 };
 
@@ -62,15 +75,23 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
   const [season, setSeason] = useState<GroupSeason | null>(null);
   const [events, setEvents] = useState<SeasonEvent[]>([]);
   const [standings, setStandings] = useState<StandingRow[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [showDisplayLinks, setShowDisplayLinks] = useState(false);
+  const [expandedStandingId, setExpandedStandingId] = useState<string | null>(null);
+  const [countingForm, setCountingForm] = useState<{ mode: SeasonCountingMode; n: string; mandatory: string[] } | null>(null);
+  const [savingCounting, setSavingCounting] = useState(false);
+  const [countingError, setCountingError] = useState<string | null>(null);
   const [financials, setFinancials] = useState<SeasonFinancialSummary | null>(null);
   const [financialsError, setFinancialsError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [seasonPots, setSeasonPots] = useState<PrizePotWithDetails[]>([]);
   const [potError, setPotError] = useState<string | null>(null);
   const [addPotForm, setAddPotForm] = useState<{
-    name: string; description: string; distribution_type: PrizePotDistributionType | "winner_takes_all";
+    name: string; description: string; distribution_type: PrizePotDistributionType | "winner_takes_all" | "eclectic_winner";
     entry_fee_amount: string; entry_fee_notes: string; is_monetary: boolean; prize_description: string;
+    eclectic_competition_id: string;
   } | null>(null);
+  const [seasonEclectics, setSeasonEclectics] = useState<{ id: string; name: string }[]>([]);
   const [addingPot, setAddingPot] = useState(false);
   const [expandedPotId, setExpandedPotId] = useState<string | null>(null);
   const [potActionLoading, setPotActionLoading] = useState<string | null>(null);
@@ -100,6 +121,7 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
           const j = await seasonRes.json();
           setSeason(j.season);
           setEvents(j.events ?? []);
+          setCanManage(!!j.can_manage);
         }
         if (standingsRes.ok) {
           const j = await standingsRes.json();
@@ -120,9 +142,10 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
       const session = await requireViewerSession();
       if (!session || cancelled) return;
       const headers = { Authorization: `Bearer ${session.accessToken}` };
-      const [res, potsRes] = await Promise.all([
+      const [res, potsRes, eclecticsRes] = await Promise.all([
         fetch(`/api/majors/group-seasons/${groupSeasonId}/financials`, { headers }),
         fetch(`/api/majors/group-seasons/${groupSeasonId}/prize-pots`, { headers }),
+        fetch(`/api/majors/group-seasons/${groupSeasonId}/eclectics`, { headers }),
       ]);
       if (cancelled) return;
       if (res.ok) {
@@ -136,10 +159,39 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
         const j = await potsRes.json();
         setSeasonPots(j.pots ?? []);
       }
+      if (eclecticsRes.ok) {
+        const j = await eclecticsRes.json();
+        setSeasonEclectics(j.eclectics ?? []);
+      }
     })();
     return () => { cancelled = true; };
   }, [tab, groupSeasonId]);
 
+  const handleSaveCounting = async () => {
+    if (!countingForm) return;
+    setSavingCounting(true); setCountingError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const headers = { Authorization: `Bearer ${session.accessToken}` };
+      const res = await fetch(`/api/majors/group-seasons/${groupSeasonId}`, {
+        method: "PATCH",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          counting_mode: countingForm.mode,
+          counting_n: countingForm.mode === "all" ? null : Number(countingForm.n) || null,
+          counting_mandatory_event_ids: countingForm.mode === "all" ? [] : countingForm.mandatory,
+        }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setCountingError(j.error ?? "Failed to save counting rule"); return; }
+      setSeason((prev) => (prev ? { ...prev, ...j.season } : prev));
+      setCountingForm(null);
+      const standingsRes = await fetch(`/api/majors/group-seasons/${groupSeasonId}/standings`, { headers });
+      if (standingsRes.ok) { const sj = await standingsRes.json(); setStandings(sj.standings ?? []); }
+    } finally { setSavingCounting(false); }
+  };
+
   const refreshPots = async () => {
     const session = await requireViewerSession();
     if (!session) return;
@@ -151,6 +203,8 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
 
   const handleAddPot = async () => {
     if (!addPotForm || !addPotForm.name.trim()) return;
+    const eclecticPot = addPotForm.distribution_type === "eclectic_winner";
+    if (eclecticPot && !addPotForm.eclectic_competition_id) { setPotError("Choose the eclectic this pot pays out on"); return; }
     setAddingPot(true); setPotError(null);
     try {
       const session = await requireViewerSession();
@@ -161,8 +215,10 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
         body: JSON.stringify({
           name: addPotForm.name.trim(),
           description: addPotForm.description.trim() || null,
-          distribution_type: addPotForm.distribution_type === "winner_takes_all" ? "position_based" : addPotForm.distribution_type,
-          prize_table: addPotForm.distribution_type === "winner_takes_all" ? [{ position: 1, pct: 100 }] : null,
+          distribution_type: addPotForm.distribution_type === "winner_takes_all" || eclecticPot ? "position_based" : addPotForm.distribution_type,
+          prize_table: addPotForm.distribution_type === "winner_takes_all" || eclecticPot ? [{ position: 1, pct: 100 }] : null,
+          metric_type: eclecticPot ? "eclectic" : null,
+          eclectic_competition_id: eclecticPot ? addPotForm.eclectic_competition_id : null,
           entry_fee_amount: addPotForm.entry_fee_amount ? parseFloat(addPotForm.entry_fee_amount) : null,
           entry_fee_notes: addPotForm.entry_fee_notes.trim() || null,
           is_monetary: addPotForm.is_monetary,
@@ -257,6 +313,8 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
     distributed: "text-blue-300 bg-blue-900/20 border-blue-700/40",
   };
 
+  const countingRule = readCountingRule(season);
+
   // Group events by competition for the schedule tab
   const competitionMap = new Map<string | null, { name: string | null; events: SeasonEvent[] }>();
   for (const ev of events) {
@@ -298,13 +356,22 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
             {new Date(season.end_date).toLocaleDateString([], { month: "short", year: "numeric" })}
           </span>
           <span className="text-[10px] text-emerald-200/40">{events.length} event{events.length !== 1 ? "s" : ""}</span>
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => setShowDisplayLinks(true)}
+              className="text-[11px] text-emerald-300 hover:text-emerald-100"
+            >
+              Clubhouse display
+            </button>
+          )}
         </div>
       </div>
 
       {/* Tabs */}
       <div className="overflow-x-auto px-4 mb-5">
         <div className="flex gap-2">
-          {(["schedule", "standings", "finances"] as Tab[]).map((t) => (
+          {(["schedule", "standings", "eclectic", "finances"] as Tab[]).map((t) => (
             <button
               key={t}
               type="button"
@@ -359,46 +426,172 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
 
         {tab === "standings" && (
           <div className="space-y-2">
+            {/* Counting rule */}
+            <div className="flex items-center justify-between gap-2 px-1">
+              <div className="text-[11px] text-emerald-100/60">{describeCountingRule(countingRule)}</div>
+              {canManage && !countingForm && (
+                <button
+                  type="button"
+                  onClick={() => setCountingForm({
+                    mode: countingRule.mode,
+                    n: countingRule.n != null ? String(countingRule.n) : "",
+                    mandatory: countingRule.mandatory_event_ids,
+                  })}
+                  className="text-[11px] text-emerald-300 hover:text-emerald-100 shrink-0"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+
+            {countingForm && (
+              <div className="rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/80 p-3 space-y-3">
+                <div className="space-y-1">
+                  <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Counting Rule</label>
+                  <div className="flex gap-1.5">
+                    {SEASON_COUNTING_MODES.map((m) => (
+                      <button
+                        key={m.value}
+                        type="button"
+                        onClick={() => setCountingForm((f) => (f ? { ...f, mode: m.value } : f))}
+                        className={`flex-1 rounded-xl border px-2 py-1.5 text-[10px] ${
+                          countingForm.mode === m.value
+                            ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+                            : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+                        }`}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {countingForm.mode !== "all" && (
+                  <>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">
+                        {countingForm.mode === "best_n" ? "Results that count" : "Results dropped"}
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={countingForm.n}
+                        onChange={(e) => setCountingForm((f) => (f ? { ...f, n: e.target.value } : f))}
+                        className={inputCls}
+                      />
+                    </div>
+                    {events.length > 0 && (
+                      <div className="space-y-1">
+                        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Majors (always count)</label>
+                        <div className="flex flex-wrap gap-1.5">
+                          {events.map((ev) => {
+                            const on = countingForm.mandatory.includes(ev.id);
+                            return (
+                              <button
+                                key={ev.id}
+                                type="button"
+                                onClick={() => setCountingForm((f) => f ? {
+                                  ...f,
+                                  mandatory: on ? f.mandatory.filter((x) => x !== ev.id) : [...f.mandatory, ev.id],
+                                } : f)}
+                                className={`rounded-xl border px-2 py-1.5 text-[10px] ${
+                                  on
+                                    ? "border-[#f5e6b0]/50 bg-[#f5e6b0]/10 text-[#f5e6b0]"
+                                    : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+                                }`}
+                              >
+                                {ev.name}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+                {countingError && <div className="text-xs text-red-400">{countingError}</div>}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => { setCountingForm(null); setCountingError(null); }}
+                    className="flex-1 py-2 rounded-full border border-emerald-800/60 text-xs font-semibold text-emerald-200/80"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSaveCounting}
+                    disabled={savingCounting || (countingForm.mode !== "all" && !(Number(countingForm.n) > 0))}
+                    className="flex-1 py-2 rounded-full bg-emerald-700 text-xs font-semibold text-white disabled:opacity-50"
+                  >
+                    {savingCounting ? "Saving…" : "Save"}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {standings.length === 0 ? (
               <div className="text-sm text-emerald-100/60 text-center py-8">
                 Standings will appear once events are complete and points are awarded.
               </div>
             ) : (
               standings.map((row) => (
-                <div
-                  key={row.profile_id}
-                  className={`flex items-center gap-3 rounded-xl border px-3 py-2.5 ${
-                    row.position === 1
-                      ? "border-[#f5e6b0]/25 bg-[#f5e6b0]/5"
-                      : "border-emerald-900/50 bg-[#0b3b21]/60"
-                  }`}
-                >
-                  <span className="w-6 text-center text-xs font-bold text-emerald-200/70 shrink-0">
-                    {row.position ?? "—"}
-                  </span>
-                  {row.profile?.avatar_url ? (
-                    <img src={row.profile.avatar_url} alt="" className="h-7 w-7 rounded-full object-cover shrink-0" loading="lazy" decoding="async" />
-                  ) : (
-                    <div className="h-7 w-7 rounded-full bg-emerald-900/60 grid place-items-center text-[10px] font-bold text-emerald-200 shrink-0">
-                      {row.profile?.name?.slice(0, 2).toUpperCase() ?? "?"}
+                <div key={row.profile_id}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedStandingId((id) => (id === row.profile_id ? null : row.profile_id))}
+                    className={`w-full text-left flex items-center gap-3 rounded-xl border px-3 py-2.5 ${
+                      row.position === 1
+                        ? "border-[#f5e6b0]/25 bg-[#f5e6b0]/5"
+                        : "border-emerald-900/50 bg-[#0b3b21]/60"
+                    }`}
+                  >
+                    <span className="w-6 text-center text-xs font-bold text-emerald-200/70 shrink-0">
+                      {row.position ?? "—"}
+                    </span>
+                    {row.profile?.avatar_url ? (
+                      <img src={row.profile.avatar_url} alt="" className="h-7 w-7 rounded-full object-cover shrink-0" loading="lazy" decoding="async" />
+                    ) : (
+                      <div className="h-7 w-7 rounded-full bg-emerald-900/60 grid place-items-center text-[10px] font-bold text-emerald-200 shrink-0">
+                        {row.profile?.name?.slice(0, 2).toUpperCase() ?? "?"}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold text-emerald-50 truncate">{row.profile?.name ?? "—"}</div>
+                      <div className="text-[10px] text-emerald-100/55">
+                        {row.events_played} event{row.events_played !== 1 ? "s" : ""} · {row.wins} win{row.wins !== 1 ? "s" : ""}
+                        {row.dropped_points > 0 && <> · {row.dropped_points} dropped</>}
+                      </div>
                     </div>
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <div className="text-sm font-semibold text-emerald-50 truncate">{row.profile?.name ?? "—"}</div>
-                    <div className="text-[10px] text-emerald-100/55">
-                      {row.events_played} event{row.events_played !== 1 ? "s" : ""} · {row.wins} win{row.wins !== 1 ? "s" : ""}
+                    <div className="text-right shrink-0">
+                      <div className="text-xs font-extrabold text-[#f5e6b0]">{row.season_points}</div>
+                      <div className="text-[10px] text-emerald-100/50">pts</div>
                     </div>
-                  </div>
-                  <div className="text-right shrink-0">
-                    <div className="text-xs font-extrabold text-[#f5e6b0]">{row.season_points}</div>
-                    <div className="text-[10px] text-emerald-100/50">pts</div>
-                  </div>
+                  </button>
+                  {expandedStandingId === row.profile_id && row.results.length > 0 && (
+                    <div className="mx-3 mt-1 mb-2 space-y-1">
+                      {row.results.map((r) => (
+                        <div key={r.event_id} className="flex items-center justify-between gap-2 text-[11px]">
+                          <span className={`truncate ${r.counted ? "text-emerald-100/80" : "text-emerald-100/35 line-through"}`}>
+                            {r.event_name}
+                            {countingRule.mandatory_event_ids.includes(r.event_id) && (
+                              <span className="ml-1 text-[9px] uppercase text-[#f5e6b0]/70">Major</span>
+                            )}
+                          </span>
+                          <span className={r.counted ? "font-semibold text-emerald-50" : "text-emerald-100/35"}>
+                            {r.counted ? r.points : `(${r.points})`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))
             )}
           </div>
         )}
 
+        {tab === "eclectic" && <EclecticPanel groupSeasonId={groupSeasonId} canManage={canManage} />}
+
         {tab === "finances" && (
           <div className="space-y-4">
             {financialsError ? (
@@ -460,7 +653,7 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
                 {!addPotForm && (
                   <button
                     type="button"
-                    onClick={() => setAddPotForm({ name: "", description: "", distribution_type: "season_standings_winner", entry_fee_amount: "", entry_fee_notes: "", is_monetary: true, prize_description: "" })}
+                    onClick={() => setAddPotForm({ name: "", description: "", distribution_type: "season_standings_winner", entry_fee_amount: "", entry_fee_notes: "", is_monetary: true, prize_description: "", eclectic_competition_id: "" })}
                     className="text-[10px] text-emerald-300/70 hover:text-emerald-300 border border-emerald-800/50 rounded-full px-2.5 py-1"
                   >
                     + Add Pot
@@ -492,7 +685,7 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
                             <span className={`text-[9px] px-1.5 py-0.5 rounded-full border ${potStatusColour[pot.status] ?? ""}`}>{pot.status}</span>
                           </div>
                           <span className="text-[10px] px-1.5 py-0.5 rounded-full border border-emerald-700/40 text-emerald-300/70">
-                            {distTypeLabel[pot.distribution_type] ?? pot.distribution_type}
+                            {pot.metric_type === "eclectic" ? "Eclectic · " : ""}{distTypeLabel[pot.distribution_type] ?? pot.distribution_type}
                           </span>
                         </div>
                         {pot.is_monetary && (
@@ -592,15 +785,26 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
                   <input type="text" placeholder="Name (e.g. Season Points Pot)" value={addPotForm.name}
                     onChange={(e) => setAddPotForm((f) => f && { ...f, name: e.target.value })} className={inputCls} />
                   <select value={addPotForm.distribution_type}
-                    onChange={(e) => setAddPotForm((f) => f && { ...f, distribution_type: e.target.value as PrizePotDistributionType | "winner_takes_all" })}
+                    onChange={(e) => setAddPotForm((f) => f && { ...f, distribution_type: e.target.value as PrizePotDistributionType | "winner_takes_all" | "eclectic_winner" })}
                     className={inputCls}>
                     <option value="season_standings_winner">Season standings winner (FedEx / points race)</option>
                     <option value="winner_takes_all">Winner takes all (event result)</option>
+                    {seasonEclectics.length > 0 && <option value="eclectic_winner">Eclectic winner takes all</option>}
                     <option value="position_based">By finishing position (custom splits)</option>
                     <option value="equal_split">Equal split (all enrolled players)</option>
                     <option value="non_monetary">Non-cash prize (trophy, voucher, etc.)</option>
                     <option value="entry_only">Entry collected, no payout</option>
                   </select>
+                  {addPotForm.distribution_type === "eclectic_winner" && (
+                    <select value={addPotForm.eclectic_competition_id}
+                      onChange={(e) => setAddPotForm((f) => f && { ...f, eclectic_competition_id: e.target.value })}
+                      className={inputCls}>
+                      <option value="">Eclectic…</option>
+                      {seasonEclectics.map((ec) => (
+                        <option key={ec.id} value={ec.id}>{ec.name}</option>
+                      ))}
+                    </select>
+                  )}
                   {addPotForm.distribution_type === "non_monetary" && (
                     <input type="text" placeholder="Prize description" value={addPotForm.prize_description}
                       onChange={(e) => setAddPotForm((f) => f && { ...f, prize_description: e.target.value, is_monetary: false })}
@@ -623,6 +827,10 @@ export default function GroupSeasonDetailClient({ groupSeasonId }: { groupSeason
           </div>
         )}
       </div>
+
+      {showDisplayLinks && (
+        <DisplayLinksSheet groupSeasonId={groupSeasonId} onClose={() => setShowDisplayLinks(false)} />
+      )}
     </div>
   );
 }
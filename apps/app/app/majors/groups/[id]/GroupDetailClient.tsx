@@ -7,6 +7,8 @@ import { requireViewerSession } from "@/lib/auth/requireViewerSession";
 import { useDebouncedRefresh } from "@/lib/majors/useDebouncedRefresh";
 import { supabase } from "@/lib/supabaseClient";
 import { InvitePlayerSheet } from "@/app/majors/groups/InvitePlayerSheet";
+import { BankImportSheet } from "@/components/majors/BankImportSheet";
+import { HandicapCommitteeSheet } from "@/components/majors/HandicapCommitteeSheet";
 import type {
   MajorGroup,
   MajorGroupMembershipWithProfile,
@@ -27,6 +29,7 @@ import { EVENT_TYPES, FORMAT_DEFAULT_SCORING, FORMAT_ALLOWS_SCORING_CHOICE } fro
 import { getWhsDefaultPolicyForEvent } from "@/lib/rounds/whsDefaults";
 import type { MajorGroupType, EventTypeV2 } from "@/lib/majors/types";
 import type { FantasyConfig, FantasyWalletSummary } from "@/lib/fantasy/types";
+import { DEFAULT_DRAFT_CONFIG, DEFAULT_EACH_WAY_CONFIG } from "@/lib/fantasy/config";
 
 type FantasyLeaderboardEntry = {
   profile_id: string;
@@ -446,6 +449,8 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
   const [expandedMember, setExpandedMember] = useState<string | null>(null);
   // Payment record modal
   const [paymentModal, setPaymentModal] = useState<{ profileId: string; name: string } | null>(null);
+  const [showBankImport, setShowBankImport] = useState(false);
+  const [showHandicapCommittee, setShowHandicapCommittee] = useState(false);
   const [paymentAmount, setPaymentAmount] = useState("");
   const [paymentNote, setPaymentNote] = useState("");
   const [paymentSubmitting, setPaymentSubmitting] = useState(false);
@@ -504,6 +509,8 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
   const [fantasyConfigForm, setFantasyConfigForm] = useState<{
     enabled: boolean; mode: "fixed" | "topup"; budgetScope: "season" | "event";
     budgetAmount: string; topupIncrement: string;
+    draftEnabled: boolean; rosterSize: string; lineupSize: string;
+    eachWayEnabled: boolean; eachWayTerms: { minField: string; places: string; fraction: string }[];
   } | null>(null);
   const [savingFantasyConfig, setSavingFantasyConfig] = useState(false);
   const [fantasyConfigError, setFantasyConfigError] = useState<string | null>(null);
@@ -2461,13 +2468,22 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
 
         return (
           <div className="space-y-4">
-            {/* Export CSV */}
-            <a
-              href={`/api/majors/groups/${groupId}/balances/export`}
-              className="block w-full py-2.5 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 text-center hover:bg-emerald-900/30"
-            >
-              Export CSV
-            </a>
+            {/* Export CSV / bank statement import */}
+            <div className="flex gap-2">
+              <a
+                href={`/api/majors/groups/${groupId}/balances/export`}
+                className="flex-1 py-2.5 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 text-center hover:bg-emerald-900/30"
+              >
+                Export CSV
+              </a>
+              <button
+                type="button"
+                onClick={() => setShowBankImport(true)}
+                className="flex-1 py-2.5 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 text-center hover:bg-emerald-900/30"
+              >
+                Import Bank Statement
+              </button>
+            </div>
 
             {/* Group financial summary */}
             {balanceMembers.length > 0 && (
@@ -2696,6 +2712,21 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
               </div>
             )}
 
+            {/* Bank statement import */}
+            {showBankImport && (
+              <BankImportSheet
+                groupId={groupId}
+                currencySymbol={currencySymbol}
+                onClose={() => setShowBankImport(false)}
+                onPosted={async () => {
+                  const session = await getViewerSession();
+                  if (!session) return;
+                  const balRes = await fetch(`/api/majors/groups/${groupId}/balances`, { headers: { Authorization: `Bearer ${session.accessToken}` } });
+                  if (balRes.ok) { const j = await balRes.json(); setBalanceMembers(j.members ?? []); }
+                }}
+              />
+            )}
+
             {/* Withdrawal modal */}
             {withdrawalModal && (
               <div className="fixed inset-0 z-50 flex items-end justify-center bg-black/60" onClick={() => setWithdrawalModal(null)}>
@@ -3357,6 +3388,27 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
           })()}
         </div>
 
+        {/* Handicap Committee */}
+        <div className="space-y-3">
+          <div className="text-[10px] uppercase tracking-wider text-emerald-200/50">Handicap Committee</div>
+          <div className="space-y-3 rounded-2xl border border-emerald-900/50 bg-[#0b3b21]/60 p-4">
+            <p className="text-xs text-emerald-200/60">
+              Winner&apos;s cuts, handicap caps and committee adjustments, applied to playing handicaps when an
+              event round starts. Every change is kept in an audit trail.
+            </p>
+            <button
+              type="button"
+              onClick={() => setShowHandicapCommittee(true)}
+              className="w-full py-2.5 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 hover:bg-emerald-900/30 transition-colors"
+            >
+              Manage Handicaps
+            </button>
+          </div>
+          {showHandicapCommittee && (
+            <HandicapCommitteeSheet groupId={groupId} onClose={() => setShowHandicapCommittee(false)} />
+          )}
+        </div>
+
         {/* Fantasy Picks */}
         <div className="space-y-3">
           <div className="text-[10px] uppercase tracking-wider text-emerald-200/50">Fantasy Picks</div>
@@ -3368,6 +3420,15 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
               budgetScope: saved?.budgetScope ?? "season",
               budgetAmount: saved ? String(saved.budgetAmount) : "500",
               topupIncrement: saved?.topupIncrement ? String(saved.topupIncrement) : "100",
+              draftEnabled: !!saved?.draft,
+              rosterSize: String(saved?.draft?.rosterSize ?? DEFAULT_DRAFT_CONFIG.rosterSize),
+              lineupSize: String(saved?.draft?.lineupSize ?? DEFAULT_DRAFT_CONFIG.lineupSize),
+              eachWayEnabled: !!saved?.eachWay,
+              eachWayTerms: (saved?.eachWay ?? DEFAULT_EACH_WAY_CONFIG).terms.map((t) => ({
+                minField: String(t.minField),
+                places: String(t.places),
+                fraction: String(t.fraction),
+              })),
             };
             const setForm = (patch: Partial<typeof form>) => {
               setFantasyConfigError(null);
@@ -3462,6 +3523,92 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
                         </div>
                       )}
                     </div>
+
+                    {/* Draft league */}
+                    <button
+                      type="button"
+                      onClick={() => setForm({ draftEnabled: !form.draftEnabled })}
+                      className="flex items-center justify-between w-full"
+                    >
+                      <div className="text-left">
+                        <div className="text-[11px] font-semibold text-emerald-100">Draft League</div>
+                        <div className="text-[10px] text-emerald-200/40">Snake-draft a roster of group players each season and set lineups per event</div>
+                      </div>
+                      <div className={`relative w-11 h-6 rounded-full transition-colors shrink-0 ${form.draftEnabled ? "bg-emerald-600" : "bg-emerald-900/50"}`}>
+                        <span className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow transition-transform ${form.draftEnabled ? "translate-x-5" : ""}`} />
+                      </div>
+                    </button>
+                    {form.draftEnabled && (
+                      <div className="flex items-center gap-3">
+                        <div className="flex-1 space-y-1.5">
+                          <div className="text-[10px] text-emerald-200/50">Roster Size</div>
+                          <input
+                            type="number"
+                            min={2}
+                            value={form.rosterSize}
+                            onChange={(e) => setForm({ rosterSize: e.target.value })}
+                            className="w-full bg-[#042713] border border-emerald-900/60 rounded-lg px-2 py-1 text-[12px] text-emerald-100 text-center"
+                          />
+                        </div>
+                        <div className="flex-1 space-y-1.5">
+                          <div className="text-[10px] text-emerald-200/50">Starters per Event</div>
+                          <input
+                            type="number"
+                            min={1}
+                            value={form.lineupSize}
+                            onChange={(e) => setForm({ lineupSize: e.target.value })}
+                            className="w-full bg-[#042713] border border-emerald-900/60 rounded-lg px-2 py-1 text-[12px] text-emerald-100 text-center"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Each-way */}
+                    <button
+                      type="button"
+                      onClick={() => setForm({ eachWayEnabled: !form.eachWayEnabled })}
+                      className="flex items-center justify-between w-full"
+                    >
+                      <div className="text-left">
+                        <div className="text-[11px] font-semibold text-emerald-100">Each-Way Betting</div>
+                        <div className="text-[10px] text-emerald-200/40">Outright and season winner picks can also pay on a place finish</div>
+                      </div>
+                      <div className={`relative w-11 h-6 rounded-full transition-colors shrink-0 ${form.eachWayEnabled ? "bg-emerald-600" : "bg-emerald-900/50"}`}>
+                        <span className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white shadow transition-transform ${form.eachWayEnabled ? "translate-x-5" : ""}`} />
+                      </div>
+                    </button>
+                    {form.eachWayEnabled && (
+                      <div className="space-y-1.5">
+                        <div className="flex items-center gap-3 text-[10px] text-emerald-200/50">
+                          <div className="flex-1">Field Size ≥</div>
+                          <div className="flex-1">Places Paid</div>
+                          <div className="flex-1">Odds Fraction (1/x)</div>
+                        </div>
+                        {form.eachWayTerms.map((tier, i) => (
+                          <div key={i} className="flex items-center gap-3">
+                            {(["minField", "places", "fraction"] as const).map((field) => (
+                              <input
+                                key={field}
+                                type="number"
+                                min={1}
+                                value={tier[field]}
+                                onChange={(e) =>
+                                  setForm({
+                                    eachWayTerms: form.eachWayTerms.map((t, j) =>
+                                      j === i ? { ...t, [field]: e.target.value } : t
+                                    ),
+                                  })
+                                }
+                                className="flex-1 min-w-0 bg-[#042713] border border-emerald-900/60 rounded-lg px-2 py-1 text-[12px] text-emerald-100 text-center"
+                              />
+                            ))}
+                          </div>
+                        ))}
+                        <div className="text-[9px] text-emerald-200/35">
+                          Smaller fields than every tier are win only. Dead heats for a place split the stake.
+                        </div>
+                      </div>
+                    )}
                   </>
                 )}
 
@@ -3487,6 +3634,26 @@ export default function GroupDetailClient({ groupId }: { groupId: string }) {
                             ...(fantasyConfigForm.mode === "topup"
                               ? { topupIncrement: Number(fantasyConfigForm.topupIncrement) }
                               : {}),
+                            ...(fantasyConfigForm.draftEnabled
+                              ? {
+                                  draft: {
+                                    ...group.fantasy_config?.draft,
+                                    rosterSize: Number(fantasyConfigForm.rosterSize),
+                                    lineupSize: Number(fantasyConfigForm.lineupSize),
+                                  },
+                                }
+                              : {}),
+                            ...(fantasyConfigForm.eachWayEnabled
+                              ? {
+                                  eachWay: {
+                                    terms: fantasyConfigForm.eachWayTerms.map((t) => ({
+                                      minField: Number(t.minField),
+                                      places: Number(t.places),
+                                      fraction: Number(t.fraction),
+                                    })),
+                                  },
+                                }
+                              : {}),
                           }
                         : { disabled: true };
                       const res = await fetch(`/api/fantasy/groups/${groupId}/config`, {
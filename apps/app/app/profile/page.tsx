@@ -21,6 +21,8 @@ type ProfileRow = {
   email?: string | null;
   avatar_url?: string | null;
   gender?: string | null;
+  home_course_id?: string | null;
+  home_course?: { name: string | null } | null;
 };
 
 export default function ProfilePage() {
@@ -57,7 +59,7 @@ export default function ProfilePage() {
         // ✅ Load profile row by ownership (Model B)
         const { data: p0, error: pErr } = await supabase
           .from("profiles")
-          .select("id, owner_user_id, name, email, avatar_url, gender")
+          .select("id, owner_user_id, name, email, avatar_url, gender, home_course_id, home_course:courses!profiles_home_course_id_fkey(name)")
           .eq("owner_user_id", u.id)
           .maybeSingle();
 
@@ -8,11 +8,23 @@ import { BackButton } from "@/components/ui/BackButton";
 
 import { finishRound as finishRoundApi, type RoundResultInput } from "@/lib/rounds/api";
 import { useRoundDetail } from "@/lib/rounds/hooks/useRoundDetail";
-import type { Participant, Hole, HoleState, RoundFormatType, WolfPick } from "@/lib/rounds/hooks/useRoundDetail";
+import type { Participant, Hole, HoleState, RoundFormatType, Score, WolfPick, BbbAward } from "@/lib/rounds/hooks/useRoundDetail";
+import { shotStatsForInsert, shotStatsFromRow, type HoleShotStats } from "@/lib/rounds/shotStats";
+import { SCORE_SYNC_TAG, type QueuedScoreOp, type ScoreSyncResult } from "@/lib/rounds/scoreSync";
+import {
+  dropScoreOp,
+  listScoreOps,
+  migrateLegacyQueue,
+  queueScoreOp,
+  requestBackgroundSync,
+  syncRoundOps,
+} from "@/lib/rounds/offlineQueue";
 import WolfHoleDetails from "@/components/round/WolfHoleDetails";
-import { strokesReceivedOnHole, netFromGross, netDoubleBogeyGross } from "@/lib/rounds/handicapUtils";
+import BingoBangoBongoHoleDetails from "@/components/round/BingoBangoBongoHoleDetails";
+import { strokesReceivedOnHole, netFromGross, netDoubleBogeyGross, getNotAcceptedParticipants } from "@/lib/rounds/handicapUtils";
 import { computeFormatDisplay, computeSideGameDisplays, isFormatView, formatViewIndex, type FormatScoreView, type FormatDisplayData } from "@/lib/rounds/formatScoring";
 import { useOrientationLock } from "@/lib/useOrientationLock";
+import { isSingleBallFormat } from "@/lib/rounds/whsDefaults";
 
 import { Menu } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -24,7 +36,6 @@ import ScorecardLandscape from "@/components/round/ScorecardLandscape";
 import RoundMenuSheet from "@/components/round/RoundMenuSheet";
 
 type ProfileEmbed = { name: string | null; email: string | null; avatar_url: string | null };
-type Score = { participant_id: string; hole_number: number; strokes: number | null; created_at: string };
 
 function initialsFrom(name: string) {
   const parts = (name || "").trim().split(/\s+/).filter(Boolean);
@@ -182,32 +193,6 @@ function hasIncompleteHoles(
   );
 }
 
-/** Compute set of participant IDs whose rounds don't meet WHS minimum holes */
-function getNotAcceptedParticipants(
-  participants: Participant[],
-  holesList: Hole[],
-  holeStatesByKey: Record<string, string>
-): { ids: Set<string>; names: string[] } {
-  const holeCount = holesList.length || 18;
-  const minRequired = holeCount <= 9 ? 7 : 14;
-  const ids = new Set<string>();
-  const names: string[] = [];
-
-  for (const p of participants) {
-    let holesStarted = 0;
-    for (const h of holesList) {
-      const st = holeStatesByKey[`${p.id}:${h.hole_number}`] ?? "not_started";
-      if (st !== "not_started") holesStarted++;
-    }
-    if (holesStarted < minRequired) {
-      ids.add(p.id);
-      names.push(p.display_name || "A player");
-    }
-  }
-
-  return { ids, names };
-}
-
 type FinalRow = {
   participantId: string;
   name: string;
@@ -288,6 +273,8 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     setHoleStatesByKey,
     wolfPicksByHole,
     setWolfPicksByHole,
+    bbbAwardsByHole,
+    setBbbAwardsByHole,
     canScore,
     fetchAll,
   } = useRoundDetail(roundId, initialSnapshot);
@@ -323,6 +310,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
 
   // Tracks hole keys with scores not yet confirmed by the server
   const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set());
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
 
   const [scoreView, setScoreView] = useState<FormatScoreView>("gross");
 
@@ -340,40 +328,27 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
   const [menuOpen, setMenuOpen] = useState(false);
 
   // ── Offline queue helpers ──────────────────────────────────────────────
-  type PendingOp = {
-    key: string;
-    roundId: string;
-    participantId: string;
-    holeNumber: number;
-    strokes: number | null;
-    enteredBy: string;
-    holeStatus: HoleState | null;
-    timestamp: number;
-  };
-
-  const queueStorageKey = `ciaga:pendingOps:${roundId}`;
-
-  function loadQueue(): PendingOp[] {
-    try {
-      return JSON.parse(localStorage.getItem(queueStorageKey) ?? "[]");
-    } catch {
-      return [];
-    }
-  }
-
-  function saveQueue(ops: PendingOp[]): void {
-    try {
-      localStorage.setItem(queueStorageKey, JSON.stringify(ops));
-    } catch {}
+  // Writes that can't reach Supabase go to the IndexedDB queue
+  // (lib/rounds/offlineQueue.ts); flushPendingOps or the service worker's
+  // background sync posts them to /api/rounds/[id]/score-sync.
+
+  function queueOp(op: Omit<QueuedScoreOp, "roundId" | "timestamp" | "start">): void {
+    const queued: QueuedScoreOp = { ...op, roundId, timestamp: Date.now(), start: status !== "live" };
+    setPendingKeys((prev) => { const next = new Set(prev); next.add(op.key); return next; });
+    void (async () => {
+      await queueScoreOp(queued);
+      await requestBackgroundSync();
+    })().catch(() => {});
   }
 
-  function upsertQueueOp(op: PendingOp): void {
-    const existing = loadQueue().filter((o) => o.key !== op.key);
-    saveQueue([...existing, op]);
+  function clearQueuedOp(key: string): void {
+    void dropScoreOp(roundId, key).catch(() => {});
+    setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
   }
 
-  function removeQueueOp(key: string): void {
-    saveQueue(loadQueue().filter((o) => o.key !== key));
+  /** The server refused a sync outright, so its ops were dropped from the queue. */
+  function discardedSyncError(error: string, discarded: number): string {
+    return `${error} — ${discarded} unsynced score${discarded === 1 ? " was" : "s were"} discarded.`;
   }
 
   function isNetworkError(e: any): boolean {
@@ -439,9 +414,9 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
 
   const formatDisplays = useMemo<FormatDisplayData[]>(() => {
     const main = computeFormatDisplay(formatType, formatConfig, participants, holesList, scoresByKey, holeStatesByKey, teams, getParticipantLabel, notAcceptedIds, wolfPicksByHole, startingHole);
-    const side = computeSideGameDisplays(sideGames, participants, holesList, scoresByKey, holeStatesByKey, wolfPicksByHole);
+    const side = computeSideGameDisplays(sideGames, participants, holesList, scoresByKey, holeStatesByKey, wolfPicksByHole, bbbAwardsByHole);
     return [...main, ...side];
-  }, [formatType, formatConfig, sideGames, participants, holesList, scoresByKey, holeStatesByKey, teams, getParticipantLabel, notAcceptedIds, wolfPicksByHole, startingHole]);
+  }, [formatType, formatConfig, sideGames, participants, holesList, scoresByKey, holeStatesByKey, teams, getParticipantLabel, notAcceptedIds, wolfPicksByHole, bbbAwardsByHole, startingHole]);
 
   // ── Wolf live state ────────────────────────────────────────────────────
   const wolfActive = useMemo(
@@ -499,6 +474,36 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     [roundId, setWolfPicksByHole, setErr]
   );
 
+  // Any enabled side game means money may change hands — show "Settle up".
+  const hasSideGames = useMemo(() => sideGames.some((g: any) => g.enabled), [sideGames]);
+
+  // ── Bingo Bango Bongo live state ───────────────────────────────────────
+  const bbbActive = useMemo(
+    () => sideGames.some((g: any) => g.name === "bingo_bango_bongo" && g.enabled),
+    [sideGames]
+  );
+
+  const saveBbbAward = useCallback(
+    async (holeNumber: number, award: BbbAward) => {
+      setBbbAwardsByHole((prev) => ({ ...prev, [holeNumber]: award }));
+      try {
+        const { error } = await supabase.from("round_bbb_awards").upsert(
+          {
+            round_id: roundId,
+            hole_number: holeNumber,
+            ...award,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "round_id,hole_number" }
+        );
+        if (error) throw error;
+      } catch (e: any) {
+        setErr?.(e?.message || "Failed to save Bingo Bango Bongo");
+      }
+    },
+    [roundId, setBbbAwardsByHole, setErr]
+  );
+
   const activeFormatDisplay = useMemo<FormatDisplayData | null>(() => {
     if (!isFormatView(scoreView)) return null;
     const idx = formatViewIndex(scoreView);
@@ -512,14 +517,14 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }
   }, [scoreView, formatDisplays]);
 
-  // Single-ball formats (scramble, greensomes, foursomes) play one team ball —
-  // individual gross/net tabs are meaningless; always show the format tab.
-  const SINGLE_BALL_FORMATS: RoundFormatType[] = ["scramble", "greensomes", "foursomes"];
-  const isSingleBall = SINGLE_BALL_FORMATS.includes(formatType);
+  // Single-ball formats (scramble, Texas scramble, greensomes, Chapman,
+  // foursomes) play one team ball — individual gross/net tabs are meaningless;
+  // always show the format tab.
+  const isSingleBall = isSingleBallFormat(formatType);
 
   // For stableford-based formats, default to the format (points) tab once it's available
   useEffect(() => {
-    const stablefordFormats: RoundFormatType[] = ["stableford", "pairs_stableford", "team_stableford", "team_bestball"];
+    const stablefordFormats: RoundFormatType[] = ["stableford", "pairs_stableford", "team_stableford", "team_bestball", "shamble"];
     if (stablefordFormats.includes(formatType) && formatDisplays.length > 0 && scoreView === "gross") {
       setScoreView("format:0" as FormatScoreView);
     }
@@ -871,64 +876,104 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }
   }, [status, isFinished, roundId, setStatus, setErr]);
 
+  // Results of a queue sync (ours or the service worker's): drop the synced
+  // keys and, where a newer entry won, show what the server has instead.
+  const applySyncResults = useCallback(async (results: ScoreSyncResult[]) => {
+    const superseded = results.filter((r) => r.outcome === "superseded");
+    if (superseded.length) {
+      setScoresByKey((prev) => {
+        const next = { ...prev };
+        for (const r of superseded) {
+          const [participantId, hole] = r.key.split(":");
+          next[r.key] = { participant_id: participantId, hole_number: Number(hole), strokes: r.strokes, created_at: new Date().toISOString() } as Score;
+        }
+        return next;
+      });
+      setHoleStatesByKey((prev) => {
+        const next = { ...prev };
+        for (const r of superseded) next[r.key] = r.holeStatus;
+        return next;
+      });
+      setSyncNotice(
+        `${superseded.length} offline score${superseded.length === 1 ? " was" : "s were"} replaced by a newer entry from the round's scorer.`
+      );
+    }
+    const still = new Set((await listScoreOps(roundId)).map((op) => op.key));
+    setPendingKeys(still);
+  }, [roundId, setScoresByKey, setHoleStatesByKey]);
+
   // Flush pending offline ops when connection is restored
-  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const flushingRef = useRef(false);
   const flushPendingOps = useCallback(async () => {
-    if (!meId) return;
-    const ops = loadQueue().sort((a, b) => a.timestamp - b.timestamp);
-    if (!ops.length) return;
-
-    // A queued first score must start the round before its events are synced.
-    if (status !== "live" && !isFinished) {
-      const ok = await activateRound();
-      if (!ok) return; // still can't start — retry on the next "online" event
-    }
+    if (!meId || flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      const ops = await listScoreOps(roundId);
+      if (!ops.length) return;
 
-    const flushed: string[] = [];
-    for (const op of ops) {
-      try {
-        if (op.strokes !== undefined) {
-          const { error: scoreErr } = await supabase.from("round_score_events").insert({
-            round_id: op.roundId,
-            participant_id: op.participantId,
-            hole_number: op.holeNumber,
-            strokes: op.strokes,
-            entered_by: op.enteredBy,
-          });
-          if (scoreErr) throw scoreErr;
-        }
-        if (op.holeStatus) {
-          const { error: stateErr } = await supabase
-            .from("round_hole_states")
-            .upsert(
-              { round_id: op.roundId, participant_id: op.participantId, hole_number: op.holeNumber, status: op.holeStatus },
-              { onConflict: "participant_id,hole_number" }
-            );
-          if (stateErr) throw stateErr;
+      // A queued first score must start the round before its events are synced.
+      if (status !== "live" && !isFinished) {
+        const ok = await activateRound();
+        if (!ok) return; // still can't start — retry on the next "online" event
+      }
+
+      // A fresh token each flush: getSession refreshes one that has expired.
+      const { data: sessionData } = await supabase.auth.getSession();
+      const accessToken = sessionData.session?.access_token;
+      if (!accessToken) return;
+
+      const res = await syncRoundOps(roundId, accessToken);
+      if (!res.ok) {
+        if (res.discarded) {
+          setErr(discardedSyncError(res.error, res.discarded));
+          await applySyncResults([]);
+        } else if (!res.network && !res.needsStart) {
+          setErr(res.error);
         }
-        flushed.push(op.key);
-        removeQueueOp(op.key);
-      } catch {
-        // Stop flushing on first failure — network still down
-        break;
+        // Otherwise (network still down) stay quiet and retry on the next "online" event.
+        return;
       }
+      await applySyncResults(res.results);
+    } finally {
+      flushingRef.current = false;
     }
-    if (flushed.length) {
-      setPendingKeys((prev) => {
-        const next = new Set(prev);
-        flushed.forEach((k) => next.delete(k));
-        return next;
-      });
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [meId, roundId, status, isFinished, activateRound]);
+  }, [meId, roundId, status, isFinished, activateRound, applySyncResults, setErr]);
+
+  // Restore the unsynced badges after a reload, and pick up ops left in the
+  // old localStorage queue.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      await migrateLegacyQueue(roundId);
+      const ops = await listScoreOps(roundId);
+      if (!cancelled && ops.length) setPendingKeys(new Set(ops.map((op) => op.key)));
+    })().catch(() => {});
+    return () => { cancelled = true; };
+  }, [roundId]);
 
   useEffect(() => {
     flushPendingOps();
+    const onVisible = () => { if (document.visibilityState === "visible") flushPendingOps(); };
     window.addEventListener("online", flushPendingOps);
-    return () => window.removeEventListener("online", flushPendingOps);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      window.removeEventListener("online", flushPendingOps);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
   }, [flushPendingOps]);
 
+  // The service worker synced in the background (see worker/index.js).
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type !== SCORE_SYNC_TAG || e.data.roundId !== roundId) return;
+      void applySyncResults(Array.isArray(e.data.results) ? e.data.results : []);
+      if (e.data.error) setErr(e.data.discarded ? discardedSyncError(e.data.error, e.data.discarded) : e.data.error);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, [roundId, applySyncResults, setErr]);
+
   async function setHoleState(participantId: string, holeNumber: number, nextState: HoleState) {
     if (!canScore || isFinished) return false;
 
@@ -1004,7 +1049,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }
   }
 
-  async function setScore(participantId: string, holeNumber: number, strokes: number | null) {
+  async function setScore(participantId: string, holeNumber: number, strokes: number | null, stats?: HoleShotStats) {
     if (!meId) return false;
     if (!canScore) {
       setErr("You don’t have permission to enter scores in this round.");
@@ -1016,12 +1061,13 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }
 
     const key = `${participantId}:${holeNumber}`;
+    const statCols = shotStatsForInsert(strokes, stats);
     setErr(null);
 
     // 1. Optimistic state updates — appear instant to the player
     setScoresByKey((prev) => ({
       ...prev,
-      [key]: { participant_id: participantId, hole_number: holeNumber, strokes, created_at: new Date().toISOString() } as Score,
+      [key]: { participant_id: participantId, hole_number: holeNumber, strokes, created_at: new Date().toISOString(), ...statCols } as Score,
     }));
     if (typeof strokes === "number") {
       setHoleStatesByKey((prev) => ({ ...prev, [key]: "completed" }));
@@ -1033,8 +1079,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     // 2. If offline, queue the op and return success. The round will be started
     //    server-side by flushPendingOps when connectivity returns.
     if (typeof navigator !== "undefined" && !navigator.onLine) {
-      upsertQueueOp({ key, roundId, participantId, holeNumber, strokes, enteredBy: meId, holeStatus: typeof strokes === "number" ? "completed" : "not_started", timestamp: Date.now() });
-      setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+      queueOp({ key, participantId, holeNumber, strokes, holeStatus: typeof strokes === "number" ? "completed" : "not_started", stats: statCols });
       return true;
     }
 
@@ -1056,7 +1101,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
       void (async () => {
         try {
           const { error } = await supabase.from("round_score_events").insert({
-            round_id: roundId, participant_id: participantId, hole_number: holeNumber, strokes, entered_by: meId,
+            round_id: roundId, participant_id: participantId, hole_number: holeNumber, strokes, entered_by: meId, ...statCols,
           });
           if (error) throw error;
           const { error: stateErr } = await supabase.from("round_hole_states").upsert(
@@ -1064,14 +1109,12 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
             { onConflict: "participant_id,hole_number" }
           );
           if (stateErr) throw stateErr;
-          removeQueueOp(key);
-          setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
+          clearQueuedOp(key);
           // Score is safely persisted — now start the round (best-effort).
           await activateRound({ silent: true });
         } catch {
           // Write failed (offline/transient) — queue so flushPendingOps activates + syncs.
-          upsertQueueOp({ key, roundId, participantId, holeNumber, strokes, enteredBy: meId, holeStatus: "completed", timestamp: Date.now() });
-          setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+          queueOp({ key, participantId, holeNumber, strokes, holeStatus: "completed", stats: statCols });
         }
       })();
       return true; // advance immediately
@@ -1085,6 +1128,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
         hole_number: holeNumber,
         strokes,
         entered_by: meId,
+        ...statCols,
       });
       if (error) throw error;
 
@@ -1098,15 +1142,13 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
       if (stateErr) throw stateErr;
 
       // Clear from pending queue if it was there
-      removeQueueOp(key);
-      setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
+      clearQueuedOp(key);
 
       return true;
     } catch (e: any) {
       if (isNetworkError(e)) {
         // Queue for later sync; optimistic state already applied
-        upsertQueueOp({ key, roundId, participantId, holeNumber, strokes, enteredBy: meId, holeStatus: typeof strokes === "number" ? "completed" : "not_started", timestamp: Date.now() });
-        setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+        queueOp({ key, participantId, holeNumber, strokes, holeStatus: typeof strokes === "number" ? "completed" : "not_started", stats: statCols });
         return true;
       }
       setErr(e?.message || "Failed to save score");
@@ -1128,8 +1170,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }));
 
     if (typeof navigator !== "undefined" && !navigator.onLine) {
-      upsertQueueOp({ key, roundId, participantId, holeNumber, strokes: null, enteredBy: meId, holeStatus: "picked_up", timestamp: Date.now() });
-      setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+      queueOp({ key, participantId, holeNumber, strokes: null, holeStatus: "picked_up" });
       return;
     }
 
@@ -1150,12 +1191,10 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
             round_id: roundId, participant_id: participantId, hole_number: holeNumber, strokes: null, entered_by: meId,
           });
           if (scErr) throw scErr;
-          removeQueueOp(key);
-          setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
+          clearQueuedOp(key);
           await activateRound({ silent: true });
         } catch {
-          upsertQueueOp({ key, roundId, participantId, holeNumber, strokes: null, enteredBy: meId, holeStatus: "picked_up", timestamp: Date.now() });
-          setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+          queueOp({ key, participantId, holeNumber, strokes: null, holeStatus: "picked_up" });
         }
       })();
       return; // advance immediately
@@ -1172,12 +1211,10 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
         round_id: roundId, participant_id: participantId, hole_number: holeNumber, strokes: null, entered_by: meId,
       });
       if (scErr) throw scErr;
-      removeQueueOp(key);
-      setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
+      clearQueuedOp(key);
     } catch (e: any) {
       if (isNetworkError(e)) {
-        upsertQueueOp({ key, roundId, participantId, holeNumber, strokes: null, enteredBy: meId, holeStatus: "picked_up", timestamp: Date.now() });
-        setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+        queueOp({ key, participantId, holeNumber, strokes: null, holeStatus: "picked_up" });
       } else {
         setErr(e?.message || "Failed to mark picked up");
       }
@@ -1202,8 +1239,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     }));
 
     if (typeof navigator !== "undefined" && !navigator.onLine) {
-      upsertQueueOp({ key, roundId, participantId, holeNumber, strokes: null, enteredBy: meId, holeStatus: "not_started", timestamp: Date.now() });
-      setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+      queueOp({ key, participantId, holeNumber, strokes: null, holeStatus: "not_started" });
       return;
     }
 
@@ -1218,12 +1254,10 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
         round_id: roundId, participant_id: participantId, hole_number: holeNumber, strokes: null, entered_by: meId,
       });
       if (scErr) throw scErr;
-      removeQueueOp(key);
-      setPendingKeys((prev) => { const next = new Set(prev); next.delete(key); return next; });
+      clearQueuedOp(key);
     } catch (e: any) {
       if (isNetworkError(e)) {
-        upsertQueueOp({ key, roundId, participantId, holeNumber, strokes: null, enteredBy: meId, holeStatus: "not_started", timestamp: Date.now() });
-        setPendingKeys((prev) => { const next = new Set(prev); next.add(key); return next; });
+        queueOp({ key, participantId, holeNumber, strokes: null, holeStatus: "not_started" });
       } else {
         setErr(e?.message || "Failed to mark not started");
       }
@@ -1267,7 +1301,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     try {
       if (pendingKeys.size > 0) {
         await flushPendingOps();
-        if (loadQueue().length > 0) {
+        if ((await listScoreOps(roundId)).length > 0) {
           setErr("Some offline scores couldn't sync. Please check your connection and try again.");
           return;
         }
@@ -1309,17 +1343,17 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
     setEntryOpen(true);
   }
 
-  async function submitAndAdvance(strokes: number | null) {
+  async function submitAndAdvance(strokes: number | null, stats?: HoleShotStats) {
     if (!entryPid || entryHole == null) return;
     const pid = entryPid;
     const hole = entryHole;
-    const ok = await setScore(pid, hole, strokes);
+    const ok = await setScore(pid, hole, strokes, stats);
     if (!ok) return;
     advanceAfterCompletion(pid, hole);
   }
 
   // Single-ball mode: show one column per team instead of one per player.
-  // Covers scramble, greensomes, and foursomes — all use one team score.
+  // Covers every SINGLE_BALL_FORMATS entry — all use one team score.
   const singleBallTeamParticipants = useMemo<Participant[]>(() => {
     if (!isSingleBall || !teams.length) return participants;
     // Build a virtual participant per team, using first member's ID
@@ -1584,6 +1618,23 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
           <div className="rounded-2xl border border-red-900/50 bg-red-950/30 p-3 text-sm text-red-100">{err}</div>
         ) : null}
 
+        {syncNotice ? (
+          <button
+            type="button"
+            onClick={() => setSyncNotice(null)}
+            className="w-full text-left rounded-2xl border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-[11px] text-amber-100/90"
+          >
+            {syncNotice} <span className="font-semibold underline underline-offset-2">Dismiss</span>
+          </button>
+        ) : null}
+
+        {pendingKeys.size > 0 && !isFinished ? (
+          <div className="flex items-center gap-2 px-1 text-[11px] text-amber-200/90">
+            <span className="h-1.5 w-1.5 rounded-full bg-amber-400 shrink-0" />
+            {pendingKeys.size} score{pendingKeys.size === 1 ? "" : "s"} saved on this device — will sync when you&apos;re back online.
+          </div>
+        ) : null}
+
         {needsSetup ? (
           <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4 space-y-3">
             <div className="text-sm font-semibold text-emerald-50">Round not started</div>
@@ -1621,7 +1672,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
           </div>
         ) : null}
 
-        {!needsSetup && isFinished && winner ? <FinalResultsPanel winner={winner} finalRows={finalRows} formatDisplay={formatDisplays[0] ?? null} notAcceptedIds={notAcceptedIds} handicaps={scoreView === "gross" ? undefined : finalHandicapsByParticipant} /> : null}
+        {!needsSetup && isFinished && winner ? <FinalResultsPanel winner={winner} finalRows={finalRows} formatDisplay={formatDisplays[0] ?? null} notAcceptedIds={notAcceptedIds} handicaps={scoreView === "gross" ? undefined : finalHandicapsByParticipant} settleUpRoundId={hasSideGames ? roundId : null} /> : null}
 
         {!needsSetup ? (
           isPortrait ? (
@@ -1636,6 +1687,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
               activeHole={activeHole}
               startingHole={startingHole}
               savingKey={savingKey}
+              unsyncedKeys={pendingKeys}
               scoreView={scoreView}
               formatDisplay={activeFormatDisplay}
               metaSums={metaSums}
@@ -1659,6 +1711,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
               activeHole={activeHole}
               startingHole={startingHole}
               savingKey={savingKey}
+              unsyncedKeys={pendingKeys}
               scoreView={scoreView}
               formatDisplay={activeFormatDisplay}
               metaSums={metaSums}
@@ -1729,6 +1782,7 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
 
         {!isFinished && entryOpen && entryPid && entryHole ? (
           <ScoreEntrySheet
+            key={`${entryPid}:${entryHole}`}
             participants={participants}
             holes={holesList}
             pid={entryPid}
@@ -1759,17 +1813,33 @@ export default function RoundDetailClient({ roundId, initialSnapshot }: RoundDet
             onSubmit={submitAndAdvance}
             getParticipantLabel={getParticipantLabel}
             getParticipantAvatar={getParticipantAvatar}
+            trackShotStats={!isSingleBall}
+            shotStats={shotStatsFromRow(scoresByKey[`${entryPid}:${entryHole}`])}
             aboveContent={
-              wolfActive && entryHole != null ? (
-                <WolfHoleDetails
-                  participants={participants}
-                  holeNumber={entryHole}
-                  pick={wolfPicksByHole[entryHole] ?? null}
-                  rotationWolfId={rotationWolfForHole(entryHole)}
-                  getParticipantLabel={getParticipantLabel}
-                  onChange={(pick) => saveWolfPick(entryHole, pick)}
-                  disabled={!canScore || isFinished}
-                />
+              (wolfActive || bbbActive) && entryHole != null ? (
+                <div className="space-y-2">
+                  {wolfActive && (
+                    <WolfHoleDetails
+                      participants={participants}
+                      holeNumber={entryHole}
+                      pick={wolfPicksByHole[entryHole] ?? null}
+                      rotationWolfId={rotationWolfForHole(entryHole)}
+                      getParticipantLabel={getParticipantLabel}
+                      onChange={(pick) => saveWolfPick(entryHole, pick)}
+                      disabled={!canScore || isFinished}
+                    />
+                  )}
+                  {bbbActive && (
+                    <BingoBangoBongoHoleDetails
+                      participants={participants}
+                      holeNumber={entryHole}
+                      award={bbbAwardsByHole[entryHole] ?? null}
+                      getParticipantLabel={getParticipantLabel}
+                      onChange={(award) => saveBbbAward(entryHole, award)}
+                      disabled={!canScore || isFinished}
+                    />
+                  )}
+                </div>
               ) : undefined
             }
           />
@@ -0,0 +1,188 @@
+"use client";
+
+import React from "react";
+import { BackButton } from "@/components/ui/BackButton";
+import { formatHI } from "@/lib/rounds/handicapUtils";
+import type { RoundExport, RoundExportHole, RoundExportPlayer } from "@/lib/rounds/roundExport";
+
+type Cell = string | number | null;
+
+/** Sum numeric cells; null when a split has nothing numeric (e.g. "W"/"L" match results). */
+function sumCells(cells: Cell[]): number | null {
+  const nums = cells.filter((c): c is number => typeof c === "number");
+  return nums.length ? nums.reduce((s, n) => s + n, 0) : null;
+}
+
+function ScoreRow({
+  label,
+  holes,
+  value,
+  totals,
+  strong,
+}: {
+  label: string;
+  holes: RoundExportHole[];
+  value: (h: RoundExportHole) => Cell;
+  totals?: { out: Cell; inn: Cell; total: Cell };
+  strong?: boolean;
+}) {
+  const front = holes.filter((h) => h.hole <= 9);
+  const back = holes.filter((h) => h.hole > 9);
+  const out = totals ? totals.out : sumCells(front.map(value));
+  const inn = totals ? totals.inn : sumCells(back.map(value));
+  const total = totals ? totals.total : sumCells(holes.map(value));
+
+  const td = "border border-slate-300 px-1 py-0.5 text-center tabular-nums";
+  const sub = `${td} bg-slate-100 font-semibold`;
+
+  return (
+    <tr className={strong ? "font-semibold" : "text-slate-600"}>
+      <th className="border border-slate-300 px-2 py-0.5 text-left font-medium whitespace-nowrap">{label}</th>
+      {front.map((h) => (
+        <td key={h.hole} className={td}>{value(h) ?? ""}</td>
+      ))}
+      {front.length > 0 && <td className={sub}>{out ?? ""}</td>}
+      {back.map((h) => (
+        <td key={h.hole} className={td}>{value(h) ?? ""}</td>
+      ))}
+      {back.length > 0 && <td className={sub}>{inn ?? ""}</td>}
+      <td className={sub}>{total ?? ""}</td>
+    </tr>
+  );
+}
+
+function grossCell(h: RoundExportHole): Cell {
+  if (h.status === "picked_up") return h.gross != null ? `PU ${h.gross}` : "PU";
+  if (h.status === "not_started" && h.gross != null) return `(${h.gross})`;
+  return h.gross;
+}
+
+function playerMeta(p: RoundExportPlayer): string {
+  const bits = [
+    p.handicapIndex != null ? `HI ${formatHI(p.handicapIndex)}` : null,
+    p.courseHandicap != null ? `CH ${p.courseHandicap}` : null,
+    p.playingHandicap != null && p.playingHandicap !== p.courseHandicap ? `PH ${p.playingHandicap}` : null,
+    p.teamName,
+    p.accepted ? null : "not an acceptable score",
+  ];
+  return bits.filter(Boolean).join(" · ");
+}
+
+export default function PrintScorecardClient({ round }: { round: RoundExport }) {
+  const holes: RoundExportHole[] = round.holes.map((h) => ({
+    hole: h.hole_number,
+    par: h.par,
+    strokeIndex: h.stroke_index,
+    yardage: h.yardage,
+    strokes: null,
+    status: "not_started",
+    gross: null,
+    net: null,
+    games: {},
+  }));
+  const front = round.holes.filter((h) => h.hole_number <= 9);
+  const back = round.holes.filter((h) => h.hole_number > 9);
+  const colCount = 2 + holes.length + (front.length > 0 ? 1 : 0) + (back.length > 0 ? 1 : 0);
+  const toParLabel = (n: number | null) => (n == null ? "" : n === 0 ? "E" : n > 0 ? `+${n}` : String(n));
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <style>{"@page { size: landscape; margin: 10mm; }"}</style>
+
+      <div className="print:hidden sticky top-0 z-10 flex items-center gap-2 bg-[#042713] px-3 py-2">
+        <BackButton href={`/round/${round.roundId}`} />
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="rounded-xl bg-[#f5e6b0] px-3 py-1.5 text-[12px] font-semibold text-[#042713]"
+        >
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <div className="mx-auto max-w-5xl p-4 print:p-0 space-y-4 text-[11px]">
+        <header>
+          <h1 className="text-lg font-bold">{round.name}</h1>
+          <div className="text-slate-600">
+            {[round.courseName, round.teeName ? `${round.teeName} tees` : null, round.playedOn].filter(Boolean).join(" · ")}
+          </div>
+        </header>
+
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-slate-100">
+              <th className="border border-slate-300 px-2 py-0.5 text-left">Hole</th>
+              {front.map((h) => (
+                <th key={h.hole_number} className="border border-slate-300 px-1 py-0.5">{h.hole_number}</th>
+              ))}
+              {front.length > 0 && <th className="border border-slate-300 px-1 py-0.5">Out</th>}
+              {back.map((h) => (
+                <th key={h.hole_number} className="border border-slate-300 px-1 py-0.5">{h.hole_number}</th>
+              ))}
+              {back.length > 0 && <th className="border border-slate-300 px-1 py-0.5">In</th>}
+              <th className="border border-slate-300 px-1 py-0.5">Tot</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ScoreRow label="Yards" holes={holes} value={(h) => h.yardage} />
+            <ScoreRow label="Par" holes={holes} value={(h) => h.par} />
+            <ScoreRow label="SI" holes={holes} value={(h) => h.strokeIndex} totals={{ out: null, inn: null, total: null }} />
+            {round.players.map((p) => (
+              <React.Fragment key={p.participantId}>
+                <tr>
+                  <td colSpan={colCount} className="border border-slate-300 bg-slate-50 px-2 pt-1.5 pb-0.5">
+                    <span className="font-bold">{p.name}</span>
+                    <span className="ml-2 text-slate-500">{playerMeta(p)}</span>
+                    {p.toPar != null && <span className="float-right font-semibold">{toParLabel(p.toPar)}</span>}
+                  </td>
+                </tr>
+                <ScoreRow label="Gross" holes={p.holes} value={grossCell} totals={p.gross} strong />
+                <ScoreRow label="Net" holes={p.holes} value={(h) => h.net} totals={p.net} />
+                {round.games
+                  .filter((g) => p.holes.some((h) => h.games[g.label] != null))
+                  .map((g) => (
+                    <ScoreRow key={g.label} label={g.label} holes={p.holes} value={(h) => h.games[g.label] ?? null} />
+                  ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+
+        {round.games.length > 0 && (
+          <div className="grid grid-cols-2 gap-4 print:break-inside-avoid">
+            {round.games.map((g) => (
+              <table key={g.label} className="w-full border-collapse">
+                <thead>
+                  <tr className="bg-slate-100">
+                    <th className="border border-slate-300 px-2 py-0.5 text-left">
+                      {g.label}
+                      {g.unit && <span className="font-normal text-slate-500"> ({g.unit})</span>}
+                    </th>
+                    <th className="border border-slate-300 px-1 py-0.5">Out</th>
+                    <th className="border border-slate-300 px-1 py-0.5">In</th>
+                    <th className="border border-slate-300 px-1 py-0.5">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {g.standings.map((s, i) => (
+                    <tr key={`${s.name}-${i}`}>
+                      <td className="border border-slate-300 px-2 py-0.5">{s.name}</td>
+                      <td className="border border-slate-300 px-1 py-0.5 text-center tabular-nums">{s.out}</td>
+                      <td className="border border-slate-300 px-1 py-0.5 text-center tabular-nums">{s.inn}</td>
+                      <td className="border border-slate-300 px-1 py-0.5 text-center tabular-nums font-semibold">{s.total}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        )}
+
+        <footer className="text-[10px] text-slate-500">
+          PU = picked up; bracketed scores are unplayed holes. Both count as net double bogey. Net uses each player&apos;s playing handicap.
+        </footer>
+      </div>
+    </div>
+  );
+}
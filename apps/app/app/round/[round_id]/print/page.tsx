@@ -0,0 +1,23 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { getServerViewer } from "@/lib/supabaseServer";
+import { isRoundParticipant, loadRoundExport } from "@/lib/rounds/roundExportData";
+import PrintScorecardClient from "./PrintScorecardClient";
+
+export const metadata: Metadata = { title: "Printable Scorecard" };
+
+export default async function PrintScorecardPage({ params }: { params: Promise<{ round_id: string }> }) {
+  const [viewerResult, { round_id: roundId }] = await Promise.all([
+    getServerViewer(),
+    params,
+  ]);
+  if (viewerResult.status === "signed_out") redirect("/auth");
+  if (viewerResult.status === "needs_onboarding") redirect("/onboarding/set-password");
+
+  if (!(await isRoundParticipant(viewerResult.viewer.profileId, roundId))) notFound();
+
+  const round = await loadRoundExport(roundId);
+  if (!round) notFound();
+
+  return <PrintScorecardClient round={round} />;
+}
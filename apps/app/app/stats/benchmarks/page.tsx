@@ -0,0 +1,343 @@
+// src/app/stats/benchmarks/page.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { getMyProfileIdByAuthUserId } from "@/lib/myProfile";
+import { Button } from "@/components/ui/button";
+import { BackButton } from "@/components/ui/BackButton";
+import { round1, fmtSigned, parseYMD, monthsAgo } from "@/lib/stats/helpers";
+import { fetchAllHoleScoringSource, fetchTeeBoxRatings } from "@/lib/stats/queries";
+import {
+  BENCHMARK_BANDS,
+  benchmarkHoles,
+  costliestBucket,
+  type BenchmarkBandKey,
+  type BenchmarkBucket,
+  type BenchmarkSourceRow,
+  type BenchmarkTee,
+} from "@/lib/stats/benchmark";
+
+type HoleRow = BenchmarkSourceRow & {
+  played_at: string | null;
+};
+
+type TimePreset = "all" | "12m" | "6m" | "20r" | "10r";
+
+const PRESETS: Array<[TimePreset, string]> = [
+  ["all", "All time"],
+  ["12m", "12 months"],
+  ["6m", "6 months"],
+  ["20r", "20 rounds"],
+  ["10r", "10 rounds"],
+];
+
+function gainedTone(n: number) {
+  if (n > 0.005) return "text-emerald-300";
+  if (n < -0.005) return "text-red-300";
+  return "text-emerald-50";
+}
+
+function BucketRow({ b, bandLabel }: { b: BenchmarkBucket; bandLabel: string }) {
+  return (
+    <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/45 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="text-sm font-extrabold text-emerald-50 truncate">{b.label}</div>
+        <div className="text-[11px] text-emerald-100/70 font-semibold shrink-0">holes: {b.holes}</div>
+      </div>
+
+      <div className="mt-2 grid grid-cols-4 gap-3">
+        <div>
+          <div className="text-[11px] text-emerald-100/70 font-bold">You</div>
+          <div className="text-[13px] font-extrabold tabular-nums text-emerald-50">{round1(b.actualAvg)}</div>
+        </div>
+        <div>
+          <div className="text-[11px] text-emerald-100/70 font-bold truncate">{bandLabel}</div>
+          <div className="text-[13px] font-extrabold tabular-nums text-emerald-50">{round1(b.expectedAvg)}</div>
+        </div>
+        <div>
+          <div className="text-[11px] text-emerald-100/70 font-bold">SG / hole</div>
+          <div className={`text-[13px] font-extrabold tabular-nums ${gainedTone(b.gainedPerHole)}`}>
+            {b.gainedPerHole > 0 ? "+" : ""}
+            {b.gainedPerHole.toFixed(2)}
+          </div>
+        </div>
+        <div>
+          <div className="text-[11px] text-emerald-100/70 font-bold">Total</div>
+          <div className={`text-[13px] font-extrabold tabular-nums ${gainedTone(b.gainedTotal)}`}>
+            {fmtSigned(b.gainedTotal)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function BenchmarksPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [rows, setRows] = useState<HoleRow[]>([]);
+  const [tees, setTees] = useState<Map<string, BenchmarkTee>>(new Map());
+
+  const [bandKey, setBandKey] = useState<BenchmarkBandKey>("hcp10");
+  const [preset, setPreset] = useState<TimePreset>("12m");
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      setLoading(true);
+      setErr(null);
+
+      try {
+        const { data: authData, error: authErr } = await supabase.auth.getUser();
+        if (authErr) throw authErr;
+
+        const user = (authData.user as any) ?? null;
+        if (!user) throw new Error("You must be signed in.");
+
+        const pid = await getMyProfileIdByAuthUserId(user.id);
+
+        const got = ((await fetchAllHoleScoringSource(pid)) ?? []) as HoleRow[];
+        const teeMap = await fetchTeeBoxRatings(
+          got.map((r) => r.tee_box_id).filter((id): id is string => !!id)
+        );
+
+        if (!alive) return;
+        setRows(got);
+        setTees(teeMap);
+      } catch (e: any) {
+        if (!alive) return;
+        setErr(e?.message ?? "Failed to load benchmarks.");
+      } finally {
+        if (!alive) return;
+        setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // Rows arrive newest first, so "last N rounds" is the first N distinct rounds.
+  const filtered = useMemo(() => {
+    if (preset === "12m" || preset === "6m") {
+      const minTs = monthsAgo(preset === "12m" ? 12 : 6);
+      return rows.filter((r) => {
+        const ts = parseYMD(r.played_at);
+        return ts != null && ts >= minTs;
+      });
+    }
+
+    if (preset === "20r" || preset === "10r") {
+      const limit = preset === "20r" ? 20 : 10;
+      const allowed = new Set<string>();
+      for (const r of rows) {
+        if (!r.round_id || allowed.has(r.round_id)) continue;
+        if (allowed.size >= limit) break;
+        allowed.add(r.round_id);
+      }
+      return rows.filter((r) => !!r.round_id && allowed.has(r.round_id));
+    }
+
+    return rows;
+  }, [rows, preset]);
+
+  const results = useMemo(
+    () => BENCHMARK_BANDS.map((band) => benchmarkHoles(filtered, tees, band)),
+    [filtered, tees]
+  );
+
+  const result = results.find((r) => r.band.key === bandKey) ?? results[0];
+  const worst = result ? costliestBucket(result) : null;
+
+  const ratedShare = useMemo(() => {
+    if (!filtered.length) return 0;
+    const rated = filtered.filter((r) => {
+      const t = r.tee_box_id ? tees.get(r.tee_box_id) : null;
+      return t?.rating != null && t.slope != null;
+    }).length;
+    return rated / filtered.length;
+  }, [filtered, tees]);
+
+  const presetLabel = PRESETS.find(([id]) => id === preset)?.[1] ?? "All time";
+
+  return (
+    <div className="h-screen bg-[#042713] text-slate-100 px-1.5 sm:px-2 pt-4">
+      <div className="mx-auto w-full max-w-3xl h-full flex flex-col">
+        <header className="sticky top-0 z-20 bg-[#042713] pb-3">
+          <div className="flex items-center justify-between gap-2 px-1">
+            <BackButton onClick={() => router.back()} />
+
+            <div className="text-center flex-1 min-w-0 px-2">
+              <div className="text-[15px] sm:text-base font-semibold tracking-wide text-[#f5e6b0] truncate">
+                Benchmarks
+              </div>
+              <div className="text-[11px] sm:text-[10px] uppercase tracking-[0.14em] text-emerald-200/70 truncate">
+                {presetLabel} · Strokes gained vs {result?.band.label ?? "band"}
+              </div>
+            </div>
+
+            <div className="w-[64px]" />
+          </div>
+
+          <div className="mt-3 px-1 space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              {BENCHMARK_BANDS.map((b) => {
+                const active = bandKey === b.key;
+                return (
+                  <button
+                    key={b.key}
+                    type="button"
+                    onClick={() => setBandKey(b.key)}
+                    className={[
+                      "rounded-2xl px-3 py-2 text-[13px] font-extrabold border leading-tight",
+                      active
+                        ? "bg-[#042713]/70 border-[#f5e6b0]/60 text-[#f5e6b0]"
+                        : "bg-[#042713]/30 border-emerald-900/70 text-emerald-50/90 hover:bg-emerald-900/20",
+                    ].join(" ")}
+                  >
+                    {b.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-5 gap-1.5">
+              {PRESETS.map(([id, label]) => {
+                const active = preset === id;
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setPreset(id)}
+                    className={[
+                      "rounded-xl px-1.5 py-1.5 text-[11px] font-extrabold border leading-tight",
+                      active
+                        ? "bg-[#042713]/70 border-[#f5e6b0]/60 text-[#f5e6b0]"
+                        : "bg-[#042713]/30 border-emerald-900/70 text-emerald-50/90 hover:bg-emerald-900/20",
+                    ].join(" ")}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto overscroll-y-contain pb-[env(safe-area-inset-bottom)]">
+          {loading ? (
+            <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4 text-sm text-emerald-100/80">
+              Loading…
+            </div>
+          ) : err ? (
+            <div className="rounded-2xl border border-red-900/50 bg-red-950/30 p-4">
+              <p className="text-sm text-red-100">{err}</p>
+              <div className="mt-3">
+                <Button
+                  variant="outline"
+                  className="border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-50 hover:bg-emerald-900/20"
+                  onClick={() => window.location.reload()}
+                >
+                  Retry
+                </Button>
+              </div>
+            </div>
+          ) : !result?.overall ? (
+            <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-6 space-y-2">
+              <div className="text-sm font-semibold text-emerald-50">No hole data found</div>
+              <p className="text-[12px] text-emerald-100/70">Play a few rounds or widen the time range.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* Summary */}
+              <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">
+                  Strokes gained per 18
+                </div>
+                <div className="mt-2 grid grid-cols-3 gap-3">
+                  {results.map((r) => (
+                    <div key={r.band.key}>
+                      <div className="text-[11px] text-emerald-100/70 font-bold">vs {r.band.label}</div>
+                      <div
+                        className={`text-lg font-extrabold tabular-nums ${
+                          r.gainedPer18 != null ? gainedTone(r.gainedPer18) : "text-emerald-50"
+                        }`}
+                      >
+                        {r.gainedPer18 != null ? fmtSigned(r.gainedPer18) : "—"}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="mt-3 text-[12px] text-emerald-100/80 font-semibold leading-snug">
+                  {worst ? (
+                    <>
+                      Costing you most vs {result.band.label.toLowerCase()}:{" "}
+                      <span className="font-extrabold text-[#f5e6b0]">{worst.label}</span>
+                      {" · "}
+                      {worst.gainedPerHole.toFixed(2)} per hole over {worst.holes} holes
+                    </>
+                  ) : (
+                    <>No hole type is costing you shots against a {result.band.label.toLowerCase()}.</>
+                  )}
+                </div>
+
+                <div className="mt-2 text-[11px] text-emerald-100/55 font-semibold leading-snug">
+                  {result.overall.holes} holes. Positive = better than the band. Expected scores come from the
+                  Fantasy Picks hole model
+                  {ratedShare < 1 ? ` (${Math.round((1 - ratedShare) * 100)}% of holes on unrated tees use par-only pricing)` : ""}.
+                </div>
+              </div>
+
+              {/* By Par */}
+              <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">By par</div>
+                <div className="mt-3 space-y-2">
+                  {result.byPar.map((b) => (
+                    <BucketRow key={b.key} b={b} bandLabel={result.band.label} />
+                  ))}
+                </div>
+              </div>
+
+              {/* By Length */}
+              <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">
+                  By length (by par)
+                </div>
+                <div className="mt-1 text-[12px] text-emerald-100/70 font-semibold">
+                  Par 3 &lt;150 / 150–185 / 185+ · Par 4 &lt;360 / 360–420 / 420+ · Par 5 &lt;500 / 500–550 / 550+
+                </div>
+                <div className="mt-3 space-y-2">
+                  {result.byLength.map((b) => (
+                    <BucketRow key={b.key} b={b} bandLabel={result.band.label} />
+                  ))}
+                </div>
+              </div>
+
+              {/* By SI */}
+              <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">
+                  By stroke index
+                </div>
+                <div className="mt-3 space-y-2">
+                  {result.bySi.map((b) => (
+                    <BucketRow key={b.key} b={b} bandLabel={result.band.label} />
+                  ))}
+                </div>
+              </div>
+
+              <div className="pt-1 text-[10px] text-emerald-100/40 text-center font-semibold">CIAGA · Benchmarks</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
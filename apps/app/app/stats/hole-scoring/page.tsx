@@ -12,6 +12,7 @@ import {
   normalizeTeeName, normalizeHoleNumberForNine,
 } from "@/lib/stats/helpers";
 import { fetchAllHoleScoringSource } from "@/lib/stats/queries";
+import { summarizeShotStats } from "@/lib/stats/shotStats";
 
 // -----------------------------
 // Helpers (page-specific)
@@ -88,6 +89,13 @@ type HoleRow = {
 
   is_double_plus: boolean | null;
   is_triple_plus: boolean | null;
+
+  // Optional shot stats (null = not recorded)
+  putts?: number | null;
+  fairway?: string | null;
+  gir?: boolean | null;
+  sand_save?: boolean | null;
+  penalty_strokes?: number | null;
 };
 
 type Option = { id: string; name: string };
@@ -255,7 +263,13 @@ export default function HoleScoringPage() {
     const parRate = rs.reduce((a, r) => a + ((getToPar(r) ?? 999) === 0 ? 1 : 0), 0) / attempts;
     const bogey = rs.reduce((a, r) => a + ((getToPar(r) ?? 999) === 1 ? 1 : 0), 0) / attempts;
 
-    return { attempts, avgStrokes, avgToPar, blow, birdieOrBetter, parRate, bogey };
+    // Putting / driving / GIR on the same holes (only where stats were recorded)
+    const shots = summarizeShotStats(rs);
+    const shot = shots.holesTracked
+      ? { puttsPerHole: shots.puttsPerHole, fairwayHitRate: shots.fairwayHitRate, girRate: shots.girRate }
+      : null;
+
+    return { attempts, avgStrokes, avgToPar, blow, birdieOrBetter, parRate, bogey, shot };
   }
 
   // -----------------------------
@@ -483,8 +497,9 @@ export default function HoleScoringPage() {
     birdieOrBetter: number;
     parRate: number;
     bogey: number;
+    shot?: { puttsPerHole: number | null; fairwayHitRate: number | null; girRate: number | null } | null;
   }) {
-    const { title, attempts, avgStrokes, avgToPar, blow, birdieOrBetter, parRate, bogey } = props;
+    const { title, attempts, avgStrokes, avgToPar, blow, birdieOrBetter, parRate, bogey, shot } = props;
 
     return (
       <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/45 p-3">
@@ -515,6 +530,29 @@ export default function HoleScoringPage() {
             </div>
           </div>
         </div>
+
+        {shot ? (
+          <div className="mt-2 grid grid-cols-3 gap-3 border-t border-emerald-900/50 pt-2">
+            <div>
+              <div className="text-[11px] text-emerald-100/70 font-bold">Putts</div>
+              <div className="text-[12px] font-extrabold tabular-nums text-emerald-50">
+                {shot.puttsPerHole != null ? round1(shot.puttsPerHole) : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="text-[11px] text-emerald-100/70 font-bold">Fairways</div>
+              <div className="text-[12px] font-extrabold tabular-nums text-emerald-50">
+                {shot.fairwayHitRate != null ? pct(shot.fairwayHitRate) : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="text-[11px] text-emerald-100/70 font-bold">GIR</div>
+              <div className="text-[12px] font-extrabold tabular-nums text-emerald-50">
+                {shot.girRate != null ? pct(shot.girRate) : "—"}
+              </div>
+            </div>
+          </div>
+        ) : null}
       </div>
     );
   }
@@ -841,6 +879,7 @@ export default function HoleScoringPage() {
                       birdieOrBetter={r.birdieOrBetter}
                       parRate={r.parRate}
                       bogey={r.bogey}
+                      shot={r.shot}
                     />
                   ))}
                 </div>
@@ -867,6 +906,7 @@ export default function HoleScoringPage() {
                       birdieOrBetter={r.birdieOrBetter}
                       parRate={r.parRate}
                       bogey={r.bogey}
+                      shot={r.shot}
                     />
                   ))}
                 </div>
@@ -893,6 +933,7 @@ export default function HoleScoringPage() {
                       birdieOrBetter={r.birdieOrBetter}
                       parRate={r.parRate}
                       bogey={r.bogey}
+                      shot={r.shot}
                     />
                   ))}
                 </div>
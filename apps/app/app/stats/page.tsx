@@ -193,6 +193,13 @@ export default function StatsHomePage() {
       href: "/stats/scoring-breakdown",
       icon: <IconTarget />,
     },
+    {
+      title: "Benchmarks",
+      subtitle: "Strokes gained vs scratch, 10 and 20 handicaps by hole type",
+      href: "/stats/benchmarks",
+      icon: <IconChart />,
+      badge: "SG",
+    },
     {
       title: "Streaks & milestones",
       subtitle: "Best stretch of rounds, consistency, firsts and goals hit",
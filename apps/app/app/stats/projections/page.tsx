@@ -27,12 +27,15 @@ import {
 } from "@/lib/stats/timeModel";
 
 import type { FollowProfile } from "@/lib/stats/data";
-import { getHandicapHistoryPoints, getFollowedProfiles } from "@/lib/stats/data";
+import type { HandicapTeeOption } from "@/lib/stats/data";
+import { getHandicapHistoryPoints, getFollowedProfiles, getHandicapRoundInputs } from "@/lib/stats/data";
+import type { HandicapRoundInput } from "@/lib/handicap/whs";
 import { formatHI } from "@/lib/rounds/handicapUtils";
 
 import { Modal } from "@/components/stats/Modal";
 import { Wheel } from "@/components/stats/Wheel";
 import { ZoomPanChart } from "@/components/stats/ZoomPanChart";
+import { WhatIfCalculator } from "@/components/stats/WhatIfCalculator";
 
 type EtaStatus = "insufficient" | "reached" | "unreachable" | "unknown" | "estimated";
 
@@ -60,6 +63,7 @@ export default function StatsPage() {
   const [err, setErr] = useState<string | null>(null);
 
   const [myPoints, setMyPoints] = useState<HiPoint[]>([]);
+  const [myRounds, setMyRounds] = useState<{ rounds: HandicapRoundInput[]; tees: HandicapTeeOption[] } | null>(null);
   const [followList, setFollowList] = useState<FollowProfile[]>([]);
 
   const [compareAId, setCompareAId] = useState<string>(ME);
@@ -116,6 +120,11 @@ export default function StatsPage() {
         if (!alive) return;
         setMyPoints(myPts);
 
+        // Scoring record for the what-if calculator
+        const rec = await getHandicapRoundInputs(pid);
+        if (!alive) return;
+        setMyRounds(rec);
+
         // Following list
         const profs = await getFollowedProfiles(pid);
         if (!alive) return;
@@ -929,6 +938,24 @@ export default function StatsPage() {
             )}
           </div>
 
+          {/* What if */}
+          <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/45 p-4 space-y-3">
+            <div>
+              <div className="text-sm font-extrabold text-emerald-50">What if…</div>
+              <div className="text-[11px] text-emerald-100/55 font-semibold">Your HI after one more round (WHS rules)</div>
+            </div>
+
+            {myRounds ? (
+              <WhatIfCalculator
+                rounds={myRounds.rounds}
+                tees={myRounds.tees}
+                storedIndex={myPoints.length ? myPoints[myPoints.length - 1].hi : null}
+              />
+            ) : (
+              <div className="text-[12px] text-emerald-100/70 font-semibold">Loading…</div>
+            )}
+          </div>
+
           {/* Potential floor */}
           <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/45 p-4">
             <div className="text-sm font-extrabold text-emerald-50">Potential floor</div>
@@ -7,8 +7,9 @@ import { supabase } from "@/lib/supabaseClient";
 import { getMyProfileIdByAuthUserId } from "@/lib/myProfile";
 import { Button } from "@/components/ui/button";
 import { BackButton } from "@/components/ui/BackButton";
-import { pct, safeNum, parseYMD, daysAgo, monthsAgo } from "@/lib/stats/helpers";
+import { pct, round1, safeNum, parseYMD, daysAgo, monthsAgo, fmtSigned } from "@/lib/stats/helpers";
 import { fetchAllHoleScoringSource } from "@/lib/stats/queries";
+import { recentTrend, shotStatsByRound, summarizeShotStats } from "@/lib/stats/shotStats";
 
 type Option = { id: string; name: string };
 
@@ -39,6 +40,13 @@ type BreakdownRow = {
 
   is_double_plus: boolean | null;
   is_triple_plus: boolean | null;
+
+  // Optional shot stats (null = not recorded)
+  putts?: number | null;
+  fairway?: string | null;
+  gir?: boolean | null;
+  sand_save?: boolean | null;
+  penalty_strokes?: number | null;
 };
 
 type TimePreset = "all" | "12m" | "6m" | "30d" | "40r" | "20r" | "10r" | "5r";
@@ -257,6 +265,18 @@ export default function ScoringBreakdownPage() {
       .sort((a, b) => orderKey(a.label) - orderKey(b.label));
   }, [summary]);
 
+  // Putting / driving / GIR — independent of gross/net (stats are per stroke, not per score)
+  const shotSummary = useMemo(() => summarizeShotStats(filtered), [filtered]);
+  const shotRounds = useMemo(() => shotStatsByRound(filtered), [filtered]);
+  const shotTrends = useMemo(
+    () => ({
+      putts: recentTrend(shotRounds.map((r) => r.puttsPer18)),
+      fairways: recentTrend(shotRounds.map((r) => r.fairwayHitRate)),
+      gir: recentTrend(shotRounds.map((r) => r.girRate)),
+    }),
+    [shotRounds]
+  );
+
   function RateCard(props: { title: string; count: number; rate: number }) {
     const { title, count, rate } = props;
 
@@ -284,6 +304,31 @@ export default function ScoringBreakdownPage() {
     );
   }
 
+  function ShotStatCard(props: {
+    title: string;
+    value: string;
+    detail: string;
+    trend: number | null;
+    trendLabel: (t: number) => string;
+    lowerIsBetter?: boolean;
+  }) {
+    const { title, value, detail, trend, trendLabel, lowerIsBetter } = props;
+    const improving = trend != null && trend !== 0 && (lowerIsBetter ? trend < 0 : trend > 0);
+
+    return (
+      <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/45 p-3">
+        <div className="text-sm font-extrabold text-emerald-50 truncate">{title}</div>
+        <div className="mt-1 text-lg font-extrabold tabular-nums text-[#f5e6b0]">{value}</div>
+        <div className="text-[11px] text-emerald-100/70 font-semibold">{detail}</div>
+        {trend != null ? (
+          <div className={`mt-1 text-[11px] font-extrabold ${improving ? "text-emerald-300" : trend === 0 ? "text-emerald-100/60" : "text-red-200/80"}`}>
+            {trendLabel(trend)} vs previous rounds
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
   function DistRow(props: { label: string; count: number; max: number }) {
     const { label, count, max } = props;
     const w = max ? (count / max) * 100 : 0;
@@ -599,6 +644,91 @@ export default function ScoringBreakdownPage() {
                 </div>
               </div>
 
+              {/* Putting, driving & GIR */}
+              <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">
+                  Putting, driving &amp; GIR
+                </div>
+                {shotSummary.holesTracked === 0 ? (
+                  <div className="mt-1 text-[12px] text-emerald-100/70 font-semibold leading-snug">
+                    No shot stats recorded yet. Open &ldquo;Shot stats&rdquo; when entering a score to track putts, fairways,
+                    greens, sand saves and penalties.
+                  </div>
+                ) : (
+                  <>
+                    <div className="mt-1 text-[12px] text-emerald-100/70 font-semibold">
+                      {shotSummary.holesTracked} holes tracked · {shotSummary.roundsTracked} rounds · trend = last 5 vs previous 5
+                    </div>
+
+                    <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      <ShotStatCard
+                        title="Putts / 18"
+                        value={shotSummary.puttsPer18 != null ? `${round1(shotSummary.puttsPer18)}` : "—"}
+                        detail={`1-putt ${shotSummary.onePuttRate != null ? pct(shotSummary.onePuttRate) : "—"} · 3-putt ${shotSummary.threePuttRate != null ? pct(shotSummary.threePuttRate) : "—"}${shotSummary.puttsPerGir != null ? ` · ${round1(shotSummary.puttsPerGir)} per GIR` : ""}`}
+                        trend={shotTrends.putts}
+                        trendLabel={(t) => fmtSigned(t)}
+                        lowerIsBetter
+                      />
+                      <ShotStatCard
+                        title="Fairways hit"
+                        value={shotSummary.fairwayHitRate != null ? pct(shotSummary.fairwayHitRate) : "—"}
+                        detail={`Miss L ${shotSummary.missLeftRate != null ? pct(shotSummary.missLeftRate) : "—"} · Miss R ${shotSummary.missRightRate != null ? pct(shotSummary.missRightRate) : "—"} · ${shotSummary.fairwayAttempts} tee shots`}
+                        trend={shotTrends.fairways}
+                        trendLabel={(t) => `${t > 0 ? "+" : ""}${Math.round(t * 100)} pts`}
+                      />
+                      <ShotStatCard
+                        title="Greens in regulation"
+                        value={shotSummary.girRate != null ? pct(shotSummary.girRate) : "—"}
+                        detail={`${shotSummary.girAttempts} holes`}
+                        trend={shotTrends.gir}
+                        trendLabel={(t) => `${t > 0 ? "+" : ""}${Math.round(t * 100)} pts`}
+                      />
+                    </div>
+
+                    <div className="mt-3 grid grid-cols-2 gap-3">
+                      <div>
+                        <div className="text-[11px] text-emerald-100/70 font-bold">Sand saves</div>
+                        <div className="text-base font-extrabold tabular-nums text-emerald-50">
+                          {shotSummary.sandSaveRate != null ? pct(shotSummary.sandSaveRate) : "—"}
+                          <span className="text-[11px] text-emerald-100/60 font-semibold"> · {shotSummary.sandAttempts} bunkers</span>
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-[11px] text-emerald-100/70 font-bold">Penalties / 18</div>
+                        <div className="text-base font-extrabold tabular-nums text-emerald-50">
+                          {shotSummary.penaltiesPer18 != null ? round1(shotSummary.penaltiesPer18) : "—"}
+                        </div>
+                      </div>
+                    </div>
+
+                    {shotRounds.length > 1 ? (
+                      <div className="mt-3 space-y-1.5">
+                        <div className="text-[11px] text-emerald-100/70 font-bold">Recent rounds</div>
+                        <div className="grid grid-cols-4 gap-2 text-[11px] text-emerald-100/60 font-bold">
+                          <div>Date</div>
+                          <div className="text-right">Putts/18</div>
+                          <div className="text-right">FIR</div>
+                          <div className="text-right">GIR</div>
+                        </div>
+                        {shotRounds
+                          .slice(-10)
+                          .reverse()
+                          .map((r) => (
+                            <div key={r.roundId} className="grid grid-cols-4 gap-2 text-[12px] font-extrabold tabular-nums text-emerald-50">
+                              <div className="text-emerald-100/70">
+                                {r.playedAt ? new Date(r.playedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "—"}
+                              </div>
+                              <div className="text-right">{r.puttsPer18 != null ? round1(r.puttsPer18) : "—"}</div>
+                              <div className="text-right">{r.fairwayHitRate != null ? pct(r.fairwayHitRate) : "—"}</div>
+                              <div className="text-right">{r.girRate != null ? pct(r.girRate) : "—"}</div>
+                            </div>
+                          ))}
+                      </div>
+                    ) : null}
+                  </>
+                )}
+              </div>
+
               {/* Distribution */}
               <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
                 <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 font-bold">
@@ -14,14 +14,15 @@ import { OddsValue } from "@/components/fantasy/OddsValue";
 /**
  * The floating bet slip: singles (one pick per leg) or an Acca (combined
  * odds, one stake) when the legs are combinable — same group, no correlated
- * subjects within an event (server re-enforces both).
+ * subjects within an event (server re-enforces both). Outright legs with
+ * place terms can be switched to each-way, which doubles that single's stake.
  */
 
 type Mode = "singles" | "acca";
 
 export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
   const router = useRouter();
-  const { legs, remove, clear } = useSlip();
+  const { legs, remove, setEachWay, clear } = useSlip();
   const [open, setOpen] = useState(false);
   const [mode, setMode] = useState<Mode>("singles");
   const [stake, setStake] = useState(10);
@@ -45,6 +46,7 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
           subjectProfileId: l.subjectProfileId,
           opponentProfileId: l.opponentProfileId,
           eventRankingBasis: l.eventRankingBasis,
+          eachWay: l.eachWay === true,
         }))
       ),
     [legs]
@@ -118,6 +120,9 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
   if (legs.length === 0) return null;
   if (typeof document === "undefined") return null;
 
+  // An each-way single stakes `stake` on the win AND on the place.
+  const singlesTotal = legs.reduce((sum, l) => sum + (l.eachWay ? stake * 2 : stake), 0);
+
   const placeSingles = async () => {
     setPlacing(true);
     setError(null);
@@ -138,6 +143,7 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
             selectionKey: leg.selectionKey,
             snapshotId: leg.snapshotId,
             stake,
+            eachWay: leg.eachWay === true,
           }),
         });
         const j = await safeJson(res);
@@ -177,6 +183,7 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
             marketId: l.marketId,
             selectionKey: l.selectionKey,
             snapshotId: l.snapshotId,
+            eachWay: l.eachWay === true,
           })),
           stake,
         }),
@@ -280,6 +287,19 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
                     <div className="truncate text-[10px] text-emerald-200/55">
                       {leg.marketLabel} · {leg.eventName}
                     </div>
+                    {leg.eachWayTerms && (
+                      <button
+                        type="button"
+                        onClick={() => setEachWay(leg.marketId, leg.selectionKey, !leg.eachWay)}
+                        className={`mt-1 rounded-full border px-2 py-0.5 text-[9px] font-semibold ${
+                          leg.eachWay
+                            ? "border-emerald-600 bg-emerald-700 text-white"
+                            : "border-emerald-900/60 text-emerald-200/60"
+                        }`}
+                      >
+                        E/W · 1/{leg.eachWayTerms.fraction} odds, top {leg.eachWayTerms.places}
+                      </button>
+                    )}
                   </div>
                   <div className="flex shrink-0 items-center gap-2">
                     <span className="text-[11px] font-bold text-[#f5e6b0]">
@@ -343,7 +363,7 @@ export function BetSlip({ onPlaced }: { onPlaced?: () => void }) {
               {mode === "singles" ? (
                 <>
                   Total staked:{" "}
-                  <span className="font-bold text-[#f5e6b0]">{stake * legs.length} pts</span>
+                  <span className="font-bold text-[#f5e6b0]">{singlesTotal} pts</span>
                 </>
               ) : blockedReason ? (
                 <span className="text-amber-300/90">{blockedReason}</span>
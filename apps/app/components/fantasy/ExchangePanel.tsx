@@ -0,0 +1,460 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { safeJson } from "@/lib/fantasy/safeJson";
+import {
+  exchangePosition,
+  exposure,
+  layerLiability,
+  parseExchangeOdds,
+  takerSide,
+} from "@/lib/fantasy/exchangeRules";
+import type { ExchangeSide } from "@/lib/fantasy/types";
+import { OddsValue } from "@/components/fantasy/OddsValue";
+
+type Offer = {
+  id: string;
+  market_id: string;
+  selection_key: string;
+  maker_profile_id: string;
+  maker_name: string;
+  side: ExchangeSide;
+  decimal_odds: number;
+  size: number;
+  remaining: number;
+  market_label: string;
+  selection_label: string;
+  house_odds: number | null;
+};
+
+type Match = {
+  id: string;
+  backer_profile_id: string;
+  layer_profile_id: string;
+  backer_name: string;
+  layer_name: string;
+  decimal_odds: number;
+  backer_stake: number;
+  layer_liability: number;
+  status: "open" | "won" | "lost" | "void";
+  market_label: string;
+  selection_label: string;
+};
+
+type Market = {
+  id: string;
+  label: string;
+  selections: { key: string; label: string; house_odds: number }[];
+};
+
+type ExchangeBoard = {
+  offers: Offer[];
+  matches: Match[];
+  markets: Market[];
+  viewerId: string;
+};
+
+type Sheet =
+  | { kind: "new" }
+  | { kind: "take"; offer: Offer };
+
+const SIDE_LABEL: Record<ExchangeSide, string> = { back: "Back", lay: "Lay" };
+
+/**
+ * Member-to-member exchange for one event: standing back/lay offers at
+ * members' own prices, the viewer's matched bets, and the offer / take
+ * bottom sheets. Amounts are backer-stake points throughout; the layer's
+ * side is the stake × (odds − 1) liability. Fetches its own data so it can
+ * sit in the event board's Exchange tab.
+ */
+export function ExchangePanel({
+  eventId,
+  onChanged,
+}: {
+  eventId: string;
+  /** Called after anything that moves the viewer's balance. */
+  onChanged?: () => void;
+}) {
+  const [board, setBoard] = useState<ExchangeBoard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [busy, setBusy] = useState(false);
+  // New-offer form
+  const [marketId, setMarketId] = useState("");
+  const [selectionKey, setSelectionKey] = useState("");
+  const [side, setSide] = useState<ExchangeSide>("back");
+  const [oddsText, setOddsText] = useState("");
+  const [stake, setStake] = useState(10);
+
+  const fetchBoard = useCallback(async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/fantasy/events/${eventId}/exchange`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    const j = await safeJson(res);
+    if (res.ok) {
+      setBoard(j as ExchangeBoard);
+      setError(null);
+    } else {
+      setError((j as { error?: string }).error ?? "Couldn't load the exchange");
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        await fetchBoard();
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchBoard]);
+
+  const market = useMemo(
+    () => board?.markets.find((m) => m.id === marketId) ?? null,
+    [board?.markets, marketId]
+  );
+  const selection = market?.selections.find((s) => s.key === selectionKey) ?? null;
+  const odds = parseExchangeOdds(oddsText);
+
+  const openNew = () => {
+    const first = board?.markets[0];
+    setMarketId(first?.id ?? "");
+    setSelectionKey(first?.selections[0]?.key ?? "");
+    setOddsText(first?.selections[0] ? first.selections[0].house_odds.toFixed(2) : "");
+    setSide("back");
+    setStake(10);
+    setMsg(null);
+    setSheet({ kind: "new" });
+  };
+
+  const openTake = (offer: Offer) => {
+    setStake(Math.min(10, offer.remaining));
+    setMsg(null);
+    setSheet({ kind: "take", offer });
+  };
+
+  const send = async (url: string, method: string, body?: unknown, done?: string) => {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(url, {
+        method,
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await safeJson(res);
+      if (!res.ok) {
+        setMsg((j as { error?: string }).error ?? "Something went wrong");
+        return;
+      }
+      setSheet(null);
+      if (done) setMsg(done);
+      await fetchBoard();
+      onChanged?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const postOffer = () =>
+    send(
+      `/api/fantasy/events/${eventId}/exchange`,
+      "POST",
+      { marketId, selectionKey, side, odds: oddsText, stake },
+      "Offer posted"
+    );
+
+  const takeOffer = (offer: Offer) =>
+    send(`/api/fantasy/exchange/${offer.id}`, "POST", { amount: stake }, "Bet matched");
+
+  const cancelOffer = (offer: Offer) =>
+    send(`/api/fantasy/exchange/${offer.id}`, "DELETE", undefined, "Offer withdrawn");
+
+  if (loading) {
+    return <div className="text-sm text-emerald-100/60 text-center py-20">Loading…</div>;
+  }
+  if (!board) {
+    return (
+      <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 px-4 py-6 text-center text-sm text-emerald-100/70">
+        {error ?? "The exchange isn't available for this event."}
+      </div>
+    );
+  }
+
+  const viewerId = board.viewerId;
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-2xl border border-emerald-900/60 bg-gradient-to-br from-[#0b3b21]/90 to-[#07301a]/90 px-4 py-3">
+        <p className="text-[12px] leading-relaxed text-emerald-100/85">
+          Back or lay any open selection at your own price — another member takes the other side, not the house.
+          Unmatched offers lapse when their market closes.
+        </p>
+        <button
+          type="button"
+          onClick={openNew}
+          disabled={board.markets.length === 0}
+          className="mt-2.5 px-4 py-1.5 rounded-full bg-emerald-700 text-[12px] font-semibold text-white hover:bg-emerald-600 disabled:opacity-40"
+        >
+          New offer
+        </button>
+      </div>
+
+      {msg && <div className="text-center text-[11px] font-semibold text-emerald-300">{msg}</div>}
+
+      <section className="rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/40 overflow-hidden">
+        <div className="px-3.5 py-2.5 text-[11px] font-semibold uppercase tracking-[0.16em] text-[#f5e6b0]/80">
+          Open offers
+        </div>
+        <div className="px-2.5 pb-2.5 space-y-1">
+          {board.offers.length === 0 ? (
+            <div className="px-1 py-2 text-[11px] text-emerald-200/50">No open offers. Post the first one.</div>
+          ) : (
+            board.offers.map((offer) => {
+              const mine = offer.maker_profile_id === viewerId;
+              return (
+                <div
+                  key={offer.id}
+                  className="flex items-center justify-between gap-2 py-1.5 border-b border-emerald-900/20 last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="text-[12px] text-emerald-100/85 truncate">
+                      {mine ? "You" : offer.maker_name} {offer.side === "back" ? "back" : "lay"}{" "}
+                      <span className="font-semibold text-emerald-50">{offer.selection_label}</span>
+                    </div>
+                    <div className="text-[10px] text-emerald-200/50 truncate">
+                      {offer.market_label} · {offer.remaining}/{offer.size} pts left
+                      {offer.house_odds != null && (
+                        <>
+                          {" · "}house <OddsValue odds={offer.house_odds} />
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {mine ? (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => cancelOffer(offer)}
+                      className="shrink-0 rounded-full border border-red-900/50 px-3 py-1 text-[11px] font-semibold text-red-200/80 hover:text-red-100 disabled:opacity-40"
+                    >
+                      Withdraw
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => openTake(offer)}
+                      className="shrink-0 min-w-[72px] rounded-lg border border-emerald-700/50 bg-emerald-950/40 px-2 py-1 text-center text-[11px] font-bold text-[#f5e6b0] hover:bg-emerald-800/40 active:scale-95"
+                    >
+                      {SIDE_LABEL[takerSide(offer.side)]} {offer.decimal_odds.toFixed(2)}
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </section>
+
+      {board.matches.length > 0 && (
+        <section className="rounded-2xl border border-emerald-900/60 bg-[#0b3b21]/40 overflow-hidden">
+          <div className="px-3.5 py-2.5 text-[11px] font-semibold uppercase tracking-[0.16em] text-[#f5e6b0]/80">
+            Your exchange bets
+          </div>
+          <div className="px-2.5 pb-2.5 space-y-1">
+            {board.matches.map((m) => {
+              const pos = exchangePosition(m, viewerId);
+              if (!pos) return null;
+              const other = pos.side === "back" ? m.layer_name : m.backer_name;
+              return (
+                <div
+                  key={m.id}
+                  className="flex items-center justify-between gap-2 py-1.5 border-b border-emerald-900/20 last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="text-[12px] text-emerald-100/85 truncate">
+                      {SIDE_LABEL[pos.side]} <span className="font-semibold text-emerald-50">{m.selection_label}</span>{" "}
+                      @ {m.decimal_odds.toFixed(2)}
+                    </div>
+                    <div className="text-[10px] text-emerald-200/50 truncate">
+                      {m.market_label} · vs {other} · risk {pos.risk} to win {pos.toWin}
+                    </div>
+                  </div>
+                  <span
+                    className={`shrink-0 text-[11px] font-bold ${
+                      pos.result == null
+                        ? "text-emerald-200/60"
+                        : pos.result > 0
+                        ? "text-emerald-300"
+                        : pos.result < 0
+                        ? "text-red-300"
+                        : "text-emerald-200/60"
+                    }`}
+                  >
+                    {pos.result == null ? "Open" : m.status === "void" ? "Void" : `${pos.result > 0 ? "+" : ""}${pos.result}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {sheet && typeof document !== "undefined" &&
+        createPortal(
+          <div className="fixed inset-0 z-50 flex items-end">
+            <button type="button" aria-label="Close" onClick={() => setSheet(null)} className="absolute inset-0 bg-black/60" />
+            <div className="relative w-full max-w-sm mx-auto rounded-t-3xl border border-emerald-900/70 bg-[#07301a] px-5 pt-5 pb-[calc(env(safe-area-inset-bottom)+20px)]">
+              {sheet.kind === "new" ? (
+                <>
+                  <div className="text-sm font-bold text-[#f5e6b0] mb-3">New exchange offer</div>
+                  <div className="space-y-2 mb-3">
+                    <select
+                      value={marketId}
+                      onChange={(e) => {
+                        const next = board.markets.find((m) => m.id === e.target.value);
+                        setMarketId(e.target.value);
+                        setSelectionKey(next?.selections[0]?.key ?? "");
+                        if (next?.selections[0]) setOddsText(next.selections[0].house_odds.toFixed(2));
+                      }}
+                      className="w-full rounded-lg border border-emerald-900/60 bg-[#042713] px-2 py-1.5 text-[12px] text-emerald-50"
+                    >
+                      {board.markets.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={selectionKey}
+                      onChange={(e) => setSelectionKey(e.target.value)}
+                      className="w-full rounded-lg border border-emerald-900/60 bg-[#042713] px-2 py-1.5 text-[12px] text-emerald-50"
+                    >
+                      {(market?.selections ?? []).map((s) => (
+                        <option key={s.key} value={s.key}>{s.label}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-1.5">
+                      {(["back", "lay"] as const).map((s) => (
+                        <button
+                          key={s}
+                          type="button"
+                          onClick={() => setSide(s)}
+                          className={`flex-1 rounded-full px-3 py-1.5 text-[11px] font-semibold ${
+                            side === s
+                              ? "bg-[#f5e6b0] text-[#042713]"
+                              : "border border-emerald-900/60 text-emerald-100/70"
+                          }`}
+                        >
+                          {SIDE_LABEL[s]}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={oddsText}
+                        onChange={(e) => setOddsText(e.target.value)}
+                        placeholder="Odds, e.g. 4.0 or 3/1"
+                        className="flex-1 rounded-lg border border-emerald-900/60 bg-[#042713] px-2 py-1.5 text-[12px] text-emerald-50"
+                      />
+                      {selection && (
+                        <span className="shrink-0 text-[10px] text-emerald-200/50">
+                          house <OddsValue odds={selection.house_odds} />
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <StakeStepper stake={stake} setStake={setStake} max={null} label="backer stake" />
+                  <div className="mb-3 text-center text-[11px] text-emerald-200/60">
+                    {odds == null ? (
+                      "Enter odds between 1.01 and 1000"
+                    ) : (
+                      <>
+                        You risk <span className="font-bold text-[#f5e6b0]">{exposure(side, stake, odds)} pts</span> to win{" "}
+                        <span className="font-bold text-[#f5e6b0]">
+                          {side === "back" ? layerLiability(stake, odds) : stake} pts
+                        </span>
+                      </>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={postOffer}
+                    disabled={busy || odds == null || !selectionKey}
+                    className="w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    {busy ? "Posting…" : `Post ${side} offer`}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div className="text-sm font-bold text-[#f5e6b0] mb-0.5">
+                    {SIDE_LABEL[takerSide(sheet.offer.side)]} {sheet.offer.selection_label}
+                  </div>
+                  <div className="text-[11px] text-emerald-200/60 mb-4">
+                    {sheet.offer.market_label} @ {sheet.offer.decimal_odds.toFixed(2)} · vs {sheet.offer.maker_name}
+                  </div>
+                  <StakeStepper stake={stake} setStake={setStake} max={sheet.offer.remaining} label="backer stake" />
+                  <div className="mb-3 text-center text-[11px] text-emerald-200/60">
+                    You risk{" "}
+                    <span className="font-bold text-[#f5e6b0]">
+                      {exposure(takerSide(sheet.offer.side), stake, sheet.offer.decimal_odds)} pts
+                    </span>{" "}
+                    to win{" "}
+                    <span className="font-bold text-[#f5e6b0]">
+                      {sheet.offer.side === "lay" ? layerLiability(stake, sheet.offer.decimal_odds) : stake} pts
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => takeOffer(sheet.offer)}
+                    disabled={busy}
+                    className="w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    {busy ? "Matching…" : `Take ${stake} pts`}
+                  </button>
+                </>
+              )}
+              {msg && <div className="mt-2 text-center text-[11px] text-red-300">{msg}</div>}
+            </div>
+          </div>,
+          document.body
+        )}
+    </div>
+  );
+}
+
+function StakeStepper({
+  stake,
+  setStake,
+  max,
+  label,
+}: {
+  stake: number;
+  setStake: (fn: (s: number) => number) => void;
+  max: number | null;
+  label: string;
+}) {
+  const clamp = (n: number) => Math.max(1, max == null ? n : Math.min(max, n));
+  return (
+    <div className="flex items-center justify-center gap-4 mb-3">
+      <button type="button" onClick={() => setStake((s) => clamp(s - 5))} className="h-10 w-10 rounded-full border border-emerald-900/60 text-lg text-emerald-200">−</button>
+      <div className="min-w-[90px] text-center">
+        <div className="text-2xl font-bold text-emerald-50">{stake}</div>
+        <div className="text-[10px] text-emerald-200/50">{label}{max != null ? ` (max ${max})` : ""}</div>
+      </div>
+      <button type="button" onClick={() => setStake((s) => clamp(s + 5))} className="h-10 w-10 rounded-full border border-emerald-900/60 text-lg text-emerald-200">+</button>
+    </div>
+  );
+}
@@ -4,9 +4,17 @@ import { useCallback, useEffect, useState } from "react";
 import { createPortal } from "react-dom";
 import { requireViewerSession } from "@/lib/auth/requireViewerSession";
 import { safeJson } from "@/lib/fantasy/safeJson";
+import { eachWayReturns, placeOdds, type PlaceTerms } from "@/lib/fantasy/eachWayRules";
 import { OddsValue } from "@/components/fantasy/OddsValue";
 
-type Selection = { key: string; label: string; decimal_odds: number; probability: number; snapshot_id: string };
+type Selection = {
+  key: string;
+  label: string;
+  decimal_odds: number;
+  probability: number;
+  snapshot_id: string;
+  each_way?: PlaceTerms | null;
+};
 type Market = { id: string; market_type: string; label: string; selections: Selection[] };
 export type SeasonBoard = {
   generated: boolean;
@@ -22,7 +30,8 @@ type Picking = { marketId: string; selection: Selection; marketLabel: string };
  * Season markets board body — narrative, market list, and the stake bottom
  * sheet. Fetches its own data from the season odds route so it can be dropped
  * into both the standalone season page and the event board's Season tab.
- * `onLoaded` surfaces the loaded board (used for the page title).
+ * `onLoaded` surfaces the loaded board (used for the page title). The season
+ * winner can be backed each-way when the group offers place terms.
  */
 export function SeasonMarketsPanel({
   seasonId,
@@ -35,6 +44,7 @@ export function SeasonMarketsPanel({
   const [loading, setLoading] = useState(true);
   const [picking, setPicking] = useState<Picking | null>(null);
   const [stake, setStake] = useState(10);
+  const [eachWay, setEachWay] = useState(false);
   const [placing, setPlacing] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
 
@@ -81,6 +91,7 @@ export function SeasonMarketsPanel({
           selectionKey: picking.selection.key,
           snapshotId: picking.selection.snapshot_id,
           stake,
+          eachWay: eachWay && !!picking.selection.each_way,
         }),
       });
       const j = await safeJson(res);
@@ -96,6 +107,17 @@ export function SeasonMarketsPanel({
     }
   };
 
+  // Each-way preview: `stake` on the win and on the place, so it costs double.
+  const ewTerms = eachWay ? picking?.selection.each_way ?? null : null;
+  const ewReturns =
+    picking && ewTerms
+      ? eachWayReturns(
+          stake,
+          picking.selection.decimal_odds,
+          placeOdds(picking.selection.decimal_odds, ewTerms.fraction)
+        )
+      : null;
+
   if (loading) {
     return <div className="text-sm text-emerald-100/60 text-center py-20">Loading…</div>;
   }
@@ -133,7 +155,10 @@ export function SeasonMarketsPanel({
                   <button
                     type="button"
                     disabled={board.state?.is_final}
-                    onClick={() => setPicking({ marketId: market.id, selection: sel, marketLabel: market.label })}
+                    onClick={() => {
+                      setEachWay(false);
+                      setPicking({ marketId: market.id, selection: sel, marketLabel: market.label });
+                    }}
                     className="shrink-0 min-w-[58px] rounded-lg border border-emerald-700/50 bg-emerald-950/40 px-2 py-1 text-center text-[11px] font-bold text-[#f5e6b0] hover:bg-emerald-800/40 active:scale-95 disabled:opacity-40"
                   >
                     <OddsValue odds={sel.decimal_odds} />
@@ -162,9 +187,33 @@ export function SeasonMarketsPanel({
                 </div>
                 <button type="button" onClick={() => setStake((s) => s + 5)} className="h-10 w-10 rounded-full border border-emerald-900/60 text-lg text-emerald-200">+</button>
               </div>
+              {picking.selection.each_way && (
+                <div className="mb-3 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => setEachWay((v) => !v)}
+                    className={`rounded-full border px-3 py-1 text-[10px] font-semibold ${
+                      eachWay
+                        ? "border-emerald-600 bg-emerald-700 text-white"
+                        : "border-emerald-900/60 text-emerald-200/60"
+                    }`}
+                  >
+                    Each-way · 1/{picking.selection.each_way.fraction} odds, top {picking.selection.each_way.places}
+                  </button>
+                </div>
+              )}
               <div className="mb-3 text-center text-[11px] text-emerald-200/60">
-                Returns{" "}
-                <span className="font-bold text-[#f5e6b0]">{(stake * picking.selection.decimal_odds).toFixed(2)} pts</span>
+                {ewReturns ? (
+                  <>
+                    Win returns <span className="font-bold text-[#f5e6b0]">{ewReturns.total.toFixed(2)} pts</span>
+                    {" · "}place only <span className="font-bold text-[#f5e6b0]">{ewReturns.place.toFixed(2)} pts</span>
+                  </>
+                ) : (
+                  <>
+                    Returns{" "}
+                    <span className="font-bold text-[#f5e6b0]">{(stake * picking.selection.decimal_odds).toFixed(2)} pts</span>
+                  </>
+                )}
               </div>
               <button
                 type="button"
@@ -172,7 +221,9 @@ export function SeasonMarketsPanel({
                 disabled={placing}
                 className="w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
               >
-                {placing ? "Placing…" : `Place season pick — ${stake} pts`}
+                {placing
+                  ? "Placing…"
+                  : `Place season pick — ${ewReturns ? stake * 2 : stake} pts`}
               </button>
             </div>
           </div>,
@@ -7,8 +7,8 @@ import { LEGAL_LINKS } from '@/lib/legal';
 
 const ACCEPT_KEY = 'ciaga.tos.accepted';
 
-// Routes where we never show the gate (pre-auth / onboarding flows).
-const SKIP_PREFIXES = ['/auth', '/onboarding', '/invite'];
+// Routes where we never show the gate (pre-auth / onboarding flows, clubhouse displays).
+const SKIP_PREFIXES = ['/auth', '/onboarding', '/invite', '/kiosk'];
 
 /**
  * Prompts a signed-in user to accept the current Terms & Privacy Policy when
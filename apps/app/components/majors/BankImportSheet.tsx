@@ -0,0 +1,322 @@
+"use client";
+
+import { useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import {
+  allocateChosen,
+  suggestAllocation,
+  type BankLineSuggestion,
+  type BankMember,
+  type OutstandingCharge,
+} from "@/lib/majors/bankReconciliation";
+
+type Props = {
+  groupId: string;
+  currencySymbol: string;
+  onClose: () => void;
+  /** Called after lines are posted so the balances can be reloaded. */
+  onPosted: () => void;
+};
+
+type Preview = {
+  suggestions: BankLineSuggestion[];
+  members: BankMember[];
+  outstanding: OutstandingCharge[];
+  balances: Record<string, number>;
+  skipped_debits: number;
+  errors: string[];
+};
+
+/** The treasurer's choice for one credit on the statement. */
+type Choice = { include: boolean; profileId: string; chargeIds: string[] };
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+/**
+ * Bank statement import: upload a CSV / OFX export, check the member and
+ * charges suggested for each payment in, then post the lot to the ledger.
+ */
+export function BankImportSheet({ groupId, currencySymbol, onClose, onPosted }: Props) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ posted: number; already_imported: number; failed: number } | null>(null);
+
+  const money = (n: number) => `${currencySymbol}${n.toFixed(2)}`;
+
+  const onFile = async (file: File) => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch(`/api/majors/groups/${groupId}/bank-import`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+        body: form,
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error ?? "Couldn't read the statement");
+      const p = j as Preview;
+      setPreview(p);
+      setChoices(
+        Object.fromEntries(
+          p.suggestions.map((s) => [
+            s.line.key,
+            { include: !!s.profile_id && !s.already_imported, profileId: s.profile_id ?? "", chargeIds: s.allocation?.settles ?? [] },
+          ])
+        )
+      );
+    } catch (e: any) {
+      setError(e?.message ?? "Couldn't read the statement");
+      setPreview(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chargesFor = (profileId: string) => (preview?.outstanding ?? []).filter((c) => c.profile_id === profileId);
+
+  const setMember = (s: BankLineSuggestion, profileId: string) => {
+    const alloc = profileId
+      ? suggestAllocation(s.line.amount, chargesFor(profileId), `${s.line.description} ${s.line.reference}`)
+      : null;
+    setChoices((prev) => ({ ...prev, [s.line.key]: { include: !!profileId, profileId, chargeIds: alloc?.settles ?? [] } }));
+  };
+
+  const toggleCharge = (key: string, chargeId: string) => {
+    setChoices((prev) => {
+      const c = prev[key];
+      const chargeIds = c.chargeIds.includes(chargeId) ? c.chargeIds.filter((id) => id !== chargeId) : [...c.chargeIds, chargeId];
+      return { ...prev, [key]: { ...c, chargeIds } };
+    });
+  };
+
+  const toggleInclude = (key: string) => {
+    setChoices((prev) => ({ ...prev, [key]: { ...prev[key], include: !prev[key].include } }));
+  };
+
+  /** What posting this line would do, or an error when the picks don't fit. */
+  const outcome = (s: BankLineSuggestion, c: Choice): string => {
+    const outstanding = chargesFor(c.profileId);
+    const chosen = outstanding.filter((o) => c.chargeIds.includes(o.id));
+    const alloc = allocateChosen(s.line.amount, chosen, outstanding);
+    if (!alloc) return "Ticked charges come to more than this payment";
+    const parts: string[] = [];
+    if (alloc.settles.length > 0) parts.push(`Settles ${alloc.settles.length} charge${alloc.settles.length !== 1 ? "s" : ""}`);
+    if (alloc.remainder > 0) {
+      const towards = outstanding.find((o) => o.id === alloc.part_payment_towards);
+      parts.push(towards ? `${money(alloc.remainder)} part payment towards ${towards.name}` : `${money(alloc.remainder)} carried as credit`);
+    }
+    return parts.join(" · ");
+  };
+
+  const ready = (preview?.suggestions ?? []).filter((s) => {
+    const c = choices[s.line.key];
+    if (!c?.include || !c.profileId || s.already_imported) return false;
+    const outstanding = chargesFor(c.profileId);
+    return allocateChosen(s.line.amount, outstanding.filter((o) => c.chargeIds.includes(o.id)), outstanding) != null;
+  });
+
+  const post = async () => {
+    if (ready.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/majors/groups/${groupId}/bank-import/confirm`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lines: ready.map((s) => {
+            const c = choices[s.line.key];
+            return { line: s.line, profile_id: c.profileId, player_charge_ids: c.chargeIds };
+          }),
+        }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error ?? "Posting failed");
+      setResult({ posted: j.posted ?? 0, already_imported: j.already_imported ?? 0, failed: j.failed ?? 0 });
+      const firstError = (j.results ?? []).find((r: any) => r.status === "error");
+      if (firstError) setError(firstError.error ?? "Some lines failed to post");
+      setPreview(null);
+      onPosted();
+    } catch (e: any) {
+      setError(e?.message ?? "Posting failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div>
+          <div className="text-sm font-semibold text-emerald-50">Import Bank Statement</div>
+          <p className="text-[11px] text-emerald-200/55 mt-0.5">
+            Upload a CSV or OFX export from your bank. Payments in are matched to members by name and reference;
+            check each one before posting. Lines already imported are skipped.
+          </p>
+        </div>
+
+        {!preview && (
+          <label className="block w-full py-3 rounded-full border border-dashed border-emerald-700/60 text-sm font-semibold text-emerald-200 text-center cursor-pointer">
+            {busy ? "Reading…" : "Choose statement file"}
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              className="hidden"
+              disabled={busy}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) onFile(f);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        )}
+
+        {result && (
+          <div className="rounded-xl border border-emerald-800/50 bg-emerald-900/20 px-3 py-2 text-xs text-emerald-100">
+            Posted {result.posted} payment{result.posted !== 1 ? "s" : ""}
+            {result.already_imported > 0 && ` · ${result.already_imported} already imported`}
+            {result.failed > 0 && ` · ${result.failed} failed`}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <div className="text-[10px] uppercase tracking-wider text-emerald-200/60">
+              {preview.suggestions.length} payment{preview.suggestions.length !== 1 ? "s" : ""} in
+              {preview.skipped_debits > 0 && ` · ${preview.skipped_debits} outgoing ignored`}
+            </div>
+            {preview.errors.length > 0 && (
+              <div className="text-[11px] text-amber-300/80">{preview.errors.slice(0, 3).join(" · ")}</div>
+            )}
+
+            {preview.suggestions.map((s) => {
+              const c = choices[s.line.key];
+              const charges = c?.profileId ? chargesFor(c.profileId) : [];
+              const balance = c?.profileId ? preview.balances[c.profileId] ?? 0 : 0;
+              const matched = new Set(s.matches.map((m) => m.profile_id));
+              return (
+                <div
+                  key={s.line.key}
+                  className={`rounded-xl border px-3 py-2.5 space-y-2 ${
+                    s.already_imported ? "border-emerald-900/30 bg-[#0b3b21]/30 opacity-60" : "border-emerald-900/50 bg-[#0b3b21]/60"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-emerald-50 truncate">{s.line.description || "—"}</div>
+                      <div className="text-[10px] text-emerald-200/45 truncate">
+                        {s.line.date ?? "No date"}
+                        {s.line.reference && ` · ${s.line.reference}`}
+                      </div>
+                    </div>
+                    <span className="text-sm font-bold text-emerald-400 shrink-0">{money(s.line.amount)}</span>
+                  </div>
+
+                  {s.already_imported ? (
+                    <div className="text-[11px] text-emerald-200/50">Already imported</div>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!!c?.include}
+                          disabled={!c?.profileId}
+                          onChange={() => toggleInclude(s.line.key)}
+                          className="accent-emerald-500"
+                        />
+                        <select
+                          value={c?.profileId ?? ""}
+                          onChange={(e) => setMember(s, e.target.value)}
+                          className={inputCls}
+                        >
+                          <option value="">Not a member payment</option>
+                          {s.matches.map((m) => (
+                            <option key={m.profile_id} value={m.profile_id}>
+                              {m.name ?? "Unknown"} ({Math.round(m.score * 100)}% match)
+                            </option>
+                          ))}
+                          {preview.members
+                            .filter((m) => !matched.has(m.profile_id))
+                            .map((m) => (
+                              <option key={m.profile_id} value={m.profile_id}>
+                                {m.name ?? "Unknown"}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+
+                      {c?.profileId && (
+                        <div className="space-y-1">
+                          <div className="text-[10px] text-emerald-200/45">
+                            {balance > 0 ? `Owes ${money(balance)}` : balance < 0 ? `In credit ${money(-balance)}` : "Settled"}
+                          </div>
+                          {charges.length === 0 ? (
+                            <div className="text-[11px] text-emerald-200/50">No outstanding charges.</div>
+                          ) : (
+                            charges.map((o) => (
+                              <label key={o.id} className="flex items-center gap-2 text-[11px] text-emerald-100/80">
+                                <input
+                                  type="checkbox"
+                                  checked={c.chargeIds.includes(o.id)}
+                                  onChange={() => toggleCharge(s.line.key, o.id)}
+                                  className="accent-emerald-500"
+                                />
+                                <span className="flex-1 truncate">
+                                  {o.name}
+                                  {o.event_name && <span className="text-emerald-200/40"> · {o.event_name}</span>}
+                                </span>
+                                <span className="shrink-0">{money(o.amount)}</span>
+                              </label>
+                            ))
+                          )}
+                          <div className="text-[11px] text-[#f5e6b0]">{outcome(s, c)}</div>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="flex gap-2 pb-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200"
+          >
+            {preview ? "Cancel" : "Done"}
+          </button>
+          {preview && (
+            <button
+              type="button"
+              onClick={post}
+              disabled={busy || ready.length === 0}
+              className="flex-1 py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+            >
+              {busy ? "Posting…" : `Post ${ready.length} payment${ready.length !== 1 ? "s" : ""}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import {
+  BRACKET_SEEDING_LABELS,
+  BRACKET_TEMPLATE_LABELS,
+  parseBracketConfig,
+  type BracketConfig,
+  type BracketSeeding,
+  type BracketSide,
+  type BracketTemplate,
+} from "@/lib/majors/knockoutBracket";
+import type { MatchplayFixture, MatchplayStage } from "@/lib/majors/types";
+
+type BracketFixture = MatchplayFixture & { home_entry?: any; away_entry?: any };
+
+type Props = {
+  eventId: string;
+  stages: MatchplayStage[];
+  fixtures: BracketFixture[];
+  /** The event's stored bracket_config. */
+  config: Partial<BracketConfig> | null | undefined;
+  isAdmin: boolean;
+  entrantCount: number;
+  myProfileId: string | null;
+  onChanged: () => void;
+};
+
+const SIDE_ORDER: BracketSide[] = ["winners", "losers", "plate", "final"];
+
+/** "Final", "Semi-finals", … counted back from the last round of a knockout side. */
+function roundLabel(side: BracketSide, round: number, lastRound: number): string {
+  if (side === "final") return round > 1 ? "Reset Final" : "Grand Final";
+  if (side === "losers") return round === lastRound ? "Losers Final" : `Round ${round}`;
+  const fromEnd = lastRound - round;
+  if (fromEnd === 0) return "Final";
+  if (fromEnd === 1) return "Semi-finals";
+  if (fromEnd === 2) return "Quarter-finals";
+  return `Round ${round}`;
+}
+
+/**
+ * Knockout bracket: each side (main draw or winners, losers, plate, grand
+ * final) drawn as columns of rounds. Organisers draw the bracket here —
+ * template, seeding and whether to re-seed between rounds.
+ */
+export function BracketView({ eventId, stages, fixtures, config, isAdmin, entrantCount, myProfileId, onChanged }: Props) {
+  const current = parseBracketConfig(config);
+  const [template, setTemplate] = useState<BracketTemplate>(current.template);
+  const [seeding, setSeeding] = useState<BracketSeeding>(current.seeding);
+  const [reseed, setReseed] = useState(current.reseed);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bracketStages = stages
+    .filter((s) => s.bracket_side)
+    .sort((a, b) => SIDE_ORDER.indexOf(a.bracket_side!) - SIDE_ORDER.indexOf(b.bracket_side!));
+  const hasBracket = bracketStages.length > 0;
+  const started = fixtures.some(
+    (f) => bracketStages.some((s) => s.id === f.stage_id) && (f.status === "completed" || f.status === "live")
+  );
+
+  const send = async (method: "POST" | "DELETE" | "PATCH", body?: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const url = method === "PATCH" ? `/api/majors/events/${eventId}` : `/api/majors/events/${eventId}/bracket`;
+      const res = await fetch(url, {
+        method,
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error ?? "Failed to update bracket");
+      onChanged();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to update bracket");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chip = (selected: boolean) =>
+    `rounded-xl border px-2 py-1.5 text-[10px] ${
+      selected
+        ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+        : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+    }`;
+
+  const drawForm = isAdmin && !started && (
+    <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 p-4 space-y-3">
+      <div className="text-sm font-semibold text-emerald-50">{hasBracket ? "Redraw Bracket" : "Draw Bracket"}</div>
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Format</label>
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(BRACKET_TEMPLATE_LABELS) as BracketTemplate[]).map((t) => (
+            <button key={t} type="button" onClick={() => setTemplate(t)} className={chip(template === t)}>
+              {BRACKET_TEMPLATE_LABELS[t]}
+            </button>
+          ))}
+        </div>
+        {template === "plate" && (
+          <p className="text-[10px] text-emerald-200/45">First-round losers play on in a consolation plate.</p>
+        )}
+        {template === "double" && (
+          <p className="text-[10px] text-emerald-200/45">
+            Losers drop into a losers bracket; its winner meets the winners-bracket champion in a grand final, replayed if the losers-bracket winner takes the first.
+          </p>
+        )}
+      </div>
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Seeding</label>
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(BRACKET_SEEDING_LABELS) as BracketSeeding[]).map((s) => (
+            <button key={s} type="button" onClick={() => setSeeding(s)} className={chip(seeding === s)}>
+              {BRACKET_SEEDING_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-emerald-100/80">
+        <input type="checkbox" checked={reseed} onChange={(e) => setReseed(e.target.checked)} />
+        Re-seed between rounds
+      </label>
+      <button
+        type="button"
+        disabled={busy || entrantCount < 2}
+        onClick={() => send("POST", { template, seeding, reseed, redraw: hasBracket })}
+        className="w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+      >
+        {busy ? "…" : hasBracket ? "Redraw" : "Draw"}
+      </button>
+    </div>
+  );
+
+  if (!hasBracket) {
+    return (
+      <div className="space-y-3">
+        {drawForm}
+        {!isAdmin && <div className="text-sm text-emerald-100/60 text-center py-8">The bracket hasn&apos;t been drawn yet.</div>}
+        {error && <div className="text-sm text-red-400">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-2 px-1 text-[10px] text-emerald-200/55">
+        <span>
+          {BRACKET_TEMPLATE_LABELS[current.template]} · seeded by {BRACKET_SEEDING_LABELS[current.seeding].toLowerCase()}
+        </span>
+        {isAdmin && started ? (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => send("PATCH", { bracket_config: { ...current, reseed: !current.reseed } })}
+            className={chip(current.reseed)}
+          >
+            Re-seed rounds {current.reseed ? "on" : "off"}
+          </button>
+        ) : (
+          current.reseed && <span>Re-seeded each round</span>
+        )}
+      </div>
+
+      {bracketStages.map((stage) => {
+        const side = stage.bracket_side!;
+        const inStage = fixtures.filter((f) => f.stage_id === stage.id);
+        const rounds = [...new Set(inStage.map((f) => f.round_number ?? 1))].sort((a, b) => a - b);
+        const lastRound = rounds[rounds.length - 1] ?? 1;
+        return (
+          <div key={stage.id} className="space-y-2">
+            <div className="text-[10px] uppercase tracking-wider text-emerald-200/60 font-semibold px-1">{stage.name}</div>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {rounds.map((r) => (
+                <div key={r} className="w-44 shrink-0 flex flex-col justify-around gap-2">
+                  <div className="text-[10px] text-emerald-200/50 px-1">{roundLabel(side, r, lastRound)}</div>
+                  {inStage
+                    .filter((f) => (f.round_number ?? 1) === r)
+                    .sort((a, b) => (a.bracket_position ?? 0) - (b.bracket_position ?? 0))
+                    .map((f) => (
+                      <BracketMatch key={f.id} fixture={f} myProfileId={myProfileId} />
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {drawForm}
+      {error && <div className="text-sm text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+function BracketMatch({ fixture, myProfileId }: { fixture: BracketFixture; myProfileId: string | null }) {
+  const isBye = fixture.notes === "Bye" || fixture.status === "cancelled";
+  const decided = fixture.status === "completed" || fixture.status === "walkover";
+  const score =
+    fixture.result_type === "halved"
+      ? "½"
+      : fixture.margin_holes != null && fixture.holes_remaining != null
+      ? `${fixture.margin_holes}&${fixture.holes_remaining}`
+      : fixture.result_type?.startsWith("walkover")
+      ? isBye ? "" : "W/O"
+      : null;
+
+  const row = (entry: any, won: boolean) => {
+    const lost = decided && !won && !!fixture.winning_entry_id;
+    const mine = !!myProfileId && entry?.profile_id === myProfileId;
+    return (
+      <div className={`flex items-center gap-1.5 min-w-0 ${lost ? "opacity-50" : ""}`}>
+        <span className="w-4 shrink-0 text-[9px] text-emerald-200/40 text-right">{entry?.seed ?? ""}</span>
+        <span
+          className={`flex-1 truncate text-[11px] ${
+            won ? "font-bold text-emerald-50" : mine ? "text-[#f5e6b0]" : "text-emerald-100/70"
+          }`}
+        >
+          {entry?.profile?.name ?? (isBye || (decided && !entry) ? "Bye" : "TBD")}
+        </span>
+        {won && score && <span className="shrink-0 text-[10px] font-bold text-[#f5e6b0]">{score}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-2 py-1.5 space-y-1">
+      {row(fixture.home_entry, !!fixture.winning_entry_id && fixture.winning_entry_id === fixture.home_entry_id)}
+      <div className="border-t border-emerald-900/40" />
+      {row(fixture.away_entry, !!fixture.winning_entry_id && fixture.winning_entry_id === fixture.away_entry_id)}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import type { DisplayToken } from "@/lib/majors/types";
+
+type Props = {
+  /** Exactly one of eventId / groupSeasonId. */
+  eventId?: string;
+  groupSeasonId?: string;
+  onClose: () => void;
+};
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+function kioskUrl(token: string) {
+  return `${window.location.origin}/kiosk/${token}`;
+}
+
+/**
+ * Organiser's clubhouse display links: create a login-free kiosk link for a
+ * TV, copy it, and revoke it when the screen is done with.
+ */
+export function DisplayLinksSheet({ eventId, groupSeasonId, onClose }: Props) {
+  const [displays, setDisplays] = useState<DisplayToken[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scopeQuery = eventId ? `event_id=${eventId}` : `group_season_id=${groupSeasonId}`;
+
+  const call = async (url: string, init?: RequestInit) => {
+    const session = await requireViewerSession();
+    if (!session) return null;
+    const res = await fetch(url, {
+      ...init,
+      headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+    });
+    const j = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(j.error ?? "Request failed");
+    return j;
+  };
+
+  const load = async () => {
+    try {
+      const j = await call(`/api/majors/display-tokens?${scopeQuery}`);
+      if (j) setDisplays(j.displays ?? []);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to load displays");
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scopeQuery]);
+
+  const create = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await call("/api/majors/display-tokens", {
+        method: "POST",
+        body: JSON.stringify({ event_id: eventId ?? null, group_season_id: groupSeasonId ?? null, label }),
+      });
+      setLabel("");
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to create display");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    if (!confirm("Revoke this display? Any screen showing it will stop updating.")) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await call(`/api/majors/display-tokens/${id}`, { method: "DELETE" });
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to revoke display");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = (d: DisplayToken) => {
+    navigator.clipboard?.writeText(kioskUrl(d.token));
+    setCopied(d.id);
+    setTimeout(() => setCopied((c) => (c === d.id ? null : c)), 2000);
+  };
+
+  const active = (displays ?? []).filter((d) => !d.revoked_at);
+  const revoked = (displays ?? []).filter((d) => d.revoked_at);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div>
+          <div className="text-sm font-semibold text-emerald-50">Clubhouse Display</div>
+          <p className="text-[11px] text-emerald-200/55 mt-0.5">
+            A full-screen, read-only leaderboard for a TV — no login needed. Anyone with the link can watch, so
+            revoke it when you&apos;re done. Frozen holes stay hidden until you reveal.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">New Display</label>
+          <div className="flex gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Bar TV"
+              maxLength={60}
+              className={inputCls}
+            />
+            <button
+              type="button"
+              onClick={create}
+              disabled={busy}
+              className="shrink-0 px-4 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+            >
+              {busy ? "…" : "Create"}
+            </button>
+          </div>
+        </div>
+
+        {displays === null ? (
+          <div className="text-xs text-emerald-200/50">Loading…</div>
+        ) : active.length === 0 ? (
+          <div className="text-xs text-emerald-200/50">No active displays.</div>
+        ) : (
+          <div className="space-y-2">
+            {active.map((d) => (
+              <div key={d.id} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2.5 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-emerald-50 truncate">{d.label ?? "Display"}</span>
+                  <span className="text-[10px] text-emerald-200/45 shrink-0">
+                    {d.last_seen_at ? `Last seen ${new Date(d.last_seen_at).toLocaleString()}` : "Not opened yet"}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => copy(d)}
+                    className="flex-1 py-1.5 rounded-full border border-emerald-700/60 text-xs font-semibold text-emerald-200"
+                  >
+                    {copied === d.id ? "Copied" : "Copy link"}
+                  </button>
+                  <a
+                    href={`/kiosk/${d.token}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex-1 py-1.5 rounded-full border border-emerald-700/60 text-xs font-semibold text-emerald-200 text-center"
+                  >
+                    Open
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => revoke(d.id)}
+                    disabled={busy}
+                    className="flex-1 py-1.5 rounded-full border border-red-900/60 text-xs font-semibold text-red-300 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {revoked.length > 0 && (
+          <div className="text-[10px] text-emerald-200/40">
+            {revoked.length} revoked display{revoked.length !== 1 ? "s" : ""}
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="pb-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-full py-3 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
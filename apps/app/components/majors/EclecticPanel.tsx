@@ -0,0 +1,429 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { CoursePickerModal } from "@/components/rounds/CoursePickerModal";
+import {
+  ECLECTIC_SCORING_LABELS,
+  type EclecticHandicapMode,
+  type EclecticScoring,
+} from "@/lib/majors/eclectic";
+import type { EclecticCompetition, EclecticLeaderboard } from "@/lib/majors/types";
+
+type Props = {
+  groupSeasonId: string;
+  canManage: boolean;
+};
+
+type EclecticListItem = EclecticCompetition & { course: { id: string; name: string | null } | null };
+type BoardRow = EclecticLeaderboard["rows"][number];
+
+const SCORINGS: EclecticScoring[] = ["net", "gross", "stableford"];
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+const chip = (selected: boolean) =>
+  `rounded-xl border px-2 py-1.5 text-[10px] ${
+    selected
+      ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+      : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+  }`;
+
+const fmtToPar = (n: number) => (n === 0 ? "E" : n > 0 ? `+${n}` : String(n));
+
+const fmtDate = (iso: string) => new Date(iso).toLocaleDateString([], { day: "numeric", month: "short" });
+
+async function authedFetch(url: string, init?: RequestInit) {
+  const session = await requireViewerSession();
+  if (!session) return null;
+  return fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+  });
+}
+
+/** Card total as shown on the board: strokes to par, or stableford points. */
+function totalLabel(row: BoardRow, scoring: EclecticScoring) {
+  return scoring === "stableford" ? `${row.card.total} pts` : fmtToPar(row.card.to_par ?? 0);
+}
+
+/**
+ * Season eclectic tab: the live leaderboard for each eclectic in the season.
+ * Tapping a player shows their best card and the rounds that improved it.
+ */
+export function EclecticPanel({ groupSeasonId, canManage }: Props) {
+  const [eclectics, setEclectics] = useState<EclecticListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [board, setBoard] = useState<EclecticLeaderboard | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [boardLoading, setBoardLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadList = useCallback(async () => {
+    const res = await authedFetch(`/api/majors/group-seasons/${groupSeasonId}/eclectics`);
+    if (res?.ok) {
+      const list = ((await res.json()).eclectics ?? []) as EclecticListItem[];
+      setEclectics(list);
+      setSelectedId((prev) => (prev && list.some((e) => e.id === prev) ? prev : list[0]?.id ?? null));
+    }
+    setLoaded(true);
+  }, [groupSeasonId]);
+
+  useEffect(() => { void loadList(); }, [loadList]);
+
+  useEffect(() => {
+    if (!selectedId) { setBoard(null); return; }
+    let cancelled = false;
+    (async () => {
+      setBoardLoading(true);
+      const res = await authedFetch(`/api/majors/eclectics/${selectedId}`);
+      if (cancelled) return;
+      if (res?.ok) setBoard(await res.json());
+      setBoardLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [selectedId]);
+
+  const setStatus = async (status: "active" | "closed") => {
+    if (!selectedId) return;
+    setBusy(true); setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/eclectics/${selectedId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status }),
+      });
+      if (!res) return;
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to update eclectic"); return; }
+      setBoard((prev) => (prev ? { ...prev, eclectic: { ...prev.eclectic, status } } : prev));
+      await loadList();
+    } finally { setBusy(false); }
+  };
+
+  const remove = async () => {
+    if (!selectedId || !confirm("Delete this eclectic? Linked prize pots will be unlinked.")) return;
+    setBusy(true); setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/eclectics/${selectedId}`, { method: "DELETE" });
+      if (!res) return;
+      if (!res.ok) { const j = await res.json().catch(() => ({})); setError(j.error ?? "Failed to delete eclectic"); return; }
+      setSelectedId(null);
+      await loadList();
+    } finally { setBusy(false); }
+  };
+
+  if (!loaded) return <div className="text-sm text-emerald-100/60 text-center py-8">Loading…</div>;
+
+  const scoring = board?.eclectic.scoring ?? "net";
+
+  return (
+    <div className="space-y-4">
+      {(eclectics.length > 1 || canManage) && (
+        <div className="flex flex-wrap gap-1.5">
+          {eclectics.map((e) => (
+            <button key={e.id} type="button" onClick={() => { setSelectedId(e.id); setExpandedId(null); }} className={chip(selectedId === e.id)}>
+              {e.name}
+            </button>
+          ))}
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => setShowCreate(true)}
+              className="text-[10px] text-emerald-300/70 hover:text-emerald-300 border border-emerald-800/50 rounded-full px-2.5 py-1"
+            >
+              + New Eclectic
+            </button>
+          )}
+        </div>
+      )}
+
+      {eclectics.length === 0 && (
+        <div className="text-sm text-emerald-100/60 text-center py-8">
+          {canManage ? "Start an eclectic to track everyone's best card at a course." : "No eclectic running this season."}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {board && (
+        <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 p-4 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold text-[#f5e6b0] truncate">{board.eclectic.name}</div>
+            {board.eclectic.status === "closed" && (
+              <span className="text-[9px] px-1.5 py-0.5 rounded-full border border-emerald-700/40 text-emerald-300/70">Closed</span>
+            )}
+          </div>
+          <div className="text-[11px] text-emerald-100/60">
+            {board.eclectic.course_name ?? "Course"} · {ECLECTIC_SCORING_LABELS[scoring]}
+            {scoring !== "gross" && ` · ${Number(board.eclectic.allowance_pct)}% allowance`}
+            {scoring === "net" && board.eclectic.handicap_mode === "deduct_total" && " off the total"}
+          </div>
+          <div className="text-[10px] text-emerald-200/45">
+            {board.eclectic.event_rounds_only ? "Season event rounds only" : "Any round at the course this season"}
+            {scoring !== "stableford" && " · Unplayed holes count as double bogey"}
+          </div>
+          {board.can_manage && (
+            <div className="flex gap-1.5 pt-2">
+              <button
+                type="button"
+                onClick={() => setStatus(board.eclectic.status === "closed" ? "active" : "closed")}
+                disabled={busy}
+                className="text-[10px] px-2.5 py-1 rounded-full border border-emerald-700/50 text-emerald-200/70 disabled:opacity-50"
+              >
+                {board.eclectic.status === "closed" ? "Reopen" : "Close"}
+              </button>
+              <button
+                type="button"
+                onClick={remove}
+                disabled={busy}
+                className="text-[10px] px-2 py-1 text-red-400/50 hover:text-red-400 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {boardLoading && !board && <div className="text-sm text-emerald-100/60 text-center py-4">Loading…</div>}
+
+      {board && board.rows.length === 0 && (
+        <div className="text-sm text-emerald-100/60 text-center py-4">No qualifying rounds yet.</div>
+      )}
+
+      {board && board.rows.length > 0 && (
+        <div className="space-y-2">
+          {board.rows.map((row) => {
+            const expanded = expandedId === row.profile_id;
+            return (
+              <div key={row.profile_id} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 overflow-hidden">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expanded ? null : row.profile_id)}
+                  className="w-full flex items-center gap-3 px-3 py-2.5 text-left"
+                >
+                  <span className="w-6 text-center text-xs font-bold text-emerald-200/70 shrink-0">{row.position}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold text-emerald-50 truncate">{row.name ?? "—"}</div>
+                    <div className="text-[10px] text-emerald-200/40">
+                      {row.card.holes_filled}/{board.holes.length} holes · {row.card.rounds_counted} round{row.card.rounds_counted === 1 ? "" : "s"}
+                      {row.card.deducted > 0 && ` · −${row.card.deducted} hcp`}
+                    </div>
+                  </div>
+                  <span className="text-sm font-bold text-[#f5e6b0] shrink-0">{totalLabel(row, scoring)}</span>
+                </button>
+                {expanded && <EclecticCardDetail row={row} holes={board.holes} scoring={scoring} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showCreate && (
+        <CreateEclecticSheet
+          groupSeasonId={groupSeasonId}
+          onClose={() => setShowCreate(false)}
+          onCreated={async (id) => { await loadList(); setSelectedId(id); }}
+        />
+      )}
+    </div>
+  );
+}
+
+function EclecticCardDetail({
+  row,
+  holes,
+  scoring,
+}: {
+  row: BoardRow;
+  holes: EclecticLeaderboard["holes"];
+  scoring: EclecticScoring;
+}) {
+  const best = new Map(row.card.best.map((b) => [b.hole_number, b]));
+  const cellColour = (hole: { par: number }, value: number) => {
+    const delta = scoring === "stableford" ? 2 - value : value - hole.par;
+    return delta < 0 ? "text-[#f5e6b0] font-semibold" : delta === 0 ? "text-emerald-50" : "text-emerald-200/60";
+  };
+
+  return (
+    <div className="border-t border-emerald-900/50 px-3 py-3 space-y-3">
+      <div className="grid grid-cols-9 gap-1">
+        {holes.map((h) => {
+          const b = best.get(h.hole_number);
+          return (
+            <div key={h.hole_number} className="rounded-lg bg-emerald-950/40 py-1 text-center">
+              <div className="text-[9px] text-emerald-200/40">{h.hole_number}</div>
+              <div className={`text-xs ${b ? cellColour(h, b.value) : "text-emerald-200/30"}`}>{b ? b.value : "–"}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {row.card.history.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase tracking-wider text-emerald-200/60">Improvements</div>
+          {[...row.card.history].reverse().map((step) => (
+            <div key={step.round_id} className="flex items-start justify-between gap-2 text-[11px]">
+              <div className="min-w-0">
+                <span className="text-emerald-200/50">{fmtDate(step.played_at)} · </span>
+                <span className="text-emerald-100/80">
+                  {step.holes.map((h) => `H${h.hole_number} ${h.from ?? "–"}→${h.to}`).join(", ")}
+                </span>
+              </div>
+              <span className="text-emerald-200/60 shrink-0">
+                {scoring === "stableford" ? `${step.total_after} pts` : step.total_after}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Sheet({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div className="text-sm font-semibold text-emerald-50">{title}</div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function CreateEclecticSheet({
+  groupSeasonId,
+  onClose,
+  onCreated,
+}: {
+  groupSeasonId: string;
+  onClose: () => void;
+  onCreated: (id: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [course, setCourse] = useState<{ id: string; name: string } | null>(null);
+  const [showPicker, setShowPicker] = useState(false);
+  const [scoring, setScoring] = useState<EclecticScoring>("net");
+  const [allowance, setAllowance] = useState("100");
+  const [handicapMode, setHandicapMode] = useState<EclecticHandicapMode>("per_hole");
+  const [eventRoundsOnly, setEventRoundsOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (!course) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/group-seasons/${groupSeasonId}/eclectics`, {
+        method: "POST",
+        body: JSON.stringify({
+          name: name.trim(),
+          course_id: course.id,
+          scoring,
+          allowance_pct: scoring === "gross" ? 100 : Number(allowance),
+          handicap_mode: scoring === "net" ? handicapMode : "per_hole",
+          event_rounds_only: eventRoundsOnly,
+        }),
+      });
+      if (!res) return;
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to create eclectic"); return; }
+      onCreated(j.eclectic.id);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Sheet title="New Eclectic" onClose={onClose}>
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Name *</label>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Club Eclectic" className={inputCls} />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Course *</label>
+        <button type="button" onClick={() => setShowPicker(true)} className={`${inputCls} text-left`}>
+          {course?.name ?? <span className="text-emerald-200/40">Search for a course…</span>}
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Scoring</label>
+        <div className="flex gap-1.5">
+          {SCORINGS.map((s) => (
+            <button key={s} type="button" onClick={() => setScoring(s)} className={chip(scoring === s)}>
+              {ECLECTIC_SCORING_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {scoring !== "gross" && (
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Handicap allowance (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={allowance}
+            onChange={(e) => setAllowance(e.target.value)}
+            className={inputCls}
+          />
+        </div>
+      )}
+
+      {scoring === "net" && (
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Strokes</label>
+          <div className="flex gap-1.5">
+            <button type="button" onClick={() => setHandicapMode("per_hole")} className={chip(handicapMode === "per_hole")}>
+              Per hole
+            </button>
+            <button type="button" onClick={() => setHandicapMode("deduct_total")} className={chip(handicapMode === "deduct_total")}>
+              Off the total
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-emerald-100/80">
+        <input type="checkbox" checked={eventRoundsOnly} onChange={(e) => setEventRoundsOnly(e.target.checked)} />
+        Only count rounds played in this season&apos;s events
+      </label>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <div className="pb-2">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy || !name.trim() || !course}
+          className="w-full py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {busy ? "…" : "Create Eclectic"}
+        </button>
+      </div>
+
+      <CoursePickerModal
+        open={showPicker}
+        onClose={() => setShowPicker(false)}
+        onSelect={(courseId, courseName) => {
+          setCourse({ id: courseId, name: courseName ?? "Course" });
+          setShowPicker(false);
+        }}
+      />
+    </Sheet>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { formatHI } from "@/lib/rounds/handicapUtils";
+import type { EventEntryRequestWithProfile } from "@/lib/majors/types";
+
+type Props = {
+  eventId: string;
+  /** Called after an approval so the parent can refresh its participant list. */
+  onApproved?: () => void;
+};
+
+/** Organiser's approval queue for events with `entry_approval_required`. */
+export function EntryRequestsPanel({ eventId, onApproved }: Props) {
+  const [requests, setRequests] = useState<EventEntryRequestWithProfile[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const session = await requireViewerSession();
+    if (!session) return;
+    const res = await fetch(`/api/majors/events/${eventId}/entry-requests`, {
+      headers: { Authorization: `Bearer ${session.accessToken}` },
+    });
+    if (res.ok) {
+      const j = await res.json();
+      setRequests(j.requests ?? []);
+    }
+    setLoaded(true);
+  }, [eventId]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const decide = async (requestId: string, action: "approve" | "reject") => {
+    setBusyId(requestId);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/majors/events/${eventId}/entry-requests/${requestId}`, {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ action, reason: action === "reject" ? reason : undefined }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to update request"); return; }
+      setRejectingId(null);
+      setReason("");
+      if (action === "approve") onApproved?.();
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pending = requests.filter((r) => r.status === "pending");
+  if (!loaded || pending.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-sky-800/40 bg-sky-950/20 p-3 space-y-2">
+      <div className="text-[10px] uppercase tracking-[0.16em] text-sky-300/70">
+        Entry Requests · {pending.length}
+      </div>
+      {pending.map((r) => (
+        <div key={r.id} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2 space-y-1.5">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-emerald-50 truncate">{r.profile?.name ?? "Player"}</span>
+            <span className="text-[10px] text-emerald-200/50 shrink-0">
+              HI {r.handicap_index != null ? formatHI(r.handicap_index) : "—"}
+            </span>
+          </div>
+          {r.eligibility_failures.length > 0 && (
+            <div className="flex gap-1 flex-wrap">
+              {r.eligibility_failures.map((f) => (
+                <span key={f.rule} className="text-[10px] px-1.5 py-0.5 rounded-full border border-red-900/50 text-red-300/80">
+                  {f.message}
+                </span>
+              ))}
+            </div>
+          )}
+          {rejectingId === r.id ? (
+            <div className="flex gap-1.5">
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional)"
+                className="flex-1 min-w-0 rounded-lg border border-emerald-800/50 bg-emerald-950/40 px-2 py-1 text-[11px] text-emerald-50 placeholder:text-emerald-200/30 outline-none"
+              />
+              <button type="button" onClick={() => decide(r.id, "reject")} disabled={busyId === r.id}
+                className="shrink-0 rounded-full border border-red-900/50 px-3 py-1 text-[11px] text-red-300 disabled:opacity-50">
+                Reject
+              </button>
+              <button type="button" onClick={() => { setRejectingId(null); setReason(""); }}
+                className="shrink-0 text-[11px] text-emerald-200/50">
+                ✕
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-1.5">
+              <button type="button" onClick={() => decide(r.id, "approve")}
+                disabled={busyId === r.id || r.eligibility_failures.length > 0}
+                className="flex-1 py-1 rounded-full bg-emerald-700 text-[11px] font-semibold text-white hover:bg-emerald-600 disabled:opacity-40">
+                {busyId === r.id ? "…" : "Approve"}
+              </button>
+              <button type="button" onClick={() => setRejectingId(r.id)} disabled={busyId === r.id}
+                className="flex-1 py-1 rounded-full border border-emerald-800/50 text-[11px] text-emerald-200/60 hover:text-emerald-200 disabled:opacity-50">
+                Reject
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <div className="text-[11px] text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import type { HandicapCommitteeConfig } from "@/lib/majors/handicapCommittee";
+import type { HandicapCommitteeListing } from "@/lib/majors/handicapCommitteeData";
+
+type Props = {
+  groupId: string;
+  onClose: () => void;
+};
+
+type ConfigForm = {
+  cutOn: boolean;
+  cutStrokes: string;
+  cutDecay: string;
+  societyOn: boolean;
+  societyWeight: string;
+  societyWindow: string;
+};
+
+type AdjustmentForm = {
+  profileId: string;
+  kind: "manual" | "cap";
+  value: string;
+  reason: string;
+  effectiveFrom: string;
+  expiresAt: string;
+};
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+const labelCls = "text-[10px] uppercase tracking-wider text-emerald-200/60";
+
+const toForm = (c: HandicapCommitteeConfig): ConfigForm => ({
+  cutOn: !!c.winners_cut,
+  cutStrokes: String(c.winners_cut?.strokes ?? 2),
+  cutDecay: String(c.winners_cut?.decay_per_event ?? 0),
+  societyOn: !!c.society_handicap,
+  societyWeight: String(c.society_handicap?.weight_pct ?? 50),
+  societyWindow: String(c.society_handicap?.window_events ?? 5),
+});
+
+const emptyAdjustment = (): AdjustmentForm => ({
+  profileId: "",
+  kind: "manual",
+  value: "",
+  reason: "",
+  effectiveFrom: new Date().toISOString().slice(0, 10),
+  expiresAt: "",
+});
+
+const AUDIT_LABELS: Record<string, string> = {
+  adjustment_created: "Added",
+  adjustment_revoked: "Revoked",
+  config_updated: "Rules changed",
+  applied: "Applied",
+};
+
+const signed = (n: number) => `${n > 0 ? "+" : n < 0 ? "−" : ""}${Math.abs(n)}`;
+
+/**
+ * Handicap committee: the group's winner's cut and society handicap rules,
+ * per-player adjustments and caps with reasons and expiry, and the audit
+ * trail. Changes apply from the next round started.
+ */
+export function HandicapCommitteeSheet({ groupId, onClose }: Props) {
+  const [data, setData] = useState<HandicapCommitteeListing | null>(null);
+  const [configForm, setConfigForm] = useState<ConfigForm | null>(null);
+  const [adjForm, setAdjForm] = useState<AdjustmentForm>(emptyAdjustment);
+  const [revoking, setRevoking] = useState<{ id: string; reason: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const call = useCallback(
+    async (path: string, init?: { method: string; body?: unknown }) => {
+      const session = await requireViewerSession();
+      if (!session) return null;
+      const res = await fetch(`/api/majors/groups/${groupId}/${path}`, {
+        method: init?.method ?? "GET",
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error ?? "Request failed");
+      return j;
+    },
+    [groupId]
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const j = (await call("handicap-committee")) as HandicapCommitteeListing | null;
+      if (!j) return;
+      setData(j);
+      setConfigForm(toForm(j.config));
+    } catch (e: any) {
+      setError(e?.message ?? "Couldn't load the handicap committee");
+    }
+  }, [call]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveConfig = () =>
+    run(async () => {
+      if (!configForm) return;
+      await call("handicap-committee", {
+        method: "PATCH",
+        body: {
+          winners_cut: configForm.cutOn
+            ? { strokes: Number(configForm.cutStrokes), decay_per_event: Number(configForm.cutDecay) || 0 }
+            : null,
+          society_handicap: configForm.societyOn
+            ? { weight_pct: Number(configForm.societyWeight), window_events: Number(configForm.societyWindow) }
+            : null,
+        },
+      });
+    });
+
+  const addAdjustment = () =>
+    run(async () => {
+      const n = Number(adjForm.value);
+      await call("handicap-adjustments", {
+        method: "POST",
+        body: {
+          profile_id: adjForm.profileId,
+          kind: adjForm.kind,
+          ...(adjForm.kind === "cap" ? { cap: n } : { strokes: n }),
+          reason: adjForm.reason,
+          effective_from: adjForm.effectiveFrom || undefined,
+          expires_at: adjForm.expiresAt || undefined,
+        },
+      });
+      setAdjForm(emptyAdjustment());
+    });
+
+  const revoke = () =>
+    run(async () => {
+      if (!revoking) return;
+      await call(`handicap-adjustments/${revoking.id}`, { method: "DELETE", body: { reason: revoking.reason } });
+      setRevoking(null);
+    });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const setCfg = (patch: Partial<ConfigForm>) => configForm && setConfigForm({ ...configForm, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div>
+          <div className="text-sm font-semibold text-emerald-50">Handicap Committee</div>
+          <p className="text-[11px] text-emerald-200/55 mt-0.5">
+            Adjustments apply to playing handicaps from the next round started. The event&apos;s maximum
+            handicap is applied after them.
+          </p>
+        </div>
+
+        {error && <div className="text-xs text-red-300">{error}</div>}
+        {!data || !configForm ? (
+          <div className="text-xs text-emerald-200/50">Loading…</div>
+        ) : (
+          <>
+            {/* Rules */}
+            <div className="space-y-3 rounded-2xl border border-emerald-900/50 bg-[#0b3b21]/60 p-4">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-sm text-emerald-50">Winner&apos;s cut</span>
+                <input type="checkbox" checked={configForm.cutOn} onChange={() => setCfg({ cutOn: !configForm.cutOn })} />
+              </label>
+              {configForm.cutOn && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <div className={labelCls}>Strokes cut</div>
+                    <input className={inputCls} inputMode="decimal" value={configForm.cutStrokes} onChange={(e) => setCfg({ cutStrokes: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <div className={labelCls}>Given back per event</div>
+                    <input className={inputCls} inputMode="decimal" value={configForm.cutDecay} onChange={(e) => setCfg({ cutDecay: e.target.value })} />
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-sm text-emerald-50">Society handicap</span>
+                <input type="checkbox" checked={configForm.societyOn} onChange={() => setCfg({ societyOn: !configForm.societyOn })} />
+              </label>
+              {configForm.societyOn && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <div className={labelCls}>Weight %</div>
+                      <input className={inputCls} inputMode="numeric" value={configForm.societyWeight} onChange={(e) => setCfg({ societyWeight: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <div className={labelCls}>Events</div>
+                      <input className={inputCls} inputMode="numeric" value={configForm.societyWindow} onChange={(e) => setCfg({ societyWindow: e.target.value })} />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-emerald-200/45">
+                    Adds this share of a player&apos;s average net to par per round over their recent group events.
+                  </p>
+                </>
+              )}
+
+              <button
+                type="button"
+                disabled={busy}
+                onClick={saveConfig}
+                className="w-full py-2.5 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-40"
+              >
+                {busy ? "Saving…" : "Save Rules"}
+              </button>
+            </div>
+
+            {/* Add adjustment */}
+            <div className="space-y-2 rounded-2xl border border-emerald-900/50 bg-[#0b3b21]/60 p-4">
+              <div className={labelCls}>Add adjustment</div>
+              <select className={inputCls} value={adjForm.profileId} onChange={(e) => setAdjForm({ ...adjForm, profileId: e.target.value })}>
+                <option value="">Choose member…</option>
+                {data.members.map((m) => (
+                  <option key={m.profile_id} value={m.profile_id}>{m.name ?? "Unknown"}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  className={inputCls}
+                  value={adjForm.kind}
+                  onChange={(e) => setAdjForm({ ...adjForm, kind: e.target.value as AdjustmentForm["kind"] })}
+                >
+                  <option value="manual">Strokes ±</option>
+                  <option value="cap">Cap</option>
+                </select>
+                <input
+                  className={inputCls}
+                  inputMode="decimal"
+                  placeholder={adjForm.kind === "cap" ? "Max PH" : "e.g. -2"}
+                  value={adjForm.value}
+                  onChange={(e) => setAdjForm({ ...adjForm, value: e.target.value })}
+                />
+              </div>
+              <input
+                className={inputCls}
+                placeholder="Reason"
+                value={adjForm.reason}
+                onChange={(e) => setAdjForm({ ...adjForm, reason: e.target.value })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <div className={labelCls}>From</div>
+                  <input type="date" className={inputCls} value={adjForm.effectiveFrom} onChange={(e) => setAdjForm({ ...adjForm, effectiveFrom: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <div className={labelCls}>Expires</div>
+                  <input type="date" className={inputCls} value={adjForm.expiresAt} onChange={(e) => setAdjForm({ ...adjForm, expiresAt: e.target.value })} />
+                </div>
+              </div>
+              <button
+                type="button"
+                disabled={busy || !adjForm.profileId || !adjForm.value || !adjForm.reason.trim()}
+                onClick={addAdjustment}
+                className="w-full py-2 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+
+            {/* Active adjustments */}
+            <div className="space-y-2">
+              <div className={labelCls}>Adjustments</div>
+              {data.adjustments.length === 0 && <div className="text-xs text-emerald-200/50">None yet.</div>}
+              {data.adjustments.map((a) => {
+                const expired = !!a.expires_at && a.expires_at < today;
+                return (
+                  <div
+                    key={a.id}
+                    className={`rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2.5 space-y-1.5 ${expired ? "opacity-60" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm text-emerald-50 truncate">{a.name ?? "Unknown"}</div>
+                        <div className="text-[10px] text-emerald-200/45 truncate">
+                          {a.reason} · from {a.effective_from}
+                          {a.expires_at && ` · ${expired ? "expired" : "until"} ${a.expires_at}`}
+                        </div>
+                      </div>
+                      <span className="text-sm font-bold text-[#f5e6b0] shrink-0">
+                        {a.kind === "cap" ? `Cap ${a.cap}` : signed(Number(a.strokes))}
+                        {a.kind === "winners_cut" && Number(a.decay_per_event) > 0 && (
+                          <span className="text-[10px] font-normal text-emerald-200/50"> ({signed(Number(a.decay_per_event))}/event)</span>
+                        )}
+                      </span>
+                    </div>
+                    {revoking?.id === a.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          className={inputCls}
+                          placeholder="Reason for revoking"
+                          value={revoking.reason}
+                          onChange={(e) => setRevoking({ id: a.id, reason: e.target.value })}
+                        />
+                        <button
+                          type="button"
+                          disabled={busy || !revoking.reason.trim()}
+                          onClick={revoke}
+                          className="px-3 rounded-full bg-emerald-700 text-xs font-semibold text-white disabled:opacity-40"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setRevoking({ id: a.id, reason: "" })}
+                        className="text-[11px] text-emerald-300 underline"
+                      >
+                        Revoke…
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Audit trail */}
+            <div className="space-y-1.5 pb-4">
+              <div className={labelCls}>Audit trail</div>
+              {data.audit.length === 0 && <div className="text-xs text-emerald-200/50">Nothing yet.</div>}
+              {data.audit.map((r) => {
+                const p = r.payload as Record<string, any>;
+                const detail =
+                  r.action === "applied"
+                    ? `PH ${p.base} → ${p.value}${r.event_name ? ` in ${r.event_name}` : ""}`
+                    : r.action === "config_updated"
+                      ? "Winner's cut / society handicap"
+                      : [p.reason, p.kind === "cap" ? `cap ${p.cap}` : p.strokes != null ? signed(Number(p.strokes)) : null]
+                          .filter(Boolean)
+                          .join(" · ");
+                return (
+                  <div key={r.id} className="text-[11px] text-emerald-200/70">
+                    <span className="text-emerald-200/40">{r.created_at.slice(0, 10)}</span>{" "}
+                    <span className="font-semibold text-emerald-100">{AUDIT_LABELS[r.action] ?? r.action}</span>
+                    {r.name && ` · ${r.name}`}
+                    {detail && ` · ${detail}`}
+                    {r.actor_name && <span className="text-emerald-200/40"> by {r.actor_name}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ type Props = {
   revealStyle: LeaderboardRevealStyle;
   revealTopX: number | null;
   scoringModel?: string;
+  /** Enlarges the whole ceremony — the clubhouse display runs it on a TV. */
+  scale?: number;
   onDone: () => void;
 };
 
@@ -778,7 +780,7 @@ function PodiumRevealInner({
 
 // ─── Main component ───────────────────────────────────────────────────────────
 
-export function LeaderboardReveal({ rows, revealStyle, revealTopX, scoringModel, onDone }: Props) {
+export function LeaderboardReveal({ rows, revealStyle, revealTopX, scoringModel, scale, onDone }: Props) {
   const [phase, setPhase] = useState<"podium_anim" | "countdown" | "reveal" | "scroll">(
     revealStyle === "podium" ? "podium_anim" : "countdown"
   );
@@ -856,7 +858,7 @@ export function LeaderboardReveal({ rows, revealStyle, revealTopX, scoringModel,
     : { type: "spring" as const, stiffness: 260, damping: 22 };
 
   return (
-    <div className="fixed inset-0 z-50 flex flex-col bg-[#051a0d]/95 backdrop-blur-sm">
+    <div className="fixed inset-0 z-50 flex flex-col bg-[#051a0d]/95 backdrop-blur-sm" style={scale ? { zoom: scale } : undefined}>
 
       {/* ── Podium animation phase ── */}
       {phase === "podium_anim" && (
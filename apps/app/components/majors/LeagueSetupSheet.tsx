@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import {
+  LEAGUE_TIEBREAKER_LABELS,
+  parseLeagueConfig,
+  type LeagueConfig,
+  type LeagueTiebreaker,
+} from "@/lib/majors/matchplayLeague";
+
+type Props = {
+  eventId: string;
+  /** The event's stored league_config. */
+  config: Partial<LeagueConfig> | null | undefined;
+  /** True once fixtures exist — the sheet then only edits points and tiebreakers. */
+  scheduled: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+/**
+ * Organiser's league setup: the round-robin schedule (legs, start date, days
+ * per round) and the table rules (points, tiebreak order, reminder lead time).
+ * Before fixtures exist it generates them; afterwards it updates the rules.
+ */
+export function LeagueSetupSheet({ eventId, config, scheduled, onClose, onSaved }: Props) {
+  const initial = parseLeagueConfig(config);
+  const [legs, setLegs] = useState<1 | 2>(initial.legs);
+  const [startDate, setStartDate] = useState("");
+  const [roundDays, setRoundDays] = useState(String(initial.round_days));
+  const [reminderDays, setReminderDays] = useState(String(initial.reminder_days));
+  const [points, setPoints] = useState({
+    win: String(initial.points_win),
+    half: String(initial.points_half),
+    loss: String(initial.points_loss),
+  });
+  const [tiebreakers, setTiebreakers] = useState<LeagueTiebreaker[]>(initial.tiebreakers);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allTiebreakers = Object.keys(LEAGUE_TIEBREAKER_LABELS) as LeagueTiebreaker[];
+
+  // Tapping adds a tiebreaker to the end of the order, tapping again removes it.
+  const toggleTiebreaker = (t: LeagueTiebreaker) =>
+    setTiebreakers((prev) => (prev.includes(t) ? prev.filter((x) => x !== t) : [...prev, t]));
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const league_config = parseLeagueConfig({
+        legs,
+        round_days: Number(roundDays),
+        reminder_days: Number(reminderDays),
+        points_win: Number(points.win),
+        points_half: Number(points.half),
+        points_loss: Number(points.loss),
+        tiebreakers,
+      });
+      const headers = { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" };
+      const res = scheduled
+        ? await fetch(`/api/majors/events/${eventId}`, {
+            method: "PATCH",
+            headers,
+            body: JSON.stringify({ league_config }),
+          })
+        : await fetch(`/api/majors/events/${eventId}/fixtures`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ mode: "league_round_robin", league_config, start_date: startDate || null }),
+          });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error ?? "Failed to save league");
+      onSaved();
+      onClose();
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to save league");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chip = (selected: boolean) =>
+    `rounded-xl border px-2 py-1.5 text-[10px] ${
+      selected
+        ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+        : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div className="text-sm font-semibold text-emerald-50">{scheduled ? "League Rules" : "Generate League Fixtures"}</div>
+
+        {!scheduled && (
+          <>
+            <div className="space-y-1">
+              <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Format</label>
+              <div className="flex gap-1.5">
+                <button type="button" onClick={() => setLegs(1)} className={`flex-1 ${chip(legs === 1)}`}>
+                  Play everyone once
+                </button>
+                <button type="button" onClick={() => setLegs(2)} className={`flex-1 ${chip(legs === 2)}`}>
+                  Home & away
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Round 1 Starts</label>
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputCls} />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Days per Round</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={roundDays}
+                  onChange={(e) => setRoundDays(e.target.value)}
+                  className={inputCls}
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-emerald-200/45">
+              {startDate
+                ? "Each round must be played by the end of its window, or it's recorded as a walkover."
+                : "Leave the start date empty to schedule without deadlines."}
+            </p>
+          </>
+        )}
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Points</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(["win", "half", "loss"] as const).map((k) => (
+              <div key={k} className="space-y-0.5">
+                <span className="text-[10px] text-emerald-200/50 capitalize">{k}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={points[k]}
+                  onChange={(e) => setPoints((p) => ({ ...p, [k]: e.target.value }))}
+                  className={inputCls}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Tiebreakers (in order)</label>
+          <div className="flex flex-wrap gap-1.5">
+            {allTiebreakers.map((t) => {
+              const idx = tiebreakers.indexOf(t);
+              return (
+                <button key={t} type="button" onClick={() => toggleTiebreaker(t)} className={chip(idx >= 0)}>
+                  {idx >= 0 ? `${idx + 1}. ` : ""}
+                  {LEAGUE_TIEBREAKER_LABELS[t]}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-emerald-200/45">Players still level after these share the position.</p>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Reminder (days before deadline)</label>
+          <input
+            type="number"
+            min={0}
+            value={reminderDays}
+            onChange={(e) => setReminderDays(e.target.value)}
+            className={inputCls}
+          />
+        </div>
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="flex gap-3 pb-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={busy}
+            className="flex-1 py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {busy ? "…" : scheduled ? "Save" : "Generate"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,607 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { SIDE_SIZE, TEAM_MATCH_FORMAT_LABELS, type TeamMatchFormat } from "@/lib/majors/teamMatch";
+import type { EventRound, TeamMatchBoard } from "@/lib/majors/types";
+
+type Participant = { profile_id: string; profile: { id: string; name: string | null; avatar_url: string | null } | null };
+
+type Props = {
+  eventId: string;
+  participants: Participant[];
+  isAdmin: boolean;
+  eventRounds: EventRound[];
+  /** Called when matches are drawn, so the parent can refresh its tee times. */
+  onChanged?: () => void;
+};
+
+type BoardTeam = TeamMatchBoard["teams"][number];
+type BoardSession = TeamMatchBoard["sessions"][number];
+
+const FORMATS: TeamMatchFormat[] = ["fourball", "foursomes", "singles"];
+
+const inputCls =
+  "w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600";
+
+const chip = (selected: boolean) =>
+  `rounded-xl border px-2 py-1.5 text-[10px] ${
+    selected
+      ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+      : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+  }`;
+
+/** 2.5 → "2½", 0.5 → "½". */
+const fmtPoints = (n: number) => {
+  if (Number.isInteger(n)) return String(n);
+  const whole = Math.floor(n);
+  return n - whole === 0.5 ? `${whole || ""}½` : n.toFixed(1);
+};
+
+async function authedFetch(url: string, init?: RequestInit) {
+  const session = await requireViewerSession();
+  if (!session) return null;
+  return fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Team match (Ryder Cup style) tab: team scoreboard, rosters and sessions.
+ * Organisers set up the teams and sessions; captains submit their pairings
+ * and matches are drawn once both sides are in.
+ */
+export function TeamMatchPanel({ eventId, participants, isAdmin, eventRounds, onChanged }: Props) {
+  const [board, setBoard] = useState<TeamMatchBoard | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [showSetup, setShowSetup] = useState(false);
+  const [showAddSession, setShowAddSession] = useState(false);
+  const [pairingSession, setPairingSession] = useState<BoardSession | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await authedFetch(`/api/majors/events/${eventId}/teams`);
+    if (res?.ok) setBoard(await res.json());
+    setLoaded(true);
+  }, [eventId]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  if (!loaded) return <div className="text-sm text-emerald-100/60 text-center py-8">Loading…</div>;
+
+  const teams = board?.teams ?? [];
+  const [teamA, teamB] = [teams.find((t) => t.team_number === 1), teams.find((t) => t.team_number === 2)];
+  const sb = board?.scoreboard;
+  const canPair = (s: BoardSession) => s.matches.length === 0 && (isAdmin || board?.viewer_captain_of != null);
+
+  return (
+    <div className="space-y-4">
+      {teamA && teamB && sb ? (
+        <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/80 p-4 space-y-2">
+          <div className="grid grid-cols-3 items-center text-center">
+            <div className="text-sm font-semibold text-emerald-50 truncate">{teamA.name}</div>
+            <div className="text-2xl font-bold text-[#f5e6b0]">
+              {fmtPoints(sb.a)} – {fmtPoints(sb.b)}
+            </div>
+            <div className="text-sm font-semibold text-emerald-50 truncate">{teamB.name}</div>
+          </div>
+          <div className="flex justify-between text-[10px] uppercase tracking-wider text-emerald-200/55">
+            <span>Projected {fmtPoints(sb.projected.a)} – {fmtPoints(sb.projected.b)}</span>
+            <span>
+              {sb.clinched
+                ? `${sb.clinched === "a" ? teamA.name : teamB.name} win`
+                : sb.total > 0 ? `${fmtPoints(sb.to_win)} to win` : "No matches yet"}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-emerald-100/60 text-center py-6">
+          {isAdmin ? "Set up the two teams to get started." : "Teams haven't been picked yet."}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setShowSetup(true)}
+            className="flex-1 py-2.5 rounded-full border border-emerald-700/60 text-xs font-semibold text-emerald-200"
+          >
+            {teams.length === 2 ? "Edit Teams" : "Set Up Teams"}
+          </button>
+          {teams.length === 2 && (
+            <button
+              type="button"
+              onClick={() => setShowAddSession(true)}
+              className="flex-1 py-2.5 rounded-full bg-emerald-700 text-xs font-semibold text-white"
+            >
+              Add Session
+            </button>
+          )}
+        </div>
+      )}
+
+      {teams.length === 2 && (
+        <div className="grid grid-cols-2 gap-3">
+          {[teamA!, teamB!].map((t) => (
+            <div key={t.id} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2 space-y-1">
+              <div className="text-[10px] uppercase tracking-wider text-emerald-200/60">{t.name}</div>
+              {t.members.map((m) => (
+                <div key={m.id} className="text-xs text-emerald-50 truncate">
+                  {m.name ?? "Player"}
+                  {m.id === t.captain_profile_id && <span className="text-[#f5e6b0]"> (C)</span>}
+                </div>
+              ))}
+              {t.members.length === 0 && <div className="text-xs text-emerald-100/40">No players</div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(board?.sessions ?? []).map((s) => (
+        <div key={s.id} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-semibold text-emerald-50">{s.name}</div>
+              <div className="text-[10px] text-emerald-200/50">
+                {s.scheduled_at
+                  ? new Date(s.scheduled_at).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })
+                  : "Time TBC"}
+                {" · "}
+                {fmtPoints(s.points_per_match)} pt{s.points_per_match === 1 ? "" : "s"} per match
+              </div>
+            </div>
+            {canPair(s) && (
+              <button
+                type="button"
+                onClick={() => setPairingSession(s)}
+                className="rounded-full border border-emerald-700/60 px-3 py-1.5 text-[11px] font-semibold text-emerald-200"
+              >
+                Pairings
+              </button>
+            )}
+          </div>
+
+          {s.matches.length === 0 ? (
+            <div className="text-[11px] text-emerald-100/50">
+              Waiting on pairings · {teamA?.name}: {s.pairings_submitted[1] ? "in" : "pending"} · {teamB?.name}:{" "}
+              {s.pairings_submitted[2] ? "in" : "pending"}
+            </div>
+          ) : (
+            s.matches.map((m) => {
+              const leader = m.winner === "a" || (m.live && m.live.lead > 0) ? "a"
+                : m.winner === "b" || (m.live && m.live.lead < 0) ? "b" : null;
+              const label = m.status === "completed"
+                ? m.result_text ?? (m.winner === "halved" ? "Halved" : "—")
+                : m.live?.display ?? "Not started";
+              return (
+                <div
+                  key={m.id}
+                  className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2"
+                >
+                  <div className={`text-xs truncate ${leader === "a" ? "font-semibold text-emerald-50" : "text-emerald-100/70"}`}>
+                    {m.side_a.map((p) => p.name ?? "Player").join(" & ")}
+                  </div>
+                  <div className={`text-[11px] font-semibold text-center ${m.status === "completed" ? "text-[#f5e6b0]" : "text-emerald-200/70"}`}>
+                    {label}
+                  </div>
+                  <div className={`text-xs truncate text-right ${leader === "b" ? "font-semibold text-emerald-50" : "text-emerald-100/70"}`}>
+                    {m.side_b.map((p) => p.name ?? "Player").join(" & ")}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      ))}
+
+      {showSetup && (
+        <TeamSetupSheet
+          eventId={eventId}
+          participants={participants}
+          teams={teams}
+          onClose={() => setShowSetup(false)}
+          onSaved={(b) => setBoard(b)}
+        />
+      )}
+      {showAddSession && (
+        <AddSessionSheet
+          eventId={eventId}
+          eventRounds={eventRounds}
+          onClose={() => setShowAddSession(false)}
+          onSaved={load}
+        />
+      )}
+      {pairingSession && board && (
+        <PairingsSheet
+          eventId={eventId}
+          session={pairingSession}
+          teams={teams}
+          captainOf={board.viewer_captain_of}
+          onClose={() => setPairingSession(null)}
+          onSaved={(drawn) => {
+            void load();
+            if (drawn) onChanged?.();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function Sheet({ title, onClose, children }: { title: string; onClose: () => void; children: React.ReactNode }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div className="text-sm font-semibold text-emerald-50">{title}</div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function TeamSetupSheet({
+  eventId,
+  participants,
+  teams,
+  onClose,
+  onSaved,
+}: {
+  eventId: string;
+  participants: Participant[];
+  teams: BoardTeam[];
+  onClose: () => void;
+  onSaved: (board: TeamMatchBoard) => void;
+}) {
+  const existing = (n: 1 | 2) => teams.find((t) => t.team_number === n);
+  const [names, setNames] = useState<Record<1 | 2, string>>({
+    1: existing(1)?.name ?? "",
+    2: existing(2)?.name ?? "",
+  });
+  const [captains, setCaptains] = useState<Record<1 | 2, string>>({
+    1: existing(1)?.captain_profile_id ?? "",
+    2: existing(2)?.captain_profile_id ?? "",
+  });
+  // profile_id → team number; players not in the map are unassigned.
+  const [assigned, setAssigned] = useState<Record<string, 1 | 2>>(() => {
+    const map: Record<string, 1 | 2> = {};
+    for (const t of teams) for (const m of t.members) map[m.id] = t.team_number;
+    return map;
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tap cycles a player: unassigned → team 1 → team 2 → unassigned.
+  const cycle = (pid: string) => {
+    setAssigned((prev) => {
+      const next = { ...prev };
+      if (!next[pid]) next[pid] = 1;
+      else if (next[pid] === 1) next[pid] = 2;
+      else delete next[pid];
+      return next;
+    });
+  };
+
+  const membersOf = (n: 1 | 2) => participants.filter((p) => assigned[p.profile_id] === n);
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/events/${eventId}/teams`, {
+        method: "PUT",
+        body: JSON.stringify({
+          teams: ([1, 2] as const).map((n) => ({
+            team_number: n,
+            name: names[n].trim(),
+            captain_profile_id: captains[n] && assigned[captains[n]] === n ? captains[n] : null,
+            profile_ids: membersOf(n).map((p) => p.profile_id),
+          })),
+        }),
+      });
+      if (!res) return;
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to save teams"); return; }
+      onSaved(j);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Sheet title="Teams" onClose={onClose}>
+      <div className="grid grid-cols-2 gap-3">
+        {([1, 2] as const).map((n) => (
+          <div key={n} className="space-y-2">
+            <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Team {n} *</label>
+            <input
+              value={names[n]}
+              onChange={(e) => setNames((prev) => ({ ...prev, [n]: e.target.value }))}
+              placeholder={n === 1 ? "Europe" : "USA"}
+              className={inputCls}
+            />
+            <select
+              value={captains[n]}
+              onChange={(e) => setCaptains((prev) => ({ ...prev, [n]: e.target.value }))}
+              className={inputCls}
+            >
+              <option value="">Captain…</option>
+              {membersOf(n).map((p) => (
+                <option key={p.profile_id} value={p.profile_id}>{p.profile?.name ?? "Player"}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Players</label>
+        <p className="text-[10px] text-emerald-200/45">Tap a player to move them between teams.</p>
+        <div className="space-y-1">
+          {participants.map((p) => {
+            const team = assigned[p.profile_id];
+            return (
+              <button
+                key={p.profile_id}
+                type="button"
+                onClick={() => cycle(p.profile_id)}
+                className="w-full flex items-center justify-between gap-2 rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2 text-left text-xs text-emerald-50"
+              >
+                <span className="truncate">{p.profile?.name ?? "Player"}</span>
+                <span className={`shrink-0 text-[10px] ${team ? "text-[#f5e6b0]" : "text-emerald-200/40"}`}>
+                  {team ? names[team] || `Team ${team}` : "Unassigned"}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <div className="pb-2">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy || !names[1].trim() || !names[2].trim()}
+          className="w-full py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {busy ? "…" : "Save Teams"}
+        </button>
+      </div>
+    </Sheet>
+  );
+}
+
+function AddSessionSheet({
+  eventId,
+  eventRounds,
+  onClose,
+  onSaved,
+}: {
+  eventId: string;
+  eventRounds: EventRound[];
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [format, setFormat] = useState<TeamMatchFormat>("fourball");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [points, setPoints] = useState("1");
+  const [roundId, setRoundId] = useState<string | null>(() => (eventRounds.length === 1 ? eventRounds[0].id : null));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (!scheduledAt) { setError("Please choose when the session starts"); return; }
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/events/${eventId}/teams/sessions`, {
+        method: "POST",
+        body: JSON.stringify({
+          format,
+          scheduled_at: new Date(scheduledAt).toISOString(),
+          points_per_match: Number(points) || 1,
+          event_round_id: roundId ?? undefined,
+        }),
+      });
+      if (!res) return;
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to add session"); return; }
+      onSaved();
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Sheet title="Add Session" onClose={onClose}>
+      <div className="space-y-1">
+        <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Format</label>
+        <div className="flex gap-1.5">
+          {FORMATS.map((f) => (
+            <button key={f} type="button" onClick={() => setFormat(f)} className={`flex-1 ${chip(format === f)}`}>
+              {TEAM_MATCH_FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {eventRounds.length > 1 && (
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Round</label>
+          <div className="flex flex-wrap gap-1.5">
+            {eventRounds.map((r) => (
+              <button key={r.id} type="button" onClick={() => setRoundId(r.id)} className={chip(roundId === r.id)}>
+                {r.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">First Match *</label>
+          <input type="datetime-local" value={scheduledAt} onChange={(e) => setScheduledAt(e.target.value)} className={inputCls} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Points / Match</label>
+          <input type="number" min={0.5} step={0.5} value={points} onChange={(e) => setPoints(e.target.value)} className={inputCls} />
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <div className="pb-2">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy}
+          className="w-full py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {busy ? "…" : "Add Session"}
+        </button>
+      </div>
+    </Sheet>
+  );
+}
+
+function PairingsSheet({
+  eventId,
+  session,
+  teams,
+  captainOf,
+  onClose,
+  onSaved,
+}: {
+  eventId: string;
+  session: BoardSession;
+  teams: BoardTeam[];
+  captainOf: 1 | 2 | null;
+  onClose: () => void;
+  /** `drawn` is true once both sides are in and matches were created. */
+  onSaved: (drawn: boolean) => void;
+}) {
+  // Organisers who aren't a captain can enter either side's pairings.
+  const [teamNumber, setTeamNumber] = useState<1 | 2>(captainOf ?? 1);
+  const team = teams.find((t) => t.team_number === teamNumber);
+  const size = SIDE_SIZE[session.format];
+  const [pairings, setPairings] = useState<string[][]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const res = await authedFetch(
+        `/api/majors/events/${eventId}/teams/sessions/${session.id}/pairings?team=${teamNumber}`
+      );
+      if (!res || cancelled) return;
+      const j = await res.json().catch(() => ({}));
+      const saved = (j.pairings ?? []) as string[][];
+      const count = Math.max(1, Math.floor((team?.members.length ?? 0) / size));
+      setPairings(saved.length > 0 ? saved : Array.from({ length: count }, () => Array(size).fill("")));
+    })();
+    return () => { cancelled = true; };
+  }, [eventId, session.id, teamNumber, team?.members.length, size]);
+
+  const setSlot = (mi: number, si: number, pid: string) => {
+    setPairings((prev) => prev.map((p, i) => (i === mi ? p.map((x, j) => (j === si ? pid : x)) : p)));
+  };
+
+  const save = async () => {
+    if (pairings.some((p) => p.some((pid) => !pid))) { setError("Fill every slot or remove the match"); return; }
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authedFetch(`/api/majors/events/${eventId}/teams/sessions/${session.id}/pairings`, {
+        method: "PUT",
+        body: JSON.stringify({ team_number: teamNumber, pairings }),
+      });
+      if (!res) return;
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to submit pairings"); return; }
+      onSaved((j.matches_created ?? 0) > 0);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Sheet title={`${session.name} · Pairings`} onClose={onClose}>
+      {captainOf == null && (
+        <div className="flex gap-1.5">
+          {teams.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setTeamNumber(t.team_number)}
+              className={`flex-1 ${chip(teamNumber === t.team_number)}`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] text-emerald-200/45">
+        Match order is paired against the other captain&apos;s list, first against first. Pairings stay hidden until
+        both teams have submitted.
+      </p>
+
+      {pairings.map((p, mi) => (
+        <div key={mi} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2 space-y-1.5">
+          <div className="flex items-center justify-between text-[10px] uppercase tracking-wider text-emerald-200/55">
+            <span>Match {mi + 1}</span>
+            {pairings.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setPairings((prev) => prev.filter((_, i) => i !== mi))}
+                className="text-red-300/70 normal-case tracking-normal"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          {p.map((pid, si) => (
+            <select key={si} value={pid} onChange={(e) => setSlot(mi, si, e.target.value)} className={inputCls}>
+              <option value="">Player…</option>
+              {(team?.members ?? []).map((m) => (
+                <option key={m.id} value={m.id}>{m.name ?? "Player"}</option>
+              ))}
+            </select>
+          ))}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => setPairings((prev) => [...prev, Array(size).fill("")])}
+        className="w-full py-2 rounded-full border border-emerald-800/60 text-xs font-semibold text-emerald-200/80"
+      >
+        + Add Match
+      </button>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <div className="pb-2">
+        <button
+          type="button"
+          onClick={save}
+          disabled={busy || pairings.length === 0}
+          className="w-full py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {busy ? "…" : "Submit Pairings"}
+        </button>
+      </div>
+    </Sheet>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import { requireViewerSession } from "@/lib/auth/requireViewerSession";
+import { formatHI } from "@/lib/rounds/handicapUtils";
+import type { DrawGroup, DrawMode } from "@/lib/majors/teeTimeDraw";
+import type { EventRound } from "@/lib/majors/types";
+
+const MODES: { value: DrawMode; label: string }[] = [
+  { value: "random", label: "Random" },
+  { value: "handicap_low_first", label: "Low HI first" },
+  { value: "handicap_high_first", label: "High HI first" },
+  { value: "avoid_repeats", label: "Avoid repeats" },
+  { value: "shotgun", label: "Two-tee start" },
+];
+
+type Props = {
+  eventId: string;
+  eventRounds: EventRound[];
+  onClose: () => void;
+  /** Called once the draw has been published as tee times. */
+  onPublished: () => void;
+};
+
+/**
+ * Organiser's tee-time draw: preview a draw over all entrants, lock players
+ * into their group, re-roll the rest, then publish it as tee times.
+ */
+export function TeeTimeDrawSheet({ eventId, eventRounds, onClose, onPublished }: Props) {
+  const [roundId, setRoundId] = useState<string | null>(() => (eventRounds.length === 1 ? eventRounds[0].id : null));
+  const [startTime, setStartTime] = useState("");
+  const [intervalMinutes, setIntervalMinutes] = useState("10");
+  const [groupSize, setGroupSize] = useState(4);
+  const [mode, setMode] = useState<DrawMode>("random");
+  const [groups, setGroups] = useState<DrawGroup[] | null>(null);
+  const [repeats, setRepeats] = useState(0);
+  const [locked, setLocked] = useState<Record<string, number>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settings changes invalidate the preview and its group indexes.
+  const resetPreview = () => {
+    setGroups(null);
+    setLocked({});
+  };
+
+  const draw = async () => {
+    if (!startTime) { setError("Please choose the first tee time"); return; }
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/majors/events/${eventId}/tee-times/draw`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode,
+          start_time: new Date(startTime).toISOString(),
+          interval_minutes: Number(intervalMinutes) || 0,
+          group_size: groupSize,
+          locked,
+        }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to draw tee times"); return; }
+      setGroups(j.groups ?? []);
+      setRepeats(j.repeat_pairings ?? 0);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = async () => {
+    if (!groups) return;
+    if (eventRounds.length > 1 && !roundId) { setError("Please select a round"); return; }
+    setBusy(true);
+    setError(null);
+    try {
+      const session = await requireViewerSession();
+      if (!session) return;
+      const res = await fetch(`/api/majors/events/${eventId}/tee-times/draw/publish`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_round_id: roundId ?? undefined,
+          groups: groups.map((g) => ({
+            tee_time: g.tee_time,
+            group_number: g.group_number,
+            start_hole: g.start_hole,
+            profile_ids: g.players.map((p) => p.profile_id),
+          })),
+        }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) { setError(j.error ?? "Failed to publish tee times"); return; }
+      onPublished();
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleLock = (profileId: string, groupIdx: number) => {
+    setLocked((prev) => {
+      const next = { ...prev };
+      if (next[profileId] === groupIdx) delete next[profileId];
+      else next[profileId] = groupIdx;
+      return next;
+    });
+  };
+
+  const chip = (selected: boolean) =>
+    `rounded-xl border px-2 py-1.5 text-[10px] ${
+      selected
+        ? "border-emerald-500 bg-emerald-900/50 text-emerald-50"
+        : "border-emerald-800/40 bg-emerald-900/20 text-emerald-200/60"
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm mx-auto rounded-t-3xl bg-[#071f13] border-t border-emerald-900/70 px-4 pt-5 pb-[env(safe-area-inset-bottom)] space-y-4 max-h-[85dvh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-10 h-1 rounded-full bg-emerald-800/60 mx-auto mb-1" />
+        <div className="text-sm font-semibold text-emerald-50">Draw Tee Times</div>
+
+        {eventRounds.length > 1 && (
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Round *</label>
+            <div className="flex flex-wrap gap-1.5">
+              {eventRounds.map((r) => (
+                <button key={r.id} type="button" onClick={() => setRoundId(r.id)} className={chip(roundId === r.id)}>
+                  {r.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">First Tee Time *</label>
+          <input
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => { setStartTime(e.target.value); resetPreview(); }}
+            className="w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Interval (min)</label>
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={intervalMinutes}
+              onChange={(e) => { setIntervalMinutes(e.target.value); resetPreview(); }}
+              className="w-full rounded-xl border border-emerald-900/60 bg-[#0b3b21]/60 px-3 py-2.5 text-sm text-emerald-50 focus:outline-none focus:border-emerald-600"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Group Size</label>
+            <div className="flex gap-1.5">
+              {[2, 3, 4].map((n) => (
+                <button
+                  key={n}
+                  type="button"
+                  onClick={() => { setGroupSize(n); resetPreview(); }}
+                  className={`flex-1 ${chip(groupSize === n)}`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase tracking-wider text-emerald-200/60">Draw</label>
+          <div className="flex flex-wrap gap-1.5">
+            {MODES.map((m) => (
+              <button
+                key={m.value}
+                type="button"
+                onClick={() => { setMode(m.value); resetPreview(); }}
+                className={chip(mode === m.value)}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          {mode === "avoid_repeats" && (
+            <p className="text-[10px] text-emerald-200/45">
+              Keeps apart players who have already shared a tee time this season.
+            </p>
+          )}
+        </div>
+
+        {groups && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-[10px] text-emerald-200/50">
+              <span>Tap a player to lock them into their group.</span>
+              {mode === "avoid_repeats" && <span>{repeats} repeat pairing{repeats === 1 ? "" : "s"}</span>}
+            </div>
+            {groups.map((g, gi) => (
+              <div key={g.group_number} className="rounded-xl border border-emerald-900/50 bg-[#0b3b21]/60 px-3 py-2 space-y-1">
+                <div className="flex items-center gap-2 text-[11px]">
+                  <span className="uppercase tracking-wider text-emerald-200/55">Group {g.group_number}</span>
+                  <span className="font-semibold text-[#f5e6b0]">
+                    {new Date(g.tee_time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </span>
+                  {g.start_hole != null && <span className="text-emerald-200/50">Tee {g.start_hole}</span>}
+                </div>
+                {g.players.map((p) => {
+                  const isLocked = locked[p.profile_id] === gi;
+                  return (
+                    <button
+                      key={p.profile_id}
+                      type="button"
+                      onClick={() => toggleLock(p.profile_id, gi)}
+                      className="w-full flex items-center justify-between gap-2 text-left text-xs text-emerald-50"
+                    >
+                      <span className="truncate">{isLocked ? "🔒 " : ""}{p.name ?? "Player"}</span>
+                      <span className="shrink-0 text-[10px] text-emerald-200/50">
+                        {p.handicap_index != null ? formatHI(p.handicap_index) : "—"}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="flex gap-3 pb-2">
+          <button
+            type="button"
+            onClick={draw}
+            disabled={busy}
+            className="flex-1 py-3 rounded-full border border-emerald-700/60 text-sm font-semibold text-emerald-200 disabled:opacity-50"
+          >
+            {groups ? "Re-roll" : "Preview"}
+          </button>
+          <button
+            type="button"
+            onClick={publish}
+            disabled={busy || !groups || groups.length === 0}
+            className="flex-1 py-3 rounded-full bg-emerald-700 text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {busy ? "…" : "Publish"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
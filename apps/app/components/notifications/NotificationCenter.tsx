@@ -12,6 +12,7 @@ import {
   Clock,
   DoorOpen,
   Flag,
+  Handshake,
   Ticket,
   Trophy,
   Users,
@@ -41,6 +42,7 @@ const ICONS: Record<string, ComponentType<{ size?: number; className?: string }>
   flag: Flag,
   "flag-checkered": CheckCircle2,
   trophy: Trophy,
+  handshake: Handshake,
   clock: Clock,
   ticket: Ticket,
   bell: Bell,
@@ -17,6 +17,7 @@ import ProfileFeedTab from "@/components/profile/ProfileFeedTab";
 import AcceptableRoundsTab from "@/components/profile/AcceptableRoundsTab";
 import NonAcceptableRoundsTab from "@/components/profile/NonAcceptableRoundsTab";
 import { AccountLegalSection } from "@/components/profile/AccountLegalSection";
+import { CoursePickerModal } from "@/components/rounds/CoursePickerModal";
 
 type User = {
   id: string; // auth.users.id
@@ -34,6 +35,8 @@ type ProfileRow = {
   email?: string | null;
   avatar_url?: string | null;
   gender?: string | null;
+  home_course_id?: string | null;
+  home_course?: { name: string | null } | null;
 };
 
 type HandicapRow = {
@@ -97,6 +100,12 @@ export default function ProfileScreen({ mode, profileId, initialProfile }: Props
   const [savingName, setSavingName] = useState(false);
   const [gender, setGender] = useState<string>((initialProfile as any)?.gender ?? "male");
   const [savingGender, setSavingGender] = useState(false);
+  const [homeCourse, setHomeCourse] = useState<{ id: string; name: string } | null>(
+    initialProfile?.home_course_id
+      ? { id: initialProfile.home_course_id, name: initialProfile.home_course?.name ?? "" }
+      : null
+  );
+  const [showHomeCoursePicker, setShowHomeCoursePicker] = useState(false);
 
   // -------- Self-only: avatar upload --------
   const fileRef = useRef<HTMLInputElement | null>(null);
@@ -574,6 +583,24 @@ export default function ProfileScreen({ mode, profileId, initialProfile }: Props
     }
   };
 
+  // -------- Self-only: save home club (used by event eligibility rules) --------
+  const saveHomeCourse = async (course: { id: string; name: string } | null) => {
+    if (!isMe) return;
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const token = sessionData.session?.access_token;
+      if (!token) return;
+      const res = await fetch("/api/profiles/update", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ home_course_id: course?.id ?? null }),
+      });
+      if (res.ok) setHomeCourse(course);
+    } catch (e) {
+      console.warn("Save home club failed:", e);
+    }
+  };
+
   // -------- Self-only: avatar upload (UPDATED: uses /api/profiles/update) --------
   const onPickFile = () => fileRef.current?.click();
 
@@ -1145,6 +1172,40 @@ export default function ProfileScreen({ mode, profileId, initialProfile }: Props
             </div>
           )}
 
+          {/* Home club (self only) */}
+          {isMe && (
+            <div className="mt-2 flex items-center gap-2">
+              <span className="text-[10px] uppercase tracking-wider text-emerald-200/50">Home club</span>
+              <button
+                type="button"
+                onClick={() => setShowHomeCoursePicker(true)}
+                className="px-3 py-1 rounded-full text-xs font-medium border border-emerald-900/60 text-emerald-200/80 hover:border-emerald-700/60 max-w-[180px] truncate"
+              >
+                {homeCourse ? homeCourse.name || "Course" : "Set home club"}
+              </button>
+              {homeCourse && (
+                <button
+                  type="button"
+                  onClick={() => saveHomeCourse(null)}
+                  className="text-[11px] text-emerald-200/40 hover:text-emerald-200"
+                  aria-label="Clear home club"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          )}
+          {showHomeCoursePicker && (
+            <CoursePickerModal
+              open={true}
+              onClose={() => setShowHomeCoursePicker(false)}
+              onSelect={(id, cname) => {
+                setShowHomeCoursePicker(false);
+                if (id) void saveHomeCourse({ id, name: cname ?? "" });
+              }}
+            />
+          )}
+
           {/* Follow button (public only) */}
           {canFollow && (
             <Button
@@ -0,0 +1,78 @@
+"use client";
+
+import type { Participant, BbbAward } from "@/lib/rounds/hooks/useRoundDetail";
+
+type BingoBangoBongoHoleDetailsProps = {
+  participants: Participant[];
+  holeNumber: number;
+  award: BbbAward | null;
+  getParticipantLabel: (p: Participant) => string;
+  onChange: (award: BbbAward) => void;
+  disabled?: boolean;
+};
+
+const CHIP_BASE =
+  "px-2 py-1 rounded-md text-[11px] font-semibold border transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+const MARKERS: { field: keyof BbbAward; label: string; hint: string }[] = [
+  { field: "bingo_participant_id", label: "Bingo", hint: "First on" },
+  { field: "bango_participant_id", label: "Bango", hint: "Closest" },
+  { field: "bongo_participant_id", label: "Bongo", hint: "First in" },
+];
+
+export default function BingoBangoBongoHoleDetails({
+  participants,
+  holeNumber,
+  award,
+  getParticipantLabel,
+  onChange,
+  disabled,
+}: BingoBangoBongoHoleDetailsProps) {
+  const current: BbbAward = award ?? {
+    bingo_participant_id: null,
+    bango_participant_id: null,
+    bongo_participant_id: null,
+  };
+
+  // Tapping the holder again clears that marker.
+  const toggle = (field: keyof BbbAward, pid: string) =>
+    onChange({ ...current, [field]: current[field] === pid ? null : pid });
+
+  return (
+    <div className="rounded-2xl border border-sky-700/50 bg-[#06161c]/90 p-3 shadow-2xl">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-semibold text-sky-100">Bingo Bango Bongo · Hole {holeNumber}</div>
+        <div className="text-[10px] text-sky-100/60">First on · closest · first in</div>
+      </div>
+
+      <div className="space-y-1.5">
+        {participants.map((p) => (
+          <div key={p.id} className="flex items-center justify-between gap-2">
+            <div className="text-xs text-emerald-50 truncate min-w-0 flex-1">{getParticipantLabel(p)}</div>
+            <div className="flex items-center gap-1 shrink-0">
+              {MARKERS.map((m) => {
+                const active = current[m.field] === p.id;
+                return (
+                  <button
+                    key={m.field}
+                    type="button"
+                    title={m.hint}
+                    disabled={disabled}
+                    onClick={() => toggle(m.field, p.id)}
+                    className={`${CHIP_BASE} ${
+                      active
+                        ? "border-sky-400 bg-sky-500/20 text-sky-100"
+                        : "border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-100/70 hover:bg-emerald-900/25"
+                    }`}
+                  >
+                    {m.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import type { FormatDisplayData } from "@/lib/rounds/formatScoring";
 import { formatHI } from "@/lib/rounds/handicapUtils";
+import SettleUpPanel from "@/components/round/SettleUpPanel";
 
 type FinalRow = {
   participantId: string;
@@ -51,8 +52,10 @@ export default function FinalResultsPanel(props: {
   notAcceptedIds?: Set<string>;
   /** Per-participant HI/CH/PH, shown on Net / Format results. */
   handicaps?: Record<string, HandicapFigures>;
+  /** Set when the round has money side games — shows the "Settle up" section. */
+  settleUpRoundId?: string | null;
 }) {
-  const { winner, finalRows, formatDisplay, notAcceptedIds, handicaps } = props;
+  const { winner, finalRows, formatDisplay, notAcceptedIds, handicaps, settleUpRoundId } = props;
   const isStringTotal = typeof winner.total === "string";
   const scoreLabel = isStringTotal ? "Result" : formatDisplay?.higherIsBetter ? "Points" : "Total";
   const showOutIn = !isStringTotal;
@@ -150,6 +153,8 @@ export default function FinalResultsPanel(props: {
           );
         })}
       </div>
+
+      {settleUpRoundId ? <SettleUpPanel roundId={settleUpRoundId} /> : null}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import type { Participant } from "@/lib/rounds/hooks/useRoundDetail";
@@ -11,6 +12,7 @@ import { getViewerSession } from "@/lib/auth/viewerSession";
 import { requireViewerSession } from "@/lib/auth/requireViewerSession";
 import { FEDEX_POINTS } from "@/lib/events/constants";
 import { formatHI } from "@/lib/rounds/handicapUtils";
+import { downloadRoundExport } from "@/lib/rounds/api";
 
 const FORMAT_LABELS: Record<RoundFormatType, string> = {
   strokeplay: "Stroke Play",
@@ -20,8 +22,11 @@ const FORMAT_LABELS: Record<RoundFormatType, string> = {
   team_strokeplay: "Team Stroke Play",
   team_stableford: "Team Stableford",
   team_bestball: "Best Ball",
+  shamble: "Shamble",
   scramble: "Scramble",
+  texas_scramble: "Texas Scramble",
   greensomes: "Greensomes",
+  chapman: "Chapman",
   foursomes: "Foursomes",
   skins: "Skins",
   wolf: "Wolf",
@@ -224,6 +229,22 @@ export default function RoundMenuSheet(props: {
   const [startingHolePickerOpen, setStartingHolePickerOpen] = useState(false);
   const [startingHoleSaving, setStartingHoleSaving] = useState(false);
 
+  const [exporting, setExporting] = useState<"csv" | "json" | null>(null);
+  const [exportErr, setExportErr] = useState<string | null>(null);
+
+  async function exportRound(format: "csv" | "json") {
+    if (!roundId || exporting) return;
+    setExporting(format);
+    setExportErr(null);
+    try {
+      await downloadRoundExport({ roundId }, format);
+    } catch (e: any) {
+      setExportErr(e?.message ?? "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  }
+
   async function submitStartingHole(value: number | "auto") {
     if (!roundId || startingHoleSaving) return;
     setStartingHoleSaving(true);
@@ -932,6 +953,35 @@ export default function RoundMenuSheet(props: {
                 </div>
               </div>
             </div>
+
+            {/* Export */}
+            {roundId && (
+              <div className="px-4 pb-4">
+                <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70 mb-2">
+                  Export
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Link
+                    href={`/round/${roundId}/print`}
+                    className="px-3 h-8 inline-flex items-center rounded-full text-[11px] font-semibold bg-[#f5e6b0] text-[#042713]"
+                  >
+                    Printable scorecard (PDF)
+                  </Link>
+                  {(["csv", "json"] as const).map((f) => (
+                    <button
+                      key={f}
+                      type="button"
+                      disabled={!!exporting}
+                      onClick={() => exportRound(f)}
+                      className="px-3 h-8 rounded-full text-[11px] font-semibold bg-[#0b3b21]/70 text-emerald-100/80 ring-1 ring-emerald-900/70 disabled:opacity-60"
+                    >
+                      {exporting === f ? "Exporting…" : f.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                {exportErr && <div className="mt-2 text-[11px] text-red-300">{exportErr}</div>}
+              </div>
+            )}
           </div>
         </div>
       </div>
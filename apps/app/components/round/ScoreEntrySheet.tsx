@@ -1,9 +1,25 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import type { Participant, Hole, HoleState } from "@/lib/rounds/hooks/useRoundDetail";
+import {
+  EMPTY_SHOT_STATS,
+  hasShotStats,
+  resolveGir,
+  shotStatsExceedStrokes,
+  tracksFairway,
+  type FairwayResult,
+  type HoleShotStats,
+} from "@/lib/rounds/shotStats";
+
+const STATS_OPEN_STORAGE_KEY = "ciaga:scoreEntry:shotStatsOpen";
+
+const CHIP =
+  "h-9 rounded-xl border text-[12px] font-semibold disabled:opacity-40 transition-colors";
+const CHIP_ON = "border-[#f5e6b0]/70 bg-[#f5e6b0] text-[#042713]";
+const CHIP_OFF = "border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-50 hover:bg-emerald-900/25";
 
 function initialsFrom(name: string) {
   const parts = (name || "").trim().split(/\s+/).filter(Boolean);
@@ -34,12 +50,21 @@ export default function ScoreEntrySheet(props: {
   onSetNotStarted: () => Promise<void> | void;
 
   onClose: () => void;
-  onSubmit: (strokes: number | null) => Promise<void>;
+  /** `stats` is only passed when shot-stat tracking is enabled for this sheet. */
+  onSubmit: (strokes: number | null, stats?: HoleShotStats) => Promise<void>;
   getParticipantLabel: (p: Participant) => string;
   getParticipantAvatar: (p: Participant) => string | null;
 
   /** Optional content rendered above the drawer card (e.g. Wolf hole details). */
   aboveContent?: React.ReactNode;
+
+  /**
+   * Optional per-hole shot stats (putts, fairway, GIR, sand save, penalties).
+   * The draft is seeded from `shotStats` on mount, so the parent should remount
+   * the sheet (via `key`) when the player or hole changes.
+   */
+  trackShotStats?: boolean;
+  shotStats?: HoleShotStats | null;
 }) {
   const {
     participants,
@@ -66,6 +91,8 @@ export default function ScoreEntrySheet(props: {
     getParticipantLabel,
     getParticipantAvatar,
     aboveContent,
+    trackShotStats = false,
+    shotStats,
   } = props;
 
   const p = participants.find((x) => x.id === pid)!;
@@ -77,6 +104,29 @@ export default function ScoreEntrySheet(props: {
   const disabled = !canScore || isFinished;
   const busy = savingKey === `${pid}:${holeNumber}`;
 
+  const [stats, setStats] = useState<HoleShotStats>(() => ({ ...EMPTY_SHOT_STATS, ...(shotStats ?? {}) }));
+  const [statsOpen, setStatsOpen] = useState<boolean>(() => {
+    if (hasShotStats(shotStats)) return true;
+    try {
+      return localStorage.getItem(STATS_OPEN_STORAGE_KEY) === "1";
+    } catch {
+      return false;
+    }
+  });
+
+  const toggleStatsOpen = () => {
+    setStatsOpen((open) => {
+      try {
+        localStorage.setItem(STATS_OPEN_STORAGE_KEY, open ? "0" : "1");
+      } catch {}
+      return !open;
+    });
+  };
+
+  const patchStats = (patch: Partial<HoleShotStats>) => setStats((prev) => ({ ...prev, ...patch }));
+
+  const submit = (strokes: number | null) => onSubmit(strokes, trackShotStats ? stats : undefined);
+
   const currentDisplay = useMemo(() => {
     if (busy) return "…";
     if (holeState === "picked_up") return "PU";
@@ -99,6 +149,8 @@ export default function ScoreEntrySheet(props: {
     return missing;
   }, [participants, holeNumber, scoreFor]);
 
+  const derivedGir = resolveGir({ gir: null, putts: stats.putts }, current, holeMeta?.par);
+
   return (
     <div className="fixed inset-0 z-50">
       <button className="absolute inset-0 bg-black/60" onClick={onClose} aria-label="Close" />
@@ -172,6 +224,161 @@ export default function ScoreEntrySheet(props: {
               </div>
             )}
 
+            {trackShotStats && (
+              <div className="mt-3 rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/30 p-3">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between text-left"
+                  onClick={toggleStatsOpen}
+                  aria-expanded={statsOpen}
+                >
+                  <span className="text-xs font-semibold text-emerald-50">
+                    Shot stats <span className="font-normal text-emerald-100/60">(optional)</span>
+                  </span>
+                  <span className="text-[11px] font-extrabold text-[#f5e6b0]">{statsOpen ? "▲" : "▼"}</span>
+                </button>
+
+                {statsOpen ? (
+                  <div className="mt-3 space-y-3">
+                    <div>
+                      <div className="text-[11px] text-emerald-100/70 mb-1">Putts</div>
+                      <div className="grid grid-cols-5 gap-1.5">
+                        {[0, 1, 2, 3, 4].map((n) => (
+                          <button
+                            key={n}
+                            type="button"
+                            className={`${CHIP} ${stats.putts === n ? CHIP_ON : CHIP_OFF}`}
+                            disabled={disabled || busy}
+                            onClick={() => patchStats({ putts: stats.putts === n ? null : n })}
+                          >
+                            {n === 4 ? "4+" : n}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {tracksFairway(holeMeta?.par) ? (
+                      <div>
+                        <div className="text-[11px] text-emerald-100/70 mb-1">Fairway</div>
+                        <div className="grid grid-cols-3 gap-1.5">
+                          {([
+                            ["miss_left", "← Left"],
+                            ["hit", "Hit"],
+                            ["miss_right", "Right →"],
+                          ] as Array<[FairwayResult, string]>).map(([value, label]) => (
+                            <button
+                              key={value}
+                              type="button"
+                              className={`${CHIP} ${stats.fairway === value ? CHIP_ON : CHIP_OFF}`}
+                              disabled={disabled || busy}
+                              onClick={() => patchStats({ fairway: stats.fairway === value ? null : value })}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <div className="text-[11px] text-emerald-100/70 mb-1">
+                          Green in reg
+                          {stats.gir == null && derivedGir != null ? (
+                            <span className="text-emerald-100/50"> · auto {derivedGir ? "yes" : "no"}</span>
+                          ) : null}
+                        </div>
+                        <div className="grid grid-cols-2 gap-1.5">
+                          {([
+                            [true, "Yes"],
+                            [false, "No"],
+                          ] as Array<[boolean, string]>).map(([value, label]) => (
+                            <button
+                              key={label}
+                              type="button"
+                              className={`${CHIP} ${stats.gir === value ? CHIP_ON : CHIP_OFF}`}
+                              disabled={disabled || busy}
+                              onClick={() => patchStats({ gir: stats.gir === value ? null : value })}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="text-[11px] text-emerald-100/70 mb-1">Sand save</div>
+                        <div className="grid grid-cols-2 gap-1.5">
+                          {([
+                            [true, "Saved"],
+                            [false, "Missed"],
+                          ] as Array<[boolean, string]>).map(([value, label]) => (
+                            <button
+                              key={label}
+                              type="button"
+                              className={`${CHIP} ${stats.sand_save === value ? CHIP_ON : CHIP_OFF}`}
+                              disabled={disabled || busy}
+                              onClick={() => patchStats({ sand_save: stats.sand_save === value ? null : value })}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-[11px] text-emerald-100/70">Penalty strokes</div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          className={`${CHIP} ${CHIP_OFF} w-9`}
+                          disabled={disabled || busy || !stats.penalty_strokes}
+                          onClick={() =>
+                            patchStats({ penalty_strokes: stats.penalty_strokes && stats.penalty_strokes > 1 ? stats.penalty_strokes - 1 : null })
+                          }
+                          aria-label="Fewer penalty strokes"
+                        >
+                          −
+                        </button>
+                        <div className="w-6 text-center text-sm font-semibold text-emerald-50 tabular-nums">
+                          {stats.penalty_strokes ?? "–"}
+                        </div>
+                        <button
+                          type="button"
+                          className={`${CHIP} ${CHIP_OFF} w-9`}
+                          disabled={disabled || busy}
+                          onClick={() => patchStats({ penalty_strokes: Math.min(10, (stats.penalty_strokes ?? 0) + 1) })}
+                          aria-label="More penalty strokes"
+                        >
+                          +
+                        </button>
+                      </div>
+                    </div>
+
+                    {shotStatsExceedStrokes(current, stats) ? (
+                      <div className="text-[11px] text-amber-200/80">
+                        Putts and penalties add up to more than {current} strokes — they&apos;ll be cut down to fit.
+                      </div>
+                    ) : null}
+
+                    {typeof current === "number" && holeState === "completed" ? (
+                      <button
+                        type="button"
+                        className="w-full h-10 rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-50 text-xs font-semibold hover:bg-emerald-900/25 disabled:opacity-40"
+                        disabled={disabled || busy}
+                        onClick={() => submit(current)}
+                      >
+                        Save stats with score {current}
+                      </button>
+                    ) : (
+                      <div className="text-[10px] text-emerald-100/50">Stats are saved with the score you pick below.</div>
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            )}
+
             {mode === "quick" ? (
               <div className="mt-3 grid grid-cols-3 gap-2">
                 {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => (
@@ -179,7 +386,7 @@ export default function ScoreEntrySheet(props: {
                     key={n}
                     className="h-11 rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/40 text-emerald-50 text-lg font-semibold hover:bg-emerald-900/25 disabled:opacity-40"
                     disabled={disabled || busy}
-                    onClick={() => onSubmit(n)}
+                    onClick={() => submit(n)}
                   >
                     {n}
                   </button>
@@ -231,7 +438,7 @@ export default function ScoreEntrySheet(props: {
                     onClick={() => {
                       const n = parseInt(customVal || "", 10);
                       if (!Number.isFinite(n)) return;
-                      onSubmit(n);
+                      submit(n);
                     }}
                   >
                     Set score
@@ -41,6 +41,8 @@ export default function ScorecardLandscape(props: {
   /** First hole with a non-removed entry (or manual override). Shows a badge when != 1. */
   startingHole?: number;
   savingKey: string | null;
+  /** Cells with a score queued offline and not yet synced. */
+  unsyncedKeys?: Set<string>;
   scoreView: FormatScoreView;
   formatDisplay: FormatDisplayData | null;
 
@@ -74,6 +76,7 @@ export default function ScorecardLandscape(props: {
     activeHole,
     startingHole = 1,
     savingKey,
+    unsyncedKeys,
     scoreView,
     formatDisplay,
     metaSums,
@@ -95,6 +98,7 @@ export default function ScorecardLandscape(props: {
   );
 
   // Format views that are stroke-based (not points/string) — show birdie/bogey badges and stroke dots
+  const totalsUnit = isFormatView(scoreView) ? formatDisplay?.totalsUnit : undefined;
   const formatIsBadgeable = isFormatView(scoreView) && formatDisplay != null && !formatDisplay.higherIsBetter && !formatDisplay.summaries.some(s => typeof s.total === "string");
 
   return (
@@ -159,7 +163,7 @@ export default function ScorecardLandscape(props: {
                   {cell(label)}
                   {cell(par ?? "–")}
                   {cell(yds ?? "–")}
-                  {cell("")}
+                  {cell(totalsUnit ?? "")}
                 </div>
               );
             })}
@@ -257,6 +261,13 @@ export default function ScorecardLandscape(props: {
                               {wolfTag}
                             </span>
                           ) : null}
+                          {unsyncedKeys?.has(key) ? (
+                            <span
+                              className="absolute top-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-amber-400"
+                              title="Unsynced — saved on this device"
+                              aria-label="Unsynced"
+                            />
+                          ) : null}
                           <BadgeWrap type={badge}>
                             <span className="leading-none">{savingKey === key ? "…" : (s ?? "–")}</span>
                           </BadgeWrap>
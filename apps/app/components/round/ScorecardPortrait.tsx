@@ -95,6 +95,8 @@ export default function ScorecardPortrait(props: {
   /** First hole with a non-removed entry (or manual override). Shows a badge when != 1. */
   startingHole?: number;
   savingKey: string | null;
+  /** Cells with a score queued offline and not yet synced. */
+  unsyncedKeys?: Set<string>;
   scoreView: FormatScoreView;
   formatDisplay: FormatDisplayData | null;
 
@@ -130,6 +132,7 @@ export default function ScorecardPortrait(props: {
     activeHole,
     startingHole = 1,
     savingKey,
+    unsyncedKeys,
     scoreView,
     formatDisplay,
     metaSums,
@@ -154,6 +157,7 @@ export default function ScorecardPortrait(props: {
   );
 
   // Format views that are stroke-based — show birdie/bogey badges and stroke dots
+  const totalsUnit = isFormatView(scoreView) ? formatDisplay?.totalsUnit : undefined;
   const formatIsBadgeable = isFormatView(scoreView) && formatDisplay != null && !formatDisplay.higherIsBetter && !formatDisplay.summaries.some(s => typeof s.total === "string");
 
   return (
@@ -349,6 +353,13 @@ export default function ScorecardPortrait(props: {
                       {wolfTag}
                     </span>
                   ) : null}
+                  {unsyncedKeys?.has(key) ? (
+                    <span
+                      className="absolute top-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-amber-400"
+                      title="Unsynced — saved on this device"
+                      aria-label="Unsynced"
+                    />
+                  ) : null}
                   <BadgeWrap type={badge}>
                     <span className="leading-none">{savingKey === key ? "…" : (s ?? "–")}</span>
                   </BadgeWrap>
@@ -443,7 +454,12 @@ export default function ScorecardPortrait(props: {
               >
                 {yds ?? "–"}
               </div>,
-              <div key={`si-${label}`} className="h-9 border-b border-r border-emerald-900/60 bg-[#0b3b21]/60" />
+              <div
+                key={`si-${label}`}
+                className="h-9 flex items-center justify-center text-[10px] border-b border-r border-emerald-900/60 bg-[#0b3b21]/60 text-emerald-100/60"
+              >
+                {totalsUnit ?? ""}
+              </div>
             );
 
             participants.forEach((p) => {
@@ -0,0 +1,195 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { NumberField } from "@/components/ui/NumberField";
+import type { GameSettlement, SettlementTransfer } from "@/lib/rounds/settlement";
+
+type SettlementResponse = {
+  games: GameSettlement[];
+  net: Record<string, number>;
+  transfers: (SettlementTransfer & { from_name: string; to_name: string })[];
+  players: { id: string; name: string; profile_id: string | null }[];
+  tab: { profile_id: string; name: string; balance: number }[];
+};
+
+/** Stakes are unitless in side-game config, so amounts are shown as plain numbers. */
+function money(n: number): string {
+  const abs = Math.abs(n);
+  return Number.isInteger(abs) ? String(abs) : abs.toFixed(2);
+}
+
+function signed(n: number): string {
+  if (Math.abs(n) < 0.005) return "0";
+  return `${n > 0 ? "+" : "−"}${money(n)}`;
+}
+
+async function authedFetch(url: string, init?: RequestInit): Promise<any> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) throw new Error("Not authenticated.");
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json?.error || `Request failed (${res.status})`);
+  return json;
+}
+
+/**
+ * "Settle up" section of the final results: who pays whom for this round's
+ * side games, and the viewer's running tab with the other players.
+ */
+export default function SettleUpPanel({ roundId }: { roundId: string }) {
+  const [data, setData] = useState<SettlementResponse | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [payAmount, setPayAmount] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setData(await authedFetch(`/api/rounds/${roundId}/settlement`));
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message || "Failed to load settlement");
+    }
+  }, [roundId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const recordPayment = async (payerProfileId: string) => {
+    if (!payAmount || payAmount <= 0) return;
+    setSaving(true);
+    try {
+      await authedFetch(`/api/rounds/${roundId}/settlement`, {
+        method: "POST",
+        body: JSON.stringify({ payer_profile_id: payerProfileId, amount: payAmount }),
+      });
+      setPayingId(null);
+      setPayAmount(null);
+      await load();
+    } catch (e: any) {
+      setErr(e?.message || "Failed to record payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (err && !data) {
+    return <div className="p-3 text-[11px] text-red-300">{err}</div>;
+  }
+  // Nothing to settle: no money games, or every game pushed.
+  if (!data || (!data.games.length && !data.tab.some((t) => t.balance !== 0))) return null;
+
+  const nameOf = (id: string) => data.players.find((p) => p.id === id)?.name ?? "Player";
+
+  return (
+    <div className="border-t border-emerald-900/60 p-3 space-y-3">
+      <div className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70">Settle up</div>
+
+      {data.games.length > 0 && (
+        <div className="rounded-xl border border-emerald-900/70 bg-[#042713]/60 p-3 space-y-2">
+          {data.games.map((g) => (
+            <div key={g.name}>
+              <div className="text-[11px] font-semibold text-emerald-50">{g.label}</div>
+              <div className="mt-0.5 flex flex-wrap gap-x-3 gap-y-0.5 text-[11px] tabular-nums text-emerald-100/75">
+                {Object.entries(g.amounts).map(([pid, v]) => (
+                  <span key={pid}>
+                    {nameOf(pid)} <span className={v > 0 ? "text-[#f5e6b0]" : ""}>{signed(v)}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data.games.length > 0 && (
+        <div className="space-y-1">
+          {data.transfers.length === 0 ? (
+            <div className="text-[11px] text-emerald-100/70">All square — nobody owes anything.</div>
+          ) : (
+            data.transfers.map((t) => (
+              <div key={`${t.from}:${t.to}`} className="flex items-center justify-between text-[12px] text-emerald-50">
+                <span className="truncate">
+                  {t.from_name} <span className="text-emerald-100/60">pays</span> {t.to_name}
+                </span>
+                <span className="font-bold tabular-nums text-[#f5e6b0]">{money(t.amount)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {data.tab.length > 0 && (
+        <div className="rounded-xl border border-emerald-900/70 bg-[#042713]/60 p-3 space-y-2">
+          <div className="text-[10px] uppercase tracking-[0.14em] text-emerald-100/60">Running tab · all rounds</div>
+          {data.tab.map((t) => (
+            <div key={t.profile_id} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2 text-[12px]">
+                <span className="truncate text-emerald-50">{t.name}</span>
+                <span className="tabular-nums text-emerald-100/80">
+                  {t.balance > 0 ? (
+                    <>owes you <span className="font-bold text-[#f5e6b0]">{money(t.balance)}</span></>
+                  ) : t.balance < 0 ? (
+                    <>you owe <span className="font-bold text-emerald-50">{money(t.balance)}</span></>
+                  ) : (
+                    "square"
+                  )}
+                </span>
+              </div>
+              {t.balance > 0 &&
+                (payingId === t.profile_id ? (
+                  <div className="flex items-center justify-end gap-2">
+                    <NumberField
+                      min={0.01}
+                      allowDecimal
+                      autoFocus
+                      placeholder={money(t.balance)}
+                      value={payAmount}
+                      onValueChange={setPayAmount}
+                      disabled={saving}
+                      className="w-20 px-2 py-1 rounded border border-emerald-900/70 bg-[#0b3b21]/70 text-xs text-emerald-50 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    />
+                    <button
+                      type="button"
+                      disabled={saving || !payAmount}
+                      onClick={() => recordPayment(t.profile_id)}
+                      className="rounded-md border border-emerald-700/70 bg-emerald-800/40 px-2 py-1 text-[11px] font-semibold text-emerald-50 disabled:opacity-40"
+                    >
+                      Record
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPayingId(null)}
+                      className="text-[11px] text-emerald-100/60 hover:text-emerald-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setPayingId(t.profile_id);
+                        setPayAmount(t.balance);
+                      }}
+                      className="text-[11px] font-semibold text-emerald-200/80 hover:text-emerald-50"
+                    >
+                      Mark paid
+                    </button>
+                  </div>
+                ))}
+            </div>
+          ))}
+          {err && <div className="text-[11px] text-red-300">{err}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,8 +11,11 @@ export type RoundFormatType =
   | "team_strokeplay"
   | "team_stableford"
   | "team_bestball"
+  | "shamble"
   | "scramble"
+  | "texas_scramble"
   | "greensomes"
+  | "chapman"
   | "foursomes"
   | "skins"
   | "wolf";
@@ -22,8 +25,11 @@ export const TEAM_FORMATS: RoundFormatType[] = [
   "team_strokeplay",
   "team_stableford",
   "team_bestball",
+  "shamble",
   "scramble",
+  "texas_scramble",
   "greensomes",
+  "chapman",
   "foursomes",
 ];
 
@@ -39,8 +45,11 @@ const FORMAT_LABELS: Record<RoundFormatType, string> = {
   team_strokeplay: "Team Stroke Play",
   team_stableford: "Team Stableford",
   team_bestball: "Best Ball",
+  shamble: "Shamble",
   scramble: "Scramble",
+  texas_scramble: "Texas Scramble",
   greensomes: "Greensomes",
+  chapman: "Chapman (Pinehurst)",
   foursomes: "Foursomes (Alternate Shot)",
   skins: "Skins",
   wolf: "Wolf",
@@ -61,10 +70,16 @@ const FORMAT_DESCRIPTIONS: Record<RoundFormatType, string> = {
     "Teams combine all members' stableford points. Highest combined points wins.",
   team_bestball:
     "Each player plays their own ball. Best scores per hole count for the team.",
+  shamble:
+    "All tee off and the team picks the best drive, then everyone plays their own ball in. Best scores per hole count.",
   scramble:
     "All players hit, team plays from the best shot. One score per team per hole.",
+  texas_scramble:
+    "A scramble where each player's drive must be used a minimum number of times. One score per team per hole.",
   greensomes:
     "Both tee off, choose the best drive, then alternate shots until holed out.",
+  chapman:
+    "Both tee off and play each other's ball for the second shot, then pick one ball and alternate until holed out.",
   foursomes:
     "Partners alternate shots playing one ball. One tees off odd holes, the other even.",
   skins:
@@ -119,8 +134,11 @@ export function FormatSelector({ value, onChange, disabled, isOwner }: FormatSel
           <option value="team_strokeplay">{FORMAT_LABELS.team_strokeplay}</option>
           <option value="team_stableford">{FORMAT_LABELS.team_stableford}</option>
           <option value="team_bestball">{FORMAT_LABELS.team_bestball}</option>
+          <option value="shamble">{FORMAT_LABELS.shamble}</option>
           <option value="scramble">{FORMAT_LABELS.scramble}</option>
+          <option value="texas_scramble">{FORMAT_LABELS.texas_scramble}</option>
           <option value="greensomes">{FORMAT_LABELS.greensomes}</option>
+          <option value="chapman">{FORMAT_LABELS.chapman}</option>
           <option value="foursomes">{FORMAT_LABELS.foursomes}</option>
         </optgroup>
       </select>
@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useState } from "react";
+import { downloadRoundExport } from "@/lib/rounds/api";
+
+function isoDaysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/** Date-range export of the viewer's finished rounds (history page). */
+export default function RoundExportPanel() {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(() => isoDaysAgo(365));
+  const [to, setTo] = useState(() => isoDaysAgo(0));
+  const [busy, setBusy] = useState<"csv" | "json" | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function run(format: "csv" | "json") {
+    if (busy) return;
+    setBusy(format);
+    setErr(null);
+    try {
+      await downloadRoundExport({ from, to }, format);
+    } catch (e: any) {
+      setErr(e?.message ?? "Export failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const inputCls =
+    "h-9 flex-1 min-w-0 rounded-xl border border-emerald-900/70 bg-[#042713] px-2 text-[12px] font-semibold text-emerald-50 outline-none focus:border-[#f5e6b0]/70";
+
+  return (
+    <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between px-3 py-2.5"
+      >
+        <span className="text-[11px] uppercase tracking-[0.14em] text-emerald-100/70">Export rounds</span>
+        <span className="text-[12px] text-emerald-100/60">{open ? "−" : "+"}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+            <span className="text-[11px] text-emerald-100/60">to</span>
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+          </div>
+          <div className="flex gap-2">
+            {(["csv", "json"] as const).map((f) => (
+              <button
+                key={f}
+                type="button"
+                disabled={!!busy || !from || !to}
+                onClick={() => run(f)}
+                className="flex-1 h-8 rounded-full text-[11px] font-semibold bg-[#f5e6b0] text-[#042713] disabled:opacity-60"
+              >
+                {busy === f ? "Exporting…" : `Download ${f.toUpperCase()}`}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-emerald-100/50">
+            Hole by hole, with gross, net, format and side-game results. For a printable scorecard, open a round and use Export in its menu.
+          </p>
+          {err && <div className="text-[11px] text-red-300">{err}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -152,7 +152,7 @@ export function RoundFormatSectionEnhanced({
     formatType === "pairs_stableford";
 
   const showPairsConfig = formatType === "pairs_stableford";
-  const showBestBallConfig = formatType === "team_bestball";
+  const showBestBallConfig = formatType === "team_bestball" || formatType === "shamble";
   const showWolfConfig = formatType === "wolf";
   const showMatchups = formatType === "matchplay" || (isTeamFormat(formatType) && teams.length >= 2);
 
@@ -235,7 +235,9 @@ export function RoundFormatSectionEnhanced({
       {showBestBallConfig && (
         <div className="rounded-2xl border border-emerald-900/70 bg-[#0b3b21]/70 p-4">
           <div className="mb-3">
-            <div className="text-sm font-semibold text-emerald-50">Best Ball Settings</div>
+            <div className="text-sm font-semibold text-emerald-50">
+              {formatType === "shamble" ? "Shamble Settings" : "Best Ball Settings"}
+            </div>
             <div className="text-[11px] text-emerald-100/70">Scoring type and count</div>
           </div>
 
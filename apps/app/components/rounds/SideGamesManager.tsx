@@ -8,7 +8,7 @@ import { WolfConfig, WOLF_CONFIG_DEFAULTS } from "./WolfConfig";
 import { NumberField } from "@/components/ui/NumberField";
 
 type GameDef = {
-  id: "skins" | "wolf" | "nassau";
+  id: "skins" | "wolf" | "nassau" | "bingo_bango_bongo" | "vegas" | "sixes";
   label: string;
   teamLabel?: string;
   description: string;
@@ -45,8 +45,35 @@ const AVAILABLE_GAMES: GameDef[] = [
     defaultConfig: { points: 2 },
     compat: { individual: true, team: true },
   },
+  {
+    id: "bingo_bango_bongo",
+    label: "Bingo Bango Bongo",
+    description: "A point each hole for first on, closest once all are on, and first in",
+    defaultConfig: { value_per_point: 1 },
+    compat: { individual: true, team: false },
+  },
+  {
+    id: "vegas",
+    label: "Vegas",
+    description: "Four players: 1 & 2 v 3 & 4. Pair scores make a two-digit number; play the difference",
+    defaultConfig: { scoring: "net", birdie_flip: true, value_per_point: 1 },
+    compat: { individual: true, team: false, excludeFormats: ["matchplay"] },
+  },
+  {
+    id: "sixes",
+    label: "Sixes",
+    description: "Four players: better-ball matches over holes 1–6, 7–12 and 13–18, partners rotating",
+    defaultConfig: { scoring: "net", value_per_match: 1 },
+    compat: { individual: true, team: false, excludeFormats: ["matchplay"] },
+  },
 ];
 
+const FIELD_CLASS =
+  "w-20 px-2 py-1 rounded border border-emerald-900/70 bg-[#0b3b21]/70 text-xs text-emerald-50 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+const SELECT_CLASS =
+  "px-2 py-1 rounded border border-emerald-900/70 bg-[#0b3b21]/70 text-xs text-emerald-50 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
 function isGameCompatible(game: GameDef, formatType: RoundFormatType): boolean {
   const isTeam = isTeamFormat(formatType);
   if (isTeam && !game.compat.team) return false;
@@ -231,9 +258,77 @@ export function SideGamesManager({
                     value={gameData?.config}
                     onChange={(config) => updateGameConfig(game.id, config)}
                     disabled={disabled}
+                    withStake
                   />
                 )}
 
+                {game.id === "bingo_bango_bongo" && (
+                  <div className="flex items-center gap-2">
+                    <label className="text-xs text-emerald-100">Value per point:</label>
+                    <NumberField
+                      allowDecimal
+                      min={0}
+                      nullable={false}
+                      fallback={1}
+                      value={gameData?.config?.value_per_point ?? 1}
+                      onValueChange={(v) => updateGameConfig(game.id, { value_per_point: v ?? 1 })}
+                      disabled={disabled}
+                      className={FIELD_CLASS}
+                    />
+                  </div>
+                )}
+
+                {(game.id === "vegas" || game.id === "sixes") && (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-emerald-100">
+                        {game.id === "vegas" ? "Value per point:" : "Value per match:"}
+                      </label>
+                      <NumberField
+                        allowDecimal
+                        min={0}
+                        nullable={false}
+                        fallback={1}
+                        value={
+                          (game.id === "vegas" ? gameData?.config?.value_per_point : gameData?.config?.value_per_match) ?? 1
+                        }
+                        onValueChange={(v) =>
+                          updateGameConfig(
+                            game.id,
+                            game.id === "vegas" ? { value_per_point: v ?? 1 } : { value_per_match: v ?? 1 }
+                          )
+                        }
+                        disabled={disabled}
+                        className={FIELD_CLASS}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-emerald-100">Scoring:</label>
+                      <select
+                        value={gameData?.config?.scoring ?? "net"}
+                        onChange={(e) => updateGameConfig(game.id, { scoring: e.target.value })}
+                        disabled={disabled}
+                        className={SELECT_CLASS}
+                      >
+                        <option value="net">Net</option>
+                        <option value="gross">Gross</option>
+                      </select>
+                    </div>
+                    {game.id === "vegas" && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={gameData?.config?.birdie_flip ?? true}
+                          onChange={(e) => updateGameConfig(game.id, { birdie_flip: e.target.checked })}
+                          disabled={disabled}
+                          className="rounded border-emerald-700 text-emerald-600 focus:ring-emerald-500"
+                        />
+                        <label className="text-xs text-emerald-100">Birdie flips the other pair&apos;s number</label>
+                      </div>
+                    )}
+                  </>
+                )}
+
                 {game.id === "nassau" && (
                   <div className="flex items-center gap-2">
                     <label className="text-xs text-emerald-100">Points per section:</label>
@@ -250,6 +345,22 @@ export function SideGamesManager({
                     />
                   </div>
                 )}
+
+                {game.id === "nassau" && (
+                  <div className="flex items-center gap-2">
+                    <label className="text-xs text-emerald-100">Auto-press when down:</label>
+                    <NumberField
+                      min={1}
+                      max={9}
+                      placeholder="Off"
+                      value={gameData?.config?.auto_press ?? null}
+                      onValueChange={(v) => updateGameConfig(game.id, { auto_press: v })}
+                      disabled={disabled}
+                      className={FIELD_CLASS}
+                    />
+                    <span className="text-[10px] text-emerald-100/60">strokes · 2 players</span>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -4,6 +4,7 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Pencil } from "lucide-react";
 import type { RoundFormatType } from "./FormatSelector";
+import { teamHandicapDescription } from "@/lib/rounds/whsDefaults";
 
 export type TeamBuilderParticipant = {
   id: string;
@@ -27,18 +28,6 @@ type Props = {
   getToken: () => Promise<string | null>;
 };
 
-/** WHS team handicap formulas — corrected per WHS published allowances table */
-export function getTeamHandicapDescription(format: RoundFormatType, teamSize: number): string {
-  if (format === "scramble") {
-    if (teamSize <= 2) return "35% lowest + 15% highest";
-    if (teamSize === 3) return "30% lowest + 20% second + 10% highest";
-    return "25% lowest + 20% second + 15% third + 10% highest";
-  }
-  if (format === "greensomes") return "60% lowest + 40% highest";
-  if (format === "foursomes") return "50% combined";
-  return "";
-}
-
 function initialsFrom(name: string) {
   const parts = (name || "").trim().split(/\s+/).filter(Boolean);
   const a = parts[0]?.[0] ?? "U";
@@ -184,7 +173,7 @@ export function TeamBuilderSheet({ roundId, format, teams, participants, onMutat
     return Math.max(max, count);
   }, 2);
 
-  const handicapDesc = getTeamHandicapDescription(format, maxTeamSize);
+  const handicapDesc = teamHandicapDescription(format, maxTeamSize);
 
   async function addTeam() {
     setSaving(true);
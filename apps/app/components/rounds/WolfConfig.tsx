@@ -15,6 +15,7 @@ export type WolfConfigValue = {
   lone_others_points: number; // opponents each, when they beat the lone wolf
   blind_wolf_points: number; // blind wolf, when alone & wins
   blind_others_points: number; // opponents each, when they beat the blind wolf
+  value_per_point: number; // side-game settlement: money per point
 };
 
 export const WOLF_CONFIG_DEFAULTS: WolfConfigValue = {
@@ -26,6 +27,7 @@ export const WOLF_CONFIG_DEFAULTS: WolfConfigValue = {
   lone_others_points: 1,
   blind_wolf_points: 8,
   blind_others_points: 1,
+  value_per_point: 1,
 };
 
 type WolfPointsKey =
@@ -40,9 +42,11 @@ type WolfConfigProps = {
   value?: Partial<WolfConfigValue>;
   onChange: (config: WolfConfigValue) => void;
   disabled?: boolean;
+  /** Show the money-per-point field (wolf as a side game, which settles up). */
+  withStake?: boolean;
 };
 
-export function WolfConfig({ value, onChange, disabled }: WolfConfigProps) {
+export function WolfConfig({ value, onChange, disabled, withStake }: WolfConfigProps) {
   const cfg: WolfConfigValue = { ...WOLF_CONFIG_DEFAULTS, ...(value ?? {}) };
   const emit = (patch: Partial<WolfConfigValue>) => onChange({ ...cfg, ...patch });
 
@@ -68,6 +72,23 @@ export function WolfConfig({ value, onChange, disabled }: WolfConfigProps) {
 
   return (
     <div className="space-y-3">
+      {withStake && (
+        <div>
+          <label className="text-xs text-emerald-100/80 block mb-1">Value per point</label>
+          <NumberField
+            allowDecimal
+            min={0}
+            nullable={false}
+            fallback={1}
+            value={cfg.value_per_point}
+            onValueChange={(v) => emit({ value_per_point: v ?? 1 })}
+            disabled={disabled}
+            className="w-24 px-2 py-1 rounded border border-emerald-900/70 bg-[#0b3b21]/70 text-xs text-emerald-50 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:opacity-50"
+          />
+          <p className="text-[11px] text-emerald-100/60 mt-1">Each point is paid by every other player at this rate.</p>
+        </div>
+      )}
+
       <div>
         <label className="text-xs text-emerald-100/80 block mb-1">Scoring</label>
         <select
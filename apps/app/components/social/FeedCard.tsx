@@ -443,6 +443,7 @@ function CompetitionRoundBody({ payload }: { payload: any }) {
   const roundStatus: string = payload?.round_status ?? "live";
   const isComplete = roundStatus === "completed";
   const winner = payload?.winner as { profile_id: string; name: string; avatar_url?: string | null } | null;
+  const teamResult = payload?.team_result as { teams: { name: string; points: number }[]; winner_team: string | null } | null;
   const livePlayers = (Array.isArray(payload?.live_players) ? payload.live_players : []) as Array<{
     profile_id: string;
     name: string;
@@ -465,7 +466,18 @@ function CompetitionRoundBody({ payload }: { payload: any }) {
       {dateLine ? (
         <div className="text-xs font-semibold text-emerald-100/60">{dateLine}</div>
       ) : null}
-      {isComplete && winner ? (
+      {isComplete && teamResult && teamResult.teams.length === 2 ? (
+        <div className="flex items-center gap-2 mt-1 text-xs font-semibold">
+          <span className="text-emerald-50">{teamResult.teams[0].name}</span>
+          <span className="text-[#f5e6b0]">
+            {teamResult.teams[0].points} – {teamResult.teams[1].points}
+          </span>
+          <span className="text-emerald-50">{teamResult.teams[1].name}</span>
+          <span className="text-emerald-100/60">
+            {teamResult.winner_team ? `· ${teamResult.winner_team} win` : "· Tied"}
+          </span>
+        </div>
+      ) : isComplete && winner ? (
         <div className="flex items-center gap-2 mt-1">
           <Avatar name={winner.name} url={winner.avatar_url ?? null} size={24} />
           <span className="text-xs font-semibold text-[#f5e6b0]">
@@ -0,0 +1,212 @@
+// src/components/stats/WhatIfCalculator.tsx
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { formatHI } from "@/lib/rounds/handicapUtils";
+import {
+  buildScoringRecord,
+  calculateHandicapHistory,
+  handicapIndexAsOf,
+  nineHoleDifferential,
+  scoreDifferential,
+  whatIfScore,
+  type HandicapRoundInput,
+  type WhatIfResult,
+} from "@/lib/handicap/whs";
+import type { HandicapTeeOption } from "@/lib/stats/data";
+
+function tomorrowISO() {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+function differentialFor(tee: HandicapTeeOption | null, ags: number, currentIndex: number | null): number | null {
+  if (!tee) return null;
+  const played = scoreDifferential(ags, tee.courseRating, tee.slope);
+  if (!tee.is9Hole) return played;
+  return currentIndex != null ? nineHoleDifferential(played, currentIndex) : null;
+}
+
+function signed(n: number) {
+  if (n > 0) return `+${n.toFixed(1)}`;
+  if (n === 0) return "±0.0";
+  return n.toFixed(1);
+}
+
+/**
+ * "What if I shoot X tomorrow" — replays the player's scoring record through
+ * the WHS engine with one extra score on a tee they've played.
+ */
+export function WhatIfCalculator({
+  rounds,
+  tees,
+  storedIndex,
+}: {
+  rounds: HandicapRoundInput[];
+  tees: HandicapTeeOption[];
+  /** Latest handicap_index_history value, to flag engine/stored drift. */
+  storedIndex: number | null;
+}) {
+  const [teeId, setTeeId] = useState<string>(tees[0]?.id ?? "");
+  const [gross, setGross] = useState<number>(() => (tees[0] ? tees[0].parTotal + 15 : 87));
+  const [dateISO, setDateISO] = useState<string>(tomorrowISO);
+
+  const tee = tees.find((t) => t.id === teeId) ?? tees[0] ?? null;
+
+  const record = useMemo(() => buildScoringRecord(rounds), [rounds]);
+  const history = useMemo(() => calculateHandicapHistory(record), [record]);
+  const engineIndex = history.length ? handicapIndexAsOf(history, history[history.length - 1].asOfDate) : null;
+  const currentIndex = handicapIndexAsOf(history, dateISO);
+
+  const result: WhatIfResult | null = useMemo(() => {
+    const differential = differentialFor(tee, gross, currentIndex);
+    if (differential == null) return null;
+    return whatIfScore(record, { playedAt: dateISO, differential });
+  }, [record, gross, dateISO, tee, currentIndex]);
+
+  // Highest score that still lowers the index (scan a generous range).
+  const lowerAt = useMemo(() => {
+    if (!tee || currentIndex == null) return null;
+    for (let ags = tee.parTotal + 40; ags >= tee.parTotal - 10; ags--) {
+      const differential = differentialFor(tee, ags, currentIndex);
+      if (differential == null) return null;
+      const res = whatIfScore(record, { playedAt: dateISO, differential });
+      if (res.change != null && res.change < 0) return ags;
+    }
+    return null;
+  }, [record, dateISO, tee, currentIndex]);
+
+  if (!tees.length) {
+    return (
+      <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/55 p-3 text-[12px] text-emerald-100/70 font-semibold">
+        Finish a rated round to use the calculator.
+      </div>
+    );
+  }
+
+  const drift = storedIndex != null && engineIndex != null && Math.abs(storedIndex - engineIndex) >= 0.05;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="text-xs text-emerald-100/70 w-[70px] font-semibold">Tee</div>
+        <select
+          value={tee?.id ?? ""}
+          onChange={(e) => setTeeId(e.target.value)}
+          className="h-10 flex-1 min-w-0 rounded-xl border border-emerald-900/70 bg-[#042713] px-3 text-sm font-semibold text-emerald-50 outline-none focus:border-[#f5e6b0]/70"
+        >
+          {tees.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+              {t.is9Hole ? " (9)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="text-xs text-emerald-100/70 w-[70px] font-semibold">Score</div>
+        <div className="flex flex-1 items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setGross((g) => Math.max(1, g - 1))}
+            className="h-10 w-10 rounded-xl border border-emerald-900/70 bg-[#042713] text-lg font-extrabold text-emerald-50"
+            aria-label="One fewer"
+          >
+            −
+          </button>
+          <input
+            type="number"
+            inputMode="numeric"
+            value={gross}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (Number.isFinite(n) && n > 0) setGross(Math.round(n));
+            }}
+            className="h-10 w-full min-w-0 flex-1 rounded-xl border border-emerald-900/70 bg-[#042713] px-3 text-center text-sm font-extrabold tabular-nums text-emerald-50 outline-none focus:border-[#f5e6b0]/70"
+          />
+          <button
+            type="button"
+            onClick={() => setGross((g) => g + 1)}
+            className="h-10 w-10 rounded-xl border border-emerald-900/70 bg-[#042713] text-lg font-extrabold text-emerald-50"
+            aria-label="One more"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="text-xs text-emerald-100/70 w-[70px] font-semibold">Date</div>
+        <input
+          type="date"
+          value={dateISO}
+          onChange={(e) => e.target.value && setDateISO(e.target.value)}
+          className="h-10 flex-1 rounded-xl border border-emerald-900/70 bg-[#042713] px-3 text-sm font-semibold text-emerald-50 outline-none focus:border-[#f5e6b0]/70"
+        />
+      </div>
+
+      {result ? (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/55 p-3">
+            <div className="text-[11px] text-emerald-100/70 font-bold">Differential</div>
+            <div className="mt-1 text-base font-extrabold text-emerald-50 tabular-nums">{result.differential.toFixed(1)}</div>
+          </div>
+          <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/55 p-3">
+            <div className="text-[11px] text-emerald-100/70 font-bold">New HI</div>
+            <div className="mt-1 text-base font-extrabold text-[#f5e6b0] tabular-nums">
+              {result.newIndex != null ? formatHI(result.newIndex) : "—"}
+            </div>
+          </div>
+          <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/55 p-3">
+            <div className="text-[11px] text-emerald-100/70 font-bold">Change</div>
+            <div
+              className={[
+                "mt-1 text-base font-extrabold tabular-nums",
+                result.change != null && result.change < 0
+                  ? "text-emerald-300"
+                  : result.change != null && result.change > 0
+                  ? "text-red-300"
+                  : "text-emerald-50",
+              ].join(" ")}
+            >
+              {result.change != null ? signed(result.change) : "—"}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-emerald-900/70 bg-[#042713]/55 p-3 text-[12px] text-emerald-100/70 font-semibold">
+          A 9-hole score without an index waits to be paired with another nine.
+        </div>
+      )}
+
+      {result ? (
+        <div className="text-[11px] text-emerald-100/70 font-semibold leading-snug space-y-1">
+          <div>
+            {result.counts ? "This score would count towards your index" : "This score wouldn't be one of your counting scores"}
+            {result.dropsOut ? ` · your ${result.dropsOut.playedAt} score (${result.dropsOut.differential.toFixed(1)}) drops out` : ""}
+            .
+          </div>
+          {result.capApplied > 0 ? <div>Soft/hard cap holds back {result.capApplied.toFixed(1)}.</div> : null}
+          {result.esr > 0 ? (
+            <div>Exceptional score: full WHS rules would take a further −{result.esr}.0 off every score in your record.</div>
+          ) : null}
+          {lowerAt != null ? (
+            <div>
+              Shoot <span className="font-extrabold text-emerald-50">{lowerAt}</span> or better (adjusted gross) to lower
+              your index.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {drift ? (
+        <div className="text-[10px] text-amber-200/80 font-semibold">
+          Your scoring record gives {formatHI(engineIndex!)} but your official index is {formatHI(storedIndex!)} — a
+          recalculation may be pending.
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -20,10 +20,11 @@ export const FORMAT_DEFAULT_SCORING: Record<EventTypeV2, EventScoringModel> = {
   aggregate_stroke_play: "net",
   team_best_ball: "net",
   team_scramble: "net",
+  team_match: "match_result",
 };
 
 export const FORMAT_ALLOWS_SCORING_CHOICE = (type: EventTypeV2): boolean =>
-  !["stableford", "matchplay", "matchplay_fixture", "matchplay_knockout_match"].includes(type);
+  !["stableford", "matchplay", "matchplay_fixture", "matchplay_knockout_match", "team_match"].includes(type);
 
 export const EVENT_CATEGORIES: { value: EventCategory; label: string; desc: string }[] = [
   { value: "round_based", label: "Round-based", desc: "Requires round submissions to score" },
@@ -41,6 +42,7 @@ export const EVENT_TYPES: { value: EventTypeV2; label: string }[] = [
   { value: "skins", label: "Skins" },
   { value: "scramble", label: "Scramble" },
   { value: "bestball", label: "Best Ball" },
+  { value: "team_match", label: "Team Match" },
   { value: "custom", label: "Custom" },
 ];
 
@@ -62,6 +64,7 @@ export const EVENT_TYPE_LABELS: Record<EventTypeV2, string> = {
   aggregate_stroke_play: "Aggregate Strokeplay",
   team_best_ball: "Team Best Ball",
   team_scramble: "Team Scramble",
+  team_match: "Team Match",
 };
 
 export const SCORING_MODELS: { value: EventScoringModel; label: string; shortLabel: string }[] = [
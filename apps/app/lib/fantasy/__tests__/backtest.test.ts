@@ -0,0 +1,164 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  brierScore,
+  handicapBand,
+  logLoss,
+  reliabilityCurve,
+  replayEventForecasts,
+  runBacktest,
+  type BacktestEventInput,
+  type BacktestReport,
+} from "@/lib/fantasy/backtest";
+
+/**
+ * Backtest harness. The metric tests pin the scoring maths; the fixture suite
+ * is also the offline model gate (`npm run backtest`): it replays every event
+ * in fixtures/backtest/ (exported from the admin report's "Fixture ↓", or
+ * hand-built) with the CURRENT engine, prints the calibration table, and fails
+ * if overall Brier / log-loss regress past baseline.json. When a model change
+ * genuinely improves the numbers, lower the baseline in the same commit.
+ */
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "backtest");
+
+function loadFixtures(): BacktestEventInput[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter((f) => f.endsWith(".json") && f !== "baseline.json")
+    .sort()
+    .map((f) => JSON.parse(readFileSync(path.join(FIXTURE_DIR, f), "utf8")) as BacktestEventInput);
+}
+
+const baseline = JSON.parse(readFileSync(path.join(FIXTURE_DIR, "baseline.json"), "utf8")) as {
+  brier: number;
+  logLoss: number;
+  tolerance: number;
+};
+
+function printReport(report: BacktestReport): void {
+  const row = (label: string, s: { count: number; brier: number; logLoss: number; meanPredicted: number; observedRate: number }) =>
+    `${label.padEnd(18)} n=${String(s.count).padStart(4)}  brier=${s.brier.toFixed(4)}  logloss=${s.logLoss.toFixed(4)}  pred=${(s.meanPredicted * 100).toFixed(1)}%  obs=${(s.observedRate * 100).toFixed(1)}%`;
+  const lines = [
+    `backtest: ${report.eventCount} events, ${report.forecastCount} forecasts, ${report.simulationCount} sims`,
+    row("overall", report.overall),
+    ...Object.entries(report.byModelVersion).map(([k, s]) => row(`model ${k}`, s)),
+    ...Object.entries(report.byMarketType).map(([k, s]) => row(k, s)),
+    ...Object.entries(report.byHandicapBand).map(([k, s]) => row(`hcp ${k}`, s!)),
+    ...report.overall.reliability.map(
+      (b) =>
+        `  [${b.lower.toFixed(1)}, ${b.upper.toFixed(1)})  n=${String(b.count).padStart(4)}  pred=${b.meanPredicted.toFixed(3)}  obs=${b.observedRate.toFixed(3)}`
+    ),
+  ];
+  console.log(lines.join("\n"));
+}
+
+describe("calibration metrics", () => {
+  it("brier: 0 when certain and right, 1 when certain and wrong, 0.25 for a coin flip", () => {
+    expect(brierScore([{ probability: 1, outcome: 1 }])).toBe(0);
+    expect(brierScore([{ probability: 1, outcome: 0 }])).toBe(1);
+    expect(brierScore([{ probability: 0.5, outcome: 1 }, { probability: 0.5, outcome: 0 }])).toBe(0.25);
+    expect(brierScore([])).toBe(0);
+  });
+
+  it("log-loss: ln 2 for a coin flip, finite for a certain miss", () => {
+    expect(logLoss([{ probability: 0.5, outcome: 0 }])).toBeCloseTo(Math.LN2, 10);
+    const miss = logLoss([{ probability: 0, outcome: 1 }]);
+    expect(Number.isFinite(miss)).toBe(true);
+    expect(miss).toBeGreaterThan(10);
+  });
+
+  it("reliability: equal-width bins, empty bins dropped, p = 1 lands in the top bin", () => {
+    const bins = reliabilityCurve([
+      { probability: 0.05, outcome: 0 },
+      { probability: 0.15, outcome: 0 },
+      { probability: 0.15, outcome: 1 },
+      { probability: 1, outcome: 1 },
+    ]);
+    expect(bins.map((b) => [b.lower, b.count])).toEqual([
+      [0, 1],
+      [0.1, 2],
+      [0.9, 1],
+    ]);
+    expect(bins[1].meanPredicted).toBeCloseTo(0.15, 10);
+    expect(bins[1].observedRate).toBe(0.5);
+  });
+
+  it("handicap bands", () => {
+    expect(handicapBand(-1.2)).toBe("0-9");
+    expect(handicapBand(9.9)).toBe("0-9");
+    expect(handicapBand(10)).toBe("10-18");
+    expect(handicapBand(27.9)).toBe("19-27");
+    expect(handicapBand(28)).toBe("28+");
+    expect(handicapBand(null)).toBe("unknown");
+  });
+});
+
+describe("replay", () => {
+  const [event] = loadFixtures();
+
+  it("scores every won/lost selection and attributes it to a player, band and model version", () => {
+    const records = replayEventForecasts(event);
+    const winner = Object.values(event.final.players).find((p) => p.position === 1)!;
+    const outright = records.filter((r) => r.marketType === "outright_winner");
+    expect(outright).toHaveLength(event.players.length);
+    expect(outright.filter((r) => r.outcome === 1).map((r) => r.selectionKey)).toEqual([winner.profileId]);
+    expect(outright.reduce((s, r) => s + r.probability, 0)).toBeCloseTo(1, 1);
+
+    const h2h = records.filter((r) => r.marketType === "h2h");
+    const market = event.markets.find((m) => m.market_type === "h2h")!;
+    const subject = event.players.find((p) => p.profileId === market.subject_profile_id)!;
+    expect(h2h.find((r) => r.marketId === market.id && r.selectionKey === "a")?.handicapBand).toBe(
+      handicapBand(subject.handicapIndex)
+    );
+    const draw = h2h.find((r) => r.marketId === market.id && r.selectionKey === "draw");
+    if (draw) expect(draw.handicapBand).toBe("field");
+    expect(new Set(records.map((r) => r.modelVersion))).toEqual(new Set([`v${event.players[0].modelVersion}`]));
+  });
+
+  it("drops void selections and skips events without a field", () => {
+    const withdrawn = event.players[0].profileId;
+    const input: BacktestEventInput = {
+      ...event,
+      final: {
+        ...event.final,
+        players: {
+          ...event.final.players,
+          [withdrawn]: { ...event.final.players[withdrawn], withdrawn: true, position: null },
+        },
+      },
+    };
+    const records = replayEventForecasts(input);
+    expect(records.some((r) => r.marketType === "outright_winner" && r.selectionKey === withdrawn)).toBe(false);
+    expect(replayEventForecasts({ ...event, players: event.players.slice(0, 1) })).toEqual([]);
+  });
+
+  it("is deterministic per event", () => {
+    expect(replayEventForecasts(event, 500)).toEqual(replayEventForecasts(event, 500));
+  });
+});
+
+describe("fixture backtest", () => {
+  const fixtures = loadFixtures();
+  const report = runBacktest(fixtures);
+
+  it("replays every fixture", () => {
+    printReport(report);
+    expect(report.eventCount).toBe(fixtures.length);
+    expect(report.events.every((e) => e.forecastCount > 0)).toBe(true);
+    const binned = report.overall.reliability.reduce((s, b) => s + b.count, 0);
+    expect(binned).toBe(report.forecastCount);
+    expect(Object.keys(report.byModelVersion).length).toBeGreaterThan(1);
+  });
+
+  it("beats an uninformed forecast", () => {
+    // Predicting the observed base rate for everything scores rate × (1 − rate).
+    const rate = report.overall.observedRate;
+    expect(report.overall.brier).toBeLessThan(rate * (1 - rate));
+  });
+
+  it("does not regress past the baseline", () => {
+    expect(report.overall.brier).toBeLessThanOrEqual(baseline.brier + baseline.tolerance);
+    expect(report.overall.logLoss).toBeLessThanOrEqual(baseline.logLoss + baseline.tolerance);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { CASHOUT_DISCOUNT, computeCashoutValue } from "@/lib/fantasy/cashout";
+import { CASHOUT_DISCOUNT, computeCashoutValue, computeEachWayCashoutValue } from "@/lib/fantasy/cashout";
 
 describe("computeCashoutValue", () => {
   it("matches the spec worked example (stake 10 @ 8.00, p = 42%)", () => {
@@ -21,3 +21,14 @@ describe("computeCashoutValue", () => {
     expect(computeCashoutValue(0.005, 1)).toBe(0);
   });
 });
+
+describe("computeEachWayCashoutValue", () => {
+  it("values each part at its own probability (20 pts E/W @ 9.00, place @ 3.00)", () => {
+    // Win part 10 × 9 × 0.2 = 18, place part 10 × 3 × 0.5 = 15 → 33 × 0.9.
+    expect(computeEachWayCashoutValue(0.2, 0.5, { stake: 20, decimalOdds: 9, placeOdds: 3 })).toBe(29.7);
+  });
+
+  it("a placed-for-certain pick is worth at least the discounted place return", () => {
+    expect(computeEachWayCashoutValue(0, 1, { stake: 20, decimalOdds: 9, placeOdds: 3 })).toBe(27);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  draftLeagueTable,
+  isLineupLocked,
+  lineupForEvent,
+  normalizeLineup,
+  rosterAt,
+  scoreLineup,
+  scorePlayerEvent,
+  snakeManager,
+  stablefordFromHoles,
+  validateTrade,
+  waiverOrder,
+} from "@/lib/fantasy/draftRules";
+import { DEFAULT_DRAFT_CONFIG, parseDraftConfigInput } from "@/lib/fantasy/config";
+import type { DraftEventStats, FantasyDraftLineup } from "@/lib/fantasy/types";
+
+const config = DEFAULT_DRAFT_CONFIG;
+
+const stats = (profile_id: string, over: Partial<DraftEventStats> = {}): DraftEventStats => ({
+  event_id: "e1",
+  profile_id,
+  position: null,
+  birdies: 0,
+  eagles: 0,
+  stableford_points: null,
+  withdrawn: false,
+  ...over,
+});
+
+const lineup = (event_id: string, starters: string[], bench: string[] = [], captain = starters[0]): FantasyDraftLineup => ({
+  league_id: "l1",
+  event_id,
+  manager_profile_id: "m1",
+  starters,
+  bench,
+  captain_profile_id: captain,
+  updated_at: "2026-01-01T00:00:00Z",
+});
+
+describe("snakeManager", () => {
+  it("runs down the order, then back up", () => {
+    const order = ["a", "b", "c"];
+    expect([0, 1, 2, 3, 4, 5, 6].map((n) => snakeManager(order, n))).toEqual(["a", "b", "c", "c", "b", "a", "a"]);
+  });
+});
+
+describe("normalizeLineup", () => {
+  const roster = ["p1", "p2", "p3", "p4", "p5", "p6"];
+
+  it("fills the bench with everyone not starting", () => {
+    const res = normalizeLineup({ starters: ["p1", "p2", "p3", "p4"], bench: ["p6"], captain: "p2" }, roster, config);
+    expect(res).toEqual({ lineup: { starters: ["p1", "p2", "p3", "p4"], bench: ["p6", "p5"], captain: "p2" } });
+  });
+
+  it("rejects the wrong number of starters, strangers and a benched captain", () => {
+    expect(normalizeLineup({ starters: ["p1"], bench: [], captain: "p1" }, roster, config)).toHaveProperty("error");
+    expect(normalizeLineup({ starters: ["p1", "p2", "p3", "x"], bench: [], captain: "p1" }, roster, config)).toHaveProperty("error");
+    expect(normalizeLineup({ starters: ["p1", "p2", "p3", "p4"], bench: [], captain: "p5" }, roster, config)).toHaveProperty("error");
+  });
+});
+
+describe("lineupForEvent", () => {
+  it("carries the latest earlier lineup forward", () => {
+    const lineups = [lineup("e1", ["a"]), lineup("e3", ["c"])];
+    const order = ["e1", "e2", "e3"];
+    expect(lineupForEvent(lineups, order, "e2")?.event_id).toBe("e1");
+    expect(lineupForEvent(lineups, order, "e3")?.event_id).toBe("e3");
+    expect(lineupForEvent([lineup("e2", ["b"])], order, "e1")).toBeNull();
+  });
+});
+
+describe("isLineupLocked", () => {
+  const now = new Date("2026-05-10T12:00:00Z");
+  it("locks on the event date and once the event has started", () => {
+    expect(isLineupLocked({ event_date: "2026-05-11", majors_status: "entry_open" }, now)).toBe(false);
+    expect(isLineupLocked({ event_date: "2026-05-10", majors_status: "entry_open" }, now)).toBe(true);
+    expect(isLineupLocked({ event_date: "2026-05-12", majors_status: "live" }, now)).toBe(true);
+  });
+});
+
+describe("validateTrade", () => {
+  it("needs equal, owned players on both sides", () => {
+    expect(validateTrade(["a"], ["x"], ["a", "b"], ["x", "y"])).toBeNull();
+    expect(validateTrade(["a", "b"], ["x"], ["a", "b"], ["x", "y"])).toMatch(/same number/);
+    expect(validateTrade(["z"], ["x"], ["a", "b"], ["x", "y"])).toMatch(/your roster/);
+    expect(validateTrade(["a"], ["a"], ["a", "b"], ["x", "y"])).toMatch(/their roster/);
+  });
+});
+
+describe("scoring", () => {
+  it("adds position, birdie, eagle and stableford points", () => {
+    const s = stats("p", { position: 2, birdies: 3, eagles: 1, stableford_points: 36 });
+    expect(scorePlayerEvent(s, config.scoring)).toBe(20 + 3 * 2 + 3 + 36);
+    expect(scorePlayerEvent(stats("p", { position: 40 }), config.scoring)).toBe(0);
+    expect(scorePlayerEvent(stats("p", { position: 1, withdrawn: true }), config.scoring)).toBeNull();
+    expect(scorePlayerEvent(undefined, config.scoring)).toBeNull();
+  });
+
+  it("subs in the bench for non-playing starters and doubles the captain", () => {
+    const played = new Map([
+      ["a", stats("a", { position: 1 })],
+      ["c", stats("c", { position: 3 })],
+      ["d", stats("d", { position: 4 })],
+    ]);
+    const res = scoreLineup(
+      { starters: ["a", "b"], bench: ["x", "c", "d"], captain_profile_id: "a" },
+      played,
+      { ...config, lineupSize: 2 }
+    );
+    expect(res.players).toEqual([
+      { profileId: "a", points: 60, captain: true, subFor: null },
+      { profileId: "c", points: 15, captain: false, subFor: "b" },
+    ]);
+    expect(res.total).toBe(75);
+  });
+
+  it("counts stableford points from hole scores at the playing handicap", () => {
+    const holes = [
+      { holeNumber: 1, par: 4, round: 1, strokeIndex: 1 },
+      { holeNumber: 2, par: 3, round: 1, strokeIndex: 2 },
+    ];
+    // One handicap stroke, taken on SI 1: net par on the 1st, bogey on the 2nd.
+    expect(stablefordFromHoles({ 101: 5, 102: 4 }, holes, 1)).toBe(3);
+    expect(stablefordFromHoles(null, holes, 1)).toBeNull();
+  });
+});
+
+describe("rosterAt", () => {
+  it("counts only players held through the lock", () => {
+    const spots = [
+      { manager_profile_id: "m", player_profile_id: "a", acquired_at: "2026-04-01T10:00:00Z", released_at: null },
+      { manager_profile_id: "m", player_profile_id: "b", acquired_at: "2026-04-01T10:00:00Z", released_at: "2026-05-01T09:00:00Z" },
+      { manager_profile_id: "m", player_profile_id: "c", acquired_at: "2026-05-10T09:00:00Z", released_at: null },
+    ];
+    expect(rosterAt(spots, "m", "2026-05-10")).toEqual(["a"]);
+  });
+});
+
+describe("table and waivers", () => {
+  it("ranks by total with shared ranks, and gives waivers to the bottom first", () => {
+    const table = draftLeagueTable(["a", "b", "c"], [
+      { managerId: "a", eventId: "e1", total: 50 },
+      { managerId: "b", eventId: "e1", total: 80 },
+      { managerId: "c", eventId: "e1", total: 50 },
+    ]);
+    expect(table.map((r) => [r.profileId, r.rank])).toEqual([["b", 1], ["a", 2], ["c", 2]]);
+    // a and c level: the later draft slot claims first.
+    expect(waiverOrder(table, { a: 1, b: 2, c: 3 })).toEqual(["c", "a", "b"]);
+  });
+});
+
+describe("parseDraftConfigInput", () => {
+  it("fills scoring defaults and bounds the lineup by the roster", () => {
+    const ok = parseDraftConfigInput({ rosterSize: 5, lineupSize: 3 });
+    expect(ok).toEqual({ draft: { rosterSize: 5, lineupSize: 3, captainMultiplier: 2, scoring: DEFAULT_DRAFT_CONFIG.scoring } });
+    expect(parseDraftConfigInput({ rosterSize: 3, lineupSize: 4 })).toHaveProperty("error");
+    expect(parseDraftConfigInput({ rosterSize: 5, lineupSize: 3, scoring: { perBirdie: -1 } })).toHaveProperty("error");
+  });
+});
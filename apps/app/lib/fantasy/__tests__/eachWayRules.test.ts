@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EACH_WAY_CONFIG, parseEachWayConfigInput } from "@/lib/fantasy/config";
+import {
+  deadHeatShare,
+  eachWayReturns,
+  finishResults,
+  offersEachWay,
+  placeOdds,
+  placeTermsFor,
+  settleEachWay,
+  simPlaceProbabilities,
+} from "@/lib/fantasy/eachWayRules";
+import type { SimulationResult } from "@/lib/fantasy/simulation/types";
+
+/** Only the fields the place pricing reads; positions laid out [pi * simCount + iter]. */
+function fakeSim(perIter: Record<string, number>[], ids: string[], withPositions = true): SimulationResult {
+  const simCount = perIter.length;
+  const positions = new Int8Array(ids.length * simCount);
+  ids.forEach((id, pi) => {
+    for (let it = 0; it < simCount; it++) positions[pi * simCount + it] = perIter[it][id] ?? 0;
+  });
+  const players = ids.map((id) => {
+    const histogram = new Array<number>(ids.length).fill(0);
+    for (const iter of perIter) if (iter[id]) histogram[iter[id] - 1] += 1 / simCount;
+    return { profileId: id, positionHistogram: histogram };
+  });
+  return {
+    simulationCount: simCount,
+    players,
+    ...(withPositions ? { positions } : {}),
+  } as unknown as SimulationResult;
+}
+
+describe("each-way terms", () => {
+  it("is offered on the event-wide outright and the season winner only", () => {
+    expect(offersEachWay("outright_winner", {})).toBe(true);
+    expect(offersEachWay("outright_winner", { round: 2 })).toBe(false);
+    expect(offersEachWay("season_outright", {})).toBe(true);
+    expect(offersEachWay("top_n", { n: 3 })).toBe(false);
+    expect(offersEachWay("season_top_n", { n: 3 })).toBe(false);
+  });
+
+  it("picks the tier for the field size; small fields are win only", () => {
+    expect(placeTermsFor(DEFAULT_EACH_WAY_CONFIG, 12)).toEqual({ places: 3, fraction: 4 });
+    expect(placeTermsFor(DEFAULT_EACH_WAY_CONFIG, 8)).toEqual({ places: 3, fraction: 4 });
+    expect(placeTermsFor(DEFAULT_EACH_WAY_CONFIG, 7)).toEqual({ places: 2, fraction: 5 });
+    expect(placeTermsFor(DEFAULT_EACH_WAY_CONFIG, 4)).toBeNull();
+    expect(placeTermsFor(null, 20)).toBeNull();
+  });
+
+  it("prices the place part at a fraction of the odds, floored at 1.01", () => {
+    expect(placeOdds(9, 4)).toBe(3);
+    expect(placeOdds(6, 5)).toBe(2);
+    expect(placeOdds(1.02, 5)).toBe(1.01);
+    expect(eachWayReturns(10, 9, 3)).toEqual({ win: 90, place: 30, total: 120 });
+  });
+});
+
+describe("dead heats", () => {
+  it("pays the share of tied slots inside the places", () => {
+    expect(deadHeatShare(1, 1, 3)).toBe(1);
+    expect(deadHeatShare(3, 2, 3)).toBe(0.5);
+    expect(deadHeatShare(2, 3, 3)).toBeCloseTo(2 / 3, 10);
+    expect(deadHeatShare(1, 2, 1)).toBe(0.5);
+    expect(deadHeatShare(4, 1, 3)).toBe(0);
+  });
+
+  it("reads tie sizes off shared positions; no position is void", () => {
+    const results = finishResults([
+      ["a", 1],
+      ["b", 2],
+      ["c", 2],
+      ["d", null],
+    ]);
+    expect(results.get("a")).toEqual({ position: 1, tiedCount: 1 });
+    expect(results.get("c")).toEqual({ position: 2, tiedCount: 2 });
+    expect(results.get("d")).toBeNull();
+  });
+
+  it("settles both parts: 20 pts each-way (10 + 10) @ 9.00, 1/4 odds top 3", () => {
+    const pick = { stake: 20, decimalOdds: 9, placeOdds: 3, places: 3 };
+    expect(settleEachWay(pick, { position: 1, tiedCount: 1 })).toEqual({ outcome: "won", payout: 120 });
+    expect(settleEachWay(pick, { position: 3, tiedCount: 1 })).toEqual({ outcome: "won", payout: 30 });
+    expect(settleEachWay(pick, { position: 4, tiedCount: 1 })).toEqual({ outcome: "lost", payout: 0 });
+    // Two-way tie for 3rd: half the place stake at full odds.
+    expect(settleEachWay(pick, { position: 3, tiedCount: 2 })).toEqual({ outcome: "won", payout: 15 });
+    // Two-way tie for 1st: half the win stake, the full place.
+    expect(settleEachWay(pick, { position: 1, tiedCount: 2 })).toEqual({ outcome: "won", payout: 75 });
+    expect(settleEachWay(pick, null)).toEqual({ outcome: "void", payout: 20 });
+  });
+});
+
+describe("simPlaceProbabilities", () => {
+  const ids = ["a", "b", "c"];
+  const iters = [
+    { a: 1, b: 2, c: 2 },
+    { b: 1, a: 2, c: 3 },
+  ];
+
+  it("credits dead-heat shares across the last paying place", () => {
+    const probs = simPlaceProbabilities(fakeSim(iters, ids), 2);
+    expect(probs.get("a")).toBe(1);
+    expect(probs.get("b")).toBe(0.75);
+    expect(probs.get("c")).toBe(0.25);
+    // Each iteration pays out exactly `places` shares.
+    expect([...probs.values()].reduce((s, p) => s + p, 0)).toBe(2);
+  });
+
+  it("falls back to the position histogram without per-iteration positions", () => {
+    const probs = simPlaceProbabilities(fakeSim(iters, ids, false), 2);
+    expect(probs.get("b")).toBe(1);
+    expect(probs.get("c")).toBe(0.5);
+  });
+});
+
+describe("parseEachWayConfigInput", () => {
+  it("stores tiers largest field first", () => {
+    expect(
+      parseEachWayConfigInput({
+        terms: [
+          { minField: 5, places: 2, fraction: 5 },
+          { minField: 8, places: 3, fraction: 4 },
+        ],
+      })
+    ).toEqual({ eachWay: DEFAULT_EACH_WAY_CONFIG });
+  });
+
+  it("rejects tiers that pay every finisher, clash, or have silly fractions", () => {
+    expect(parseEachWayConfigInput({ terms: [{ minField: 3, places: 3, fraction: 4 }] })).toHaveProperty("error");
+    expect(parseEachWayConfigInput({ terms: [{ minField: 8, places: 3, fraction: 1 }] })).toHaveProperty("error");
+    expect(
+      parseEachWayConfigInput({
+        terms: [
+          { minField: 8, places: 3, fraction: 4 },
+          { minField: 8, places: 2, fraction: 5 },
+        ],
+      })
+    ).toHaveProperty("error");
+    expect(parseEachWayConfigInput({ terms: [] })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  exchangePosition,
+  exposure,
+  findExchangeRestriction,
+  layerLiability,
+  parseExchangeOdds,
+  takerSide,
+} from "@/lib/fantasy/exchangeRules";
+
+const ME = "11111111-1111-1111-1111-111111111111";
+const THEM = "22222222-2222-2222-2222-222222222222";
+
+describe("parseExchangeOdds", () => {
+  it("reads decimal and fractional prices to 2dp", () => {
+    expect(parseExchangeOdds(4)).toBe(4);
+    expect(parseExchangeOdds("3/1")).toBe(4);
+    expect(parseExchangeOdds("11/10")).toBe(2.1);
+    expect(parseExchangeOdds(" 2.555 ")).toBe(2.56);
+  });
+
+  it("rejects prices outside the exchange bounds and junk", () => {
+    expect(parseExchangeOdds(1)).toBeNull();
+    expect(parseExchangeOdds("0/1")).toBeNull();
+    expect(parseExchangeOdds("5/0")).toBeNull();
+    expect(parseExchangeOdds(1001)).toBeNull();
+    expect(parseExchangeOdds("evens")).toBeNull();
+    expect(parseExchangeOdds(null)).toBeNull();
+  });
+});
+
+describe("sides and exposure", () => {
+  it("prices the layer's liability off the backer stake", () => {
+    expect(layerLiability(10, 4)).toBe(30);
+    expect(layerLiability(3, 1.33)).toBe(0.99);
+    expect(exposure("back", 10, 4)).toBe(10);
+    expect(exposure("lay", 10, 4)).toBe(30);
+    expect(takerSide("back")).toBe("lay");
+    expect(takerSide("lay")).toBe("back");
+  });
+});
+
+describe("exchangePosition", () => {
+  const match = {
+    backer_profile_id: ME,
+    layer_profile_id: THEM,
+    backer_stake: 10,
+    layer_liability: 30,
+    status: "open" as const,
+  };
+
+  it("shows each side its risk and upside", () => {
+    expect(exchangePosition(match, ME)).toEqual({ side: "back", risk: 10, toWin: 30, result: null });
+    expect(exchangePosition(match, THEM)).toEqual({ side: "lay", risk: 30, toWin: 10, result: null });
+    expect(exchangePosition(match, "someone-else")).toBeNull();
+  });
+
+  it("nets the result once settled", () => {
+    expect(exchangePosition({ ...match, status: "won" }, ME)?.result).toBe(30);
+    expect(exchangePosition({ ...match, status: "won" }, THEM)?.result).toBe(-30);
+    expect(exchangePosition({ ...match, status: "lost" }, THEM)?.result).toBe(10);
+    expect(exchangePosition({ ...match, status: "void" }, ME)?.result).toBe(0);
+  });
+});
+
+describe("findExchangeRestriction", () => {
+  const h2h = { market_type: "h2h", subject_profile_id: ME, opponent_profile_id: THEM, params: null };
+  const outright = { market_type: "outright_winner", subject_profile_id: null, opponent_profile_id: null, params: null };
+
+  it("backs use the house self-betting rules", () => {
+    expect(findExchangeRestriction(ME, "back", h2h, "a")).toBeNull();
+    expect(findExchangeRestriction(ME, "back", h2h, "b")).not.toBeNull();
+  });
+
+  it("lays allow only laying your opponent in your own matchup", () => {
+    expect(findExchangeRestriction(ME, "lay", h2h, "b")).toBeNull();
+    expect(findExchangeRestriction(ME, "lay", h2h, "a")).not.toBeNull();
+    expect(findExchangeRestriction(ME, "lay", h2h, "draw")).not.toBeNull();
+    expect(findExchangeRestriction(ME, "lay", outright, ME)).not.toBeNull();
+    expect(findExchangeRestriction(ME, "lay", outright, THEM)).toBeNull();
+  });
+});
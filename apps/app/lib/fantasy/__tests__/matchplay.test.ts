@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { mulberry32 } from "@/lib/fantasy/simulation/rng";
+import {
+  marginKey,
+  runMatchplaySimulation,
+  simulateMatch,
+  type MatchplayEventData,
+  type MatchplayFixtureInput,
+} from "@/lib/fantasy/simulation/matchplay";
+import { MARKET_REGISTRY } from "@/lib/fantasy/markets/registry";
+import type { FantasyMarket, FinalScoringData } from "@/lib/fantasy/markets/types";
+import type { SimHole, SimPlayer, SimPlayerProfile } from "@/lib/fantasy/simulation/types";
+import { DEFAULT_LEAGUE_CONFIG } from "@/lib/majors/matchplayLeague";
+
+const PARS = [4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 4, 3, 5, 4, 4, 3, 4, 5];
+
+const holes: SimHole[] = PARS.map((par, i) => ({
+  holeNumber: i + 1,
+  par,
+  yardage: par === 3 ? 165 : par === 4 ? 390 : 520,
+  strokeIndex: i + 1,
+}));
+
+function makeProfile(profileId: string, hi: number, avgGross: number): SimPlayerProfile {
+  return {
+    profileId,
+    handicapIndex: hi,
+    avgGross,
+    scoreStddev: 4,
+    recentForm: 0,
+    birdiesPerRound: 1,
+    eaglesPerRound: 0.05,
+    parsPerRound: 7,
+    bogeysPerRound: 7,
+    doublesPlusPerRound: 3,
+    par3AvgVsPar: null,
+    par4AvgVsPar: null,
+    par5AvgVsPar: null,
+    holeSplits: null,
+    sampleSize: 12,
+    confidence: "high",
+  };
+}
+
+function makePlayer(profileId: string, hi: number, avgGross: number, playingHandicap = hi): SimPlayer {
+  return {
+    profileId,
+    displayName: profileId,
+    profile: makeProfile(profileId, hi, avgGross),
+    playingHandicap,
+    completedHoles: {},
+    roundComplete: false,
+  };
+}
+
+const fixture = (over: Partial<MatchplayFixtureInput>): MatchplayFixtureInput => ({
+  id: "f1",
+  stage_id: null,
+  league: false,
+  side: null,
+  round_number: 1,
+  position: 0,
+  status: "scheduled",
+  result_type: null,
+  winning_entry_id: null,
+  home_entry_id: "ea",
+  away_entry_id: "eb",
+  margin_holes: null,
+  holes_remaining: null,
+  extra_holes_played: null,
+  slots: null,
+  ...over,
+});
+
+const profileByEntry = { ea: "a", eb: "b", ec: "c", ed: "d" };
+
+describe("marginKey", () => {
+  it("buckets finishes on the last green, early finishes, big wins and sudden death", () => {
+    expect(marginKey(1, 0, 0)).toBe("1up");
+    expect(marginKey(2, 0, 0)).toBe("2up");
+    expect(marginKey(3, 2, 0)).toBe("3&2");
+    expect(marginKey(4, 3, 0)).toBe("4&3");
+    expect(marginKey(5, 4, 0)).toBe("5+");
+    expect(marginKey(1, 0, 2)).toBe("extra");
+  });
+});
+
+describe("simulateMatch", () => {
+  it("favours the better player when no strokes change hands", () => {
+    const strong = makePlayer("a", 4, 78, 10);
+    const weak = makePlayer("b", 20, 95, 10);
+    const res = simulateMatch(strong, weak, holes, { knockout: true, simulationCount: 2000, rand: mulberry32(1) });
+    expect(res.home).toBeGreaterThan(0.8);
+    expect(res.halved).toBe(0);
+    expect(res.home + res.away).toBeCloseTo(1, 10);
+    const total = Object.values(res.outcomes).reduce((s, p) => s + p, 0);
+    expect(total).toBeCloseTo(1, 10);
+  });
+
+  it("evens the match up once the handicap difference is given", () => {
+    const strong = makePlayer("a", 4, 78);
+    const weak = makePlayer("b", 20, 95);
+    const res = simulateMatch(strong, weak, holes, { knockout: false, simulationCount: 4000, rand: mulberry32(2) });
+    expect(res.home).toBeGreaterThan(0.25);
+    expect(res.home).toBeLessThan(0.75);
+    expect(res.halved).toBeGreaterThan(0);
+    // Every halved match reaches the last hole.
+    expect(res.distance).toBeGreaterThanOrEqual(res.halved);
+  });
+});
+
+describe("runMatchplaySimulation", () => {
+  const players = [makePlayer("a", 4, 78, 10), makePlayer("b", 10, 86, 10), makePlayer("c", 16, 92, 10), makePlayer("d", 22, 99, 10)];
+
+  it("walks the bracket through its slots, keeping decided results", () => {
+    const data: MatchplayEventData = {
+      profileByEntry,
+      leagueConfig: DEFAULT_LEAGUE_CONFIG,
+      fixtures: [
+        fixture({
+          id: "sf1", side: "winners", home_entry_id: "ea", away_entry_id: "ed", status: "completed",
+          result_type: "away_win", winning_entry_id: "ed", margin_holes: 1, holes_remaining: 0,
+          slots: [{ type: "entry", entry_id: "ea" }, { type: "entry", entry_id: "ed" }],
+        }),
+        fixture({
+          id: "sf2", side: "winners", position: 1, home_entry_id: "eb", away_entry_id: "ec",
+          slots: [{ type: "entry", entry_id: "eb" }, { type: "entry", entry_id: "ec" }],
+        }),
+        fixture({
+          id: "final", side: "winners", round_number: 2, home_entry_id: null, away_entry_id: null,
+          slots: [{ type: "winner_of", fixture: "sf1" }, { type: "winner_of", fixture: "sf2" }],
+        }),
+      ],
+    };
+    const res = runMatchplaySimulation({ data, players, holes, simulationCount: 2000, seed: 7 });
+    const winner = res.bracketWinner!;
+    expect(winner.a ?? 0).toBe(0);
+    expect(Object.values(winner).reduce((s, p) => s + p, 0)).toBeCloseTo(1, 10);
+    expect(winner.b).toBeGreaterThan(winner.c);
+    // Only the open semi-final is priced as a fixture.
+    expect(Object.keys(res.fixtures)).toEqual(["sf2"]);
+  });
+
+  it("plays out the rest of a league from the results so far", () => {
+    const pairs: [string, string][] = [["ea", "eb"], ["ec", "ed"], ["ea", "ec"], ["eb", "ed"], ["ea", "ed"], ["eb", "ec"]];
+    const data: MatchplayEventData = {
+      profileByEntry,
+      leagueConfig: DEFAULT_LEAGUE_CONFIG,
+      fixtures: pairs.map(([home, away], i) =>
+        fixture({
+          id: `f${i}`, league: true, round_number: Math.floor(i / 2) + 1, home_entry_id: home, away_entry_id: away,
+          ...(i < 4
+            ? { status: "completed", result_type: "away_win" as const, winning_entry_id: away, margin_holes: 2, holes_remaining: 1 }
+            : {}),
+        })
+      ),
+    };
+    const res = runMatchplaySimulation({ data, players, holes, simulationCount: 2000, seed: 3 });
+    const league = res.leagueWinner[""];
+    // d has won both games so far; a has lost both and can't catch up.
+    expect(league.d).toBeGreaterThan(0.5);
+    expect(league.a ?? 0).toBe(0);
+    expect(res.bracketWinner).toBeNull();
+  });
+});
+
+describe("matchplay market settlement", () => {
+  const market = (over: Partial<FantasyMarket>): FantasyMarket => ({
+    id: "m1",
+    event_id: "e1",
+    group_id: "g1",
+    market_type: "match_margin",
+    subject_profile_id: "a",
+    opponent_profile_id: "b",
+    params: { fixture_id: "f1", league: false },
+    status: "open",
+    settled_at: null,
+    ...over,
+  });
+  const final = (fixtures: MatchplayFixtureInput[]): FinalScoringData => ({
+    players: {},
+    fieldSize: 0,
+    holes: [],
+    field: { ace: null, albatross: null, eagle: null },
+    matchplay: { fixtures, profileByEntry, leagueConfig: DEFAULT_LEAGUE_CONFIG },
+  });
+
+  it("settles winner, margin and distance from the fixture result", () => {
+    const done = final([
+      fixture({ status: "completed", result_type: "home_win", winning_entry_id: "ea", margin_holes: 3, holes_remaining: 2 }),
+    ]);
+    const margin = MARKET_REGISTRY.match_margin.settle(done, market({}));
+    expect(margin.get("home:3&2")).toBe("won");
+    expect(margin.get("away:3&2")).toBe("lost");
+    expect(MARKET_REGISTRY.match_winner.settle(done, market({ market_type: "match_winner" })).get("home")).toBe("won");
+    expect(MARKET_REGISTRY.match_distance.settle(done, market({ market_type: "match_distance" })).get("no")).toBe("won");
+  });
+
+  it("stays open while undecided and voids walkovers", () => {
+    expect(MARKET_REGISTRY.match_winner.settle(final([fixture({})]), market({ market_type: "match_winner" })).size).toBe(0);
+    const walkover = final([fixture({ status: "walkover", result_type: "walkover_home", winning_entry_id: "ea" })]);
+    const outcomes = MARKET_REGISTRY.match_winner.settle(walkover, market({ market_type: "match_winner" }));
+    expect([...outcomes.values()]).toEqual(["void", "void"]);
+  });
+
+  it("settles the bracket winner from the final", () => {
+    const bracket = final([
+      fixture({
+        id: "final", side: "winners", status: "completed", result_type: "away_win", winning_entry_id: "eb",
+        slots: [{ type: "entry", entry_id: "ea" }, { type: "entry", entry_id: "eb" }],
+      }),
+    ]);
+    const outcomes = MARKET_REGISTRY.bracket_winner.settle(bracket, market({ market_type: "bracket_winner", params: {} }));
+    expect(outcomes.get("b")).toBe("won");
+    expect(outcomes.get("a")).toBe("lost");
+  });
+
+  it("waits for the reset final when the losers-bracket winner takes the first", () => {
+    const grandFinal = (winner: string) =>
+      fixture({
+        id: "gf", side: "final", home_entry_id: "ea", away_entry_id: "eb", status: "completed",
+        result_type: winner === "ea" ? "home_win" : "away_win", winning_entry_id: winner,
+        slots: [{ type: "entry", entry_id: "ea" }, { type: "entry", entry_id: "eb" }],
+      });
+    const reset = (over: Partial<MatchplayFixtureInput>) =>
+      fixture({
+        id: "reset", side: "final", round_number: 2,
+        slots: [{ type: "winner_of", fixture: "gf" }, { type: "loser_of", fixture: "gf" }],
+        ...over,
+      });
+    const settle = (fixtures: MatchplayFixtureInput[]) =>
+      MARKET_REGISTRY.bracket_winner.settle(final(fixtures), market({ market_type: "bracket_winner", params: {} }));
+
+    expect(settle([grandFinal("ea"), reset({ status: "cancelled" })]).get("a")).toBe("won");
+    expect(settle([grandFinal("eb"), reset({ home_entry_id: "eb", away_entry_id: "ea" })]).size).toBe(0);
+    const replayed = settle([
+      grandFinal("eb"),
+      reset({ home_entry_id: "eb", away_entry_id: "ea", status: "completed", result_type: "away_win", winning_entry_id: "ea" }),
+    ]);
+    expect(replayed.get("a")).toBe("won");
+    expect(replayed.get("b")).toBe("lost");
+  });
+});
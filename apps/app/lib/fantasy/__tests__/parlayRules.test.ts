@@ -124,6 +124,11 @@ describe("findParlayViolation", () => {
     selectionKey: player,
   });
 
+  it("rejects each-way legs — each-way is singles only", () => {
+    expect(findParlayViolation([{ ...winner(P1), eachWay: true }, top3(P2)])).toMatch(/singles only/);
+    expect(findParlayViolation([{ ...winner(P1), eachWay: false }, top3(P2)])).toBeNull();
+  });
+
   it("allows two different players in the same top-3 market (joint-priced)", () => {
     expect(findParlayViolation([top3(P1), top3(P2)])).toBeNull();
   });
@@ -96,4 +96,47 @@ describe("simulateSeason", () => {
     const sum = res.players.reduce((s, p) => s + p.winProb, 0);
     expect(sum).toBeCloseTo(1, 6);
   });
+
+  it("place probabilities split dead heats across the last paying place", () => {
+    const res = simulateSeason({
+      currentPoints: { A: 30, B: 20, C: 20, D: 5 },
+      playerIds: ["A", "B", "C", "D"],
+      remaining: [],
+      iterations: 50,
+      seed: 2,
+    });
+    const place = (id: string) => res.players.find((p) => p.profileId === id)!.placeProbs;
+    // Top 2 pays A in full and half each to B and C (tied for 2nd).
+    expect(place("A")[1]).toBeCloseTo(1, 6);
+    expect(place("B")[1]).toBeCloseTo(0.5, 6);
+    expect(place("C")[2]).toBeCloseTo(1, 6);
+    expect(place("D")[2]).toBe(0);
+    // places = 1 matches the tie-split winner price.
+    expect(place("A")[0]).toBeCloseTo(res.players[0].winProb, 6);
+  });
+
+  it("re-selects banked and simulated results under a best-N rule", () => {
+    // e3 always finishes B 1st (30), A 2nd (20).
+    const ev: RemainingEvent = {
+      eventId: "e3",
+      matrix: matrix(["A", "B"], [{ B: 1, A: 2 }]),
+      points: { pointsModel: "position_based", pointsTable: { "1": 30, "2": 20 }, fieldSize: 2 },
+    };
+    const base = { currentPoints: { A: 100, B: 60 }, playerIds: ["A", "B"], remaining: [ev], iterations: 50, seed: 5 };
+    const results = {
+      A: [{ event_id: "e1", points: 50 }, { event_id: "e2", points: 50 }],
+      B: [{ event_id: "e1", points: 60 }],
+    };
+    const winProb = (res: ReturnType<typeof simulateSeason>, id: string) =>
+      res.players.find((p) => p.profileId === id)!.winProb;
+
+    // Every result counts: A 120 vs B 90.
+    expect(winProb(simulateSeason(base), "A")).toBeCloseTo(1, 6);
+    // Best 1: A's best is 50, B's is 60.
+    const best1 = simulateSeason({
+      ...base,
+      counting: { rule: { mode: "best_n", n: 1, mandatory_event_ids: [] }, results, eventsHeld: 2 },
+    });
+    expect(winProb(best1, "B")).toBeCloseTo(1, 6);
+  });
 });
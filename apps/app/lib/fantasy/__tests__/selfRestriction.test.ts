@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { findSelfRestriction } from "@/lib/fantasy/selfRestriction";
+import { findLayRestriction, findSelfRestriction } from "@/lib/fantasy/selfRestriction";
 
 const ME = "11111111-1111-1111-1111-111111111111";
 const THEM = "22222222-2222-2222-2222-222222222222";
@@ -96,3 +96,21 @@ describe("findSelfRestriction", () => {
     expect(findSelfRestriction(null, market("score_band", { basis: "gross" }), "ge_87")).toBeNull();
   });
 });
+
+describe("findLayRestriction", () => {
+  it("match winner: only your opponent's side can be laid", () => {
+    const asHome = market("match_winner", null, ME, THEM);
+    expect(findLayRestriction(ME, asHome, "away")).toBeNull();
+    expect(findLayRestriction(ME, asHome, "home")).not.toBeNull();
+    expect(findLayRestriction(ME, asHome, "halved")).not.toBeNull();
+    const asAway = market("match_winner", null, THEM, ME);
+    expect(findLayRestriction(ME, asAway, "home")).toBeNull();
+  });
+
+  it("any other market about yourself can't be laid; other players' can", () => {
+    expect(findLayRestriction(ME, market("birdies", { line: 1.5 }), "over")).not.toBeNull();
+    expect(findLayRestriction(ME, market("score_total", { basis: "gross" }), "u_82")).not.toBeNull();
+    expect(findLayRestriction(ME, market("birdies", { line: 1.5 }, THEM), "over")).toBeNull();
+    expect(findLayRestriction(ME, market("top_n", { n: 3 }, null), ME)).not.toBeNull();
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Model backtesting — pure. Replays a settled event's pre-event simulation
+ * from the inputs captured at generation time (fantasy_generation_inputs),
+ * pairs every priced selection with how it actually settled, and scores the
+ * forecasts: Brier, log-loss and a reliability curve, broken down by market
+ * type, handicap band and profile model version.
+ *
+ * Shared by the admin report (lib/fantasy/backtestReplay.ts loads real
+ * events) and the fixture-driven vitest command (npm run backtest), so a
+ * model change can be judged on the same numbers before it ships. No server
+ * imports allowed here.
+ */
+
+import { getMarketDefinition } from "@/lib/fantasy/markets/registry";
+import type { FantasyMarket, FinalScoringData } from "@/lib/fantasy/markets/types";
+import { runSimulation } from "@/lib/fantasy/simulation/engine";
+import { hashSeed } from "@/lib/fantasy/simulation/rng";
+import {
+  clampProbability,
+  type RankingBasis,
+  type SimHole,
+  type SimPlayer,
+  type SimPlayerProfile,
+} from "@/lib/fantasy/simulation/types";
+
+/**
+ * Lighter than the live board's 20k: a backtest replays many events in one
+ * request, and calibration error dwarfs the Monte Carlo noise at this count.
+ */
+export const BACKTEST_SIMULATION_COUNT = 5_000;
+
+export const RELIABILITY_BINS = 10;
+
+/** One field member as frozen at generation time. */
+export type BacktestPlayer = {
+  profileId: string;
+  playingHandicap: number;
+  /** Provisional members' attendance probability; absent = confirmed. */
+  attendanceProb?: number;
+  handicapIndex: number | null;
+  /** fantasy_player_profiles.model_version the profile was built with. */
+  modelVersion: number | null;
+  profile: SimPlayerProfile;
+};
+
+/** Everything needed to replay one event — also the fixture file shape. */
+export type BacktestEventInput = {
+  eventId: string;
+  label?: string;
+  rankingBasis: RankingBasis;
+  holes: SimHole[];
+  players: BacktestPlayer[];
+  /** The event's settled markets. */
+  markets: FantasyMarket[];
+  final: FinalScoringData;
+};
+
+export type HandicapBand = "0-9" | "10-18" | "19-27" | "28+" | "unknown" | "field";
+
+export const HANDICAP_BANDS: { id: HandicapBand; label: string }[] = [
+  { id: "0-9", label: "Up to 9.9" },
+  { id: "10-18", label: "10 – 18.9" },
+  { id: "19-27", label: "19 – 27.9" },
+  { id: "28+", label: "28+" },
+  { id: "unknown", label: "No handicap" },
+  { id: "field", label: "Field markets" },
+];
+
+/** One priced selection with a won/lost result (voids are dropped). */
+export type ForecastRecord = {
+  eventId: string;
+  marketId: string;
+  marketType: string;
+  selectionKey: string;
+  handicapBand: HandicapBand;
+  /** "v3", or "unknown" for profiles captured without a version. */
+  modelVersion: string;
+  probability: number;
+  outcome: 0 | 1;
+};
+
+export type ReliabilityBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+};
+
+export type CalibrationSummary = {
+  count: number;
+  brier: number;
+  logLoss: number;
+  meanPredicted: number;
+  observedRate: number;
+  reliability: ReliabilityBin[];
+};
+
+export type BacktestEventSummary = {
+  eventId: string;
+  label: string | null;
+  forecastCount: number;
+  brier: number;
+  logLoss: number;
+};
+
+export type BacktestReport = {
+  eventCount: number;
+  forecastCount: number;
+  simulationCount: number;
+  overall: CalibrationSummary;
+  byMarketType: Record<string, CalibrationSummary>;
+  byHandicapBand: Partial<Record<HandicapBand, CalibrationSummary>>;
+  byModelVersion: Record<string, CalibrationSummary>;
+  events: BacktestEventSummary[];
+};
+
+type Scored = { probability: number; outcome: 0 | 1 };
+
+/** Log-loss clamp — a 0/1 forecast that misses would otherwise be infinite. */
+const LOG_EPSILON = 1e-6;
+
+export function handicapBand(handicapIndex: number | null | undefined): HandicapBand {
+  if (handicapIndex == null || !Number.isFinite(handicapIndex)) return "unknown";
+  if (handicapIndex < 10) return "0-9";
+  if (handicapIndex < 19) return "10-18";
+  if (handicapIndex < 28) return "19-27";
+  return "28+";
+}
+
+export function modelVersionKey(version: number | null | undefined): string {
+  return version == null ? "unknown" : `v${version}`;
+}
+
+/** Mean squared error of the probabilities; 0 is perfect, 0.25 is a coin flip at 50%. */
+export function brierScore(records: Scored[]): number {
+  if (records.length === 0) return 0;
+  let sum = 0;
+  for (const r of records) sum += (r.probability - r.outcome) ** 2;
+  return sum / records.length;
+}
+
+/** Mean negative log-likelihood (natural log) of the realised outcomes. */
+export function logLoss(records: Scored[]): number {
+  if (records.length === 0) return 0;
+  let sum = 0;
+  for (const r of records) {
+    const p = Math.min(1 - LOG_EPSILON, Math.max(LOG_EPSILON, r.probability));
+    sum -= r.outcome === 1 ? Math.log(p) : Math.log(1 - p);
+  }
+  return sum / records.length;
+}
+
+/**
+ * Equal-width probability bins; only non-empty bins are returned. A
+ * calibrated model has observedRate ≈ meanPredicted in every bin.
+ */
+export function reliabilityCurve(records: Scored[], bins = RELIABILITY_BINS): ReliabilityBin[] {
+  const acc = Array.from({ length: bins }, () => ({ count: 0, predicted: 0, observed: 0 }));
+  for (const r of records) {
+    const i = Math.min(bins - 1, Math.max(0, Math.floor(r.probability * bins)));
+    acc[i].count += 1;
+    acc[i].predicted += r.probability;
+    acc[i].observed += r.outcome;
+  }
+  const out: ReliabilityBin[] = [];
+  acc.forEach((b, i) => {
+    if (b.count === 0) return;
+    out.push({
+      lower: i / bins,
+      upper: (i + 1) / bins,
+      count: b.count,
+      meanPredicted: b.predicted / b.count,
+      observedRate: b.observed / b.count,
+    });
+  });
+  return out;
+}
+
+export function summarize(records: Scored[]): CalibrationSummary {
+  const count = records.length;
+  let predicted = 0;
+  let observed = 0;
+  for (const r of records) {
+    predicted += r.probability;
+    observed += r.outcome;
+  }
+  return {
+    count,
+    brier: brierScore(records),
+    logLoss: logLoss(records),
+    meanPredicted: count > 0 ? predicted / count : 0,
+    observedRate: count > 0 ? observed / count : 0,
+    reliability: reliabilityCurve(records),
+  };
+}
+
+function summarizeBy<K extends string>(
+  records: ForecastRecord[],
+  key: (r: ForecastRecord) => K
+): Record<K, CalibrationSummary> {
+  const groups = new Map<K, ForecastRecord[]>();
+  for (const r of records) {
+    const k = key(r);
+    const list = groups.get(k);
+    if (list) list.push(r);
+    else groups.set(k, [r]);
+  }
+  const out = {} as Record<K, CalibrationSummary>;
+  for (const [k, list] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    out[k] = summarize(list);
+  }
+  return out;
+}
+
+export function buildBacktestReport(
+  events: { eventId: string; label?: string }[],
+  records: ForecastRecord[],
+  simulationCount = BACKTEST_SIMULATION_COUNT
+): BacktestReport {
+  return {
+    eventCount: events.length,
+    forecastCount: records.length,
+    simulationCount,
+    overall: summarize(records),
+    byMarketType: summarizeBy(records, (r) => r.marketType),
+    byHandicapBand: summarizeBy(records, (r) => r.handicapBand),
+    byModelVersion: summarizeBy(records, (r) => r.modelVersion),
+    events: events.map((e) => {
+      const mine = records.filter((r) => r.eventId === e.eventId);
+      return {
+        eventId: e.eventId,
+        label: e.label ?? null,
+        forecastCount: mine.length,
+        brier: brierScore(mine),
+        logLoss: logLoss(mine),
+      };
+    }),
+  };
+}
+
+/**
+ * The player a selection is about: the selection itself for field-wide
+ * player markets (outright, top N), the opponent for h2h "b", the subject
+ * otherwise. Null for field-level selections (h2h draw, field specials).
+ */
+function selectionPlayer(
+  market: FantasyMarket,
+  selectionKey: string,
+  byId: Map<string, BacktestPlayer>
+): BacktestPlayer | null {
+  if (byId.has(selectionKey)) return byId.get(selectionKey)!;
+  if (market.market_type === "h2h") {
+    if (selectionKey === "a") return byId.get(market.subject_profile_id ?? "") ?? null;
+    if (selectionKey === "b") return byId.get(market.opponent_profile_id ?? "") ?? null;
+    return null;
+  }
+  return byId.get(market.subject_profile_id ?? "") ?? null;
+}
+
+/** Most common model version in the field (field-level selections use it). */
+function fieldModelVersion(players: BacktestPlayer[]): number | null {
+  const counts = new Map<number | null, number>();
+  for (const p of players) counts.set(p.modelVersion, (counts.get(p.modelVersion) ?? 0) + 1);
+  let best: number | null = null;
+  let bestCount = -1;
+  for (const [version, count] of counts) {
+    if (count > bestCount) {
+      best = version;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Re-price one event from its frozen pre-event inputs (no holes played) and
+ * score every selection against its settlement. Matchplay markets are skipped
+ * (fixtures aren't captured); void selections carry no information and are
+ * dropped. Deterministic per event for a given simulation count.
+ */
+export function replayEventForecasts(
+  input: BacktestEventInput,
+  simulationCount = BACKTEST_SIMULATION_COUNT
+): ForecastRecord[] {
+  if (input.players.length < 2) return [];
+  const players: SimPlayer[] = input.players.map((p) => ({
+    profileId: p.profileId,
+    displayName: p.profileId,
+    profile: p.profile,
+    playingHandicap: p.playingHandicap,
+    completedHoles: {},
+    roundComplete: false,
+    ...(p.attendanceProb != null ? { attendanceProb: p.attendanceProb } : {}),
+  }));
+  const sim = runSimulation({
+    players,
+    holes: input.holes,
+    rankingBasis: input.rankingBasis,
+    simulationCount,
+    seed: hashSeed(input.eventId, "backtest"),
+  });
+
+  const byId = new Map(input.players.map((p) => [p.profileId, p]));
+  const fieldVersion = fieldModelVersion(input.players);
+  const out: ForecastRecord[] = [];
+  for (const market of input.markets) {
+    const def = getMarketDefinition(market.market_type);
+    if (!def || def.matchplay) continue;
+    let outcomes;
+    try {
+      outcomes = def.settle(input.final, market);
+    } catch {
+      continue;
+    }
+    for (const [selectionKey, raw] of def.simulate(sim, market)) {
+      const outcome = outcomes.get(selectionKey);
+      if (outcome !== "won" && outcome !== "lost") continue;
+      const player = selectionPlayer(market, selectionKey, byId);
+      out.push({
+        eventId: input.eventId,
+        marketId: market.id,
+        marketType: market.market_type,
+        selectionKey,
+        handicapBand: player ? handicapBand(player.handicapIndex) : "field",
+        modelVersion: modelVersionKey(player ? player.modelVersion : fieldVersion),
+        // The price the board would have posted, floor/ceiling included.
+        probability: clampProbability(raw),
+        outcome: outcome === "won" ? 1 : 0,
+      });
+    }
+  }
+  return out;
+}
+
+/** Replay a batch of events into one report. */
+export function runBacktest(
+  events: BacktestEventInput[],
+  simulationCount = BACKTEST_SIMULATION_COUNT
+): BacktestReport {
+  const records = events.flatMap((e) => replayEventForecasts(e, simulationCount));
+  return buildBacktestReport(events, records, simulationCount);
+}
@@ -0,0 +1,144 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { loadFinalScoringData } from "@/lib/fantasy/settlement";
+import {
+  runBacktest,
+  type BacktestEventInput,
+  type BacktestPlayer,
+  type BacktestReport,
+} from "@/lib/fantasy/backtest";
+import type { FantasyMarket } from "@/lib/fantasy/markets/types";
+import type { RankingBasis, SimHole } from "@/lib/fantasy/simulation/types";
+
+/**
+ * Backtest loader — turns a group's settled events into the pure harness's
+ * inputs (lib/fantasy/backtest.ts) and stores each run for the admin report.
+ *
+ * An event is replayable once it's final AND has captured generation inputs
+ * (captureGenerationInputs in odds.ts); events priced before capture existed
+ * have no frozen profiles and are skipped rather than replayed with today's.
+ * Outcomes come from the same loadFinalScoringData settlement used.
+ */
+
+/** Most recent settled events per run — keeps a run inside one request. */
+export const MAX_BACKTEST_EVENTS = 40;
+
+export type BacktestRun = {
+  id: string;
+  group_id: string;
+  created_by: string | null;
+  event_count: number;
+  forecast_count: number;
+  report: BacktestReport;
+  created_at: string;
+};
+
+type GenerationInputsRow = {
+  event_id: string;
+  group_id: string;
+  event_version: number;
+  ranking_basis: RankingBasis;
+  players: BacktestPlayer[];
+  holes: SimHole[];
+  captured_at: string;
+};
+
+async function loadEventNames(eventIds: string[]): Promise<Map<string, string>> {
+  if (eventIds.length === 0) return new Map();
+  const { data, error } = await supabaseAdmin.from("events").select("id, name").in("id", eventIds);
+  if (error) throw error;
+  return new Map(((data ?? []) as { id: string; name: string }[]).map((e) => [e.id, e.name]));
+}
+
+async function toEventInput(row: GenerationInputsRow, label: string | undefined): Promise<BacktestEventInput> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_markets")
+    .select("*")
+    .eq("event_id", row.event_id)
+    .eq("status", "settled");
+  if (error) throw error;
+  const final = await loadFinalScoringData(row.event_id);
+  return {
+    eventId: row.event_id,
+    ...(label ? { label } : {}),
+    rankingBasis: row.ranking_basis,
+    holes: row.holes,
+    players: row.players,
+    markets: (data ?? []) as FantasyMarket[],
+    final,
+  };
+}
+
+/** Replayable settled events for a group, newest first. */
+export async function loadBacktestEvents(groupId: string): Promise<BacktestEventInput[]> {
+  const { data: stateData, error: stateErr } = await supabaseAdmin
+    .from("fantasy_event_state")
+    .select("event_id")
+    .eq("group_id", groupId)
+    .eq("is_final", true);
+  if (stateErr) throw stateErr;
+  const finalIds = ((stateData ?? []) as { event_id: string }[]).map((r) => r.event_id);
+  if (finalIds.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_generation_inputs")
+    .select("*")
+    .in("event_id", finalIds)
+    .order("captured_at", { ascending: false })
+    .limit(MAX_BACKTEST_EVENTS);
+  if (error) throw error;
+  const rows = (data ?? []) as GenerationInputsRow[];
+  const names = await loadEventNames(rows.map((r) => r.event_id));
+
+  // Sequential: each final load fans out several queries of its own.
+  const out: BacktestEventInput[] = [];
+  for (const row of rows) out.push(await toEventInput(row, names.get(row.event_id)));
+  return out;
+}
+
+/** Replay every replayable event and store the report. */
+export async function runGroupBacktest(groupId: string, createdBy: string): Promise<BacktestRun> {
+  const events = await loadBacktestEvents(groupId);
+  const report = runBacktest(events);
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_backtest_runs")
+    .insert({
+      group_id: groupId,
+      created_by: createdBy,
+      event_count: report.eventCount,
+      forecast_count: report.forecastCount,
+      report,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as BacktestRun;
+}
+
+export async function getLatestBacktest(groupId: string): Promise<BacktestRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_backtest_runs")
+    .select("*")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as BacktestRun | null) ?? null;
+}
+
+/**
+ * One event as a fixture file for the vitest backtest command
+ * (lib/fantasy/__tests__/fixtures/backtest/). Null when the event hasn't
+ * settled or was priced before inputs were captured.
+ */
+export async function buildBacktestFixture(eventId: string): Promise<BacktestEventInput | null> {
+  const [{ data: stateRow, error: stateErr }, { data: inputRow, error: inputErr }] = await Promise.all([
+    supabaseAdmin.from("fantasy_event_state").select("is_final").eq("event_id", eventId).maybeSingle(),
+    supabaseAdmin.from("fantasy_generation_inputs").select("*").eq("event_id", eventId).maybeSingle(),
+  ]);
+  if (stateErr) throw stateErr;
+  if (inputErr) throw inputErr;
+  if (!(stateRow as { is_final: boolean } | null)?.is_final || !inputRow) return null;
+  const names = await loadEventNames([eventId]);
+  return toEventInput(inputRow as GenerationInputsRow, names.get(eventId));
+}
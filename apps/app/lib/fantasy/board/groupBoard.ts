@@ -9,6 +9,8 @@
  * richer than the seven generic sections.
  */
 
+import type { PlaceTerms } from "@/lib/fantasy/eachWayRules";
+
 export type Selection = {
   key: string;
   label: string;
@@ -16,6 +18,8 @@ export type Selection = {
   decimal_odds: number;
   snapshot_id: string;
   event_version: number;
+  /** Place terms when the selection can be backed each-way. */
+  each_way?: PlaceTerms | null;
 };
 
 export type BoardMarket = {
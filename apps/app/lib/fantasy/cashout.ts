@@ -21,6 +21,9 @@ import {
  *      with their own next score entry (e.g. 1+ birdie on yourself)
  *   4. registry cashoutCutoff — settled/closed/round-complete/decided
  *   5. force-fresh odds, then mathematically-resolved check (clamped p)
+ *
+ * Each-way picks quote each part on its own probability (win from the
+ * snapshot's probability, place from its place_probability) and sum them.
  */
 
 export const CASHOUT_DISCOUNT = 0.9;
@@ -34,6 +37,18 @@ export function computeCashoutValue(
   return Math.round(probability * potentialReturn * discount * 100) / 100;
 }
 
+/** Both parts of an each-way pick, each at its current probability; stake is the total. */
+export function computeEachWayCashoutValue(
+  winProbability: number,
+  placeProbability: number,
+  pick: { stake: number; decimalOdds: number; placeOdds: number },
+  discount = CASHOUT_DISCOUNT
+): number {
+  const unit = pick.stake / 2;
+  const expected = winProbability * unit * pick.decimalOdds + placeProbability * unit * pick.placeOdds;
+  return Math.round(expected * discount * 100) / 100;
+}
+
 export type CashoutOffer = {
   id: string;
   pick_id: string;
@@ -51,7 +66,10 @@ type PickRow = {
   profile_id: string;
   selection_key: string;
   stake: number;
+  decimal_odds: number;
   potential_return: number;
+  each_way: boolean;
+  place_odds: number | null;
   pick_version: number;
   status: string;
 };
@@ -161,7 +179,7 @@ export async function requestCashout(params: {
 
   const { data: snapRow, error: snapErr } = await supabaseAdmin
     .from("fantasy_odds_snapshots")
-    .select("probability")
+    .select("probability, place_probability")
     .eq("market_id", pick.market_id)
     .eq("selection_key", pick.selection_key)
     .eq("event_version", version)
@@ -169,13 +187,32 @@ export async function requestCashout(params: {
     .maybeSingle();
   if (snapErr) throw snapErr;
   if (!snapRow) throw new PickError("No current odds for this pick — try again shortly", 409);
+  const snap = snapRow as { probability: number; place_probability: number | null };
 
-  const probability = Number((snapRow as { probability: number }).probability);
-  if (probability <= PROBABILITY_FLOOR || probability >= PROBABILITY_CEILING) {
-    throw new PickError("Cash-out is unavailable — market is already decided");
+  let probability = Number(snap.probability);
+  let value: number;
+  if (pick.each_way && pick.place_odds != null) {
+    if (snap.place_probability == null) {
+      throw new PickError("No current place odds for this pick — try again shortly", 409);
+    }
+    // Decided once the place part can't land or the win part is certain.
+    const placeProbability = Number(snap.place_probability);
+    if (placeProbability <= PROBABILITY_FLOOR || probability >= PROBABILITY_CEILING) {
+      throw new PickError("Cash-out is unavailable — market is already decided");
+    }
+    value = computeEachWayCashoutValue(probability, placeProbability, {
+      stake: Number(pick.stake),
+      decimalOdds: Number(pick.decimal_odds),
+      placeOdds: Number(pick.place_odds),
+    });
+    // The offer row records the blended chance of the full potential return.
+    probability = Math.min(1, Math.round((value / (CASHOUT_DISCOUNT * Number(pick.potential_return))) * 1e6) / 1e6);
+  } else {
+    if (probability <= PROBABILITY_FLOOR || probability >= PROBABILITY_CEILING) {
+      throw new PickError("Cash-out is unavailable — market is already decided");
+    }
+    value = computeCashoutValue(probability, Number(pick.potential_return));
   }
-
-  const value = computeCashoutValue(probability, Number(pick.potential_return));
   if (value < 0.01) {
     throw new PickError("Cash-out value is too low to offer");
   }
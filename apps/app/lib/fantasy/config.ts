@@ -1,4 +1,10 @@
-import type { FantasyConfig } from "@/lib/fantasy/types";
+import type {
+  DraftLeagueConfig,
+  DraftScoring,
+  EachWayConfig,
+  EachWayTerms,
+  FantasyConfig,
+} from "@/lib/fantasy/types";
 
 /**
  * Validation for fantasy points quantities: whole points, sane upper bound.
@@ -19,8 +25,132 @@ export type FantasyConfigInput = {
   budgetScope: unknown;
   budgetAmount: unknown;
   topupIncrement?: unknown;
+  /** Draft league settings; null/absent = no draft league. */
+  draft?: unknown;
+  /** Each-way place terms; null/absent = win-only outrights. */
+  eachWay?: unknown;
 };
 
+export const DEFAULT_DRAFT_SCORING: DraftScoring = {
+  positionPoints: [30, 20, 15, 12, 10, 8, 6, 4, 2, 1],
+  perBirdie: 2,
+  perEagle: 3,
+  perStablefordPoint: 1,
+};
+
+export const DEFAULT_DRAFT_CONFIG: DraftLeagueConfig = {
+  rosterSize: 6,
+  lineupSize: 4,
+  captainMultiplier: 2,
+  scoring: DEFAULT_DRAFT_SCORING,
+};
+
+/** Standard terms: 1/4 odds for a top-3 finish in fields of 8+, 1/5 for a top-2 in fields of 5–7. */
+export const DEFAULT_EACH_WAY_CONFIG: EachWayConfig = {
+  terms: [
+    { minField: 8, places: 3, fraction: 4 },
+    { minField: 5, places: 2, fraction: 5 },
+  ],
+};
+
+const MAX_EACH_WAY_TIERS = 4;
+export const MAX_EACH_WAY_PLACES = 5;
+const MAX_EACH_WAY_FRACTION = 10;
+
+const MAX_ROSTER_SIZE = 15;
+const MAX_SCORING_VALUE = 1000;
+
+function wholeInRange(value: unknown, min: number, max: number): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min || n > max) return null;
+  return n;
+}
+
+function scoringValue(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < 0 || n > MAX_SCORING_VALUE) return null;
+  return n;
+}
+
+/**
+ * Validate the draft league block of a fantasy config payload. Omitted
+ * scoring fields fall back to DEFAULT_DRAFT_SCORING.
+ */
+export function parseDraftConfigInput(value: unknown): { draft: DraftLeagueConfig } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "draft must be an object" };
+  const v = value as Record<string, unknown>;
+
+  const rosterSize = wholeInRange(v.rosterSize, 2, MAX_ROSTER_SIZE);
+  if (rosterSize === null) {
+    return { error: `draft.rosterSize must be a whole number between 2 and ${MAX_ROSTER_SIZE}` };
+  }
+  const lineupSize = wholeInRange(v.lineupSize, 1, rosterSize);
+  if (lineupSize === null) {
+    return { error: "draft.lineupSize must be a whole number between 1 and the roster size" };
+  }
+  const captainMultiplier = v.captainMultiplier === undefined ? DEFAULT_DRAFT_CONFIG.captainMultiplier : Number(v.captainMultiplier);
+  if (!Number.isFinite(captainMultiplier) || captainMultiplier < 1 || captainMultiplier > 3) {
+    return { error: "draft.captainMultiplier must be between 1 and 3" };
+  }
+
+  const raw = (v.scoring && typeof v.scoring === "object" ? v.scoring : {}) as Record<string, unknown>;
+  const scoring: DraftScoring = { ...DEFAULT_DRAFT_SCORING };
+  if (raw.positionPoints !== undefined) {
+    if (!Array.isArray(raw.positionPoints) || raw.positionPoints.length > 50) {
+      return { error: "draft.scoring.positionPoints must be a list of up to 50 values" };
+    }
+    const points = raw.positionPoints.map(scoringValue);
+    if (points.some((p) => p === null)) {
+      return { error: `draft.scoring.positionPoints must be between 0 and ${MAX_SCORING_VALUE}` };
+    }
+    scoring.positionPoints = points as number[];
+  }
+  for (const key of ["perBirdie", "perEagle", "perStablefordPoint"] as const) {
+    if (raw[key] === undefined) continue;
+    const n = scoringValue(raw[key]);
+    if (n === null) return { error: `draft.scoring.${key} must be between 0 and ${MAX_SCORING_VALUE}` };
+    scoring[key] = n;
+  }
+
+  return { draft: { rosterSize, lineupSize, captainMultiplier, scoring } };
+}
+
+/**
+ * Validate the each-way block of a fantasy config payload. Tiers are stored
+ * largest field first; a tier must pay fewer places than its smallest field.
+ */
+export function parseEachWayConfigInput(value: unknown): { eachWay: EachWayConfig } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "eachWay must be an object" };
+  const raw = (value as Record<string, unknown>).terms;
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_EACH_WAY_TIERS) {
+    return { error: `eachWay.terms must be a list of 1 to ${MAX_EACH_WAY_TIERS} tiers` };
+  }
+
+  const terms: EachWayTerms[] = [];
+  for (const tier of raw) {
+    const t = (tier && typeof tier === "object" ? tier : {}) as Record<string, unknown>;
+    const places = wholeInRange(t.places, 1, MAX_EACH_WAY_PLACES);
+    if (places === null) {
+      return { error: `eachWay places must be a whole number between 1 and ${MAX_EACH_WAY_PLACES}` };
+    }
+    const minField = wholeInRange(t.minField, places + 1, 200);
+    if (minField === null) {
+      return { error: "eachWay minField must be a whole number larger than its places" };
+    }
+    const fraction = wholeInRange(t.fraction, 2, MAX_EACH_WAY_FRACTION);
+    if (fraction === null) {
+      return { error: `eachWay fraction must be a whole number between 2 and ${MAX_EACH_WAY_FRACTION}` };
+    }
+    terms.push({ minField, places, fraction });
+  }
+  if (new Set(terms.map((t) => t.minField)).size !== terms.length) {
+    return { error: "eachWay tiers need different minField values" };
+  }
+
+  terms.sort((a, b) => b.minField - a.minField);
+  return { eachWay: { terms } };
+}
+
 /**
  * Validate an admin-supplied fantasy config payload.
  * Returns the config to store, or an error message for a 400 response.
@@ -57,6 +187,18 @@ export function parseFantasyConfigInput(
     config.topupIncrement = topupIncrement;
   }
 
+  if (body.draft != null) {
+    const parsed = parseDraftConfigInput(body.draft);
+    if ("error" in parsed) return parsed;
+    config.draft = parsed.draft;
+  }
+
+  if (body.eachWay != null) {
+    const parsed = parseEachWayConfigInput(body.eachWay);
+    if ("error" in parsed) return parsed;
+    config.eachWay = parsed.eachWay;
+  }
+
   return { config };
 }
 
@@ -69,3 +211,17 @@ export function readFantasyConfig(value: unknown): FantasyConfig | null {
   if (typeof v.budgetAmount !== "number") return null;
   return v as FantasyConfig;
 }
+
+/** The group's draft league settings, or null when the draft league is off. */
+export function readDraftConfig(config: FantasyConfig | null): DraftLeagueConfig | null {
+  if (!config?.draft) return null;
+  const parsed = parseDraftConfigInput(config.draft);
+  return "error" in parsed ? null : parsed.draft;
+}
+
+/** The group's each-way terms, or null when outrights are win only. */
+export function readEachWayConfig(config: FantasyConfig | null): EachWayConfig | null {
+  if (!config?.eachWay) return null;
+  const parsed = parseEachWayConfigInput(config.eachWay);
+  return "error" in parsed ? null : parsed.eachWay;
+}
@@ -1,8 +1,14 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { generateEventFantasy } from "@/lib/fantasy/odds";
-import { settleFantasyEvent, settleFantasyRoundMarkets } from "@/lib/fantasy/settlement";
+import {
+  settleFantasyEvent,
+  settleFantasyRoundMarkets,
+  settleStrandedExchangeMatches,
+} from "@/lib/fantasy/settlement";
 import { generateSeasonFantasy } from "@/lib/fantasy/seasonOdds";
 import { settleFantasySeason } from "@/lib/fantasy/seasonSettlement";
+import { processWaiverClaims } from "@/lib/fantasy/draftLeague";
+import { lapseExchangeOffers } from "@/lib/fantasy/exchange";
 
 /**
  * Fantasy sweeps run from the single daily cron (Vercel Hobby limit — see
@@ -18,7 +24,13 @@ import { settleFantasySeason } from "@/lib/fantasy/seasonSettlement";
  *  3. Hygiene — fail refresh jobs wedged in 'running' for over 10 minutes
  *     and expire stale cash-out offers (expiry is otherwise enforced by
  *     query filters + the accept RPC; this just tidies the rows).
- *  4. Retention — free-tier disk control (Supabase Free: 500 MB). Superseded
+ *  4. Draft leagues — run pending waiver claims, and close leagues whose
+ *     season has finished.
+ *  5. Exchange — lapse unmatched offers whose market has closed (the board
+ *     and settlement lapse lazily too; this covers events nobody opens), and
+ *     settle matched bets still open on settled markets (settlement settles
+ *     them inline; this retries any it failed to).
+ *  6. Retention — free-tier disk control (Supabase Free: 500 MB). Superseded
  *     odds snapshots are the only unbounded growth in the feature; dead jobs
  *     and dead offers are pruned alongside. Snapshots referenced by a pick
  *     and accepted offers are kept for the audit trail.
@@ -51,6 +63,9 @@ export async function runFantasySweeps(): Promise<{
   repricedAttendance: number;
   seasonsGenerated: number;
   seasonsSettled: number;
+  waiverClaims: number;
+  lapsedExchangeOffers: number;
+  exchangeMarketsSettled: number;
   errors: string[];
 }> {
   const errors: string[] = [];
@@ -186,6 +201,69 @@ export async function runFantasySweeps(): Promise<{
     }
   }
 
+  // Draft leagues: daily waiver run, then close out finished seasons.
+  let waiverClaims = 0;
+  const { data: draftLeagues, error: draftErr } = await supabaseAdmin
+    .from("fantasy_draft_leagues")
+    .select("id, group_seasons!inner(status)")
+    .eq("status", "active");
+  if (draftErr) {
+    errors.push(`draft leagues: ${draftErr.message}`);
+  } else {
+    for (const league of (draftLeagues ?? []) as unknown as { id: string; group_seasons: { status: string } }[]) {
+      try {
+        const r = await processWaiverClaims(league.id);
+        waiverClaims += r.won + r.lost;
+      } catch (e: any) {
+        errors.push(`waivers ${league.id}: ${e?.message}`);
+      }
+      if (["completed", "archived"].includes(league.group_seasons.status)) {
+        const { error } = await supabaseAdmin
+          .from("fantasy_draft_leagues")
+          .update({ status: "completed", updated_at: new Date().toISOString() })
+          .eq("id", league.id);
+        if (error) errors.push(`draft close ${league.id}: ${error.message}`);
+      }
+    }
+  }
+
+  // Exchange: lapse offers left standing on closed markets.
+  let lapsedExchangeOffers = 0;
+  const { data: offerEvents, error: offerEventsErr } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .select("event_id")
+    .eq("status", "open");
+  if (offerEventsErr) {
+    errors.push(`exchange: ${offerEventsErr.message}`);
+  } else {
+    for (const eventId of new Set(((offerEvents ?? []) as { event_id: string }[]).map((o) => o.event_id))) {
+      try {
+        lapsedExchangeOffers += await lapseExchangeOffers(eventId);
+      } catch (e: any) {
+        errors.push(`exchange lapse ${eventId}: ${e?.message}`);
+      }
+    }
+  }
+
+  // Exchange: matched bets stranded on markets that have already settled.
+  let exchangeMarketsSettled = 0;
+  const { data: strandedRows, error: strandedErr } = await supabaseAdmin
+    .from("fantasy_exchange_matches")
+    .select("event_id, fantasy_markets!inner(status)")
+    .eq("status", "open")
+    .in("fantasy_markets.status", ["settled", "void"]);
+  if (strandedErr) {
+    errors.push(`exchange settlement: ${strandedErr.message}`);
+  } else {
+    for (const eventId of new Set(((strandedRows ?? []) as { event_id: string }[]).map((m) => m.event_id))) {
+      try {
+        exchangeMarketsSettled += (await settleStrandedExchangeMatches(eventId)).settled;
+      } catch (e: any) {
+        errors.push(`exchange settle ${eventId}: ${e?.message}`);
+      }
+    }
+  }
+
   const { data: wedged, error: wedgedErr } = await supabaseAdmin
     .from("fantasy_refresh_jobs")
     .update({
@@ -286,6 +364,9 @@ export async function runFantasySweeps(): Promise<{
     repricedAttendance,
     seasonsGenerated,
     seasonsSettled,
+    waiverClaims,
+    lapsedExchangeOffers,
+    exchangeMarketsSettled,
     errors,
   };
 }
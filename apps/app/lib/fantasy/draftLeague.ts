@@ -0,0 +1,707 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { readDraftConfig, readFantasyConfig } from "@/lib/fantasy/config";
+import {
+  draftLeagueTable,
+  draftStatsFromFinal,
+  isLineupLocked,
+  lineupForEvent,
+  normalizeLineup,
+  rosterAt,
+  scoreLineup,
+  shuffleDraftOrder,
+  snakeManager,
+  totalDraftPicks,
+  validateTrade,
+  waiverOrder,
+  type DraftLineupInput,
+  type DraftTableRow,
+} from "@/lib/fantasy/draftRules";
+import { loadFinalScoringData } from "@/lib/fantasy/settlement";
+import { getGroupFantasyContext } from "@/lib/fantasy/wallet";
+import type {
+  DraftEventStats,
+  DraftLeagueConfig,
+  FantasyDraftLeague,
+  FantasyDraftLineup,
+  FantasyDraftManager,
+  FantasyDraftPick,
+  FantasyDraftRosterSpot,
+  FantasyDraftTrade,
+  FantasyDraftWaiverClaim,
+} from "@/lib/fantasy/types";
+
+/**
+ * Draft league orchestration: one league per group season, snake-drafted
+ * from the group's active members, then weekly lineups, trades and waiver
+ * claims. Rules live in draftRules.ts; roster moves after the draft go
+ * through the ciaga_fantasy_draft_move RPC so trades and claims apply
+ * all-or-nothing. Callers check group membership first.
+ */
+
+export class DraftError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const FINISHED_EVENT_STATUSES = ["completed", "official"];
+
+export type DraftSeason = { id: string; name: string; status: string; start_date: string | null };
+
+export type DraftEventSummary = {
+  id: string;
+  name: string;
+  event_date: string | null;
+  majors_status: string;
+  locked: boolean;
+  finished: boolean;
+};
+
+/**
+ * The season a group's draft league belongs to: the one in progress today,
+ * else the next to start (drafts happen pre-season), else the most recent.
+ */
+export async function resolveDraftSeason(groupId: string): Promise<DraftSeason | null> {
+  const { data, error } = await supabaseAdmin
+    .from("group_seasons")
+    .select("id, name, status, start_date, end_date")
+    .eq("group_id", groupId)
+    .in("status", ["upcoming", "published", "live"]);
+  if (error) throw error;
+  const rows = (data ?? []) as (DraftSeason & { end_date: string | null })[];
+  const today = new Date().toISOString().slice(0, 10);
+  const byStart = [...rows].sort((a, b) => (a.start_date ?? "").localeCompare(b.start_date ?? ""));
+  const season =
+    rows.find((s) => s.start_date && s.end_date && s.start_date <= today && today <= s.end_date) ??
+    byStart.find((s) => (s.start_date ?? "") > today) ??
+    byStart.at(-1) ??
+    null;
+  return season ? { id: season.id, name: season.name, status: season.status, start_date: season.start_date } : null;
+}
+
+export async function requireDraftConfig(groupId: string): Promise<DraftLeagueConfig> {
+  const ctx = await getGroupFantasyContext(groupId);
+  const config = readDraftConfig(ctx ? readFantasyConfig(ctx.fantasyConfig) : null);
+  if (!config) throw new DraftError("The draft league is not enabled for this group", 404);
+  return config;
+}
+
+export async function getDraftLeague(groupId: string, groupSeasonId: string): Promise<FantasyDraftLeague | null> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_leagues")
+    .select("*")
+    .eq("group_id", groupId)
+    .eq("group_season_id", groupSeasonId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as FantasyDraftLeague | null) ?? null;
+}
+
+async function loadManagers(leagueId: string): Promise<FantasyDraftManager[]> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_managers")
+    .select("*")
+    .eq("league_id", leagueId)
+    .order("joined_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as FantasyDraftManager[];
+}
+
+/** Managers in draft order (round one). */
+function draftOrder(managers: FantasyDraftManager[]): string[] {
+  return managers
+    .filter((m) => m.draft_slot != null)
+    .sort((a, b) => a.draft_slot! - b.draft_slot!)
+    .map((m) => m.profile_id);
+}
+
+async function loadRosterSpots(leagueId: string, openOnly: boolean): Promise<FantasyDraftRosterSpot[]> {
+  let q = supabaseAdmin.from("fantasy_draft_roster").select("*").eq("league_id", leagueId);
+  if (openOnly) q = q.is("released_at", null);
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as FantasyDraftRosterSpot[];
+}
+
+function rostersByManager(spots: FantasyDraftRosterSpot[]): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const s of spots) {
+    if (s.released_at) continue;
+    (out[s.manager_profile_id] ??= []).push(s.player_profile_id);
+  }
+  return out;
+}
+
+/** Active group members — the draftable pool. */
+async function loadPlayerPool(groupId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from("major_group_memberships")
+    .select("profile_id")
+    .eq("group_id", groupId)
+    .eq("status", "active");
+  if (error) throw error;
+  return ((data ?? []) as { profile_id: string }[]).map((m) => m.profile_id);
+}
+
+async function loadSeasonEvents(groupSeasonId: string): Promise<DraftEventSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from("events")
+    .select("id, name, event_date, majors_status")
+    .eq("group_season_id", groupSeasonId)
+    .neq("majors_status", "cancelled")
+    .order("event_date", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as { id: string; name: string; event_date: string | null; majors_status: string }[]).map(
+    (e) => ({
+      ...e,
+      locked: isLineupLocked(e),
+      finished: FINISHED_EVENT_STATUSES.includes(e.majors_status),
+    })
+  );
+}
+
+async function loadLineups(leagueId: string): Promise<FantasyDraftLineup[]> {
+  const { data, error } = await supabaseAdmin.from("fantasy_draft_lineups").select("*").eq("league_id", leagueId);
+  if (error) throw error;
+  return (data ?? []) as FantasyDraftLineup[];
+}
+
+/**
+ * Results for finished events, computed once from final scoring data and
+ * kept in fantasy_draft_event_stats. Best-effort per event: one event
+ * failing to load leaves it unscored rather than failing the table.
+ */
+async function ensureDraftEventStats(eventIds: string[]): Promise<DraftEventStats[]> {
+  if (eventIds.length === 0) return [];
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_event_stats")
+    .select("event_id, profile_id, position, birdies, eagles, stableford_points, withdrawn")
+    .in("event_id", eventIds);
+  if (error) throw error;
+  const stats = (data ?? []) as DraftEventStats[];
+
+  const have = new Set(stats.map((s) => s.event_id));
+  for (const eventId of eventIds.filter((id) => !have.has(id))) {
+    try {
+      const rows = draftStatsFromFinal(eventId, await loadFinalScoringData(eventId));
+      if (rows.length === 0) continue;
+      const { error: upErr } = await supabaseAdmin
+        .from("fantasy_draft_event_stats")
+        .upsert(rows, { onConflict: "event_id,profile_id" });
+      if (upErr) throw upErr;
+      stats.push(...rows);
+    } catch (e) {
+      console.error(`[fantasy] draft event stats failed for ${eventId}`, e);
+    }
+  }
+  return stats;
+}
+
+export type DraftEventScore = {
+  eventId: string;
+  managerId: string;
+  total: number;
+  players: ReturnType<typeof scoreLineup>["players"];
+};
+
+/** Lineup points per manager per finished event, and the table they make. */
+async function scoreLeague(
+  config: DraftLeagueConfig,
+  managers: string[],
+  events: DraftEventSummary[],
+  lineups: FantasyDraftLineup[],
+  spots: FantasyDraftRosterSpot[]
+): Promise<{ scores: DraftEventScore[]; table: DraftTableRow[] }> {
+  const finished = events.filter((e) => e.finished);
+  const stats = await ensureDraftEventStats(finished.map((e) => e.id));
+  const eventOrder = events.map((e) => e.id);
+
+  const scores: DraftEventScore[] = [];
+  for (const event of finished) {
+    const eventStats = stats.filter((s) => s.event_id === event.id);
+    const lockAt = (event.event_date ?? "").slice(0, 10);
+    for (const managerId of managers) {
+      const lineup = lineupForEvent(
+        lineups.filter((l) => l.manager_profile_id === managerId),
+        eventOrder,
+        event.id
+      );
+      if (!lineup) continue;
+      // Only players on the roster at the lock count; anyone moved since sits out.
+      const owned = new Set(lockAt ? rosterAt(spots, managerId, lockAt) : []);
+      const ownedStats = new Map(eventStats.filter((s) => owned.has(s.profile_id)).map((s) => [s.profile_id, s]));
+      const scored = scoreLineup(lineup, ownedStats, config);
+      scores.push({ eventId: event.id, managerId, ...scored });
+    }
+  }
+  return { scores, table: draftLeagueTable(managers, scores) };
+}
+
+async function loadNames(profileIds: string[]): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  if (profileIds.length === 0) return names;
+  const { data } = await supabaseAdmin.from("profiles").select("id, name").in("id", profileIds);
+  for (const p of (data ?? []) as { id: string; name: string | null }[]) names[p.id] = p.name ?? "Player";
+  return names;
+}
+
+/** Everything the draft page shows, for one viewer. */
+export async function getDraftLeagueState(groupId: string, viewerId: string) {
+  const config = await requireDraftConfig(groupId);
+  const season = await resolveDraftSeason(groupId);
+  const league = season ? await getDraftLeague(groupId, season.id) : null;
+  const pool = await loadPlayerPool(groupId);
+  if (!season || !league) {
+    return { config, season, league, names: await loadNames(pool), players: pool, managers: [] };
+  }
+
+  const [managers, spots, events, lineups, picksRes, tradesRes, claimsRes] = await Promise.all([
+    loadManagers(league.id),
+    loadRosterSpots(league.id, false),
+    loadSeasonEvents(season.id),
+    loadLineups(league.id),
+    supabaseAdmin.from("fantasy_draft_picks").select("*").eq("league_id", league.id).order("pick_number"),
+    supabaseAdmin
+      .from("fantasy_draft_trades")
+      .select("*")
+      .eq("league_id", league.id)
+      .order("created_at", { ascending: false })
+      .limit(30),
+    supabaseAdmin
+      .from("fantasy_draft_waiver_claims")
+      .select("*")
+      .eq("league_id", league.id)
+      .eq("manager_profile_id", viewerId)
+      .eq("status", "pending")
+      .order("created_at"),
+  ]);
+  if (picksRes.error) throw picksRes.error;
+  if (tradesRes.error) throw tradesRes.error;
+  if (claimsRes.error) throw claimsRes.error;
+
+  const picks = (picksRes.data ?? []) as FantasyDraftPick[];
+  const order = draftOrder(managers);
+  const managerIds = managers.map((m) => m.profile_id);
+  const total = totalDraftPicks(order.length, config.rosterSize);
+  const onClock = league.status === "drafting" && picks.length < total ? snakeManager(order, picks.length) : null;
+  const { scores, table } = await scoreLeague(config, managerIds, events, lineups, spots);
+
+  return {
+    config,
+    season,
+    league,
+    names: await loadNames([...new Set([...pool, ...managerIds])]),
+    players: pool,
+    managers: managers.map((m) => ({ profileId: m.profile_id, draftSlot: m.draft_slot })),
+    draft: { order, picks, onClock, totalPicks: total },
+    rosters: rostersByManager(spots),
+    events,
+    lineups,
+    trades: (tradesRes.data ?? []) as FantasyDraftTrade[],
+    myClaims: (claimsRes.data ?? []) as FantasyDraftWaiverClaim[],
+    scores,
+    table,
+  };
+}
+
+// ─── Setup and the draft ──────────────────────────────────────────────────────
+
+export async function createDraftLeague(groupId: string, actorId: string): Promise<FantasyDraftLeague> {
+  await requireDraftConfig(groupId);
+  const season = await resolveDraftSeason(groupId);
+  if (!season) throw new DraftError("Create a season first — draft leagues run per season");
+  const existing = await getDraftLeague(groupId, season.id);
+  if (existing) throw new DraftError("This season already has a draft league", 409);
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_leagues")
+    .insert({ group_id: groupId, group_season_id: season.id, created_by: actorId })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as FantasyDraftLeague;
+}
+
+async function requireLeague(groupId: string): Promise<{ league: FantasyDraftLeague; config: DraftLeagueConfig }> {
+  const config = await requireDraftConfig(groupId);
+  const season = await resolveDraftSeason(groupId);
+  const league = season ? await getDraftLeague(groupId, season.id) : null;
+  if (!league) throw new DraftError("No draft league this season", 404);
+  return { league, config };
+}
+
+export async function joinDraftLeague(groupId: string, profileId: string): Promise<void> {
+  const { league } = await requireLeague(groupId);
+  if (league.status !== "setup") throw new DraftError("The draft has already started");
+  const { error } = await supabaseAdmin
+    .from("fantasy_draft_managers")
+    .upsert({ league_id: league.id, profile_id: profileId }, { onConflict: "league_id,profile_id" });
+  if (error) throw error;
+}
+
+export async function leaveDraftLeague(groupId: string, profileId: string): Promise<void> {
+  const { league } = await requireLeague(groupId);
+  if (league.status !== "setup") throw new DraftError("The draft has already started");
+  const { error } = await supabaseAdmin
+    .from("fantasy_draft_managers")
+    .delete()
+    .eq("league_id", league.id)
+    .eq("profile_id", profileId);
+  if (error) throw error;
+}
+
+/** Draw the snake order and open the draft. */
+export async function startDraft(groupId: string): Promise<{ order: string[] }> {
+  const { league, config } = await requireLeague(groupId);
+  if (league.status !== "setup") throw new DraftError("The draft has already started");
+  const managers = await loadManagers(league.id);
+  if (managers.length < 2) throw new DraftError("A draft league needs at least two managers");
+  const pool = await loadPlayerPool(groupId);
+  if (pool.length < totalDraftPicks(managers.length, config.rosterSize)) {
+    throw new DraftError(
+      `Not enough players: ${managers.length} managers × ${config.rosterSize} picks needs ${totalDraftPicks(managers.length, config.rosterSize)} group members`
+    );
+  }
+
+  const { data: claimed, error: claimErr } = await supabaseAdmin
+    .from("fantasy_draft_leagues")
+    .update({ status: "drafting", draft_started_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", league.id)
+    .eq("status", "setup")
+    .select("id");
+  if (claimErr) throw claimErr;
+  if (!claimed || claimed.length === 0) throw new DraftError("The draft has already started", 409);
+
+  const order = shuffleDraftOrder(managers.map((m) => m.profile_id));
+  for (const [i, profileId] of order.entries()) {
+    const { error } = await supabaseAdmin
+      .from("fantasy_draft_managers")
+      .update({ draft_slot: i + 1 })
+      .eq("league_id", league.id)
+      .eq("profile_id", profileId);
+    if (error) throw error;
+  }
+  return { order };
+}
+
+/**
+ * Make the pick on the clock. Owners/admins may pick for an absent manager.
+ * The ciaga_fantasy_draft_pick RPC writes the board row and the roster spot
+ * together; the UNIQUE (league, pick_number) and (league, player) constraints
+ * settle races: the loser gets a 409 and reloads the board.
+ */
+export async function makeDraftPick(params: {
+  groupId: string;
+  actorId: string;
+  actorIsAdmin: boolean;
+  playerId: string;
+}): Promise<{ pickNumber: number; draftComplete: boolean }> {
+  const { league, config } = await requireLeague(params.groupId);
+  if (league.status !== "drafting") throw new DraftError("The draft is not open");
+
+  const [managers, pool, { count, error: countErr }] = await Promise.all([
+    loadManagers(league.id),
+    loadPlayerPool(params.groupId),
+    supabaseAdmin.from("fantasy_draft_picks").select("id", { count: "exact", head: true }).eq("league_id", league.id),
+  ]);
+  if (countErr) throw countErr;
+  const order = draftOrder(managers);
+  const pickNumber = count ?? 0;
+  const total = totalDraftPicks(order.length, config.rosterSize);
+  if (pickNumber >= total) throw new DraftError("The draft is complete");
+
+  const managerId = snakeManager(order, pickNumber);
+  if (managerId !== params.actorId && !params.actorIsAdmin) throw new DraftError("It's not your pick", 403);
+  if (!pool.includes(params.playerId)) throw new DraftError("That player isn't in the group");
+
+  const { error: pickErr } = await supabaseAdmin.rpc("ciaga_fantasy_draft_pick", {
+    p_league_id: league.id,
+    p_pick_number: pickNumber,
+    p_manager_id: managerId,
+    p_player_id: params.playerId,
+  });
+  if (pickErr) {
+    if (pickErr.code === "23505") throw new DraftError("That pick was just made — refresh the board", 409);
+    throw pickErr;
+  }
+
+  const draftComplete = pickNumber + 1 >= total;
+  if (draftComplete) {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from("fantasy_draft_leagues")
+      .update({ status: "active", draft_completed_at: now, updated_at: now })
+      .eq("id", league.id);
+    if (error) throw error;
+  }
+  return { pickNumber, draftComplete };
+}
+
+// ─── Lineups ──────────────────────────────────────────────────────────────────
+
+export async function setDraftLineup(params: {
+  groupId: string;
+  managerId: string;
+  eventId: string;
+  lineup: DraftLineupInput;
+}): Promise<FantasyDraftLineup> {
+  const { league, config } = await requireLeague(params.groupId);
+  if (league.status !== "active") throw new DraftError("Lineups open once the draft is complete");
+
+  const { data: eventRow, error: eventErr } = await supabaseAdmin
+    .from("events")
+    .select("id, group_season_id, event_date, majors_status")
+    .eq("id", params.eventId)
+    .maybeSingle();
+  if (eventErr) throw eventErr;
+  const event = eventRow as { group_season_id: string | null; event_date: string | null; majors_status: string } | null;
+  if (!event || event.group_season_id !== league.group_season_id) {
+    throw new DraftError("That event isn't part of this season", 404);
+  }
+  if (isLineupLocked(event)) throw new DraftError("Lineups for this event are locked");
+
+  const roster = rostersByManager(await loadRosterSpots(league.id, true))[params.managerId] ?? [];
+  if (roster.length === 0) throw new DraftError("You're not managing a team in this league", 403);
+  const normalized = normalizeLineup(params.lineup, roster, config);
+  if ("error" in normalized) throw new DraftError(normalized.error);
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_lineups")
+    .upsert(
+      {
+        league_id: league.id,
+        event_id: params.eventId,
+        manager_profile_id: params.managerId,
+        starters: normalized.lineup.starters,
+        bench: normalized.lineup.bench,
+        captain_profile_id: normalized.lineup.captain,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "league_id,event_id,manager_profile_id" }
+    )
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as FantasyDraftLineup;
+}
+
+// ─── Trades and waivers ───────────────────────────────────────────────────────
+
+async function requireActiveLeague(groupId: string) {
+  const ctx = await requireLeague(groupId);
+  if (ctx.league.status !== "active") throw new DraftError("Trades and waivers open once the draft is complete");
+  return ctx;
+}
+
+export async function proposeTrade(params: {
+  groupId: string;
+  proposerId: string;
+  recipientId: string;
+  offered: string[];
+  requested: string[];
+}): Promise<FantasyDraftTrade> {
+  const { league } = await requireActiveLeague(params.groupId);
+  const rosters = rostersByManager(await loadRosterSpots(league.id, true));
+  if (params.proposerId === params.recipientId) throw new DraftError("You can't trade with yourself");
+  if (!rosters[params.recipientId]) throw new DraftError("That manager isn't in this league");
+  const invalid = validateTrade(
+    params.offered,
+    params.requested,
+    rosters[params.proposerId] ?? [],
+    rosters[params.recipientId]
+  );
+  if (invalid) throw new DraftError(invalid);
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_trades")
+    .insert({
+      league_id: league.id,
+      proposer_profile_id: params.proposerId,
+      recipient_profile_id: params.recipientId,
+      offered_player_ids: params.offered,
+      requested_player_ids: params.requested,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as FantasyDraftTrade;
+}
+
+/**
+ * Accept or reject (recipient) or cancel (proposer) a pending trade. The
+ * status flip is claimed first so a trade is only ever executed once; if the
+ * players have moved since the offer, it ends up 'failed'.
+ */
+export async function respondToTrade(params: {
+  groupId: string;
+  tradeId: string;
+  profileId: string;
+  action: "accept" | "reject" | "cancel";
+}): Promise<FantasyDraftTrade> {
+  const { league } = await requireActiveLeague(params.groupId);
+  const { data: row, error: rowErr } = await supabaseAdmin
+    .from("fantasy_draft_trades")
+    .select("*")
+    .eq("id", params.tradeId)
+    .eq("league_id", league.id)
+    .maybeSingle();
+  if (rowErr) throw rowErr;
+  const trade = row as FantasyDraftTrade | null;
+  if (!trade) throw new DraftError("Trade not found", 404);
+  if (trade.status !== "pending") throw new DraftError("This trade has already been resolved", 409);
+
+  const actorSide = params.action === "cancel" ? trade.proposer_profile_id : trade.recipient_profile_id;
+  if (actorSide !== params.profileId) throw new DraftError("You can't respond to this trade", 403);
+
+  const status = params.action === "accept" ? "accepted" : params.action === "reject" ? "rejected" : "cancelled";
+  const { data: claimed, error: claimErr } = await supabaseAdmin
+    .from("fantasy_draft_trades")
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq("id", trade.id)
+    .eq("status", "pending")
+    .select("*");
+  if (claimErr) throw claimErr;
+  if (!claimed || claimed.length === 0) throw new DraftError("This trade has already been resolved", 409);
+  if (params.action !== "accept") return claimed[0] as FantasyDraftTrade;
+
+  const moves = [
+    ...trade.offered_player_ids.map((player) => ({
+      player,
+      from: trade.proposer_profile_id,
+      to: trade.recipient_profile_id,
+    })),
+    ...trade.requested_player_ids.map((player) => ({
+      player,
+      from: trade.recipient_profile_id,
+      to: trade.proposer_profile_id,
+    })),
+  ];
+  const { error: moveErr } = await supabaseAdmin.rpc("ciaga_fantasy_draft_move", {
+    p_league_id: league.id,
+    p_moves: moves,
+    p_via: "trade",
+  });
+  if (moveErr) {
+    await supabaseAdmin.from("fantasy_draft_trades").update({ status: "failed" }).eq("id", trade.id);
+    throw new DraftError("Those players have moved since the offer — the trade can't go through", 409);
+  }
+  return { ...(claimed[0] as FantasyDraftTrade), status: "accepted" };
+}
+
+export async function submitWaiverClaim(params: {
+  groupId: string;
+  managerId: string;
+  addPlayerId: string;
+  dropPlayerId: string;
+}): Promise<FantasyDraftWaiverClaim> {
+  const { league } = await requireActiveLeague(params.groupId);
+  const [spots, pool] = await Promise.all([loadRosterSpots(league.id, true), loadPlayerPool(params.groupId)]);
+  const rosters = rostersByManager(spots);
+  if (!(rosters[params.managerId] ?? []).includes(params.dropPlayerId)) {
+    throw new DraftError("You can only drop players on your roster");
+  }
+  if (!pool.includes(params.addPlayerId)) throw new DraftError("That player isn't in the group");
+  if (spots.some((s) => s.player_profile_id === params.addPlayerId)) {
+    throw new DraftError("That player is already on a roster");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_waiver_claims")
+    .insert({
+      league_id: league.id,
+      manager_profile_id: params.managerId,
+      add_player_id: params.addPlayerId,
+      drop_player_id: params.dropPlayerId,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as FantasyDraftWaiverClaim;
+}
+
+export async function cancelWaiverClaim(params: { groupId: string; managerId: string; claimId: string }): Promise<void> {
+  const { league } = await requireLeague(params.groupId);
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_draft_waiver_claims")
+    .update({ status: "cancelled", processed_at: new Date().toISOString() })
+    .eq("id", params.claimId)
+    .eq("league_id", league.id)
+    .eq("manager_profile_id", params.managerId)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new DraftError("Claim not found", 404);
+}
+
+/**
+ * Run a league's pending waiver claims in waiver order (bottom of the table
+ * first). Each pass gives the highest-priority manager with a claim their
+ * oldest one; a manager whose claim succeeds drops to the back of the order.
+ * Claims that can no longer apply (player taken, drop already gone) are lost.
+ */
+export async function processWaiverClaims(leagueId: string): Promise<{ won: number; lost: number }> {
+  const { data: leagueRow, error: leagueErr } = await supabaseAdmin
+    .from("fantasy_draft_leagues")
+    .select("*")
+    .eq("id", leagueId)
+    .single();
+  if (leagueErr) throw leagueErr;
+  const league = leagueRow as FantasyDraftLeague;
+  if (league.status !== "active") return { won: 0, lost: 0 };
+
+  const { data: claimRows, error: claimErr } = await supabaseAdmin
+    .from("fantasy_draft_waiver_claims")
+    .select("*")
+    .eq("league_id", leagueId)
+    .eq("status", "pending")
+    .order("created_at");
+  if (claimErr) throw claimErr;
+  const claims = (claimRows ?? []) as FantasyDraftWaiverClaim[];
+  if (claims.length === 0) return { won: 0, lost: 0 };
+
+  const config = await requireDraftConfig(league.group_id);
+  const [managers, spots, events, lineups] = await Promise.all([
+    loadManagers(leagueId),
+    loadRosterSpots(leagueId, false),
+    loadSeasonEvents(league.group_season_id),
+    loadLineups(leagueId),
+  ]);
+  const { table } = await scoreLeague(config, managers.map((m) => m.profile_id), events, lineups, spots);
+  const slots = Object.fromEntries(managers.map((m) => [m.profile_id, m.draft_slot ?? 0]));
+  let order = waiverOrder(table, slots);
+
+  const queue = new Map<string, FantasyDraftWaiverClaim[]>();
+  for (const c of claims) queue.set(c.manager_profile_id, [...(queue.get(c.manager_profile_id) ?? []), c]);
+
+  let won = 0;
+  let lost = 0;
+  const resolve = async (claim: FantasyDraftWaiverClaim, status: "won" | "lost") => {
+    await supabaseAdmin
+      .from("fantasy_draft_waiver_claims")
+      .update({ status, processed_at: new Date().toISOString() })
+      .eq("id", claim.id);
+    if (status === "won") won += 1;
+    else lost += 1;
+  };
+
+  for (;;) {
+    const managerId = order.find((m) => (queue.get(m)?.length ?? 0) > 0);
+    if (!managerId) break;
+    const claim = queue.get(managerId)!.shift()!;
+    const { error } = await supabaseAdmin.rpc("ciaga_fantasy_draft_move", {
+      p_league_id: leagueId,
+      p_moves: [
+        { player: claim.drop_player_id, from: managerId, to: null },
+        { player: claim.add_player_id, from: null, to: managerId },
+      ],
+      p_via: "waiver",
+    });
+    if (error) {
+      await resolve(claim, "lost");
+      continue;
+    }
+    await resolve(claim, "won");
+    order = [...order.filter((m) => m !== managerId), managerId];
+  }
+  return { won, lost };
+}
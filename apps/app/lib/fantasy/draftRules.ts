@@ -0,0 +1,301 @@
+/**
+ * Pure draft league rules shared by the server (lib/fantasy/draftLeague.ts)
+ * and the draft page: snake order, lineup and trade validation, lineup
+ * scoring and the league table. No server imports allowed here.
+ */
+
+import type {
+  DraftEventStats,
+  DraftLeagueConfig,
+  DraftScoring,
+  FantasyDraftLineup,
+  FantasyDraftRosterSpot,
+} from "@/lib/fantasy/types";
+import type { FinalScoringData } from "@/lib/fantasy/markets/types";
+import { strokesReceived } from "@/lib/fantasy/simulation/holeModel";
+import { holeKey } from "@/lib/fantasy/simulation/types";
+
+// ─── Draft order ──────────────────────────────────────────────────────────────
+
+export function totalDraftPicks(managerCount: number, rosterSize: number): number {
+  return managerCount * rosterSize;
+}
+
+/** 1-based snake round of a 0-based overall pick. */
+export function draftRound(managerCount: number, pickNumber: number): number {
+  return Math.floor(pickNumber / managerCount) + 1;
+}
+
+/**
+ * Manager on the clock for a 0-based overall pick: round one runs down the
+ * draft order, round two back up, and so on.
+ */
+export function snakeManager(order: string[], pickNumber: number): string {
+  const n = order.length;
+  const round = Math.floor(pickNumber / n);
+  const i = pickNumber % n;
+  return order[round % 2 === 0 ? i : n - 1 - i];
+}
+
+/** Fisher–Yates; the draft order is drawn once when the draft starts. */
+export function shuffleDraftOrder<T>(items: T[], rand: () => number = Math.random): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// ─── Lineups ──────────────────────────────────────────────────────────────────
+
+export type DraftLineupInput = {
+  starters: string[];
+  bench: string[];
+  captain: string | null;
+};
+
+/**
+ * Check a lineup against the manager's roster. Returns the lineup to store —
+ * roster players missing from the bench are appended to it, so everyone not
+ * starting is a substitute — or an error message for a 400 response.
+ */
+export function normalizeLineup(
+  input: DraftLineupInput,
+  roster: string[],
+  config: DraftLeagueConfig
+): { lineup: DraftLineupInput } | { error: string } {
+  const owned = new Set(roster);
+  const starters = input.starters;
+  const required = Math.min(config.lineupSize, roster.length);
+  if (starters.length !== required) {
+    return { error: `Pick exactly ${required} starter${required === 1 ? "" : "s"}` };
+  }
+  if (new Set(starters).size !== starters.length) return { error: "A player can only start once" };
+  if (starters.some((p) => !owned.has(p))) return { error: "Starters must be on your roster" };
+  if (!input.captain || !starters.includes(input.captain)) {
+    return { error: "Choose a captain from your starters" };
+  }
+
+  const bench: string[] = [];
+  for (const p of input.bench) {
+    if (!owned.has(p)) return { error: "Bench players must be on your roster" };
+    if (starters.includes(p) || bench.includes(p)) continue;
+    bench.push(p);
+  }
+  for (const p of roster) {
+    if (!starters.includes(p) && !bench.includes(p)) bench.push(p);
+  }
+  return { lineup: { starters, bench, captain: input.captain } };
+}
+
+/**
+ * The lineup that counts for an event: the one set for it, else the latest
+ * lineup set for an earlier event (lineups carry over until changed).
+ * `eventOrder` lists the season's events in date order.
+ */
+export function lineupForEvent(
+  lineups: FantasyDraftLineup[],
+  eventOrder: string[],
+  eventId: string
+): FantasyDraftLineup | null {
+  const byEvent = new Map(lineups.map((l) => [l.event_id, l]));
+  const idx = eventOrder.indexOf(eventId);
+  for (let i = idx; i >= 0; i--) {
+    const l = byEvent.get(eventOrder[i]);
+    if (l) return l;
+  }
+  return null;
+}
+
+/** Lineups lock once the event day arrives or the event has started. */
+export function isLineupLocked(
+  event: { event_date: string | null; majors_status: string },
+  now: Date = new Date()
+): boolean {
+  if (!["upcoming", "draft", "published", "entry_open", "entry_closed"].includes(event.majors_status)) {
+    return true;
+  }
+  if (!event.event_date) return false;
+  return event.event_date.slice(0, 10) <= now.toISOString().slice(0, 10);
+}
+
+// ─── Trades ───────────────────────────────────────────────────────────────────
+
+/**
+ * Player-for-player trades of equal size, so both rosters stay full. Returns
+ * an error message, or null when the trade is valid against current rosters.
+ */
+export function validateTrade(
+  offered: string[],
+  requested: string[],
+  proposerRoster: string[],
+  recipientRoster: string[]
+): string | null {
+  if (offered.length === 0 || requested.length === 0) return "A trade needs players on both sides";
+  if (offered.length !== requested.length) return "Trade the same number of players each way";
+  if (new Set(offered).size !== offered.length || new Set(requested).size !== requested.length) {
+    return "A player can only be listed once";
+  }
+  if (offered.some((p) => !proposerRoster.includes(p))) return "You can only offer players on your roster";
+  if (requested.some((p) => !recipientRoster.includes(p))) {
+    return "You can only ask for players on their roster";
+  }
+  return null;
+}
+
+// ─── Scoring ──────────────────────────────────────────────────────────────────
+
+/**
+ * Stableford points from recorded hole scores at the player's playing
+ * handicap. Null when the player has no hole data.
+ */
+export function stablefordFromHoles(
+  holeStrokes: Record<number, number> | null,
+  holes: FinalScoringData["holes"],
+  playingHandicap: number
+): number | null {
+  if (!holeStrokes || Object.keys(holeStrokes).length === 0) return null;
+  const holesPerRound = new Map<number, number>();
+  for (const h of holes) holesPerRound.set(h.round, (holesPerRound.get(h.round) ?? 0) + 1);
+
+  let points = 0;
+  for (const h of holes) {
+    const strokes = holeStrokes[holeKey(h.round, h.holeNumber)];
+    if (strokes == null) continue;
+    const received = strokesReceived(playingHandicap, h.strokeIndex ?? h.holeNumber, holesPerRound.get(h.round));
+    points += Math.max(0, 2 + h.par + received - strokes);
+  }
+  return points;
+}
+
+/** One row per player with a result in a finished event. */
+export function draftStatsFromFinal(eventId: string, final: FinalScoringData): DraftEventStats[] {
+  return Object.values(final.players).map((p) => ({
+    event_id: eventId,
+    profile_id: p.profileId,
+    position: p.position,
+    birdies: p.birdieCount,
+    eagles: p.eagleCount,
+    stableford_points: stablefordFromHoles(p.holeStrokes, final.holes, p.playingHandicap ?? 0),
+    withdrawn: p.withdrawn,
+  }));
+}
+
+/** A player's lineup points for one event; null = didn't play. */
+export function scorePlayerEvent(stats: DraftEventStats | undefined, scoring: DraftScoring): number | null {
+  if (!stats || stats.withdrawn) return null;
+  if (stats.position == null && stats.stableford_points == null) return null;
+  const position = stats.position != null ? scoring.positionPoints[stats.position - 1] ?? 0 : 0;
+  return (
+    position +
+    (stats.birdies ?? 0) * scoring.perBirdie +
+    (stats.eagles ?? 0) * scoring.perEagle +
+    (stats.stableford_points ?? 0) * scoring.perStablefordPoint
+  );
+}
+
+export type ScoredLineupPlayer = {
+  profileId: string;
+  points: number;
+  captain: boolean;
+  /** Starter this bench player came on for. */
+  subFor: string | null;
+};
+
+/**
+ * Score a lineup for one event. Starters who didn't play are replaced by the
+ * first bench player who did, in bench order; the captain's points are
+ * multiplied, but a substitute never inherits the armband.
+ */
+export function scoreLineup(
+  lineup: Pick<FantasyDraftLineup, "starters" | "bench" | "captain_profile_id">,
+  stats: Map<string, DraftEventStats>,
+  config: DraftLeagueConfig
+): { total: number; players: ScoredLineupPlayer[] } {
+  const bench = [...lineup.bench];
+  const players: ScoredLineupPlayer[] = [];
+  for (const starter of lineup.starters) {
+    const points = scorePlayerEvent(stats.get(starter), config.scoring);
+    if (points != null) {
+      const captain = starter === lineup.captain_profile_id;
+      players.push({
+        profileId: starter,
+        points: captain ? points * config.captainMultiplier : points,
+        captain,
+        subFor: null,
+      });
+      continue;
+    }
+    while (bench.length > 0) {
+      const sub = bench.shift()!;
+      const subPoints = scorePlayerEvent(stats.get(sub), config.scoring);
+      if (subPoints == null) continue;
+      players.push({ profileId: sub, points: subPoints, captain: false, subFor: starter });
+      break;
+    }
+  }
+  return { total: players.reduce((s, p) => s + p.points, 0), players };
+}
+
+// ─── Table ────────────────────────────────────────────────────────────────────
+
+export type DraftTableRow = {
+  profileId: string;
+  rank: number;
+  total: number;
+  eventsScored: number;
+  best: number | null;
+};
+
+/** Managers by total lineup points; equal totals share a rank. */
+export function draftLeagueTable(
+  managers: string[],
+  scores: { managerId: string; eventId: string; total: number }[]
+): DraftTableRow[] {
+  const rows = managers.map((profileId) => {
+    const mine = scores.filter((s) => s.managerId === profileId);
+    return {
+      profileId,
+      rank: 0,
+      total: mine.reduce((s, e) => s + e.total, 0),
+      eventsScored: mine.length,
+      best: mine.length > 0 ? Math.max(...mine.map((e) => e.total)) : null,
+    };
+  });
+  rows.sort((a, b) => b.total - a.total);
+  rows.forEach((r, i) => {
+    r.rank = i > 0 && rows[i - 1].total === r.total ? rows[i - 1].rank : i + 1;
+  });
+  return rows;
+}
+
+/**
+ * Waiver priority: bottom of the table first; managers level on points go
+ * in reverse draft order (the last pick of round one claims first).
+ */
+export function waiverOrder(table: DraftTableRow[], draftSlots: Record<string, number>): string[] {
+  return [...table]
+    .sort((a, b) => a.total - b.total || (draftSlots[b.profileId] ?? 0) - (draftSlots[a.profileId] ?? 0))
+    .map((r) => r.profileId);
+}
+
+/**
+ * A manager's players as of a moment (an event's lineup lock): owned before
+ * it and not released until after it. Players moved since are treated as
+ * not having played for that lineup.
+ */
+export function rosterAt(
+  spots: Pick<FantasyDraftRosterSpot, "manager_profile_id" | "player_profile_id" | "acquired_at" | "released_at">[],
+  managerId: string,
+  at: string
+): string[] {
+  return spots
+    .filter(
+      (s) =>
+        s.manager_profile_id === managerId &&
+        s.acquired_at < at &&
+        (s.released_at == null || s.released_at >= at)
+    )
+    .map((s) => s.player_profile_id);
+}
@@ -0,0 +1,135 @@
+/**
+ * Each-way rules — pure, shared by pricing (event and season snapshots),
+ * placement, settlement, cash-out and the slip. No server imports allowed here.
+ *
+ * An each-way pick is two equal bets in one: WIN at the quoted price and
+ * PLACE at 1/fraction of the odds (minus the stake) for finishing inside the
+ * group's place terms. The pick row stores the TOTAL stake (2 × the unit), so
+ * wallets and PnL need no special case. Ties straddling a paying position
+ * settle by dead-heat rules: the part's stake is split across the tied
+ * players and only the share inside the paying positions is paid at full odds.
+ */
+
+import type { SettlementOutcome } from "@/lib/fantasy/markets/types";
+import type { SimulationResult } from "@/lib/fantasy/simulation/types";
+import type { EachWayConfig } from "@/lib/fantasy/types";
+
+/** The terms a priced selection (and the pick placed on it) carries. */
+export type PlaceTerms = { places: number; fraction: number };
+
+/** A settled finishing position; tiedCount includes the player. Null = void. */
+export type FinishResult = { position: number; tiedCount: number } | null;
+
+/**
+ * Single-winner markets only: the event-wide outright and the season winner.
+ * Round winners settle "ties all win" and top-N is already a place bet.
+ */
+export function offersEachWay(marketType: string, params?: Record<string, unknown> | null): boolean {
+  if (marketType === "season_outright") return true;
+  return marketType === "outright_winner" && (params as { round?: unknown } | null)?.round == null;
+}
+
+/** The tier for a field of this size (tiers are stored largest field first). */
+export function placeTermsFor(config: EachWayConfig | null, fieldSize: number): PlaceTerms | null {
+  if (!config) return null;
+  for (const tier of config.terms) {
+    if (fieldSize >= tier.minField) return { places: tier.places, fraction: tier.fraction };
+  }
+  return null;
+}
+
+/** Place price from the win price: 1 + (odds − 1) / fraction, 2dp. Mirrored in the place RPCs. */
+export function placeOdds(winOdds: number, fraction: number): number {
+  return Math.max(1.01, Math.round((1 + (winOdds - 1) / fraction) * 100) / 100);
+}
+
+/** Both parts' returns for a per-part (unit) stake, before dead heats. */
+export function eachWayReturns(
+  unitStake: number,
+  winOdds: number,
+  placeOddsValue: number
+): { win: number; place: number; total: number } {
+  const win = Math.round(unitStake * winOdds * 100) / 100;
+  const place = Math.round(unitStake * placeOddsValue * 100) / 100;
+  return { win, place, total: Math.round((win + place) * 100) / 100 };
+}
+
+/**
+ * Dead-heat share of a part's stake paid at full odds: the tied players
+ * occupy positions position..position+tiedCount−1, and only the slots inside
+ * 1..places pay. 1 for a clean finish inside the places, 0 outside them.
+ */
+export function deadHeatShare(position: number, tiedCount: number, places: number): number {
+  if (position < 1 || position > places) return 0;
+  const tied = Math.max(1, tiedCount);
+  return Math.min(tied, places - position + 1) / tied;
+}
+
+/**
+ * Finishing results with tie sizes, from final positions ("1224" ranking —
+ * tied players share the position). Null positions (no result, withdrawn)
+ * come back null and void.
+ */
+export function finishResults(positions: Iterable<[string, number | null]>): Map<string, FinishResult> {
+  const entries = [...positions];
+  const tied = new Map<number, number>();
+  for (const [, pos] of entries) {
+    if (pos != null) tied.set(pos, (tied.get(pos) ?? 0) + 1);
+  }
+  return new Map(
+    entries.map(([id, pos]) => [id, pos == null ? null : { position: pos, tiedCount: tied.get(pos)! }])
+  );
+}
+
+/**
+ * Settle an each-way pick: both parts paid with their dead-heat shares.
+ * Won when anything pays back, lost on nothing, void refunds the full stake.
+ */
+export function settleEachWay(
+  pick: { stake: number; decimalOdds: number; placeOdds: number; places: number },
+  finish: FinishResult
+): { outcome: SettlementOutcome; payout: number } {
+  if (!finish) return { outcome: "void", payout: pick.stake };
+  const unit = pick.stake / 2;
+  const win = unit * pick.decimalOdds * deadHeatShare(finish.position, finish.tiedCount, 1);
+  const place = unit * pick.placeOdds * deadHeatShare(finish.position, finish.tiedCount, pick.places);
+  const payout = Math.round((win + place) * 100) / 100;
+  return { outcome: payout > 0 ? "won" : "lost", payout };
+}
+
+/**
+ * Place probability per player, priced the way the place part settles: a tie
+ * across the last paying position earns its dead-heat share, not full credit
+ * (so it matches a tie-split winProb for places = 1). Reads the per-iteration
+ * positions; test fixtures without them fall back to the position histogram,
+ * which counts ties in full.
+ */
+export function simPlaceProbabilities(sim: SimulationResult, places: number): Map<string, number> {
+  const out = new Map<string, number>();
+  const { positions, simulationCount } = sim;
+  const playerCount = sim.players.length;
+  if (!positions) {
+    for (const p of sim.players) {
+      let sum = 0;
+      for (let i = 0; i < Math.min(places, p.positionHistogram.length); i++) sum += p.positionHistogram[i];
+      out.set(p.profileId, sum);
+    }
+    return out;
+  }
+
+  const credit = new Float64Array(playerCount);
+  const tied = new Int32Array(places + 1);
+  for (let iter = 0; iter < simulationCount; iter++) {
+    tied.fill(0);
+    for (let pi = 0; pi < playerCount; pi++) {
+      const pos = positions[pi * simulationCount + iter];
+      if (pos >= 1 && pos <= places) tied[pos] += 1;
+    }
+    for (let pi = 0; pi < playerCount; pi++) {
+      const pos = positions[pi * simulationCount + iter];
+      if (pos >= 1 && pos <= places) credit[pi] += deadHeatShare(pos, tied[pos], places);
+    }
+  }
+  sim.players.forEach((p, pi) => out.set(p.profileId, credit[pi] / simulationCount));
+  return out;
+}
@@ -0,0 +1,507 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { parsePointsAmount, readFantasyConfig } from "@/lib/fantasy/config";
+import {
+  exposure,
+  findExchangeRestriction,
+  parseExchangeOdds,
+  takerSide,
+} from "@/lib/fantasy/exchangeRules";
+import { getMarketDefinition } from "@/lib/fantasy/markets/registry";
+import type { FantasyMarket, SettlementOutcome } from "@/lib/fantasy/markets/types";
+import { loadPlacementContext } from "@/lib/fantasy/odds";
+import { PickError } from "@/lib/fantasy/picks";
+import type {
+  FantasyConfig,
+  FantasyExchangeMatch,
+  FantasyExchangeOffer,
+} from "@/lib/fantasy/types";
+import {
+  ensureBudgetGrant,
+  getGroupFantasyContext,
+  getWalletSummary,
+  resolveWalletScope,
+} from "@/lib/fantasy/wallet";
+import { createNotification } from "@/lib/notifications/notify";
+
+/**
+ * Peer-to-peer exchange orchestration. Members post back/lay offers at their
+ * own odds on any open event-market selection; others take all or part.
+ * Game rules (placement eligibility, self-betting) run here via the registry;
+ * the money invariants (no overfill, both balances, atomic escrow) are
+ * enforced inside ciaga_fantasy_match_exchange_offer. Matched bets settle
+ * from the same per-market outcome maps as house picks (settlement.ts calls
+ * settleExchangeMatches next to the acca legs).
+ *
+ * Offers hold no escrow, so "lapsing" one is a status flip: offers go when
+ * their market stops being open or the registry stops allowing placement on
+ * the selection (e.g. the subject has teed off on the round it covers).
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function loadMarket(marketId: string): Promise<FantasyMarket> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_markets")
+    .select("*")
+    .eq("id", marketId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new PickError("Market not found", 404);
+  return data as FantasyMarket;
+}
+
+async function requireConfig(groupId: string): Promise<FantasyConfig> {
+  const ctx = await getGroupFantasyContext(groupId);
+  const config = ctx ? readFantasyConfig(ctx.fantasyConfig) : null;
+  if (!config) throw new PickError("Fantasy picks are not enabled for this group");
+  return config;
+}
+
+async function lapseOffers(offerIds: string[]): Promise<number> {
+  if (offerIds.length === 0) return 0;
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .update({ status: "lapsed", closed_at: new Date().toISOString() })
+    .in("id", offerIds)
+    .eq("status", "open")
+    .select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+export async function createExchangeOffer(params: {
+  profileId: string;
+  marketId: string;
+  selectionKey: string;
+  side: unknown;
+  odds: unknown;
+  stake: unknown;
+}): Promise<{ offer: FantasyExchangeOffer }> {
+  const side = params.side;
+  if (side !== "back" && side !== "lay") throw new PickError("side must be 'back' or 'lay'");
+  const odds = parseExchangeOdds(params.odds);
+  if (odds === null) throw new PickError("Odds must be between 1.01 and 1000 (e.g. 4.0 or 3/1)");
+  const stake = parsePointsAmount(params.stake);
+  if (stake === null) throw new PickError("Stake must be a whole number of points (min 1)");
+
+  const market = await loadMarket(params.marketId);
+  if (market.status !== "open") throw new PickError("Market is not open");
+  const def = getMarketDefinition(market.market_type);
+  if (!def) throw new PickError("Unknown market type");
+  const config = await requireConfig(market.group_id);
+
+  // Offers are only for selections the house board quotes.
+  const { data: snap, error: snapErr } = await supabaseAdmin
+    .from("fantasy_odds_snapshots")
+    .select("id")
+    .eq("market_id", market.id)
+    .eq("selection_key", params.selectionKey)
+    .eq("status", "active")
+    .limit(1);
+  if (snapErr) throw snapErr;
+  if (!snap || snap.length === 0) throw new PickError("Unknown selection for this market");
+
+  const { live } = await loadPlacementContext(market.event_id);
+  if (!def.placementAllowed(market, params.selectionKey, live)) {
+    throw new PickError("This selection can no longer be backed");
+  }
+
+  const blocked = findExchangeRestriction(params.profileId, side, market, params.selectionKey);
+  if (blocked) throw new PickError(blocked);
+
+  // Soft check so makers can't post offers they could never cover; the match
+  // RPC re-checks the maker's balance at acceptance time.
+  const scope = await resolveWalletScope(market.group_id, config, market.event_id);
+  const { summary } = await getWalletSummary(market.group_id, params.profileId, config, scope);
+  if (summary.balance < exposure(side, stake, odds)) {
+    throw new PickError("Insufficient points balance to cover this offer");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .insert({
+      group_id: market.group_id,
+      event_id: market.event_id,
+      market_id: market.id,
+      selection_key: params.selectionKey,
+      maker_profile_id: params.profileId,
+      side,
+      decimal_odds: odds,
+      size: stake,
+      remaining: stake,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return { offer: data as FantasyExchangeOffer };
+}
+
+export async function cancelExchangeOffer(offerId: string, profileId: string): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .update({ status: "cancelled", closed_at: new Date().toISOString() })
+    .eq("id", offerId)
+    .eq("maker_profile_id", profileId)
+    .eq("status", "open")
+    .select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new PickError("No open offer of yours to cancel", 404);
+}
+
+export async function acceptExchangeOffer(params: {
+  profileId: string;
+  offerId: string;
+  amount: unknown;
+}): Promise<{ matchId: string }> {
+  const amount = parsePointsAmount(params.amount);
+  if (amount === null) throw new PickError("Stake must be a whole number of points (min 1)");
+
+  const { data: offerRow, error: offerErr } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .select("*")
+    .eq("id", params.offerId)
+    .maybeSingle();
+  if (offerErr) throw offerErr;
+  const offer = offerRow as FantasyExchangeOffer | null;
+  if (!offer) throw new PickError("Offer not found", 404);
+  if (offer.status !== "open") throw new PickError("This offer is no longer open");
+  if (offer.maker_profile_id === params.profileId) {
+    throw new PickError("You can't accept your own offer");
+  }
+
+  const market = await loadMarket(offer.market_id);
+  const def = getMarketDefinition(market.market_type);
+  const { live } = await loadPlacementContext(market.event_id);
+  if (market.status !== "open" || !def || !def.placementAllowed(market, offer.selection_key, live)) {
+    await lapseOffers([offer.id]);
+    throw new PickError("This market has closed — the offer has lapsed");
+  }
+
+  const side = takerSide(offer.side);
+  const blocked = findExchangeRestriction(params.profileId, side, market, offer.selection_key);
+  if (blocked) throw new PickError(blocked);
+
+  const config = await requireConfig(market.group_id);
+  const scope = await resolveWalletScope(market.group_id, config, market.event_id);
+  await Promise.all([
+    ensureBudgetGrant(market.group_id, params.profileId, config, scope),
+    ensureBudgetGrant(market.group_id, offer.maker_profile_id, config, scope),
+  ]);
+
+  const { data: matchId, error: rpcErr } = await supabaseAdmin.rpc(
+    "ciaga_fantasy_match_exchange_offer",
+    {
+      p_offer_id: offer.id,
+      p_taker_profile_id: params.profileId,
+      p_amount: amount,
+      p_group_season_id: scope.kind === "season" ? scope.groupSeasonId : null,
+      p_scope_event: scope.kind === "event",
+    }
+  );
+  if (rpcErr) {
+    // Business-rule rejections from the RPC read cleanly as 400s.
+    throw new PickError(rpcErr.message.replace(/^.*?: /, ""), 400);
+  }
+
+  const labels = await marketLabels([market], [offer.selection_key, params.profileId]);
+  await createNotification({
+    recipientProfileId: offer.maker_profile_id,
+    type: "fantasy_exchange_matched",
+    payload: {
+      event_id: market.event_id,
+      market_label: labels.label(market, offer.selection_key),
+      actor_name: labels.names[params.profileId] ?? "Someone",
+      side: offer.side,
+      amount,
+    },
+  });
+
+  return { matchId: matchId as string };
+}
+
+/**
+ * Lapse every open offer on the event whose market is no longer open or
+ * whose selection the registry no longer allows placing on. Run lazily by
+ * the exchange board, after settlement, and by the daily cron.
+ */
+export async function lapseExchangeOffers(eventId: string): Promise<number> {
+  const { data: offerData, error: offerErr } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .select("id, market_id, selection_key")
+    .eq("event_id", eventId)
+    .eq("status", "open");
+  if (offerErr) throw offerErr;
+  const offers = (offerData ?? []) as { id: string; market_id: string; selection_key: string }[];
+  if (offers.length === 0) return 0;
+
+  const { data: marketData, error: marketErr } = await supabaseAdmin
+    .from("fantasy_markets")
+    .select("*")
+    .in("id", [...new Set(offers.map((o) => o.market_id))]);
+  if (marketErr) throw marketErr;
+  const markets = new Map(((marketData ?? []) as FantasyMarket[]).map((m) => [m.id, m]));
+  const { live } = await loadPlacementContext(eventId);
+
+  const dead = offers.filter((o) => {
+    const market = markets.get(o.market_id);
+    const def = market ? getMarketDefinition(market.market_type) : undefined;
+    return !market || !def || market.status !== "open" || !def.placementAllowed(market, o.selection_key, live);
+  });
+  return lapseOffers(dead.map((o) => o.id));
+}
+
+/**
+ * Resolve matched exchange bets on just-settled markets from the same
+ * outcome maps the picks used (an unresolvable selection voids, as for
+ * picks), lapse the markets' unmatched offers, and notify both sides.
+ */
+export async function settleExchangeMatches(
+  eventId: string,
+  markets: FantasyMarket[],
+  outcomesByMarket: Map<string, Map<string, SettlementOutcome>>
+): Promise<void> {
+  if (markets.length === 0) return;
+  const marketIds = markets.map((m) => m.id);
+
+  const { data: openOffers, error: offerErr } = await supabaseAdmin
+    .from("fantasy_exchange_offers")
+    .select("id")
+    .eq("event_id", eventId)
+    .eq("status", "open")
+    .in("market_id", marketIds);
+  if (offerErr) throw offerErr;
+  await lapseOffers(((openOffers ?? []) as { id: string }[]).map((o) => o.id));
+
+  const { data: matchData, error: matchErr } = await supabaseAdmin
+    .from("fantasy_exchange_matches")
+    .select("*")
+    .eq("event_id", eventId)
+    .eq("status", "open")
+    .in("market_id", marketIds);
+  if (matchErr) throw matchErr;
+  const matches = (matchData ?? []) as FantasyExchangeMatch[];
+  if (matches.length === 0) return;
+
+  const outcomes = matches.map((m) => ({
+    match_id: m.id,
+    outcome: outcomesByMarket.get(m.market_id)?.get(m.selection_key) ?? "void",
+  }));
+  const { data: result, error: rpcErr } = await supabaseAdmin.rpc(
+    "ciaga_fantasy_settle_exchange_matches",
+    { p_outcomes: outcomes }
+  );
+  if (rpcErr) throw rpcErr;
+
+  const settledIds = new Set(((result as { match_ids?: string[] } | null)?.match_ids ?? []) as string[]);
+  const settled = matches.filter((m) => settledIds.has(m.id));
+  if (settled.length === 0) return;
+
+  const outcomeById = new Map(outcomes.map((o) => [o.match_id, o.outcome]));
+  const marketById = new Map(markets.map((m) => [m.id, m]));
+  const labels = await marketLabels(
+    markets.filter((m) => settled.some((s) => s.market_id === m.id)),
+    settled.flatMap((m) => [m.selection_key, m.backer_profile_id, m.layer_profile_id])
+  );
+
+  await Promise.allSettled(
+    settled.flatMap((m) => {
+      const outcome = outcomeById.get(m.id);
+      const marketLabel = labels.label(marketById.get(m.market_id)!, m.selection_key);
+      const pot = Number(m.backer_stake) + Number(m.layer_liability);
+      const sides = [
+        { profileId: m.backer_profile_id, other: m.layer_profile_id, stake: Number(m.backer_stake), wins: outcome === "won" },
+        { profileId: m.layer_profile_id, other: m.backer_profile_id, stake: Number(m.layer_liability), wins: outcome === "lost" },
+      ];
+      return sides.map((s) =>
+        createNotification({
+          recipientProfileId: s.profileId,
+          type:
+            outcome === "void"
+              ? "fantasy_exchange_void"
+              : s.wins
+              ? "fantasy_exchange_won"
+              : "fantasy_exchange_lost",
+          payload: {
+            event_id: eventId,
+            market_label: marketLabel,
+            counterparty_name: labels.names[s.other] ?? "Player",
+            stake: s.stake,
+            payout: s.wins ? pot : undefined,
+          },
+        })
+      );
+    })
+  );
+}
+
+/** Display names for the profiles involved + a "Selection — Market" labeller. */
+async function marketLabels(
+  markets: FantasyMarket[],
+  extraIds: string[]
+): Promise<{ names: Record<string, string>; label: (market: FantasyMarket, selectionKey: string) => string }> {
+  const nameIds = new Set<string>(extraIds.filter((id) => UUID_RE.test(id)));
+  for (const m of markets) {
+    if (m.subject_profile_id) nameIds.add(m.subject_profile_id);
+    if (m.opponent_profile_id) nameIds.add(m.opponent_profile_id);
+  }
+  const names: Record<string, string> = {};
+  if (nameIds.size > 0) {
+    const { data: profs } = await supabaseAdmin
+      .from("profiles")
+      .select("id, name")
+      .in("id", [...nameIds]);
+    for (const p of (profs ?? []) as { id: string; name: string | null }[]) {
+      names[p.id] = p.name ?? "Player";
+    }
+  }
+  return {
+    names,
+    label: (market, selectionKey) => {
+      const def = getMarketDefinition(market.market_type);
+      return def
+        ? `${def.selectionLabel(market, selectionKey, names)} — ${def.displayName(market, names)}`
+        : market.market_type;
+    },
+  };
+}
+
+export type ExchangeBoardOffer = FantasyExchangeOffer & {
+  market_label: string;
+  selection_label: string;
+  maker_name: string;
+  /** The house's fair price on the same selection, for reference. */
+  house_odds: number | null;
+};
+
+export type ExchangeBoardMatch = FantasyExchangeMatch & {
+  market_label: string;
+  selection_label: string;
+  backer_name: string;
+  layer_name: string;
+};
+
+export type ExchangeBoardMarket = {
+  id: string;
+  label: string;
+  selections: { key: string; label: string; house_odds: number }[];
+};
+
+/**
+ * The event's exchange: every open offer, the viewer's matched bets, and
+ * the open markets/selections a new offer can target. Lapses dead offers
+ * first so the board never shows an offer that can't be taken.
+ */
+export async function getEventExchange(
+  eventId: string,
+  profileId: string
+): Promise<{
+  offers: ExchangeBoardOffer[];
+  matches: ExchangeBoardMatch[];
+  markets: ExchangeBoardMarket[];
+}> {
+  await lapseExchangeOffers(eventId).catch((e) => {
+    console.error(`[fantasy] exchange lapse failed for ${eventId}:`, e);
+  });
+
+  const [
+    { data: offerData, error: offerErr },
+    { data: matchData, error: matchErr },
+    { data: marketData, error: marketErr },
+    { data: snapData, error: snapErr },
+  ] = await Promise.all([
+    supabaseAdmin
+      .from("fantasy_exchange_offers")
+      .select("*")
+      .eq("event_id", eventId)
+      .eq("status", "open")
+      .order("created_at", { ascending: false }),
+    supabaseAdmin
+      .from("fantasy_exchange_matches")
+      .select("*")
+      .eq("event_id", eventId)
+      .or(`backer_profile_id.eq.${profileId},layer_profile_id.eq.${profileId}`)
+      .order("matched_at", { ascending: false }),
+    supabaseAdmin.from("fantasy_markets").select("*").eq("event_id", eventId),
+    supabaseAdmin
+      .from("fantasy_odds_snapshots")
+      .select("market_id, selection_key, decimal_odds")
+      .eq("event_id", eventId)
+      .eq("status", "active"),
+  ]);
+  if (offerErr) throw offerErr;
+  if (matchErr) throw matchErr;
+  if (marketErr) throw marketErr;
+  if (snapErr) throw snapErr;
+
+  const offers = (offerData ?? []) as FantasyExchangeOffer[];
+  const matches = (matchData ?? []) as FantasyExchangeMatch[];
+  const allMarkets = (marketData ?? []) as FantasyMarket[];
+  const snaps = (snapData ?? []) as { market_id: string; selection_key: string; decimal_odds: number }[];
+  const marketById = new Map(allMarkets.map((m) => [m.id, m]));
+  const houseOdds = new Map(snaps.map((s) => [`${s.market_id}|${s.selection_key}`, Number(s.decimal_odds)]));
+
+  const labels = await marketLabels(allMarkets, [
+    ...snaps.map((s) => s.selection_key),
+    ...offers.map((o) => o.maker_profile_id),
+    ...matches.flatMap((m) => [m.backer_profile_id, m.layer_profile_id]),
+  ]);
+  const selectionLabel = (market: FantasyMarket | undefined, key: string) => {
+    const def = market ? getMarketDefinition(market.market_type) : undefined;
+    return market && def ? def.selectionLabel(market, key, labels.names) : key;
+  };
+  const displayName = (market: FantasyMarket | undefined) => {
+    const def = market ? getMarketDefinition(market.market_type) : undefined;
+    return market && def ? def.displayName(market, labels.names) : market?.market_type ?? "Market";
+  };
+
+  const snapsByMarket = new Map<string, typeof snaps>();
+  for (const s of snaps) {
+    const list = snapsByMarket.get(s.market_id);
+    if (list) list.push(s);
+    else snapsByMarket.set(s.market_id, [s]);
+  }
+
+  return {
+    offers: offers.map((o) => {
+      const market = marketById.get(o.market_id);
+      return {
+        ...o,
+        decimal_odds: Number(o.decimal_odds),
+        size: Number(o.size),
+        remaining: Number(o.remaining),
+        market_label: displayName(market),
+        selection_label: selectionLabel(market, o.selection_key),
+        maker_name: labels.names[o.maker_profile_id] ?? "Player",
+        house_odds: houseOdds.get(`${o.market_id}|${o.selection_key}`) ?? null,
+      };
+    }),
+    matches: matches.map((m) => {
+      const market = marketById.get(m.market_id);
+      return {
+        ...m,
+        decimal_odds: Number(m.decimal_odds),
+        backer_stake: Number(m.backer_stake),
+        layer_liability: Number(m.layer_liability),
+        market_label: displayName(market),
+        selection_label: selectionLabel(market, m.selection_key),
+        backer_name: labels.names[m.backer_profile_id] ?? "Player",
+        layer_name: labels.names[m.layer_profile_id] ?? "Player",
+      };
+    }),
+    markets: allMarkets
+      .filter((m) => m.status === "open" && snapsByMarket.has(m.id))
+      .map((m) => ({
+        id: m.id,
+        label: displayName(m),
+        selections: (snapsByMarket.get(m.id) ?? [])
+          .map((s) => ({
+            key: s.selection_key,
+            label: selectionLabel(m, s.selection_key),
+            house_odds: Number(s.decimal_odds),
+          }))
+          .sort((a, b) => a.house_odds - b.house_odds),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+  };
+}
+
@@ -0,0 +1,104 @@
+/**
+ * Pure peer-to-peer exchange rules shared by server (exchange lib, mirrored
+ * by ciaga_fantasy_match_exchange_offer) and client (offer form previews).
+ * No server imports allowed here.
+ *
+ * Every amount is quoted in BACKER stake points: an offer of 10 at 4.0
+ * means the backer risks 10 and the layer risks 10 × (4.0 − 1) = 30. The
+ * winner of a matched bet takes the whole pot.
+ */
+
+import type { ExchangeSide, FantasyExchangeMatch } from "@/lib/fantasy/types";
+import { findLayRestriction, findSelfRestriction } from "@/lib/fantasy/selfRestriction";
+
+/** Same price bounds the house ladder quotes. */
+export const MIN_EXCHANGE_ODDS = 1.01;
+export const MAX_EXCHANGE_ODDS = 1000;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Decimal odds from a number, a decimal string, or a fractional string
+ * ("3/1", "11/10"); 2dp, within the exchange bounds. Null when unusable.
+ */
+export function parseExchangeOdds(value: unknown): number | null {
+  let n: number;
+  if (typeof value === "number") {
+    n = value;
+  } else if (typeof value === "string") {
+    const frac = value.trim().match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+    if (frac) {
+      const den = Number(frac[2]);
+      if (den <= 0) return null;
+      n = 1 + Number(frac[1]) / den;
+    } else {
+      n = Number(value);
+    }
+  } else {
+    return null;
+  }
+  if (!Number.isFinite(n)) return null;
+  const odds = round2(n);
+  if (odds < MIN_EXCHANGE_ODDS || odds > MAX_EXCHANGE_ODDS) return null;
+  return odds;
+}
+
+/** What the layer risks (and the backer can win) on a backer stake. */
+export function layerLiability(backerStake: number, decimalOdds: number): number {
+  return round2(backerStake * (decimalOdds - 1));
+}
+
+/** The side a taker ends up on when accepting an offer. */
+export function takerSide(offerSide: ExchangeSide): ExchangeSide {
+  return offerSide === "back" ? "lay" : "back";
+}
+
+/** Points a side puts into escrow for a backer stake. */
+export function exposure(side: ExchangeSide, backerStake: number, decimalOdds: number): number {
+  return side === "back" ? backerStake : layerLiability(backerStake, decimalOdds);
+}
+
+/** Self-betting check for whichever side the member would take. */
+export function findExchangeRestriction(
+  profileId: string | null | undefined,
+  side: ExchangeSide,
+  market: Parameters<typeof findSelfRestriction>[1],
+  selectionKey: string
+): string | null {
+  return side === "back"
+    ? findSelfRestriction(profileId, market, selectionKey)
+    : findLayRestriction(profileId, market, selectionKey);
+}
+
+export type ExchangePosition = {
+  side: ExchangeSide;
+  /** Points in escrow. */
+  risk: number;
+  /** Profit if this side wins. */
+  toWin: number;
+  /** Net result once settled (null while open). */
+  result: number | null;
+};
+
+/** A matched bet from one participant's point of view; null for onlookers. */
+export function exchangePosition(
+  match: Pick<FantasyExchangeMatch, "backer_profile_id" | "layer_profile_id" | "backer_stake" | "layer_liability" | "status">,
+  profileId: string
+): ExchangePosition | null {
+  const stake = Number(match.backer_stake);
+  const liability = Number(match.layer_liability);
+  let side: ExchangeSide;
+  if (match.backer_profile_id === profileId) side = "back";
+  else if (match.layer_profile_id === profileId) side = "lay";
+  else return null;
+
+  const risk = side === "back" ? stake : liability;
+  const toWin = side === "back" ? liability : stake;
+  let result: number | null = null;
+  if (match.status === "void") result = 0;
+  else if (match.status === "won") result = side === "back" ? toWin : -risk;
+  else if (match.status === "lost") result = side === "lay" ? toWin : -risk;
+  return { side, risk, toWin, result };
+}
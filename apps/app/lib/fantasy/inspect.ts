@@ -16,6 +16,8 @@ import {
 import { getMarketDefinition } from "@/lib/fantasy/markets/registry";
 import type { FantasyMarket } from "@/lib/fantasy/markets/types";
 import type { StoredFantasyProfile } from "@/lib/fantasy/profiles";
+import { describeSteps } from "@/lib/majors/handicapCommittee";
+import { loadEventCommittee } from "@/lib/majors/handicapCommitteeData";
 
 /**
  * Odds inspector — "look under the hood" of one event's pricing.
@@ -73,7 +75,8 @@ export async function inspectEvent(eventId: string) {
 
   const profileHi = new Map<string, number | null>();
   for (const r of stored) profileHi.set(r.profile_id, r.handicap_index);
-  const phDetails = resolvePlayingHandicapDetails(ctx.event, entries, profileHi);
+  const committee = await loadEventCommittee(ctx.event, ctx.players.map((p) => p.profileId));
+  const phDetails = resolvePlayingHandicapDetails(ctx.event, entries, profileHi, committee);
 
   // Same seed the live refresh used for this version → identical numbers.
   const sim = simulateEvent(ctx, version);
@@ -100,6 +103,9 @@ export async function inspectEvent(eventId: string) {
       name: p.displayName,
       playingHandicap: p.playingHandicap,
       playingHandicapSource: detail?.source ?? "no_data",
+      playingHandicapCommittee: detail?.committee
+        ? { base: detail.committee.base, summary: describeSteps(detail.committee.steps) }
+        : null,
       completedHoles: Object.keys(p.completedHoles).length,
       roundComplete: p.roundComplete,
       modelPath,
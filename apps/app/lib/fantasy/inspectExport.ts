@@ -7,6 +7,7 @@ import {
   resolvePlayingHandicapDetails,
   simulateEvent,
   type EntryRow,
+  type PlayingHandicapDetail,
 } from "@/lib/fantasy/odds";
 import { hashSeed } from "@/lib/fantasy/simulation/rng";
 import {
@@ -22,6 +23,8 @@ import { getMarketDefinition } from "@/lib/fantasy/markets/registry";
 import { clampProbability, probabilityToDecimalOdds } from "@/lib/fantasy/simulation/types";
 import type { FantasyMarket } from "@/lib/fantasy/markets/types";
 import type { StoredFantasyProfile } from "@/lib/fantasy/profiles";
+import { describeSteps } from "@/lib/majors/handicapCommittee";
+import { loadEventCommittee } from "@/lib/majors/handicapCommitteeData";
 
 /**
  * Inspector Excel export — a full offline audit of one event's pricing. Mirrors
@@ -123,7 +126,10 @@ export async function buildInspectWorkbook(
 
   const profileHi = new Map<string, number | null>();
   for (const r of stored) profileHi.set(r.profile_id, r.handicap_index);
-  const phDetails = resolvePlayingHandicapDetails(ctx.event, entries, profileHi);
+  const committee = await loadEventCommittee(ctx.event, ctx.players.map((p) => p.profileId));
+  const phDetails = resolvePlayingHandicapDetails(ctx.event, entries, profileHi, committee);
+  const phSource = (d: PlayingHandicapDetail | undefined) =>
+    d?.committee ? `${d.source} ${d.committee.base} → ${describeSteps(d.committee.steps)}` : (d?.source ?? "no_data");
 
   const sim = simulateEvent(ctx, version);
   const seed = hashSeed(ctx.event.id, version);
@@ -220,7 +226,7 @@ export async function buildInspectWorkbook(
       return [
         p.displayName,
         p.playingHandicap,
-        phDetails.get(p.profileId)?.source ?? "no_data",
+        phSource(phDetails.get(p.profileId)),
         modelPath,
         sigmaByProfile.get(p.profileId)?.source ?? dash,
         prof?.handicap_index ?? dash,
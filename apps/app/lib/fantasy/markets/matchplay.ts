@@ -0,0 +1,378 @@
+import type {
+  FantasyMarket,
+  FinalScoringData,
+  GenerateCtx,
+  LiveMarketCtx,
+  MarketDefinition,
+  MarketSpec,
+  SettlementOutcome,
+} from "@/lib/fantasy/markets/types";
+import { playerName } from "@/lib/fantasy/markets/types";
+import {
+  bracketChampion,
+  isFixtureDecided,
+  leagueLeaders,
+  leagueStageKey,
+  MARGIN_KEYS,
+  MARGIN_LABELS,
+  marginKey,
+  type MarginKey,
+  type MatchplayFixtureInput,
+} from "@/lib/fantasy/simulation/matchplay";
+import type { SimulationResult } from "@/lib/fantasy/simulation/types";
+
+/**
+ * Matchplay markets — one fixture's winner, winning margin and whether it
+ * goes the distance, plus the bracket and league winners. Priced from the
+ * matchplay simulation (simulation/matchplay.ts) and settled from fixture
+ * results as they come in: a fixture's markets settle as soon as it's
+ * decided, the bracket's with the final, a league's once every fixture in it
+ * is played. Walkovers, double withdrawals and cancelled fixtures void.
+ */
+
+type FixtureParams = { fixture_id?: unknown; league?: unknown };
+
+function fixtureIdOf(market: FantasyMarket): string {
+  return String((market.params as FixtureParams).fixture_id ?? "");
+}
+
+/** League fixtures can be halved; knockouts play extra holes. */
+function isLeagueFixture(market: FantasyMarket): boolean {
+  return (market.params as FixtureParams).league === true;
+}
+
+function fixtureOf(final: FinalScoringData, market: FantasyMarket): MatchplayFixtureInput | undefined {
+  const id = fixtureIdOf(market);
+  return final.matchplay?.fixtures.find((f) => f.id === id);
+}
+
+function simFixture(sim: SimulationResult, market: FantasyMarket) {
+  return sim.matchplay?.fixtures[fixtureIdOf(market)];
+}
+
+function fixtureLabel(market: FantasyMarket, names: Record<string, string>): string {
+  return `${playerName(names, market.subject_profile_id)} v ${playerName(names, market.opponent_profile_id)}`;
+}
+
+function allVoid(keys: string[]): Map<string, SettlementOutcome> {
+  return new Map(keys.map((k) => [k, "void" as const]));
+}
+
+/**
+ * The fixture's result, or what to do instead: "open" while undecided (the
+ * market stays open), "void" when it wasn't played out between the market's
+ * two players.
+ */
+function fixtureResult(
+  final: FinalScoringData,
+  market: FantasyMarket
+): MatchplayFixtureInput | "open" | "void" {
+  const f = fixtureOf(final, market);
+  if (!f) return "open";
+  if (f.status === "cancelled") return "void";
+  // A bracket re-draw can change who plays a fixture after its markets opened.
+  const profileOf = (entryId: string | null) => (entryId ? final.matchplay?.profileByEntry[entryId] : undefined);
+  if (profileOf(f.home_entry_id) !== market.subject_profile_id || profileOf(f.away_entry_id) !== market.opponent_profile_id) {
+    return isFixtureDecided(f) ? "void" : "open";
+  }
+  if (!isFixtureDecided(f)) return "open";
+  if (f.result_type !== "home_win" && f.result_type !== "away_win" && f.result_type !== "halved") return "void";
+  return f;
+}
+
+function fixtureSpecs(ctx: GenerateCtx, type: "match_winner" | "match_margin" | "match_distance"): MarketSpec[] {
+  return Object.entries(ctx.matchplay?.fixtures ?? {}).map(([fixtureId, f]) => ({
+    market_type: type,
+    subject_profile_id: f.homeProfileId,
+    opponent_profile_id: f.awayProfileId,
+    params: { fixture_id: fixtureId, league: f.league },
+  }));
+}
+
+function fixtureOpen(market: FantasyMarket, ctx: LiveMarketCtx): boolean {
+  return !ctx.eventCompleted && ctx.fixtureStatus?.(fixtureIdOf(market)) === "scheduled";
+}
+
+/** Shared by the three fixture markets: open until the match starts. */
+const fixtureRules = {
+  group: "match" as const,
+  matchplay: true,
+  eligibleForCashout: true,
+
+  placementAllowed(market: FantasyMarket, _selectionKey: string, ctx: LiveMarketCtx): boolean {
+    return fixtureOpen(market, ctx);
+  },
+
+  isSelfDependent(market: FantasyMarket, _selectionKey: string, bettorProfileId: string, ctx: LiveMarketCtx): boolean {
+    // Players record their own match results.
+    const inMatch = bettorProfileId === market.subject_profile_id || bettorProfileId === market.opponent_profile_id;
+    return inMatch && ctx.fixtureStatus?.(fixtureIdOf(market)) === "live";
+  },
+
+  cashoutCutoff(market: FantasyMarket, _selectionKey: string, ctx: LiveMarketCtx) {
+    if (ctx.eventCompleted) return { eligible: false as const, reason: "Event is complete" };
+    if (!fixtureOpen(market, ctx)) return { eligible: false as const, reason: "Match has started" };
+    return { eligible: true as const };
+  },
+};
+
+function winnerSelections(market: FantasyMarket): string[] {
+  return isLeagueFixture(market) ? ["home", "halved", "away"] : ["home", "away"];
+}
+
+export const matchWinner: MarketDefinition = {
+  type: "match_winner",
+  ...fixtureRules,
+
+  displayName(market, names) {
+    return fixtureLabel(market, names);
+  },
+
+  selectionLabel(market, selectionKey, names) {
+    if (selectionKey === "halved") return "Halved";
+    return selectionKey === "home"
+      ? playerName(names, market.subject_profile_id)
+      : playerName(names, market.opponent_profile_id);
+  },
+
+  generateMarkets(ctx: GenerateCtx): MarketSpec[] {
+    return fixtureSpecs(ctx, "match_winner");
+  },
+
+  selections(market): string[] {
+    return winnerSelections(market);
+  },
+
+  simulate(sim: SimulationResult, market): Map<string, number> {
+    const out = new Map<string, number>();
+    const f = simFixture(sim, market);
+    if (!f) return out;
+    out.set("home", f.home);
+    if (isLeagueFixture(market)) out.set("halved", f.halved);
+    out.set("away", f.away);
+    return out;
+  },
+
+  settle(final: FinalScoringData, market): Map<string, SettlementOutcome> {
+    const result = fixtureResult(final, market);
+    if (result === "open") return new Map();
+    if (result === "void") return allVoid(winnerSelections(market));
+    const winner = result.result_type === "home_win" ? "home" : result.result_type === "away_win" ? "away" : "halved";
+    // A halved knockout can't happen; if one is recorded, nothing was won.
+    if (winner === "halved" && !isLeagueFixture(market)) return allVoid(winnerSelections(market));
+    return new Map(winnerSelections(market).map((k) => [k, k === winner ? "won" : "lost"]));
+  },
+};
+
+function marginSelections(market: FantasyMarket): string[] {
+  const league = isLeagueFixture(market);
+  const margins = MARGIN_KEYS.filter((m) => !(league && m === "extra"));
+  return [
+    ...margins.map((m) => `home:${m}`),
+    ...(league ? ["halved"] : []),
+    ...margins.map((m) => `away:${m}`),
+  ];
+}
+
+export const matchMargin: MarketDefinition = {
+  type: "match_margin",
+  ...fixtureRules,
+
+  displayName(market, names) {
+    return `${fixtureLabel(market, names)} — Winning Margin`;
+  },
+
+  selectionLabel(market, selectionKey, names) {
+    if (selectionKey === "halved") return "Halved";
+    const [side, margin] = selectionKey.split(":");
+    const who = side === "home" ? market.subject_profile_id : market.opponent_profile_id;
+    return `${playerName(names, who)} ${MARGIN_LABELS[margin as MarginKey] ?? margin}`;
+  },
+
+  generateMarkets(ctx: GenerateCtx): MarketSpec[] {
+    return fixtureSpecs(ctx, "match_margin");
+  },
+
+  selections(market): string[] {
+    return marginSelections(market);
+  },
+
+  simulate(sim: SimulationResult, market): Map<string, number> {
+    const out = new Map<string, number>();
+    const f = simFixture(sim, market);
+    if (!f) return out;
+    for (const key of marginSelections(market)) out.set(key, f.outcomes[key] ?? 0);
+    return out;
+  },
+
+  settle(final: FinalScoringData, market): Map<string, SettlementOutcome> {
+    const keys = marginSelections(market);
+    const result = fixtureResult(final, market);
+    if (result === "open") return new Map();
+    if (result === "void") return allVoid(keys);
+    let winning: string;
+    if (result.result_type === "halved") {
+      winning = "halved";
+    } else {
+      if (result.margin_holes == null && !result.extra_holes_played) return allVoid(keys);
+      const side = result.result_type === "home_win" ? "home" : "away";
+      winning = `${side}:${marginKey(result.margin_holes ?? 1, result.holes_remaining ?? 0, result.extra_holes_played ?? 0)}`;
+    }
+    if (!keys.includes(winning)) return allVoid(keys);
+    return new Map(keys.map((k) => [k, k === winning ? "won" : "lost"]));
+  },
+};
+
+export const matchDistance: MarketDefinition = {
+  type: "match_distance",
+  ...fixtureRules,
+
+  displayName(market, names) {
+    return `${fixtureLabel(market, names)} — To Reach the Last Hole`;
+  },
+
+  selectionLabel(_market, selectionKey) {
+    return selectionKey === "yes" ? "Yes" : "No";
+  },
+
+  generateMarkets(ctx: GenerateCtx): MarketSpec[] {
+    return fixtureSpecs(ctx, "match_distance");
+  },
+
+  selections(): string[] {
+    return ["yes", "no"];
+  },
+
+  simulate(sim: SimulationResult, market): Map<string, number> {
+    const out = new Map<string, number>();
+    const f = simFixture(sim, market);
+    if (!f) return out;
+    out.set("yes", f.distance);
+    out.set("no", 1 - f.distance);
+    return out;
+  },
+
+  settle(final: FinalScoringData, market): Map<string, SettlementOutcome> {
+    const result = fixtureResult(final, market);
+    if (result === "open") return new Map();
+    if (result === "void") return allVoid(["yes", "no"]);
+    let distance: boolean;
+    if (result.result_type === "halved" || (result.extra_holes_played ?? 0) > 0) distance = true;
+    else if (result.holes_remaining == null) return allVoid(["yes", "no"]);
+    else distance = result.holes_remaining === 0;
+    return new Map([
+      ["yes", distance ? "won" : "lost"],
+      ["no", distance ? "lost" : "won"],
+    ]);
+  },
+};
+
+// ─── Bracket and league winners ──────────────────────────────────────────────
+
+/** Everyone with a place in the given fixtures, by profile id. */
+function profilesIn(fixtures: MatchplayFixtureInput[], profileByEntry: Record<string, string>): string[] {
+  const out = new Set<string>();
+  for (const f of fixtures) {
+    const ids = [f.home_entry_id, f.away_entry_id];
+    for (const slot of f.slots ?? []) if (slot.type === "entry") ids.push(slot.entry_id);
+    for (const id of ids) if (id && profileByEntry[id]) out.add(profileByEntry[id]);
+  }
+  return [...out];
+}
+
+/** Field winner markets: open until the event completes; eliminated players simply lose their price. */
+const winnerRules = {
+  group: "winner" as const,
+  matchplay: true,
+  eligibleForCashout: true,
+
+  selectionLabel(_market: FantasyMarket, selectionKey: string, names: Record<string, string>) {
+    return playerName(names, selectionKey);
+  },
+
+  selections(): string[] {
+    // The remaining field; enumerated from the sim result.
+    return [];
+  },
+
+  placementAllowed(_market: FantasyMarket, _selectionKey: string, ctx: LiveMarketCtx): boolean {
+    return !ctx.eventCompleted;
+  },
+
+  isSelfDependent(): boolean {
+    return false;
+  },
+
+  cashoutCutoff(_market: FantasyMarket, _selectionKey: string, ctx: LiveMarketCtx) {
+    if (ctx.eventCompleted) return { eligible: false as const, reason: "Event is complete" };
+    return { eligible: true as const };
+  },
+};
+
+export const bracketWinner: MarketDefinition = {
+  type: "bracket_winner",
+  ...winnerRules,
+
+  displayName() {
+    return "Bracket Winner";
+  },
+
+  generateMarkets(ctx: GenerateCtx): MarketSpec[] {
+    return ctx.matchplay?.bracketWinner ? [{ market_type: "bracket_winner", params: {} }] : [];
+  },
+
+  simulate(sim: SimulationResult): Map<string, number> {
+    return new Map(Object.entries(sim.matchplay?.bracketWinner ?? {}));
+  },
+
+  settle(final: FinalScoringData): Map<string, SettlementOutcome> {
+    const data = final.matchplay;
+    if (!data) return new Map();
+    const bracket = data.fixtures.filter((f) => f.side != null);
+    const champion = bracketChampion(bracket);
+    if (champion == null) return new Map();
+    const winner = champion ? data.profileByEntry[champion] : null;
+    return new Map(
+      profilesIn(bracket, data.profileByEntry).map((pid) => [pid, winner ? (pid === winner ? "won" : "lost") : "void"])
+    );
+  },
+};
+
+function stageOf(market: FantasyMarket): string {
+  const stageId = (market.params as { stage_id?: unknown }).stage_id;
+  return leagueStageKey(typeof stageId === "string" ? stageId : null);
+}
+
+export const leagueWinner: MarketDefinition = {
+  type: "league_winner",
+  ...winnerRules,
+
+  displayName() {
+    return "League Winner";
+  },
+
+  generateMarkets(ctx: GenerateCtx): MarketSpec[] {
+    return Object.keys(ctx.matchplay?.leagueWinner ?? {}).map((stageKey) => ({
+      market_type: "league_winner",
+      params: { stage_id: stageKey || null },
+    }));
+  },
+
+  simulate(sim: SimulationResult, market): Map<string, number> {
+    return new Map(Object.entries(sim.matchplay?.leagueWinner[stageOf(market)] ?? {}));
+  },
+
+  settle(final: FinalScoringData, market): Map<string, SettlementOutcome> {
+    const data = final.matchplay;
+    if (!data) return new Map();
+    const stageKey = stageOf(market);
+    const leaders = leagueLeaders(data, stageKey);
+    if (!leaders) return new Map();
+    // Players level on everything at the top all win, as round winners do.
+    const winners = new Set(leaders.map((id) => data.profileByEntry[id]));
+    const stage = data.fixtures.filter((f) => f.league && leagueStageKey(f.stage_id) === stageKey);
+    return new Map(
+      profilesIn(stage, data.profileByEntry).map((pid) => [pid, winners.has(pid) ? "won" : "lost"])
+    );
+  },
+};
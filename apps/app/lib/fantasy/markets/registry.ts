@@ -10,6 +10,13 @@ import { scoreBand } from "@/lib/fantasy/markets/scoreBand";
 import { eagleCount } from "@/lib/fantasy/markets/eagles";
 import { holeScore } from "@/lib/fantasy/markets/holeScore";
 import { fieldSpecial } from "@/lib/fantasy/markets/fieldSpecials";
+import {
+  bracketWinner,
+  leagueWinner,
+  matchDistance,
+  matchMargin,
+  matchWinner,
+} from "@/lib/fantasy/markets/matchplay";
 
 /**
  * The market registry — the only place market behavior lives. Add a market
@@ -28,6 +35,11 @@ export const MARKET_REGISTRY: Record<FantasyMarketType, MarketDefinition> = {
   eagle_count: eagleCount,
   hole_score: holeScore,
   field_special: fieldSpecial,
+  bracket_winner: bracketWinner,
+  league_winner: leagueWinner,
+  match_winner: matchWinner,
+  match_margin: matchMargin,
+  match_distance: matchDistance,
 };
 
 export function getMarketDefinition(type: string): MarketDefinition | null {
@@ -37,10 +49,15 @@ export function getMarketDefinition(type: string): MarketDefinition | null {
 /** Display order for the market board. */
 export const MARKET_TYPE_ORDER: FantasyMarketType[] = [
   "outright_winner",
+  "bracket_winner",
+  "league_winner",
   "top_n",
   "finish_position",
   "finish_range",
   "h2h",
+  "match_winner",
+  "match_margin",
+  "match_distance",
   "score_band",
   "score_total",
   "birdies",
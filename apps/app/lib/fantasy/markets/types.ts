@@ -1,4 +1,5 @@
-import type { SimulationResult } from "@/lib/fantasy/simulation/types";
+import type { MatchplaySimResult, SimulationResult } from "@/lib/fantasy/simulation/types";
+import type { MatchplayEventData } from "@/lib/fantasy/simulation/matchplay";
 
 export type FantasyMarketType =
   | "outright_winner"
@@ -11,7 +12,12 @@ export type FantasyMarketType =
   | "score_band"
   | "eagle_count"
   | "hole_score"
-  | "field_special";
+  | "field_special"
+  | "match_winner"
+  | "match_margin"
+  | "match_distance"
+  | "bracket_winner"
+  | "league_winner";
 
 export type FantasyMarketStatus = "open" | "suspended" | "settled" | "void";
 
@@ -73,7 +79,9 @@ export type GenerateCtx = {
   /** Event round numbers (length 1 for single-round events). */
   rounds: number[];
   /** Round-tagged hole set — feeds hole-specific and field-special markets. */
-  holes: { holeNumber: number; par: number; round: number }[];
+  holes: { holeNumber: number; par: number; round: number; strokeIndex?: number }[];
+  /** Matchplay events: what the matchplay simulation priced. */
+  matchplay?: MatchplaySimResult;
 };
 
 export type FinalPlayerScore = {
@@ -93,6 +101,8 @@ export type FinalPlayerScore = {
   >;
   /** Latest strokes per hole, keyed holeKey(round, hole); null = no hole data. */
   holeStrokes: Record<number, number> | null;
+  /** Playing handicap the event's nets use (draft league stableford). */
+  playingHandicap?: number;
   withdrawn: boolean;
 };
 
@@ -100,9 +110,11 @@ export type FinalScoringData = {
   players: Record<string, FinalPlayerScore>;
   fieldSize: number;
   /** Round-tagged hole set (par lookups for hole-level settlement). */
-  holes: { holeNumber: number; par: number; round: number }[];
+  holes: { holeNumber: number; par: number; round: number; strokeIndex?: number }[];
   /** Field-wide rare events, from hole-level scores; null = no hole data. */
   field: { ace: boolean | null; albatross: boolean | null; eagle: boolean | null };
+  /** Matchplay events: fixtures and results. */
+  matchplay?: MatchplayEventData;
 };
 
 /**
@@ -119,6 +131,8 @@ export type LiveMarketCtx = {
   currentEagles: (profileId: string, round?: number) => number;
   /** Latest recorded strokes for a specific hole; null = not played yet. */
   holeScore: (profileId: string, round: number, holeNumber: number) => number | null;
+  /** Matchplay events: a fixture's status; null = unknown fixture. */
+  fixtureStatus?: (fixtureId: string) => string | null;
 };
 
 export type SettlementOutcome = "won" | "lost" | "void";
@@ -134,6 +148,11 @@ export interface MarketDefinition {
   type: FantasyMarketType;
   /** Which board section this market renders under. */
   group: MarketGroup;
+  /**
+   * Priced from the matchplay simulation. Matchplay events generate only
+   * these; stroke events only the rest.
+   */
+  matchplay?: boolean;
   eligibleForCashout: boolean;
   displayName(market: FantasyMarket, names: Record<string, string>): string;
   selectionLabel(
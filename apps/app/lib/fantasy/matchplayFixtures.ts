@@ -0,0 +1,91 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isMatchplayKnockout, isMatchplayLeague } from "@/lib/majors/labels";
+import { parseLeagueConfig } from "@/lib/majors/matchplayLeague";
+import type { SlotSource } from "@/lib/majors/knockoutBracket";
+import type { EventTypeV2 } from "@/lib/majors/types";
+import type { MatchplayEventData, MatchplayFixtureInput } from "@/lib/fantasy/simulation/matchplay";
+
+/** Events played as matchplay fixtures, which get matchplay markets instead of strokeplay ones. */
+export function isMatchplayEvent(eventType: string | null | undefined): boolean {
+  const type = eventType as EventTypeV2 | null | undefined;
+  return isMatchplayLeague(type) || isMatchplayKnockout(type);
+}
+
+const LEAGUE_STAGE_TYPES = ["league_phase", "group_phase"];
+
+/**
+ * An event's fixtures with their stages, bracket slots and results, for the
+ * matchplay simulation and settlement. Fixtures in a league or group stage —
+ * or in no stage at all, in a league event — can be halved; everything else
+ * is a knockout.
+ */
+export async function loadMatchplayEventData(
+  eventId: string,
+  eventType: string | null
+): Promise<MatchplayEventData> {
+  const [eventRes, stagesRes, fixturesRes, slotsRes, entriesRes] = await Promise.all([
+    supabaseAdmin.from("events").select("league_config").eq("id", eventId).maybeSingle(),
+    supabaseAdmin.from("matchplay_stages").select("id, stage_type, bracket_side").eq("event_id", eventId),
+    supabaseAdmin
+      .from("matchplay_fixtures")
+      .select(
+        "id, stage_id, round_number, bracket_position, status, result_type, winning_entry_id, home_entry_id, away_entry_id, margin_holes, holes_remaining, extra_holes_played"
+      )
+      .eq("event_id", eventId),
+    supabaseAdmin
+      .from("matchplay_bracket_slots")
+      .select("fixture_id, slot_number, source_type, source_entry_id, source_fixture_id")
+      .eq("event_id", eventId),
+    supabaseAdmin.from("event_entries").select("id, profile_id").eq("event_id", eventId),
+  ]);
+  if (eventRes.error) throw eventRes.error;
+  if (stagesRes.error) throw stagesRes.error;
+  if (fixturesRes.error) throw fixturesRes.error;
+  if (slotsRes.error) throw slotsRes.error;
+  if (entriesRes.error) throw entriesRes.error;
+
+  const stageById = new Map(((stagesRes.data ?? []) as any[]).map((s) => [s.id as string, s]));
+  const slotsByFixture = new Map<string, any[]>();
+  for (const s of (slotsRes.data ?? []) as any[]) {
+    slotsByFixture.set(s.fixture_id, [...(slotsByFixture.get(s.fixture_id) ?? []), s]);
+  }
+
+  // Same mapping as advanceBracket: a slot with nothing usable is a bye.
+  const toSource = (slot: any): SlotSource =>
+    slot?.source_type === "entry" && slot.source_entry_id
+      ? { type: "entry", entry_id: slot.source_entry_id }
+      : slot?.source_type === "winner_of_fixture" || slot?.source_type === "loser_of_fixture"
+      ? { type: slot.source_type === "winner_of_fixture" ? "winner_of" : "loser_of", fixture: slot.source_fixture_id }
+      : { type: "bye" };
+
+  const leagueEvent = isMatchplayLeague(eventType as EventTypeV2 | null);
+  const fixtures: MatchplayFixtureInput[] = ((fixturesRes.data ?? []) as any[]).map((f) => {
+    const stage = f.stage_id ? stageById.get(f.stage_id) : null;
+    const slots = slotsByFixture.get(f.id);
+    return {
+      id: f.id,
+      stage_id: f.stage_id,
+      league: stage ? LEAGUE_STAGE_TYPES.includes(stage.stage_type) : leagueEvent,
+      side: stage?.bracket_side ?? null,
+      round_number: f.round_number ?? 1,
+      position: f.bracket_position ?? 0,
+      status: f.status,
+      result_type: f.result_type,
+      winning_entry_id: f.winning_entry_id,
+      home_entry_id: f.home_entry_id,
+      away_entry_id: f.away_entry_id,
+      margin_holes: f.margin_holes,
+      holes_remaining: f.holes_remaining,
+      extra_holes_played: f.extra_holes_played,
+      slots: slots
+        ? [toSource(slots.find((s) => s.slot_number === 1)), toSource(slots.find((s) => s.slot_number === 2))]
+        : null,
+    };
+  });
+
+  return {
+    fixtures,
+    profileByEntry: Object.fromEntries(((entriesRes.data ?? []) as any[]).map((e) => [e.id, e.profile_id])),
+    leagueConfig: parseLeagueConfig((eventRes.data as any)?.league_config),
+  };
+}
@@ -1,6 +1,7 @@
 import { randomUUID } from "crypto";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { readFantasyConfig } from "@/lib/fantasy/config";
+import { readEachWayConfig, readFantasyConfig } from "@/lib/fantasy/config";
+import { offersEachWay, placeTermsFor, simPlaceProbabilities } from "@/lib/fantasy/eachWayRules";
 import { ensureProfiles, toSimProfile } from "@/lib/fantasy/profiles";
 import { getMarketDefinition, MARKET_REGISTRY } from "@/lib/fantasy/markets/registry";
 import type { FantasyMarket, GenerateCtx, LiveMarketCtx, MarketSpec } from "@/lib/fantasy/markets/types";
@@ -18,7 +19,20 @@ import {
   type SimPlayer,
   type SimulationResult,
 } from "@/lib/fantasy/simulation/types";
-import type { FantasyEventState } from "@/lib/fantasy/types";
+import type { EachWayConfig, FantasyEventState } from "@/lib/fantasy/types";
+import {
+  applyHandicapCommittee,
+  DEFAULT_HANDICAP_COMMITTEE,
+  eventMaxHandicap,
+  type EventCommittee,
+  type HandicapStep,
+} from "@/lib/majors/handicapCommittee";
+import { loadEventCommittee } from "@/lib/majors/handicapCommitteeData";
+import { isMatchplayEvent, loadMatchplayEventData } from "@/lib/fantasy/matchplayFixtures";
+import {
+  runMatchplaySimulation,
+  type MatchplayEventData,
+} from "@/lib/fantasy/simulation/matchplay";
 
 /**
  * Odds service: sim-input assembly, market generation, lazy refresh.
@@ -37,6 +51,7 @@ export type EventRow = {
   course_id: string | null;
   event_date: string | null;
   majors_status: string;
+  event_type: string | null;
   scoring_model: string | null;
   scoring_basis: string | null;
   handicap_rules: Record<string, unknown> | null;
@@ -67,6 +82,12 @@ export type EventSimContext = {
   rankingBasis: RankingBasis;
   names: Record<string, string>;
   live: LiveMarketCtx;
+  /** Matchplay events' fixtures; null for strokeplay. */
+  matchplay: MatchplayEventData | null;
+  /** Each player's fantasy_player_profiles.model_version (backtest capture). */
+  modelVersions: Record<string, number | null>;
+  /** The group's each-way place terms; null = outrights are win only. */
+  eachWay: EachWayConfig | null;
 };
 
 export const ACTIVE_ENTRY_STATUSES = ["entered", "approved"];
@@ -75,7 +96,7 @@ export async function loadEvent(eventId: string): Promise<EventRow> {
   const { data, error } = await supabaseAdmin
     .from("events")
     .select(
-      "id, name, group_id, course_id, event_date, majors_status, scoring_model, scoring_basis, handicap_rules, num_rounds, entry_window_start, entry_window_end, group_season_id, competition_id, competition_event_template_id, event_year"
+      "id, name, group_id, course_id, event_date, majors_status, event_type, scoring_model, scoring_basis, handicap_rules, num_rounds, entry_window_start, entry_window_end, group_season_id, competition_id, competition_event_template_id, event_year"
     )
     .eq("id", eventId)
     .single();
@@ -102,6 +123,8 @@ export type PlayingHandicapDetail = {
     | "profile_handicap_index_x_pct"
     | "compare_against_lowest"
     | "no_data";
+  /** Set when the group's handicap committee changed the value. */
+  committee?: { base: number; steps: HandicapStep[] };
 };
 
 /**
@@ -109,11 +132,15 @@ export type PlayingHandicapDetail = {
  * (event_entries assigned values), so net market pricing matches settlement:
  * assigned_playing_handicap → CH × allowance → HI × allowance → profile HI.
  * compare_against_lowest mode nets everyone against the field's lowest.
+ * Values not fixed by an assigned playing handicap then go through the
+ * group's handicap committee (loadEventCommittee) and the event's
+ * max_handicap, as at round start.
  */
 export function resolvePlayingHandicapDetails(
   event: EventRow,
   entries: EntryRow[],
-  profileHi: Map<string, number | null>
+  profileHi: Map<string, number | null>,
+  committee?: EventCommittee | null
 ): Map<string, PlayingHandicapDetail> {
   const rules = event.handicap_rules as { mode?: string } | null;
   const pct = allowancePct(event);
@@ -131,6 +158,19 @@ export function resolvePlayingHandicapDetails(
     return null;
   };
 
+  const eventMax = eventMaxHandicap(event.handicap_rules);
+  const adjusted = (profileId: string, detail: PlayingHandicapDetail): PlayingHandicapDetail => {
+    if (!committee && eventMax == null) return detail;
+    const res = applyHandicapCommittee(
+      detail.value,
+      committee?.eventDate ?? event.event_date ?? new Date().toISOString().slice(0, 10),
+      committee?.players.get(profileId),
+      committee?.config ?? DEFAULT_HANDICAP_COMMITTEE,
+      eventMax
+    );
+    return res.value === res.base ? detail : { ...detail, value: res.value, committee: { base: res.base, steps: res.steps } };
+  };
+
   if (rules?.mode === "none") {
     for (const e of entries) out.set(e.profile_id, { value: 0, source: "handicap_mode_none" });
     return out;
@@ -140,10 +180,13 @@ export function resolvePlayingHandicapDetails(
     const chs = entries.map((e) => courseHandicap(e)?.value ?? 0);
     const lowest = chs.length > 0 ? Math.min(...chs) : 0;
     entries.forEach((e, i) => {
-      out.set(e.profile_id, {
-        value: Math.round((chs[i] - lowest) * (pct / 100)),
-        source: "compare_against_lowest",
-      });
+      out.set(
+        e.profile_id,
+        adjusted(e.profile_id, {
+          value: Math.round((chs[i] - lowest) * (pct / 100)),
+          source: "compare_against_lowest",
+        })
+      );
     });
     return out;
   }
@@ -156,10 +199,13 @@ export function resolvePlayingHandicapDetails(
       });
     } else {
       const ch = courseHandicap(e);
-      out.set(e.profile_id, {
-        value: Math.round((ch?.value ?? 0) * (pct / 100)),
-        source: ch == null ? "no_data" : (`${ch.src}_x_pct` as PlayingHandicapDetail["source"]),
-      });
+      out.set(
+        e.profile_id,
+        adjusted(e.profile_id, {
+          value: Math.round((ch?.value ?? 0) * (pct / 100)),
+          source: ch == null ? "no_data" : (`${ch.src}_x_pct` as PlayingHandicapDetail["source"]),
+        })
+      );
     }
   }
   return out;
@@ -168,10 +214,11 @@ export function resolvePlayingHandicapDetails(
 function resolvePlayingHandicaps(
   event: EventRow,
   entries: EntryRow[],
-  profileHi: Map<string, number | null>
+  profileHi: Map<string, number | null>,
+  committee: EventCommittee | null
 ): Map<string, number> {
   const out = new Map<string, number>();
-  for (const [pid, d] of resolvePlayingHandicapDetails(event, entries, profileHi)) {
+  for (const [pid, d] of resolvePlayingHandicapDetails(event, entries, profileHi, committee)) {
     out.set(pid, d.value);
   }
   return out;
@@ -383,8 +430,14 @@ async function loadLiveRoundData(eventId: string, fallbackHoleCount: number): Pr
   return { profileRoundStatus, completedByProfile };
 }
 
-function makeLiveCtx(event: EventRow, holes: SimHole[], liveData: LiveRoundData): LiveMarketCtx {
+function makeLiveCtx(
+  event: EventRow,
+  holes: SimHole[],
+  liveData: LiveRoundData,
+  matchplay: MatchplayEventData | null
+): LiveMarketCtx {
   const { profileRoundStatus, completedByProfile } = liveData;
+  const fixtureStatus = new Map((matchplay?.fixtures ?? []).map((f) => [f.id, f.status]));
   const parByKey = new Map<number, number>(
     holes.map((h) => [holeKey(h.round ?? 1, h.holeNumber), h.par])
   );
@@ -447,9 +500,14 @@ function makeLiveCtx(event: EventRow, holes: SimHole[], liveData: LiveRoundData)
     },
     holeScore: (profileId, round, holeNumber) =>
       completedByProfile.get(profileId)?.[holeKey(round, holeNumber)] ?? null,
+    fixtureStatus: (fixtureId) => fixtureStatus.get(fixtureId) ?? null,
   };
 }
 
+async function loadMatchplay(event: EventRow): Promise<MatchplayEventData | null> {
+  return isMatchplayEvent(event.event_type) ? loadMatchplayEventData(event.id, event.event_type) : null;
+}
+
 /**
  * Lightweight context for placement / cash-out eligibility checks — no
  * profile rebuilds or handicap resolution, just event status + live scores.
@@ -459,12 +517,13 @@ export async function loadPlacementContext(eventId: string): Promise<{
   holes: SimHole[];
   live: LiveMarketCtx;
   liveData: LiveRoundData;
+  matchplay: MatchplayEventData | null;
 }> {
   const event = await loadEvent(eventId);
   let holes = await loadHoles(event);
   if (holes.length === 0) holes = fallbackHoles();
-  const liveData = await loadLiveRoundData(eventId, holes.length);
-  return { event, holes, live: makeLiveCtx(event, holes, liveData), liveData };
+  const [liveData, matchplay] = await Promise.all([loadLiveRoundData(eventId, holes.length), loadMatchplay(event)]);
+  return { event, holes, live: makeLiveCtx(event, holes, liveData, matchplay), liveData, matchplay };
 }
 
 type ProvisionalPlayer = { profileId: string; attendanceProb: number };
@@ -560,13 +619,18 @@ export async function loadSimInputs(eventId: string): Promise<EventSimContext> {
   const attendanceById = new Map(provisional.map((p) => [p.profileId, p.attendanceProb]));
   const fieldIds = [...enteredIds, ...provisionalIds];
 
-  const [profiles, names] = await Promise.all([
+  const [profiles, names, eachWay] = await Promise.all([
     ensureProfiles(groupId, fieldIds),
     loadNames(fieldIds),
+    loadEachWayConfig(groupId),
   ]);
 
   const profileHi = new Map<string, number | null>();
-  for (const [pid, row] of profiles) profileHi.set(pid, row.handicap_index);
+  const modelVersions: Record<string, number | null> = {};
+  for (const [pid, row] of profiles) {
+    profileHi.set(pid, row.handicap_index);
+    modelVersions[pid] = row.model_version ?? null;
+  }
 
   // Provisional players get a synthetic entry (no assigned values) so their PH
   // resolves from profile HI × allowance — the same path the leaderboard uses.
@@ -578,12 +642,13 @@ export async function loadSimInputs(eventId: string): Promise<EventSimContext> {
     assigned_playing_handicap: null,
   }));
   const allEntries = [...entries, ...provisionalEntries];
-  const playingHandicaps = resolvePlayingHandicaps(event, allEntries, profileHi);
+  const committee = await loadEventCommittee(event, fieldIds);
+  const playingHandicaps = resolvePlayingHandicaps(event, allEntries, profileHi, committee);
 
   let holes = await loadHoles(event);
   if (holes.length === 0) holes = fallbackHoles();
 
-  const liveData = await loadLiveRoundData(eventId, holes.length);
+  const [liveData, matchplay] = await Promise.all([loadLiveRoundData(eventId, holes.length), loadMatchplay(event)]);
   const { profileRoundStatus, completedByProfile } = liveData;
 
   const roundNumbers = [...new Set(holes.map((h) => h.round ?? 1))].sort((a, b) => a - b);
@@ -620,10 +685,23 @@ export async function loadSimInputs(eventId: string): Promise<EventSimContext> {
     holes,
     rankingBasis,
     names,
-    live: makeLiveCtx(event, holes, liveData),
+    live: makeLiveCtx(event, holes, liveData, matchplay),
+    matchplay,
+    modelVersions,
+    eachWay,
   };
 }
 
+async function loadEachWayConfig(groupId: string): Promise<EachWayConfig | null> {
+  const { data, error } = await supabaseAdmin
+    .from("major_groups")
+    .select("fantasy_config")
+    .eq("id", groupId)
+    .single();
+  if (error) throw error;
+  return readEachWayConfig(readFantasyConfig((data as { fantasy_config: unknown }).fantasy_config));
+}
+
 async function loadNames(profileIds: string[]): Promise<Record<string, string>> {
   if (profileIds.length === 0) return {};
   const { data, error } = await supabaseAdmin
@@ -639,13 +717,25 @@ async function loadNames(profileIds: string[]): Promise<Record<string, string>>
 }
 
 export function simulateEvent(ctx: EventSimContext, version: number): SimulationResult {
-  return runSimulation({
+  const simulationCount = pickSimulationCount(ctx.players.length);
+  const sim = runSimulation({
     players: ctx.players,
     holes: ctx.holes,
     rankingBasis: ctx.rankingBasis,
-    simulationCount: pickSimulationCount(ctx.players.length),
+    simulationCount,
     seed: hashSeed(ctx.event.id, version),
   });
+  if (ctx.matchplay) {
+    // Matches are played over the first round's course.
+    sim.matchplay = runMatchplaySimulation({
+      data: ctx.matchplay,
+      players: ctx.players,
+      holes: ctx.holes.filter((h) => (h.round ?? 1) === 1),
+      simulationCount,
+      seed: hashSeed(ctx.event.id, version, "matchplay"),
+    });
+  }
+  return sim;
 }
 
 async function readState(eventId: string): Promise<FantasyEventState | null> {
@@ -664,13 +754,20 @@ async function writeSnapshots(
   markets: FantasyMarket[],
   version: number
 ): Promise<void> {
+  // Each-way terms follow the field size (provisional members included, as
+  // the field markets are sized); the place part prices off the same sim.
+  const terms = placeTermsFor(ctx.eachWay, sim.players.length);
+  const placeProbs = terms ? simPlaceProbabilities(sim, terms.places) : null;
+
   const rows: Record<string, unknown>[] = [];
   for (const market of markets) {
     if (market.status !== "open") continue;
     const def = getMarketDefinition(market.market_type);
     if (!def) continue;
+    const eachWay = placeProbs && offersEachWay(market.market_type, market.params);
     for (const [selectionKey, probability] of def.simulate(sim, market)) {
       const clamped = clampProbability(probability);
+      const placeProbability = eachWay ? placeProbs.get(selectionKey) : undefined;
       rows.push({
         market_id: market.id,
         event_id: ctx.event.id,
@@ -681,6 +778,9 @@ async function writeSnapshots(
         decimal_odds: probabilityToDecimalOdds(probability),
         simulation_count: sim.simulationCount,
         status: "active",
+        place_probability: placeProbability != null ? clampProbability(placeProbability) : null,
+        each_way_places: placeProbability != null ? terms!.places : null,
+        each_way_fraction: placeProbability != null ? terms!.fraction : null,
       });
     }
   }
@@ -738,10 +838,12 @@ async function ensureMarkets(
     projections,
     rounds: [...new Set(ctx.holes.map((h) => h.round ?? 1))].sort((a, b) => a - b),
     holes: ctx.holes.map((h) => ({ holeNumber: h.holeNumber, par: h.par, round: h.round ?? 1 })),
+    matchplay: sim.matchplay,
   };
-  const specs: MarketSpec[] = Object.values(MARKET_REGISTRY).flatMap((def) =>
-    def.generateMarkets(generateCtx)
-  );
+  // Matchplay events get the matchplay markets and nothing priced off stroke totals.
+  const specs: MarketSpec[] = Object.values(MARKET_REGISTRY)
+    .filter((def) => !!def.matchplay === !!ctx.matchplay)
+    .flatMap((def) => def.generateMarkets(generateCtx));
 
   // The shape uniqueness index uses COALESCE expressions, which PostgREST
   // upserts can't target — diff against existing markets in TS and bulk-insert
@@ -811,12 +913,16 @@ async function executeRefresh(eventId: string, jobId: string): Promise<void> {
     await writeJointSamples(eventId, ctx.groupId, version, sim).catch((e) =>
       console.error(`[fantasy] writeJointSamples failed for ${eventId}`, e)
     );
-
-    // Best-effort — a narrative failure must never fail the reprice.
-    const narrative = await generateNarrative(ctx, sim, version, allowancePct(ctx.event)).catch(
-      () => null
+    await captureGenerationInputs(ctx, version).catch((e) =>
+      console.error(`[fantasy] captureGenerationInputs failed for ${eventId}`, e)
     );
 
+    // Best-effort — a narrative failure must never fail the reprice. The
+    // narrator tells strokeplay stories, so matchplay events go without.
+    const narrative = ctx.matchplay
+      ? null
+      : await generateNarrative(ctx, sim, version, allowancePct(ctx.event)).catch(() => null);
+
     await supabaseAdmin
       .from("fantasy_event_state")
       .update({
@@ -842,6 +948,12 @@ async function executeRefresh(eventId: string, jobId: string): Promise<void> {
         .then(({ settleFantasyRoundMarkets }) => settleFantasyRoundMarkets(eventId))
         .catch(() => {});
     }
+    // Matchplay: settle the markets of fixtures decided since the last run.
+    if (ctx.matchplay) {
+      import("@/lib/fantasy/settlement")
+        .then(({ settleFantasyMatchplayMarkets }) => settleFantasyMatchplayMarkets(eventId))
+        .catch(() => {});
+    }
   } catch (e: any) {
     await supabaseAdmin
       .from("fantasy_refresh_jobs")
@@ -905,6 +1017,38 @@ function marketShapeKey(m: {
   ].join("|");
 }
 
+/**
+ * Freeze what this pricing run used — field, profiles (with their model
+ * version), playing handicaps, holes — for the backtest harness. Only before
+ * play starts: the last pre-event capture is the forecast the board traded on,
+ * and in-play reprices would leak results into it. Matchplay fixtures
+ * aren't captured (their markets aren't backtested).
+ */
+async function captureGenerationInputs(ctx: EventSimContext, version: number): Promise<void> {
+  if (ctx.players.some((p) => Object.keys(p.completedHoles).length > 0)) return;
+  const players = ctx.players.map((p) => ({
+    profileId: p.profileId,
+    playingHandicap: p.playingHandicap,
+    ...(p.attendanceProb != null ? { attendanceProb: p.attendanceProb } : {}),
+    handicapIndex: p.profile.handicapIndex,
+    modelVersion: ctx.modelVersions[p.profileId] ?? null,
+    profile: p.profile,
+  }));
+  const { error } = await supabaseAdmin.from("fantasy_generation_inputs").upsert(
+    {
+      event_id: ctx.event.id,
+      group_id: ctx.groupId,
+      event_version: version,
+      ranking_basis: ctx.rankingBasis,
+      players,
+      holes: ctx.holes,
+      captured_at: new Date().toISOString(),
+    },
+    { onConflict: "event_id" }
+  );
+  if (error) throw error;
+}
+
 /**
  * Generate (or re-generate) fantasy for an event: activate state, rebuild the
  * field's performance profiles, materialize markets from the registry, and
@@ -964,9 +1108,12 @@ export async function generateEventFantasy(eventId: string): Promise<{ markets:
   await writeJointSamples(eventId, ctx.groupId, version, sim).catch((e) =>
     console.error(`[fantasy] writeJointSamples failed for ${eventId}`, e)
   );
-  const narrative = await generateNarrative(ctx, sim, version, allowancePct(ctx.event)).catch(
-    () => null
+  await captureGenerationInputs(ctx, version).catch((e) =>
+    console.error(`[fantasy] captureGenerationInputs failed for ${eventId}`, e)
   );
+  const narrative = ctx.matchplay
+    ? null
+    : await generateNarrative(ctx, sim, version, allowancePct(ctx.event)).catch(() => null);
   await supabaseAdmin
     .from("fantasy_event_state")
     .update({
@@ -205,6 +205,11 @@ export type ParlayLeg = {
    * only ever blocks, never misprices.
    */
   eventRankingBasis?: RankingBasis;
+  /**
+   * Each-way selection (win + place halves). Accas are single-part bets, so
+   * an each-way leg is rejected rather than silently priced as win only.
+   */
+  eachWay?: boolean;
 };
 
 /** A leg's event-wide finishing-position claim as an inclusive interval. */
@@ -244,6 +249,7 @@ function positionClaim(leg: ParlayLeg): { from: number; to: number } | null {
  * violation, or null when the combination is allowed.
  *
  * Rules (correlated-acca model):
+ *  - Each-way selections are singles only.
  *  - No duplicate exact (market, selection); a second selection on one market
  *    row only where the market co-occurs (top-N, wide ranges, hole scores).
  *  - Opposite hole outcomes on the same (player, hole) can't both land.
@@ -268,6 +274,10 @@ export function findParlayViolation(
   const posSubject = new Set<string>(); // `${eventId}|${player}`
   const slot = new Set<string>(); // `${eventId}|${slot}`
 
+  if (legs.some((leg) => leg.eachWay)) {
+    return "Each-way picks are singles only — switch each-way off to add them to an acca";
+  }
+
   for (const leg of legs) {
     const exactKey = `${leg.marketId}|${leg.selectionKey}`;
     if (exact.has(exactKey)) return "That selection is already in your acca";
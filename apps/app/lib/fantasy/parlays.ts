@@ -93,6 +93,8 @@ export type ParlayLegInput = {
   marketId: string;
   selectionKey: string;
   snapshotId: string;
+  /** Set by slips that still carry an each-way toggle — rejected by the rules. */
+  eachWay?: boolean;
 };
 
 export async function placeParlay(params: {
@@ -187,6 +189,7 @@ export async function placeParlay(params: {
         subjectProfileId: market.subject_profile_id,
         opponentProfileId: market.opponent_profile_id,
         eventRankingBasis: basisByEvent.get(market.event_id),
+        eachWay: leg.eachWay === true,
       };
     }),
     capsByEvent
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { parsePointsAmount, readFantasyConfig } from "@/lib/fantasy/config";
+import { offersEachWay } from "@/lib/fantasy/eachWayRules";
 import { getMarketDefinition } from "@/lib/fantasy/markets/registry";
 import type { FantasyMarket } from "@/lib/fantasy/markets/types";
 import { loadPlacementContext } from "@/lib/fantasy/odds";
@@ -27,10 +28,13 @@ export async function placePick(params: {
   marketId: string;
   selectionKey: string;
   snapshotId: string;
+  /** Per-part stake when eachWay is set — the pick costs twice this. */
   stake: unknown;
+  eachWay?: unknown;
 }): Promise<{ pickId: string }> {
   const stake = parsePointsAmount(params.stake);
   if (stake === null) throw new PickError("Stake must be a whole number of points (min 1)");
+  const eachWay = params.eachWay === true;
 
   const { data: marketRow, error: marketErr } = await supabaseAdmin
     .from("fantasy_markets")
@@ -44,6 +48,9 @@ export async function placePick(params: {
 
   const def = getMarketDefinition(market.market_type);
   if (!def) throw new PickError("Unknown market type");
+  if (eachWay && !offersEachWay(market.market_type, market.params)) {
+    throw new PickError("Each-way is not offered on this market");
+  }
 
   const ctx = await getGroupFantasyContext(market.group_id);
   const config = ctx ? readFantasyConfig(ctx.fantasyConfig) : null;
@@ -68,6 +75,7 @@ export async function placePick(params: {
     p_snapshot_id: params.snapshotId,
     p_group_season_id: scope.kind === "season" ? scope.groupSeasonId : null,
     p_scope_event: scope.kind === "event",
+    p_each_way: eachWay,
   });
   if (rpcErr) {
     // Business-rule rejections from the RPC read cleanly as 400s.
@@ -86,7 +94,14 @@ export type MyPick = {
   stake: number;
   decimal_odds: number;
   potential_return: number;
+  /** Each-way picks: stake is the total (2 × unit); terms are those locked at placement. */
+  each_way: boolean;
+  place_odds: number | null;
+  each_way_places: number | null;
+  each_way_fraction: number | null;
   status: "open" | "cashed_out" | "won" | "lost" | "void";
+  /** What settlement actually paid (dead heats can pay less than potential_return). */
+  settled_return: number | null;
   cashout_value: number | null;
   placed_at: string;
   settled_at: string | null;
@@ -139,7 +154,12 @@ export async function getMyPicks(profileId: string): Promise<MyPick[]> {
       stake: Number(row.stake),
       decimal_odds: Number(row.decimal_odds),
       potential_return: Number(row.potential_return),
+      each_way: row.each_way === true,
+      place_odds: row.place_odds != null ? Number(row.place_odds) : null,
+      each_way_places: row.each_way_places ?? null,
+      each_way_fraction: row.each_way_fraction ?? null,
       status: row.status,
+      settled_return: row.settled_return != null ? Number(row.settled_return) : null,
       cashout_value: row.cashout_value != null ? Number(row.cashout_value) : null,
       placed_at: row.placed_at,
       settled_at: row.settled_at,
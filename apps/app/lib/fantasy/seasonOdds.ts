@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { parsePointsAmount, readFantasyConfig } from "@/lib/fantasy/config";
+import { parsePointsAmount, readEachWayConfig, readFantasyConfig } from "@/lib/fantasy/config";
+import { offersEachWay, placeTermsFor } from "@/lib/fantasy/eachWayRules";
 import { PickError } from "@/lib/fantasy/picks";
 import { loadJointMatrix } from "@/lib/fantasy/jointSamples";
 import { hashSeed } from "@/lib/fantasy/simulation/rng";
@@ -7,10 +8,13 @@ import { clampProbability, probabilityToDecimalOdds } from "@/lib/fantasy/simula
 import {
   simulateSeason,
   type RemainingEvent,
+  type SeasonCounting,
   type SeasonSimResult,
 } from "@/lib/fantasy/simulation/seasonEngine";
+import { readCountingRule } from "@/lib/majors/seasonCounting";
 import type { EventPointsConfig } from "@/lib/fantasy/simulation/seasonPoints";
 import { generateSeasonNarrative } from "@/lib/fantasy/seasonNarrative";
+import type { EachWayConfig } from "@/lib/fantasy/types";
 
 /**
  * Season odds service. Season markets (winner / top-3 in the standings) are
@@ -51,6 +55,10 @@ export type SeasonContext = {
   playerIds: string[];
   names: Record<string, string>;
   remaining: RemainingEvent[];
+  /** Set when the season scores on best N / drop worst N. */
+  counting?: SeasonCounting;
+  /** The group's each-way place terms; null = the season winner is win only. */
+  eachWay: EachWayConfig | null;
 };
 
 async function readSeasonState(groupSeasonId: string): Promise<SeasonState | null> {
@@ -75,11 +83,18 @@ async function loadSeasonMarkets(groupSeasonId: string): Promise<SeasonMarketRow
 export async function loadSeasonContext(groupSeasonId: string): Promise<SeasonContext | null> {
   const { data: seasonRow } = await supabaseAdmin
     .from("group_seasons")
-    .select("id, group_id, name")
+    .select("id, group_id, name, counting_mode, counting_n, counting_mandatory_event_ids")
     .eq("id", groupSeasonId)
     .maybeSingle();
   if (!seasonRow) return null;
-  const season = seasonRow as { id: string; group_id: string; name: string };
+  const season = seasonRow as {
+    id: string;
+    group_id: string;
+    name: string;
+    counting_mode: string | null;
+    counting_n: number | null;
+    counting_mandatory_event_ids: string[] | null;
+  };
 
   const { data: standRows } = await supabaseAdmin
     .from("group_season_standings_entries")
@@ -118,9 +133,44 @@ export async function loadSeasonContext(groupSeasonId: string): Promise<SeasonCo
       numRounds: ev.num_rounds ?? 1,
       fieldSize,
     };
-    remaining.push({ matrix, points });
+    remaining.push({ matrix, points, eventId: ev.id });
+  }
+
+  // Best N / drop worst: the sim re-selects counting results, so it needs each
+  // player's banked per-event points rather than just the counted total.
+  let counting: SeasonCounting | undefined;
+  const rule = readCountingRule(season);
+  if (rule.mode !== "all") {
+    const { data: heldRows } = await supabaseAdmin
+      .from("events")
+      .select("id")
+      .eq("group_season_id", groupSeasonId)
+      .in("standings_contribution", ["season", "both"])
+      .in("majors_status", ["completed", "official"]);
+    const heldIds = ((heldRows ?? []) as { id: string }[]).map((e) => e.id);
+    const results: SeasonCounting["results"] = {};
+    if (heldIds.length > 0) {
+      const { data: resRows } = await supabaseAdmin
+        .from("event_leaderboard_entries")
+        .select("profile_id, event_id, points_earned")
+        .in("event_id", heldIds);
+      for (const r of (resRows ?? []) as { profile_id: string | null; event_id: string; points_earned: number | string | null }[]) {
+        if (!r.profile_id) continue;
+        (results[r.profile_id] ??= []).push({ event_id: r.event_id, points: Number(r.points_earned ?? 0) });
+      }
+    }
+    counting = { rule, results, eventsHeld: heldIds.length };
   }
 
+  const { data: groupRow } = await supabaseAdmin
+    .from("major_groups")
+    .select("fantasy_config")
+    .eq("id", season.group_id)
+    .maybeSingle();
+  const eachWay = readEachWayConfig(
+    readFantasyConfig((groupRow as { fantasy_config: unknown } | null)?.fantasy_config)
+  );
+
   const playerIds = [...playerSet];
   const names: Record<string, string> = {};
   if (playerIds.length > 0) {
@@ -139,6 +189,8 @@ export async function loadSeasonContext(groupSeasonId: string): Promise<SeasonCo
     playerIds,
     names,
     remaining,
+    counting,
+    eachWay,
   };
 }
 
@@ -149,6 +201,7 @@ function runSeasonSim(ctx: SeasonContext, version: number): SeasonSimResult {
     remaining: ctx.remaining,
     iterations: SEASON_SIM_ITERATIONS,
     seed: hashSeed(ctx.groupSeasonId, version),
+    counting: ctx.counting,
   });
 }
 
@@ -185,13 +238,17 @@ async function writeSeasonSnapshots(
   version: number
 ): Promise<void> {
   const byPlayer = new Map(sim.players.map((p) => [p.profileId, p]));
+  // The season's "field" is everyone who could still feature in the standings.
+  const terms = placeTermsFor(ctx.eachWay, ctx.playerIds.length);
   const rows: Record<string, unknown>[] = [];
   for (const market of markets) {
     if (market.status !== "open") continue;
+    const eachWay = terms != null && offersEachWay(market.market_type, market.params);
     for (const player of ctx.playerIds) {
       const pr = byPlayer.get(player);
       const prob = market.market_type === "season_outright" ? pr?.winProb ?? 0 : pr?.top3Prob ?? 0;
       if (prob <= 0) continue; // don't list a mathematically-eliminated player
+      const placeProb = eachWay && terms ? pr?.placeProbs[terms.places - 1] ?? null : null;
       rows.push({
         season_market_id: market.id,
         group_season_id: ctx.groupSeasonId,
@@ -202,6 +259,9 @@ async function writeSeasonSnapshots(
         decimal_odds: probabilityToDecimalOdds(prob),
         simulation_count: sim.iterations,
         status: "active",
+        place_probability: placeProb != null ? clampProbability(placeProb) : null,
+        each_way_places: placeProb != null ? terms!.places : null,
+        each_way_fraction: placeProb != null ? terms!.fraction : null,
       });
     }
   }
@@ -272,16 +332,20 @@ export async function placeSeasonPick(params: {
   seasonMarketId: string;
   selectionKey: string;
   snapshotId: string;
+  /** Per-part stake when eachWay is set — the pick costs twice this. */
   stake: unknown;
+  eachWay?: unknown;
 }): Promise<{ pickId: string }> {
   const stake = parsePointsAmount(params.stake);
   if (stake === null) throw new PickError("Stake must be a whole number of points (min 1)");
+  // The RPC rejects each-way on a selection priced without place terms.
   const { data: pickId, error } = await supabaseAdmin.rpc("ciaga_fantasy_place_season_pick", {
     p_profile_id: params.profileId,
     p_season_market_id: params.seasonMarketId,
     p_selection_key: params.selectionKey,
     p_stake: stake,
     p_snapshot_id: params.snapshotId,
+    p_each_way: params.eachWay === true,
   });
   if (error) throw new PickError(error.message.replace(/^.*?: /, ""), 400);
   return { pickId: pickId as string };
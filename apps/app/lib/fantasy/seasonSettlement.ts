@@ -1,10 +1,12 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { finishResults, settleEachWay } from "@/lib/fantasy/eachWayRules";
 
 /**
  * Settle season markets against the FINAL standings once the season is decided
  * (no constituent event left unplayed). Idempotent via the apply RPC; season
  * outright wins on position 1, season top-N on position ≤ n, no standings
- * row → void. Called from the event-completion hook + a cron safety net.
+ * row → void. Each-way picks pay both parts with dead-heat shares on tied
+ * positions. Called from the event-completion hook + a cron safety net.
  */
 export async function settleFantasySeason(groupSeasonId: string): Promise<{
   settled: boolean;
@@ -42,6 +44,7 @@ export async function settleFantasySeason(groupSeasonId: string): Promise<{
   const finalPos = new Map(
     ((standRows ?? []) as { profile_id: string; position: number | null }[]).map((s) => [s.profile_id, s.position])
   );
+  const finishes = finishResults(finalPos);
 
   const { data: marketRows } = await supabaseAdmin
     .from("fantasy_season_markets")
@@ -54,13 +57,28 @@ export async function settleFantasySeason(groupSeasonId: string): Promise<{
 
   const { data: pickRows } = await supabaseAdmin
     .from("fantasy_season_picks")
-    .select("id, season_market_id, selection_key")
+    .select("id, season_market_id, selection_key, stake, decimal_odds, each_way, place_odds, each_way_places")
     .eq("group_season_id", groupSeasonId)
     .eq("status", "open");
 
-  const outcomes = ((pickRows ?? []) as { id: string; season_market_id: string; selection_key: string }[]).map((pk) => {
+  const outcomes = ((pickRows ?? []) as {
+    id: string; season_market_id: string; selection_key: string; stake: number | string; decimal_odds: number | string;
+    each_way: boolean; place_odds: number | string | null; each_way_places: number | null;
+  }[]).map((pk) => {
     const market = markets.get(pk.season_market_id);
     const pos = finalPos.get(pk.selection_key) ?? null;
+    if (market && pk.each_way && pk.place_odds != null && pk.each_way_places != null) {
+      const { outcome, payout } = settleEachWay(
+        {
+          stake: Number(pk.stake),
+          decimalOdds: Number(pk.decimal_odds),
+          placeOdds: Number(pk.place_odds),
+          places: pk.each_way_places,
+        },
+        finishes.get(pk.selection_key) ?? null
+      );
+      return { pick_id: pk.id, outcome, payout };
+    }
     let outcome: "won" | "lost" | "void";
     if (!market || pos == null) {
       outcome = "void";
@@ -2,11 +2,13 @@
  * Self-betting integrity rules — you can back yourself to do WELL, never to
  * do badly, and never an exact score/band/position you could steer into.
  * Pure and shared: the boards use it to grey selections out, placement
- * (placePick / placeParlay) enforces it server-side. No server imports.
+ * (placePick / placeParlay / the exchange) enforces it server-side. No server
+ * imports.
  *
  * Unrestricted by design: outright winner, top-N, from-1st finishing ranges,
  * birdies, eagles, under score totals, birdie-or-better holes, backing your
- * own h2h side, and the field specials (no target player).
+ * own h2h or match side, bracket and league winners, and the field specials
+ * (no target player).
  */
 
 type RestrictableMarket = {
@@ -43,6 +45,20 @@ export function findSelfRestriction(
         (isSubject && selectionKey === "a") || (isOpponent && selectionKey === "b");
       return backingSelf ? null : "You can only back yourself in your own matchups";
     }
+    case "match_winner": {
+      // Same as h2h: only your own side; a half is yours to concede.
+      const isOpponent = market.opponent_profile_id === bettorProfileId;
+      if (!isSubject && !isOpponent) return null;
+      return selectionKey === (isSubject ? "home" : "away")
+        ? null
+        : "You can only back yourself in your own matches";
+    }
+    case "match_margin":
+    case "match_distance":
+      // You choose when to close a match out.
+      return isSubject || market.opponent_profile_id === bettorProfileId
+        ? "You can't bet on how your own match finishes"
+        : null;
     case "score_total":
       // Under = playing well, fine. Over and Exactly pay for a score you
       // control from above.
@@ -79,3 +95,35 @@ export function findSelfRestriction(
       return null;
   }
 }
+
+/**
+ * The exchange's lay side: laying a selection pays when it DOESN'T happen,
+ * so almost every lay involving yourself is a bet you could throw. The one
+ * exception is laying your opponent's side of your own matchup — that's
+ * backing yourself not to lose ("I'll lay you 3/1 on Dave to beat me").
+ * Returns a human reason, or null when the lay is allowed.
+ */
+export function findLayRestriction(
+  layerProfileId: string | null | undefined,
+  market: RestrictableMarket,
+  selectionKey: string
+): string | null {
+  if (!layerProfileId) return null;
+  if (selectionKey === layerProfileId) return "You can't lay yourself";
+  const isSubject = market.subject_profile_id === layerProfileId;
+  const isOpponent = market.opponent_profile_id === layerProfileId;
+  if (!isSubject && !isOpponent) return null;
+
+  switch (market.market_type) {
+    case "h2h":
+      return selectionKey === (isSubject ? "b" : "a")
+        ? null
+        : "You can only lay your opponent in your own matchups";
+    case "match_winner":
+      return selectionKey === (isSubject ? "away" : "home")
+        ? null
+        : "You can only lay your opponent in your own matches";
+    default:
+      return "You can't lay selections on yourself";
+  }
+}
@@ -7,13 +7,16 @@ import type {
   SettlementOutcome,
 } from "@/lib/fantasy/markets/types";
 import { marketRound } from "@/lib/fantasy/markets/roundUtil";
+import { finishResults, settleEachWay, type FinishResult } from "@/lib/fantasy/eachWayRules";
 import {
   loadPlacementContext,
   resolvePlayingHandicapDetails,
   type EntryRow,
 } from "@/lib/fantasy/odds";
 import { holeKey } from "@/lib/fantasy/simulation/types";
+import { settleExchangeMatches } from "@/lib/fantasy/exchange";
 import { createNotification } from "@/lib/notifications/notify";
+import { loadEventCommittee } from "@/lib/majors/handicapCommitteeData";
 
 /**
  * Event settlement — registry-driven, idempotent, best-effort at every entry
@@ -23,7 +26,10 @@ import { createNotification } from "@/lib/notifications/notify";
  * (pick transitions + payout/refund ledger rows + is_final) happens in the
  * ciaga_fantasy_apply_settlement RPC, which only touches 'open' picks so
  * re-runs are no-ops. Round-scoped markets of multi-round events settle early
- * via settleFantasyRoundMarkets (p_final=false keeps the event live).
+ * via settleFantasyRoundMarkets, and matchplay markets as their fixtures are
+ * decided via settleFantasyMatchplayMarkets (p_final=false keeps the event
+ * live). Acca legs and matched exchange bets on the settled markets resolve
+ * from the same outcome maps.
  */
 
 const WITHDRAWN_STATUSES = ["withdrawn", "no_show", "rejected"];
@@ -32,7 +38,7 @@ export type SettleResult =
   | { settled: true; won: number; lost: number; void: number }
   | { settled: false; reason: string };
 
-async function loadFinalScoringData(eventId: string): Promise<FinalScoringData> {
+export async function loadFinalScoringData(eventId: string): Promise<FinalScoringData> {
   const [{ data: entryData, error: entryErr }, { data: lbData, error: lbErr }, placement] =
     await Promise.all([
       supabaseAdmin
@@ -65,12 +71,14 @@ async function loadFinalScoringData(eventId: string): Promise<FinalScoringData>
       profileHi.set(r.profile_id, r.handicap_index != null ? Number(r.handicap_index) : null);
     }
   }
-  const phDetails = resolvePlayingHandicapDetails(placement.event, entries, profileHi);
+  const committee = await loadEventCommittee(placement.event, entries.map((e) => e.profile_id));
+  const phDetails = resolvePlayingHandicapDetails(placement.event, entries, profileHi, committee);
 
   const holes = placement.holes.map((h) => ({
     holeNumber: h.holeNumber,
     par: h.par,
     round: h.round ?? 1,
+    strokeIndex: h.strokeIndex,
   }));
   const parByKey = new Map<number, number>(holes.map((h) => [holeKey(h.round, h.holeNumber), h.par]));
   const roundNumbers = [...new Set(holes.map((h) => h.round))].sort((a, b) => a - b);
@@ -139,6 +147,7 @@ async function loadFinalScoringData(eventId: string): Promise<FinalScoringData>
       eagleCount: counts.eagles,
       roundScores: counts.roundScores,
       holeStrokes: counts.holeStrokes,
+      playingHandicap: phDetails.get(e.profile_id)?.value,
       withdrawn: WITHDRAWN_STATUSES.includes(e.entry_status),
     };
   }
@@ -173,15 +182,28 @@ async function loadFinalScoringData(eventId: string): Promise<FinalScoringData>
     field: anyHoleData
       ? { ace: anyAce.seen, albatross: anyAlbatross.seen, eagle: anyEagle.seen }
       : { ace: null, albatross: null, eagle: null },
+    ...(placement.matchplay ? { matchplay: placement.matchplay } : {}),
   };
 }
 
+/** The pick columns settlement reads; the each-way ones are absent on round/matchplay selects. */
+type SettlePick = {
+  id: string;
+  market_id: string;
+  selection_key: string;
+  stake?: number | string;
+  decimal_odds?: number | string;
+  each_way?: boolean;
+  place_odds?: number | string | null;
+  each_way_places?: number | null;
+};
+
 function computeOutcomes(
   markets: FantasyMarket[],
   final: FinalScoringData,
-  picks: { id: string; market_id: string; selection_key: string }[]
+  picks: SettlePick[]
 ): {
-  pickOutcomes: { pick_id: string; outcome: SettlementOutcome }[];
+  pickOutcomes: { pick_id: string; outcome: SettlementOutcome; payout?: number }[];
   outcomesByMarket: Map<string, Map<string, SettlementOutcome>>;
 } {
   const outcomesByMarket = new Map<string, Map<string, SettlementOutcome>>();
@@ -194,12 +216,32 @@ function computeOutcomes(
       outcomesByMarket.set(market.id, new Map());
     }
   }
-  const pickOutcomes = picks.map((pick) => ({
-    pick_id: pick.id,
-    // A selection the settler can't resolve (e.g. player missing from final
-    // data) voids rather than loses — spec: void invalid picks.
-    outcome: outcomesByMarket.get(pick.market_id)?.get(pick.selection_key) ?? "void",
-  }));
+  // Each-way picks settle off the leaderboard positions with dead-heat shares.
+  let finishes: Map<string, FinishResult> | null = null;
+  const pickOutcomes = picks.map((pick) => {
+    const decided = outcomesByMarket.get(pick.market_id)?.get(pick.selection_key);
+    if (pick.each_way && pick.place_odds != null && pick.each_way_places != null && decided) {
+      finishes ??= finishResults(
+        Object.values(final.players).map((p) => [p.profileId, p.withdrawn ? null : p.position])
+      );
+      const { outcome, payout } = settleEachWay(
+        {
+          stake: Number(pick.stake),
+          decimalOdds: Number(pick.decimal_odds),
+          placeOdds: Number(pick.place_odds),
+          places: pick.each_way_places,
+        },
+        decided === "void" ? null : finishes.get(pick.selection_key) ?? null
+      );
+      return { pick_id: pick.id, outcome, payout };
+    }
+    return {
+      pick_id: pick.id,
+      // A selection the settler can't resolve (e.g. player missing from final
+      // data) voids rather than loses — spec: void invalid picks.
+      outcome: decided ?? "void",
+    };
+  });
   return { pickOutcomes, outcomesByMarket };
 }
 
@@ -295,10 +337,7 @@ export async function settleFantasyEvent(
   if (pickErr) throw pickErr;
 
   const markets = (marketData ?? []) as FantasyMarket[];
-  const picks = (pickData ?? []) as {
-    id: string; market_id: string; profile_id: string; selection_key: string;
-    stake: number; potential_return: number;
-  }[];
+  const picks = (pickData ?? []) as (SettlePick & { profile_id: string; potential_return: number })[];
 
   const final = await loadFinalScoringData(eventId);
   const { pickOutcomes, outcomesByMarket } = computeOutcomes(markets, final, picks);
@@ -315,6 +354,9 @@ export async function settleFantasyEvent(
   if (applyErr) throw applyErr;
 
   await settleParlayLegs(eventId, markets.map((m) => m.id), outcomesByMarket).catch(() => {});
+  await settleExchangeMatches(eventId, markets, outcomesByMarket).catch((e) => {
+    console.error(`[fantasy] exchange settlement failed for ${eventId}:`, e);
+  });
   await notifySettledPicks(eventId, event.name, picks.map((p) => p.id));
 
   // Cascade to season markets: this result shifts the standings, so re-price the
@@ -414,10 +456,116 @@ export async function settleFantasyRoundMarkets(
   if (applyErr) throw applyErr;
 
   await settleParlayLegs(eventId, marketIds, outcomesByMarket).catch(() => {});
+  await settleExchangeMatches(eventId, roundMarkets, outcomesByMarket).catch((e) => {
+    console.error(`[fantasy] exchange settlement failed for ${eventId}:`, e);
+  });
   await notifySettledPicks(eventId, event.name, picks.map((p) => p.id));
   return { settled: roundMarkets.length };
 }
 
+/**
+ * Early settlement for matchplay markets: any open market whose fixture,
+ * bracket final or league stage has been decided settles now (the
+ * definitions return no outcomes while theirs is still being played).
+ */
+export async function settleFantasyMatchplayMarkets(
+  eventId: string
+): Promise<{ settled: number }> {
+  const { data: stateRow } = await supabaseAdmin
+    .from("fantasy_event_state")
+    .select("event_id, is_final")
+    .eq("event_id", eventId)
+    .maybeSingle();
+  if (!stateRow || (stateRow as { is_final: boolean }).is_final) return { settled: 0 };
+
+  const { data: eventRow, error: eventErr } = await supabaseAdmin
+    .from("events")
+    .select("id, name, majors_status")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (eventErr) throw eventErr;
+  const event = eventRow as { id: string; name: string; majors_status: string } | null;
+  // Completed events go through the full settlement path instead.
+  if (!event || event.majors_status === "completed") return { settled: 0 };
+
+  const { data: marketData, error: marketErr } = await supabaseAdmin
+    .from("fantasy_markets")
+    .select("*")
+    .eq("event_id", eventId)
+    .in("status", ["open", "suspended"]);
+  if (marketErr) throw marketErr;
+  const matchplayMarkets = ((marketData ?? []) as FantasyMarket[]).filter(
+    (m) => getMarketDefinition(m.market_type)?.matchplay
+  );
+  if (matchplayMarkets.length === 0) return { settled: 0 };
+
+  const final = await loadFinalScoringData(eventId);
+  if (!final.matchplay) return { settled: 0 };
+  const decided = computeOutcomes(matchplayMarkets, final, []).outcomesByMarket;
+  const ready = matchplayMarkets.filter((m) => (decided.get(m.id)?.size ?? 0) > 0);
+  if (ready.length === 0) return { settled: 0 };
+
+  const marketIds = ready.map((m) => m.id);
+  const { data: pickData, error: pickErr } = await supabaseAdmin
+    .from("fantasy_picks")
+    .select("id, market_id, profile_id, selection_key, stake, potential_return")
+    .eq("event_id", eventId)
+    .eq("status", "open")
+    .in("market_id", marketIds);
+  if (pickErr) throw pickErr;
+  const picks = (pickData ?? []) as {
+    id: string; market_id: string; profile_id: string; selection_key: string;
+    stake: number; potential_return: number;
+  }[];
+
+  const { pickOutcomes, outcomesByMarket } = computeOutcomes(ready, final, picks);
+
+  const { error: applyErr } = await supabaseAdmin.rpc("ciaga_fantasy_apply_settlement", {
+    p_event_id: eventId,
+    p_outcomes: pickOutcomes,
+    p_market_ids: marketIds,
+    p_final: false,
+  });
+  if (applyErr) throw applyErr;
+
+  await settleParlayLegs(eventId, marketIds, outcomesByMarket).catch(() => {});
+  await settleExchangeMatches(eventId, ready, outcomesByMarket).catch((e) => {
+    console.error(`[fantasy] exchange settlement failed for ${eventId}:`, e);
+  });
+  await notifySettledPicks(eventId, event.name, picks.map((p) => p.id));
+  return { settled: ready.length };
+}
+
+/**
+ * Safety net for exchange bets left open on markets that have already
+ * settled (their settlement failed after the picks were applied): recompute
+ * the outcomes and settle them. Bets on void markets void.
+ */
+export async function settleStrandedExchangeMatches(eventId: string): Promise<{ settled: number }> {
+  const { data: matchData, error: matchErr } = await supabaseAdmin
+    .from("fantasy_exchange_matches")
+    .select("market_id")
+    .eq("event_id", eventId)
+    .eq("status", "open");
+  if (matchErr) throw matchErr;
+  const marketIds = [...new Set(((matchData ?? []) as { market_id: string }[]).map((m) => m.market_id))];
+  if (marketIds.length === 0) return { settled: 0 };
+
+  const { data: marketData, error: marketErr } = await supabaseAdmin
+    .from("fantasy_markets")
+    .select("*")
+    .in("id", marketIds)
+    .in("status", ["settled", "void"]);
+  if (marketErr) throw marketErr;
+  const markets = (marketData ?? []) as FantasyMarket[];
+  if (markets.length === 0) return { settled: 0 };
+
+  const final = await loadFinalScoringData(eventId);
+  const { outcomesByMarket } = computeOutcomes(markets.filter((m) => m.status === "settled"), final, []);
+  await settleExchangeMatches(eventId, markets, outcomesByMarket);
+  return { settled: markets.length };
+}
+
 async function notifySettledPicks(
   eventId: string,
   eventName: string,
@@ -434,7 +582,7 @@ async function notifySettledPicks(
           event_name: eventName,
           market_label: p.label,
           stake: p.stake,
-          payout: p.status === "won" ? p.potential_return : undefined,
+          payout: p.status === "won" ? p.settled_return ?? p.potential_return : undefined,
         },
       })
     )
@@ -445,12 +593,21 @@ async function getSettledPickLabels(
   eventId: string,
   pickIds: string[]
 ): Promise<
-  { profile_id: string; status: "won" | "lost" | "void"; label: string; stake: number; potential_return: number }[]
+  {
+    profile_id: string;
+    status: "won" | "lost" | "void";
+    label: string;
+    stake: number;
+    potential_return: number;
+    settled_return: number | null;
+  }[]
 > {
   if (pickIds.length === 0) return [];
   const { data, error } = await supabaseAdmin
     .from("fantasy_picks")
-    .select("id, profile_id, status, stake, potential_return, selection_key, market:fantasy_markets(*)")
+    .select(
+      "id, profile_id, status, stake, potential_return, settled_return, selection_key, market:fantasy_markets(*)"
+    )
     .eq("event_id", eventId)
     .in("id", pickIds)
     .in("status", ["won", "lost", "void"]);
@@ -487,6 +644,7 @@ async function getSettledPickLabels(
       label,
       stake: Number(row.stake),
       potential_return: Number(row.potential_return),
+      settled_return: row.settled_return != null ? Number(row.settled_return) : null,
     };
   });
 }
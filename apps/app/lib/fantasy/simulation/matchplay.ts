@@ -0,0 +1,454 @@
+// Fantasy Picks — matchplay simulation.
+// Hole-by-hole matches on the stroke engine's hole model, and the knockout
+// brackets and league tables they feed. Pure: lib/fantasy/matchplayFixtures.ts
+// loads the fixtures and odds.ts runs this alongside the stroke simulation for
+// matchplay events.
+
+import { mulberry32 } from "@/lib/fantasy/simulation/rng";
+import {
+  buildHoleDistributions,
+  sampleOutcome,
+  strokesReceived,
+  toCumulative,
+} from "@/lib/fantasy/simulation/holeModel";
+import type {
+  MatchDistribution,
+  MatchplaySimResult,
+  SimHole,
+  SimPlayer,
+} from "@/lib/fantasy/simulation/types";
+import { computeLeagueTable, type LeagueConfig, type LeagueResult } from "@/lib/majors/matchplayLeague";
+import { isResetFinal, type BracketSide, type SlotSource } from "@/lib/majors/knockoutBracket";
+import type { MatchplayResultType } from "@/lib/majors/types";
+
+/** Iterations per pairing — every open fixture and every pairing a bracket or league can throw up. */
+export const MATCH_SIMULATION_COUNT = 5_000;
+/** Sudden-death holes simulated before a still-level knockout is settled on a coin flip. */
+const EXTRA_HOLE_LIMIT = 9;
+
+// ─── Margins ─────────────────────────────────────────────────────────────────
+
+/**
+ * Winning-margin buckets. Matches won on the last green are "1up"/"2up",
+ * earlier finishes "holes up & holes to play"; anything by 5 or more is one
+ * bucket, and knockouts decided in sudden death are "extra".
+ */
+export const MARGIN_KEYS = ["1up", "2up", "2&1", "3&1", "3&2", "4&2", "4&3", "5+", "extra"] as const;
+export type MarginKey = (typeof MARGIN_KEYS)[number];
+
+export const MARGIN_LABELS: Record<MarginKey, string> = {
+  "1up": "1 up",
+  "2up": "2 up",
+  "2&1": "2&1",
+  "3&1": "3&1",
+  "3&2": "3&2",
+  "4&2": "4&2",
+  "4&3": "4&3",
+  "5+": "by 5 or more",
+  extra: "at extra holes",
+};
+
+/** Holes up each bucket stands for when a simulated league result needs one. */
+const MARGIN_HOLES: Record<MarginKey, number> = {
+  "1up": 1, "2up": 2, "2&1": 2, "3&1": 3, "3&2": 3, "4&2": 4, "4&3": 4, "5+": 5, extra: 1,
+};
+
+/** The bucket for a decided match — shared by pricing and settlement. */
+export function marginKey(marginHoles: number, holesRemaining: number, extraHoles: number): MarginKey {
+  if (extraHoles > 0) return "extra";
+  if (marginHoles >= 5) return "5+";
+  if (holesRemaining <= 0) return marginHoles >= 2 ? "2up" : "1up";
+  const key = `${marginHoles}&${holesRemaining}`;
+  return (MARGIN_KEYS as readonly string[]).includes(key) ? (key as MarginKey) : "5+";
+}
+
+// ─── Single match ────────────────────────────────────────────────────────────
+
+export type MatchPlayer = Pick<SimPlayer, "profile" | "playingHandicap">;
+
+/**
+ * Simulate one match. The higher handicap receives the difference in playing
+ * handicaps, allocated by stroke index (the same strokesReceived the stroke
+ * engine uses), and each hole goes to the lower net score. The match ends as
+ * soon as a player is more holes up than remain. Level after the last hole
+ * it's halved — or, in a knockout, goes back down the 1st as sudden death.
+ */
+export function simulateMatch(
+  home: MatchPlayer,
+  away: MatchPlayer,
+  holes: SimHole[],
+  opts: { knockout: boolean; simulationCount: number; rand: () => number }
+): MatchDistribution {
+  const { knockout, rand } = opts;
+  const n = holes.length;
+  const count = Math.max(1, opts.simulationCount);
+  const homeCum = toCumulative(buildHoleDistributions(home.profile, holes, home.playingHandicap));
+  const awayCum = toCumulative(buildHoleDistributions(away.profile, holes, away.playingHandicap));
+  // Strokes home receives on each hole (negative = away receives them).
+  const diff = Math.abs(home.playingHandicap - away.playingHandicap);
+  const sign = home.playingHandicap > away.playingHandicap ? 1 : -1;
+  const homeShots = holes.map((h) => sign * strokesReceived(diff, h.strokeIndex, n));
+
+  // Par cancels, so outcome indices compare directly.
+  const holeWinner = (h: number): number => {
+    const d = sampleOutcome(homeCum[h], rand()) - sampleOutcome(awayCum[h], rand()) - homeShots[h];
+    return d < 0 ? 1 : d > 0 ? -1 : 0;
+  };
+
+  const counts = new Map<string, number>();
+  let distance = 0;
+  for (let iter = 0; iter < count; iter++) {
+    let up = 0;
+    let remaining = n;
+    for (let h = 0; h < n; h++) {
+      up += holeWinner(h);
+      remaining = n - h - 1;
+      if (Math.abs(up) > remaining) break;
+    }
+    if (remaining === 0) distance += 1;
+
+    let extra = 0;
+    if (up === 0 && knockout) {
+      while (up === 0 && extra < EXTRA_HOLE_LIMIT) {
+        up = holeWinner(extra % n);
+        extra += 1;
+      }
+      if (up === 0) up = rand() < 0.5 ? 1 : -1;
+    }
+
+    const key = up === 0 ? "halved" : `${up > 0 ? "home" : "away"}:${marginKey(Math.abs(up), remaining, extra)}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const outcomes: Record<string, number> = {};
+  let homeWins = 0;
+  let awayWins = 0;
+  for (const [key, c] of counts) {
+    outcomes[key] = c / count;
+    if (key.startsWith("home:")) homeWins += c;
+    else if (key.startsWith("away:")) awayWins += c;
+  }
+  return {
+    outcomes,
+    home: homeWins / count,
+    halved: (counts.get("halved") ?? 0) / count,
+    away: awayWins / count,
+    distance: distance / count,
+  };
+}
+
+/** Inverse-CDF draw of one outcome key from a match distribution. */
+function outcomeSampler(dist: MatchDistribution): (u: number) => string {
+  const keys = Object.keys(dist.outcomes);
+  const cum: number[] = [];
+  let acc = 0;
+  for (const k of keys) {
+    acc += dist.outcomes[k];
+    cum.push(acc);
+  }
+  return (u) => {
+    for (let i = 0; i < keys.length; i++) if (u * acc <= cum[i]) return keys[i];
+    return keys[keys.length - 1];
+  };
+}
+
+// ─── Event fixtures ──────────────────────────────────────────────────────────
+
+/** One matchplay_fixtures row, with what the simulation and settlement need. */
+export type MatchplayFixtureInput = {
+  id: string;
+  stage_id: string | null;
+  /** League and group-phase fixtures can be halved; knockouts play on. */
+  league: boolean;
+  /** Bracket side for fixtures in a drawn bracket; null otherwise. */
+  side: BracketSide | null;
+  round_number: number;
+  position: number;
+  status: string;
+  result_type: MatchplayResultType | null;
+  winning_entry_id: string | null;
+  home_entry_id: string | null;
+  away_entry_id: string | null;
+  margin_holes: number | null;
+  holes_remaining: number | null;
+  extra_holes_played: number | null;
+  /** Bracket slot sources; null outside a bracket. */
+  slots: [SlotSource, SlotSource] | null;
+};
+
+export type MatchplayEventData = {
+  fixtures: MatchplayFixtureInput[];
+  /** event_entries.id → profile id. */
+  profileByEntry: Record<string, string>;
+  leagueConfig: LeagueConfig;
+};
+
+const DECIDED_STATUSES = ["completed", "walkover"];
+
+export function isFixtureDecided(f: Pick<MatchplayFixtureInput, "status" | "result_type">): boolean {
+  return f.result_type === "double_withdrawal" || (DECIDED_STATUSES.includes(f.status) && f.result_type != null);
+}
+
+/** League stages key on stage id; fixtures outside any stage share "". */
+export function leagueStageKey(stageId: string | null): string {
+  return stageId ?? "";
+}
+
+/**
+ * The fixture that crowns the bracket: the (first) grand final when there is
+ * one, otherwise the last round of the main draw. Null without a bracket.
+ */
+export function bracketFinal(fixtures: MatchplayFixtureInput[]): MatchplayFixtureInput | null {
+  const pick = (side: BracketSide) =>
+    fixtures
+      .filter((f) => f.side === side && !isResetFinal(f))
+      .sort((a, b) => b.round_number - a.round_number || a.position - b.position)[0] ?? null;
+  return pick("final") ?? pick("winners");
+}
+
+/** A double-elimination bracket's reset final, if it has one. */
+function bracketReset(fixtures: MatchplayFixtureInput[]): MatchplayFixtureInput | null {
+  return fixtures.find((f) => isResetFinal(f)) ?? null;
+}
+
+const fixtureWinner = (f: MatchplayFixtureInput) =>
+  f.result_type === "double_withdrawal" ? "" : f.winning_entry_id ?? "";
+
+/**
+ * The bracket champion's entry id once the final is decided; null while it's
+ * still to play, "" when nobody won it (both finalists withdrew). A reset
+ * final only decides it when the first final's away side won that.
+ */
+export function bracketChampion(fixtures: MatchplayFixtureInput[]): string | null {
+  const final = bracketFinal(fixtures);
+  if (!final || !isFixtureDecided(final)) return null;
+  const winner = fixtureWinner(final);
+  const reset = bracketReset(fixtures);
+  if (!reset || reset.status === "cancelled" || winner === "" || winner === final.home_entry_id) return winner;
+  return isFixtureDecided(reset) ? fixtureWinner(reset) : null;
+}
+
+/**
+ * Entry ids top of a league stage once every fixture in it is decided or
+ * cancelled (players level on everything share first); null while any
+ * fixture is still to play.
+ */
+export function leagueLeaders(data: MatchplayEventData, stageKey: string): string[] | null {
+  const fixtures = data.fixtures.filter((f) => f.league && leagueStageKey(f.stage_id) === stageKey);
+  if (fixtures.length === 0) return null;
+  if (fixtures.some((f) => f.status !== "cancelled" && !isFixtureDecided(f))) return null;
+  const entryIds = leagueEntryIds(fixtures, data.profileByEntry);
+  const decided = fixtures.filter((f) => f.status !== "cancelled");
+  return computeLeagueTable(entryIds, decided, data.leagueConfig)
+    .filter((r) => r.position === 1)
+    .map((r) => r.entry_id);
+}
+
+function leagueEntryIds(fixtures: MatchplayFixtureInput[], profileByEntry: Record<string, string>): string[] {
+  const ids = new Set<string>();
+  for (const f of fixtures) {
+    for (const id of [f.home_entry_id, f.away_entry_id]) if (id && profileByEntry[id]) ids.add(id);
+  }
+  return [...ids];
+}
+
+export type MatchplaySimInputs = {
+  data: MatchplayEventData;
+  /** The field, by profile — hole model and playing handicap. */
+  players: SimPlayer[];
+  /** One round's holes: the match course. */
+  holes: SimHole[];
+  simulationCount: number;
+  seed: number;
+};
+
+/**
+ * Price an event's matchplay: every open fixture with both players known,
+ * the bracket winner walked through its slot sources, and the winner of each
+ * league stage through computeLeagueTable. Pairings are simulated once each
+ * (memoised) and sampled from thereafter.
+ *
+ * Brackets use the players already drawn into a fixture and otherwise follow
+ * its slots; a re-seeded bracket's later rounds are therefore priced off the
+ * original draw until they're re-drawn. Players with no profile in the field
+ * are treated as evenly matched.
+ */
+export function runMatchplaySimulation(inputs: MatchplaySimInputs): MatchplaySimResult {
+  const { data, holes } = inputs;
+  const rand = mulberry32(inputs.seed);
+  const simulationCount = Math.max(1, inputs.simulationCount);
+  const playerByProfile = new Map(inputs.players.map((p) => [p.profileId, p]));
+  const profileOf = (entryId: string) => data.profileByEntry[entryId] ?? null;
+
+  const pairings = new Map<string, MatchDistribution>();
+  const matchFor = (homeEntry: string, awayEntry: string, knockout: boolean): MatchDistribution => {
+    const key = `${homeEntry}|${awayEntry}|${knockout ? "k" : "l"}`;
+    const cached = pairings.get(key);
+    if (cached) return cached;
+    const home = playerByProfile.get(profileOf(homeEntry) ?? "");
+    const away = playerByProfile.get(profileOf(awayEntry) ?? "");
+    const dist =
+      home && away
+        ? simulateMatch(home, away, holes, { knockout, simulationCount: MATCH_SIMULATION_COUNT, rand })
+        : evenMatch(knockout);
+    pairings.set(key, dist);
+    return dist;
+  };
+
+  const fixtures: MatchplaySimResult["fixtures"] = {};
+  for (const f of data.fixtures) {
+    if (f.status !== "scheduled" || isFixtureDecided(f) || !f.home_entry_id || !f.away_entry_id) continue;
+    const homeProfileId = profileOf(f.home_entry_id);
+    const awayProfileId = profileOf(f.away_entry_id);
+    if (!homeProfileId || !awayProfileId) continue;
+    fixtures[f.id] = {
+      ...matchFor(f.home_entry_id, f.away_entry_id, !f.league),
+      homeProfileId,
+      awayProfileId,
+      league: f.league,
+    };
+  }
+
+  return {
+    fixtures,
+    bracketWinner: simulateBracket(data, matchFor, simulationCount, rand),
+    leagueWinner: simulateLeagues(data, matchFor, simulationCount, rand),
+  };
+}
+
+/** Stand-in for a pairing the field can't price: a coin flip, or a third each in a league. */
+function evenMatch(knockout: boolean): MatchDistribution {
+  const win = knockout ? 1 / 2 : 1 / 3;
+  const halved = knockout ? 0 : 1 / 3;
+  return {
+    outcomes: knockout ? { "home:1up": win, "away:1up": win } : { "home:1up": win, halved, "away:1up": win },
+    home: win,
+    halved,
+    away: win,
+    distance: 1,
+  };
+}
+
+type MatchFor = (homeEntry: string, awayEntry: string, knockout: boolean) => MatchDistribution;
+
+const BYE = "bye" as const;
+
+/** Profile id → P(winning the bracket); null without an undecided bracket. */
+function simulateBracket(
+  data: MatchplayEventData,
+  matchFor: MatchFor,
+  simulationCount: number,
+  rand: () => number
+): Record<string, number> | null {
+  const nodes = data.fixtures.filter((f) => f.side != null && f.slots != null);
+  const final = bracketFinal(nodes);
+  if (!final || bracketChampion(nodes) !== null) return null;
+  const reset = bracketReset(nodes);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  const wins = new Map<string, number>();
+  for (let iter = 0; iter < simulationCount; iter++) {
+    const outcomes = new Map<string, { winner: string; loser: string }>();
+
+    const slotValue = (node: MatchplayFixtureInput, i: 0 | 1): string => {
+      const drawn = i === 0 ? node.home_entry_id : node.away_entry_id;
+      if (drawn) return drawn;
+      const src = node.slots![i];
+      if (src.type === "entry") return src.entry_id;
+      if (src.type === "bye") return BYE;
+      const from = byId.get(src.fixture);
+      if (!from) return BYE;
+      const o = outcome(from);
+      return src.type === "winner_of" ? o.winner : o.loser;
+    };
+
+    const outcome = (node: MatchplayFixtureInput): { winner: string; loser: string } => {
+      const cached = outcomes.get(node.id);
+      if (cached) return cached;
+      let result: { winner: string; loser: string };
+      if (node.result_type === "double_withdrawal" || node.status === "cancelled") {
+        result = { winner: BYE, loser: BYE };
+      } else if (isFixtureDecided(node) && node.winning_entry_id) {
+        const loser = node.winning_entry_id === node.home_entry_id ? node.away_entry_id : node.home_entry_id;
+        result = { winner: node.winning_entry_id, loser: loser ?? BYE };
+      } else {
+        const home = slotValue(node, 0);
+        const away = slotValue(node, 1);
+        if (home === BYE) result = { winner: away, loser: BYE };
+        else if (away === BYE) result = { winner: home, loser: BYE };
+        else {
+          const homeWins = rand() < matchFor(home, away, true).home;
+          result = homeWins ? { winner: home, loser: away } : { winner: away, loser: home };
+        }
+      }
+      outcomes.set(node.id, result);
+      return result;
+    };
+
+    // The winners-bracket finalist (home) only needs the first final.
+    const first = outcome(final);
+    const champion = reset && first.winner !== slotValue(final, 0) ? outcome(reset).winner : first.winner;
+    if (champion !== BYE) wins.set(champion, (wins.get(champion) ?? 0) + 1);
+  }
+
+  return toProfileProbabilities(wins, data.profileByEntry, simulationCount);
+}
+
+/**
+ * League stage key → profile id → P(topping the table). Players level on
+ * everything all count as winners (the market settles ties as won).
+ */
+function simulateLeagues(
+  data: MatchplayEventData,
+  matchFor: MatchFor,
+  simulationCount: number,
+  rand: () => number
+): Record<string, Record<string, number>> {
+  const stages = new Map<string, MatchplayFixtureInput[]>();
+  for (const f of data.fixtures) {
+    if (!f.league || f.status === "cancelled") continue;
+    const key = leagueStageKey(f.stage_id);
+    stages.set(key, [...(stages.get(key) ?? []), f]);
+  }
+
+  const out: Record<string, Record<string, number>> = {};
+  for (const [stageKey, fixtures] of stages) {
+    const open = fixtures.filter((f) => !isFixtureDecided(f) && f.home_entry_id && f.away_entry_id);
+    if (open.length === 0) continue;
+    const decided: LeagueResult[] = fixtures.filter((f) => isFixtureDecided(f));
+    const entryIds = leagueEntryIds(fixtures, data.profileByEntry);
+    const samplers = open.map((f) => outcomeSampler(matchFor(f.home_entry_id!, f.away_entry_id!, false)));
+
+    const wins = new Map<string, number>();
+    for (let iter = 0; iter < simulationCount; iter++) {
+      const simulated: LeagueResult[] = open.map((f, i) => {
+        const [side, margin] = samplers[i](rand()).split(":") as [string, MarginKey | undefined];
+        return {
+          round_number: f.round_number,
+          home_entry_id: f.home_entry_id,
+          away_entry_id: f.away_entry_id,
+          result_type: side === "home" ? "home_win" : side === "away" ? "away_win" : "halved",
+          margin_holes: margin ? MARGIN_HOLES[margin] : null,
+        };
+      });
+      for (const row of computeLeagueTable(entryIds, [...decided, ...simulated], data.leagueConfig)) {
+        if (row.position === 1) wins.set(row.entry_id, (wins.get(row.entry_id) ?? 0) + 1);
+      }
+    }
+    out[stageKey] = toProfileProbabilities(wins, data.profileByEntry, simulationCount);
+  }
+  return out;
+}
+
+function toProfileProbabilities(
+  wins: Map<string, number>,
+  profileByEntry: Record<string, string>,
+  simulationCount: number
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [entryId, c] of wins) {
+    const profileId = profileByEntry[entryId];
+    if (profileId) out[profileId] = (out[profileId] ?? 0) + c / simulationCount;
+  }
+  return out;
+}
@@ -5,13 +5,35 @@
 // standings. Each remaining event reuses its per-event joint positions matrix
 // (from Change 3), so a season-iteration draws one aligned iteration per event,
 // reads each player's finishing position, maps it to season points, and ranks
-// the final standings. Pure (rng only) → unit-testable.
+// the final standings. When the season scores on best N / drop worst N, each
+// player's banked and simulated results are re-selected with the same counting
+// rule as the standings SQL. Pure (rng only) → unit-testable.
 
+import { MAX_EACH_WAY_PLACES } from "@/lib/fantasy/config";
+import { deadHeatShare } from "@/lib/fantasy/eachWayRules";
 import { mulberry32 } from "@/lib/fantasy/simulation/rng";
 import type { JointMatrix } from "@/lib/fantasy/simulation/jointPricing";
 import { eventPointsForPosition, type EventPointsConfig } from "@/lib/fantasy/simulation/seasonPoints";
+import {
+  applyCountingRule,
+  type SeasonCountingRule,
+  type SeasonResult,
+} from "@/lib/majors/seasonCounting";
 
-export type RemainingEvent = { matrix: JointMatrix; points: EventPointsConfig };
+export type RemainingEvent = {
+  matrix: JointMatrix;
+  points: EventPointsConfig;
+  /** events.id — lets the counting rule recognise mandatory events. */
+  eventId?: string;
+};
+
+export type SeasonCounting = {
+  rule: SeasonCountingRule;
+  /** Each player's results banked so far (every result, counted or not). */
+  results: Record<string, SeasonResult[]>;
+  /** Events completed so far; the remaining events are added on top. */
+  eventsHeld: number;
+};
 
 export type SeasonSimInputs = {
   /** Current season points per profile (from group_season_standings_entries). */
@@ -21,38 +43,65 @@ export type SeasonSimInputs = {
   remaining: RemainingEvent[];
   iterations: number;
   seed: number;
+  /** Counting rule; omitted (or "all") = every result counts onto currentPoints. */
+  counting?: SeasonCounting;
 };
 
 export type SeasonSimResult = {
-  players: { profileId: string; winProb: number; top3Prob: number }[];
+  players: {
+    profileId: string;
+    winProb: number;
+    top3Prob: number;
+    /** placeProbs[k − 1] = each-way place probability for top-k terms, dead heats split. */
+    placeProbs: number[];
+  }[];
   iterations: number;
 };
 
 export function simulateSeason(inputs: SeasonSimInputs): SeasonSimResult {
   const { currentPoints, playerIds, remaining, iterations, seed } = inputs;
+  const counting = inputs.counting && inputs.counting.rule.mode !== "all" ? inputs.counting : null;
+  const finalEventsHeld = (counting?.eventsHeld ?? 0) + remaining.length;
   const rand = mulberry32(seed);
   const n = playerIds.length;
   const idx = new Map(playerIds.map((id, i) => [id, i]));
   const base = playerIds.map((id) => currentPoints[id] ?? 0);
   const winCount = new Array<number>(n).fill(0);
   const top3Count = new Array<number>(n).fill(0);
+  const placeCredit = playerIds.map(() => new Array<number>(MAX_EACH_WAY_PLACES).fill(0));
   const totals = new Float64Array(n);
   const iters = Math.max(1, iterations);
+  const banked = playerIds.map((id) => counting?.results[id] ?? []);
+  const simulated: SeasonResult[][] = playerIds.map(() => []);
 
   for (let it = 0; it < iters; it++) {
-    for (let i = 0; i < n; i++) totals[i] = base[i];
+    for (let i = 0; i < n; i++) {
+      totals[i] = base[i];
+      simulated[i].length = 0;
+    }
 
-    for (const ev of remaining) {
+    for (let k = 0; k < remaining.length; k++) {
+      const ev = remaining[k];
       const s = Math.floor(rand() * ev.matrix.simCount);
       for (let c = 0; c < ev.matrix.playerIds.length; c++) {
         const pi = idx.get(ev.matrix.playerIds[c]);
         if (pi === undefined) continue;
         const pos = ev.matrix.positions[c * ev.matrix.simCount + s];
-        if (pos > 0) totals[pi] += eventPointsForPosition(ev.points, pos);
+        if (pos <= 0) continue;
+        const pts = eventPointsForPosition(ev.points, pos);
+        if (counting) simulated[pi].push({ event_id: ev.eventId ?? `remaining:${k}`, points: pts });
+        else totals[pi] += pts;
       }
     }
 
-    // Rank: winner ties split evenly; top-3 counts every player at rank ≤ 3.
+    if (counting) {
+      for (let i = 0; i < n; i++) {
+        totals[i] = applyCountingRule([...banked[i], ...simulated[i]], counting.rule, finalEventsHeld).total;
+      }
+    }
+
+    // Rank: winner ties split evenly; top-3 counts every player at rank ≤ 3;
+    // each-way place credit takes the dead-heat share for every place term.
     let best = -Infinity;
     for (let i = 0; i < n; i++) if (totals[i] > best) best = totals[i];
     let tiedForBest = 0;
@@ -60,8 +109,15 @@ export function simulateSeason(inputs: SeasonSimInputs): SeasonSimResult {
     for (let i = 0; i < n; i++) {
       if (totals[i] === best) winCount[i] += 1 / tiedForBest;
       let strictlyBetter = 0;
-      for (let j = 0; j < n; j++) if (totals[j] > totals[i]) strictlyBetter += 1;
+      let tied = 0;
+      for (let j = 0; j < n; j++) {
+        if (totals[j] > totals[i]) strictlyBetter += 1;
+        else if (totals[j] === totals[i]) tied += 1;
+      }
       if (strictlyBetter + 1 <= 3) top3Count[i] += 1;
+      for (let k = strictlyBetter + 1; k <= MAX_EACH_WAY_PLACES; k++) {
+        placeCredit[i][k - 1] += deadHeatShare(strictlyBetter + 1, tied, k);
+      }
     }
   }
 
@@ -70,6 +126,7 @@ export function simulateSeason(inputs: SeasonSimInputs): SeasonSimResult {
       profileId: id,
       winProb: winCount[i] / iters,
       top3Prob: top3Count[i] / iters,
+      placeProbs: placeCredit[i].map((c) => c / iters),
     })),
     iterations: iters,
   };
@@ -175,6 +175,33 @@ export type SimulationResult = {
    * fake a SimulationResult need not build it.
    */
   positions?: Int8Array;
+  /** Matchplay events only — fixture, bracket and league pricing (simulation/matchplay.ts). */
+  matchplay?: MatchplaySimResult;
+};
+
+/**
+ * One match's outcome distribution. Outcome keys are "halved" or
+ * "home:<margin>" / "away:<margin>" with a MARGIN_KEYS bucket.
+ */
+export type MatchDistribution = {
+  outcomes: Record<string, number>;
+  home: number;
+  halved: number;
+  away: number;
+  /** P(the match reaches the last hole) — halves and sudden death included. */
+  distance: number;
+};
+
+export type MatchplaySimResult = {
+  /** Scheduled fixtures with both players known, by fixture id. */
+  fixtures: Record<
+    string,
+    MatchDistribution & { homeProfileId: string; awayProfileId: string; league: boolean }
+  >;
+  /** Profile id → P(winning the bracket); null without an undecided bracket. */
+  bracketWinner: Record<string, number> | null;
+  /** League stage key → profile id → P(topping the table, ties all count). */
+  leagueWinner: Record<string, Record<string, number>>;
 };
 
 /**
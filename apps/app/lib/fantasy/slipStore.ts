@@ -30,6 +30,10 @@ export type SlipLeg = {
   opponentProfileId?: string | null;
   /** Event ranking basis — which h2h legs can joint-price with finishing legs. */
   eventRankingBasis?: "gross" | "net" | "stableford";
+  /** Place terms when the selection can be backed each-way (outright winner). */
+  eachWayTerms?: { places: number; fraction: number } | null;
+  /** Backed each-way as a single: the stake goes on both win and place. */
+  eachWay?: boolean;
 };
 
 const KEY = "ciaga:fantasy:slip";
@@ -89,6 +93,14 @@ export function useSlip() {
     writeLegs(readLegs().filter((l) => !legMatches(l, marketId, selectionKey)));
   }, []);
 
+  const setEachWay = useCallback((marketId: string, selectionKey: string, eachWay: boolean) => {
+    writeLegs(
+      readLegs().map((l) =>
+        legMatches(l, marketId, selectionKey) && l.eachWayTerms ? { ...l, eachWay } : l
+      )
+    );
+  }, []);
+
   const clear = useCallback(() => writeLegs([]), []);
 
   const has = useCallback(
@@ -97,5 +109,5 @@ export function useSlip() {
     [legs]
   );
 
-  return { legs, toggle, remove, clear, has };
+  return { legs, toggle, remove, setEachWay, clear, has };
 }
@@ -2,6 +2,7 @@
 // Keep this module free of runtime imports from lib/majors so either side can
 // type-import the other without cycles.
 
+/** How the odds board's wallets are funded (the draft league has no wallet). */
 export type FantasyMode = "fixed" | "topup";
 export type FantasyBudgetScope = "season" | "event";
 
@@ -13,10 +14,175 @@ export type FantasyConfig = {
   budgetAmount: number;
   /** Top-up mode only — whole points per top-up unit. */
   topupIncrement?: number;
+  /** Draft league alongside the odds board; absent = not offered. */
+  draft?: DraftLeagueConfig;
+  /** Each-way place terms for outright and season-winner picks; absent = win only. */
+  eachWay?: EachWayConfig;
   enabledAt: string;
   updatedByProfileId: string;
 };
 
+/**
+ * One each-way tier: fields of at least `minField` pay the place part at
+ * 1/`fraction` of the win odds (minus the stake) for a top-`places` finish.
+ */
+export type EachWayTerms = {
+  minField: number;
+  places: number;
+  fraction: number;
+};
+
+export type EachWayConfig = {
+  /** Largest minField first; fields smaller than every tier are win only. */
+  terms: EachWayTerms[];
+};
+
+/** Lineup points for one player's result in one event. */
+export type DraftScoring = {
+  /** Points by finishing position: index 0 = winner. Positions beyond the table score 0. */
+  positionPoints: number[];
+  perBirdie: number;
+  /** On top of the birdie (an eagle is also counted as a birdie). */
+  perEagle: number;
+  perStablefordPoint: number;
+};
+
+export type DraftLeagueConfig = {
+  /** Players per manager; the draft runs this many snake rounds. */
+  rosterSize: number;
+  /** Starters per event; the rest of the roster is bench. */
+  lineupSize: number;
+  captainMultiplier: number;
+  scoring: DraftScoring;
+};
+
+export type DraftLeagueStatus = "setup" | "drafting" | "active" | "completed";
+
+export type FantasyDraftLeague = {
+  id: string;
+  group_id: string;
+  group_season_id: string;
+  status: DraftLeagueStatus;
+  created_by: string | null;
+  draft_started_at: string | null;
+  draft_completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type FantasyDraftManager = {
+  league_id: string;
+  profile_id: string;
+  draft_slot: number | null;
+  joined_at: string;
+};
+
+export type FantasyDraftPick = {
+  id: string;
+  league_id: string;
+  pick_number: number;
+  manager_profile_id: string;
+  player_profile_id: string;
+  picked_at: string;
+};
+
+export type FantasyDraftRosterSpot = {
+  id: string;
+  league_id: string;
+  manager_profile_id: string;
+  player_profile_id: string;
+  acquired_via: "draft" | "trade" | "waiver";
+  acquired_at: string;
+  released_at: string | null;
+};
+
+export type FantasyDraftLineup = {
+  league_id: string;
+  event_id: string;
+  manager_profile_id: string;
+  starters: string[];
+  bench: string[];
+  captain_profile_id: string | null;
+  updated_at: string;
+};
+
+export type FantasyDraftTradeStatus = "pending" | "accepted" | "rejected" | "cancelled" | "failed";
+
+export type FantasyDraftTrade = {
+  id: string;
+  league_id: string;
+  proposer_profile_id: string;
+  recipient_profile_id: string;
+  offered_player_ids: string[];
+  requested_player_ids: string[];
+  status: FantasyDraftTradeStatus;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+export type FantasyDraftWaiverClaim = {
+  id: string;
+  league_id: string;
+  manager_profile_id: string;
+  add_player_id: string;
+  drop_player_id: string;
+  status: "pending" | "won" | "lost" | "cancelled";
+  created_at: string;
+  processed_at: string | null;
+};
+
+/** One player's finished-event result, as stored in fantasy_draft_event_stats. */
+export type DraftEventStats = {
+  event_id: string;
+  profile_id: string;
+  position: number | null;
+  birdies: number | null;
+  eagles: number | null;
+  stableford_points: number | null;
+  withdrawn: boolean;
+};
+
+/** Which side of a selection a member takes on the exchange. */
+export type ExchangeSide = "back" | "lay";
+
+export type FantasyExchangeOfferStatus = "open" | "filled" | "lapsed" | "cancelled";
+
+/** A member's standing offer; size/remaining are backer-stake points. */
+export type FantasyExchangeOffer = {
+  id: string;
+  group_id: string;
+  event_id: string;
+  market_id: string;
+  selection_key: string;
+  maker_profile_id: string;
+  side: ExchangeSide;
+  decimal_odds: number;
+  size: number;
+  remaining: number;
+  status: FantasyExchangeOfferStatus;
+  created_at: string;
+  closed_at: string | null;
+};
+
+/** A matched exchange bet; status is the selection's outcome once settled. */
+export type FantasyExchangeMatch = {
+  id: string;
+  offer_id: string;
+  group_id: string;
+  event_id: string;
+  market_id: string;
+  selection_key: string;
+  backer_profile_id: string;
+  layer_profile_id: string;
+  decimal_odds: number;
+  backer_stake: number;
+  layer_liability: number;
+  group_season_id: string | null;
+  status: "open" | "won" | "lost" | "void";
+  matched_at: string;
+  settled_at: string | null;
+};
+
 export type FantasyWalletTransactionType =
   | "budget_grant"
   | "topup"
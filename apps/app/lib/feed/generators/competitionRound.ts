@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { fanOutToGroupMembersAndFollowers } from "@/lib/feed/fanout";
+import { getTeamMatchResult } from "@/lib/majors/teamMatchData";
 
 export async function emitCompetitionRoundFeedItems(params: {
   eventId: string;
@@ -12,7 +13,7 @@ export async function emitCompetitionRoundFeedItems(params: {
   const { data: eventData } = await supabaseAdmin
     .from("events")
     .select(`
-      id, name, num_rounds,
+      id, name, num_rounds, event_type,
       group:major_groups(id, name, privacy),
       course:courses(id, name),
       rounds:event_rounds(id, round_number, name, scheduled_date, status)
@@ -135,6 +136,11 @@ export async function emitCompetitionRoundFeedItems(params: {
         }
       : null;
 
+    // Team match events have no individual winner; report the team score.
+    const team_result = event.event_type === "team_match"
+      ? await getTeamMatchResult(eventId).catch(() => null)
+      : null;
+
     for (const round of rounds) {
       const groupKey = `competition_round:${round.id}`;
 
@@ -151,6 +157,7 @@ export async function emitCompetitionRoundFeedItems(params: {
         ...(existing.payload as object),
         round_status: "completed" as const,
         winner,
+        ...(team_result ? { team_result } : {}),
       };
 
       await supabaseAdmin
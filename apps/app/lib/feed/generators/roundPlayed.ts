@@ -4,6 +4,7 @@ import { parseFeedPayload } from "@/lib/feed/schemas";
 import { fanOutFeedItemToSubjectsAndFollowers } from "@/lib/feed/fanout";
 import { computeFormatSummaryForFeed } from "@/lib/feed/helpers/formatSummary";
 import { netDoubleBogeyGross } from "@/lib/rounds/handicapUtils";
+import { isSingleBallFormat } from "@/lib/rounds/whsDefaults";
 
 /**
  * Emits a round_played feed item for a completed round.
@@ -100,9 +101,7 @@ export async function emitRoundPlayedFeedItem(params: {
   const participantIds = (participants ?? []).map((r: any) => r.id).filter(Boolean);
 
   // Teams (for single-ball formats)
-  const SINGLE_BALL_FORMATS = ["scramble", "greensomes", "foursomes"];
-  const roundFormatType = String((round as any).format_type ?? "");
-  const isSingleBall = SINGLE_BALL_FORMATS.includes(roundFormatType);
+  const isSingleBall = isSingleBallFormat((round as any).format_type);
 
   const teamsByRound: Array<{ id: string; name: string; team_number: number }> = [];
   if (isSingleBall) {
@@ -19,7 +19,9 @@ import type {
   HoleState,
   Team,
   SideGame,
+  BbbAward,
 } from "@/lib/rounds/hooks/useRoundDetail";
+import { loadBbbAwards } from "@/lib/rounds/roundExportData";
 
 // ── Public types ─────────────────────────────────────────────────────
 
@@ -195,7 +197,12 @@ export async function computeFormatSummaryForFeed(
     }
   }
 
-  return _computeFromParsedData(formatType, formatConfig, sideGames, participants, teams, holes, scoresByKey, holeStatesByKey, startingHole);
+  // 7. Bingo Bango Bongo markers (only when the game is on)
+  const bbbAwardsByHole = sideGames.some((g) => g.name === "bingo_bango_bongo" && g.enabled)
+    ? await loadBbbAwards(roundId).catch(() => ({}))
+    : {};
+
+  return _computeFromParsedData(formatType, formatConfig, sideGames, participants, teams, holes, scoresByKey, holeStatesByKey, startingHole, bbbAwardsByHole);
 }
 
 // ── Shared computation logic ─────────────────────────────────────────
@@ -210,6 +217,7 @@ function _computeFromParsedData(
   scoresByKey: Record<string, Score>,
   holeStatesByKey: Record<string, HoleState>,
   startingHole: number = 1,
+  bbbAwardsByHole: Record<number, BbbAward> = {},
 ): FormatFeedSummary | null {
   // Compute format display
   const nameOf = (p: Participant) => p.display_name || "Player";
@@ -235,6 +243,8 @@ function _computeFromParsedData(
     holes,
     scoresByKey,
     holeStatesByKey,
+    undefined,
+    bbbAwardsByHole,
   );
 
   // 9. Extract primary format info
@@ -354,8 +364,11 @@ function formatLabelForType(ft: string): string {
     team_strokeplay: "Team",
     team_stableford: "Team Stblfd",
     team_bestball: "Best Ball",
+    shamble: "Shamble",
     scramble: "Scramble",
+    texas_scramble: "Texas Scramble",
     greensomes: "Greensomes",
+    chapman: "Chapman",
     foursomes: "Foursomes",
     wolf: "Wolf",
   };
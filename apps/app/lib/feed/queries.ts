@@ -3,6 +3,7 @@ import { parseFeedPayload } from "@/lib/feed/schemas";
 import type { FeedItemVM, FeedPageResponse } from "@/lib/feed/types";
 import { strokesReceivedOnHole, netDoubleBogeyGross } from "@/lib/rounds/handicapUtils";
 import { computeFormatSummaryFromData } from "@/lib/feed/helpers/formatSummary";
+import { isSingleBallFormat } from "@/lib/rounds/whsDefaults";
 import type { Participant, Hole, Score, HoleState, Team, SideGame } from "@/lib/rounds/hooks/useRoundDetail";
 
 /**
@@ -602,8 +603,7 @@ export async function getLiveRoundsAsFeedItems(params: { viewerProfileId: string
       // best-effort
     }
 
-    const SINGLE_BALL_FORMATS = ["scramble", "greensomes", "foursomes"];
-    const isSingleBall = typeof rd.format_type === "string" && SINGLE_BALL_FORMATS.includes(rd.format_type);
+    const isSingleBall = isSingleBallFormat(rd.format_type);
 
     // For single-ball team formats, build team rows instead of individual player rows
     const buildTeamPlayers = () => {
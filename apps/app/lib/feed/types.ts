@@ -190,6 +190,8 @@ export type FeedPayloadByType = {
     course_name?: string | null;
     live_players?: Array<{ profile_id: string; name: string; avatar_url?: string | null }> | null;
     winner?: { profile_id: string; name: string; avatar_url?: string | null } | null;
+    /** Team match events: final team points instead of an individual winner. */
+    team_result?: { teams: Array<{ name: string; points: number }>; winner_team: string | null } | null;
   };
 
   // Keep the rest permissive for now (we’ll tighten later if needed)
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  PCC_EXPECTED_EXCESS,
+  calculatePcc,
+  calculatePccForDays,
+  scoreExcess,
+  type PccScore,
+} from "@/lib/handicap/pcc";
+
+/** Neutral tee (CR 72, slope 113): excess = AGS − 72 − HI − expected. */
+function score(over: Partial<PccScore>): PccScore {
+  return {
+    participantId: "p1",
+    courseId: "c1",
+    teeBoxId: "t1",
+    playedAt: "2026-01-10",
+    adjustedGrossScore: 72 + 10 + PCC_EXPECTED_EXCESS,
+    courseRating: 72,
+    slope: 113,
+    handicapIndexUsed: 10,
+    ...over,
+  };
+}
+
+/** `n` players off 10.0, each `over` strokes above a normal day. */
+function field(n: number, over: number, extra: Partial<PccScore> = {}): PccScore[] {
+  return Array.from({ length: n }, (_, i) =>
+    score({ participantId: `p${i}`, adjustedGrossScore: 85 + over, ...extra })
+  );
+}
+
+describe("scoreExcess", () => {
+  it("measures strokes over what the index predicts on the tee", () => {
+    expect(scoreExcess(score({}))).toBe(0);
+    // Slope 135: a 10.0 expects 11.9 strokes over CR, plus the usual 3.
+    expect(scoreExcess(score({ slope: 135, adjustedGrossScore: 90 }))).toBeCloseTo(18 - 135 / 11.3 - 3, 6);
+    expect(scoreExcess(score({ handicapIndexUsed: null }))).toBeNull();
+  });
+});
+
+describe("calculatePcc", () => {
+  it("needs eight eligible scores", () => {
+    const res = calculatePcc([...field(7, 5), score({ handicapIndexUsed: 40 }), score({ handicapIndexUsed: null })]);
+    expect(res.pcc).toBe(0);
+    expect(res.eligibleScores).toBe(7);
+    expect(res.meanExcess).toBeNull();
+    expect(res.inputs).toMatchObject({ scores: 9, excluded_high_index: 1, excluded_no_index: 1 });
+    expect(res.reason).toMatch(/Only 7 eligible scores \(8 needed\)/);
+  });
+
+  it("truncates the mean towards zero so a marginal day stays at 0", () => {
+    expect(calculatePcc(field(8, 0.9)).pcc).toBe(0);
+    expect(calculatePcc(field(8, -0.9)).pcc).toBe(0);
+    expect(calculatePcc(field(8, 2)).pcc).toBe(2);
+  });
+
+  it("caps at +3 and −1 and says so", () => {
+    const gale = calculatePcc(field(8, 6));
+    expect(gale.pcc).toBe(3);
+    expect(gale.reason).toMatch(/PCC \+3 \(capped at \+3\)/);
+
+    const calm = calculatePcc(field(8, -4));
+    expect(calm.pcc).toBe(-1);
+    expect(calm.reason).toMatch(/played easier than rated, PCC -1 \(capped at -1\)/);
+  });
+
+  it("trims the best and worst once there are ten scores", () => {
+    // Eight at +2, one disaster (+30) and one career round (−10).
+    const scores = [
+      ...field(8, 2),
+      score({ participantId: "x", adjustedGrossScore: 115 }),
+      score({ participantId: "y", adjustedGrossScore: 75 }),
+    ];
+    const res = calculatePcc(scores);
+    expect(res.inputs.trimmed).toBe(true);
+    expect(res.meanExcess).toBe(2);
+    expect(res.pcc).toBe(2);
+  });
+});
+
+describe("calculatePccForDays", () => {
+  it("groups by tee box and date", () => {
+    const res = calculatePccForDays([
+      ...field(8, 3, { teeBoxId: "t1" }),
+      ...field(8, 0, { teeBoxId: "t2" }),
+      ...field(8, 3, { teeBoxId: "t1", playedAt: "2026-01-09" }),
+    ]);
+    expect(res.map((r) => [r.teeBoxId, r.playedAt, r.pcc])).toEqual([
+      ["t1", "2026-01-09", 3],
+      ["t1", "2026-01-10", 3],
+      ["t2", "2026-01-10", 0],
+    ]);
+  });
+});
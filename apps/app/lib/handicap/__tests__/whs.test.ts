@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  STORED_RULES,
+  WHS_RULES,
+  buildScoringRecord,
+  calculateHandicapHistory,
+  courseHandicap,
+  expectedNineHoleDifferential,
+  handicapIndexAsOf,
+  indexAdjustment,
+  lowestOfNCount,
+  pgRound,
+  replayHandicapHistory,
+  scoreDifferential,
+  whatIfScore,
+  type HandicapRoundInput,
+  type ScoringRecordEntry,
+} from "@/lib/handicap/whs";
+
+function day(n: number): string {
+  const d = new Date(Date.UTC(2026, 0, 1));
+  d.setUTCDate(d.getUTCDate() + n - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/** One score per day starting on `startDay`. */
+function scores(diffs: number[], startDay = 1, hi: number | null = null): ScoringRecordEntry[] {
+  return diffs.map((differential, i) => ({
+    id: `s${startDay + i}`,
+    playedAt: day(startDay + i),
+    differential,
+    combinedFrom9: false,
+    handicapIndexUsed: hi,
+  }));
+}
+
+function round(over: Partial<HandicapRoundInput>): HandicapRoundInput {
+  return {
+    id: "p1",
+    playedAt: day(1),
+    is9Hole: false,
+    accepted: true,
+    adjustedGrossScore: 85,
+    courseRating: 72,
+    slope: 113,
+    handicapIndexUsed: null,
+    ...over,
+  };
+}
+
+describe("rounding and per-round maths", () => {
+  it("rounds half away from zero like Postgres numeric", () => {
+    expect(pgRound(2.5)).toBe(3);
+    expect(pgRound(-2.5)).toBe(-3);
+    expect(pgRound(-0.05, 1)).toBe(-0.1);
+    expect(pgRound(11.25, 1)).toBe(11.3);
+  });
+
+  it("uses the WHS lowest-of-N table and short-record adjustments", () => {
+    expect([3, 5, 6, 8, 9, 12, 15, 17, 19, 20, 25].map(lowestOfNCount)).toEqual([1, 1, 2, 2, 3, 4, 5, 6, 7, 8, 8]);
+    expect([3, 4, 5, 6, 7].map(indexAdjustment)).toEqual([-2, -1, 0, -1, 0]);
+  });
+
+  it("derives course handicap, halving it for 9-hole tees", () => {
+    // 12.4 × 125/113 + (71.2 − 72) = 12.92 → 13; 9 holes → 6.5 → 7
+    expect(courseHandicap(12.4, 125, 71.2, 72)).toBe(13);
+    expect(courseHandicap(12.4, 125, 71.2, 72, true)).toBe(7);
+    expect(courseHandicap(null, 125, 71.2, 72, true)).toBe(27);
+  });
+
+  it("folds PCC into the differential", () => {
+    expect(scoreDifferential(85, 72, 113)).toBe(13);
+    expect(scoreDifferential(85, 72, 113, 1)).toBe(12);
+    expect(scoreDifferential(85, 72, 113, -1)).toBe(14);
+  });
+});
+
+describe("buildScoringRecord", () => {
+  it("adds the expected score to 9-hole rounds played with an index", () => {
+    // (45 − 35.5) × 113/120 = 8.95 → 8.9; expected 10 × 0.52 + 1.2 = 6.4
+    const [entry] = buildScoringRecord([
+      round({ is9Hole: true, adjustedGrossScore: 45, courseRating: 35.5, slope: 120, handicapIndexUsed: 10 }),
+    ]);
+    expect(expectedNineHoleDifferential(10)).toBe(6.4);
+    expect(entry.differential).toBe(15.3);
+    expect(entry.combinedFrom9).toBe(false);
+  });
+
+  it("pairs consecutive nines without an index and leaves the odd one pending", () => {
+    const record = buildScoringRecord([
+      round({ id: "a", playedAt: day(1), is9Hole: true, adjustedGrossScore: 44, courseRating: 36 }),
+      round({ id: "b", playedAt: day(3), is9Hole: true, adjustedGrossScore: 46, courseRating: 36 }),
+      round({ id: "c", playedAt: day(5), is9Hole: true, adjustedGrossScore: 40, courseRating: 36 }),
+      round({ id: "x", playedAt: day(2), accepted: false }),
+    ]);
+    expect(record).toEqual([
+      { id: "a+b", playedAt: day(3), differential: 9, combinedFrom9: true, handicapIndexUsed: null },
+    ]);
+  });
+});
+
+describe("calculateHandicapHistory", () => {
+  it("needs three scores and applies the short-record adjustment", () => {
+    const history = calculateHandicapHistory(scores([14, 10, 12]));
+    expect(history.map((h) => h.handicapIndex)).toEqual([null, null, 8]);
+    expect(history[2].countingIds).toEqual(["s2"]);
+  });
+
+  it("averages the lowest 8 of the most recent 20", () => {
+    // 21 scores: the oldest (0.0) has rolled out of the window.
+    const diffs = [0, ...Array.from({ length: 20 }, (_, i) => 10 + i)];
+    const last = calculateHandicapHistory(scores(diffs)).at(-1)!;
+    expect(last.recordIds).toHaveLength(20);
+    expect(last.recordIds).not.toContain("s1");
+    expect(last.baseIndex).toBe(13.5); // mean of 10..17
+  });
+
+  it("applies the soft cap above LHI + 3 and the hard cap at LHI + 5", () => {
+    // Twenty 10.0s build an index whose low point is 8.0 (three scores − 2).
+    const base = scores(Array(20).fill(10));
+    const tens = calculateHandicapHistory(base);
+    expect(tens.at(-1)!.handicapIndex).toBe(10);
+
+    // After 13 scores of 20.0: lowest 8 = seven 10s + one 20 → 11.25 → 11.3,
+    // 3.3 over LHI → soft cap 8 + 3 + 0.15 → 11.2.
+    const soft = calculateHandicapHistory([...base, ...scores(Array(13).fill(20), 21)]).at(-1)!;
+    expect(soft.baseIndex).toBe(11.3);
+    expect(soft.lowHandicapIndex).toBe(8);
+    expect(soft.handicapIndex).toBe(11.2);
+    expect(soft.softCapDelta).toBe(0.1);
+
+    // All twenty at 20.0 → base 20, hard-capped at 13.0.
+    const hard = calculateHandicapHistory([...base, ...scores(Array(20).fill(20), 21)]).at(-1)!;
+    expect(hard.handicapIndex).toBe(13);
+    expect(hard.hardCapDelta).toBe(7);
+  });
+
+  it("only looks back 365 days for the low handicap index", () => {
+    const early = scores([10, 10, 10]); // index 8.0 in January
+    const late = scores([20, 20, 20, 20, 20], 400);
+    const last = calculateHandicapHistory([...early, ...late]).at(-1)!;
+    // January's 8.0 has aged out; the low point is the first late index,
+    // four scores (three 10s + a 20) → 10 − 1 = 9.0.
+    expect(last.lowHandicapIndex).toBe(9);
+  });
+
+  it("only applies ESR under full WHS rules", () => {
+    // Nineteen 20s off a 20.0 index, then a 10.0 — ten below → two steps.
+    const record = [...scores(Array(19).fill(20), 1, 20), ...scores([10], 20, 20)];
+    const stored = calculateHandicapHistory(record, STORED_RULES).at(-1)!;
+    const whs = calculateHandicapHistory(record, WHS_RULES).at(-1)!;
+    expect(stored.handicapIndex).toBe(18.8); // (10 + 7 × 20) / 8 = 18.75
+    expect(stored.esrApplied).toBe(0);
+    expect(whs.handicapIndex).toBe(16.8); // every score two lower
+    expect(whs.esrApplied).toBe(2);
+  });
+});
+
+describe("replayHandicapHistory", () => {
+  it("plays each round off the index built by the rounds before it", () => {
+    const { record, history } = replayHandicapHistory([
+      round({ id: "r1", playedAt: day(1) }),
+      round({ id: "r2", playedAt: day(2) }),
+      round({ id: "r3", playedAt: day(3) }),
+      // Same day as r3 — sees the 11.0 r3 just produced.
+      round({ id: "n1", playedAt: day(3), is9Hole: true, adjustedGrossScore: 45, courseRating: 36 }),
+    ]);
+
+    // Three 13.0s → 11.0; the nine: 9.0 played + 6.9 expected (11 × 0.52 + 1.2).
+    expect(record.find((e) => e.id === "n1")?.differential).toBe(15.9);
+    expect(record.find((e) => e.id === "n1")?.handicapIndexUsed).toBe(11);
+    expect(handicapIndexAsOf(history, day(2))).toBeNull();
+    expect(handicapIndexAsOf(history, day(3))).toBe(12); // four scores: 13 − 1
+  });
+});
+
+describe("whatIfScore", () => {
+  it("previews the new index, what counts and what drops out", () => {
+    const record = scores(Array(20).fill(15));
+    const res = whatIfScore(record, { playedAt: day(21), differential: 5 });
+    expect(res.currentIndex).toBe(15);
+    expect(res.newIndex).toBe(13.8); // (5 + 7 × 15) / 8 = 13.75
+    expect(res.change).toBe(-1.2);
+    expect(res.counts).toBe(true);
+    expect(res.dropsOut?.id).toBe("s1");
+    expect(res.esr).toBe(2);
+  });
+
+  it("reports a score that doesn't count", () => {
+    const res = whatIfScore(scores(Array(20).fill(15)), { playedAt: day(21), differential: 30 });
+    expect(res.counts).toBe(false);
+    expect(res.change).toBe(0);
+  });
+});
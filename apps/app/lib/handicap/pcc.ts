@@ -0,0 +1,158 @@
+/**
+ * Playing Conditions Calculation (WHS Rule 5.6) — pure, so the daily job
+ * (lib/handicap/pccJob.ts) and the tests share one implementation.
+ *
+ * Scores are grouped by tee-day (source tee box + date). For each group we
+ * compare what every eligible player scored against what their index says
+ * they should score on that tee:
+ *
+ *   excess = (AGS − CR) − HI × slope / 113 − PCC_EXPECTED_EXCESS
+ *
+ * (a player's typical round sits a few strokes above their index, which is
+ * an average of their best scores). The mean excess, in strokes, truncated
+ * towards zero and clamped to −1 … +3, is the PCC: a field that played three
+ * shots worse than usual in a gale gets +3 taken off the course rating.
+ *
+ * Only accepted 18-hole scores from players with an index of 36.0 or lower
+ * count, and a tee-day needs PCC_MIN_SCORES of them — anything less is
+ * recorded as "no adjustment" with the reason. With enough scores the single
+ * best and worst are trimmed so one blow-up doesn't move everybody's index.
+ */
+
+import { pgRound } from "@/lib/handicap/whs";
+
+export const PCC_MIN = -1;
+export const PCC_MAX = 3;
+export const PCC_MIN_SCORES = 8;
+/** Players above this index are too variable to say anything about the day. */
+export const PCC_MAX_INDEX = 36;
+/** Typical strokes a player scores above their course handicap on a normal day. */
+export const PCC_EXPECTED_EXCESS = 3;
+/** Trim the best and worst score once a tee-day has this many. */
+const TRIM_FROM = 10;
+
+/** One accepted 18-hole score, resolved to its source course and tee. */
+export type PccScore = {
+  participantId: string;
+  courseId: string | null;
+  teeBoxId: string;
+  /** YYYY-MM-DD. */
+  playedAt: string;
+  adjustedGrossScore: number;
+  courseRating: number;
+  slope: number;
+  handicapIndexUsed: number | null;
+};
+
+export type PccResult = {
+  courseId: string | null;
+  teeBoxId: string;
+  playedAt: string;
+  pcc: number;
+  eligibleScores: number;
+  /** Mean strokes above expectation (after trimming); null below the minimum. */
+  meanExcess: number | null;
+  reason: string;
+  /** Stored on handicap_pcc_adjustments.inputs for the audit trail. */
+  inputs: {
+    scores: number;
+    eligible: number;
+    excluded_no_index: number;
+    excluded_high_index: number;
+    trimmed: boolean;
+    expected_excess: number;
+    raw_pcc: number | null;
+  };
+};
+
+/** Strokes a score came in above what the player's index predicts on this tee. */
+export function scoreExcess(s: PccScore): number | null {
+  if (s.handicapIndexUsed == null || s.slope <= 0) return null;
+  return s.adjustedGrossScore - s.courseRating - (s.handicapIndexUsed * s.slope) / 113 - PCC_EXPECTED_EXCESS;
+}
+
+function fmtStrokes(n: number): string {
+  return Math.abs(n).toFixed(1);
+}
+
+/** PCC for one tee-day's scores (all with the same teeBoxId and playedAt). */
+export function calculatePcc(scores: PccScore[]): PccResult {
+  const first = scores[0];
+  const excluded_no_index = scores.filter((s) => s.handicapIndexUsed == null).length;
+  const excluded_high_index = scores.filter(
+    (s) => s.handicapIndexUsed != null && s.handicapIndexUsed > PCC_MAX_INDEX
+  ).length;
+
+  const excesses = scores
+    .filter((s) => s.handicapIndexUsed != null && s.handicapIndexUsed <= PCC_MAX_INDEX)
+    .map(scoreExcess)
+    .filter((e): e is number => e != null)
+    .sort((a, b) => a - b);
+
+  const base = {
+    courseId: first?.courseId ?? null,
+    teeBoxId: first?.teeBoxId ?? "",
+    playedAt: first?.playedAt ?? "",
+    eligibleScores: excesses.length,
+  };
+  const inputs = {
+    scores: scores.length,
+    eligible: excesses.length,
+    excluded_no_index,
+    excluded_high_index,
+    trimmed: false,
+    expected_excess: PCC_EXPECTED_EXCESS,
+    raw_pcc: null as number | null,
+  };
+
+  if (excesses.length < PCC_MIN_SCORES) {
+    return {
+      ...base,
+      pcc: 0,
+      meanExcess: null,
+      reason: `Only ${excesses.length} eligible score${excesses.length === 1 ? "" : "s"} (${PCC_MIN_SCORES} needed) — no adjustment.`,
+      inputs,
+    };
+  }
+
+  const trimmed = excesses.length >= TRIM_FROM;
+  const counted = trimmed ? excesses.slice(1, -1) : excesses;
+  const mean = pgRound(counted.reduce((sum, e) => sum + e, 0) / counted.length, 2);
+  const raw = Math.trunc(mean) || 0; // no −0
+  const pcc = Math.min(PCC_MAX, Math.max(PCC_MIN, raw));
+
+  const n = `${excesses.length} scores${trimmed ? " (best and worst trimmed)" : ""}`;
+  let reason: string;
+  if (pcc === 0) {
+    reason = `${n} averaged ${fmtStrokes(mean)} ${mean >= 0 ? "over" : "under"} expectation — normal conditions, no adjustment.`;
+  } else if (pcc > 0) {
+    reason = `${n} averaged ${fmtStrokes(mean)} over expectation — played harder than rated, PCC +${pcc}${
+      raw > PCC_MAX ? ` (capped at +${PCC_MAX})` : ""
+    }.`;
+  } else {
+    reason = `${n} averaged ${fmtStrokes(mean)} under expectation — played easier than rated, PCC ${pcc}${
+      raw < PCC_MIN ? ` (capped at ${PCC_MIN})` : ""
+    }.`;
+  }
+
+  return { ...base, pcc, meanExcess: mean, reason, inputs: { ...inputs, trimmed, raw_pcc: raw } };
+}
+
+export function pccGroupKey(teeBoxId: string, playedAt: string): string {
+  return `${teeBoxId}|${playedAt}`;
+}
+
+/** Group scores by tee-day and calculate each group's PCC. */
+export function calculatePccForDays(scores: PccScore[]): PccResult[] {
+  const groups = new Map<string, PccScore[]>();
+  for (const s of scores) {
+    const key = pccGroupKey(s.teeBoxId, s.playedAt);
+    const list = groups.get(key);
+    if (list) list.push(s);
+    else groups.set(key, [s]);
+  }
+
+  return Array.from(groups.values())
+    .map(calculatePcc)
+    .sort((a, b) => a.playedAt.localeCompare(b.playedAt) || a.teeBoxId.localeCompare(b.teeBoxId));
+}
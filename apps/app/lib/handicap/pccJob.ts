@@ -0,0 +1,179 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { chunk } from "@/lib/stats/helpers";
+import { PCC_MIN_SCORES, calculatePccForDays, pccGroupKey, type PccScore } from "@/lib/handicap/pcc";
+
+/**
+ * Daily PCC job — invoked from the auto-complete-rounds cron (single daily
+ * cron, Vercel Hobby limit) and from /api/cron/pcc for manual runs.
+ *
+ * Recalculates every tee-day in the last PCC_LOOKBACK_DAYS (late-finished
+ * rounds still land in their day), upserts handicap_pcc_adjustments with the
+ * reason, and for each tee-day whose PCC changed calls ciaga_apply_pcc to
+ * replay the handicap pipeline from that day (its differentials and every
+ * later round's index). Tee-days that
+ * never reach PCC_MIN_SCORES are only stored once they've had a row before,
+ * so the table stays an audit of days that were actually assessed.
+ *
+ * Best-effort per tee-day: failures are collected in `errors`.
+ */
+
+const PCC_LOOKBACK_DAYS = 14;
+const PAGE = 1000;
+
+type ExistingAdjustment = { id: string; tee_box_id: string; played_at: string; pcc: number };
+
+function daysAgoDate(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+async function loadScores(fromDate: string): Promise<PccScore[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from("handicap_round_results")
+      .select("participant_id, played_at, adjusted_gross_score, handicap_index_used, tee_snapshot_id")
+      .eq("accepted", true)
+      .eq("is_9_hole", false)
+      .gte("played_at", fromDate)
+      .not("adjusted_gross_score", "is", null)
+      .not("tee_snapshot_id", "is", null)
+      .order("played_at", { ascending: true })
+      .order("participant_id", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data ?? []) as any[];
+    rows.push(...page);
+    if (page.length < PAGE) break;
+  }
+
+  const snapIds = Array.from(new Set(rows.map((r) => r.tee_snapshot_id))) as string[];
+  const teeBySnap = new Map<string, any>();
+  for (const ids of chunk(snapIds, 100)) {
+    const { data, error } = await supabaseAdmin
+      .from("round_tee_snapshots")
+      .select("id, source_tee_box_id, rating, slope, round_course_snapshot_id")
+      .in("id", ids);
+    if (error) throw new Error(error.message);
+    for (const t of (data ?? []) as any[]) teeBySnap.set(t.id, t);
+  }
+
+  const courseSnapIds = Array.from(
+    new Set(Array.from(teeBySnap.values()).map((t) => t.round_course_snapshot_id).filter(Boolean))
+  ) as string[];
+  const courseBySnap = new Map<string, string | null>();
+  for (const ids of chunk(courseSnapIds, 100)) {
+    const { data, error } = await supabaseAdmin
+      .from("round_course_snapshots")
+      .select("id, source_course_id")
+      .in("id", ids);
+    if (error) throw new Error(error.message);
+    for (const c of (data ?? []) as any[]) courseBySnap.set(c.id, c.source_course_id ?? null);
+  }
+
+  const scores: PccScore[] = [];
+  for (const r of rows) {
+    const t = teeBySnap.get(r.tee_snapshot_id);
+    // Without a source tee box there's no tee-day to share with anyone.
+    if (!t?.source_tee_box_id || t.rating == null || t.slope == null) continue;
+    scores.push({
+      participantId: String(r.participant_id),
+      courseId: courseBySnap.get(t.round_course_snapshot_id) ?? null,
+      teeBoxId: String(t.source_tee_box_id),
+      playedAt: String(r.played_at),
+      adjustedGrossScore: Number(r.adjusted_gross_score),
+      courseRating: Number(t.rating),
+      slope: Number(t.slope),
+      handicapIndexUsed: r.handicap_index_used != null ? Number(r.handicap_index_used) : null,
+    });
+  }
+  return scores;
+}
+
+export async function runPccJob(opts: { lookbackDays?: number } = {}): Promise<{
+  assessed: number;
+  adjusted: number;
+  rederived: number;
+  errors: string[];
+}> {
+  const errors: string[] = [];
+  const fromDate = daysAgoDate(opts.lookbackDays ?? PCC_LOOKBACK_DAYS);
+
+  const scores = await loadScores(fromDate);
+  const results = calculatePccForDays(scores);
+
+  const { data: existingRows, error: existingErr } = await supabaseAdmin
+    .from("handicap_pcc_adjustments")
+    .select("id, tee_box_id, played_at, pcc")
+    .gte("played_at", fromDate);
+  if (existingErr) throw new Error(existingErr.message);
+
+  const existing = new Map<string, ExistingAdjustment>();
+  for (const row of (existingRows ?? []) as ExistingAdjustment[]) {
+    existing.set(pccGroupKey(row.tee_box_id, String(row.played_at)), row);
+  }
+
+  let assessed = 0;
+  let adjusted = 0;
+  let rederived = 0;
+  const calculatedAt = new Date().toISOString();
+
+  for (const res of results) {
+    const key = pccGroupKey(res.teeBoxId, res.playedAt);
+    const prev = existing.get(key);
+    existing.delete(key);
+    if (!prev && res.eligibleScores < PCC_MIN_SCORES) continue;
+
+    assessed += 1;
+    if (res.pcc !== 0) adjusted += 1;
+
+    try {
+      const { error: upErr } = await supabaseAdmin.from("handicap_pcc_adjustments").upsert(
+        {
+          course_id: res.courseId,
+          tee_box_id: res.teeBoxId,
+          played_at: res.playedAt,
+          pcc: res.pcc,
+          eligible_scores: res.eligibleScores,
+          mean_excess: res.meanExcess,
+          reason: res.reason,
+          inputs: res.inputs,
+          calculated_at: calculatedAt,
+        },
+        { onConflict: "tee_box_id,played_at" }
+      );
+      if (upErr) throw new Error(upErr.message);
+
+      if ((prev?.pcc ?? 0) !== res.pcc) {
+        const { data: count, error: applyErr } = await supabaseAdmin.rpc("ciaga_apply_pcc", {
+          p_tee_box_id: res.teeBoxId,
+          p_played_at: res.playedAt,
+        });
+        if (applyErr) throw new Error(applyErr.message);
+        rederived += Number(count ?? 0);
+      }
+    } catch (e: any) {
+      errors.push(`pcc ${key}: ${e?.message}`);
+    }
+  }
+
+  // Rows whose scores have all gone (round deleted / no longer accepted):
+  // drop the adjustment and re-derive whatever is left on that day.
+  for (const [key, row] of existing) {
+    try {
+      const { error: delErr } = await supabaseAdmin.from("handicap_pcc_adjustments").delete().eq("id", row.id);
+      if (delErr) throw new Error(delErr.message);
+      if (row.pcc !== 0) {
+        const { data: count, error: applyErr } = await supabaseAdmin.rpc("ciaga_apply_pcc", {
+          p_tee_box_id: row.tee_box_id,
+          p_played_at: row.played_at,
+        });
+        if (applyErr) throw new Error(applyErr.message);
+        rederived += Number(count ?? 0);
+      }
+    } catch (e: any) {
+      errors.push(`pcc ${key}: ${e?.message}`);
+    }
+  }
+
+  return { assessed, adjusted, rederived, errors };
+}
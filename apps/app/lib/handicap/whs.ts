@@ -0,0 +1,410 @@
+/**
+ * World Handicap System index engine — a pure TypeScript mirror of the SQL
+ * pipeline (compute_handicap_round_result → ciaga_scoring_record_stream →
+ * recalc_handicap_profile), so handicap maths can be unit tested and previewed
+ * ("what if I shoot X tomorrow") without touching the database.
+ *
+ * With default rules the output reproduces handicap_index_history row for row:
+ *   - lowest-N-of-20 with the WHS adjustment for 3/4/6 scores, capped at 54.0
+ *   - soft cap (+50% above LHI + 3.0) and hard cap (LHI + 5.0), where LHI is
+ *     the lowest stored index in the 365 days before the score
+ *   - 9-hole scores: with an index, played differential + expected 9-hole
+ *     differential (0.52 × HI + 1.2); without one, consecutive nines pair up
+ * Exceptional score reduction is opt-in (`rules.exceptionalScoreReduction`):
+ * the SQL pipeline doesn't apply it yet (esr_applied is always 0). The
+ * playing conditions calculation is carried per score as `pcc` and folds into
+ * the differential exactly as WHS Rule 5.6 does.
+ *
+ * All rounding is Postgres numeric rounding (half away from zero), which is
+ * what the stored values were produced with.
+ */
+
+export const MAX_HANDICAP_INDEX = 54.0;
+export const SCORING_RECORD_SIZE = 20;
+const LHI_WINDOW_DAYS = 365;
+
+export type HandicapRules = {
+  /** Apply WHS Rule 5.9 exceptional score reductions. Off in the stored pipeline. */
+  exceptionalScoreReduction: boolean;
+};
+
+export const STORED_RULES: HandicapRules = { exceptionalScoreReduction: false };
+export const WHS_RULES: HandicapRules = { exceptionalScoreReduction: true };
+
+/** One finished round as handicap_round_results + its tee snapshot describe it. */
+export type HandicapRoundInput = {
+  /** Participant id — also the tie-break when pairing nines, as in SQL. */
+  id: string;
+  /** YYYY-MM-DD. */
+  playedAt: string;
+  is9Hole: boolean;
+  accepted: boolean;
+  adjustedGrossScore: number | null;
+  courseRating: number | null;
+  slope: number | null;
+  /** HI at the time of play (round_participants.handicap_index). Null = no index yet. */
+  handicapIndexUsed: number | null;
+  /** Playing conditions calculation for the round's course/tee/day (−1 … +3). */
+  pcc?: number;
+};
+
+/** One entry of the scoring record (a row of ciaga_scoring_record_stream). */
+export type ScoringRecordEntry = {
+  /** Source id (participant id), or "a+b" for a pair of combined nines. */
+  id: string;
+  playedAt: string;
+  differential: number;
+  combinedFrom9: boolean;
+  /** HI at the time of play — the ESR reference. */
+  handicapIndexUsed?: number | null;
+};
+
+export type HandicapHistoryRow = {
+  asOfDate: string;
+  handicapIndex: number | null;
+  lowHandicapIndex: number | null;
+  softCapDelta: number;
+  hardCapDelta: number;
+  /** Cumulative ESR reduction applied to the counting differentials. */
+  esrApplied: number;
+  /** Index before any cap (rounded). Null while there are fewer than 3 scores. */
+  baseIndex: number | null;
+  /** Ids of the differentials that counted, lowest first. */
+  countingIds: string[];
+  /** Ids of the (up to) 20 scores in the record on this date, newest first. */
+  recordIds: string[];
+};
+
+// -----------------------------
+// Rounding + dates
+// -----------------------------
+
+/** Postgres numeric round(): half away from zero, tolerant of float noise. */
+export function pgRound(x: number, dp = 0): number {
+  const f = 10 ** dp;
+  const r = Math.round(Math.abs(x) * f + 1e-9) / f;
+  return x < 0 ? -r : r;
+}
+
+function addDays(ymd: string, days: number): string {
+  const d = new Date(`${ymd}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// -----------------------------
+// Per-round calculations
+// -----------------------------
+
+/** ciaga_lowest_of_n_count — how many differentials count from a record of n. */
+export function lowestOfNCount(n: number): number {
+  if (n <= 0) return 0;
+  if (n <= 5) return 1;
+  if (n <= 8) return 2;
+  if (n <= 11) return 3;
+  if (n <= 14) return 4;
+  if (n <= 16) return 5;
+  if (n <= 18) return 6;
+  if (n === 19) return 7;
+  return 8;
+}
+
+/** ciaga_hi_adjustment — the WHS adjustment for short scoring records. */
+export function indexAdjustment(n: number): number {
+  if (n === 3) return -2.0;
+  if (n === 4 || n === 6) return -1.0;
+  return 0.0;
+}
+
+/**
+ * Course handicap as compute_handicap_round_result derives it: full 18-hole
+ * value, halved (and re-rounded) for a 9-hole tee. No index → 54 / 27.
+ */
+export function courseHandicap(
+  handicapIndex: number | null,
+  slope: number,
+  courseRating: number,
+  parTotal: number,
+  is9Hole = false
+): number {
+  if (handicapIndex == null) return is9Hole ? 27 : 54;
+  const full = pgRound((handicapIndex * slope) / 113 + (courseRating - parTotal));
+  return is9Hole ? pgRound(full / 2) : full;
+}
+
+/** Score differential: (AGS − CR − PCC) × 113 / slope, to one decimal. */
+export function scoreDifferential(adjustedGrossScore: number, courseRating: number, slope: number, pcc = 0): number {
+  return pgRound(((adjustedGrossScore - courseRating - pcc) * 113) / slope, 1);
+}
+
+/** WHS expected 9-hole differential for an index (Rule 5.1b). */
+export function expectedNineHoleDifferential(handicapIndex: number): number {
+  return pgRound(handicapIndex * 0.52 + 1.2, 1);
+}
+
+/** 18-hole equivalent differential for a 9-hole score played with an index. */
+export function nineHoleDifferential(played9Differential: number, handicapIndex: number): number {
+  return pgRound(played9Differential + expectedNineHoleDifferential(handicapIndex), 1);
+}
+
+/** ESR steps for a differential against the HI it was played off (Rule 5.9). */
+export function exceptionalScoreReduction(differential: number, handicapIndex: number | null | undefined): number {
+  if (handicapIndex == null) return 0;
+  const below = pgRound(handicapIndex - differential, 1);
+  if (below >= 10) return 2;
+  if (below >= 7) return 1;
+  return 0;
+}
+
+// -----------------------------
+// Scoring record (ciaga_scoring_record_stream)
+// -----------------------------
+
+/**
+ * Turn accepted rounds into scoring-record entries: 18-hole differentials as
+ * is, 9-hole scores with an index via the expected score, and 9-hole scores
+ * without one paired in date order (the second nine's date carries the pair).
+ * An unpaired trailing nine stays pending and contributes nothing.
+ */
+export function buildScoringRecord(rounds: HandicapRoundInput[]): ScoringRecordEntry[] {
+  const out: ScoringRecordEntry[] = [];
+  const pendingNines: Array<{ id: string; playedAt: string; played9: number }> = [];
+
+  for (const r of rounds) {
+    if (!r.accepted) continue;
+    if (r.adjustedGrossScore == null || r.courseRating == null || r.slope == null || r.slope <= 0) continue;
+
+    const played = scoreDifferential(r.adjustedGrossScore, r.courseRating, r.slope, r.pcc ?? 0);
+
+    if (!r.is9Hole) {
+      out.push({ id: r.id, playedAt: r.playedAt, differential: played, combinedFrom9: false, handicapIndexUsed: r.handicapIndexUsed });
+    } else if (r.handicapIndexUsed != null) {
+      out.push({
+        id: r.id,
+        playedAt: r.playedAt,
+        differential: nineHoleDifferential(played, r.handicapIndexUsed),
+        combinedFrom9: false,
+        handicapIndexUsed: r.handicapIndexUsed,
+      });
+    } else {
+      pendingNines.push({ id: r.id, playedAt: r.playedAt, played9: played });
+    }
+  }
+
+  pendingNines.sort((a, b) => a.playedAt.localeCompare(b.playedAt) || a.id.localeCompare(b.id));
+  for (let i = 0; i + 1 < pendingNines.length; i += 2) {
+    const a = pendingNines[i];
+    const b = pendingNines[i + 1];
+    out.push({
+      id: `${a.id}+${b.id}`,
+      playedAt: b.playedAt,
+      differential: pgRound((a.played9 + b.played9) / 2, 1),
+      combinedFrom9: true,
+      handicapIndexUsed: null,
+    });
+  }
+
+  return sortRecord(out);
+}
+
+/** Oldest first; same-day entries keep their input order. */
+function sortRecord(entries: ScoringRecordEntry[]): ScoringRecordEntry[] {
+  return entries
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => a.e.playedAt.localeCompare(b.e.playedAt) || a.i - b.i)
+    .map(({ e }) => e);
+}
+
+// -----------------------------
+// Index history (recalc_handicap_profile)
+// -----------------------------
+
+/**
+ * Handicap index history from a scoring record — one row per distinct play
+ * date, exactly as recalc_handicap_profile writes handicap_index_history.
+ */
+export function calculateHandicapHistory(
+  record: ScoringRecordEntry[],
+  rules: HandicapRules = STORED_RULES
+): HandicapHistoryRow[] {
+  const sorted = sortRecord(record);
+  const dates = Array.from(new Set(sorted.map((e) => e.playedAt)));
+  const history: HandicapHistoryRow[] = [];
+
+  // ESR steps are earned when a score is posted and follow it for as long as
+  // it stays in the record; they reduce that score and the 19 before it.
+  const esrById = new Map<string, number>();
+  if (rules.exceptionalScoreReduction) {
+    for (const e of sorted) esrById.set(e.id, exceptionalScoreReduction(e.differential, e.handicapIndexUsed));
+  }
+
+  for (const date of dates) {
+    const upTo = sorted.filter((e) => e.playedAt <= date);
+    const window = upTo.slice(-SCORING_RECORD_SIZE).reverse(); // newest first
+    const n = window.length;
+
+    const empty: HandicapHistoryRow = {
+      asOfDate: date,
+      handicapIndex: null,
+      lowHandicapIndex: null,
+      softCapDelta: 0,
+      hardCapDelta: 0,
+      esrApplied: 0,
+      baseIndex: null,
+      countingIds: [],
+      recordIds: window.map((e) => e.id),
+    };
+
+    if (n < 3) {
+      history.push(empty);
+      continue;
+    }
+
+    // Cumulative ESR: each window entry is reduced by every exceptional score
+    // posted at or after it.
+    let esrRunning = 0;
+    const adjusted = window.map((e) => {
+      esrRunning += esrById.get(e.id) ?? 0;
+      return { id: e.id, value: pgRound(e.differential - esrRunning, 1) };
+    });
+
+    const k = lowestOfNCount(n);
+    const counting = adjusted
+      .map((a, i) => ({ ...a, i }))
+      .sort((a, b) => a.value - b.value || a.i - b.i)
+      .slice(0, k);
+    const avg = counting.reduce((s, c) => s + c.value, 0) / k;
+    const baseIndex = Math.min(MAX_HANDICAP_INDEX, pgRound(avg + indexAdjustment(n), 1));
+
+    const windowStart = addDays(date, -LHI_WINDOW_DAYS);
+    const prior = history
+      .filter((h) => h.handicapIndex != null && h.asOfDate >= windowStart && h.asOfDate <= date)
+      .map((h) => h.handicapIndex as number);
+
+    let capped: number;
+    let lhi: number;
+    let delta = 0;
+
+    if (!prior.length) {
+      capped = baseIndex;
+      lhi = capped;
+    } else {
+      lhi = Math.min(MAX_HANDICAP_INDEX, ...prior);
+      const over = baseIndex - lhi;
+      if (over <= 3) capped = baseIndex;
+      else if (over <= 5) capped = pgRound(lhi + 3 + (over - 3) * 0.5, 1);
+      else capped = pgRound(lhi + 5, 1);
+      capped = Math.min(MAX_HANDICAP_INDEX, capped);
+      delta = pgRound(Math.max(0, baseIndex - capped), 1);
+    }
+
+    history.push({
+      ...empty,
+      handicapIndex: capped,
+      lowHandicapIndex: Math.min(MAX_HANDICAP_INDEX, lhi),
+      softCapDelta: delta,
+      hardCapDelta: delta,
+      esrApplied: esrRunning,
+      baseIndex,
+      countingIds: counting.map((c) => c.id),
+    });
+  }
+
+  return history;
+}
+
+/** ciaga_true_hi_as_of — the latest non-null index on or before a date. */
+export function handicapIndexAsOf(history: HandicapHistoryRow[], date: string): number | null {
+  let out: number | null = null;
+  for (const h of history) {
+    if (h.asOfDate > date) break;
+    if (h.handicapIndex != null) out = Math.min(MAX_HANDICAP_INDEX, h.handicapIndex);
+  }
+  return out;
+}
+
+/**
+ * Full chronological replay, as ciaga_refresh_handicaps_from does it: each
+ * round is played off the index built by the rounds before it (same-day
+ * rounds included), which matters for 9-hole expected scores and ESR.
+ * `handicapIndexUsed` on the inputs is ignored and re-derived.
+ */
+export function replayHandicapHistory(
+  rounds: HandicapRoundInput[],
+  rules: HandicapRules = STORED_RULES
+): { record: ScoringRecordEntry[]; history: HandicapHistoryRow[] } {
+  const ordered = rounds
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => a.r.playedAt.localeCompare(b.r.playedAt) || a.i - b.i)
+    .map(({ r }) => r);
+
+  const played: HandicapRoundInput[] = [];
+  let history: HandicapHistoryRow[] = [];
+
+  for (const r of ordered) {
+    played.push({ ...r, handicapIndexUsed: handicapIndexAsOf(history, r.playedAt) });
+    history = calculateHandicapHistory(buildScoringRecord(played), rules);
+  }
+
+  return { record: buildScoringRecord(played), history };
+}
+
+// -----------------------------
+// What-if
+// -----------------------------
+
+export type WhatIfResult = {
+  differential: number;
+  currentIndex: number | null;
+  newIndex: number | null;
+  /** newIndex − currentIndex (null when either side has no index). */
+  change: number | null;
+  /** True when the new score is one of the counting differentials. */
+  counts: boolean;
+  /** The score that falls out of the 20-score window, if any. */
+  dropsOut: ScoringRecordEntry | null;
+  capApplied: number;
+  /** ESR steps the score would earn under full WHS rules. */
+  esr: number;
+};
+
+/**
+ * Preview the index after posting one more score on `playedAt` (defaults to
+ * after everything already in the record).
+ */
+export function whatIfScore(
+  record: ScoringRecordEntry[],
+  score: { playedAt: string; differential: number },
+  rules: HandicapRules = STORED_RULES
+): WhatIfResult {
+  const sorted = sortRecord(record);
+  const before = calculateHandicapHistory(sorted, rules);
+  const currentIndex = handicapIndexAsOf(before, score.playedAt);
+
+  const entry: ScoringRecordEntry = {
+    id: "what-if",
+    playedAt: score.playedAt,
+    differential: score.differential,
+    combinedFrom9: false,
+    handicapIndexUsed: currentIndex,
+  };
+  const after = calculateHandicapHistory([...sorted, entry], rules);
+  const row = after.find((h) => h.asOfDate === score.playedAt) ?? null;
+
+  const prevWindow = sorted.filter((e) => e.playedAt <= score.playedAt).slice(-SCORING_RECORD_SIZE);
+  const dropsOut = prevWindow.length === SCORING_RECORD_SIZE && row && !row.recordIds.includes(prevWindow[0].id)
+    ? prevWindow[0]
+    : null;
+
+  const newIndex = row?.handicapIndex ?? null;
+  return {
+    differential: score.differential,
+    currentIndex,
+    newIndex,
+    change: newIndex != null && currentIndex != null ? pgRound(newIndex - currentIndex, 1) : null,
+    counts: !!row?.countingIds.includes(entry.id),
+    dropsOut,
+    capApplied: row?.hardCapDelta ?? 0,
+    esr: exceptionalScoreReduction(score.differential, currentIndex),
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateChosen,
+  matchMembers,
+  parseBankAmount,
+  parseBankCsv,
+  parseBankOfx,
+  reconcileStatement,
+  scoreMemberMatch,
+  suggestAllocation,
+  suggestedMember,
+  type OutstandingCharge,
+} from "@/lib/majors/bankReconciliation";
+
+const charge = (over: Partial<OutstandingCharge>): OutstandingCharge => ({
+  id: "c1",
+  profile_id: "p1",
+  name: "Green fee",
+  amount: 20,
+  event_id: "e1",
+  event_name: "Spring Medal",
+  event_date: "2026-04-01",
+  created_at: "2026-03-20T10:00:00Z",
+  ...over,
+});
+
+describe("parseBankAmount", () => {
+  it("reads the formats banks export", () => {
+    expect(parseBankAmount("1,234.50")).toBe(1234.5);
+    expect(parseBankAmount("£20.00")).toBe(20);
+    expect(parseBankAmount("(15.00)")).toBe(-15);
+    expect(parseBankAmount("12.00 DR")).toBe(-12);
+    expect(parseBankAmount("12.00CR")).toBe(12);
+    expect(parseBankAmount("")).toBeNull();
+    expect(parseBankAmount("n/a")).toBeNull();
+  });
+});
+
+describe("parseBankCsv", () => {
+  it("finds columns by header after a preamble and splits paid in / paid out", () => {
+    const csv = [
+      "Account,12345678",
+      "",
+      "Date,Description,Reference,Paid out,Paid in",
+      "03/05/2026,FP J SMITH,MEDAL FEES,,25.00",
+      "04/05/2026,DD INSURANCE,,40.00,",
+    ].join("\n");
+    const { lines, errors } = parseBankCsv(csv);
+    expect(errors).toEqual([]);
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ date: "2026-05-03", amount: 25, description: "FP J SMITH", reference: "MEDAL FEES", row: 4 });
+    expect(lines[1].amount).toBe(-40);
+  });
+
+  it("keeps identical same-day lines apart and prefers the bank's own id", () => {
+    const dupes = parseBankCsv("Date,Details,Amount\n2026-05-03,A Jones,10\n2026-05-03,A Jones,10\n");
+    expect(new Set(dupes.lines.map((l) => l.key)).size).toBe(2);
+
+    const withId = parseBankCsv("Date,Details,Amount,Transaction ID\n2026-05-03,A Jones,10,TX-9\n");
+    expect(withId.lines[0].key).toBe("id:TX-9");
+  });
+
+  it("reports a file with no usable header", () => {
+    expect(parseBankCsv("foo,bar\n1,2\n").errors).toHaveLength(1);
+  });
+});
+
+describe("parseBankOfx", () => {
+  it("reads SGML transactions with unclosed elements", () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+      "<STMTTRN>",
+      "<TRNTYPE>CREDIT",
+      "<DTPOSTED>20260503120000[0:GMT]",
+      "<TRNAMT>30.00",
+      "<FITID>ABC123",
+      "<NAME>MRS K BROWN",
+      "<MEMO>SPRING MEDAL",
+      "</STMTTRN>",
+      "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260504<TRNAMT>-5.00<FITID>ABC124<NAME>BANK FEE</STMTTRN>",
+      "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\n");
+    const { lines } = parseBankOfx(ofx);
+    expect(lines).toEqual([
+      { key: "id:ABC123", row: 1, date: "2026-05-03", amount: 30, description: "MRS K BROWN", reference: "SPRING MEDAL" },
+      { key: "id:ABC124", row: 2, date: "2026-05-04", amount: -5, description: "BANK FEE", reference: "" },
+    ]);
+  });
+});
+
+describe("member matching", () => {
+  it("scores full names, initials and one-letter typos", () => {
+    expect(scoreMemberMatch("FP JOHN SMITH", "John Smith")).toBe(1);
+    expect(scoreMemberMatch("SMITH J", "John Smith")).toBe(0.8);
+    expect(scoreMemberMatch("JOHN SMYTH", "John Smith")).toBe(0.9);
+    expect(scoreMemberMatch("JOHN BROWN", "John Smith")).toBe(0.25);
+  });
+
+  it("only suggests a member when the best match is clear", () => {
+    const members = [
+      { profile_id: "p1", name: "John Smith" },
+      { profile_id: "p2", name: "Jane Smith" },
+      { profile_id: "p3", name: "Kate Brown" },
+    ];
+    const initialOnly = matchMembers({ description: "J SMITH", reference: "" }, members);
+    expect(initialOnly.map((m) => m.profile_id)).toEqual(["p2", "p1"]);
+    expect(suggestedMember(initialOnly)).toBeNull();
+
+    const named = matchMembers({ description: "FP JANE SMITH", reference: "" }, members);
+    expect(suggestedMember(named)).toBe("p2");
+  });
+});
+
+describe("suggestAllocation", () => {
+  it("prefers a charge for exactly the amount", () => {
+    const charges = [charge({ id: "old", amount: 20 }), charge({ id: "exact", amount: 35, created_at: "2026-04-20T10:00:00Z" })];
+    expect(suggestAllocation(35, charges).settles).toEqual(["exact"]);
+  });
+
+  it("settles the event the reference names before older charges", () => {
+    const charges = [
+      charge({ id: "spring", event_name: "Spring Medal", event_date: "2026-04-01" }),
+      charge({ id: "summer", event_name: "Summer Stableford", event_date: "2026-06-01" }),
+    ];
+    const alloc = suggestAllocation(20, charges, "FP J SMITH STABLEFORD");
+    expect(alloc.settles).toEqual(["summer"]);
+    expect(alloc.remainder).toBe(0);
+  });
+
+  it("carries a short payment as a part payment and an overpayment as credit", () => {
+    const charges = [charge({ id: "a", amount: 20 }), charge({ id: "b", amount: 30, event_date: "2026-05-01" })];
+    expect(suggestAllocation(35, charges)).toEqual({ settles: ["a"], remainder: 15, part_payment_towards: "b" });
+    expect(suggestAllocation(60, charges)).toEqual({ settles: ["a", "b"], remainder: 10, part_payment_towards: null });
+  });
+});
+
+describe("allocateChosen", () => {
+  it("rejects picks worth more than the payment", () => {
+    const a = charge({ id: "a", amount: 20 });
+    const b = charge({ id: "b", amount: 30 });
+    expect(allocateChosen(40, [a, b], [a, b])).toBeNull();
+    expect(allocateChosen(40, [b], [a, b])).toEqual({ settles: ["b"], remainder: 10, part_payment_towards: "a" });
+  });
+});
+
+describe("reconcileStatement", () => {
+  it("skips debits and flags lines already imported", () => {
+    const { lines } = parseBankCsv("Date,Description,Amount\n2026-05-03,FP KATE BROWN,20\n2026-05-04,CARD FEE,-2\n");
+    const out = reconcileStatement(
+      lines,
+      [{ profile_id: "p3", name: "Kate Brown" }],
+      [charge({ id: "k1", profile_id: "p3" })],
+      new Set([lines[0].key])
+    );
+    expect(out).toHaveLength(1);
+    expect(out[0]).toMatchObject({ already_imported: true, profile_id: "p3", allocation: { settles: ["k1"], remainder: 0 } });
+  });
+});
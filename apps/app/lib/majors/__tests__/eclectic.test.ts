@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEclectic,
+  playingAllowance,
+  rankEclectic,
+  readEclecticSettings,
+  splitPrizeTable,
+  type EclecticCourseHole,
+  type EclecticHoleScore,
+  type EclecticRules,
+} from "@/lib/majors/eclectic";
+
+// A four-hole course keeps the arithmetic readable: par 4, 3, 5, 4 (16).
+const holes: EclecticCourseHole[] = [
+  { hole_number: 1, par: 4, stroke_index: 1 },
+  { hole_number: 2, par: 3, stroke_index: 4 },
+  { hole_number: 3, par: 5, stroke_index: 2 },
+  { hole_number: 4, par: 4, stroke_index: 3 },
+];
+
+const round = (
+  round_id: string,
+  played_at: string,
+  strokes: Record<number, number>,
+  course_handicap: number | null = 0
+): EclecticHoleScore[] =>
+  Object.entries(strokes).map(([h, s]) => ({
+    round_id,
+    played_at,
+    hole_number: Number(h),
+    strokes: s,
+    course_handicap,
+  }));
+
+const rules = (over: Partial<EclecticRules> = {}): EclecticRules => ({
+  scoring: "gross",
+  allowance_pct: 100,
+  handicap_mode: "per_hole",
+  ...over,
+});
+
+describe("buildEclectic", () => {
+  it("keeps the best gross score on each hole across rounds", () => {
+    const scores = [
+      ...round("r1", "2026-04-01", { 1: 5, 2: 3, 3: 6, 4: 4 }),
+      ...round("r2", "2026-05-01", { 1: 4, 2: 4, 3: 5, 4: 5 }),
+    ];
+    const card = buildEclectic(scores, holes, rules());
+    expect(card.best.map((b) => b.value)).toEqual([4, 3, 5, 4]);
+    expect(card).toMatchObject({ total: 16, to_par: 0, holes_filled: 4, rounds_counted: 2 });
+    expect(card.best[0].round_id).toBe("r2");
+    expect(card.best[1].round_id).toBe("r1");
+  });
+
+  it("records each round's improvements in date order", () => {
+    const scores = [
+      // Out of order on purpose: the engine replays by played_at.
+      ...round("r2", "2026-05-01", { 1: 4, 2: 3, 3: 6, 4: 4 }),
+      ...round("r1", "2026-04-01", { 1: 5, 2: 3, 3: 6, 4: 4 }),
+      ...round("r3", "2026-06-01", { 1: 5, 2: 4, 3: 6, 4: 5 }),
+    ];
+    const card = buildEclectic(scores, holes, rules());
+    expect(card.history.map((h) => h.round_id)).toEqual(["r1", "r2"]);
+    expect(card.history[1]).toMatchObject({ holes: [{ hole_number: 1, from: 5, to: 4 }], total_after: 17 });
+    expect(card.rounds_counted).toBe(3);
+  });
+
+  it("never replaces a hole with an equal score", () => {
+    const scores = [...round("r1", "2026-04-01", { 1: 4 }), ...round("r2", "2026-05-01", { 1: 4 })];
+    const card = buildEclectic(scores, holes, rules());
+    expect(card.best[0].round_id).toBe("r1");
+    expect(card.history).toHaveLength(1);
+  });
+
+  it("counts unplayed holes as double bogey", () => {
+    const card = buildEclectic(round("r1", "2026-04-01", { 1: 4, 2: 3 }), holes, rules());
+    // 4 + 3 + (5+2) + (4+2)
+    expect(card).toMatchObject({ total: 20, to_par: 4, holes_filled: 2 });
+  });
+
+  it("takes each round's strokes on the hardest holes with the allowance applied", () => {
+    // Course handicap 4 at 50% → 2 strokes, on SI 1 and 2 (holes 1 and 3).
+    const card = buildEclectic(
+      round("r1", "2026-04-01", { 1: 5, 2: 3, 3: 6, 4: 5 }, 4),
+      holes,
+      rules({ scoring: "net", allowance_pct: 50 })
+    );
+    expect(card.best.map((b) => b.value)).toEqual([4, 3, 5, 5]);
+    expect(card.total).toBe(17);
+  });
+
+  it("lets a high-handicap round win a hole on net but not gross", () => {
+    const scores = [
+      ...round("low", "2026-04-01", { 1: 4 }, 0),
+      // On the four-hole layout a course handicap of 4 is a stroke a hole.
+      ...round("high", "2026-05-01", { 1: 4 }, 4),
+    ];
+    expect(buildEclectic(scores, holes, rules()).best[0].round_id).toBe("low");
+    expect(buildEclectic(scores, holes, rules({ scoring: "net" })).best[0]).toMatchObject({
+      round_id: "high",
+      value: 3,
+      gross: 4,
+    });
+  });
+
+  it("deducts the latest round's allowance from a gross-built net card", () => {
+    const scores = [
+      ...round("r1", "2026-04-01", { 1: 5, 2: 4, 3: 6, 4: 5 }, 12),
+      ...round("r2", "2026-05-01", { 1: 6, 2: 3, 3: 7, 4: 5 }, 8),
+    ];
+    const card = buildEclectic(scores, holes, rules({ scoring: "net", handicap_mode: "deduct_total", allowance_pct: 50 }));
+    // Gross eclectic 5+3+6+5 = 19, less 50% of the latest course handicap (8) = 15.
+    expect(card).toMatchObject({ total: 15, deducted: 4, to_par: -1 });
+  });
+
+  it("keeps the most stableford points per hole", () => {
+    const card = buildEclectic(
+      [
+        ...round("r1", "2026-04-01", { 1: 4, 2: 5, 3: 4, 4: 8 }),
+        ...round("r2", "2026-05-01", { 1: 5, 2: 2 }),
+      ],
+      holes,
+      rules({ scoring: "stableford" })
+    );
+    expect(card.best.map((b) => b.value)).toEqual([2, 3, 3, 0]);
+    expect(card).toMatchObject({ total: 8, to_par: null });
+  });
+
+  it("ignores holes that are not on the nominated course layout", () => {
+    const card = buildEclectic(round("r1", "2026-04-01", { 1: 4, 19: 3 }), holes, rules());
+    expect(card.holes_filled).toBe(1);
+  });
+});
+
+describe("playingAllowance", () => {
+  it("rounds the percentage of course handicap", () => {
+    expect(playingAllowance(17, 75)).toBe(13);
+    expect(playingAllowance(null, 75)).toBe(0);
+  });
+});
+
+describe("rankEclectic", () => {
+  const entry = (id: string, total: number, holes_filled = 18) => ({
+    id,
+    card: { ...buildEclectic([], holes, rules()), total, holes_filled },
+  });
+
+  it("ranks strokes low-first and shares tied positions", () => {
+    const ranked = rankEclectic([entry("a", 60), entry("b", 58), entry("c", 60, 17)], "net");
+    expect(ranked.map((r) => [r.id, r.position])).toEqual([
+      ["b", 1],
+      ["a", 2],
+      ["c", 2],
+    ]);
+  });
+
+  it("ranks stableford points high-first", () => {
+    const ranked = rankEclectic([entry("a", 40), entry("b", 44)], "stableford");
+    expect(ranked[0]).toMatchObject({ id: "b", position: 1 });
+  });
+});
+
+describe("splitPrizeTable", () => {
+  const table = [
+    { position: 1, pct: 50 },
+    { position: 2, pct: 30 },
+    { position: 3, pct: 20 },
+  ];
+  const shares = (standings: { id: string; position: number }[]) =>
+    splitPrizeTable(standings, table).map((s) => [s.entry.id, s.position, s.pct]);
+
+  it("pays each clean position its own share", () => {
+    expect(shares([{ id: "a", position: 1 }, { id: "b", position: 2 }, { id: "c", position: 3 }])).toEqual([
+      ["a", 1, 50],
+      ["b", 2, 30],
+      ["c", 3, 20],
+    ]);
+  });
+
+  it("co-leaders split 1st + 2nd; the next card still takes 3rd", () => {
+    expect(shares([{ id: "a", position: 1 }, { id: "b", position: 1 }, { id: "c", position: 3 }])).toEqual([
+      ["a", 1, 40],
+      ["b", 1, 40],
+      ["c", 3, 20],
+    ]);
+  });
+
+  it("a tie straddling the last paid place splits what is left", () => {
+    const out = shares([{ id: "a", position: 1 }, { id: "b", position: 2 }, { id: "c", position: 3 }, { id: "d", position: 3 }]);
+    expect(out).toEqual([
+      ["a", 1, 50],
+      ["b", 2, 30],
+      ["c", 3, 10],
+      ["d", 3, 10],
+    ]);
+  });
+});
+
+describe("readEclecticSettings", () => {
+  it("fills defaults when creating", () => {
+    expect(readEclecticSettings({ name: " Club Eclectic " })).toEqual({
+      settings: {
+        name: "Club Eclectic",
+        scoring: "net",
+        allowance_pct: 100,
+        handicap_mode: "per_hole",
+        event_rounds_only: false,
+      },
+    });
+  });
+
+  it("validates only the fields sent on update", () => {
+    expect(readEclecticSettings({ allowance_pct: 75 }, true)).toEqual({ settings: { allowance_pct: 75 } });
+    expect(readEclecticSettings({ scoring: "skins" }, true)).toEqual({
+      error: "scoring must be gross, net or stableford.",
+    });
+    expect(readEclecticSettings({})).toEqual({ error: "name is required." });
+  });
+});
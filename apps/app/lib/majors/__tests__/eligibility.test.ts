@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkEntryEligibility,
+  describeEligibility,
+  handicapRangeOverlaps,
+  parseEligibilityRules,
+  requiresGroupMembership,
+  type EntrantFacts,
+} from "@/lib/majors/eligibility";
+
+const player = (over: Partial<EntrantFacts> = {}): EntrantFacts => ({
+  handicap_index: 12.4,
+  gender: "male",
+  home_course_id: "course-a",
+  is_group_member: false,
+  ...over,
+});
+
+describe("parseEligibilityRules", () => {
+  it("keeps well-formed rules and drops the rest", () => {
+    expect(
+      parseEligibilityRules({
+        min_handicap_index: 5,
+        max_handicap_index: "18",
+        gender: "other",
+        home_course_ids: ["course-a", 3, ""],
+        require_group_membership: true,
+        legacy: "x",
+      })
+    ).toEqual({ min_handicap_index: 5, home_course_ids: ["course-a"], require_group_membership: true });
+    expect(parseEligibilityRules(null)).toEqual({});
+  });
+});
+
+describe("requiresGroupMembership", () => {
+  it("is always required for group events and opt-in for public ones", () => {
+    expect(requiresGroupMembership({ group_id: "g", visibility: "group" })).toBe(true);
+    expect(requiresGroupMembership({ group_id: "g", visibility: "public" })).toBe(false);
+    expect(
+      requiresGroupMembership({ group_id: "g", visibility: "public", eligibility_rules: { require_group_membership: true } })
+    ).toBe(true);
+    expect(requiresGroupMembership({ group_id: null, visibility: "group" })).toBe(false);
+  });
+});
+
+describe("checkEntryEligibility", () => {
+  it("passes an open event", () => {
+    expect(checkEntryEligibility({}, player())).toEqual([]);
+  });
+
+  it("enforces handicap limits inclusively, and needs an index when limited", () => {
+    const rules = { min_handicap_index: 5, max_handicap_index: 12.4 };
+    expect(checkEntryEligibility(rules, player())).toEqual([]);
+    expect(checkEntryEligibility(rules, player({ handicap_index: 12.5 }))[0].rule).toBe("max_handicap_index");
+    expect(checkEntryEligibility(rules, player({ handicap_index: 4.9 }))[0].rule).toBe("min_handicap_index");
+    expect(checkEntryEligibility(rules, player({ handicap_index: null }))[0].message).toMatch(/required/);
+  });
+
+  it("reports every failed rule", () => {
+    const failures = checkEntryEligibility(
+      { gender: "female", home_course_ids: ["course-b"] },
+      player(),
+      { membershipRequired: true }
+    );
+    expect(failures.map((f) => f.rule)).toEqual(["gender", "home_course_ids", "require_group_membership"]);
+  });
+
+  it("asks for a home club when the player hasn't set one", () => {
+    const [f] = checkEntryEligibility({ home_course_ids: ["course-a"] }, player({ home_course_id: null }));
+    expect(f.message).toMatch(/home club/);
+  });
+});
+
+describe("handicapRangeOverlaps", () => {
+  it("matches events whose limits intersect the searched range", () => {
+    const scratchOnly = { max_handicap_index: 5 };
+    expect(handicapRangeOverlaps(scratchOnly, 10, 24)).toBe(false);
+    expect(handicapRangeOverlaps(scratchOnly, 0, 5)).toBe(true);
+    expect(handicapRangeOverlaps({ min_handicap_index: 18 }, null, 20)).toBe(true);
+    expect(handicapRangeOverlaps({}, 10, 24)).toBe(true);
+  });
+});
+
+describe("describeEligibility", () => {
+  it("summarises conditions for a listing card", () => {
+    expect(
+      describeEligibility({ min_handicap_index: -2, max_handicap_index: 18, gender: "female", home_course_ids: ["a"] })
+    ).toEqual(["HI +2.0–18.0", "Women", "Club members"]);
+    expect(describeEligibility({ max_handicap_index: 28 })).toEqual(["HI ≤ 28.0"]);
+  });
+});
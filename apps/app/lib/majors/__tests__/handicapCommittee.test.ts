@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyHandicapCommittee,
+  describeSteps,
+  eventMaxHandicap,
+  eventWinners,
+  isInForce,
+  parseHandicapCommitteeConfig,
+  remainingStrokes,
+  societyShift,
+  type HandicapCommitteeConfig,
+} from "@/lib/majors/handicapCommittee";
+import type { HandicapAdjustment } from "@/lib/majors/types";
+
+const adj = (over: Partial<HandicapAdjustment>): HandicapAdjustment => ({
+  id: "a1",
+  group_id: "g1",
+  profile_id: "p1",
+  kind: "manual",
+  strokes: -1,
+  decay_per_event: 0,
+  cap: null,
+  reason: "Committee",
+  source_event_id: null,
+  effective_from: "2026-01-01",
+  expires_at: null,
+  created_by: null,
+  created_at: "2026-01-01T00:00:00Z",
+  revoked_at: null,
+  revoked_by: null,
+  revoke_reason: null,
+  ...over,
+});
+
+const OFF: HandicapCommitteeConfig = { winners_cut: null, society_handicap: null };
+
+describe("parseHandicapCommitteeConfig", () => {
+  it("turns off rules that are missing or out of range", () => {
+    expect(parseHandicapCommitteeConfig(null)).toEqual(OFF);
+    expect(parseHandicapCommitteeConfig({ winners_cut: { strokes: 0 }, society_handicap: { weight_pct: 150 } })).toEqual(OFF);
+    expect(
+      parseHandicapCommitteeConfig({ winners_cut: { strokes: 2, decay_per_event: 0.5 }, society_handicap: { weight_pct: 50 } })
+    ).toEqual({ winners_cut: { strokes: 2, decay_per_event: 0.5 }, society_handicap: { weight_pct: 50, window_events: 5 } });
+  });
+});
+
+describe("isInForce", () => {
+  it("respects start, expiry and revocation", () => {
+    const a = adj({ effective_from: "2026-05-01", expires_at: "2026-06-30" });
+    expect(isInForce(a, "2026-04-30")).toBe(false);
+    expect(isInForce(a, "2026-05-01")).toBe(true);
+    expect(isInForce(a, "2026-06-30")).toBe(true);
+    expect(isInForce(a, "2026-07-01")).toBe(false);
+    expect(isInForce({ ...a, revoked_at: "2026-05-10T00:00:00Z" }, "2026-05-20")).toBe(false);
+  });
+});
+
+describe("remainingStrokes", () => {
+  it("gives a cut back per later event and stops at zero", () => {
+    const cut = adj({ kind: "winners_cut", strokes: -2, decay_per_event: 0.5 });
+    expect(remainingStrokes(cut, 0)).toBe(-2);
+    expect(remainingStrokes(cut, 2)).toBe(-1);
+    expect(remainingStrokes(cut, 10)).toBe(0);
+  });
+});
+
+describe("societyShift", () => {
+  const rule = { weight_pct: 50, window_events: 3 };
+
+  it("waits for enough results", () => {
+    expect(societyShift([-4, -2], rule)).toBeNull();
+    expect(societyShift([-4, -2, -3], null)).toBeNull();
+  });
+
+  it("weights the average over the window only", () => {
+    expect(societyShift([-4, -2, -3, 10], rule)).toBe(-1.5);
+  });
+});
+
+describe("applyHandicapCommittee", () => {
+  it("sums cuts and manual adjustments, then applies the player cap and event max", () => {
+    const input = {
+      adjustments: [
+        adj({ id: "cut", kind: "winners_cut", strokes: -2, decay_per_event: 0.5, reason: "Won Spring Medal" }),
+        adj({ id: "man", strokes: 1.5, reason: "Injury" }),
+        adj({ id: "cap1", kind: "cap", strokes: null, cap: 20, reason: "Cap 20" }),
+        adj({ id: "cap2", kind: "cap", strokes: null, cap: 18, reason: "Cap 18" }),
+      ],
+      eventsSince: { cut: 1 },
+      recentNetToPar: [],
+    };
+    const res = applyHandicapCommittee(22, "2026-05-01", input, OFF, 16);
+    // 22 − 1.5 + 1.5 = 22 → cap 18 → event max 16
+    expect(res.value).toBe(16);
+    expect(res.steps.map((s) => [s.kind, s.strokes])).toEqual([
+      ["winners_cut", -1.5],
+      ["manual", 1.5],
+      ["cap", -4],
+      ["event_max", -2],
+    ]);
+    expect(describeSteps(res.steps)).toBe("−1.5 Won Spring Medal, +1.5 Injury, −4 Cap 18, −2 Event maximum 16");
+  });
+
+  it("adds the society shift and leaves players with nothing in force untouched", () => {
+    const config = { winners_cut: null, society_handicap: { weight_pct: 50, window_events: 5 } };
+    const input = { adjustments: [adj({ expires_at: "2026-03-01" })], eventsSince: {}, recentNetToPar: [-4, -4, -4] };
+    expect(applyHandicapCommittee(12, "2026-05-01", input, config, null)).toMatchObject({ base: 12, value: 10 });
+    expect(applyHandicapCommittee(12, "2026-05-01", undefined, config, null)).toEqual({ base: 12, value: 12, steps: [] });
+  });
+});
+
+describe("eventMaxHandicap", () => {
+  it("treats blank as unset", () => {
+    expect(eventMaxHandicap({ max_handicap: "" })).toBeNull();
+    expect(eventMaxHandicap({ max_handicap: "28" })).toBe(28);
+    expect(eventMaxHandicap(null)).toBeNull();
+  });
+});
+
+describe("eventWinners", () => {
+  it("uses the playoff result when there is one", () => {
+    expect(
+      eventWinners([
+        { profile_id: "a", position: 1, playoff_result: "lost_playoff", playoff_final_position: 2 },
+        { profile_id: "b", position: 1, playoff_result: "won_playoff", playoff_final_position: 1 },
+        { profile_id: "c", position: 3 },
+      ])
+    ).toEqual(["b"]);
+    expect(eventWinners([{ profile_id: "a", position: 1 }, { profile_id: "b", position: 1 }])).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  eventHoleIndex,
+  kioskSlides,
+  rankNearestPin,
+  scoreKind,
+  visibleHighlights,
+  visibleHolesFromRows,
+  type ScoringHighlight,
+} from "@/lib/majors/kiosk";
+
+const highlight = (over: Partial<ScoringHighlight>): ScoringHighlight => ({
+  profile_id: "p1",
+  name: "Alex",
+  avatar_url: null,
+  round_id: "r1",
+  round_number: 1,
+  hole_number: 1,
+  par: 4,
+  strokes: 3,
+  kind: "birdie",
+  at: "2026-06-01T10:00:00Z",
+  feed_item_id: null,
+  ...over,
+});
+
+describe("scoreKind", () => {
+  it("names birdie or better and ignores the rest", () => {
+    expect(scoreKind(3, 4)).toBe("birdie");
+    expect(scoreKind(3, 5)).toBe("eagle");
+    expect(scoreKind(2, 5)).toBe("albatross");
+    expect(scoreKind(1, 3)).toBe("hio");
+    expect(scoreKind(4, 4)).toBeNull();
+  });
+});
+
+describe("visibleHighlights", () => {
+  it("lists the most recent first", () => {
+    const list = visibleHighlights(
+      [highlight({ hole_number: 2, at: "2026-06-01T10:00:00Z" }), highlight({ hole_number: 5, at: "2026-06-01T11:00:00Z" })],
+      null
+    );
+    expect(list.map((h) => h.hole_number)).toEqual([5, 2]);
+  });
+
+  it("keeps highlights behind the freeze to each player's shown holes", () => {
+    const visible = visibleHolesFromRows(
+      [
+        { profile_id: "p1", holes_shown: 15 },
+        { profile_id: "p2", holes_shown: 9 },
+      ],
+      true
+    );
+    const list = visibleHighlights(
+      [
+        highlight({ profile_id: "p1", hole_number: 14 }),
+        highlight({ profile_id: "p1", hole_number: 17 }),
+        highlight({ profile_id: "p2", hole_number: 12 }),
+        highlight({ profile_id: "p3", hole_number: 1 }),
+      ],
+      visible
+    );
+    expect(list.map((h) => `${h.profile_id}:${h.hole_number}`)).toEqual(["p1:14"]);
+  });
+
+  it("counts holes across rounds of a multi-round event", () => {
+    expect(eventHoleIndex(2, 3)).toBe(21);
+    const visible = new Map([["p1", 20]]);
+    expect(visibleHighlights([highlight({ round_number: 2, hole_number: 3 })], visible)).toHaveLength(0);
+  });
+
+  it("shows everything when nothing is frozen", () => {
+    expect(visibleHolesFromRows([{ profile_id: "p1", holes_shown: 3 }], false)).toBeNull();
+  });
+});
+
+describe("rankNearestPin", () => {
+  it("orders closest first and drops unrecorded distances", () => {
+    const ranked = rankNearestPin([
+      { profile_id: "a", name: "A", metric_value: 12.5 },
+      { profile_id: "b", name: "B", metric_value: null },
+      { profile_id: "c", name: "C", metric_value: 4 },
+      { profile_id: "d", name: "D", metric_value: 0 },
+    ]);
+    expect(ranked.map((e) => e.profile_id)).toEqual(["c", "a"]);
+  });
+});
+
+describe("kioskSlides", () => {
+  it("skips empty slides", () => {
+    expect(
+      kioskSlides({
+        leaderboard: null,
+        highlights: [highlight({})],
+        nearest_pins: [{ pot_id: "x", name: "NTP", description: null, entries: [] }],
+        standings: [],
+      })
+    ).toEqual(["highlights"]);
+  });
+});
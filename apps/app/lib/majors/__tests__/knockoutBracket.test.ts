@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import {
+  bracketOrder,
+  parseBracketConfig,
+  planBracket,
+  resolveBracket,
+  seedEntrants,
+  type BracketNode,
+  type PlannedFixture,
+} from "@/lib/majors/knockoutBracket";
+
+const players = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+
+/** Plan → nodes keyed by fixture key, with results applied as `{ key: winner }`. */
+function nodesFor(plan: PlannedFixture[], winners: Record<string, string> = {}): BracketNode[] {
+  const blank = plan.map<BracketNode>((f) => ({
+    id: f.key,
+    side: f.side,
+    round_number: f.round_number,
+    position: f.position,
+    status: "scheduled",
+    result_type: null,
+    winning_entry_id: null,
+    home_entry_id: null,
+    away_entry_id: null,
+    slots: f.slots,
+  }));
+  // Fill in players round by round so recorded winners have opponents.
+  let nodes = blank;
+  for (let pass = 0; pass < plan.length; pass++) {
+    const resolved = new Map(resolveBracket(nodes, { reseed: false, seedOf: {} }).map((r) => [r.id, r]));
+    nodes = nodes.map((n) => {
+      const r = resolved.get(n.id)!;
+      const winner = winners[n.id];
+      return {
+        ...n,
+        home_entry_id: r.home_entry_id,
+        away_entry_id: r.away_entry_id,
+        ...(winner && r.home_entry_id && r.away_entry_id
+          ? { status: "completed", result_type: winner === r.home_entry_id ? "home_win" : "away_win", winning_entry_id: winner }
+          : {}),
+      } as BracketNode;
+    });
+  }
+  return nodes;
+}
+
+const fixture = (nodes: BracketNode[], key: string) => {
+  const n = nodes.find((x) => x.id === key)!;
+  return [n.home_entry_id, n.away_entry_id];
+};
+
+describe("bracketOrder", () => {
+  it("keeps the top seeds apart until the final", () => {
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    expect(bracketOrder(2)).toEqual([1, 2]);
+  });
+});
+
+describe("seedEntrants", () => {
+  const field = [
+    { entry_id: "a", handicap_index: 12.4, merit_position: 3 },
+    { entry_id: "b", handicap_index: 4.1, merit_position: null },
+    { entry_id: "c", handicap_index: null, merit_position: 1 },
+    { entry_id: "d", handicap_index: 8, merit_position: null },
+  ];
+
+  it("seeds by lowest handicap index, unknown last", () => {
+    expect(seedEntrants(field, "handicap")).toEqual(["b", "d", "a", "c"]);
+  });
+
+  it("seeds by order of merit, then handicap for players off the standings", () => {
+    expect(seedEntrants(field, "order_of_merit")).toEqual(["c", "a", "b", "d"]);
+  });
+
+  it("draws randomly but reproducibly from a seed", () => {
+    expect(seedEntrants(field, "random", 7)).toEqual(seedEntrants(field, "random", 7));
+    expect([...seedEntrants(field, "random", 7)].sort()).toEqual(["a", "b", "c", "d"]);
+  });
+});
+
+describe("planBracket", () => {
+  it("pads a single knockout with byes for the top seeds", () => {
+    const plan = planBracket(players(6), "single");
+    expect(plan.filter((f) => f.round_number === 1)).toHaveLength(4);
+    expect(plan).toHaveLength(7);
+    expect(plan[0].slots).toEqual([{ type: "entry", entry_id: "p1" }, { type: "bye" }]);
+  });
+
+  it("adds a plate for first-round losers", () => {
+    const plan = planBracket(players(8), "plate");
+    const plate = plan.filter((f) => f.side === "plate");
+    expect(plate).toHaveLength(3);
+    expect(plate[0].slots).toEqual([
+      { type: "loser_of", fixture: "W1-0" },
+      { type: "loser_of", fixture: "W1-1" },
+    ]);
+  });
+
+  it("builds winners, losers and grand final for double elimination", () => {
+    const plan = planBracket(players(8), "double");
+    expect(plan.filter((f) => f.side === "winners")).toHaveLength(7);
+    // Losers: 2 + 2 + 1 + 1 fixtures over four rounds.
+    expect(plan.filter((f) => f.side === "losers").map((f) => f.round_number)).toEqual([1, 1, 2, 2, 3, 4]);
+    expect(plan.find((f) => f.side === "final")!.slots).toEqual([
+      { type: "winner_of", fixture: "W3-0" },
+      { type: "winner_of", fixture: "L4-0" },
+    ]);
+    expect(plan.find((f) => f.key === "F2-0")!.slots).toEqual([
+      { type: "winner_of", fixture: "F1-0" },
+      { type: "loser_of", fixture: "F1-0" },
+    ]);
+    // The winners-bracket final loser drops into the last losers round.
+    expect(plan.find((f) => f.key === "L4-0")!.slots[1]).toEqual({ type: "loser_of", fixture: "W3-0" });
+  });
+
+  it("falls back to a single knockout for two players", () => {
+    expect(planBracket(players(2), "double")).toHaveLength(1);
+  });
+});
+
+describe("resolveBracket", () => {
+  it("sends byes through as walkovers without a fixture being played", () => {
+    const plan = planBracket(players(3), "single");
+    const resolved = resolveBracket(nodesFor(plan), { reseed: false, seedOf: {} });
+    expect(resolved[0]).toMatchObject({
+      home_entry_id: "p1",
+      away_entry_id: null,
+      auto_result: { status: "walkover", result_type: "walkover_home", winning_entry_id: "p1" },
+    });
+    // The final already knows p1 is in it.
+    expect(resolved[2]).toMatchObject({ home_entry_id: "p1", away_entry_id: null, auto_result: null });
+  });
+
+  it("routes losers into the losers bracket and the plate", () => {
+    const wins = { "W1-0": "p1", "W1-1": "p5", "W1-2": "p2", "W1-3": "p3" };
+    const dbl = nodesFor(planBracket(players(8), "double"), wins);
+    expect(fixture(dbl, "L1-0")).toEqual(["p8", "p4"]);
+    expect(fixture(dbl, "L1-1")).toEqual(["p7", "p6"]);
+
+    const plate = nodesFor(planBracket(players(8), "plate"), wins);
+    expect(fixture(plate, "P1-0")).toEqual(["p8", "p4"]);
+  });
+
+  it("meets the winners-bracket final loser in the last losers round", () => {
+    const nodes = nodesFor(planBracket(players(4), "double"), {
+      "W1-0": "p1",
+      "W1-1": "p2",
+      "L1-0": "p3",
+      "W2-0": "p2",
+      "L2-0": "p1",
+    });
+    expect(fixture(nodes, "L2-0")).toEqual(["p3", "p1"]);
+    expect(fixture(nodes, "F1-0")).toEqual(["p2", "p1"]);
+  });
+
+  it("plays the reset final only if the losers-bracket winner takes the first", () => {
+    const toFinal = { "W1-0": "p1", "W1-1": "p2", "L1-0": "p3", "W2-0": "p2", "L2-0": "p1" };
+    const plan = planBracket(players(4), "double");
+    const reset = (wins: Record<string, string>) =>
+      resolveBracket(nodesFor(plan, { ...toFinal, ...wins }), { reseed: false, seedOf: {} }).find((r) => r.id === "F2-0");
+
+    expect(reset({})).toMatchObject({ home_entry_id: null, away_entry_id: null, auto_result: null });
+    expect(reset({ "F1-0": "p2" })).toMatchObject({ home_entry_id: null, away_entry_id: null, auto_result: { status: "cancelled" } });
+    expect(reset({ "F1-0": "p1" })).toMatchObject({ home_entry_id: "p1", away_entry_id: "p2", auto_result: null });
+  });
+
+  it("treats a double forfeit as a bye for the next round", () => {
+    const nodes = nodesFor(planBracket(players(4), "single")).map((n) =>
+      n.id === "W1-1" ? { ...n, status: "walkover", result_type: "double_withdrawal" as const } : n
+    );
+    const resolved = resolveBracket(nodes, { reseed: false, seedOf: {} });
+    expect(resolved.find((r) => r.id === "W2-0")).toMatchObject({ away_entry_id: null });
+  });
+
+  it("re-seeds the next round once the previous round is complete", () => {
+    const plan = planBracket(players(8), "single");
+    const seedOf = Object.fromEntries(players(8).map((p, i) => [p, i + 1]));
+    // Upsets: seeds 8 and 7 go through in the top half of their pairings.
+    const wins = { "W1-0": "p8", "W1-1": "p4", "W1-2": "p7", "W1-3": "p3" };
+    const nodes = nodesFor(plan, wins);
+
+    const fixed = resolveBracket(nodes, { reseed: false, seedOf });
+    expect(fixed.find((r) => r.id === "W2-0")).toMatchObject({ home_entry_id: "p8", away_entry_id: "p4" });
+
+    const reseeded = resolveBracket(nodes, { reseed: true, seedOf });
+    expect(reseeded.find((r) => r.id === "W2-0")).toMatchObject({ home_entry_id: "p3", away_entry_id: "p8" });
+    expect(reseeded.find((r) => r.id === "W2-1")).toMatchObject({ home_entry_id: "p4", away_entry_id: "p7" });
+  });
+
+  it("waits for the whole round before re-seeding", () => {
+    const plan = planBracket(players(4), "single");
+    const nodes = nodesFor(plan, { "W1-0": "p1" });
+    const resolved = resolveBracket(nodes, { reseed: true, seedOf: { p1: 1, p2: 2, p3: 3, p4: 4 } });
+    expect(resolved.find((r) => r.id === "W2-0")).toMatchObject({ home_entry_id: null, away_entry_id: null });
+  });
+});
+
+describe("parseBracketConfig", () => {
+  it("fills defaults for unknown values", () => {
+    expect(parseBracketConfig({ template: "swiss", seeding: "order_of_merit", reseed: true })).toEqual({
+      template: "single",
+      seeding: "order_of_merit",
+      reseed: true,
+    });
+  });
+});
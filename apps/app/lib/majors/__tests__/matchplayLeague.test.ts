@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LEAGUE_CONFIG,
+  computeLeagueTable,
+  deadlineAction,
+  parseLeagueConfig,
+  roundDeadline,
+  roundRobinSchedule,
+  type DeadlineFixture,
+  type LeagueConfig,
+  type LeagueResult,
+} from "@/lib/majors/matchplayLeague";
+
+const pairKey = (a: string, b: string) => [a, b].sort().join("-");
+
+describe("roundRobinSchedule", () => {
+  it("pairs everyone once with nobody playing twice in a round", () => {
+    const fixtures = roundRobinSchedule(["a", "b", "c", "d", "e", "f"]);
+    expect(fixtures).toHaveLength(15);
+    expect(new Set(fixtures.map((f) => pairKey(f.home_entry_id, f.away_entry_id))).size).toBe(15);
+    for (let round = 1; round <= 5; round++) {
+      const players = fixtures.filter((f) => f.round_number === round).flatMap((f) => [f.home_entry_id, f.away_entry_id]);
+      expect(new Set(players).size).toBe(6);
+    }
+  });
+
+  it("gives one bye a round to an odd field", () => {
+    const fixtures = roundRobinSchedule(["a", "b", "c", "d", "e"]);
+    expect(fixtures).toHaveLength(10);
+    expect(Math.max(...fixtures.map((f) => f.round_number))).toBe(5);
+    expect(fixtures.filter((f) => f.round_number === 1)).toHaveLength(2);
+  });
+
+  it("keeps home games within one of each other", () => {
+    const fixtures = roundRobinSchedule(["a", "b", "c", "d", "e", "f"]);
+    const homes = ["a", "b", "c", "d", "e", "f"].map((id) => fixtures.filter((f) => f.home_entry_id === id).length);
+    expect(Math.max(...homes) - Math.min(...homes)).toBeLessThanOrEqual(1);
+  });
+
+  it("replays the first leg with home and away swapped", () => {
+    const fixtures = roundRobinSchedule(["a", "b", "c", "d"], 2);
+    expect(fixtures).toHaveLength(12);
+    const first = fixtures.find((f) => f.round_number === 1)!;
+    expect(fixtures.find((f) => f.round_number === 4 && f.home_entry_id === first.away_entry_id)).toMatchObject({
+      away_entry_id: first.home_entry_id,
+    });
+  });
+
+  it("returns nothing for fewer than two entries", () => {
+    expect(roundRobinSchedule(["a"])).toEqual([]);
+  });
+});
+
+describe("roundDeadline", () => {
+  it("closes each round at the end of its window", () => {
+    expect(roundDeadline("2026-05-01", 1, 14)).toBe("2026-05-14T23:59:59.000Z");
+    expect(roundDeadline("2026-05-01", 3, 7)).toBe("2026-05-21T23:59:59.000Z");
+  });
+});
+
+describe("deadlineAction", () => {
+  const fixture = (over: Partial<DeadlineFixture> = {}): DeadlineFixture => ({
+    status: "scheduled",
+    deadline_at: "2026-05-14T23:59:59.000Z",
+    reminder_sent_at: null,
+    home_entry_id: "h",
+    away_entry_id: "a",
+    available_entry_ids: [],
+    ...over,
+  });
+
+  it("reminds once inside the reminder window", () => {
+    expect(deadlineAction(fixture(), new Date("2026-05-10T00:00:00Z"), 3)).toBeNull();
+    expect(deadlineAction(fixture(), new Date("2026-05-12T00:00:00Z"), 3)).toEqual({ kind: "remind" });
+    expect(
+      deadlineAction(fixture({ reminder_sent_at: "2026-05-12T00:00:00Z" }), new Date("2026-05-13T00:00:00Z"), 3)
+    ).toBeNull();
+  });
+
+  it("awards the walkover to the only available player", () => {
+    const past = new Date("2026-05-15T06:00:00Z");
+    expect(deadlineAction(fixture({ available_entry_ids: ["a"] }), past, 3)).toEqual({
+      kind: "walkover",
+      result_type: "walkover_away",
+    });
+    expect(deadlineAction(fixture({ available_entry_ids: ["h"] }), past, 3)).toMatchObject({ result_type: "walkover_home" });
+  });
+
+  it("records a double forfeit when neither or both were available", () => {
+    const past = new Date("2026-05-15T06:00:00Z");
+    expect(deadlineAction(fixture(), past, 3)).toMatchObject({ result_type: "double_withdrawal" });
+    expect(deadlineAction(fixture({ available_entry_ids: ["h", "a"] }), past, 3)).toMatchObject({
+      result_type: "double_withdrawal",
+    });
+  });
+
+  it("leaves played and undated fixtures alone", () => {
+    const past = new Date("2026-05-15T06:00:00Z");
+    expect(deadlineAction(fixture({ status: "completed" }), past, 3)).toBeNull();
+    expect(deadlineAction(fixture({ deadline_at: null }), past, 3)).toBeNull();
+  });
+});
+
+describe("computeLeagueTable", () => {
+  const result = (
+    round_number: number,
+    home: string,
+    away: string,
+    result_type: LeagueResult["result_type"],
+    margin_holes: number | null = null
+  ): LeagueResult => ({ round_number, home_entry_id: home, away_entry_id: away, result_type, margin_holes });
+
+  const config = (over: Partial<LeagueConfig> = {}): LeagueConfig => ({ ...DEFAULT_LEAGUE_CONFIG, ...over });
+
+  it("scores wins, halves and losses with the league's points", () => {
+    const table = computeLeagueTable(
+      ["a", "b", "c"],
+      [result(1, "a", "b", "home_win", 3), result(2, "b", "c", "halved"), result(3, "c", "a", "away_win", 1)],
+      config({ points_win: 3, points_half: 1 })
+    );
+    expect(table.map((r) => [r.entry_id, r.points, r.position])).toEqual([
+      ["a", 6, 1],
+      // b and c halved their game; c lost by less.
+      ["c", 1, 2],
+      ["b", 1, 3],
+    ]);
+    expect(table[0]).toMatchObject({ played: 2, won: 2, holes_for: 4, holes_against: 0 });
+  });
+
+  it("counts walkovers as a win and loss and a double forfeit as two losses", () => {
+    const table = computeLeagueTable(
+      ["a", "b", "c"],
+      [result(1, "a", "b", "walkover_away"), result(1, "b", "c", "double_withdrawal"), result(1, "a", "c", null)],
+      config()
+    );
+    const byId = Object.fromEntries(table.map((r) => [r.entry_id, r]));
+    expect(byId.b).toMatchObject({ played: 2, won: 1, lost: 1, points: 2, holes_for: 0 });
+    expect(byId.c).toMatchObject({ played: 1, lost: 1, points: 0 });
+    expect(byId.a).toMatchObject({ played: 1, lost: 1 });
+  });
+
+  it("separates players level on points by head-to-head first", () => {
+    // a and b both finish on 3; b beat a, but a won their other game by more.
+    const results = [
+      result(1, "a", "b", "away_win", 1),
+      result(2, "a", "c", "home_win", 5),
+      result(3, "b", "d", "halved"),
+      result(3, "a", "d", "halved"),
+    ];
+    const entries = ["a", "b", "c", "d"];
+    expect(computeLeagueTable(entries, results, config())[0].entry_id).toBe("b");
+    expect(computeLeagueTable(entries, results, config({ tiebreakers: ["holes_up", "head_to_head"] }))[0].entry_id).toBe("a");
+  });
+
+  it("falls back to countback from the latest round", () => {
+    // Level on points with no meeting and equal holes: c won most recently.
+    const table = computeLeagueTable(
+      ["a", "c", "x", "y"],
+      [result(1, "a", "x", "home_win", 2), result(2, "c", "y", "halved"), result(3, "c", "x", "home_win", 1), result(3, "a", "y", "halved")],
+      config({ tiebreakers: ["holes_up", "countback"] })
+    );
+    expect(table.slice(0, 2).map((r) => r.entry_id)).toEqual(["a", "c"]);
+    expect(
+      computeLeagueTable(
+        ["a", "c"],
+        [result(1, "a", "x", "home_win", 1), result(2, "c", "y", "halved"), result(3, "c", "x", "home_win", 1), result(3, "a", "y", "halved")],
+        config({ tiebreakers: ["countback"] })
+      ).map((r) => r.entry_id)
+    ).toEqual(["c", "a"]);
+  });
+
+  it("shares the position when every tiebreaker is level", () => {
+    const table = computeLeagueTable(["a", "b"], [result(1, "a", "b", "halved")], config());
+    expect(table.map((r) => r.position)).toEqual([1, 1]);
+  });
+});
+
+describe("parseLeagueConfig", () => {
+  it("fills defaults and drops unknown tiebreakers", () => {
+    expect(parseLeagueConfig(null)).toEqual(DEFAULT_LEAGUE_CONFIG);
+    expect(parseLeagueConfig({ legs: 2, points_win: 3, tiebreakers: ["countback", "coin_toss", "countback"] })).toMatchObject({
+      legs: 2,
+      points_win: 3,
+      points_half: 1,
+      tiebreakers: ["countback"],
+    });
+    expect(parseLeagueConfig({ round_days: 0, points_loss: -1 })).toMatchObject({ round_days: 14, points_loss: 0 });
+  });
+});
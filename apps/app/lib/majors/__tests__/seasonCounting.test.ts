@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCountingRule,
+  countingLimit,
+  describeCountingRule,
+  readCountingRule,
+  type SeasonCountingRule,
+  type SeasonResult,
+} from "@/lib/majors/seasonCounting";
+
+const results: SeasonResult[] = [
+  { event_id: "e1", points: 50 },
+  { event_id: "e2", points: 10 },
+  { event_id: "e3", points: 40 },
+  { event_id: "e4", points: 20 },
+];
+
+const rule = (over: Partial<SeasonCountingRule>): SeasonCountingRule => ({
+  mode: "all",
+  n: null,
+  mandatory_event_ids: [],
+  ...over,
+});
+
+describe("readCountingRule", () => {
+  it("falls back to every result counting", () => {
+    expect(readCountingRule({})).toEqual({ mode: "all", n: null, mandatory_event_ids: [] });
+    expect(readCountingRule({ counting_mode: "best_n", counting_n: null }).mode).toBe("all");
+    expect(readCountingRule({ counting_mode: "drop_worst", counting_n: 2 })).toMatchObject({ mode: "drop_worst", n: 2 });
+  });
+});
+
+describe("countingLimit", () => {
+  it("measures drop-worst against events held", () => {
+    expect(countingLimit(rule({ mode: "best_n", n: 8 }), 12)).toBe(8);
+    expect(countingLimit(rule({ mode: "drop_worst", n: 2 }), 12)).toBe(10);
+    expect(countingLimit(rule({ mode: "drop_worst", n: 2 }), 1)).toBe(0);
+    expect(countingLimit(rule({}), 12)).toBeNull();
+  });
+});
+
+describe("applyCountingRule", () => {
+  it("counts everything by default", () => {
+    expect(applyCountingRule(results, rule({}), 4)).toMatchObject({ total: 120, dropped: [], dropped_points: 0 });
+  });
+
+  it("keeps the best N results", () => {
+    const r = applyCountingRule(results, rule({ mode: "best_n", n: 2 }), 4);
+    expect(r.total).toBe(90);
+    expect(r.counted).toEqual(["e1", "e3"]);
+    expect(r.dropped.sort()).toEqual(["e2", "e4"]);
+    expect(r.dropped_points).toBe(30);
+  });
+
+  it("treats missed events as used drops", () => {
+    // Five events held, player played four: dropping two leaves three counting.
+    const r = applyCountingRule(results, rule({ mode: "drop_worst", n: 2 }), 5);
+    expect(r.total).toBe(110);
+    expect(r.dropped).toEqual(["e2"]);
+  });
+
+  it("always counts mandatory majors, even a poor one", () => {
+    const r = applyCountingRule(results, rule({ mode: "best_n", n: 2, mandatory_event_ids: ["e2"] }), 4);
+    expect(r.counted).toEqual(["e2", "e1"]);
+    expect(r.total).toBe(60);
+  });
+
+  it("counts every mandatory major when they exceed N", () => {
+    const r = applyCountingRule(results, rule({ mode: "best_n", n: 1, mandatory_event_ids: ["e2", "e4"] }), 4);
+    expect(r.counted.sort()).toEqual(["e2", "e4"]);
+    expect(r.total).toBe(30);
+  });
+});
+
+describe("describeCountingRule", () => {
+  it("summarises the rule", () => {
+    expect(describeCountingRule(rule({}))).toBe("Every result counts");
+    expect(describeCountingRule(rule({ mode: "best_n", n: 8, mandatory_event_ids: ["a", "b"] }))).toBe(
+      "Best 8 results count · 2 majors always count"
+    );
+    expect(describeCountingRule(rule({ mode: "drop_worst", n: 1 }))).toBe("Worst 1 result dropped");
+  });
+});
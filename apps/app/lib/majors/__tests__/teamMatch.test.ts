@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchPoints,
+  pairSessionMatches,
+  scoreTeamMatch,
+  teamScoreboard,
+  type MatchHole,
+  type TeamMatchInput,
+} from "@/lib/majors/teamMatch";
+
+const holes: MatchHole[] = Array.from({ length: 18 }, (_, i) => ({ hole_number: i + 1, stroke_index: i + 1 }));
+
+/** Scores keyed the way the engine expects: `${participant_id}:${hole}`. */
+const card = (pid: string, byHole: Record<number, number>) =>
+  Object.fromEntries(Object.entries(byHole).map(([h, s]) => [`${pid}:${h}`, s]));
+
+const range = (from: number, to: number, score: number) =>
+  Object.fromEntries(Array.from({ length: to - from + 1 }, (_, i) => [from + i, score]));
+
+const singles = (scores: TeamMatchInput["scores"], over: Partial<TeamMatchInput> = {}): TeamMatchInput => ({
+  format: "singles",
+  sideA: [{ participant_id: "a1", playing_handicap: 0 }],
+  sideB: [{ participant_id: "b1", playing_handicap: 0 }],
+  holes,
+  scores,
+  ...over,
+});
+
+describe("scoreTeamMatch", () => {
+  it("closes out a singles match once the lead beats the holes left", () => {
+    const scores = {
+      ...card("a1", range(1, 18, 4)),
+      ...card("b1", { ...range(1, 3, 5), ...range(4, 18, 4) }),
+    };
+    const r = scoreTeamMatch(singles(scores));
+    expect(r).toMatchObject({ winner: "a", display: "3&2", holes_played: 16, holes_remaining: 2 });
+  });
+
+  it("shows the live state before the match is decided", () => {
+    expect(scoreTeamMatch(singles({})).display).toBe("Thru 0");
+    const r = scoreTeamMatch(singles({ ...card("a1", { 1: 5, 2: 4 }), ...card("b1", { 1: 4, 2: 4 }) }));
+    expect(r).toMatchObject({ lead: -1, winner: null, display: "1 UP" });
+  });
+
+  it("takes the better net ball of each four-ball side", () => {
+    const input: TeamMatchInput = {
+      format: "fourball",
+      sideA: [
+        { participant_id: "a1", playing_handicap: 0 },
+        { participant_id: "a2", playing_handicap: 18 },
+      ],
+      sideB: [
+        { participant_id: "b1", playing_handicap: 0 },
+        { participant_id: "b2", playing_handicap: 0 },
+      ],
+      holes,
+      // a2's stroke turns a 5 into a net 4 to halve hole 1, and a 4 into a 3 to win hole 2.
+      scores: { ...card("a1", { 1: 5, 2: 5 }), ...card("a2", { 1: 5, 2: 4 }), ...card("b1", { 1: 4, 2: 4 }) },
+    };
+    expect(scoreTeamMatch(input)).toMatchObject({ lead: 1, holes_played: 2, display: "1 UP" });
+  });
+
+  it("plays foursomes off half the combined handicap unless one is stamped", () => {
+    const input: TeamMatchInput = {
+      format: "foursomes",
+      sideA: [
+        { participant_id: "a1", playing_handicap: 10 },
+        { participant_id: "a2", playing_handicap: 6 },
+      ],
+      sideB: [
+        { participant_id: "b1", playing_handicap: 0 },
+        { participant_id: "b2", playing_handicap: 0 },
+      ],
+      holes,
+      // Team A gets 8 strokes: one on SI 1, none on SI 9. Either partner's card carries the ball.
+      scores: { ...card("a2", { 1: 4, 9: 4 }), ...card("b1", { 1: 4, 9: 4 }) },
+    };
+    expect(scoreTeamMatch(input).lead).toBe(1);
+    expect(scoreTeamMatch({ ...input, sideHandicaps: { a: 0, b: 0 } }).lead).toBe(0);
+  });
+
+  it("halves a match that finishes all square", () => {
+    const scores = { ...card("a1", range(1, 18, 4)), ...card("b1", range(1, 18, 4)) };
+    expect(scoreTeamMatch(singles(scores))).toMatchObject({ winner: "halved", display: "Halved" });
+    const short = { ...card("a1", { 1: 4 }), ...card("b1", { 1: 4 }) };
+    expect(scoreTeamMatch(singles(short, { roundFinished: true })).winner).toBe("halved");
+    expect(scoreTeamMatch(singles(short)).winner).toBeNull();
+  });
+
+  it("gives a hole to the only side with a score", () => {
+    const r = scoreTeamMatch(singles({ ...card("a1", { 1: 7 }) }));
+    expect(r).toMatchObject({ lead: 1, holes_played: 1 });
+  });
+});
+
+describe("matchPoints", () => {
+  it("splits a halved match", () => {
+    expect(matchPoints("a")).toEqual({ a: 1, b: 0 });
+    expect(matchPoints("halved")).toEqual({ a: 0.5, b: 0.5 });
+    expect(matchPoints("b", 2)).toEqual({ a: 0, b: 2 });
+    expect(matchPoints(null)).toEqual({ a: 0, b: 0 });
+  });
+});
+
+describe("teamScoreboard", () => {
+  it("banks finished matches and projects live ones as they stand", () => {
+    const sb = teamScoreboard([
+      { winner: "a", points_per_match: 1 },
+      { winner: "halved", points_per_match: 1 },
+      { winner: "b", points_per_match: 1 },
+      { winner: null, points_per_match: 1, lead: 2 },
+      { winner: null, points_per_match: 1, lead: 0 },
+    ]);
+    expect(sb).toEqual({
+      a: 1.5,
+      b: 1.5,
+      total: 5,
+      to_win: 3,
+      projected: { a: 3, b: 2 },
+      clinched: null,
+    });
+  });
+
+  it("clinches once a side passes half the points", () => {
+    const won = { winner: "a" as const, points_per_match: 1 };
+    expect(teamScoreboard([won, won, { winner: null, points_per_match: 1 }, { winner: null, points_per_match: 1 }]).clinched).toBeNull();
+    expect(teamScoreboard([won, won, won, { winner: null, points_per_match: 1 }, won]).clinched).toBe("a");
+    expect(teamScoreboard([]).to_win).toBe(0);
+  });
+});
+
+describe("pairSessionMatches", () => {
+  it("pairs captains' lists in order", () => {
+    expect(pairSessionMatches("fourball", [["a1", "a2"], ["a3", "a4"]], [["b1", "b2"], ["b3", "b4"]])).toEqual({
+      matches: [
+        { side_a: ["a1", "a2"], side_b: ["b1", "b2"] },
+        { side_a: ["a3", "a4"], side_b: ["b3", "b4"] },
+      ],
+    });
+  });
+
+  it("rejects mismatched, wrongly sized or repeated pairings", () => {
+    expect(pairSessionMatches("singles", [["a1"]], [])).toHaveProperty("error");
+    expect(pairSessionMatches("foursomes", [["a1"]], [["b1", "b2"]])).toEqual({
+      error: "Foursomes need 2 players per side",
+    });
+    expect(pairSessionMatches("singles", [["a1"], ["a1"]], [["b1"], ["b2"]])).toEqual({
+      error: "A player can only play once per session",
+    });
+  });
+});
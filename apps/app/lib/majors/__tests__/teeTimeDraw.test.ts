@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  drawTeeTimes,
+  groupSizes,
+  pairingKey,
+  type DrawInput,
+  type DrawPlayer,
+} from "@/lib/majors/teeTimeDraw";
+
+const players = (n: number): DrawPlayer[] =>
+  Array.from({ length: n }, (_, i) => ({ profile_id: `p${i + 1}`, name: `P${i + 1}`, handicap_index: i * 2 }));
+
+const input = (over: Partial<DrawInput> = {}): DrawInput => ({
+  players: players(8),
+  mode: "random",
+  startTime: "2026-06-01T08:00:00.000Z",
+  intervalMinutes: 10,
+  groupSize: 4,
+  seed: 1,
+  ...over,
+});
+
+const ids = (r: ReturnType<typeof drawTeeTimes>) => r.groups.map((g) => g.players.map((p) => p.profile_id));
+
+describe("groupSizes", () => {
+  it("balances groups instead of leaving a short last group", () => {
+    expect(groupSizes(10, 4)).toEqual([4, 3, 3]);
+    expect(groupSizes(8, 4)).toEqual([4, 4]);
+    expect(groupSizes(7, 3)).toEqual([3, 2, 2]);
+    expect(groupSizes(0, 4)).toEqual([]);
+  });
+});
+
+describe("drawTeeTimes", () => {
+  it("is reproducible from its seed and times groups at the interval", () => {
+    const a = drawTeeTimes(input({ seed: 42 }));
+    expect(ids(drawTeeTimes(input({ seed: 42 })))).toEqual(ids(a));
+    expect(a.groups.map((g) => g.tee_time)).toEqual(["2026-06-01T08:00:00.000Z", "2026-06-01T08:10:00.000Z"]);
+    expect(a.groups.every((g) => g.start_hole === null)).toBe(true);
+    expect(a.groups.flatMap((g) => g.players)).toHaveLength(8);
+  });
+
+  it("orders by handicap, unknown handicaps last", () => {
+    const field = [...players(6), { profile_id: "nohi", name: null, handicap_index: null }];
+    const low = drawTeeTimes(input({ players: field, mode: "handicap_low_first", groupSize: 4 }));
+    expect(ids(low)).toEqual([["p1", "p2", "p3", "p4"], ["p5", "p6", "nohi"]]);
+    const high = drawTeeTimes(input({ players: field, mode: "handicap_high_first", groupSize: 4 }));
+    expect(ids(high)[0]).toEqual(["p6", "p5", "p4", "p3"]);
+  });
+
+  it("keeps locked players in their group across re-rolls", () => {
+    const locked = { p1: 1, p8: 1 };
+    for (const seed of [1, 2, 3, 4]) {
+      const groups = ids(drawTeeTimes(input({ seed, locked })));
+      expect(groups[1]).toEqual(expect.arrayContaining(["p1", "p8"]));
+    }
+  });
+
+  it("ignores locks into a missing group", () => {
+    const r = drawTeeTimes(input({ locked: { p1: 5 } }));
+    expect(r.groups.flatMap((g) => g.players)).toHaveLength(8);
+  });
+
+  it("avoids repeat pairings when the field allows it", () => {
+    // p1–p4 all played together last time; 8 players in two fours can split them 2/2
+    // but two pairs must repeat, and the greedy draw should find exactly that.
+    const past: Record<string, number> = {};
+    const prior = ["p1", "p2", "p3", "p4"];
+    for (let i = 0; i < prior.length; i++) {
+      for (let j = i + 1; j < prior.length; j++) past[pairingKey(prior[i], prior[j])] = 1;
+    }
+    for (const seed of [1, 7, 99]) {
+      const r = drawTeeTimes(input({ mode: "avoid_repeats", pastPairings: past, seed }));
+      expect(r.repeat_pairings).toBe(2);
+    }
+    const split = drawTeeTimes(input({ mode: "avoid_repeats", pastPairings: past, groupSize: 2 }));
+    expect(split.repeat_pairings).toBe(0);
+  });
+
+  it("sends shotgun groups off the 1st and 10th together", () => {
+    const r = drawTeeTimes(input({ players: players(12), mode: "shotgun", groupSize: 4 }));
+    expect(r.groups.map((g) => [g.tee_time.slice(11, 16), g.start_hole])).toEqual([
+      ["08:00", 1],
+      ["08:00", 10],
+      ["08:10", 1],
+    ]);
+  });
+});
@@ -0,0 +1,467 @@
+import Papa from "papaparse";
+import { parseImportDate } from "@/lib/rounds/scorecardImport";
+
+// ── Bank statement reconciliation ────────────────────────────────────────────
+// Pure parsing + matching behind the group treasurer's bank import. A bank
+// CSV or OFX export is read into lines, each credit is matched to a member by
+// the name / payment reference the bank shows, and the member's outstanding
+// player charges are suggested for it to settle. Nothing is posted here —
+// bankReconciliationData.ts writes the confirmed lines.
+//
+// CSV columns are found by header name, as the scorecard import does:
+//
+//   date        — date, transaction date, posting date, value date, ...
+//   amount      — amount, value  (or separate paid in / paid out columns)
+//   description — description, details, narrative, payee, name, ...
+//   reference   — reference, ref, payment reference, memo (optional)
+//   id          — transaction id, fitid (optional; otherwise a key is built)
+
+export const MAX_STATEMENT_LINES = 1000;
+
+/** A member match needs at least this score to be suggested. */
+export const MATCH_THRESHOLD = 0.6;
+
+export type BankLine = {
+  /**
+   * Stable identity for the line — the bank's FITID / transaction id when it
+   * has one, otherwise built from date, amount and text. What stops the same
+   * line being posted twice across overlapping statements.
+   */
+  key: string;
+  /** 1-based row (CSV) or transaction number (OFX), for messages. */
+  row: number;
+  /** YYYY-MM-DD, null when unreadable. */
+  date: string | null;
+  /** Positive = money in. */
+  amount: number;
+  description: string;
+  reference: string;
+};
+
+export type BankMember = { profile_id: string; name: string | null };
+
+export type OutstandingCharge = {
+  id: string;
+  profile_id: string;
+  name: string;
+  amount: number;
+  event_id: string;
+  event_name: string | null;
+  event_date: string | null;
+  created_at: string;
+};
+
+export type MemberMatch = {
+  profile_id: string;
+  name: string | null;
+  /** 0–1; see scoreMemberMatch. */
+  score: number;
+};
+
+export type PaymentAllocation = {
+  /** Charges the payment clears in full, in the order they'd be settled. */
+  settles: string[];
+  /** What's left after those charges — posted to the member's balance. */
+  remainder: number;
+  /**
+   * The outstanding charge the remainder goes towards (a part payment), or
+   * null when nothing is left owing and the remainder is carried as credit.
+   */
+  part_payment_towards: string | null;
+};
+
+export type BankLineSuggestion = {
+  line: BankLine;
+  /** Already posted from an earlier statement. */
+  already_imported: boolean;
+  /** Best candidates first, above a floor — may be empty. */
+  matches: MemberMatch[];
+  /** The suggested member, or null when nothing is confident or it's a tie. */
+  profile_id: string | null;
+  allocation: PaymentAllocation | null;
+};
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const DATE_HEADERS = new Set(["date", "transaction date", "posting date", "posted", "posted date", "value date", "booking date", "completed date"]);
+const AMOUNT_HEADERS = new Set(["amount", "value", "transaction amount", "amount gbp"]);
+const CREDIT_HEADERS = new Set(["paid in", "credit", "credit amount", "money in", "in", "receipts"]);
+const DEBIT_HEADERS = new Set(["paid out", "debit", "debit amount", "money out", "out", "payments"]);
+const DESCRIPTION_HEADERS = new Set(["description", "details", "narrative", "transaction description", "payee", "name", "counterparty", "counter party", "transaction details"]);
+const REFERENCE_HEADERS = new Set(["reference", "ref", "payment reference", "memo", "notes"]);
+const ID_HEADERS = new Set(["transaction id", "fitid", "id", "transaction reference number"]);
+
+type ColumnMap = {
+  date: number;
+  amount: number | null;
+  credit: number | null;
+  debit: number | null;
+  description: number;
+  reference: number | null;
+  id: number | null;
+};
+
+function normHeader(s: string): string {
+  return (s ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findColumns(header: string[]): ColumnMap | null {
+  const cols: ColumnMap = { date: -1, amount: null, credit: null, debit: null, description: -1, reference: null, id: null };
+
+  header.forEach((raw, i) => {
+    const h = normHeader(raw);
+    if (cols.date < 0 && DATE_HEADERS.has(h)) cols.date = i;
+    else if (cols.amount == null && AMOUNT_HEADERS.has(h)) cols.amount = i;
+    else if (cols.credit == null && CREDIT_HEADERS.has(h)) cols.credit = i;
+    else if (cols.debit == null && DEBIT_HEADERS.has(h)) cols.debit = i;
+    else if (cols.description < 0 && DESCRIPTION_HEADERS.has(h)) cols.description = i;
+    else if (cols.reference == null && REFERENCE_HEADERS.has(h)) cols.reference = i;
+    else if (cols.id == null && ID_HEADERS.has(h)) cols.id = i;
+  });
+
+  // A statement with only a reference column uses it as the description.
+  if (cols.description < 0 && cols.reference != null) {
+    cols.description = cols.reference;
+    cols.reference = null;
+  }
+  if (cols.date < 0 || cols.description < 0 || (cols.amount == null && cols.credit == null)) return null;
+  return cols;
+}
+
+/**
+ * Reads bank amounts: "1,234.50", "£20.00", "-15", "(15.00)" and a trailing
+ * CR / DR. Null for blanks and anything unreadable.
+ */
+export function parseBankAmount(raw: string): number | null {
+  let s = (raw ?? "").trim().toUpperCase();
+  if (!s) return null;
+  let sign = 1;
+  if (s.endsWith("DR")) {
+    sign = -1;
+    s = s.slice(0, -2);
+  } else if (s.endsWith("CR")) {
+    s = s.slice(0, -2);
+  }
+  if (/^\(.*\)$/.test(s.trim())) {
+    sign = -sign;
+    s = s.trim().slice(1, -1);
+  }
+  s = s.replace(/[£$€,\s]/g, "");
+  if (!/^[-+]?\d*\.?\d+$/.test(s)) return null;
+  const n = Number(s) * sign;
+  return Number.isFinite(n) ? Math.round(n * 100) / 100 : null;
+}
+
+function normText(s: string): string {
+  return (s ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Key for a line the bank gave no id for. Identical lines on the same day
+ * (two £10 transfers from the same person) are told apart by occurrence.
+ */
+function builtKey(date: string | null, amount: number, text: string, seen: Map<string, number>): string {
+  const base = `${date ?? "nodate"}|${amount.toFixed(2)}|${normText(text).slice(0, 80)}`;
+  const n = (seen.get(base) ?? 0) + 1;
+  seen.set(base, n);
+  return n > 1 ? `${base}|${n}` : base;
+}
+
+/**
+ * Parse a sheet (header row first, bank preamble rows allowed before it).
+ * Debits come back too, as negative amounts; callers skip them.
+ */
+export function parseBankTable(rows: string[][]): { lines: BankLine[]; errors: string[] } {
+  const headerIdx = rows.findIndex((r) => findColumns(r) != null);
+  if (headerIdx < 0) {
+    return { lines: [], errors: ["Couldn't find a header row with date, description and amount (or paid in) columns."] };
+  }
+
+  const cols = findColumns(rows[headerIdx])!;
+  const body = rows
+    .map((cells, i) => ({ cells, row: i + 1 }))
+    .slice(headerIdx + 1)
+    .filter(({ cells }) => cells.some((c) => (c ?? "").trim() !== ""));
+
+  if (body.length > MAX_STATEMENT_LINES) {
+    return { lines: [], errors: [`Too many lines in one statement (${body.length}) — export ${MAX_STATEMENT_LINES} or fewer at a time.`] };
+  }
+
+  const seen = new Map<string, number>();
+  const lines: BankLine[] = [];
+  const errors: string[] = [];
+
+  for (const { cells, row } of body) {
+    let amount: number | null = null;
+    if (cols.amount != null) amount = parseBankAmount(cells[cols.amount] ?? "");
+    if (amount == null && cols.credit != null) {
+      const credit = parseBankAmount(cells[cols.credit] ?? "");
+      if (credit != null && credit !== 0) amount = Math.abs(credit);
+    }
+    if (amount == null && cols.debit != null) {
+      const debit = parseBankAmount(cells[cols.debit] ?? "");
+      if (debit != null && debit !== 0) amount = -Math.abs(debit);
+    }
+    if (amount == null) {
+      errors.push(`Row ${row}: no readable amount`);
+      continue;
+    }
+
+    const description = (cells[cols.description] ?? "").trim();
+    const reference = cols.reference != null ? (cells[cols.reference] ?? "").trim() : "";
+    const date = parseImportDate(cells[cols.date] ?? "");
+    const id = cols.id != null ? (cells[cols.id] ?? "").trim() : "";
+
+    lines.push({
+      key: id ? `id:${id}` : builtKey(date, amount, `${description} ${reference}`, seen),
+      row,
+      date,
+      amount,
+      description,
+      reference,
+    });
+  }
+
+  return { lines, errors };
+}
+
+export function parseBankCsv(text: string): { lines: BankLine[]; errors: string[] } {
+  const parsed = Papa.parse<string[]>(text, { skipEmptyLines: false });
+  const rows = (parsed.data ?? []).map((r) => (Array.isArray(r) ? r.map((c) => String(c ?? "")) : []));
+  return parseBankTable(rows);
+}
+
+function ofxField(block: string, tag: string): string {
+  // SGML OFX leaves elements unclosed, so read up to the next tag or newline.
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return m ? m[1].trim() : "";
+}
+
+function ofxDate(raw: string): string | null {
+  const m = /^(\d{4})(\d{2})(\d{2})/.exec(raw);
+  return m ? parseImportDate(`${m[1]}-${m[2]}-${m[3]}`) : null;
+}
+
+/** OFX / QFX statements (SGML 1.x or XML 2.x): one line per STMTTRN. */
+export function parseBankOfx(text: string): { lines: BankLine[]; errors: string[] } {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((b) => b.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+  if (blocks.length === 0) return { lines: [], errors: ["No transactions found in the OFX file."] };
+  if (blocks.length > MAX_STATEMENT_LINES) {
+    return { lines: [], errors: [`Too many lines in one statement (${blocks.length}) — export ${MAX_STATEMENT_LINES} or fewer at a time.`] };
+  }
+
+  const seen = new Map<string, number>();
+  const lines: BankLine[] = [];
+  const errors: string[] = [];
+
+  blocks.forEach((block, i) => {
+    const amount = parseBankAmount(ofxField(block, "TRNAMT"));
+    if (amount == null) {
+      errors.push(`Transaction ${i + 1}: no readable amount`);
+      return;
+    }
+    const date = ofxDate(ofxField(block, "DTPOSTED"));
+    const description = ofxField(block, "NAME") || ofxField(block, "PAYEE");
+    const reference = ofxField(block, "MEMO");
+    const fitid = ofxField(block, "FITID");
+    lines.push({
+      key: fitid ? `id:${fitid}` : builtKey(date, amount, `${description} ${reference}`, seen),
+      row: i + 1,
+      date,
+      amount,
+      description,
+      reference,
+    });
+  });
+
+  return { lines, errors };
+}
+
+/** CSV or OFX, by file extension and then by content. */
+export function parseBankStatement(text: string, fileName: string): { lines: BankLine[]; errors: string[] } {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".ofx") || name.endsWith(".qfx") || /<OFX>/i.test(text)) return parseBankOfx(text);
+  return parseBankCsv(text);
+}
+
+// ── Member matching ──────────────────────────────────────────────────────────
+
+// Words banks add around the payer's name.
+const NOISE_TOKENS = new Set([
+  "fp", "fpi", "faster", "payment", "payments", "bgc", "bp", "bac", "bacs", "tfr", "trf", "transfer", "ref",
+  "from", "to", "mr", "mrs", "ms", "miss", "dr", "so", "sto", "std", "ord", "credit", "bank", "giro",
+  "mobile", "online", "received", "inward", "the", "and",
+]);
+
+function tokens(s: string): string[] {
+  return (s ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((t) => t && !NOISE_TOKENS.has(t));
+}
+
+/** Levenshtein distance, capped — only "one typo" matters here. */
+function withinOneEdit(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/**
+ * How well a bank line's text names a member, 0–1. Each word of the member's
+ * name scores 1 when the bank shows it, 0.8 for a one-letter typo (words of
+ * four letters or more) and 0.6 when a first / middle name appears only as
+ * its initial — banks often show "J SMITH" or "SMITH J". The average is
+ * halved when the surname isn't there at all, so a shared first name alone
+ * never reaches MATCH_THRESHOLD.
+ */
+export function scoreMemberMatch(text: string, memberName: string | null): number {
+  const nameTokens = tokens(memberName ?? "");
+  if (nameTokens.length === 0) return 0;
+  const textTokens = tokens(text);
+  if (textTokens.length === 0) return 0;
+
+  const scores = nameTokens.map((nt, idx): number => {
+    if (textTokens.includes(nt)) return 1;
+    if (nt.length >= 4 && textTokens.some((t) => t.length >= 4 && withinOneEdit(t, nt))) return 0.8;
+    const isSurname = idx === nameTokens.length - 1 && nameTokens.length > 1;
+    if (!isSurname && textTokens.some((t) => t.length === 1 && t === nt[0])) return 0.6;
+    return 0;
+  });
+
+  const avg = scores.reduce((s, v) => s + v, 0) / scores.length;
+  const surnameMissing = nameTokens.length > 1 && scores[scores.length - 1] === 0;
+  return Math.round((surnameMissing ? avg / 2 : avg) * 100) / 100;
+}
+
+/** Members the line could be from, best first; anything under 0.3 is left off. */
+export function matchMembers(line: Pick<BankLine, "description" | "reference">, members: BankMember[]): MemberMatch[] {
+  const text = `${line.description} ${line.reference}`;
+  return members
+    .map((m) => ({ profile_id: m.profile_id, name: m.name, score: scoreMemberMatch(text, m.name) }))
+    .filter((m) => m.score >= 0.3)
+    .sort((a, b) => b.score - a.score || (a.name ?? "").localeCompare(b.name ?? ""));
+}
+
+/** The top match when it clears the threshold and isn't tied with another member. */
+export function suggestedMember(matches: MemberMatch[]): string | null {
+  const [best, next] = matches;
+  if (!best || best.score < MATCH_THRESHOLD) return null;
+  if (next && next.score === best.score) return null;
+  return best.profile_id;
+}
+
+// ── Allocation ───────────────────────────────────────────────────────────────
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Which of a member's outstanding charges a payment settles. A charge for
+ * exactly the amount goes first; then charges whose event or charge name
+ * the bank reference mentions; then oldest first. Charges are only settled
+ * whole — a charge that doesn't fit is skipped for a smaller one behind it.
+ * Whatever is left is a part payment towards the first charge still owing,
+ * or credit on account when nothing is.
+ */
+export function suggestAllocation(amount: number, charges: OutstandingCharge[], referenceText = ""): PaymentAllocation {
+  const textTokens = new Set(tokens(referenceText));
+  const mentioned = (c: OutstandingCharge) =>
+    [...tokens(c.event_name ?? ""), ...tokens(c.name)].some((t) => t.length >= 3 && textTokens.has(t));
+  const age = (c: OutstandingCharge) => `${c.event_date ?? ""}|${c.created_at}`;
+
+  const ordered = [...charges].sort((a, b) => {
+    const exact = Number(round2(b.amount) === round2(amount)) - Number(round2(a.amount) === round2(amount));
+    if (exact) return exact;
+    const ref = Number(mentioned(b)) - Number(mentioned(a));
+    if (ref) return ref;
+    return age(a) < age(b) ? -1 : age(a) > age(b) ? 1 : 0;
+  });
+
+  let remaining = round2(amount);
+  const settles: string[] = [];
+  for (const c of ordered) {
+    if (c.amount > 0 && round2(c.amount) <= remaining) {
+      settles.push(c.id);
+      remaining = round2(remaining - c.amount);
+    }
+  }
+
+  const stillOwing = ordered.find((c) => !settles.includes(c.id));
+  return {
+    settles,
+    remainder: remaining,
+    part_payment_towards: remaining > 0 && stillOwing ? stillOwing.id : null,
+  };
+}
+
+/**
+ * Allocation for charges the treasurer picked by hand. Picked charges are
+ * settled in the order given until the money runs out; returns null when
+ * the picks add up to more than the payment.
+ */
+export function allocateChosen(amount: number, chosen: OutstandingCharge[], outstanding: OutstandingCharge[]): PaymentAllocation | null {
+  const total = round2(chosen.reduce((s, c) => s + c.amount, 0));
+  if (total > round2(amount)) return null;
+  const remainder = round2(amount - total);
+  const chosenIds = new Set(chosen.map((c) => c.id));
+  const stillOwing = [...outstanding]
+    .filter((c) => !chosenIds.has(c.id))
+    .sort((a, b) => (`${a.event_date ?? ""}|${a.created_at}` < `${b.event_date ?? ""}|${b.created_at}` ? -1 : 1))[0];
+  return {
+    settles: chosen.map((c) => c.id),
+    remainder,
+    part_payment_towards: remainder > 0 && stillOwing ? stillOwing.id : null,
+  };
+}
+
+/** One suggestion per credit on the statement; debits are left out. */
+export function reconcileStatement(
+  lines: BankLine[],
+  members: BankMember[],
+  outstanding: OutstandingCharge[],
+  importedKeys: Set<string>
+): BankLineSuggestion[] {
+  const byMember = new Map<string, OutstandingCharge[]>();
+  for (const c of outstanding) {
+    if (!byMember.has(c.profile_id)) byMember.set(c.profile_id, []);
+    byMember.get(c.profile_id)!.push(c);
+  }
+
+  return lines
+    .filter((l) => l.amount > 0)
+    .map((line) => {
+      const matches = matchMembers(line, members).slice(0, 5);
+      const profileId = suggestedMember(matches);
+      return {
+        line,
+        already_imported: importedKeys.has(line.key),
+        matches,
+        profile_id: profileId,
+        allocation: profileId
+          ? suggestAllocation(line.amount, byMember.get(profileId) ?? [], `${line.description} ${line.reference}`)
+          : null,
+      };
+    });
+}
@@ -0,0 +1,233 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { chunk } from "@/lib/stats/helpers";
+import {
+  allocateChosen,
+  reconcileStatement,
+  type BankLine,
+  type BankLineSuggestion,
+  type BankMember,
+  type OutstandingCharge,
+} from "./bankReconciliation";
+
+/** Active members of the group, with the names the bank will show. */
+export async function loadGroupMembers(groupId: string): Promise<BankMember[]> {
+  const { data, error } = await supabaseAdmin
+    .from("major_group_memberships")
+    .select("profile_id, profile:profiles!profile_id(name)")
+    .eq("group_id", groupId)
+    .eq("status", "active");
+  if (error) throw error;
+  return (data ?? []).map((m: any) => ({ profile_id: m.profile_id, name: m.profile?.name ?? null }));
+}
+
+/** Unpaid player charges across the group's events. */
+export async function loadOutstandingCharges(groupId: string): Promise<OutstandingCharge[]> {
+  const { data, error } = await supabaseAdmin
+    .from("event_player_charges")
+    .select("id, profile_id, name, amount, event_id, created_at, event:events!inner(name, event_date, group_id)")
+    .eq("event.group_id", groupId)
+    .is("payment_transaction_id", null);
+  if (error) throw error;
+  return (data ?? []).map((c: any) => ({
+    id: c.id,
+    profile_id: c.profile_id,
+    name: c.name,
+    amount: Number(c.amount),
+    event_id: c.event_id,
+    event_name: c.event?.name ?? null,
+    event_date: c.event?.event_date ?? null,
+    created_at: c.created_at,
+  }));
+}
+
+/** Current balance per member (positive = owes, negative = in credit). */
+async function loadBalances(groupId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabaseAdmin
+    .from("group_balance_transactions")
+    .select("profile_id, amount")
+    .eq("group_id", groupId);
+  if (error) throw error;
+  const out: Record<string, number> = {};
+  for (const tx of data ?? []) {
+    const pid = (tx as any).profile_id as string;
+    out[pid] = Math.round(((out[pid] ?? 0) + Number((tx as any).amount)) * 100) / 100;
+  }
+  return out;
+}
+
+async function loadImportedKeys(groupId: string, keys: string[]): Promise<Set<string>> {
+  const found = new Set<string>();
+  for (const part of chunk(keys, 200)) {
+    const { data, error } = await supabaseAdmin
+      .from("group_bank_statement_lines")
+      .select("line_key")
+      .eq("group_id", groupId)
+      .in("line_key", part);
+    if (error) throw error;
+    for (const r of data ?? []) found.add((r as any).line_key);
+  }
+  return found;
+}
+
+export type BankImportPreview = {
+  suggestions: BankLineSuggestion[];
+  members: BankMember[];
+  outstanding: OutstandingCharge[];
+  balances: Record<string, number>;
+  /** Debits and zero lines on the statement, which the import ignores. */
+  skipped_debits: number;
+};
+
+/** Everything the treasurer's review screen needs for a parsed statement. */
+export async function previewBankImport(groupId: string, lines: BankLine[]): Promise<BankImportPreview> {
+  const [members, outstanding, balances, imported] = await Promise.all([
+    loadGroupMembers(groupId),
+    loadOutstandingCharges(groupId),
+    loadBalances(groupId),
+    loadImportedKeys(groupId, lines.map((l) => l.key)),
+  ]);
+  return {
+    suggestions: reconcileStatement(lines, members, outstanding, imported),
+    members: [...members].sort((a, b) => (a.name ?? "").localeCompare(b.name ?? "")),
+    outstanding,
+    balances,
+    skipped_debits: lines.filter((l) => l.amount <= 0).length,
+  };
+}
+
+export type ConfirmedBankLine = {
+  line: BankLine;
+  profile_id: string;
+  /** The charges the treasurer ticked for this payment, in settle order. */
+  player_charge_ids: string[];
+};
+
+export type PostedBankLine = {
+  key: string;
+  status: "posted" | "already_imported" | "error";
+  transaction_ids: string[];
+  error?: string;
+};
+
+function bankText(line: BankLine): string {
+  return [line.description, line.reference].filter(Boolean).join(" / ");
+}
+
+/**
+ * Post one confirmed credit to the ledger: a payment per settled charge
+ * (linked back via payment_transaction_id, as marking it paid does) and one
+ * more for any part payment or credit on account. The statement line is
+ * claimed first so a second import of the same line stops at the unique key.
+ * Settled charges are removed from `outstanding`, so later lines in the same
+ * batch can't settle them again.
+ */
+export async function postBankLine(
+  groupId: string,
+  input: ConfirmedBankLine,
+  outstanding: OutstandingCharge[],
+  recordedBy: string
+): Promise<PostedBankLine> {
+  const { line, profile_id: profileId } = input;
+  const fail = (error: string): PostedBankLine => ({ key: line.key, status: "error", transaction_ids: [], error });
+
+  if (!(line.amount > 0)) return fail("Only money in can be posted.");
+  const memberCharges = outstanding.filter((c) => c.profile_id === profileId);
+  const byId = new Map(memberCharges.map((c) => [c.id, c]));
+  const chosen = input.player_charge_ids.map((id) => byId.get(id));
+  if (chosen.some((c) => !c)) return fail("A chosen charge is already paid or isn't this member's.");
+  const allocation = allocateChosen(line.amount, chosen as OutstandingCharge[], memberCharges);
+  if (!allocation) return fail("The chosen charges add up to more than the payment.");
+
+  const { data: claim, error: claimErr } = await supabaseAdmin
+    .from("group_bank_statement_lines")
+    .insert({
+      group_id: groupId,
+      line_key: line.key,
+      posted_on: line.date,
+      amount: line.amount,
+      description: line.description || null,
+      reference: line.reference || null,
+      profile_id: profileId,
+      imported_by: recordedBy,
+    })
+    .select("id")
+    .single();
+  if (claimErr) {
+    if (claimErr.code === "23505") return { key: line.key, status: "already_imported", transaction_ids: [] };
+    throw claimErr;
+  }
+
+  // Payments sit on the day the money arrived, not the day it was imported.
+  const createdAt = line.date ? `${line.date}T12:00:00Z` : undefined;
+  const txIds: string[] = [];
+
+  try {
+    for (const id of allocation.settles) {
+      const c = byId.get(id)!;
+      const { data: tx, error: txErr } = await supabaseAdmin
+        .from("group_balance_transactions")
+        .insert({
+          group_id: groupId,
+          profile_id: profileId,
+          event_id: c.event_id,
+          type: "payment",
+          amount: -Math.abs(c.amount),
+          note: `Bank payment — ${c.name} — ${c.event_name ?? "Event"}`,
+          recorded_by: recordedBy,
+          ...(createdAt ? { created_at: createdAt } : {}),
+        })
+        .select("id")
+        .single();
+      if (txErr || !tx) throw txErr ?? new Error("Payment transaction failed");
+      txIds.push((tx as any).id);
+
+      const { error: linkErr } = await supabaseAdmin
+        .from("event_player_charges")
+        .update({ payment_transaction_id: (tx as any).id })
+        .eq("id", id)
+        .is("payment_transaction_id", null);
+      if (linkErr) throw linkErr;
+    }
+
+    if (allocation.remainder > 0) {
+      const towards = allocation.part_payment_towards ? byId.get(allocation.part_payment_towards) : null;
+      const { data: tx, error: txErr } = await supabaseAdmin
+        .from("group_balance_transactions")
+        .insert({
+          group_id: groupId,
+          profile_id: profileId,
+          event_id: towards?.event_id ?? null,
+          type: "payment",
+          amount: -allocation.remainder,
+          note: towards
+            ? `Bank payment — part payment towards ${towards.name} — ${towards.event_name ?? "Event"} (${bankText(line)})`
+            : `Bank payment — credit on account (${bankText(line)})`,
+          recorded_by: recordedBy,
+          ...(createdAt ? { created_at: createdAt } : {}),
+        })
+        .select("id")
+        .single();
+      if (txErr || !tx) throw txErr ?? new Error("Payment transaction failed");
+      txIds.push((tx as any).id);
+    }
+  } catch (e: any) {
+    // Leave nothing half-posted: undo the payments and release the line.
+    if (txIds.length > 0) {
+      await supabaseAdmin.from("event_player_charges").update({ payment_transaction_id: null }).in("payment_transaction_id", txIds);
+      await supabaseAdmin.from("group_balance_transactions").delete().in("id", txIds);
+    }
+    await supabaseAdmin.from("group_bank_statement_lines").delete().eq("id", (claim as any).id);
+    return fail(e?.message ?? "Posting failed");
+  }
+
+  await supabaseAdmin
+    .from("group_bank_statement_lines")
+    .update({ transaction_ids: txIds })
+    .eq("id", (claim as any).id);
+
+  for (const id of allocation.settles) {
+    const i = outstanding.findIndex((c) => c.id === id);
+    if (i >= 0) outstanding.splice(i, 1);
+  }
+  return { key: line.key, status: "posted", transaction_ids: txIds };
+}
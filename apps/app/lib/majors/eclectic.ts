@@ -0,0 +1,273 @@
+/**
+ * Eclectic competition engine — a player's best score on each hole of a
+ * nominated course across every qualifying round, added up into one card.
+ * Pure: the data layer (eclecticData.ts) feeds it each round's hole scores,
+ * already mapped to the course's canonical hole numbers.
+ */
+
+import { strokesReceivedOnHole } from "@/lib/rounds/handicapUtils";
+
+export type EclecticScoring = "gross" | "net" | "stableford";
+
+/**
+ * per_hole: each round's strokes are taken on the holes they fall on.
+ * deduct_total: the card is built gross and the allowance comes off the total
+ * at the end (net only — stableford always scores per hole).
+ */
+export type EclecticHandicapMode = "per_hole" | "deduct_total";
+
+export type EclecticRules = {
+  scoring: EclecticScoring;
+  /** Percentage of each round's course handicap that applies, e.g. 75. */
+  allowance_pct: number;
+  handicap_mode: EclecticHandicapMode;
+};
+
+export type EclecticCourseHole = { hole_number: number; par: number; stroke_index: number | null };
+
+export type EclecticHoleScore = {
+  round_id: string;
+  played_at: string;
+  hole_number: number;
+  strokes: number;
+  course_handicap: number | null;
+};
+
+export type EclecticBestHole = {
+  hole_number: number;
+  par: number;
+  /** Strokes (gross/net) or stableford points, depending on the scoring. */
+  value: number;
+  gross: number;
+  round_id: string;
+  played_at: string;
+};
+
+export type EclecticImprovement = {
+  round_id: string;
+  played_at: string;
+  holes: Array<{ hole_number: number; from: number | null; to: number }>;
+  total_after: number;
+};
+
+export type EclecticCard = {
+  best: EclecticBestHole[];
+  holes_filled: number;
+  rounds_counted: number;
+  /** Strokes (lower wins) or points (higher wins). Unfilled holes count as double bogey / zero points. */
+  total: number;
+  /** Strokes against the card's par; null for stableford. */
+  to_par: number | null;
+  /** deduct_total only: the allowance taken off the gross card. */
+  deducted: number;
+  history: EclecticImprovement[];
+};
+
+export const ECLECTIC_SCORING_LABELS: Record<EclecticScoring, string> = {
+  gross: "Gross",
+  net: "Net",
+  stableford: "Stableford",
+};
+
+export function playingAllowance(courseHandicap: number | null, allowancePct: number): number {
+  if (courseHandicap == null || !Number.isFinite(courseHandicap)) return 0;
+  return Math.round((courseHandicap * allowancePct) / 100);
+}
+
+export function higherIsBetter(scoring: EclecticScoring): boolean {
+  return scoring === "stableford";
+}
+
+function deductsTotal(rules: EclecticRules): boolean {
+  return rules.scoring === "net" && rules.handicap_mode === "deduct_total";
+}
+
+function holeValue(score: EclecticHoleScore, hole: EclecticCourseHole, holeCount: number, rules: EclecticRules): number {
+  if (rules.scoring === "gross" || deductsTotal(rules)) return score.strokes;
+  const received = strokesReceivedOnHole(
+    playingAllowance(score.course_handicap, rules.allowance_pct),
+    hole.stroke_index,
+    holeCount
+  );
+  const net = score.strokes - received;
+  return rules.scoring === "net" ? net : Math.max(0, 2 - (net - hole.par));
+}
+
+function cardTotal(best: Map<number, EclecticBestHole>, holes: EclecticCourseHole[], rules: EclecticRules, deducted: number) {
+  let total = 0;
+  for (const h of holes) {
+    const b = best.get(h.hole_number);
+    if (b) total += b.value;
+    else if (rules.scoring !== "stableford") total += h.par + 2;
+  }
+  return rules.scoring === "stableford" ? total : total - deducted;
+}
+
+/**
+ * Build one player's eclectic card. Rounds are replayed in date order so the
+ * history shows when each hole improved and what the card stood at afterwards;
+ * an equal score never replaces the earlier one.
+ */
+export function buildEclectic(
+  scores: EclecticHoleScore[],
+  holes: EclecticCourseHole[],
+  rules: EclecticRules
+): EclecticCard {
+  const byHole = new Map(holes.map((h) => [h.hole_number, h]));
+  const holeCount = holes.length || 18;
+  const better = higherIsBetter(rules.scoring);
+
+  const ordered = scores
+    .filter((s) => byHole.has(s.hole_number) && Number.isFinite(s.strokes) && s.strokes > 0)
+    .sort((a, b) =>
+      a.played_at !== b.played_at ? (a.played_at < b.played_at ? -1 : 1) : a.round_id < b.round_id ? -1 : a.round_id > b.round_id ? 1 : 0
+    );
+
+  const best = new Map<number, EclecticBestHole>();
+  const history: EclecticImprovement[] = [];
+  const rounds = new Set<string>();
+  let deducted = 0;
+  let current: EclecticImprovement | null = null;
+
+  const close = () => {
+    if (current && current.holes.length > 0) {
+      current.total_after = cardTotal(best, holes, rules, deducted);
+      history.push(current);
+    }
+  };
+
+  for (const s of ordered) {
+    if (!current || current.round_id !== s.round_id) {
+      close();
+      current = { round_id: s.round_id, played_at: s.played_at, holes: [], total_after: 0 };
+      rounds.add(s.round_id);
+      // The latest round's handicap is the one deducted from the card.
+      if (deductsTotal(rules)) deducted = playingAllowance(s.course_handicap, rules.allowance_pct);
+    }
+    const hole = byHole.get(s.hole_number)!;
+    const value = holeValue(s, hole, holeCount, rules);
+    const prev = best.get(s.hole_number);
+    if (!prev || (better ? value > prev.value : value < prev.value)) {
+      best.set(s.hole_number, {
+        hole_number: s.hole_number,
+        par: hole.par,
+        value,
+        gross: s.strokes,
+        round_id: s.round_id,
+        played_at: s.played_at,
+      });
+      current.holes.push({ hole_number: s.hole_number, from: prev ? prev.value : null, to: value });
+    }
+  }
+  close();
+
+  const total = cardTotal(best, holes, rules, deducted);
+  const par = holes.reduce((sum, h) => sum + h.par, 0);
+  return {
+    best: [...best.values()].sort((a, b) => a.hole_number - b.hole_number),
+    holes_filled: best.size,
+    rounds_counted: rounds.size,
+    total,
+    to_par: rules.scoring === "stableford" ? null : total - par,
+    deducted,
+    history,
+  };
+}
+
+export type EclecticStanding<T> = T & { position: number };
+
+/**
+ * Order cards best first. Equal totals share a position (1, 1, 3); more holes
+ * filled breaks the tie only for display order.
+ */
+export function rankEclectic<T extends { card: EclecticCard }>(
+  entries: T[],
+  scoring: EclecticScoring
+): EclecticStanding<T>[] {
+  const sign = higherIsBetter(scoring) ? -1 : 1;
+  const sorted = [...entries].sort(
+    (a, b) => sign * (a.card.total - b.card.total) || b.card.holes_filled - a.card.holes_filled
+  );
+  let position = 0;
+  return sorted.map((e, i) => {
+    if (i === 0 || sorted[i - 1].card.total !== e.card.total) position = i + 1;
+    return { ...e, position };
+  });
+}
+
+/**
+ * Split a prize pot's position table over eclectic standings. Players tied on
+ * a position share the combined percentages of the places they occupy (two
+ * tied for 1st split 1st + 2nd); places nobody reached go unpaid.
+ */
+export function splitPrizeTable<T extends { position: number }>(
+  standings: T[],
+  prizeTable: { position: number; pct: number }[]
+): { entry: T; position: number; pct: number; tied: number }[] {
+  const pctAt = new Map(prizeTable.map((p) => [p.position, p.pct]));
+  const byPosition = new Map<number, T[]>();
+  for (const s of standings) {
+    const list = byPosition.get(s.position);
+    if (list) list.push(s);
+    else byPosition.set(s.position, [s]);
+  }
+  const out: { entry: T; position: number; pct: number; tied: number }[] = [];
+  for (const [position, tied] of byPosition) {
+    let combined = 0;
+    for (let p = position; p < position + tied.length; p++) combined += pctAt.get(p) ?? 0;
+    if (combined <= 0) continue;
+    for (const entry of tied) out.push({ entry, position, pct: combined / tied.length, tied: tied.length });
+  }
+  return out.sort((a, b) => a.position - b.position);
+}
+
+export type EclecticSettings = {
+  name: string;
+  scoring: EclecticScoring;
+  allowance_pct: number;
+  handicap_mode: EclecticHandicapMode;
+  event_rounds_only: boolean;
+};
+
+/**
+ * Validate eclectic settings from a request body. With `partial`, only the
+ * fields present are checked and returned (PATCH).
+ */
+export function readEclecticSettings(
+  body: Record<string, unknown>,
+  partial = false
+): { settings: Partial<EclecticSettings> } | { error: string } {
+  const settings: Partial<EclecticSettings> = {};
+  const has = (k: string) => body[k] !== undefined;
+
+  if (has("name") || !partial) {
+    const name = String(body.name ?? "").trim();
+    if (!name) return { error: "name is required." };
+    settings.name = name;
+  }
+  if (has("scoring") || !partial) {
+    const scoring = body.scoring ?? "net";
+    if (scoring !== "gross" && scoring !== "net" && scoring !== "stableford") {
+      return { error: "scoring must be gross, net or stableford." };
+    }
+    settings.scoring = scoring;
+  }
+  if (has("allowance_pct") || !partial) {
+    const pct = Number(body.allowance_pct ?? 100);
+    if (!Number.isFinite(pct) || pct < 0 || pct > 100) {
+      return { error: "allowance_pct must be between 0 and 100." };
+    }
+    settings.allowance_pct = pct;
+  }
+  if (has("handicap_mode") || !partial) {
+    const mode = body.handicap_mode ?? "per_hole";
+    if (mode !== "per_hole" && mode !== "deduct_total") {
+      return { error: "handicap_mode must be per_hole or deduct_total." };
+    }
+    settings.handicap_mode = mode;
+  }
+  if (has("event_rounds_only") || !partial) {
+    settings.event_rounds_only = body.event_rounds_only === true;
+  }
+  return { settings };
+}
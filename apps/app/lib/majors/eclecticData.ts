@@ -0,0 +1,247 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { chunk, normalizeHoleNumberForNine } from "@/lib/stats/helpers";
+import {
+  buildEclectic,
+  rankEclectic,
+  type EclecticCourseHole,
+  type EclecticHoleScore,
+  type EclecticRules,
+} from "./eclectic";
+import type { EclecticCompetition, EclecticLeaderboard } from "./types";
+
+const PAGE_SIZE = 1000;
+
+/** Read every page of a query; score events are append-only so a round can exceed one page. */
+async function fetchAllPages<T>(page: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>) {
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    const rows = (data ?? []) as T[];
+    out.push(...rows);
+    if (rows.length < PAGE_SIZE) return out;
+  }
+}
+
+export async function getEclecticCompetition(eclecticId: string): Promise<EclecticCompetition | null> {
+  const { data, error } = await supabaseAdmin
+    .from("eclectic_competitions")
+    .select("*")
+    .eq("id", eclecticId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as EclecticCompetition | null) ?? null;
+}
+
+export function eclecticRules(e: Pick<EclecticCompetition, "scoring" | "allowance_pct" | "handicap_mode">): EclecticRules {
+  return { scoring: e.scoring, allowance_pct: Number(e.allowance_pct), handicap_mode: e.handicap_mode };
+}
+
+/** The course's 18-hole layout (first full tee), falling back to whatever tee it has. */
+async function loadCourseLayout(courseId: string): Promise<EclecticCourseHole[]> {
+  const { data: tees, error: teeErr } = await supabaseAdmin
+    .from("course_tee_boxes")
+    .select("id, holes_count")
+    .eq("course_id", courseId);
+  if (teeErr) throw teeErr;
+  const teeRows = (tees ?? []) as { id: string; holes_count: number | null }[];
+  const tee = teeRows.find((t) => (t.holes_count ?? 18) >= 18) ?? teeRows[0];
+  if (!tee) return [];
+
+  const { data: holes, error: holeErr } = await supabaseAdmin
+    .from("course_tee_holes")
+    .select("hole_number, par, handicap")
+    .eq("tee_box_id", tee.id)
+    .order("hole_number", { ascending: true });
+  if (holeErr) throw holeErr;
+  return ((holes ?? []) as { hole_number: number; par: number | null; handicap: number | null }[])
+    .filter((h) => h.par != null)
+    .map((h) => ({ hole_number: h.hole_number, par: h.par as number, stroke_index: h.handicap }));
+}
+
+/**
+ * Every entrant's qualifying hole scores at the eclectic's course: finished
+ * rounds inside the season window (and accepted into a season event when the
+ * eclectic is event-rounds-only). Back-nine tees are mapped onto holes 10–18.
+ * Queried from the base tables rather than hole_scoring_source, whose
+ * DISTINCT ON makes per-course filtering slow (see lib/fantasy/profiles.ts).
+ */
+async function loadQualifyingScores(
+  eclectic: EclecticCompetition,
+  entrantIds: string[]
+): Promise<Map<string, EclecticHoleScore[]>> {
+  const byProfile = new Map<string, EclecticHoleScore[]>();
+  if (entrantIds.length === 0) return byProfile;
+
+  const { data: season, error: seasonErr } = await supabaseAdmin
+    .from("group_seasons")
+    .select("start_date, end_date")
+    .eq("id", eclectic.group_season_id)
+    .single();
+  if (seasonErr) throw seasonErr;
+  const { start_date, end_date } = season as { start_date: string; end_date: string };
+
+  let accepted: Set<string> | null = null;
+  if (eclectic.event_rounds_only) {
+    const { data: events, error: evErr } = await supabaseAdmin
+      .from("events")
+      .select("id")
+      .eq("group_season_id", eclectic.group_season_id);
+    if (evErr) throw evErr;
+    const eventIds = ((events ?? []) as { id: string }[]).map((e) => e.id);
+    accepted = new Set();
+    if (eventIds.length > 0) {
+      const { data: subs, error: subErr } = await supabaseAdmin
+        .from("event_round_submissions")
+        .select("profile_id, round_id")
+        .in("event_id", eventIds)
+        .eq("accepted", true);
+      if (subErr) throw subErr;
+      for (const s of (subs ?? []) as { profile_id: string; round_id: string }[]) {
+        accepted.add(`${s.profile_id}:${s.round_id}`);
+      }
+    }
+  }
+
+  type Part = { id: string; round_id: string; profile_id: string; tee_snapshot_id: string | null };
+  const parts: Part[] = [];
+  for (const ids of chunk(entrantIds, 100)) {
+    const { data, error } = await supabaseAdmin
+      .from("round_participants")
+      .select("id, round_id, profile_id, tee_snapshot_id")
+      .in("profile_id", ids);
+    if (error) throw error;
+    parts.push(...((data ?? []) as Part[]));
+  }
+
+  const playedAt = new Map<string, string>();
+  for (const ids of chunk([...new Set(parts.map((p) => p.round_id))], 100)) {
+    const { data, error } = await supabaseAdmin
+      .from("rounds")
+      .select("id, finished_at, started_at, created_at")
+      .in("id", ids)
+      .eq("status", "finished")
+      .eq("course_id", eclectic.course_id);
+    if (error) throw error;
+    for (const r of (data ?? []) as { id: string; finished_at: string | null; started_at: string | null; created_at: string }[]) {
+      const at = r.finished_at ?? r.started_at ?? r.created_at;
+      const day = at.slice(0, 10);
+      if (day >= start_date && day <= end_date) playedAt.set(r.id, at);
+    }
+  }
+
+  const qualifying = parts.filter(
+    (p) => playedAt.has(p.round_id) && (!accepted || accepted.has(`${p.profile_id}:${p.round_id}`))
+  );
+  if (qualifying.length === 0) return byProfile;
+  const partById = new Map(qualifying.map((p) => [p.id, p]));
+
+  const teeNames = new Map<string, string | null>();
+  for (const ids of chunk([...new Set(qualifying.map((p) => p.tee_snapshot_id).filter((t): t is string => !!t))], 100)) {
+    const { data, error } = await supabaseAdmin.from("round_tee_snapshots").select("id, name").in("id", ids);
+    if (error) throw error;
+    for (const t of (data ?? []) as { id: string; name: string | null }[]) teeNames.set(t.id, t.name);
+  }
+
+  const handicapByPart = new Map<string, number | null>();
+  // Latest score per (participant, hole) — events are fetched ascending, so the last write wins.
+  const latest = new Map<string, { participant_id: string; hole_number: number; strokes: number }>();
+  for (const ids of chunk(qualifying.map((p) => p.id), 50)) {
+    const [scores, hrr] = await Promise.all([
+      fetchAllPages<{ participant_id: string; hole_number: number; strokes: number }>((from, to) =>
+        supabaseAdmin
+          .from("round_score_events")
+          .select("participant_id, hole_number, strokes")
+          .in("participant_id", ids)
+          .not("strokes", "is", null)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      supabaseAdmin
+        .from("handicap_round_results")
+        .select("participant_id, course_handicap_used")
+        .in("participant_id", ids),
+    ]);
+    if (hrr.error) throw hrr.error;
+    for (const h of (hrr.data ?? []) as { participant_id: string; course_handicap_used: number | null }[]) {
+      handicapByPart.set(h.participant_id, h.course_handicap_used != null ? Number(h.course_handicap_used) : null);
+    }
+    for (const s of scores) latest.set(`${s.participant_id}:${s.hole_number}`, s);
+  }
+
+  for (const s of latest.values()) {
+    const part = partById.get(s.participant_id);
+    if (!part) continue;
+    const hole = normalizeHoleNumberForNine(
+      part.tee_snapshot_id ? teeNames.get(part.tee_snapshot_id) ?? null : null,
+      s.hole_number
+    );
+    if (hole == null) continue;
+    const list = byProfile.get(part.profile_id) ?? [];
+    list.push({
+      round_id: part.round_id,
+      played_at: playedAt.get(part.round_id)!,
+      hole_number: hole,
+      strokes: Number(s.strokes),
+      course_handicap: handicapByPart.get(part.id) ?? null,
+    });
+    byProfile.set(part.profile_id, list);
+  }
+  return byProfile;
+}
+
+/**
+ * The eclectic leaderboard for every active member of the season's group.
+ * Members without a qualifying round are left off.
+ */
+export async function loadEclecticLeaderboard(
+  eclectic: EclecticCompetition
+): Promise<Omit<EclecticLeaderboard, "can_manage">> {
+  const [{ data: course }, holes, { data: members, error: memErr }] = await Promise.all([
+    supabaseAdmin.from("courses").select("name").eq("id", eclectic.course_id).maybeSingle(),
+    loadCourseLayout(eclectic.course_id),
+    supabaseAdmin
+      .from("major_group_memberships")
+      .select("profile_id, profile:profiles!profile_id(id, name, avatar_url)")
+      .eq("group_id", eclectic.group_id)
+      .eq("status", "active"),
+  ]);
+  if (memErr) throw memErr;
+
+  const profiles = new Map<string, { name: string | null; avatar_url: string | null }>();
+  for (const m of (members ?? []) as any[]) {
+    const p = Array.isArray(m.profile) ? m.profile[0] : m.profile;
+    profiles.set(m.profile_id, { name: p?.name ?? null, avatar_url: p?.avatar_url ?? null });
+  }
+
+  const scores = await loadQualifyingScores(eclectic, [...profiles.keys()]);
+  const rules = eclecticRules(eclectic);
+  const cards = [...scores.entries()].map(([profile_id, list]) => ({
+    profile_id,
+    name: profiles.get(profile_id)?.name ?? null,
+    avatar_url: profiles.get(profile_id)?.avatar_url ?? null,
+    card: buildEclectic(list, holes, rules),
+  }));
+
+  return {
+    eclectic: { ...eclectic, course_name: (course as { name: string | null } | null)?.name ?? null },
+    holes,
+    rows: rankEclectic(cards.filter((c) => c.card.holes_filled > 0), eclectic.scoring),
+  };
+}
+
+/**
+ * An eclectic leaderboard re-ranked among a prize pot's enrolled players, so
+ * the pot pays its own field. Null when the eclectic no longer exists.
+ */
+export async function rankEclecticForPot(eclecticId: string, enrolledIds: string[]) {
+  const eclectic = await getEclecticCompetition(eclecticId);
+  if (!eclectic) return null;
+  const enrolled = new Set(enrolledIds);
+  const { rows } = await loadEclecticLeaderboard(eclectic);
+  return rankEclectic(
+    rows.filter((r) => enrolled.has(r.profile_id)),
+    eclectic.scoring
+  );
+}
@@ -0,0 +1,120 @@
+import type { EventEligibilityRules, EventVisibility } from "./types";
+import { formatHI } from "@/lib/rounds/handicapUtils";
+
+/**
+ * Entry eligibility for events — pure, shared by the enter / approval routes,
+ * the discovery API and the organiser's setup sheet.
+ */
+
+/** What we know about a player when they try to enter. */
+export type EntrantFacts = {
+  handicap_index: number | null;
+  gender: string | null;
+  home_course_id: string | null;
+  is_group_member: boolean;
+};
+
+export type EligibilityFailure = {
+  rule: keyof EventEligibilityRules;
+  message: string;
+};
+
+const numOrNull = (v: unknown): number | null =>
+  typeof v === "number" && Number.isFinite(v) ? v : null;
+
+/** Coerce the stored jsonb into rules, dropping anything malformed. */
+export function parseEligibilityRules(raw: unknown): EventEligibilityRules {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const rules: EventEligibilityRules = {};
+  const min = numOrNull(r.min_handicap_index);
+  const max = numOrNull(r.max_handicap_index);
+  if (min != null) rules.min_handicap_index = min;
+  if (max != null) rules.max_handicap_index = max;
+  if (r.gender === "male" || r.gender === "female") rules.gender = r.gender;
+  if (Array.isArray(r.home_course_ids)) {
+    const ids = r.home_course_ids.filter((id): id is string => typeof id === "string" && !!id);
+    if (ids.length) rules.home_course_ids = ids;
+  }
+  if (r.require_group_membership === true) rules.require_group_membership = true;
+  return rules;
+}
+
+/**
+ * Group events are always members-only. Public events are open to anyone
+ * unless the organiser keeps membership as a condition.
+ */
+export function requiresGroupMembership(event: {
+  group_id: string | null;
+  visibility?: EventVisibility | null;
+  eligibility_rules?: unknown;
+}): boolean {
+  if (!event.group_id) return false;
+  if (event.visibility !== "public") return true;
+  return parseEligibilityRules(event.eligibility_rules).require_group_membership === true;
+}
+
+/** Every rule the entrant fails; empty means eligible. */
+export function checkEntryEligibility(
+  rules: EventEligibilityRules,
+  facts: EntrantFacts,
+  opts: { membershipRequired?: boolean } = {}
+): EligibilityFailure[] {
+  const failures: EligibilityFailure[] = [];
+  const hi = facts.handicap_index;
+  const { min_handicap_index: min, max_handicap_index: max } = rules;
+
+  if (min != null || max != null) {
+    if (hi == null) {
+      failures.push({ rule: min != null ? "min_handicap_index" : "max_handicap_index", message: "A handicap index is required" });
+    } else if (min != null && hi < min) {
+      failures.push({ rule: "min_handicap_index", message: `Handicap index must be at least ${formatHI(min)}` });
+    } else if (max != null && hi > max) {
+      failures.push({ rule: "max_handicap_index", message: `Handicap index must be ${formatHI(max)} or lower` });
+    }
+  }
+
+  if (rules.gender && facts.gender !== rules.gender) {
+    failures.push({ rule: "gender", message: rules.gender === "male" ? "Open to men only" : "Open to women only" });
+  }
+
+  if (rules.home_course_ids?.length) {
+    if (!facts.home_course_id) {
+      failures.push({ rule: "home_course_ids", message: "Set your home club on your profile to enter" });
+    } else if (!rules.home_course_ids.includes(facts.home_course_id)) {
+      failures.push({ rule: "home_course_ids", message: "Restricted to members of the host club" });
+    }
+  }
+
+  if ((opts.membershipRequired ?? rules.require_group_membership) && !facts.is_group_member) {
+    failures.push({ rule: "require_group_membership", message: "You must be a group member to enter this event" });
+  }
+
+  return failures;
+}
+
+/**
+ * Whether the event's handicap limits overlap the searched range — used by
+ * discovery so a 24-handicapper isn't shown a scratch-only event.
+ */
+export function handicapRangeOverlaps(
+  rules: EventEligibilityRules,
+  searchMin: number | null,
+  searchMax: number | null
+): boolean {
+  const lo = rules.min_handicap_index ?? -Infinity;
+  const hi = rules.max_handicap_index ?? Infinity;
+  return (searchMax == null || lo <= searchMax) && (searchMin == null || hi >= searchMin);
+}
+
+/** Short human-readable conditions, e.g. for a discovery card. */
+export function describeEligibility(rules: EventEligibilityRules): string[] {
+  const out: string[] = [];
+  const { min_handicap_index: min, max_handicap_index: max } = rules;
+  if (min != null && max != null) out.push(`HI ${formatHI(min)}–${formatHI(max)}`);
+  else if (max != null) out.push(`HI ≤ ${formatHI(max)}`);
+  else if (min != null) out.push(`HI ≥ ${formatHI(min)}`);
+  if (rules.gender) out.push(rules.gender === "male" ? "Men" : "Women");
+  if (rules.home_course_ids?.length) out.push("Club members");
+  if (rules.require_group_membership) out.push("Group members");
+  return out;
+}
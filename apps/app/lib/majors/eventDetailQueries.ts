@@ -177,11 +177,12 @@ export async function getEventFixtures(
       .from("matchplay_fixtures")
       .select(`
         *,
-        home_entry:event_entries!home_entry_id(id, profile_id, profile:profiles(id, name, avatar_url)),
-        away_entry:event_entries!away_entry_id(id, profile_id, profile:profiles(id, name, avatar_url))
+        home_entry:event_entries!home_entry_id(id, profile_id, seed, profile:profiles(id, name, avatar_url)),
+        away_entry:event_entries!away_entry_id(id, profile_id, seed, profile:profiles(id, name, avatar_url))
       `)
       .eq("event_id", eventId)
-      .order("round_number", { ascending: true }),
+      .order("round_number", { ascending: true })
+      .order("bracket_position", { ascending: true }),
   ]);
 
   if (stagesResult.error) throw stagesResult.error;
@@ -0,0 +1,337 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  checkEntryEligibility,
+  parseEligibilityRules,
+  requiresGroupMembership,
+  type EligibilityFailure,
+  type EntrantFacts,
+} from "./eligibility";
+import type { EventAuditActionType, EventEntryRequest } from "./types";
+
+/**
+ * Server-side event entry: eligibility facts, the audit trail, and creating
+ * the entry with its charges and pots. Shared by POST /enter (direct entry)
+ * and the organiser's approval of an entry request.
+ */
+
+export type EntryOptions = EventEntryRequest["options"];
+
+/** True if `profileId` may manage this event (group owner/admin, or the creator
+ *  of a non-group event). Mirrors the tee-times route + client isAdminOrOwner. */
+export async function isEventAdmin(event: any, profileId: string): Promise<boolean> {
+  if (event.group_id) {
+    const { data: membership } = await supabaseAdmin
+      .from("major_group_memberships")
+      .select("role")
+      .eq("group_id", event.group_id)
+      .eq("profile_id", profileId)
+      .eq("status", "active")
+      .maybeSingle();
+    return !!membership && ["owner", "admin"].includes((membership as any).role);
+  }
+  return event.created_by_profile_id === profileId;
+}
+
+export async function loadEntrantFacts(event: any, profileId: string): Promise<EntrantFacts> {
+  const [{ data: hiData }, { data: profile }, { data: membership }] = await Promise.all([
+    supabaseAdmin.rpc("ciaga_current_true_hi", { p_profile_id: profileId }),
+    supabaseAdmin.from("profiles").select("gender, home_course_id").eq("id", profileId).maybeSingle(),
+    event.group_id
+      ? supabaseAdmin
+          .from("major_group_memberships")
+          .select("status")
+          .eq("group_id", event.group_id)
+          .eq("profile_id", profileId)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+  return {
+    handicap_index: typeof hiData === "number" ? hiData : null,
+    gender: (profile as any)?.gender ?? null,
+    home_course_id: (profile as any)?.home_course_id ?? null,
+    is_group_member: (membership as any)?.status === "active",
+  };
+}
+
+/** Facts + every rule the player fails (membership included where it applies). */
+export async function evaluateEntryEligibility(
+  event: any,
+  profileId: string
+): Promise<{ facts: EntrantFacts; failures: EligibilityFailure[] }> {
+  const facts = await loadEntrantFacts(event, profileId);
+  const failures = checkEntryEligibility(parseEligibilityRules(event.eligibility_rules), facts, {
+    membershipRequired: requiresGroupMembership(event),
+  });
+  return { facts, failures };
+}
+
+/** Best-effort audit row — a failed insert must not fail the entry itself. */
+export async function recordEntryAudit(
+  eventId: string,
+  actorProfileId: string,
+  actionType: EventAuditActionType,
+  payload: Record<string, unknown>
+): Promise<void> {
+  await supabaseAdmin
+    .from("event_audit_log")
+    .insert({ event_id: eventId, actor_profile_id: actorProfileId, action_type: actionType, payload })
+    .then(() => {}, () => {});
+}
+
+/** True when the event has a cap and it has been reached. */
+export async function isEventFull(event: any): Promise<boolean> {
+  const maxEntries = event.max_entries as number | null;
+  if (maxEntries == null) return false;
+  const { count } = await supabaseAdmin
+    .from("event_entries")
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", event.id);
+  return (count ?? 0) >= maxEntries;
+}
+
+/** Assign a single charge to a player, creating the debit transaction. Skips if already assigned. */
+async function assignChargeToPlayer(
+  charge: any,
+  profileId: string,
+  groupId: string,
+  eventId: string,
+  recordedBy: string
+) {
+  const { data: existing } = await supabaseAdmin
+    .from("event_player_charges")
+    .select("id")
+    .eq("charge_id", charge.id)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+  if (existing) return;
+
+  const txType = charge.category === "green_fee" ? "green_fee" : "extra_charge";
+  const { data: tx } = await supabaseAdmin
+    .from("group_balance_transactions")
+    .insert({
+      group_id: groupId,
+      profile_id: profileId,
+      event_id: eventId,
+      type: txType,
+      amount: charge.amount,
+      note: charge.name,
+      recorded_by: recordedBy,
+    })
+    .select("id")
+    .single();
+
+  await supabaseAdmin.from("event_player_charges").insert({
+    event_id: eventId,
+    charge_id: charge.id,
+    profile_id: profileId,
+    name: charge.name,
+    amount: charge.amount,
+    category: charge.category,
+    charge_transaction_id: tx ? (tx as any).id : null,
+    created_by: recordedBy,
+  });
+}
+
+/** Enroll a single player in a prize pot. Skips if already enrolled or pot is distributed. */
+async function enrollPlayerInPot(
+  pot: any,
+  profileId: string,
+  eventId: string | null,
+  recordedBy: string
+) {
+  if (pot.status === "distributed") return;
+
+  const { data: existing } = await supabaseAdmin
+    .from("prize_pot_entries")
+    .select("id")
+    .eq("prize_pot_id", pot.id)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+  if (existing) return;
+
+  const entryFee: number = pot.entry_fee_amount ?? 0;
+  let txId: string | null = null;
+
+  if (entryFee > 0) {
+    const { data: tx } = await supabaseAdmin
+      .from("group_balance_transactions")
+      .insert({
+        group_id: pot.group_id,
+        profile_id: profileId,
+        event_id: eventId,
+        type: "entry_fee",
+        amount: entryFee,
+        note: `Entry fee: ${pot.name}`,
+        recorded_by: recordedBy,
+      })
+      .select("id")
+      .single();
+    txId = tx ? (tx as any).id : null;
+  }
+
+  await supabaseAdmin.from("prize_pot_entries").insert({
+    prize_pot_id: pot.id,
+    profile_id: profileId,
+    amount_contributed: entryFee,
+    transaction_id: txId,
+  });
+}
+
+/**
+ * Create the event_entries row, snapshotting the handicap index, then apply
+ * the entry fee, mandatory + selected charges and pots, and clear any invite
+ * or waitlist offer. `recordedBy` is the player for a direct entry and the
+ * approving organiser for a request.
+ */
+export async function createEventEntry({
+  event,
+  profileId,
+  handicapIndex,
+  recordedBy,
+  options = {},
+}: {
+  event: any;
+  profileId: string;
+  handicapIndex: number | null;
+  recordedBy: string;
+  options?: EntryOptions;
+}) {
+  const id = event.id as string;
+  const {
+    optional_charge_ids = [],
+    optional_pot_ids = [],
+    optional_group_charge_ids = [],
+  } = options;
+
+  // ── Create entry ──────────────────────────────────────────────────────────
+  const { data: entry, error } = await supabaseAdmin
+    .from("event_entries")
+    .insert({
+      event_id: id,
+      profile_id: profileId,
+      assigned_handicap_index: handicapIndex ?? 0,
+      source: "manual",
+      locked: false,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  // Clear any pending invitation now that the player has entered, so the
+  // "event invites" banner stops showing this event.
+  await supabaseAdmin
+    .from("event_invitations")
+    .delete()
+    .eq("event_id", id)
+    .eq("profile_id", profileId);
+
+  // ── Auto-charge event entry fee (legacy field) ────────────────────────────
+  const entryFee = event.entry_fee_amount as number | null;
+  if (entryFee && entryFee > 0 && event.group_id) {
+    await supabaseAdmin.from("group_balance_transactions").insert({
+      group_id: event.group_id,
+      profile_id: profileId,
+      event_id: id,
+      type: "entry_fee",
+      amount: entryFee,
+      note: `Entry fee — ${event.name}`,
+    });
+  }
+
+  // ── Auto-assign mandatory event charges ───────────────────────────────────
+  if (event.group_id) {
+    const { data: allCharges } = await supabaseAdmin
+      .from("event_charges")
+      .select("*")
+      .eq("event_id", id);
+
+    const mandatoryCharges = (allCharges ?? []).filter((c: any) => c.is_mandatory);
+    const optionalCharges = (allCharges ?? []).filter(
+      (c: any) => !c.is_mandatory && optional_charge_ids.includes(c.id)
+    );
+
+    for (const charge of [...mandatoryCharges, ...optionalCharges]) {
+      await assignChargeToPlayer(charge, profileId, event.group_id, id, recordedBy);
+    }
+
+    // ── Auto-enroll in mandatory/selected event prize pots ─────────────────
+    const { data: eventPots } = await supabaseAdmin
+      .from("prize_pots")
+      .select("*")
+      .eq("event_id", id)
+      .in("status", ["active", "locked"]);
+
+    const mandatoryEventPots = (eventPots ?? []).filter((p: any) => p.is_mandatory);
+    const optionalEventPots = (eventPots ?? []).filter(
+      (p: any) => !p.is_mandatory && optional_pot_ids.includes(p.id)
+    );
+
+    for (const pot of [...mandatoryEventPots, ...optionalEventPots]) {
+      await enrollPlayerInPot(pot, profileId, id, recordedBy);
+    }
+
+    // ── Auto-enroll in mandatory/selected season prize pots ────────────────
+    const seasonFilters: string[] = [];
+    if (event.season_id) {
+      seasonFilters.push(`competition_season_id.eq.${event.season_id}`);
+    }
+    if (event.group_season_id) {
+      seasonFilters.push(`group_season_id.eq.${event.group_season_id}`);
+    }
+
+    if (seasonFilters.length > 0) {
+      const { data: seasonPots } = await supabaseAdmin
+        .from("prize_pots")
+        .select("*")
+        .eq("group_id", event.group_id)
+        .in("status", ["active", "locked"])
+        .or(seasonFilters.join(","));
+
+      const mandatorySeasonPots = (seasonPots ?? []).filter((p: any) => p.is_mandatory);
+      const optionalSeasonPots = (seasonPots ?? []).filter(
+        (p: any) => !p.is_mandatory && optional_pot_ids.includes(p.id)
+      );
+
+      for (const pot of [...mandatorySeasonPots, ...optionalSeasonPots]) {
+        await enrollPlayerInPot(pot, profileId, id, recordedBy);
+      }
+    }
+
+    // ── Apply mandatory/selected group-level charges ───────────────────────
+    const { data: allGroupCharges } = await supabaseAdmin
+      .from("group_charges")
+      .select("*")
+      .eq("group_id", event.group_id)
+      .eq("is_active", true);
+
+    const mandatoryGroupCharges = (allGroupCharges ?? []).filter((c: any) => c.is_mandatory);
+    const optionalGroupCharges = (allGroupCharges ?? []).filter(
+      (c: any) => !c.is_mandatory && optional_group_charge_ids.includes(c.id)
+    );
+
+    for (const gc of [...mandatoryGroupCharges, ...optionalGroupCharges]) {
+      await supabaseAdmin.from("group_balance_transactions").insert({
+        group_id: event.group_id,
+        profile_id: profileId,
+        event_id: id,
+        type: "extra_charge",
+        amount: gc.amount,
+        note: gc.name,
+        recorded_by: recordedBy,
+      });
+    }
+  }
+
+  // ── Mark as joined if was on waitlist with 'offered' status ──────────────
+  if (event.waitlist_enabled) {
+    await supabaseAdmin
+      .from("event_waitlist")
+      .update({ status: "joined", joined_at: new Date().toISOString() })
+      .eq("event_id", id)
+      .eq("profile_id", profileId)
+      .eq("status", "offered");
+  }
+
+  return entry;
+}
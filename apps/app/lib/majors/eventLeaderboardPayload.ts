@@ -7,6 +7,7 @@ import {
 } from "@/lib/majors/queries";
 import type { FrozenLeaderboardEntry, EventPlayoff } from "@/lib/majors/types";
 import { computeFormulaPoints, FEDEX_POINTS } from "@/lib/events/constants";
+import { loadAppliedAdjustments } from "@/lib/majors/handicapCommitteeData";
 
 /**
  * The event branch of GET /api/majors/leaderboard, lifted out verbatim so the
@@ -16,11 +17,12 @@ import { computeFormulaPoints, FEDEX_POINTS } from "@/lib/events/constants";
  * This is spoiler-sensitive: it applies the leaderboard freeze/reveal rules,
  * which hide late holes from everyone except the configured scope. It is
  * viewer-dependent for exactly that reason — `profileId` decides `my_role`.
- * Callers MUST pass the authenticated viewer, never a caller-supplied id.
+ * Callers MUST pass the authenticated viewer, never a caller-supplied id, or
+ * null for an anonymous clubhouse display, which gets no role.
  *
  * Returns null when the event does not exist (the route turns that into a 404).
  */
-export async function getEventLeaderboardPayload(eventId: string, profileId: string) {
+export async function getEventLeaderboardPayload(eventId: string, profileId: string | null) {
   const event = await getEventById(eventId);
   if (!event) return null;
 
@@ -45,7 +47,7 @@ export async function getEventLeaderboardPayload(eventId: string, profileId: str
   };
 
   let myRole: string | null = null;
-  if ((event as any).group_id) {
+  if (profileId && (event as any).group_id) {
     const { data: mem } = await supabaseAdmin
       .from("major_group_memberships")
       .select("role")
@@ -54,7 +56,7 @@ export async function getEventLeaderboardPayload(eventId: string, profileId: str
       .eq("status", "active")
       .maybeSingle();
     myRole = (mem as any)?.role ?? null;
-  } else if ((event as any).created_by_profile_id === profileId) {
+  } else if (profileId && (event as any).created_by_profile_id === profileId) {
     myRole = "owner";
   }
 
@@ -70,6 +72,9 @@ export async function getEventLeaderboardPayload(eventId: string, profileId: str
   .maybeSingle();
   const activePlayoff = playoffData as EventPlayoff | null;
 
+  // Handicap committee changes applied at round start, shown beside the name.
+  const handicapAdjustments = (event as any).group_id ? await loadAppliedAdjustments(eventId) : {};
+
   if (isFrozen) {
   const threshold = freezeConfig.total_holes - (freezeConfig.freeze_last_holes as number);
   const scoringModel = (event as any).scoring_model ?? "net";
@@ -99,6 +104,7 @@ export async function getEventLeaderboardPayload(eventId: string, profileId: str
       tied_count: positionCounts[r.position ?? -1] ?? 1,
       playoff_result: (r as any).playoff_result ?? entryMap[r.profile_id]?.playoff_result ?? null,
       playoff_final_position: (r as any).playoff_final_position ?? entryMap[r.profile_id]?.playoff_final_position ?? null,
+      handicap_adjustment: handicapAdjustments[r.profile_id] ?? null,
     })),
     ...pendingParticipants.map((p) => ({
       profile_id: p.profile_id,
@@ -172,6 +178,7 @@ export async function getEventLeaderboardPayload(eventId: string, profileId: str
     round_id: submissionMap[r.profile_id] ?? null,
     tee_time: null as string | null,
     tied_count: finalPositionCounts[(r as any).position ?? -1] ?? 1,
+    handicap_adjustment: handicapAdjustments[r.profile_id] ?? null,
   })),
   ...pendingParticipants.map((p) => ({
     profile_id: p.profile_id,
@@ -0,0 +1,312 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createNotificationsForMany } from "@/lib/notifications/notify";
+import { roundFormatForEventType } from "@/lib/majors/labels";
+
+export type TeeTimePlayerInput = {
+  profile_id?: string;
+  is_guest?: boolean;
+  display_name?: string;
+  charge_to?: string | null;
+  tee_box_id?: string | null;
+};
+
+/**
+ * Resolve which event round a tee time belongs to. An explicit id wins
+ * (multi-round events); single-round events auto-link to their only round.
+ */
+export async function resolveEventRound(
+  eventId: string,
+  requestedId: string | null
+): Promise<{
+  eventRoundId: string | null;
+  eventRoundLabel: string | null;
+  defaultTees: { male: string | null; female: string | null };
+}> {
+  let eventRoundId: string | null = requestedId;
+  let row: any = null;
+  if (!eventRoundId) {
+    const { data: rounds } = await supabaseAdmin
+      .from("event_rounds")
+      .select("id, round_number, name, default_tee_box_id_male, default_tee_box_id_female")
+      .eq("event_id", eventId)
+      .order("round_number", { ascending: true });
+    if (rounds && rounds.length === 1) {
+      row = rounds[0];
+      eventRoundId = row.id;
+    }
+  } else {
+    const { data: er } = await supabaseAdmin
+      .from("event_rounds")
+      .select("round_number, name, default_tee_box_id_male, default_tee_box_id_female")
+      .eq("id", eventRoundId)
+      .maybeSingle();
+    row = er;
+  }
+  return {
+    eventRoundId,
+    eventRoundLabel: row ? row.name ?? `Round ${row.round_number}` : null,
+    defaultTees: {
+      male: row?.default_tee_box_id_male ?? null,
+      female: row?.default_tee_box_id_female ?? null,
+    },
+  };
+}
+
+/**
+ * Create one event tee time: a scheduled, setup-locked round with its
+ * participants, the event_tee_times row, guest fee charges, and
+ * tee_time_assigned notifications. Players already in another tee time for the
+ * same event round are moved. Shared by POST /tee-times and the draw publisher,
+ * which passes `announce: false` and calls announceEventTeeTime once every group
+ * has saved, so a rolled-back draw charges and notifies no one.
+ */
+export async function createEventTeeTime({
+  event,
+  profileId,
+  teeTime,
+  groupNumber = null,
+  notes = null,
+  startHole = null,
+  eventRoundId,
+  eventRoundLabel,
+  players: playerList,
+  announce = true,
+}: {
+  event: any;
+  /** The organiser creating it. */
+  profileId: string;
+  teeTime: string;
+  groupNumber?: number | null;
+  notes?: string | null;
+  /** 1 or 10 on a two-tee start; null = the 1st. */
+  startHole?: number | null;
+  eventRoundId: string | null;
+  eventRoundLabel: string | null;
+  players: TeeTimePlayerInput[];
+  /** Charge guest fees and notify the players now (default). */
+  announce?: boolean;
+}) {
+  const id = event.id as string;
+
+  // Ensure no player is already assigned to a tee time in this event (per round).
+  // Only check/move players who are explicitly in the player list — don't pull the creating
+  // admin out of their own tee time when they're just organising a group for other players.
+  const nonGuestProfileIds = playerList
+    .filter((p) => !p.is_guest && p.profile_id)
+    .map((p) => p.profile_id as string);
+  const checkProfileIds = nonGuestProfileIds;
+
+  let existingTTQuery = supabaseAdmin
+    .from("event_tee_times")
+    .select("round_id")
+    .eq("event_id", id);
+  if (eventRoundId) {
+    existingTTQuery = existingTTQuery.eq("event_round_id", eventRoundId);
+  }
+  const { data: existingTTs } = await existingTTQuery;
+  const existingRoundIds = (existingTTs ?? []).map((t) => t.round_id).filter(Boolean) as string[];
+
+  if (existingRoundIds.length > 0 && checkProfileIds.length > 0) {
+    const { data: conflicts } = await supabaseAdmin
+      .from("round_participants")
+      .select("profile_id")
+      .in("round_id", existingRoundIds)
+      .in("profile_id", checkProfileIds);
+    if (conflicts && conflicts.length > 0) {
+      // Remove conflicting players from their current tee times so they can be moved
+      const conflictingIds = conflicts.map((c: any) => c.profile_id);
+      await supabaseAdmin
+        .from("round_participants")
+        .delete()
+        .in("round_id", existingRoundIds)
+        .in("profile_id", conflictingIds);
+    }
+  }
+
+  // Derive round format and handicap settings from the event
+  const formatType = roundFormatForEventType(event.event_type);
+
+  const handicapRules = (event.handicap_rules ?? {}) as Record<string, unknown>;
+  const handicapMode = (handicapRules.mode as string) ?? "allowance_pct";
+  const handicapValue =
+    (handicapMode === "allowance_pct" || handicapMode === "compare_against_lowest")
+      ? (typeof handicapRules.allowance_pct === "number" ? handicapRules.allowance_pct : 100)
+      : 0;
+
+  // Create the scheduled round — locked by default so participants see read-only setup + Start Match
+  const { data: round, error: roundErr } = await supabaseAdmin
+    .from("rounds")
+    .insert({
+      created_by: profileId,
+      status: "scheduled",
+      scheduled_at: teeTime,
+      course_id: event.course_id ?? null,
+      name: eventRoundLabel ? `${event.name} · ${eventRoundLabel}` : event.name,
+      visibility: "private",
+      format_type: formatType,
+      default_playing_handicap_mode: handicapMode,
+      default_playing_handicap_value: handicapValue,
+      side_games: Array.isArray(event.side_games) ? event.side_games : [],
+      setup_locked: true,
+    })
+    .select("id")
+    .single();
+
+  if (roundErr) throw roundErr;
+
+  // Build participant inserts. The admin/creator is only added if they're in the explicit
+  // player list — otherwise they're just the organiser and the round's created_by is enough
+  // for management (rounds are setup_locked so any participant can start them).
+  const adminInPlayerList = nonGuestProfileIds.includes(profileId);
+  const participantInserts: any[] = [];
+
+  if (adminInPlayerList) {
+    participantInserts.push({
+      round_id: round.id,
+      profile_id: profileId,
+      role: "owner",
+      is_guest: false,
+      pending_tee_box_id:
+        playerList.find((p) => p.profile_id === profileId)?.tee_box_id ?? null,
+    });
+  }
+
+  for (const player of playerList) {
+    if (player.profile_id === profileId) continue;
+    participantInserts.push({
+      round_id: round.id,
+      profile_id: player.profile_id ?? null,
+      is_guest: player.is_guest ?? false,
+      display_name: player.display_name ?? null,
+      role: "player",
+      pending_tee_box_id: player.tee_box_id ?? null,
+    });
+  }
+
+  if (participantInserts.length > 0) {
+    const { error: participantErr } = await supabaseAdmin
+      .from("round_participants")
+      .insert(participantInserts);
+    if (participantErr) {
+      await supabaseAdmin.from("rounds").delete().eq("id", round.id);
+      throw participantErr;
+    }
+  }
+
+  // Set the round's default tee box from the first player with an assigned tee
+  const defaultTeeBoxId = playerList.find((p) => p.tee_box_id)?.tee_box_id ?? null;
+  if (defaultTeeBoxId) {
+    await supabaseAdmin
+      .from("rounds")
+      .update({ pending_tee_box_id: defaultTeeBoxId })
+      .eq("id", round.id);
+  }
+
+  // Create the tee time record, linking it to the event round it belongs to
+  const { data: teeTimeRow, error: ttErr } = await supabaseAdmin
+    .from("event_tee_times")
+    .insert({
+      event_id: id,
+      round_id: round.id,
+      tee_time: teeTime,
+      group_number: groupNumber,
+      notes,
+      start_hole: startHole,
+      created_by: profileId,
+      event_round_id: eventRoundId,
+    })
+    .select("*")
+    .single();
+
+  if (ttErr) {
+    await supabaseAdmin.from("rounds").delete().eq("id", round.id);
+    throw ttErr;
+  }
+
+  // Back-link the round to this tee time so the rounds page can identify it.
+  // Non-critical: all leaderboard queries use ett.round_id (the reliable direction).
+  const { error: backLinkErr } = await supabaseAdmin
+    .from("rounds")
+    .update({ event_tee_time_id: teeTimeRow.id })
+    .eq("id", round.id);
+  if (backLinkErr) console.error("[tee-times] back-link update failed:", backLinkErr);
+
+  if (announce) {
+    await announceEventTeeTime({ event, profileId, teeTime, groupNumber, roundId: round.id, players: playerList });
+  }
+
+  return teeTimeRow;
+}
+
+/**
+ * The side effects of a new tee time: guest entry fees charged to their hosts
+ * and tee_time_assigned notifications to the players (in-app + push,
+ * best-effort).
+ */
+export async function announceEventTeeTime({
+  event,
+  profileId,
+  teeTime,
+  groupNumber = null,
+  roundId,
+  players: playerList,
+}: {
+  event: any;
+  /** The organiser who created it. */
+  profileId: string;
+  teeTime: string;
+  groupNumber?: number | null;
+  roundId: string;
+  players: TeeTimePlayerInput[];
+}): Promise<void> {
+  const id = event.id as string;
+
+  // Charge guest entry fees to host players if requested
+  if (event.group_id && event.entry_fee_amount > 0) {
+    for (const player of playerList) {
+      if (player.is_guest && player.charge_to) {
+        await supabaseAdmin.from("group_balance_transactions").insert({
+          group_id: event.group_id,
+          profile_id: player.charge_to,
+          event_id: id,
+          type: "extra_charge",
+          amount: event.entry_fee_amount,
+          note: `Guest entry fee — ${player.display_name ?? "Guest"}`,
+          recorded_by: profileId,
+        });
+      }
+    }
+  }
+
+  const notifRecipients = [
+    ...new Set(playerList.filter((p) => p.profile_id && !p.is_guest).map((p) => p.profile_id as string)),
+  ];
+  if (notifRecipients.length > 0) {
+    await createNotificationsForMany(notifRecipients, "tee_time_assigned", {
+      event_id: id,
+      event_name: event.name,
+      tee_time: teeTime,
+      group_number: groupNumber,
+      round_id: roundId,
+    });
+  }
+}
+
+/**
+ * Undo tee times created in the same request: their rounds first (which
+ * cascade-removes participants), then the tee time rows. Best-effort — used
+ * to roll back a draw that failed part-way through publishing.
+ */
+export async function removeEventTeeTimes(rows: { id: string; round_id: string | null }[]): Promise<void> {
+  if (rows.length === 0) return;
+  const roundIds = rows.map((r) => r.round_id).filter(Boolean) as string[];
+  if (roundIds.length > 0) {
+    const { error: roundErr } = await supabaseAdmin.from("rounds").delete().in("id", roundIds);
+    if (roundErr) console.error("[tee-times] rollback of rounds failed:", roundErr);
+  }
+  const { error } = await supabaseAdmin
+    .from("event_tee_times")
+    .delete()
+    .in("id", rows.map((r) => r.id));
+  if (error) console.error("[tee-times] rollback of tee times failed:", error);
+}
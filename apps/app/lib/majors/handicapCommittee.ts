@@ -0,0 +1,208 @@
+/**
+ * Handicap committee — winner's cuts, caps, committee adjustments and the
+ * society handicap, and how they turn a player's WHS playing handicap into
+ * the one they play off. Pure: handicapCommitteeData.ts loads the inputs,
+ * stamps the result on round participants at round start and keeps the
+ * audit trail.
+ */
+
+import type { HandicapAdjustment } from "./types";
+
+export type WinnersCutRule = {
+  /** Strokes taken off the winner's playing handicap. */
+  strokes: number;
+  /** Strokes given back for each later group event; 0 = the cut stays until it expires. */
+  decay_per_event: number;
+};
+
+export type SocietyHandicapRule = {
+  /** How much of the player's recent net-to-par is added to the WHS playing handicap. */
+  weight_pct: number;
+  /** Group events looked back over. */
+  window_events: number;
+};
+
+export type HandicapCommitteeConfig = {
+  /** Automatically cut event winners; null = off. */
+  winners_cut: WinnersCutRule | null;
+  /** Blend WHS with recent society results; null = off. */
+  society_handicap: SocietyHandicapRule | null;
+};
+
+export const DEFAULT_HANDICAP_COMMITTEE: HandicapCommitteeConfig = {
+  winners_cut: null,
+  society_handicap: null,
+};
+
+/** The society handicap waits until a player has this many recent results. */
+export const SOCIETY_MIN_EVENTS = 3;
+
+const numOr = (v: unknown, fallback: number, min = 0, max = Infinity): number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min && v <= max ? v : fallback;
+
+/** Coerce the stored jsonb into a config; a rule that's missing or malformed is off. */
+export function parseHandicapCommitteeConfig(raw: unknown): HandicapCommitteeConfig {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const cut = (r.winners_cut && typeof r.winners_cut === "object" ? r.winners_cut : null) as Record<string, unknown> | null;
+  const soc = (r.society_handicap && typeof r.society_handicap === "object" ? r.society_handicap : null) as Record<string, unknown> | null;
+  const cutStrokes = cut ? numOr(cut.strokes, 0, 0, 18) : 0;
+  const socWeight = soc ? numOr(soc.weight_pct, 0, 0, 100) : 0;
+  return {
+    winners_cut: cutStrokes > 0 ? { strokes: cutStrokes, decay_per_event: numOr(cut!.decay_per_event, 0, 0, 18) } : null,
+    society_handicap:
+      socWeight > 0 ? { weight_pct: socWeight, window_events: Math.floor(numOr(soc!.window_events, 5, 1, 20)) } : null,
+  };
+}
+
+// ─── Resolution ──────────────────────────────────────────────────────────────
+
+export type HandicapStepKind = "society" | "winners_cut" | "manual" | "cap" | "event_max";
+
+/** One line of the breakdown: what changed the playing handicap, and by how much. */
+export type HandicapStep = {
+  kind: HandicapStepKind;
+  label: string;
+  /** Change to the playing handicap (negative = fewer strokes). */
+  strokes: number;
+  adjustment_id: string | null;
+};
+
+/** Everything known about one player for one event. */
+export type CommitteePlayerInput = {
+  /** The player's unrevoked adjustments in this group. */
+  adjustments: HandicapAdjustment[];
+  /** Group events held between each winner's cut's win and this event, by adjustment id. */
+  eventsSince: Record<string, number>;
+  /** Net to par per round in the player's recent group events, most recent first. */
+  recentNetToPar: number[];
+};
+
+export type EventCommittee = {
+  config: HandicapCommitteeConfig;
+  /** YYYY-MM-DD — decides which adjustments are in force. */
+  eventDate: string;
+  players: Map<string, CommitteePlayerInput>;
+};
+
+export type CommitteeResolution = {
+  /** The playing handicap before the committee. */
+  base: number;
+  value: number;
+  /** Empty when nothing changed it. */
+  steps: HandicapStep[];
+};
+
+/** In force on the event date: not revoked, started, not expired. */
+export function isInForce(adj: Pick<HandicapAdjustment, "revoked_at" | "effective_from" | "expires_at">, eventDate: string): boolean {
+  if (adj.revoked_at) return false;
+  if (eventDate < adj.effective_from) return false;
+  if (adj.expires_at && eventDate > adj.expires_at) return false;
+  return true;
+}
+
+/**
+ * What's left of a cut after `eventsSince` later events have each given back
+ * decay_per_event. Never changes sign; 0 once fully given back.
+ */
+export function remainingStrokes(adj: Pick<HandicapAdjustment, "strokes" | "decay_per_event">, eventsSince: number): number {
+  const strokes = Number(adj.strokes ?? 0);
+  const giveBack = Number(adj.decay_per_event ?? 0) * Math.max(0, eventsSince);
+  if (strokes < 0) return Math.min(0, strokes + giveBack);
+  return Math.max(0, strokes - giveBack);
+}
+
+/**
+ * Society handicap shift: the player's average net-to-par per round over the
+ * window, weighted. Someone averaging 4 under with a 50% weight is cut 2.
+ * Null until they have SOCIETY_MIN_EVENTS results (or the whole window, if
+ * it's shorter).
+ */
+export function societyShift(recentNetToPar: number[], rule: SocietyHandicapRule | null): number | null {
+  if (!rule) return null;
+  const window = recentNetToPar.slice(0, rule.window_events);
+  if (window.length < Math.min(SOCIETY_MIN_EVENTS, rule.window_events)) return null;
+  const avg = window.reduce((s, v) => s + v, 0) / window.length;
+  return Math.round(avg * (rule.weight_pct / 100) * 10) / 10;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** events.handicap_rules.max_handicap as a number; null when unset or blank. */
+export function eventMaxHandicap(rules: Record<string, unknown> | null | undefined): number | null {
+  const raw = rules?.max_handicap;
+  if (raw == null || raw === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * The committee's playing handicap. Order: society shift, then winner's cuts
+ * and manual adjustments (summed, rounded once), then the player's own cap,
+ * then the event's max_handicap. Caps only ever lower the value.
+ */
+export function applyHandicapCommittee(
+  base: number,
+  eventDate: string,
+  input: CommitteePlayerInput | undefined,
+  config: HandicapCommitteeConfig,
+  eventMax: number | null
+): CommitteeResolution {
+  const steps: HandicapStep[] = [];
+  let raw = base;
+
+  if (input) {
+    const shift = societyShift(input.recentNetToPar, config.society_handicap);
+    if (shift) {
+      raw += shift;
+      steps.push({ kind: "society", label: "Society handicap", strokes: shift, adjustment_id: null });
+    }
+
+    for (const adj of input.adjustments) {
+      if (adj.kind === "cap" || !isInForce(adj, eventDate)) continue;
+      const strokes = round1(
+        adj.kind === "winners_cut" ? remainingStrokes(adj, input.eventsSince[adj.id] ?? 0) : Number(adj.strokes ?? 0)
+      );
+      if (!strokes) continue;
+      raw += strokes;
+      steps.push({ kind: adj.kind, label: adj.reason, strokes, adjustment_id: adj.id });
+    }
+  }
+
+  let value = Math.round(raw);
+
+  const caps = (input?.adjustments ?? []).filter((a) => a.kind === "cap" && a.cap != null && isInForce(a, eventDate));
+  const tightest = caps.sort((a, b) => (a.cap as number) - (b.cap as number))[0];
+  if (tightest && value > (tightest.cap as number)) {
+    steps.push({ kind: "cap", label: tightest.reason, strokes: (tightest.cap as number) - value, adjustment_id: tightest.id });
+    value = tightest.cap as number;
+  }
+
+  if (eventMax != null && value > eventMax) {
+    steps.push({ kind: "event_max", label: `Event maximum ${eventMax}`, strokes: eventMax - value, adjustment_id: null });
+    value = eventMax;
+  }
+
+  return { base, value, steps };
+}
+
+/** "−2 (Won Spring Medal), cap 18" — the leaderboard's tooltip. */
+export function describeSteps(steps: HandicapStep[]): string {
+  return steps
+    .map((s) => `${s.strokes > 0 ? "+" : s.strokes < 0 ? "−" : ""}${Math.abs(s.strokes)} ${s.label}`)
+    .join(", ");
+}
+
+/**
+ * Who a winner's cut goes to: position 1 after any playoff or countback.
+ * Players tied for first with nothing deciding it are all cut.
+ */
+export function eventWinners(
+  rows: { profile_id: string; position: number | null; playoff_result?: string | null; playoff_final_position?: number | null }[]
+): string[] {
+  return rows
+    .filter((r) => {
+      if (r.playoff_result) return r.playoff_result.startsWith("won");
+      return (r.playoff_final_position ?? r.position) === 1;
+    })
+    .map((r) => r.profile_id);
+}
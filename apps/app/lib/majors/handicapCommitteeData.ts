@@ -0,0 +1,315 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  applyHandicapCommittee,
+  eventMaxHandicap,
+  eventWinners,
+  parseHandicapCommitteeConfig,
+  type CommitteePlayerInput,
+  type CommitteeResolution,
+  type EventCommittee,
+  type HandicapCommitteeConfig,
+} from "./handicapCommittee";
+import { loadGroupMembers } from "./bankReconciliationData";
+import type { HandicapAdjustment, HandicapAuditAction, HandicapAuditEntry } from "./types";
+
+const PLAYED_STATUSES = ["completed", "unofficial", "official"];
+const AUDIT_PAGE = 50;
+
+export type HandicapCommitteeListing = {
+  config: HandicapCommitteeConfig;
+  members: { profile_id: string; name: string | null }[];
+  /** Unrevoked, newest first; expired ones included so they can be tidied. */
+  adjustments: (HandicapAdjustment & { name: string | null; source_event_name: string | null })[];
+  audit: (HandicapAuditEntry & { name: string | null; actor_name: string | null; event_name: string | null })[];
+};
+
+/** Everything the committee sheet shows for a group. */
+export async function listHandicapCommittee(groupId: string): Promise<HandicapCommitteeListing> {
+  const [groupRes, members, adjRes, auditRes] = await Promise.all([
+    supabaseAdmin.from("major_groups").select("handicap_committee").eq("id", groupId).maybeSingle(),
+    loadGroupMembers(groupId),
+    supabaseAdmin
+      .from("group_handicap_adjustments")
+      .select("*, source_event:events!source_event_id(name)")
+      .eq("group_id", groupId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false }),
+    supabaseAdmin
+      .from("handicap_audit_log")
+      .select("*, event:events!event_id(name)")
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: false })
+      .limit(AUDIT_PAGE),
+  ]);
+  if (groupRes.error) throw groupRes.error;
+  if (adjRes.error) throw adjRes.error;
+  if (auditRes.error) throw auditRes.error;
+
+  const nameById = new Map(members.map((m) => [m.profile_id, m.name]));
+  return {
+    config: parseHandicapCommitteeConfig((groupRes.data as any)?.handicap_committee),
+    members,
+    adjustments: ((adjRes.data ?? []) as any[]).map(({ source_event, ...a }) => ({
+      ...a,
+      name: nameById.get(a.profile_id) ?? null,
+      source_event_name: source_event?.name ?? null,
+    })),
+    audit: ((auditRes.data ?? []) as any[]).map(({ event, ...r }) => ({
+      ...r,
+      name: r.profile_id ? (nameById.get(r.profile_id) ?? null) : null,
+      actor_name: r.actor_profile_id ? (nameById.get(r.actor_profile_id) ?? null) : null,
+      event_name: event?.name ?? null,
+    })),
+  };
+}
+
+/** Best-effort audit row — a failed insert must not fail the action itself. */
+export async function recordHandicapAudit(entry: {
+  group_id: string;
+  action: HandicapAuditAction;
+  actor_profile_id?: string | null;
+  adjustment_id?: string | null;
+  profile_id?: string | null;
+  event_id?: string | null;
+  round_id?: string | null;
+  payload?: Record<string, unknown>;
+}): Promise<void> {
+  await supabaseAdmin
+    .from("handicap_audit_log")
+    .insert({ payload: {}, ...entry })
+    .then(() => {}, () => {});
+}
+
+/**
+ * Committee inputs for an event: the group's rules, each player's unrevoked
+ * adjustments, how many group events have been held since each winner's cut,
+ * and (when the society handicap is on) their recent net-to-par per round.
+ * Null for events outside a group.
+ */
+export async function loadEventCommittee(
+  event: { id: string; group_id: string | null; event_date: string | null },
+  profileIds: string[]
+): Promise<EventCommittee | null> {
+  if (!event.group_id || profileIds.length === 0) return null;
+  const eventDate = event.event_date ?? new Date().toISOString().slice(0, 10);
+
+  const [groupRes, adjRes, eventsRes] = await Promise.all([
+    supabaseAdmin.from("major_groups").select("handicap_committee").eq("id", event.group_id).maybeSingle(),
+    supabaseAdmin
+      .from("group_handicap_adjustments")
+      .select("*")
+      .eq("group_id", event.group_id)
+      .in("profile_id", profileIds)
+      .is("revoked_at", null),
+    supabaseAdmin
+      .from("events")
+      .select("id, event_date")
+      .eq("group_id", event.group_id)
+      .in("majors_status", PLAYED_STATUSES)
+      .neq("id", event.id)
+      .lt("event_date", eventDate)
+      .order("event_date", { ascending: false }),
+  ]);
+  if (adjRes.error) throw adjRes.error;
+  if (eventsRes.error) throw eventsRes.error;
+
+  const config = parseHandicapCommitteeConfig((groupRes.data as any)?.handicap_committee);
+  const adjustments = (adjRes.data ?? []) as HandicapAdjustment[];
+  const priorEvents = (eventsRes.data ?? []) as { id: string; event_date: string | null }[];
+
+  // Group events between a win and this event: the source event's date is
+  // known from the list of prior events (it's one of them).
+  const dateById = new Map(priorEvents.map((e) => [e.id, e.event_date]));
+  const eventsAfter = (date: string | null | undefined) =>
+    date ? priorEvents.filter((e) => e.event_date != null && e.event_date > date).length : 0;
+
+  const recent = new Map<string, number[]>();
+  if (config.society_handicap && priorEvents.length > 0) {
+    const { data: lbRows, error: lbErr } = await supabaseAdmin
+      .from("event_leaderboard_entries")
+      .select("event_id, profile_id, to_par, rounds_submitted, is_live")
+      .in("event_id", priorEvents.slice(0, 60).map((e) => e.id))
+      .in("profile_id", profileIds);
+    if (lbErr) throw lbErr;
+    const order = new Map(priorEvents.map((e, i) => [e.id, i]));
+    const rows = ((lbRows ?? []) as any[])
+      .filter((r) => r.to_par != null && !r.is_live && (r.rounds_submitted ?? 0) > 0)
+      .sort((a, b) => (order.get(a.event_id) ?? 0) - (order.get(b.event_id) ?? 0));
+    for (const r of rows) {
+      if (!recent.has(r.profile_id)) recent.set(r.profile_id, []);
+      recent.get(r.profile_id)!.push(Number(r.to_par) / Number(r.rounds_submitted));
+    }
+  }
+
+  const players = new Map<string, CommitteePlayerInput>();
+  for (const pid of profileIds) {
+    const mine = adjustments.filter((a) => a.profile_id === pid);
+    const eventsSince: Record<string, number> = {};
+    for (const a of mine) {
+      if (a.kind === "winners_cut") eventsSince[a.id] = eventsAfter(dateById.get(a.source_event_id ?? "") ?? a.effective_from);
+    }
+    players.set(pid, { adjustments: mine, eventsSince, recentNetToPar: recent.get(pid) ?? [] });
+  }
+
+  return { config, eventDate, players };
+}
+
+/**
+ * After ciaga_persist_playing_handicaps has locked an event round's playing
+ * handicaps, apply the committee: any player whose value changes gets it
+ * stamped as assigned_playing_handicap (which the leaderboard and resolver
+ * honour) and an 'applied' audit row. Players with a manual override set
+ * before the start are left alone, and so is a round already stamped.
+ * Returns the strokes the committee moved each changed participant by (value −
+ * base), for single-ball team handicaps, which are built from course handicaps.
+ * No-op for rounds outside a group event.
+ */
+export async function applyCommitteeAtRoundStart(roundId: string): Promise<Map<string, number>> {
+  const applied = new Map<string, number>();
+  const { data: tt } = await supabaseAdmin
+    .from("event_tee_times")
+    .select("event_id")
+    .eq("round_id", roundId)
+    .maybeSingle();
+  const eventId = (tt as any)?.event_id as string | undefined;
+  if (!eventId) return applied;
+
+  const { data: event, error: eventErr } = await supabaseAdmin
+    .from("events")
+    .select("id, group_id, event_date, handicap_rules")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (eventErr) throw eventErr;
+  if (!event || !(event as any).group_id) return applied;
+  const rules = ((event as any).handicap_rules ?? {}) as Record<string, unknown>;
+  if (rules.mode === "none") return applied;
+
+  const { data: parts, error: partsErr } = await supabaseAdmin
+    .from("round_participants")
+    .select("id, profile_id, playing_handicap_used, assigned_playing_handicap")
+    .eq("round_id", roundId)
+    .not("profile_id", "is", null);
+  if (partsErr) throw partsErr;
+  const open = ((parts ?? []) as any[]).filter((p) => p.assigned_playing_handicap == null && p.playing_handicap_used != null);
+  if (open.length === 0) return applied;
+
+  const committee = await loadEventCommittee(event as any, open.map((p) => p.profile_id));
+  if (!committee) return applied;
+  const eventMax = eventMaxHandicap(rules);
+
+  for (const p of open) {
+    const res = applyHandicapCommittee(
+      Number(p.playing_handicap_used),
+      committee.eventDate,
+      committee.players.get(p.profile_id),
+      committee.config,
+      eventMax
+    );
+    if (res.value === res.base) continue;
+
+    const { error: updErr } = await supabaseAdmin
+      .from("round_participants")
+      .update({ assigned_playing_handicap: res.value, playing_handicap_used: res.value })
+      .eq("id", p.id);
+    if (updErr) throw updErr;
+    applied.set(p.id, res.value - res.base);
+
+    await recordHandicapAudit({
+      group_id: (event as any).group_id,
+      action: "applied",
+      profile_id: p.profile_id,
+      event_id: eventId,
+      round_id: roundId,
+      payload: { base: res.base, value: res.value, steps: res.steps },
+    });
+  }
+  return applied;
+}
+
+/**
+ * The committee changes applied in an event, per player — the latest round's,
+ * for the leaderboard to show next to the name.
+ */
+export async function loadAppliedAdjustments(eventId: string): Promise<Record<string, CommitteeResolution>> {
+  const { data, error } = await supabaseAdmin
+    .from("handicap_audit_log")
+    .select("profile_id, payload, created_at")
+    .eq("event_id", eventId)
+    .eq("action", "applied")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  const out: Record<string, CommitteeResolution> = {};
+  for (const r of (data ?? []) as any[]) {
+    if (r.profile_id) out[r.profile_id] = r.payload as CommitteeResolution;
+  }
+  return out;
+}
+
+/**
+ * Record winner's cuts for a completed event when the group has them on.
+ * Waits while a playoff is undecided. Idempotent — the unique index allows
+ * one cut per player per win.
+ */
+export async function recordWinnersCuts(eventId: string): Promise<void> {
+  const { data: event } = await supabaseAdmin
+    .from("events")
+    .select("id, name, group_id, event_date")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (!event || !(event as any).group_id) return;
+
+  const { data: group } = await supabaseAdmin
+    .from("major_groups")
+    .select("handicap_committee")
+    .eq("id", (event as any).group_id)
+    .maybeSingle();
+  const rule = parseHandicapCommitteeConfig((group as any)?.handicap_committee).winners_cut;
+  if (!rule) return;
+
+  const [{ data: rows }, { data: playoff }] = await Promise.all([
+    supabaseAdmin
+      .from("event_leaderboard_entries")
+      .select("profile_id, position, playoff_result, playoff_final_position")
+      .eq("event_id", eventId),
+    supabaseAdmin
+      .from("event_playoffs")
+      .select("status, winner_profile_id")
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (playoff && (playoff as any).status !== "completed") return;
+  const winners = (playoff as any)?.winner_profile_id
+    ? [(playoff as any).winner_profile_id as string]
+    : eventWinners((rows ?? []) as any[]);
+
+  for (const profileId of winners) {
+    const { data: adj, error } = await supabaseAdmin
+      .from("group_handicap_adjustments")
+      .insert({
+        group_id: (event as any).group_id,
+        profile_id: profileId,
+        kind: "winners_cut",
+        strokes: -rule.strokes,
+        decay_per_event: rule.decay_per_event,
+        reason: `Won ${(event as any).name}`,
+        source_event_id: eventId,
+        effective_from: (event as any).event_date ?? new Date().toISOString().slice(0, 10),
+      })
+      .select("id")
+      .single();
+    if (error) {
+      if (error.code === "23505") continue;
+      throw error;
+    }
+    await recordHandicapAudit({
+      group_id: (event as any).group_id,
+      action: "adjustment_created",
+      adjustment_id: (adj as any).id,
+      profile_id: profileId,
+      event_id: eventId,
+      payload: { kind: "winners_cut", strokes: -rule.strokes, decay_per_event: rule.decay_per_event },
+    });
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Clubhouse display (kiosk / TV) — the pure parts: which slides to rotate
+ * through, and how scoring highlights are picked and kept behind the
+ * leaderboard freeze. Data loading lives in kioskData.ts.
+ */
+
+import type { FrozenLeaderboardEntry, LeaderboardEntryWithProfile } from "./types";
+
+export type KioskSlide = "leaderboard" | "highlights" | "nearest_pin" | "standings";
+
+/** How long each slide stays up before the display moves on. */
+export const KIOSK_SLIDE_SECONDS: Record<KioskSlide, number> = {
+  leaderboard: 25,
+  highlights: 12,
+  nearest_pin: 10,
+  standings: 15,
+};
+
+export type HighlightKind = "birdie" | "eagle" | "albatross" | "hio";
+
+export const HIGHLIGHT_LABELS: Record<HighlightKind, string> = {
+  birdie: "Birdie",
+  eagle: "Eagle",
+  albatross: "Albatross",
+  hio: "Hole in One",
+};
+
+export type ScoringHighlight = {
+  profile_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  round_id: string;
+  /** Event round number (1 for single-round events). */
+  round_number: number;
+  hole_number: number;
+  par: number;
+  strokes: number;
+  kind: HighlightKind;
+  /** When the score went in (or the round finished, for feed-only items). */
+  at: string;
+  /** The hole_event feed item, once the round has finished and posted one. */
+  feed_item_id: string | null;
+};
+
+export type NearestPinEntry = {
+  profile_id: string;
+  name: string | null;
+  distance: number;
+};
+
+export type NearestPinBoard = {
+  pot_id: string;
+  name: string;
+  /** e.g. "Hole 7, feet" — the pot's metric_description. */
+  description: string | null;
+  entries: NearestPinEntry[];
+};
+
+export type KioskStanding = {
+  profile_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  position: number | null;
+  season_points: number;
+  events_played: number;
+  wins: number;
+};
+
+export type KioskLeaderboard = {
+  rows: (LeaderboardEntryWithProfile | FrozenLeaderboardEntry)[];
+  freeze: {
+    freeze_state: string;
+    freeze_last_holes: number | null;
+    freeze_scope: string;
+    freeze_top_x: number | null;
+    reveal_style: string;
+    reveal_top_x: number | null;
+    total_holes: number;
+  };
+  scoring_model: string;
+};
+
+/** GET /api/kiosk/[token] */
+export type KioskPayload = {
+  label: string | null;
+  title: string;
+  event: { id: string; name: string; event_date: string | null } | null;
+  season: { id: string; name: string } | null;
+  leaderboard: KioskLeaderboard | null;
+  highlights: ScoringHighlight[];
+  nearest_pins: NearestPinBoard[];
+  standings: KioskStanding[];
+  generated_at: string;
+};
+
+/** Birdie or better on one hole; null for anything else. */
+export function scoreKind(strokes: number, par: number): HighlightKind | null {
+  if (strokes === 1) return "hio";
+  const diff = strokes - par;
+  if (diff <= -3) return "albatross";
+  if (diff === -2) return "eagle";
+  if (diff === -1) return "birdie";
+  return null;
+}
+
+/** A hole's place in the whole event, counting 18 per round — what `holes_shown` counts. */
+export function eventHoleIndex(roundNumber: number, holeNumber: number): number {
+  return (roundNumber - 1) * 18 + holeNumber;
+}
+
+/**
+ * While the leaderboard is frozen, how many of each player's holes may be
+ * shown — the same `holes_shown` the frozen leaderboard uses, so a highlight
+ * never gives away a hidden score. Null when nothing is frozen.
+ */
+export function visibleHolesFromRows(
+  rows: { profile_id: string; holes_shown?: number | null }[],
+  frozen: boolean
+): Map<string, number> | null {
+  if (!frozen) return null;
+  return new Map(rows.map((r) => [r.profile_id, r.holes_shown ?? 0]));
+}
+
+/**
+ * Most recent highlights first, dropping any on a hole the freeze still hides
+ * (players missing from the frozen board show nothing).
+ */
+export function visibleHighlights(
+  highlights: ScoringHighlight[],
+  visibleHoles: Map<string, number> | null,
+  limit = 12
+): ScoringHighlight[] {
+  return highlights
+    .filter((h) => {
+      if (!visibleHoles) return true;
+      const shown = visibleHoles.get(h.profile_id) ?? 0;
+      return eventHoleIndex(h.round_number, h.hole_number) <= shown;
+    })
+    .sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0))
+    .slice(0, limit);
+}
+
+/** Closest first; unrecorded or zero distances are left off. */
+export function rankNearestPin(
+  entries: { profile_id: string; name: string | null; metric_value: number | null }[],
+  limit = 5
+): NearestPinEntry[] {
+  return entries
+    .filter((e) => e.metric_value != null && e.metric_value > 0)
+    .map((e) => ({ profile_id: e.profile_id, name: e.name, distance: Number(e.metric_value) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+/** The slides worth showing, in rotation order — empty ones are skipped. */
+export function kioskSlides(payload: Pick<KioskPayload, "leaderboard" | "highlights" | "nearest_pins" | "standings">): KioskSlide[] {
+  const slides: KioskSlide[] = [];
+  if (payload.leaderboard && payload.leaderboard.rows.length > 0) slides.push("leaderboard");
+  if (payload.highlights.length > 0) slides.push("highlights");
+  if (payload.nearest_pins.some((p) => p.entries.length > 0)) slides.push("nearest_pin");
+  if (payload.standings.length > 0) slides.push("standings");
+  return slides;
+}
@@ -0,0 +1,316 @@
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getEventLeaderboardPayload } from "./eventLeaderboardPayload";
+import {
+  rankNearestPin,
+  scoreKind,
+  visibleHighlights,
+  visibleHolesFromRows,
+  type KioskPayload,
+  type KioskStanding,
+  type NearestPinBoard,
+  type ScoringHighlight,
+} from "./kiosk";
+import type { DisplayToken } from "./types";
+
+/** URL-safe and long enough that the link itself is the credential. */
+export function newDisplayToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** The live token, or null when it doesn't exist or has been revoked. */
+export async function resolveDisplayToken(token: string): Promise<DisplayToken | null> {
+  if (!token || token.length < 16) return null;
+  const { data, error } = await supabaseAdmin
+    .from("display_tokens")
+    .select("*")
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as DisplayToken | null) ?? null;
+}
+
+/**
+ * The event a season display follows: the one being played now, otherwise the
+ * most recent one with results.
+ */
+async function currentSeasonEvent(groupSeasonId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("events")
+    .select("id, name, event_date, majors_status")
+    .eq("group_season_id", groupSeasonId)
+    .in("majors_status", ["live", "completed", "unofficial", "official"])
+    .order("event_date", { ascending: false, nullsFirst: false });
+  if (error) throw error;
+  const events = (data ?? []) as { id: string; name: string; event_date: string | null; majors_status: string }[];
+  return events.find((e) => e.majors_status === "live") ?? events[0] ?? null;
+}
+
+/**
+ * Birdies and better from the event's rounds. Live scores give the birdies
+ * (and eagles as they happen); hole_event feed items, posted when a round
+ * finishes, supply the eagles, albatrosses and aces and are matched up so
+ * nothing shows twice.
+ */
+async function loadScoringHighlights(eventId: string): Promise<ScoringHighlight[]> {
+  const [teeTimesRes, subsRes, eventRoundsRes] = await Promise.all([
+    supabaseAdmin.from("event_tee_times").select("round_id, event_round_id").eq("event_id", eventId),
+    supabaseAdmin
+      .from("event_round_submissions")
+      .select("round_id, event_round_id")
+      .eq("event_id", eventId)
+      .eq("accepted", true),
+    supabaseAdmin.from("event_rounds").select("id, round_number").eq("event_id", eventId),
+  ]);
+  if (teeTimesRes.error) throw teeTimesRes.error;
+  if (subsRes.error) throw subsRes.error;
+  if (eventRoundsRes.error) throw eventRoundsRes.error;
+
+  const roundNumberOf = new Map(((eventRoundsRes.data ?? []) as any[]).map((r) => [r.id, r.round_number as number]));
+  const roundNumberByRound = new Map<string, number>();
+  for (const r of [...(teeTimesRes.data ?? []), ...(subsRes.data ?? [])] as any[]) {
+    if (!r.round_id) continue;
+    roundNumberByRound.set(r.round_id, roundNumberOf.get(r.event_round_id) ?? roundNumberByRound.get(r.round_id) ?? 1);
+  }
+  const roundIds = [...roundNumberByRound.keys()];
+  if (roundIds.length === 0) return [];
+
+  const [partsRes, scoresRes, feedRes] = await Promise.all([
+    supabaseAdmin
+      .from("round_participants")
+      .select("id, round_id, profile_id, tee_snapshot_id, profile:profiles(id, name, avatar_url)")
+      .in("round_id", roundIds)
+      .not("profile_id", "is", null),
+    supabaseAdmin
+      .from("round_current_scores")
+      .select("round_id, participant_id, hole_number, strokes, created_at")
+      .in("round_id", roundIds)
+      .not("strokes", "is", null),
+    supabaseAdmin
+      .from("feed_items")
+      .select("id, actor_profile_id, occurred_at, payload")
+      .eq("type", "hole_event")
+      .in("payload->>round_id", roundIds),
+  ]);
+  if (partsRes.error) throw partsRes.error;
+  if (scoresRes.error) throw scoresRes.error;
+  if (feedRes.error) throw feedRes.error;
+
+  const parts = (partsRes.data ?? []) as any[];
+  const partById = new Map(parts.map((p) => [p.id, p]));
+  const profileById = new Map(parts.map((p) => [p.profile_id, p.profile]));
+
+  const teeIds = [...new Set(parts.map((p) => p.tee_snapshot_id).filter(Boolean))];
+  const parByTeeHole = new Map<string, number>();
+  if (teeIds.length > 0) {
+    const { data: holes, error } = await supabaseAdmin
+      .from("round_hole_snapshots")
+      .select("round_tee_snapshot_id, hole_number, par")
+      .in("round_tee_snapshot_id", teeIds);
+    if (error) throw error;
+    for (const h of (holes ?? []) as any[]) {
+      if (typeof h.par === "number") parByTeeHole.set(`${h.round_tee_snapshot_id}:${h.hole_number}`, h.par);
+    }
+  }
+
+  const byKey = new Map<string, ScoringHighlight>();
+  for (const s of (scoresRes.data ?? []) as any[]) {
+    const part = partById.get(s.participant_id);
+    if (!part?.tee_snapshot_id) continue;
+    const par = parByTeeHole.get(`${part.tee_snapshot_id}:${s.hole_number}`);
+    if (par === undefined) continue;
+    const kind = scoreKind(Number(s.strokes), par);
+    if (!kind) continue;
+    byKey.set(`${s.round_id}:${part.profile_id}:${s.hole_number}`, {
+      profile_id: part.profile_id,
+      name: part.profile?.name ?? null,
+      avatar_url: part.profile?.avatar_url ?? null,
+      round_id: s.round_id,
+      round_number: roundNumberByRound.get(s.round_id) ?? 1,
+      hole_number: s.hole_number,
+      par,
+      strokes: Number(s.strokes),
+      kind,
+      at: s.created_at,
+      feed_item_id: null,
+    });
+  }
+
+  for (const item of (feedRes.data ?? []) as any[]) {
+    const p = item.payload ?? {};
+    const profileId = p.profile_id ?? item.actor_profile_id;
+    const key = `${p.round_id}:${profileId}:${p.hole_number}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.feed_item_id = item.id;
+      continue;
+    }
+    if (typeof p.hole_number !== "number" || typeof p.par !== "number") continue;
+    const strokes = typeof p.strokes === "number" ? p.strokes : typeof p.score === "number" ? p.score : null;
+    const kind = strokes != null ? scoreKind(strokes, p.par) : null;
+    if (!kind || strokes == null) continue;
+    const profile = profileById.get(profileId);
+    byKey.set(key, {
+      profile_id: profileId,
+      name: profile?.name ?? null,
+      avatar_url: profile?.avatar_url ?? null,
+      round_id: p.round_id,
+      round_number: roundNumberByRound.get(p.round_id) ?? 1,
+      hole_number: p.hole_number,
+      par: p.par,
+      strokes,
+      kind,
+      at: item.occurred_at,
+      feed_item_id: item.id,
+    });
+  }
+
+  return [...byKey.values()];
+}
+
+/** Nearest-the-pin pots for the event and its season, each with its closest few. */
+async function loadNearestPins(eventId: string | null, groupSeasonId: string | null): Promise<NearestPinBoard[]> {
+  const scopes = [eventId ? `event_id.eq.${eventId}` : null, groupSeasonId ? `group_season_id.eq.${groupSeasonId}` : null]
+    .filter(Boolean)
+    .join(",");
+  if (!scopes) return [];
+
+  const { data: pots, error } = await supabaseAdmin
+    .from("prize_pots")
+    .select("id, name, metric_description, entries:prize_pot_entries(profile_id, metric_value, profile:profiles(id, name))")
+    .eq("metric_type", "nearest_pin")
+    .or(scopes)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  return ((pots ?? []) as any[]).map((pot) => ({
+    pot_id: pot.id,
+    name: pot.name,
+    description: pot.metric_description ?? null,
+    entries: rankNearestPin(
+      ((pot.entries ?? []) as any[]).map((e) => ({
+        profile_id: e.profile_id,
+        name: e.profile?.name ?? null,
+        metric_value: e.metric_value != null ? Number(e.metric_value) : null,
+      }))
+    ),
+  }));
+}
+
+/** Stored season standings — read as last computed, never recomputed from a display. */
+async function loadStandings(groupSeasonId: string, limit = 15): Promise<KioskStanding[]> {
+  const { data, error } = await supabaseAdmin
+    .from("group_season_standings_entries")
+    .select("profile_id, position, season_points, events_played, wins, profile:profiles(id, name, avatar_url)")
+    .eq("group_season_id", groupSeasonId)
+    .order("position", { ascending: true, nullsFirst: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data ?? []) as any[]).map((s) => ({
+    profile_id: s.profile_id,
+    name: s.profile?.name ?? null,
+    avatar_url: s.profile?.avatar_url ?? null,
+    position: s.position,
+    season_points: Number(s.season_points ?? 0),
+    events_played: s.events_played ?? 0,
+    wins: s.wins ?? 0,
+  }));
+}
+
+/**
+ * Everything a clubhouse display shows. The leaderboard is built exactly as
+ * for an anonymous viewer, so the freeze applies; while it is frozen,
+ * highlights stop at each player's visible holes and season standings are
+ * held back (they would give the hidden finish away).
+ */
+export async function getKioskPayload(display: DisplayToken): Promise<KioskPayload> {
+  let season: { id: string; name: string } | null = null;
+  let event: { id: string; name: string; event_date: string | null } | null = null;
+
+  if (display.group_season_id) {
+    const { data, error } = await supabaseAdmin
+      .from("group_seasons")
+      .select("id, name")
+      .eq("id", display.group_season_id)
+      .maybeSingle();
+    if (error) throw error;
+    season = (data as { id: string; name: string } | null) ?? null;
+    const current = await currentSeasonEvent(display.group_season_id);
+    if (current) event = { id: current.id, name: current.name, event_date: current.event_date };
+  } else if (display.event_id) {
+    const { data, error } = await supabaseAdmin
+      .from("events")
+      .select("id, name, event_date, group_season_id, group_season:group_seasons(id, name)")
+      .eq("id", display.event_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (data) {
+      event = { id: (data as any).id, name: (data as any).name, event_date: (data as any).event_date };
+      season = (data as any).group_season ?? null;
+    }
+  }
+
+  const lb = event ? await getEventLeaderboardPayload(event.id, null) : null;
+  const leaderboard = lb ? { rows: lb.rows as any[], freeze: lb.freeze, scoring_model: lb.scoring_model } : null;
+  const frozen = leaderboard?.freeze.freeze_state === "frozen" && leaderboard.freeze.freeze_last_holes != null;
+
+  const [highlights, nearestPins, standings] = await Promise.all([
+    event ? loadScoringHighlights(event.id) : Promise.resolve([]),
+    loadNearestPins(event?.id ?? null, season?.id ?? null),
+    season && !frozen ? loadStandings(season.id) : Promise.resolve([]),
+  ]);
+
+  return {
+    label: display.label,
+    title: display.group_season_id ? season?.name ?? event?.name ?? "Season" : event?.name ?? "Event",
+    event,
+    season,
+    leaderboard,
+    highlights: visibleHighlights(
+      highlights,
+      leaderboard ? visibleHolesFromRows(leaderboard.rows as any[], frozen) : null
+    ),
+    nearest_pins: nearestPins,
+    standings,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a member may create or revoke displays for an event or season:
+ * group owners and admins, or the creator of an event outside any group.
+ */
+export async function canManageDisplays(
+  profileId: string,
+  scope: { eventId?: string | null; groupSeasonId?: string | null }
+): Promise<boolean> {
+  let groupId: string | null = null;
+  if (scope.eventId) {
+    const { data: event } = await supabaseAdmin
+      .from("events")
+      .select("group_id, created_by_profile_id")
+      .eq("id", scope.eventId)
+      .maybeSingle();
+    if (!event) return false;
+    if (!(event as any).group_id) return (event as any).created_by_profile_id === profileId;
+    groupId = (event as any).group_id;
+  } else if (scope.groupSeasonId) {
+    const { data: season } = await supabaseAdmin
+      .from("group_seasons")
+      .select("group_id")
+      .eq("id", scope.groupSeasonId)
+      .maybeSingle();
+    groupId = (season as any)?.group_id ?? null;
+  }
+  if (!groupId) return false;
+
+  const { data: membership } = await supabaseAdmin
+    .from("major_group_memberships")
+    .select("role")
+    .eq("group_id", groupId)
+    .eq("profile_id", profileId)
+    .eq("status", "active")
+    .maybeSingle();
+  return !!membership && ["owner", "admin"].includes((membership as any).role);
+}
@@ -0,0 +1,385 @@
+/**
+ * Knockout bracket engine — seeding, bracket templates and advancement.
+ *
+ * A bracket is a set of fixtures whose two slots each say where their player
+ * comes from: a seeded entry, a bye, or the winner/loser of another fixture.
+ * planBracket lays the fixtures out for a template; resolveBracket works out
+ * who is in each fixture from the results so far. Pure: knockoutBracketData.ts
+ * does the reads and writes.
+ */
+
+import { mulberry32 } from "@/lib/fantasy/simulation/rng";
+import type { MatchplayResultType } from "./types";
+
+export type BracketTemplate = "single" | "double" | "plate";
+export type BracketSeeding = "handicap" | "order_of_merit" | "random";
+export type BracketSide = "winners" | "losers" | "plate" | "final";
+
+export type BracketConfig = {
+  template: BracketTemplate;
+  seeding: BracketSeeding;
+  /** Re-draw the main draw each round: best remaining seed meets the worst. */
+  reseed: boolean;
+};
+
+export const DEFAULT_BRACKET_CONFIG: BracketConfig = { template: "single", seeding: "handicap", reseed: false };
+
+export const BRACKET_TEMPLATE_LABELS: Record<BracketTemplate, string> = {
+  single: "Single elimination",
+  double: "Double elimination",
+  plate: "Knockout + plate",
+};
+
+export const BRACKET_SEEDING_LABELS: Record<BracketSeeding, string> = {
+  handicap: "Handicap index",
+  order_of_merit: "Order of merit",
+  random: "Random draw",
+};
+
+export const BRACKET_SIDE_LABELS: Record<BracketSide, string> = {
+  winners: "Main Draw",
+  losers: "Losers Bracket",
+  plate: "Plate",
+  final: "Grand Final",
+};
+
+/** Coerce the stored jsonb into a config, filling anything missing from the defaults. */
+export function parseBracketConfig(raw: unknown): BracketConfig {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const template = r.template as BracketTemplate;
+  const seeding = r.seeding as BracketSeeding;
+  return {
+    template: template in BRACKET_TEMPLATE_LABELS ? template : DEFAULT_BRACKET_CONFIG.template,
+    seeding: seeding in BRACKET_SEEDING_LABELS ? seeding : DEFAULT_BRACKET_CONFIG.seeding,
+    reseed: r.reseed === true,
+  };
+}
+
+// ─── Seeding ─────────────────────────────────────────────────────────────────
+
+export type SeedEntrant = {
+  entry_id: string;
+  handicap_index: number | null;
+  /** Position in the group season's order of merit, if they have one. */
+  merit_position: number | null;
+};
+
+const nullsLast = (a: number | null, b: number | null) =>
+  a == null ? (b == null ? 0 : 1) : b == null ? -1 : a - b;
+
+/**
+ * Entry ids in seed order (top seed first). Handicap seeding puts the lowest
+ * index first; order of merit follows the season standings, with players who
+ * aren't on them seeded after by handicap. Unknown handicaps go last.
+ */
+export function seedEntrants(entrants: SeedEntrant[], seeding: BracketSeeding, randomSeed = 0): string[] {
+  if (seeding === "random") {
+    const rand = mulberry32(randomSeed);
+    const out = [...entrants];
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out.map((e) => e.entry_id);
+  }
+  return [...entrants]
+    .sort(
+      (a, b) =>
+        (seeding === "order_of_merit" ? nullsLast(a.merit_position, b.merit_position) : 0) ||
+        nullsLast(a.handicap_index, b.handicap_index)
+    )
+    .map((e) => e.entry_id);
+}
+
+/**
+ * Seed numbers in bracket order for a draw of `size` (a power of two), so the
+ * top two seeds can only meet in the final: 8 → [1, 8, 4, 5, 2, 7, 3, 6].
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+const nextPow2 = (n: number) => {
+  let p = 2;
+  while (p < n) p *= 2;
+  return p;
+};
+
+// ─── Templates ───────────────────────────────────────────────────────────────
+
+export type SlotSource =
+  | { type: "entry"; entry_id: string }
+  | { type: "bye" }
+  | { type: "winner_of" | "loser_of"; fixture: string };
+
+export type PlannedFixture = {
+  /** W1-0, L2-1, P1-0, F1-0 — side, round and index within the round. */
+  key: string;
+  side: BracketSide;
+  round_number: number;
+  /** Index within its side and round, top of the draw first. */
+  position: number;
+  slots: [SlotSource, SlotSource];
+};
+
+const key = (prefix: string, round: number, index: number) => `${prefix}${round}-${index}`;
+const winnerOf = (fixture: string): SlotSource => ({ type: "winner_of", fixture });
+const loserOf = (fixture: string): SlotSource => ({ type: "loser_of", fixture });
+
+/** Later rounds of a knockout: winners of consecutive fixtures meet. */
+function knockoutRounds(prefix: string, side: BracketSide, firstRound: PlannedFixture[]): PlannedFixture[] {
+  const out = [...firstRound];
+  let prev = firstRound;
+  for (let round = 2; prev.length > 1; round++) {
+    const next: PlannedFixture[] = [];
+    for (let i = 0; i < prev.length / 2; i++) {
+      next.push({
+        key: key(prefix, round, i),
+        side,
+        round_number: round,
+        position: i,
+        slots: [winnerOf(prev[2 * i].key), winnerOf(prev[2 * i + 1].key)],
+      });
+    }
+    out.push(...next);
+    prev = next;
+  }
+  return out;
+}
+
+/**
+ * Lay out the fixtures for a template from entries in seed order. The draw is
+ * padded to a power of two with byes against the top seeds.
+ *   single — one knockout
+ *   plate  — the knockout, plus a consolation knockout for first-round losers
+ *   double — winners and losers brackets; a player is out after two defeats,
+ *            and the two bracket winners meet in a grand final. If the
+ *            losers-bracket winner takes it, the winners-bracket winner has
+ *            only lost once, so a reset final (F2-0) decides it.
+ */
+export function planBracket(seededEntryIds: string[], template: BracketTemplate): PlannedFixture[] {
+  if (seededEntryIds.length < 2) return [];
+  const size = nextPow2(seededEntryIds.length);
+  const order = bracketOrder(size);
+  const seedSlot = (seed: number): SlotSource =>
+    seed <= seededEntryIds.length ? { type: "entry", entry_id: seededEntryIds[seed - 1] } : { type: "bye" };
+
+  const firstRound: PlannedFixture[] = [];
+  for (let i = 0; i < size / 2; i++) {
+    firstRound.push({
+      key: key("W", 1, i),
+      side: "winners",
+      round_number: 1,
+      position: i,
+      slots: [seedSlot(order[2 * i]), seedSlot(order[2 * i + 1])],
+    });
+  }
+  const winners = knockoutRounds("W", "winners", firstRound);
+  if (template === "single" || size < 4) return winners;
+
+  if (template === "plate") {
+    const plateFirst: PlannedFixture[] = [];
+    for (let i = 0; i < size / 4; i++) {
+      plateFirst.push({
+        key: key("P", 1, i),
+        side: "plate",
+        round_number: 1,
+        position: i,
+        slots: [loserOf(key("W", 1, 2 * i)), loserOf(key("W", 1, 2 * i + 1))],
+      });
+    }
+    return [...winners, ...knockoutRounds("P", "plate", plateFirst)];
+  }
+
+  // Double elimination. Losers round 1 pairs the first-round losers; after
+  // that, rounds alternate between taking in the next winners-bracket losers
+  // (drawn in reverse to avoid early rematches) and halving the field.
+  const rounds = Math.log2(size);
+  const losers: PlannedFixture[] = [];
+  for (let i = 0; i < size / 4; i++) {
+    losers.push({
+      key: key("L", 1, i),
+      side: "losers",
+      round_number: 1,
+      position: i,
+      slots: [loserOf(key("W", 1, 2 * i)), loserOf(key("W", 1, 2 * i + 1))],
+    });
+  }
+  let lRound = 1;
+  for (let w = 2; w <= rounds; w++) {
+    const count = size / 2 ** w;
+    lRound++;
+    for (let i = 0; i < count; i++) {
+      losers.push({
+        key: key("L", lRound, i),
+        side: "losers",
+        round_number: lRound,
+        position: i,
+        slots: [winnerOf(key("L", lRound - 1, i)), loserOf(key("W", w, count - 1 - i))],
+      });
+    }
+    if (w === rounds) break;
+    lRound++;
+    for (let i = 0; i < count / 2; i++) {
+      losers.push({
+        key: key("L", lRound, i),
+        side: "losers",
+        round_number: lRound,
+        position: i,
+        slots: [winnerOf(key("L", lRound - 1, 2 * i)), winnerOf(key("L", lRound - 1, 2 * i + 1))],
+      });
+    }
+  }
+
+  const final: PlannedFixture = {
+    key: key("F", 1, 0),
+    side: "final",
+    round_number: 1,
+    position: 0,
+    slots: [winnerOf(key("W", rounds, 0)), winnerOf(key("L", lRound, 0))],
+  };
+  // Only played if the losers-bracket winner takes the first final; resolveBracket
+  // cancels it otherwise.
+  const reset: PlannedFixture = {
+    key: key("F", 2, 0),
+    side: "final",
+    round_number: 2,
+    position: 0,
+    slots: [winnerOf(final.key), loserOf(final.key)],
+  };
+  return [...winners, ...losers, final, reset];
+}
+
+/** The double-elimination reset final, played only when the first final's away side wins it. */
+export const isResetFinal = (node: { side: BracketSide | null; round_number: number }) =>
+  node.side === "final" && node.round_number > 1;
+
+// ─── Advancement ─────────────────────────────────────────────────────────────
+
+export type BracketNode = {
+  id: string;
+  side: BracketSide;
+  round_number: number;
+  /** Index within its side and round, top of the draw first. */
+  position: number;
+  status: string;
+  result_type: MatchplayResultType | null;
+  winning_entry_id: string | null;
+  home_entry_id: string | null;
+  away_entry_id: string | null;
+  /** Slot sources, with winner_of / loser_of pointing at other node ids. */
+  slots: [SlotSource, SlotSource];
+};
+
+export type ResolvedFixture = {
+  id: string;
+  home_entry_id: string | null;
+  away_entry_id: string | null;
+  /** Decided without being played: a walkover past a bye, or cancelled if both slots are byes. */
+  auto_result:
+    | { status: "walkover"; result_type: "walkover_home" | "walkover_away"; winning_entry_id: string }
+    | { status: "cancelled" }
+    | null;
+};
+
+const BYE = "bye" as const;
+/** An entry id, a bye, or undefined while it isn't known yet. */
+type SlotValue = string | typeof BYE | undefined;
+type Outcome = { winner: SlotValue; loser: SlotValue };
+
+/**
+ * Who plays in every fixture, given the results so far. A player facing a bye
+ * goes through without playing; a double forfeit sends a bye onward. The
+ * reset final is cancelled once the winners-bracket winner takes the first
+ * final. With `reseed`, each main-draw round after the first is re-drawn once the round
+ * before is complete, best remaining seed against the worst.
+ */
+export function resolveBracket(
+  nodes: BracketNode[],
+  options: { reseed: boolean; seedOf: Record<string, number> }
+): ResolvedFixture[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const outcomes = new Map<string, Outcome>();
+  const redraws = new Map<number, Map<string, [SlotValue, SlotValue]> | null>();
+
+  const seedRank = (v: SlotValue) =>
+    v === undefined || v === BYE ? Number.MAX_SAFE_INTEGER : options.seedOf[v] ?? Number.MAX_SAFE_INTEGER - 1;
+
+  const mainRound = (round: number) =>
+    nodes.filter((n) => n.side === "winners" && n.round_number === round).sort((a, b) => a.position - b.position);
+
+  // The re-drawn pairings for a main-draw round, or null while the round
+  // before is still being played.
+  const redraw = (round: number) => {
+    if (redraws.has(round)) return redraws.get(round)!;
+    const winners = mainRound(round - 1).map((n) => outcome(n).winner);
+    let drawn: Map<string, [SlotValue, SlotValue]> | null = null;
+    if (!winners.some((w) => w === undefined)) {
+      const ranked = [...winners].sort((a, b) => seedRank(a) - seedRank(b));
+      const order = bracketOrder(ranked.length);
+      drawn = new Map();
+      mainRound(round).forEach((n, j) => drawn!.set(n.id, [ranked[order[2 * j] - 1], ranked[order[2 * j + 1] - 1]]));
+    }
+    redraws.set(round, drawn);
+    return drawn;
+  };
+
+  const slotValue = (node: BracketNode, i: 0 | 1): SlotValue => {
+    if (options.reseed && node.side === "winners" && node.round_number > 1) {
+      return redraw(node.round_number)?.get(node.id)?.[i];
+    }
+    const src = node.slots[i];
+    if (src.type === "entry") return src.entry_id;
+    if (src.type === "bye") return BYE;
+    const from = byId.get(src.fixture);
+    if (!from) return BYE;
+    const o = outcome(from);
+    if (isResetFinal(node)) {
+      if (o.winner === undefined) return undefined;
+      // The winners-bracket winner (home in the first final) held on: no reset.
+      if (o.winner === slotValue(from, 0)) return BYE;
+    }
+    return src.type === "winner_of" ? o.winner : o.loser;
+  };
+
+  const outcome = (node: BracketNode): Outcome => {
+    const cached = outcomes.get(node.id);
+    if (cached) return cached;
+
+    let result: Outcome = { winner: undefined, loser: undefined };
+    if (node.result_type === "double_withdrawal") {
+      result = { winner: BYE, loser: BYE };
+    } else if (node.winning_entry_id && (node.status === "completed" || node.status === "walkover")) {
+      const loser = node.winning_entry_id === node.home_entry_id ? node.away_entry_id : node.home_entry_id;
+      result = { winner: node.winning_entry_id, loser: loser ?? BYE };
+    } else {
+      const home = slotValue(node, 0);
+      const away = slotValue(node, 1);
+      if (home === BYE && away !== undefined) result = { winner: away, loser: BYE };
+      else if (away === BYE && home !== undefined) result = { winner: home, loser: BYE };
+    }
+
+    if (result.winner !== undefined) outcomes.set(node.id, result);
+    return result;
+  };
+
+  return nodes.map((node) => {
+    const home = slotValue(node, 0);
+    const away = slotValue(node, 1);
+    const entry = (v: SlotValue) => (v && v !== BYE ? v : null);
+
+    let auto_result: ResolvedFixture["auto_result"] = null;
+    if (node.status === "scheduled" && !node.result_type) {
+      if (home === BYE && away === BYE) auto_result = { status: "cancelled" };
+      else if (home === BYE && away) auto_result = { status: "walkover", result_type: "walkover_away", winning_entry_id: away };
+      else if (away === BYE && home) auto_result = { status: "walkover", result_type: "walkover_home", winning_entry_id: home };
+    }
+
+    return { id: node.id, home_entry_id: entry(home), away_entry_id: entry(away), auto_result };
+  });
+}
@@ -0,0 +1,260 @@
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  BRACKET_SIDE_LABELS,
+  parseBracketConfig,
+  planBracket,
+  resolveBracket,
+  seedEntrants,
+  type BracketConfig,
+  type BracketNode,
+  type BracketSide,
+  type SeedEntrant,
+  type SlotSource,
+} from "./knockoutBracket";
+
+const SIDE_ORDER: BracketSide[] = ["winners", "losers", "plate", "final"];
+const SIDE_STAGE_TYPE: Record<BracketSide, string> = {
+  winners: "custom",
+  losers: "placement",
+  plate: "placement",
+  final: "final",
+};
+
+/**
+ * Active entrants with what seeding needs: the handicap index snapshotted at
+ * entry and, when the event sits in a group season, their order-of-merit place.
+ */
+export async function loadSeedEntrants(event: { id: string; group_season_id: string | null }): Promise<SeedEntrant[]> {
+  const { data: entries, error } = await supabaseAdmin
+    .from("event_entries")
+    .select("id, profile_id, assigned_handicap_index")
+    .eq("event_id", event.id)
+    .in("entry_status", ["entered", "approved"])
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  const merit = new Map<string, number>();
+  if (event.group_season_id) {
+    const { data: standings } = await supabaseAdmin
+      .from("group_season_standings_entries")
+      .select("profile_id, position")
+      .eq("group_season_id", event.group_season_id);
+    for (const s of (standings ?? []) as any[]) {
+      if (s.position != null) merit.set(s.profile_id, s.position);
+    }
+  }
+
+  return ((entries ?? []) as any[]).map((e) => ({
+    entry_id: e.id,
+    handicap_index: e.assigned_handicap_index != null ? Number(e.assigned_handicap_index) : null,
+    merit_position: merit.get(e.profile_id) ?? null,
+  }));
+}
+
+/** The event's bracket stages (those with a bracket_side). */
+async function loadBracketStages(eventId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("matchplay_stages")
+    .select("id, bracket_side")
+    .eq("event_id", eventId)
+    .not("bracket_side", "is", null);
+  if (error) throw error;
+  return (data ?? []) as { id: string; bracket_side: BracketSide }[];
+}
+
+/**
+ * Seed the field and lay out the bracket as stages, fixtures and slots, then
+ * settle the byes. Seeds are written back to event_entries.seed.
+ */
+export async function generateBracket(
+  eventId: string,
+  config: BracketConfig,
+  randomSeed: number
+): Promise<{ fixtures: number }> {
+  const { data: event, error: eventErr } = await supabaseAdmin
+    .from("events")
+    .select("id, group_season_id")
+    .eq("id", eventId)
+    .single();
+  if (eventErr) throw eventErr;
+
+  const seeded = seedEntrants(await loadSeedEntrants(event as any), config.seeding, randomSeed);
+  const plan = planBracket(seeded, config.template);
+  if (plan.length === 0) throw new Error("At least 2 entries required to draw a bracket");
+
+  await Promise.all(
+    seeded.map((entryId, i) => supabaseAdmin.from("event_entries").update({ seed: i + 1 }).eq("id", entryId))
+  );
+
+  const sides = SIDE_ORDER.filter((side) => plan.some((f) => f.side === side));
+  const { data: stages, error: stageErr } = await supabaseAdmin
+    .from("matchplay_stages")
+    .insert(
+      sides.map((side, i) => ({
+        event_id: eventId,
+        stage_type: SIDE_STAGE_TYPE[side],
+        name: side === "winners" && config.template === "double" ? "Winners Bracket" : BRACKET_SIDE_LABELS[side],
+        sort_order: i,
+        bracket_side: side,
+      }))
+    )
+    .select("id, bracket_side");
+  if (stageErr) throw stageErr;
+  const stageBySide = new Map(((stages ?? []) as any[]).map((s) => [s.bracket_side as BracketSide, s.id as string]));
+
+  // Ids are assigned here so slots can point at fixtures in the same batch.
+  const idByKey = new Map(plan.map((f) => [f.key, randomUUID()]));
+  const { error: fixtureErr } = await supabaseAdmin.from("matchplay_fixtures").insert(
+    plan.map((f) => ({
+      id: idByKey.get(f.key),
+      event_id: eventId,
+      stage_id: stageBySide.get(f.side),
+      round_number: f.round_number,
+      bracket_position: f.position,
+      status: "scheduled",
+    }))
+  );
+  if (fixtureErr) throw fixtureErr;
+
+  const slotRow = (src: SlotSource) =>
+    src.type === "entry"
+      ? { source_type: "entry", source_entry_id: src.entry_id, source_fixture_id: null }
+      : src.type === "bye"
+      ? { source_type: "bye", source_entry_id: null, source_fixture_id: null }
+      : {
+          source_type: src.type === "winner_of" ? "winner_of_fixture" : "loser_of_fixture",
+          source_entry_id: null,
+          source_fixture_id: idByKey.get(src.fixture),
+        };
+
+  const { error: slotErr } = await supabaseAdmin.from("matchplay_bracket_slots").insert(
+    plan.flatMap((f) =>
+      f.slots.map((src, i) => ({
+        event_id: eventId,
+        stage_id: stageBySide.get(f.side),
+        fixture_id: idByKey.get(f.key),
+        slot_number: i + 1,
+        ...slotRow(src),
+      }))
+    )
+  );
+  if (slotErr) throw slotErr;
+
+  await advanceBracket(eventId);
+  return { fixtures: plan.length };
+}
+
+/** Remove a bracket that hasn't had a result recorded yet. */
+export async function deleteBracket(eventId: string): Promise<void> {
+  const stageIds = (await loadBracketStages(eventId)).map((s) => s.id);
+  if (stageIds.length === 0) return;
+
+  const { count } = await supabaseAdmin
+    .from("matchplay_fixtures")
+    .select("id", { count: "exact", head: true })
+    .in("stage_id", stageIds)
+    .in("status", ["completed", "live"]);
+  if ((count ?? 0) > 0) throw new Error("Results have been recorded — the bracket can no longer be redrawn");
+
+  // Slots go with their fixtures; stages only null out stage_id, so fixtures first.
+  const { error: fixErr } = await supabaseAdmin.from("matchplay_fixtures").delete().in("stage_id", stageIds);
+  if (fixErr) throw fixErr;
+  const { error } = await supabaseAdmin.from("matchplay_stages").delete().in("id", stageIds);
+  if (error) throw error;
+}
+
+/**
+ * Fill every bracket fixture's players from the results so far — winners and
+ * losers routed to their slots, byes recorded as walkovers — and write back
+ * whatever changed. Safe to run after any result; a no-op without a bracket.
+ */
+export async function advanceBracket(eventId: string): Promise<{ updated: number }> {
+  const stages = await loadBracketStages(eventId);
+  if (stages.length === 0) return { updated: 0 };
+  const sideByStage = new Map(stages.map((s) => [s.id, s.bracket_side]));
+
+  const [eventRes, fixturesRes, slotsRes, entriesRes] = await Promise.all([
+    supabaseAdmin.from("events").select("bracket_config").eq("id", eventId).single(),
+    supabaseAdmin
+      .from("matchplay_fixtures")
+      .select("id, stage_id, round_number, bracket_position, status, result_type, winning_entry_id, home_entry_id, away_entry_id")
+      .in("stage_id", [...sideByStage.keys()]),
+    supabaseAdmin
+      .from("matchplay_bracket_slots")
+      .select("id, fixture_id, slot_number, source_type, source_entry_id, source_fixture_id")
+      .eq("event_id", eventId),
+    supabaseAdmin.from("event_entries").select("id, seed").eq("event_id", eventId).not("seed", "is", null),
+  ]);
+  if (eventRes.error) throw eventRes.error;
+  if (fixturesRes.error) throw fixturesRes.error;
+  if (slotsRes.error) throw slotsRes.error;
+  if (entriesRes.error) throw entriesRes.error;
+
+  const config = parseBracketConfig((eventRes.data as any)?.bracket_config);
+  const slotsByFixture = new Map<string, any[]>();
+  for (const s of (slotsRes.data ?? []) as any[]) {
+    slotsByFixture.set(s.fixture_id, [...(slotsByFixture.get(s.fixture_id) ?? []), s]);
+  }
+
+  const toSource = (slot: any): SlotSource =>
+    slot?.source_type === "entry" && slot.source_entry_id
+      ? { type: "entry", entry_id: slot.source_entry_id }
+      : slot?.source_type === "winner_of_fixture" || slot?.source_type === "loser_of_fixture"
+      ? { type: slot.source_type === "winner_of_fixture" ? "winner_of" : "loser_of", fixture: slot.source_fixture_id }
+      : { type: "bye" };
+
+  const fixtures = (fixturesRes.data ?? []) as any[];
+  const nodes: BracketNode[] = fixtures.map((f) => {
+    const slots = slotsByFixture.get(f.id) ?? [];
+    return {
+      id: f.id,
+      side: sideByStage.get(f.stage_id)!,
+      round_number: f.round_number ?? 1,
+      position: f.bracket_position ?? 0,
+      status: f.status,
+      result_type: f.result_type,
+      winning_entry_id: f.winning_entry_id,
+      home_entry_id: f.home_entry_id,
+      away_entry_id: f.away_entry_id,
+      slots: [toSource(slots.find((s) => s.slot_number === 1)), toSource(slots.find((s) => s.slot_number === 2))],
+    };
+  });
+
+  const seedOf = Object.fromEntries(((entriesRes.data ?? []) as any[]).map((e) => [e.id, e.seed]));
+  const resolved = resolveBracket(nodes, { reseed: config.reseed, seedOf });
+  const byId = new Map(fixtures.map((f) => [f.id, f]));
+  const now = new Date().toISOString();
+  let updated = 0;
+
+  for (const r of resolved) {
+    const f = byId.get(r.id);
+    const decided = !!f.result_type;
+    const update: Record<string, unknown> = {};
+    if (!decided && (f.home_entry_id !== r.home_entry_id || f.away_entry_id !== r.away_entry_id)) {
+      update.home_entry_id = r.home_entry_id;
+      update.away_entry_id = r.away_entry_id;
+    }
+    if (r.auto_result?.status === "walkover") {
+      Object.assign(update, { ...r.auto_result, approved_at: now, notes: "Bye" });
+    } else if (r.auto_result?.status === "cancelled" && f.status !== "cancelled") {
+      update.status = "cancelled";
+    }
+    if (Object.keys(update).length === 0) continue;
+
+    const { error } = await supabaseAdmin.from("matchplay_fixtures").update(update).eq("id", r.id);
+    if (error) throw error;
+    updated++;
+
+    // Keep the slots' resolved entries in step for anything reading them directly.
+    for (const slot of slotsByFixture.get(r.id) ?? []) {
+      if (slot.source_type === "entry" || slot.source_type === "bye") continue;
+      const entryId = slot.slot_number === 1 ? r.home_entry_id : r.away_entry_id;
+      if (slot.source_entry_id !== entryId) {
+        await supabaseAdmin.from("matchplay_bracket_slots").update({ source_entry_id: entryId }).eq("id", slot.id);
+      }
+    }
+  }
+
+  return { updated };
+}
@@ -58,3 +58,16 @@ export function isMatchplayLeague(type: EventTypeV2 | undefined | null) {
 export function isMatchplayKnockout(type: EventTypeV2 | undefined | null) {
   return type === "matchplay_knockout_match";
 }
+
+/** Ryder Cup style: two teams over sessions of four-balls, foursomes and singles. */
+export function isTeamMatchEvent(type: EventTypeV2 | undefined | null) {
+  return type === "team_match";
+}
+
+/** Round format a tee time's round is created with for an event type. */
+export function roundFormatForEventType(type: EventTypeV2 | string | undefined | null): "stableford" | "matchplay" | "strokeplay" {
+  if (type === "stableford") return "stableford";
+  if (isMatchplayLeague(type as EventTypeV2) || isMatchplayKnockout(type as EventTypeV2)) return "matchplay";
+  if (isTeamMatchEvent(type as EventTypeV2)) return "matchplay";
+  return "strokeplay";
+}
@@ -0,0 +1,127 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createNotification } from "@/lib/notifications/notify";
+import { deadlineAction, parseLeagueConfig } from "./matchplayLeague";
+import { recomputeLeagueTable } from "./matchplayLeagueData";
+
+/**
+ * Walks unplayed league fixtures with a play-by deadline. Fixtures inside the
+ * league's reminder window get one reminder to both players; fixtures past
+ * their deadline are recorded as a walkover to whoever said they were
+ * available, or a double forfeit, and the league table is rebuilt.
+ *
+ * Runs daily from the auto-complete-rounds cron.
+ */
+export async function runLeagueDeadlineSweep(now: Date = new Date()): Promise<{
+  processed: number;
+  reminded: number;
+  walkovers: number;
+  errors: string[];
+}> {
+  const nowIso = now.toISOString();
+
+  const { data: fixtures, error } = await supabaseAdmin
+    .from("matchplay_fixtures")
+    .select(`
+      id, event_id, status, deadline_at, reminder_sent_at,
+      home_entry_id, away_entry_id, available_entry_ids,
+      home_entry:event_entries!home_entry_id(profile_id, profile:profiles(name)),
+      away_entry:event_entries!away_entry_id(profile_id, profile:profiles(name)),
+      event:events(name, league_config)
+    `)
+    .eq("status", "scheduled")
+    .not("deadline_at", "is", null)
+    .or(`reminder_sent_at.is.null,deadline_at.lte.${nowIso}`)
+    .order("deadline_at", { ascending: true })
+    .limit(500);
+
+  if (error) throw new Error(error.message);
+
+  let reminded = 0;
+  let walkovers = 0;
+  const errors: string[] = [];
+  const touchedEvents = new Set<string>();
+
+  for (const f of (fixtures ?? []) as any[]) {
+    try {
+      const config = parseLeagueConfig(f.event?.league_config);
+      const action = deadlineAction(
+        { ...f, available_entry_ids: f.available_entry_ids ?? [] },
+        now,
+        config.reminder_days
+      );
+      if (!action) continue;
+
+      const sides = [
+        { profileId: f.home_entry?.profile_id, opponent: f.away_entry?.profile?.name ?? null, won: "walkover_home" },
+        { profileId: f.away_entry?.profile_id, opponent: f.home_entry?.profile?.name ?? null, won: "walkover_away" },
+      ];
+      const base = { event_id: f.event_id, event_name: f.event?.name ?? null, fixture_id: f.id };
+
+      if (action.kind === "remind") {
+        await supabaseAdmin.from("matchplay_fixtures").update({ reminder_sent_at: nowIso }).eq("id", f.id);
+        for (const side of sides) {
+          await createNotification({
+            recipientProfileId: side.profileId,
+            type: "league_fixture_reminder",
+            payload: { ...base, opponent_name: side.opponent, deadline_at: f.deadline_at },
+          });
+        }
+        reminded++;
+        continue;
+      }
+
+      const winningEntryId =
+        action.result_type === "walkover_home"
+          ? f.home_entry_id
+          : action.result_type === "walkover_away"
+          ? f.away_entry_id
+          : null;
+
+      const { error: updErr } = await supabaseAdmin
+        .from("matchplay_fixtures")
+        .update({
+          status: "walkover",
+          result_type: action.result_type,
+          winning_entry_id: winningEntryId,
+          approved_at: nowIso,
+          notes: "Not played by the deadline",
+        })
+        .eq("id", f.id)
+        .eq("status", "scheduled");
+      if (updErr) throw updErr;
+
+      await supabaseAdmin.from("event_audit_log").insert({
+        event_id: f.event_id,
+        actor_profile_id: null,
+        action_type: "fixture_deadline_walkover",
+        payload: { fixture_id: f.id, result_type: action.result_type },
+      });
+
+      for (const side of sides) {
+        await createNotification({
+          recipientProfileId: side.profileId,
+          type: "league_fixture_walkover",
+          payload: {
+            ...base,
+            opponent_name: side.opponent,
+            outcome: action.result_type === side.won ? "won" : "forfeited",
+          },
+        });
+      }
+      touchedEvents.add(f.event_id);
+      walkovers++;
+    } catch (e: any) {
+      errors.push(`fixture ${f.id}: ${e?.message ?? e}`);
+    }
+  }
+
+  for (const eventId of touchedEvents) {
+    try {
+      await recomputeLeagueTable(eventId);
+    } catch (e: any) {
+      errors.push(`league table ${eventId}: ${e?.message ?? e}`);
+    }
+  }
+
+  return { processed: fixtures?.length ?? 0, reminded, walkovers, errors };
+}
@@ -0,0 +1,293 @@
+/**
+ * Matchplay league engine — round-robin fixture schedules, play-by deadlines
+ * and the league table. Pure: matchplayLeagueData.ts loads and writes the rows.
+ */
+
+import type { MatchplayResultType } from "./types";
+
+export type LeagueTiebreaker = "head_to_head" | "holes_up" | "countback";
+
+export type LeagueConfig = {
+  /** 1 = single round robin, 2 = double (home and away). */
+  legs: 1 | 2;
+  /** Days each round of fixtures has to be played. */
+  round_days: number;
+  /** Days before the deadline that both players are reminded. */
+  reminder_days: number;
+  points_win: number;
+  points_half: number;
+  points_loss: number;
+  /** Applied in order when players are level on points. */
+  tiebreakers: LeagueTiebreaker[];
+};
+
+export const DEFAULT_LEAGUE_CONFIG: LeagueConfig = {
+  legs: 1,
+  round_days: 14,
+  reminder_days: 3,
+  points_win: 2,
+  points_half: 1,
+  points_loss: 0,
+  tiebreakers: ["head_to_head", "holes_up", "countback"],
+};
+
+export const LEAGUE_TIEBREAKER_LABELS: Record<LeagueTiebreaker, string> = {
+  head_to_head: "Head-to-head",
+  holes_up: "Holes up",
+  countback: "Countback",
+};
+
+const TIEBREAKERS = Object.keys(LEAGUE_TIEBREAKER_LABELS) as LeagueTiebreaker[];
+
+const numOr = (v: unknown, fallback: number, min = 0): number =>
+  typeof v === "number" && Number.isFinite(v) && v >= min ? v : fallback;
+
+/** Coerce the stored jsonb into a config, filling anything missing from the defaults. */
+export function parseLeagueConfig(raw: unknown): LeagueConfig {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const d = DEFAULT_LEAGUE_CONFIG;
+  const tiebreakers = Array.isArray(r.tiebreakers)
+    ? [...new Set(r.tiebreakers.filter((t): t is LeagueTiebreaker => TIEBREAKERS.includes(t as LeagueTiebreaker)))]
+    : d.tiebreakers;
+  return {
+    legs: r.legs === 2 ? 2 : 1,
+    round_days: Math.floor(numOr(r.round_days, d.round_days, 1)),
+    reminder_days: Math.floor(numOr(r.reminder_days, d.reminder_days)),
+    points_win: numOr(r.points_win, d.points_win),
+    points_half: numOr(r.points_half, d.points_half),
+    points_loss: numOr(r.points_loss, d.points_loss),
+    tiebreakers,
+  };
+}
+
+// ─── Schedule ────────────────────────────────────────────────────────────────
+
+export type ScheduledFixture = { round_number: number; home_entry_id: string; away_entry_id: string };
+
+/**
+ * Round-robin by the circle method: the first entry stays put while the rest
+ * rotate, so everyone meets once per leg and plays at most once a round. An
+ * odd field gets a bye each round. Home and away alternate round to round; the
+ * second leg replays the first with home and away swapped.
+ */
+export function roundRobinSchedule(entryIds: string[], legs: 1 | 2 = 1): ScheduledFixture[] {
+  const slots: (string | null)[] = [...entryIds];
+  if (slots.length % 2 === 1) slots.push(null);
+  const n = slots.length;
+  if (n < 2) return [];
+
+  const firstLeg: ScheduledFixture[] = [];
+  let ring = slots.slice(1);
+  for (let round = 1; round < n; round++) {
+    const order = [slots[0], ...ring];
+    for (let i = 0; i < n / 2; i++) {
+      const a = order[i];
+      const b = order[n - 1 - i];
+      if (!a || !b) continue;
+      // The fixed entry swaps ends each round; the rest alternate by pairing slot.
+      const flip = i === 0 ? round % 2 === 0 : i % 2 === 1;
+      firstLeg.push({
+        round_number: round,
+        home_entry_id: flip ? b : a,
+        away_entry_id: flip ? a : b,
+      });
+    }
+    ring = [ring[ring.length - 1], ...ring.slice(0, -1)];
+  }
+
+  if (legs === 1) return firstLeg;
+  const rounds = n - 1;
+  return [
+    ...firstLeg,
+    ...firstLeg.map((f) => ({
+      round_number: f.round_number + rounds,
+      home_entry_id: f.away_entry_id,
+      away_entry_id: f.home_entry_id,
+    })),
+  ];
+}
+
+/**
+ * Play-by deadline for a round: the last day of its window, 23:59 UTC.
+ * Round 1 runs from startDate for roundDays days, round 2 the block after.
+ */
+export function roundDeadline(startDate: string, roundNumber: number, roundDays: number): string {
+  const [y, m, d] = startDate.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + roundNumber * roundDays - 1, 23, 59, 59)).toISOString();
+}
+
+// ─── Deadlines ───────────────────────────────────────────────────────────────
+
+export type DeadlineFixture = {
+  status: string;
+  deadline_at: string | null;
+  reminder_sent_at: string | null;
+  home_entry_id: string | null;
+  away_entry_id: string | null;
+  /** Entries that have said they're available to play. */
+  available_entry_ids: string[];
+};
+
+export type DeadlineAction =
+  | { kind: "remind" }
+  | { kind: "walkover"; result_type: Extract<MatchplayResultType, "walkover_home" | "walkover_away" | "double_withdrawal"> };
+
+/**
+ * What the deadline sweep should do with a fixture. Once the deadline passes
+ * an unplayed fixture goes to the only player who said they were available;
+ * if neither (or both) did, it is a double forfeit.
+ */
+export function deadlineAction(fixture: DeadlineFixture, now: Date, reminderDays: number): DeadlineAction | null {
+  if (fixture.status !== "scheduled" || !fixture.deadline_at) return null;
+  const deadline = new Date(fixture.deadline_at).getTime();
+
+  if (deadline <= now.getTime()) {
+    const home = !!fixture.home_entry_id && fixture.available_entry_ids.includes(fixture.home_entry_id);
+    const away = !!fixture.away_entry_id && fixture.available_entry_ids.includes(fixture.away_entry_id);
+    const result_type = home && !away ? "walkover_home" : away && !home ? "walkover_away" : "double_withdrawal";
+    return { kind: "walkover", result_type };
+  }
+
+  if (!fixture.reminder_sent_at && deadline - now.getTime() <= reminderDays * 86_400_000) {
+    return { kind: "remind" };
+  }
+  return null;
+}
+
+// ─── League table ────────────────────────────────────────────────────────────
+
+export type LeagueResult = {
+  round_number: number | null;
+  home_entry_id: string | null;
+  away_entry_id: string | null;
+  result_type: MatchplayResultType | null;
+  /** Holes up at the finish ("3&2" → 3). Walkovers carry none. */
+  margin_holes: number | null;
+};
+
+export type LeagueRow = {
+  entry_id: string;
+  played: number;
+  won: number;
+  halved: number;
+  lost: number;
+  points: number;
+  holes_for: number;
+  holes_against: number;
+  position: number;
+};
+
+type Outcome = "win" | "half" | "loss";
+
+function outcomes(r: LeagueResult): { home: Outcome; away: Outcome } | null {
+  switch (r.result_type) {
+    case "home_win":
+    case "walkover_home":
+      return { home: "win", away: "loss" };
+    case "away_win":
+    case "walkover_away":
+      return { home: "loss", away: "win" };
+    case "halved":
+      return { home: "half", away: "half" };
+    case "double_withdrawal":
+      return { home: "loss", away: "loss" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the league table from decided fixtures. Walkovers count as a win and a
+ * loss (no holes); a double forfeit is a loss for both. Players level on points
+ * are separated by the configured tiebreakers in order:
+ *   head_to_head — points from games between the tied players only
+ *   holes_up     — holes won by minus holes lost by
+ *   countback    — points in the latest round, then the round before, …
+ * Players still level share a position.
+ */
+export function computeLeagueTable(entryIds: string[], results: LeagueResult[], config: LeagueConfig): LeagueRow[] {
+  const pts: Record<Outcome, number> = { win: config.points_win, half: config.points_half, loss: config.points_loss };
+  const rows = new Map<string, LeagueRow>(
+    entryIds.map((id) => [
+      id,
+      { entry_id: id, played: 0, won: 0, halved: 0, lost: 0, points: 0, holes_for: 0, holes_against: 0, position: 0 },
+    ])
+  );
+  const byRound = new Map<string, Map<number, number>>();
+  const decided: { home: string; away: string; o: { home: Outcome; away: Outcome } }[] = [];
+
+  const record = (id: string, o: Outcome, margin: number, round: number | null) => {
+    const row = rows.get(id);
+    if (!row) return;
+    row.played++;
+    if (o === "win") { row.won++; row.holes_for += margin; }
+    else if (o === "half") row.halved++;
+    else { row.lost++; row.holes_against += margin; }
+    row.points += pts[o];
+    const rounds = byRound.get(id) ?? new Map<number, number>();
+    rounds.set(round ?? 0, (rounds.get(round ?? 0) ?? 0) + pts[o]);
+    byRound.set(id, rounds);
+  };
+
+  for (const r of results) {
+    const o = outcomes(r);
+    if (!o || !r.home_entry_id || !r.away_entry_id) continue;
+    const margin = r.result_type === "home_win" || r.result_type === "away_win" ? Math.max(0, r.margin_holes ?? 0) : 0;
+    record(r.home_entry_id, o.home, margin, r.round_number);
+    record(r.away_entry_id, o.away, margin, r.round_number);
+    decided.push({ home: r.home_entry_id, away: r.away_entry_id, o });
+  }
+
+  const headToHead = (group: Set<string>) => {
+    const h2h = new Map<string, number>();
+    for (const d of decided) {
+      if (!group.has(d.home) || !group.has(d.away)) continue;
+      h2h.set(d.home, (h2h.get(d.home) ?? 0) + pts[d.o.home]);
+      h2h.set(d.away, (h2h.get(d.away) ?? 0) + pts[d.o.away]);
+    }
+    return h2h;
+  };
+
+  const countback = (a: string, b: string) => {
+    const ra = byRound.get(a) ?? new Map<number, number>();
+    const rb = byRound.get(b) ?? new Map<number, number>();
+    const rounds = [...new Set([...ra.keys(), ...rb.keys()])].sort((x, y) => y - x);
+    for (const round of rounds) {
+      const diff = (rb.get(round) ?? 0) - (ra.get(round) ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+
+  const byPoints = new Map<number, LeagueRow[]>();
+  for (const row of rows.values()) byPoints.set(row.points, [...(byPoints.get(row.points) ?? []), row]);
+
+  const ordered: LeagueRow[] = [];
+  const tieKey = new Map<LeagueRow, string>();
+  for (const points of [...byPoints.keys()].sort((a, b) => b - a)) {
+    const group = byPoints.get(points)!;
+    const h2h = group.length > 1 ? headToHead(new Set(group.map((r) => r.entry_id))) : new Map<string, number>();
+    const compare = (a: LeagueRow, b: LeagueRow) => {
+      for (const t of config.tiebreakers) {
+        const diff =
+          t === "head_to_head"
+            ? (h2h.get(b.entry_id) ?? 0) - (h2h.get(a.entry_id) ?? 0)
+            : t === "holes_up"
+            ? b.holes_for - b.holes_against - (a.holes_for - a.holes_against)
+            : countback(a.entry_id, b.entry_id);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    };
+    const sorted = [...group].sort(compare);
+    sorted.forEach((row, i) => {
+      tieKey.set(row, i > 0 && compare(sorted[i - 1], row) === 0 ? tieKey.get(sorted[i - 1])! : `${points}:${i}`);
+    });
+    ordered.push(...sorted);
+  }
+
+  ordered.forEach((row, i) => {
+    row.position = i > 0 && tieKey.get(ordered[i - 1]) === tieKey.get(row) ? ordered[i - 1].position : i + 1;
+  });
+  return ordered;
+}
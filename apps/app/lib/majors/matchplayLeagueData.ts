@@ -0,0 +1,79 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { computeLeagueTable, parseLeagueConfig, type LeagueResult } from "./matchplayLeague";
+
+/**
+ * Rebuild matchplay_league_table_entries for an event from its decided
+ * fixtures, one table per league or group stage, using the event's
+ * league_config. Everyone drawn in a stage gets a row, so players yet to play
+ * still show. Knockout stages are skipped.
+ */
+export async function recomputeLeagueTable(eventId: string): Promise<void> {
+  const [eventRes, stagesRes, entriesRes, fixturesRes] = await Promise.all([
+    supabaseAdmin.from("events").select("league_config").eq("id", eventId).maybeSingle(),
+    supabaseAdmin.from("matchplay_stages").select("id, stage_type").eq("event_id", eventId),
+    supabaseAdmin
+      .from("event_entries")
+      .select("id, profile_id")
+      .eq("event_id", eventId)
+      .in("entry_status", ["entered", "approved"]),
+    supabaseAdmin
+      .from("matchplay_fixtures")
+      .select("stage_id, round_number, home_entry_id, away_entry_id, result_type, margin_holes, status")
+      .eq("event_id", eventId)
+      .neq("status", "cancelled"),
+  ]);
+  if (eventRes.error) throw eventRes.error;
+  if (stagesRes.error) throw stagesRes.error;
+  if (entriesRes.error) throw entriesRes.error;
+  if (fixturesRes.error) throw fixturesRes.error;
+
+  const config = parseLeagueConfig((eventRes.data as any)?.league_config);
+  const profileByEntry = new Map<string, string>(
+    ((entriesRes.data ?? []) as any[]).map((e) => [e.id, e.profile_id])
+  );
+
+  const knockoutStages = new Set(
+    ((stagesRes.data ?? []) as any[])
+      .filter((s) => s.stage_type !== "league_phase" && s.stage_type !== "group_phase")
+      .map((s) => s.id)
+  );
+
+  const byStage = new Map<string | null, { entryIds: Set<string>; results: LeagueResult[] }>();
+  for (const f of (fixturesRes.data ?? []) as any[]) {
+    if (knockoutStages.has(f.stage_id)) continue;
+    const stage = byStage.get(f.stage_id) ?? { entryIds: new Set<string>(), results: [] };
+    for (const id of [f.home_entry_id, f.away_entry_id]) {
+      if (id && profileByEntry.has(id)) stage.entryIds.add(id);
+    }
+    if (f.status === "completed" || f.status === "walkover") stage.results.push(f);
+    byStage.set(f.stage_id, stage);
+  }
+
+  const { error: delErr } = await supabaseAdmin
+    .from("matchplay_league_table_entries")
+    .delete()
+    .eq("event_id", eventId);
+  if (delErr) throw delErr;
+
+  const now = new Date().toISOString();
+  const rows = [...byStage.entries()].flatMap(([stageId, { entryIds, results }]) =>
+    computeLeagueTable([...entryIds], results, config).map((r) => ({
+      event_id: eventId,
+      stage_id: stageId,
+      profile_id: profileByEntry.get(r.entry_id)!,
+      played: r.played,
+      won: r.won,
+      halved: r.halved,
+      lost: r.lost,
+      league_points: r.points,
+      matches_for: r.holes_for,
+      matches_against: r.holes_against,
+      position: r.position,
+      last_computed_at: now,
+    }))
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin.from("matchplay_league_table_entries").insert(rows);
+  if (error) throw error;
+}
@@ -1,4 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { haversineMeters } from "@/lib/geo";
+import { handicapRangeOverlaps, parseEligibilityRules } from "./eligibility";
 import type {
   MajorGroup,
   MajorGroupMembershipWithProfile,
@@ -7,6 +9,7 @@ import type {
   GroupStandingWithProfile,
   MajorHubSummary,
   MajorScheduleItem,
+  PublicEventListing,
   MajorHistoryItem,
   MajorProfileData,
   CompetitionWithEventTemplates,
@@ -291,6 +294,109 @@ export async function getMajorSchedule(
   });
 }
 
+// ─── Public discovery ────────────────────────────────────────────────────────
+
+/**
+ * Upcoming public events for /majors/discover. Date filtering happens in the
+ * query; handicap range and distance (to the event's course) are applied
+ * afterwards since they depend on jsonb rules and course coordinates.
+ */
+export async function getPublicEvents(
+  profileId: string,
+  filters: {
+    from?: string;
+    to?: string;
+    lat?: number | null;
+    lng?: number | null;
+    radiusKm?: number | null;
+    hcpMin?: number | null;
+    hcpMax?: number | null;
+    sort?: "date" | "distance";
+    limit?: number;
+  } = {}
+): Promise<PublicEventListing[]> {
+  const from = filters.from ?? new Date().toISOString().slice(0, 10);
+
+  let query = supabaseAdmin
+    .from("events")
+    .select("*, group:major_groups(id, name, type, ciaga_tag), course:courses(id, name, city, country, lat, lng)")
+    .eq("visibility", "public")
+    .not("majors_status", "in", "(draft,completed,cancelled,archived)")
+    .gte("event_date", from)
+    .order("event_date", { ascending: true })
+    .limit(filters.limit ?? 100);
+  if (filters.to) query = query.lte("event_date", filters.to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const hasOrigin = filters.lat != null && filters.lng != null;
+  let events = ((data ?? []) as any[])
+    .filter((e) =>
+      handicapRangeOverlaps(
+        parseEligibilityRules(e.eligibility_rules),
+        filters.hcpMin ?? null,
+        filters.hcpMax ?? null
+      )
+    )
+    .map((e) => {
+      const c = e.course;
+      const distance_km =
+        hasOrigin && c?.lat != null && c?.lng != null
+          ? haversineMeters(filters.lat!, filters.lng!, Number(c.lat), Number(c.lng)) / 1000
+          : null;
+      return { ...e, distance_km } as EventWithGroup & { distance_km: number | null };
+    });
+
+  if (hasOrigin && filters.radiusKm != null) {
+    events = events.filter((e) => e.distance_km != null && e.distance_km <= filters.radiusKm!);
+  }
+  if (filters.sort === "distance" && hasOrigin) {
+    events.sort((a, b) => (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity));
+  }
+
+  const eventIds = events.map((e) => e.id);
+  const entryCounts = new Map<string, number>();
+  let enteredIds = new Set<string>();
+  let requestedIds = new Set<string>();
+  if (eventIds.length > 0) {
+    const [{ data: entries }, { data: requests }] = await Promise.all([
+      supabaseAdmin.from("event_entries").select("event_id, profile_id").in("event_id", eventIds),
+      supabaseAdmin
+        .from("event_entry_requests")
+        .select("event_id")
+        .eq("profile_id", profileId)
+        .eq("status", "pending")
+        .in("event_id", eventIds),
+    ]);
+    for (const e of (entries ?? []) as any[]) {
+      entryCounts.set(e.event_id, (entryCounts.get(e.event_id) ?? 0) + 1);
+    }
+    enteredIds = new Set(
+      ((entries ?? []) as any[]).filter((e) => e.profile_id === profileId).map((e) => e.event_id as string)
+    );
+    requestedIds = new Set(((requests ?? []) as any[]).map((r) => r.event_id as string));
+  }
+
+  const now = new Date();
+
+  return events.map((e) => {
+    const entry_count = entryCounts.get(e.id) ?? 0;
+    let entry_status: PublicEventListing["entry_status"] = "open";
+    if (enteredIds.has(e.id)) {
+      entry_status = "entered";
+    } else if (requestedIds.has(e.id)) {
+      entry_status = "requested";
+    } else if (
+      (e.entry_window_end && new Date(e.entry_window_end) < now) ||
+      (e.max_entries != null && entry_count >= e.max_entries && !e.waitlist_enabled)
+    ) {
+      entry_status = "closed";
+    }
+    return { ...e, entry_count, entry_status };
+  });
+}
+
 // ─── History ─────────────────────────────────────────────────────────────────
 
 export async function getMajorHistory(
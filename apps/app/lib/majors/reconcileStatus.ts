@@ -186,6 +186,11 @@ export async function reconcileEventStatus(
       import("@/lib/fantasy/settlement")
         .then(({ settleFantasyEvent }) => settleFantasyEvent(eventId))
         .catch(() => {});
+      // Winner's cut for groups whose handicap committee has one; a tied
+      // event waits for its playoff (the playoff route records it then).
+      import("@/lib/majors/handicapCommitteeData")
+        .then(({ recordWinnersCuts }) => recordWinnersCuts(eventId))
+        .catch(() => {});
     }
   }
 }
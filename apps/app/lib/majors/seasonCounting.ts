@@ -0,0 +1,99 @@
+/**
+ * Season counting rules — which event results add up to a player's season
+ * total. Pure mirror of the selection in ciaga_compute_group_season_standings
+ * so the fantasy season simulation projects standings the same way.
+ */
+
+export type SeasonCountingMode = "all" | "best_n" | "drop_worst";
+
+export type SeasonCountingRule = {
+  mode: SeasonCountingMode;
+  /** best_n: results that count. drop_worst: results dropped. Ignored for "all". */
+  n: number | null;
+  /** Events that always count, whatever the player scored in them. */
+  mandatory_event_ids: string[];
+};
+
+export const SEASON_COUNTING_MODES: { value: SeasonCountingMode; label: string }[] = [
+  { value: "all", label: "Every result" },
+  { value: "best_n", label: "Best N" },
+  { value: "drop_worst", label: "Drop worst N" },
+];
+
+/** Read the rule off a group_seasons row, falling back to every result counting. */
+export function readCountingRule(row: {
+  counting_mode?: string | null;
+  counting_n?: number | null;
+  counting_mandatory_event_ids?: string[] | null;
+}): SeasonCountingRule {
+  const mode = row.counting_mode === "best_n" || row.counting_mode === "drop_worst" ? row.counting_mode : "all";
+  const n = row.counting_n != null && Number(row.counting_n) > 0 ? Math.floor(Number(row.counting_n)) : null;
+  const mandatory_event_ids = row.counting_mandatory_event_ids ?? [];
+  if (mode === "all" || n === null) return { mode: "all", n: null, mandatory_event_ids };
+  return { mode, n, mandatory_event_ids };
+}
+
+/**
+ * How many of a player's results count. Drop-worst is measured against the
+ * events held, so a player who missed two events has already used both drops.
+ * Null = no limit.
+ */
+export function countingLimit(rule: SeasonCountingRule, eventsHeld: number): number | null {
+  if (rule.mode === "best_n" && rule.n != null) return rule.n;
+  if (rule.mode === "drop_worst" && rule.n != null) return Math.max(0, eventsHeld - rule.n);
+  return null;
+}
+
+export type SeasonResult = { event_id: string; points: number };
+
+export type CountedResults = {
+  total: number;
+  counted: string[];
+  dropped: string[];
+  dropped_points: number;
+};
+
+/**
+ * Pick the counting results: mandatory events first, then the best of the rest
+ * up to the limit. Mandatory events still count when they alone exceed it.
+ * Equal points break on event id, matching the SQL.
+ */
+export function applyCountingRule(
+  results: SeasonResult[],
+  rule: SeasonCountingRule,
+  eventsHeld: number
+): CountedResults {
+  const limit = countingLimit(rule, eventsHeld);
+  const mandatory = new Set(rule.mandatory_event_ids);
+  const ordered = [...results].sort((a, b) => {
+    const ma = mandatory.has(a.event_id) ? 1 : 0;
+    const mb = mandatory.has(b.event_id) ? 1 : 0;
+    if (ma !== mb) return mb - ma;
+    if (a.points !== b.points) return b.points - a.points;
+    return a.event_id < b.event_id ? -1 : a.event_id > b.event_id ? 1 : 0;
+  });
+
+  const out: CountedResults = { total: 0, counted: [], dropped: [], dropped_points: 0 };
+  ordered.forEach((r, i) => {
+    if (limit === null || i < limit || mandatory.has(r.event_id)) {
+      out.total += r.points;
+      out.counted.push(r.event_id);
+    } else {
+      out.dropped_points += r.points;
+      out.dropped.push(r.event_id);
+    }
+  });
+  return out;
+}
+
+/** "Best 8 results count · 2 majors always count". */
+export function describeCountingRule(rule: SeasonCountingRule): string {
+  const base =
+    rule.mode === "best_n" && rule.n != null
+      ? `Best ${rule.n} result${rule.n === 1 ? "" : "s"} count`
+      : rule.mode === "drop_worst" && rule.n != null
+      ? `Worst ${rule.n} result${rule.n === 1 ? "" : "s"} dropped`
+      : "Every result counts";
+  const m = rule.mandatory_event_ids.length;
+  return m > 0 ? `${base} · ${m} major${m === 1 ? "" : "s"} always count${m === 1 ? "s" : ""}` : base;
+}
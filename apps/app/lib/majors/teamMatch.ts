@@ -0,0 +1,226 @@
+/**
+ * Team match (Ryder Cup style) engine — pure. Two named teams play sessions of
+ * four-balls, foursomes or singles; each match is scored hole by hole from the
+ * round's scores and is worth a point, halved matches a half each.
+ */
+
+import { strokesReceivedOnHole, netFromGross } from "@/lib/rounds/handicapUtils";
+import { teamPlayingHandicap } from "@/lib/rounds/whsDefaults";
+import { formatMatchPlayResult } from "@/lib/rounds/formatScoring";
+
+export type TeamMatchFormat = "fourball" | "foursomes" | "singles";
+
+export type TeamSide = "a" | "b";
+
+export type TeamMatchWinner = TeamSide | "halved";
+
+export const TEAM_MATCH_FORMAT_LABELS: Record<TeamMatchFormat, string> = {
+  fourball: "Four-balls",
+  foursomes: "Foursomes",
+  singles: "Singles",
+};
+
+/** Players per side for each session format. */
+export const SIDE_SIZE: Record<TeamMatchFormat, number> = {
+  fourball: 2,
+  foursomes: 2,
+  singles: 1,
+};
+
+export type MatchSidePlayer = {
+  /** round_participants.id */
+  participant_id: string;
+  playing_handicap: number | null;
+};
+
+export type MatchHole = {
+  hole_number: number;
+  stroke_index: number | null;
+};
+
+export type TeamMatchInput = {
+  format: TeamMatchFormat;
+  sideA: MatchSidePlayer[];
+  sideB: MatchSidePlayer[];
+  /** In play order (a two-tee start begins on the 10th). */
+  holes: MatchHole[];
+  /** `${participant_id}:${hole_number}` → gross strokes; missing = no score / picked up. */
+  scores: Record<string, number | null | undefined>;
+  /** Foursomes team handicaps when already stamped on the round; derived otherwise. */
+  sideHandicaps?: { a: number | null; b: number | null };
+  /** The round is finished, so an all-square match after the last hole is halved. */
+  roundFinished?: boolean;
+};
+
+export type TeamMatchState = {
+  /** Holes up from side A's point of view (negative = side B up). */
+  lead: number;
+  holes_played: number;
+  holes_remaining: number;
+  winner: TeamMatchWinner | null;
+  /** "3&2", "1 UP", "Halved" once decided; "2 UP", "AS", "Thru 0" while live. */
+  display: string;
+};
+
+function sideHandicap(format: TeamMatchFormat, side: MatchSidePlayer[], stamped: number | null | undefined): number | null {
+  if (format !== "foursomes") return null;
+  if (typeof stamped === "number") return stamped;
+  const hcps = side.map((p) => p.playing_handicap).filter((h): h is number => typeof h === "number");
+  return teamPlayingHandicap("foursomes", hcps);
+}
+
+/** A side's net score on a hole: best ball for four-balls, the one ball for foursomes. */
+function sideNet(
+  format: TeamMatchFormat,
+  side: MatchSidePlayer[],
+  teamHcp: number | null,
+  hole: MatchHole,
+  scores: TeamMatchInput["scores"],
+  holeCount: number
+): number | null {
+  if (format === "foursomes") {
+    // Alternate shot: whichever partner's card carries the team score.
+    for (const p of side) {
+      const gross = scores[`${p.participant_id}:${hole.hole_number}`];
+      if (typeof gross === "number") {
+        return netFromGross(gross, strokesReceivedOnHole(teamHcp, hole.stroke_index, holeCount));
+      }
+    }
+    return null;
+  }
+  let best: number | null = null;
+  for (const p of side) {
+    const gross = scores[`${p.participant_id}:${hole.hole_number}`];
+    if (typeof gross !== "number") continue;
+    const net = netFromGross(gross, strokesReceivedOnHole(p.playing_handicap, hole.stroke_index, holeCount));
+    if (best === null || net < best) best = net;
+  }
+  return best;
+}
+
+/**
+ * Running match state. Mirrors the individual matchplay engine: a hole only
+ * one side has scored goes to that side, and the match stops counting once
+ * the lead exceeds the holes left.
+ */
+export function scoreTeamMatch(input: TeamMatchInput): TeamMatchState {
+  const holeCount = input.holes.length;
+  const hcpA = sideHandicap(input.format, input.sideA, input.sideHandicaps?.a);
+  const hcpB = sideHandicap(input.format, input.sideB, input.sideHandicaps?.b);
+
+  let lead = 0;
+  let played = 0;
+  for (const h of input.holes) {
+    const a = sideNet(input.format, input.sideA, hcpA, h, input.scores, holeCount);
+    const b = sideNet(input.format, input.sideB, hcpB, h, input.scores, holeCount);
+    if (a === null && b === null) continue;
+    played++;
+    if (b === null || (a !== null && a < b)) lead++;
+    else if (a === null || b < a) lead--;
+    if (Math.abs(lead) > holeCount - played) break;
+  }
+
+  const remaining = holeCount - played;
+  const decided = lead !== 0 && Math.abs(lead) > remaining;
+  const complete = remaining === 0 || (input.roundFinished ?? false);
+
+  if (decided || (complete && lead !== 0)) {
+    return {
+      lead,
+      holes_played: played,
+      holes_remaining: remaining,
+      winner: lead > 0 ? "a" : "b",
+      display: formatMatchPlayResult(Math.abs(lead), remaining),
+    };
+  }
+  if (complete && played > 0) {
+    return { lead: 0, holes_played: played, holes_remaining: remaining, winner: "halved", display: "Halved" };
+  }
+  return {
+    lead,
+    holes_played: played,
+    holes_remaining: remaining,
+    winner: null,
+    display: played === 0 ? "Thru 0" : lead === 0 ? "AS" : `${Math.abs(lead)} UP`,
+  };
+}
+
+/** Points each side takes from a finished match. */
+export function matchPoints(winner: TeamMatchWinner | null, pointsPerMatch = 1): { a: number; b: number } {
+  if (winner === "a") return { a: pointsPerMatch, b: 0 };
+  if (winner === "b") return { a: 0, b: pointsPerMatch };
+  if (winner === "halved") return { a: pointsPerMatch / 2, b: pointsPerMatch / 2 };
+  return { a: 0, b: 0 };
+}
+
+export type ScoreboardMatch = {
+  winner: TeamMatchWinner | null;
+  points_per_match: number;
+  /** Live lead, used only for the projected score. */
+  lead?: number;
+};
+
+export type TeamScoreboard = {
+  a: number;
+  b: number;
+  /** Points available across every match scheduled so far. */
+  total: number;
+  /** Points needed to win outright: more than half of the total. */
+  to_win: number;
+  /** Banked points plus matches in progress as they stand. */
+  projected: { a: number; b: number };
+  /** Set once a side can no longer be caught. */
+  clinched: TeamSide | null;
+};
+
+export function teamScoreboard(matches: ScoreboardMatch[]): TeamScoreboard {
+  let a = 0;
+  let b = 0;
+  let total = 0;
+  let projA = 0;
+  let projB = 0;
+  for (const m of matches) {
+    total += m.points_per_match;
+    if (m.winner) {
+      const pts = matchPoints(m.winner, m.points_per_match);
+      a += pts.a;
+      b += pts.b;
+      projA += pts.a;
+      projB += pts.b;
+    } else if (m.lead != null) {
+      const pts = matchPoints(m.lead > 0 ? "a" : m.lead < 0 ? "b" : "halved", m.points_per_match);
+      projA += pts.a;
+      projB += pts.b;
+    }
+  }
+  const toWin = total / 2 + (total > 0 ? 0.5 : 0);
+  const clinched: TeamSide | null = total > 0 && a >= toWin ? "a" : total > 0 && b >= toWin ? "b" : null;
+  return { a, b, total, to_win: toWin, projected: { a: projA, b: projB }, clinched };
+}
+
+/**
+ * Validate both captains' pairings for a session and pair them off in order
+ * (A's first pairing plays B's first pairing, and so on). Returns an error
+ * message rather than throwing so routes can surface it as a 400.
+ */
+export function pairSessionMatches(
+  format: TeamMatchFormat,
+  pairingsA: string[][],
+  pairingsB: string[][]
+): { matches: { side_a: string[]; side_b: string[] }[] } | { error: string } {
+  const size = SIDE_SIZE[format];
+  if (pairingsA.length !== pairingsB.length) {
+    return { error: "Both teams must submit the same number of matches" };
+  }
+  const seen = new Set<string>();
+  for (const pairing of [...pairingsA, ...pairingsB]) {
+    if (pairing.length !== size) {
+      return { error: `${TEAM_MATCH_FORMAT_LABELS[format]} need ${size} player${size === 1 ? "" : "s"} per side` };
+    }
+    for (const pid of pairing) {
+      if (seen.has(pid)) return { error: "A player can only play once per session" };
+      seen.add(pid);
+    }
+  }
+  return { matches: pairingsA.map((side_a, i) => ({ side_a, side_b: pairingsB[i] })) };
+}
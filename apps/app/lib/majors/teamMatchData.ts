@@ -0,0 +1,439 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createEventTeeTime, resolveEventRound } from "./eventTeeTimes";
+import {
+  matchPoints,
+  pairSessionMatches,
+  scoreTeamMatch,
+  teamScoreboard,
+  type MatchHole,
+  type MatchSidePlayer,
+  type TeamMatchFormat,
+} from "./teamMatch";
+import type {
+  EventTeam,
+  EventTeamMatch,
+  EventTeamSession,
+  TeamMatchBoard,
+  TeamMatchHistoryRow,
+} from "./types";
+
+/** Minutes between match tee times within a session. */
+const MATCH_INTERVAL_MINUTES = 10;
+
+/** Round format each session format is played as, so the scorecard shows the right team view. */
+const ROUND_FORMAT: Record<TeamMatchFormat, { format_type: string; format_config: Record<string, unknown> }> = {
+  singles: { format_type: "matchplay", format_config: {} },
+  fourball: { format_type: "team_bestball", format_config: { scoring_type: "net_strokes", count_per_hole: 1 } },
+  foursomes: { format_type: "foursomes", format_config: {} },
+};
+
+type LiveState = { lead: number; holes_played: number; display: string };
+
+type ScoredMatches = {
+  matches: EventTeamMatch[];
+  live: Map<string, LiveState>;
+  /** Matches whose stored status is behind their rounds: decided, or newly in play. */
+  changed: EventTeamMatch[];
+};
+
+/**
+ * Score every unfinished match from its round. Read-only: decided matches
+ * come back completed and started ones live, without touching the stored
+ * rows — syncTeamMatches persists them. Returns live states for those still
+ * in play.
+ */
+async function scoreTeamMatches(eventId: string): Promise<ScoredMatches> {
+  const [{ data: matchRows, error }, { data: sessionRows }] = await Promise.all([
+    supabaseAdmin.from("event_team_matches").select("*").eq("event_id", eventId),
+    supabaseAdmin.from("event_team_sessions").select("id, format, points_per_match").eq("event_id", eventId),
+  ]);
+  if (error) throw error;
+  const matches = (matchRows ?? []) as EventTeamMatch[];
+  const sessionById = new Map(((sessionRows ?? []) as any[]).map((s) => [s.id as string, s]));
+  const live = new Map<string, LiveState>();
+  const changed: EventTeamMatch[] = [];
+
+  const open = matches.filter((m) => m.status !== "completed" && m.round_id);
+  if (open.length === 0) return { matches, live, changed };
+  const roundIds = open.map((m) => m.round_id as string);
+
+  const [roundsRes, partsRes, teamsRes, scoresRes] = await Promise.all([
+    supabaseAdmin.from("rounds").select("id, status, starting_hole").in("id", roundIds),
+    supabaseAdmin
+      .from("round_participants")
+      .select("id, round_id, profile_id, tee_snapshot_id, playing_handicap_used")
+      .in("round_id", roundIds),
+    supabaseAdmin.from("round_teams").select("round_id, team_number, playing_handicap_used").in("round_id", roundIds),
+    supabaseAdmin
+      .from("round_current_scores")
+      .select("round_id, participant_id, hole_number, strokes")
+      .in("round_id", roundIds),
+  ]);
+  if (roundsRes.error) throw roundsRes.error;
+  if (partsRes.error) throw partsRes.error;
+
+  const parts = (partsRes.data ?? []) as any[];
+  const snapIds = [...new Set(parts.map((p) => p.tee_snapshot_id).filter(Boolean))] as string[];
+  const holesBySnap = new Map<string, MatchHole[]>();
+  if (snapIds.length > 0) {
+    const { data: holeRows } = await supabaseAdmin
+      .from("round_hole_snapshots")
+      .select("round_tee_snapshot_id, hole_number, stroke_index")
+      .in("round_tee_snapshot_id", snapIds)
+      .order("hole_number", { ascending: true });
+    for (const h of (holeRows ?? []) as any[]) {
+      const list = holesBySnap.get(h.round_tee_snapshot_id) ?? [];
+      list.push({ hole_number: h.hole_number, stroke_index: h.stroke_index ?? null });
+      holesBySnap.set(h.round_tee_snapshot_id, list);
+    }
+  }
+
+  const scores: Record<string, number> = {};
+  for (const s of (scoresRes.data ?? []) as any[]) {
+    if (typeof s.strokes === "number") scores[`${s.participant_id}:${s.hole_number}`] = s.strokes;
+  }
+  const roundById = new Map(((roundsRes.data ?? []) as any[]).map((r) => [r.id as string, r]));
+
+  for (const m of open) {
+    const round = roundById.get(m.round_id as string);
+    if (!round || round.status === "scheduled" || round.status === "cancelled") continue;
+    const session = sessionById.get(m.session_id);
+    if (!session) continue;
+
+    const roundParts = parts.filter((p) => p.round_id === m.round_id);
+    const toSide = (ids: string[]): MatchSidePlayer[] =>
+      roundParts
+        .filter((p) => p.profile_id && ids.includes(p.profile_id))
+        .map((p) => ({
+          participant_id: p.id,
+          playing_handicap: typeof p.playing_handicap_used === "number" ? p.playing_handicap_used : null,
+        }));
+    const snapId = roundParts.find((p) => p.tee_snapshot_id)?.tee_snapshot_id;
+    let holes = snapId ? holesBySnap.get(snapId) ?? [] : [];
+    if (holes.length === 0) continue;
+    const startIdx = holes.findIndex((h) => h.hole_number === (round.starting_hole ?? 1));
+    if (startIdx > 0) holes = [...holes.slice(startIdx), ...holes.slice(0, startIdx)];
+
+    const roundTeams = ((teamsRes.data ?? []) as any[]).filter((t) => t.round_id === m.round_id);
+    const stamped = (n: number) => roundTeams.find((t) => t.team_number === n)?.playing_handicap_used ?? null;
+
+    const state = scoreTeamMatch({
+      format: session.format,
+      sideA: toSide(m.side_a_profile_ids),
+      sideB: toSide(m.side_b_profile_ids),
+      holes,
+      scores,
+      sideHandicaps: { a: stamped(1), b: stamped(2) },
+      roundFinished: round.status === "finished",
+    });
+
+    if (state.winner) {
+      const pts = matchPoints(state.winner, Number(session.points_per_match));
+      Object.assign(m, {
+        status: "completed" as const,
+        winner: state.winner,
+        result_text: state.display,
+        side_a_points: pts.a,
+        side_b_points: pts.b,
+        completed_at: new Date().toISOString(),
+      });
+      changed.push(m);
+    } else {
+      live.set(m.id, { lead: state.lead, holes_played: state.holes_played, display: state.display });
+      if (m.status === "scheduled") {
+        m.status = "live";
+        changed.push(m);
+      }
+    }
+  }
+
+  return { matches, live, changed };
+}
+
+/**
+ * Persist what scoreTeamMatches works out: decided matches completed with
+ * their points, started ones live. Idempotent. Runs when a match round
+ * finishes (finishRound, including the auto-complete cron) rather than on
+ * reads, which score the same way without writing.
+ */
+export async function syncTeamMatches(eventId: string): Promise<{ updated: number }> {
+  const { changed } = await scoreTeamMatches(eventId);
+  for (const m of changed) {
+    const update =
+      m.status === "completed"
+        ? {
+            status: m.status,
+            winner: m.winner,
+            result_text: m.result_text,
+            side_a_points: m.side_a_points,
+            side_b_points: m.side_b_points,
+            completed_at: m.completed_at,
+          }
+        : { status: m.status };
+    const { error } = await supabaseAdmin
+      .from("event_team_matches")
+      .update(update)
+      .eq("id", m.id)
+      .neq("status", "completed");
+    if (error) throw error;
+  }
+  return { updated: changed.length };
+}
+
+/** Teams, sessions, matches (with live state) and the running scoreboard. */
+export async function loadTeamMatchBoard(eventId: string, viewerProfileId: string): Promise<TeamMatchBoard> {
+  const { matches, live } = await scoreTeamMatches(eventId);
+
+  const [teamsRes, membersRes, sessionsRes] = await Promise.all([
+    supabaseAdmin.from("event_teams").select("*").eq("event_id", eventId).order("team_number"),
+    supabaseAdmin
+      .from("event_team_members")
+      .select("team_id, profile:profiles(id, name, avatar_url)")
+      .eq("event_id", eventId),
+    supabaseAdmin.from("event_team_sessions").select("*").eq("event_id", eventId).order("session_number"),
+  ]);
+  if (teamsRes.error) throw teamsRes.error;
+  if (sessionsRes.error) throw sessionsRes.error;
+
+  const teams = (teamsRes.data ?? []) as EventTeam[];
+  const sessions = (sessionsRes.data ?? []) as EventTeamSession[];
+  const sessionIds = sessions.map((s) => s.id);
+
+  const { data: pairingRows } = sessionIds.length
+    ? await supabaseAdmin.from("event_team_pairings").select("session_id, team_id").in("session_id", sessionIds)
+    : { data: [] };
+
+  const players = new Map<string, { id: string; name: string | null; avatar_url: string | null }>();
+  for (const m of (membersRes.data ?? []) as any[]) {
+    if (m.profile) players.set(m.profile.id, m.profile);
+  }
+  const playerFor = (id: string) => players.get(id) ?? { id, name: null, avatar_url: null };
+  const teamNumberById = new Map(teams.map((t) => [t.id, t.team_number]));
+
+  const pointsById = new Map(sessions.map((s) => [s.id, Number(s.points_per_match)]));
+  const scoreboard = teamScoreboard(
+    matches.map((m) => ({
+      winner: m.winner,
+      points_per_match: pointsById.get(m.session_id) ?? 1,
+      lead: live.get(m.id)?.lead,
+    }))
+  );
+
+  return {
+    teams: teams.map((t) => ({
+      ...t,
+      members: ((membersRes.data ?? []) as any[])
+        .filter((m) => m.team_id === t.id && m.profile)
+        .map((m) => m.profile),
+    })),
+    sessions: sessions.map((s) => {
+      const submitted = ((pairingRows ?? []) as any[])
+        .filter((p) => p.session_id === s.id)
+        .map((p) => teamNumberById.get(p.team_id));
+      return {
+        ...s,
+        points_per_match: Number(s.points_per_match),
+        pairings_submitted: { 1: submitted.includes(1), 2: submitted.includes(2) },
+        matches: matches
+          .filter((m) => m.session_id === s.id)
+          .sort((a, b) => a.match_number - b.match_number)
+          .map((m) => ({
+            ...m,
+            side_a_points: Number(m.side_a_points),
+            side_b_points: Number(m.side_b_points),
+            side_a: m.side_a_profile_ids.map(playerFor),
+            side_b: m.side_b_profile_ids.map(playerFor),
+            live: live.get(m.id) ?? null,
+          })),
+      };
+    }),
+    scoreboard,
+    viewer_captain_of: teams.find((t) => t.captain_profile_id === viewerProfileId)?.team_number ?? null,
+  };
+}
+
+/**
+ * Once both captains have submitted for a session, pair their lists off in
+ * order and create one tee time (and scheduled round) per match. Returns the
+ * number of matches created, or an error message for the route to surface.
+ */
+export async function createSessionMatches(
+  event: any,
+  session: EventTeamSession,
+  profileId: string
+): Promise<{ created: number } | { error: string }> {
+  const [{ data: teams }, { data: pairings }, { count: existing }] = await Promise.all([
+    supabaseAdmin.from("event_teams").select("id, team_number, name").eq("event_id", event.id),
+    supabaseAdmin.from("event_team_pairings").select("team_id, pairings").eq("session_id", session.id),
+    supabaseAdmin
+      .from("event_team_matches")
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", session.id),
+  ]);
+  if ((existing ?? 0) > 0) return { error: "Matches for this session have already been drawn" };
+
+  const teamA = ((teams ?? []) as any[]).find((t) => t.team_number === 1);
+  const teamB = ((teams ?? []) as any[]).find((t) => t.team_number === 2);
+  const listA = ((pairings ?? []) as any[]).find((p) => p.team_id === teamA?.id)?.pairings as string[][] | undefined;
+  const listB = ((pairings ?? []) as any[]).find((p) => p.team_id === teamB?.id)?.pairings as string[][] | undefined;
+  if (!teamA || !teamB || !listA || !listB) return { created: 0 };
+
+  const paired = pairSessionMatches(session.format, listA, listB);
+  if ("error" in paired) return paired;
+
+  const { eventRoundId, eventRoundLabel, defaultTees } = await resolveEventRound(event.id, session.event_round_id);
+  const { data: genders } = await supabaseAdmin
+    .from("profiles")
+    .select("id, gender")
+    .in("id", paired.matches.flatMap((m) => [...m.side_a, ...m.side_b]));
+  const genderById = new Map(((genders ?? []) as any[]).map((g) => [g.id as string, g.gender as string | null]));
+
+  const start = new Date(session.scheduled_at ?? event.event_date ?? Date.now()).getTime();
+  const roundFormat = ROUND_FORMAT[session.format];
+
+  for (const [i, m] of paired.matches.entries()) {
+    const teeTime = await createEventTeeTime({
+      event,
+      profileId,
+      teeTime: new Date(start + i * MATCH_INTERVAL_MINUTES * 60_000).toISOString(),
+      groupNumber: i + 1,
+      notes: `${session.name} · Match ${i + 1}`,
+      eventRoundId,
+      eventRoundLabel,
+      players: [...m.side_a, ...m.side_b].map((pid) => ({
+        profile_id: pid,
+        tee_box_id: genderById.get(pid) === "female" ? defaultTees.female : defaultTees.male,
+      })),
+    });
+    const roundId = teeTime.round_id as string;
+
+    await supabaseAdmin.from("rounds").update(roundFormat).eq("id", roundId);
+
+    // Pairs formats score per side, so the round needs the two teams.
+    if (session.format !== "singles") {
+      const { data: roundTeams, error: rtErr } = await supabaseAdmin
+        .from("round_teams")
+        .insert([
+          { round_id: roundId, name: teamA.name, team_number: 1 },
+          { round_id: roundId, name: teamB.name, team_number: 2 },
+        ])
+        .select("id, team_number");
+      if (rtErr) throw rtErr;
+      for (const rt of (roundTeams ?? []) as any[]) {
+        await supabaseAdmin
+          .from("round_participants")
+          .update({ team_id: rt.id })
+          .eq("round_id", roundId)
+          .in("profile_id", rt.team_number === 1 ? m.side_a : m.side_b);
+      }
+    }
+
+    const { error: matchErr } = await supabaseAdmin.from("event_team_matches").insert({
+      event_id: event.id,
+      session_id: session.id,
+      match_number: i + 1,
+      side_a_profile_ids: m.side_a,
+      side_b_profile_ids: m.side_b,
+      event_tee_time_id: teeTime.id,
+      round_id: roundId,
+    });
+    if (matchErr) throw matchErr;
+  }
+
+  return { created: paired.matches.length };
+}
+
+/** Final team points for the feed, or null when the event has no teams. */
+export async function getTeamMatchResult(eventId: string): Promise<{
+  teams: { name: string; points: number }[];
+  winner_team: string | null;
+} | null> {
+  const { matches } = await scoreTeamMatches(eventId);
+  const { data: teams } = await supabaseAdmin
+    .from("event_teams")
+    .select("team_number, name")
+    .eq("event_id", eventId)
+    .order("team_number");
+  if (!teams || teams.length !== 2) return null;
+
+  const a = matches.reduce((s, m) => s + Number(m.side_a_points), 0);
+  const b = matches.reduce((s, m) => s + Number(m.side_b_points), 0);
+  return {
+    teams: [
+      { name: teams[0].name, points: a },
+      { name: teams[1].name, points: b },
+    ],
+    winner_team: a > b ? teams[0].name : b > a ? teams[1].name : null,
+  };
+}
+
+/**
+ * Each team's record across the editions of a recurring competition. Teams
+ * are matched by name (case-insensitive), so "Europe" in 2025 and 2026 is the
+ * same side even though each edition has its own event_teams rows.
+ */
+export async function loadTeamMatchHistory(competitionId: string): Promise<TeamMatchHistoryRow[]> {
+  const { data: events, error } = await supabaseAdmin
+    .from("events")
+    .select("id, name, event_date")
+    .eq("competition_id", competitionId)
+    .eq("event_type", "team_match")
+    .in("majors_status", ["completed", "official", "unofficial"])
+    .order("event_date", { ascending: true });
+  if (error) throw error;
+  const eventIds = ((events ?? []) as any[]).map((e) => e.id as string);
+  if (eventIds.length === 0) return [];
+
+  const [{ data: teams }, { data: matches }] = await Promise.all([
+    supabaseAdmin.from("event_teams").select("event_id, team_number, name").in("event_id", eventIds),
+    supabaseAdmin
+      .from("event_team_matches")
+      .select("event_id, side_a_points, side_b_points")
+      .in("event_id", eventIds)
+      .eq("status", "completed"),
+  ]);
+
+  const rows = new Map<string, TeamMatchHistoryRow>();
+  for (const ev of (events ?? []) as any[]) {
+    const evTeams = ((teams ?? []) as any[]).filter((t) => t.event_id === ev.id);
+    if (evTeams.length !== 2) continue;
+    const evMatches = ((matches ?? []) as any[]).filter((m) => m.event_id === ev.id);
+    if (evMatches.length === 0) continue;
+    const pts = {
+      1: evMatches.reduce((s, m) => s + Number(m.side_a_points), 0),
+      2: evMatches.reduce((s, m) => s + Number(m.side_b_points), 0),
+    } as Record<1 | 2, number>;
+
+    for (const t of evTeams) {
+      const key = String(t.name).trim().toLowerCase();
+      const row: TeamMatchHistoryRow = rows.get(key) ?? {
+        name: t.name,
+        played: 0,
+        won: 0,
+        halved: 0,
+        lost: 0,
+        points_for: 0,
+        points_against: 0,
+        editions: [],
+      };
+      const mine = pts[t.team_number as 1 | 2];
+      const theirs = pts[t.team_number === 1 ? 2 : 1];
+      row.played++;
+      if (mine > theirs) row.won++;
+      else if (mine < theirs) row.lost++;
+      else row.halved++;
+      row.points_for += mine;
+      row.points_against += theirs;
+      row.editions.push({
+        event_id: ev.id,
+        event_name: ev.name,
+        event_date: ev.event_date ?? null,
+        points_for: mine,
+        points_against: theirs,
+      });
+      rows.set(key, row);
+    }
+  }
+
+  return [...rows.values()].sort((x, y) => y.won - x.won || y.points_for - x.points_for);
+}
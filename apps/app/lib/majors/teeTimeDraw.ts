@@ -0,0 +1,206 @@
+/**
+ * Tee-time draw engine — pure. Splits entrants into groups and times them off
+ * from a start time at a fixed interval. The API route previews a draw with a
+ * seed; re-rolling is the same call with a new seed, and locked players keep
+ * their group across re-rolls.
+ */
+
+export type DrawMode =
+  | "random"
+  | "handicap_low_first"
+  | "handicap_high_first"
+  | "avoid_repeats"
+  /** Two-tee start: groups go off the 1st and 10th in pairs at each interval. */
+  | "shotgun";
+
+export type DrawPlayer = {
+  profile_id: string;
+  name: string | null;
+  handicap_index: number | null;
+  gender?: string | null;
+};
+
+export type DrawGroup = {
+  group_number: number;
+  tee_time: string;
+  /** 1 or 10 for a two-tee start; null = everyone off the 1st. */
+  start_hole: number | null;
+  players: DrawPlayer[];
+};
+
+export type DrawInput = {
+  players: DrawPlayer[];
+  mode: DrawMode;
+  /** ISO timestamp of the first tee time. */
+  startTime: string;
+  intervalMinutes: number;
+  /** Target players per group (2–4). Groups are balanced, so some may be one short. */
+  groupSize: number;
+  seed: number;
+  /** profile_id → 0-based group index the player stays in. */
+  locked?: Record<string, number>;
+  /** pairingKey(a, b) → times a and b have played together; used by avoid_repeats. */
+  pastPairings?: Record<string, number>;
+};
+
+export type DrawResult = {
+  groups: DrawGroup[];
+  /** Pairs in this draw who have played together before this season. */
+  repeat_pairings: number;
+};
+
+export function pairingKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/** Small seeded PRNG so a preview can be reproduced from its seed. */
+function mulberry32(seed: number) {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], rand: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Balanced group sizes: 10 players in fours → 4, 3, 3 rather than 4, 4, 2. */
+export function groupSizes(playerCount: number, groupSize: number): number[] {
+  if (playerCount <= 0) return [];
+  const size = Math.max(1, Math.floor(groupSize));
+  const count = Math.ceil(playerCount / size);
+  const base = Math.floor(playerCount / count);
+  const extra = playerCount % count;
+  return Array.from({ length: count }, (_, i) => (i < extra ? base + 1 : base));
+}
+
+function groupCost(members: DrawPlayer[], past: Record<string, number>): number {
+  let cost = 0;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      cost += past[pairingKey(members[i].profile_id, members[j].profile_id)] ?? 0;
+    }
+  }
+  return cost;
+}
+
+function costWith(player: DrawPlayer, members: DrawPlayer[], past: Record<string, number>): number {
+  return members.reduce((s, m) => s + (past[pairingKey(player.profile_id, m.profile_id)] ?? 0), 0);
+}
+
+export function countRepeatPairings(groups: DrawPlayer[][], past: Record<string, number>): number {
+  let n = 0;
+  for (const g of groups) {
+    for (let i = 0; i < g.length; i++) {
+      for (let j = i + 1; j < g.length; j++) {
+        if (past[pairingKey(g[i].profile_id, g[j].profile_id)]) n++;
+      }
+    }
+  }
+  return n;
+}
+
+export function drawTeeTimes(input: DrawInput): DrawResult {
+  const rand = mulberry32(input.seed);
+  const past = input.pastPairings ?? {};
+  const sizes = groupSizes(input.players.length, input.groupSize);
+  const groups: DrawPlayer[][] = sizes.map(() => []);
+  const lockedIds = new Set<string>();
+
+  // Locked players first — a lock pointing past the last group, or into a
+  // group that is already full, is ignored and the player is drawn normally.
+  for (const p of input.players) {
+    const idx = input.locked?.[p.profile_id];
+    if (idx == null || idx < 0 || idx >= groups.length) continue;
+    if (groups[idx].length >= sizes[idx]) continue;
+    groups[idx].push(p);
+    lockedIds.add(p.profile_id);
+  }
+
+  let pool = shuffle(input.players.filter((p) => !lockedIds.has(p.profile_id)), rand);
+
+  if (input.mode === "handicap_low_first" || input.mode === "handicap_high_first") {
+    const dir = input.mode === "handicap_low_first" ? 1 : -1;
+    // Stable sort over a shuffled pool: equal handicaps land in a random order.
+    pool = [...pool].sort((a, b) => {
+      if (a.handicap_index == null) return b.handicap_index == null ? 0 : 1;
+      if (b.handicap_index == null) return -1;
+      return dir * (a.handicap_index - b.handicap_index);
+    });
+  }
+
+  if (input.mode === "avoid_repeats") {
+    for (const p of pool) {
+      let best = -1;
+      let bestCost = Infinity;
+      for (let g = 0; g < groups.length; g++) {
+        if (groups[g].length >= sizes[g]) continue;
+        const c = costWith(p, groups[g], past);
+        if (c < bestCost || (c === bestCost && groups[g].length < groups[best].length)) {
+          best = g;
+          bestCost = c;
+        }
+      }
+      groups[best].push(p);
+    }
+    improveBySwapping(groups, lockedIds, past);
+  } else {
+    let g = 0;
+    for (const p of pool) {
+      while (groups[g].length >= sizes[g]) g++;
+      groups[g].push(p);
+    }
+  }
+
+  const start = new Date(input.startTime).getTime();
+  const intervalMs = Math.max(0, input.intervalMinutes) * 60_000;
+  const twoTee = input.mode === "shotgun";
+
+  return {
+    groups: groups.map((players, i) => ({
+      group_number: i + 1,
+      tee_time: new Date(start + (twoTee ? Math.floor(i / 2) : i) * intervalMs).toISOString(),
+      start_hole: twoTee ? (i % 2 === 0 ? 1 : 10) : null,
+      players,
+    })),
+    repeat_pairings: countRepeatPairings(groups, past),
+  };
+}
+
+/** Swap unlocked players between groups while it lowers the repeat cost. */
+function improveBySwapping(groups: DrawPlayer[][], lockedIds: Set<string>, past: Record<string, number>) {
+  for (let pass = 0; pass < 20; pass++) {
+    let improved = false;
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        for (let i = 0; i < groups[a].length; i++) {
+          for (let j = 0; j < groups[b].length; j++) {
+            const pa = groups[a][i];
+            const pb = groups[b][j];
+            if (lockedIds.has(pa.profile_id) || lockedIds.has(pb.profile_id)) continue;
+            const before = groupCost(groups[a], past) + groupCost(groups[b], past);
+            groups[a][i] = pb;
+            groups[b][j] = pa;
+            const after = groupCost(groups[a], past) + groupCost(groups[b], past);
+            if (after < before) {
+              improved = true;
+            } else {
+              groups[a][i] = pa;
+              groups[b][j] = pb;
+            }
+          }
+        }
+      }
+    }
+    if (!improved) return;
+  }
+}
@@ -0,0 +1,68 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { pairingKey, type DrawPlayer } from "./teeTimeDraw";
+
+/** Entrants with the handicap index snapshotted at entry. */
+export async function loadDrawEntrants(eventId: string): Promise<DrawPlayer[]> {
+  const { data, error } = await supabaseAdmin
+    .from("event_entries")
+    .select("profile_id, assigned_handicap_index, profile:profiles(name, gender)")
+    .eq("event_id", eventId);
+  if (error) throw error;
+  return ((data ?? []) as any[]).map((e) => ({
+    profile_id: e.profile_id,
+    name: e.profile?.name ?? null,
+    handicap_index: e.assigned_handicap_index != null ? Number(e.assigned_handicap_index) : null,
+    gender: e.profile?.gender ?? null,
+  }));
+}
+
+/**
+ * How often each pair of players has shared a tee time in the other events of
+ * this event's group season. Empty when the event isn't in a season.
+ */
+export async function loadSeasonPairings(event: {
+  id: string;
+  group_season_id?: string | null;
+}): Promise<Record<string, number>> {
+  if (!event.group_season_id) return {};
+
+  const { data: events } = await supabaseAdmin
+    .from("events")
+    .select("id")
+    .eq("group_season_id", event.group_season_id)
+    .neq("id", event.id);
+  const eventIds = (events ?? []).map((e: any) => e.id as string);
+  if (eventIds.length === 0) return {};
+
+  const { data: teeTimes } = await supabaseAdmin
+    .from("event_tee_times")
+    .select("round_id")
+    .in("event_id", eventIds);
+  const roundIds = (teeTimes ?? []).map((t: any) => t.round_id).filter(Boolean) as string[];
+  if (roundIds.length === 0) return {};
+
+  const { data: participants } = await supabaseAdmin
+    .from("round_participants")
+    .select("round_id, profile_id")
+    .in("round_id", roundIds)
+    .eq("is_guest", false)
+    .not("profile_id", "is", null);
+
+  const byRound = new Map<string, string[]>();
+  for (const p of (participants ?? []) as any[]) {
+    const list = byRound.get(p.round_id) ?? [];
+    list.push(p.profile_id);
+    byRound.set(p.round_id, list);
+  }
+
+  const counts: Record<string, number> = {};
+  for (const ids of byRound.values()) {
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = pairingKey(ids[i], ids[j]);
+        counts[key] = (counts[key] ?? 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
@@ -1,6 +1,11 @@
 // CIAGA Majors — TypeScript types mirroring the database schema
 
 import type { FantasyConfig } from "@/lib/fantasy/types";
+import type { TeamMatchFormat, TeamMatchWinner, TeamScoreboard } from "@/lib/majors/teamMatch";
+import type { SeasonCountingMode } from "@/lib/majors/seasonCounting";
+import type { EclecticCard, EclecticHandicapMode, EclecticScoring } from "@/lib/majors/eclectic";
+import type { LeagueConfig } from "@/lib/majors/matchplayLeague";
+import type { BracketConfig, BracketSide } from "@/lib/majors/knockoutBracket";
 
 // ─── Spec-aligned enum types (Phase 1) ──────────────────────────────────────
 
@@ -52,6 +57,9 @@ export type MajorGroupPrivacy = "public" | "request" | "invite_only";
 
 export type MajorGroupJoinMethod = "open" | "request" | "invite_only" | "code";
 
+/** Who can find and enter an event: the host group only, or anyone via discovery. */
+export type EventVisibility = "group" | "public";
+
 export type MajorGroupCiagaTag = "affiliated" | "invitational" | "official" | "none";
 
 export type MajorMembershipRole = "owner" | "admin" | "member";
@@ -72,7 +80,9 @@ export type EventTypeV2 =
   | "matchplay_knockout_match"
   | "aggregate_stroke_play"
   | "team_best_ball"
-  | "team_scramble";
+  | "team_scramble"
+  // Two named teams over sessions of four-balls, foursomes and singles
+  | "team_match";
 
 export type EventScoringModel = "gross" | "net" | "stableford_points" | "match_result";
 
@@ -281,6 +291,9 @@ export type MajorGroup = {
   allow_credit: boolean;
   // Fantasy picks (NULL = disabled); written via /api/fantasy/groups/[id]/config only
   fantasy_config: FantasyConfig | null;
+  // Handicap committee rules (jsonb, see lib/majors/handicapCommittee.ts);
+  // written via /api/majors/groups/[id]/handicap-committee only
+  handicap_committee: Record<string, unknown>;
 };
 
 export type GroupSeasonStatus = "upcoming" | "active" | "completed";
@@ -297,6 +310,10 @@ export type GroupSeason = {
   season_label: string | null;
   standings_model: StandingsModel;
   config_snapshot: Record<string, unknown> | null;
+  /** Which results add up to season points; see lib/majors/seasonCounting. */
+  counting_mode: SeasonCountingMode;
+  counting_n: number | null;
+  counting_mandatory_event_ids: string[];
   created_at: string;
   updated_at: string;
 };
@@ -310,6 +327,10 @@ export type GroupSeasonStandingsEntry = {
   wins: number;
   top_3s: number;
   best_finish: number | null;
+  /** Results that made up season_points under the season's counting rule. */
+  counted_event_ids: string[];
+  dropped_event_ids: string[];
+  dropped_points: number;
   last_computed_at: string;
 };
 
@@ -345,6 +366,48 @@ export type PrizeTableEntry = {
   pct: number;
 };
 
+/**
+ * Entry conditions checked before a player is entered (or their entry request
+ * is approved). Every field is optional; an empty object admits anyone who can
+ * otherwise enter. See lib/majors/eligibility.ts.
+ */
+export type EventEligibilityRules = {
+  min_handicap_index?: number | null;
+  max_handicap_index?: number | null;
+  gender?: "male" | "female" | null;
+  /** Entrant's profile home club must be one of these courses. */
+  home_course_ids?: string[] | null;
+  /** Public events only — group events always require membership. */
+  require_group_membership?: boolean;
+};
+
+export type EntryRequestStatus = "pending" | "approved" | "rejected" | "withdrawn";
+
+export type EventEntryRequest = {
+  id: string;
+  event_id: string;
+  profile_id: string;
+  status: EntryRequestStatus;
+  handicap_index: number | null;
+  /** Optional charges / pots picked in the join drawer, applied on approval. */
+  options: {
+    optional_charge_ids?: string[];
+    optional_pot_ids?: string[];
+    optional_group_charge_ids?: string[];
+  };
+  decision_reason: string | null;
+  decided_by_profile_id: string | null;
+  decided_at: string | null;
+  created_at: string;
+};
+
+/** Row in the organiser's approval queue (GET /entry-requests). */
+export type EventEntryRequestWithProfile = EventEntryRequest & {
+  profile: { id: string; name: string | null; avatar_url: string | null } | null;
+  /** Re-evaluated against the current rules; only filled in for organisers. */
+  eligibility_failures: { rule: keyof EventEligibilityRules; message: string }[];
+};
+
 export type EventFull = {
   id: string;
   name: string;
@@ -367,7 +430,7 @@ export type EventFull = {
   points_model: EventPointsModel;
   points_table: Record<string, unknown>;
   points_config: PointsConfig | null;
-  eligibility_rules: Record<string, unknown>;
+  eligibility_rules: EventEligibilityRules;
   handicap_rules: Record<string, unknown>;
   num_rounds: number;
   round_rules: Record<string, unknown>;
@@ -404,6 +467,15 @@ export type EventFull = {
   leaderboard_freeze_state: LeaderboardFreezeState;
   leaderboard_reveal_style: LeaderboardRevealStyle;
   leaderboard_reveal_top_x: number | null;
+  // Party games copied onto each tee time's round (rounds.side_games shape)
+  side_games: Array<{ name: string; enabled: boolean; config: Record<string, unknown> }> | null;
+  // Public discovery + organiser-approved entry
+  visibility: EventVisibility;
+  entry_approval_required: boolean;
+  // Matchplay league points, tiebreakers and deadlines (lib/majors/matchplayLeague.ts)
+  league_config: Partial<LeagueConfig>;
+  // Knockout template, seeding and re-seeding (lib/majors/knockoutBracket.ts)
+  bracket_config: Partial<BracketConfig>;
 };
 
 export type EventWithGroup = EventFull & {
@@ -601,7 +673,11 @@ export type EventAuditActionType =
   | "submission_rejected"
   | "leaderboard_recomputed"
   | "status_changed"
-  | "fixture_result_updated";
+  | "fixture_result_updated"
+  | "entry_eligibility_failed"
+  | "entry_requested"
+  | "entry_approved"
+  | "entry_rejected";
 
 export type EventAuditLog = {
   id: string;
@@ -633,6 +709,8 @@ export type EventTeeTime = {
   round_id: string | null;
   tee_time: string;
   group_number: number | null;
+  /** 1 or 10 on a two-tee start; null = off the 1st. */
+  start_hole: number | null;
   notes: string | null;
   created_by: string;
   created_at: string;
@@ -663,6 +741,8 @@ export type MatchplayStage = {
   name: string;
   sort_order: number;
   group_label: string | null;
+  /** Which part of a knockout bracket this stage holds; null for league stages. */
+  bracket_side: BracketSide | null;
   created_at: string;
 };
 
@@ -689,6 +769,13 @@ export type MatchplayFixture = {
   approved_at: string | null;
   approved_by_profile_id: string | null;
   notes: string | null;
+  /** Play-by time; the daily cron records a walkover once it passes. */
+  deadline_at: string | null;
+  reminder_sent_at: string | null;
+  /** Entries that have said they're ready to play. */
+  available_entry_ids: string[];
+  /** Index within its bracket stage and round, top of the draw first. */
+  bracket_position: number | null;
 };
 
 export type MatchplayBracketSlotSourceType = "entry" | "winner_of_fixture" | "loser_of_fixture" | "bye";
@@ -724,6 +811,118 @@ export type MatchplayLeagueTableEntryWithProfile = MatchplayLeagueTableEntry & {
   profile: { id: string; name: string | null; avatar_url: string | null };
 };
 
+// ─── Team match (Ryder Cup style) ─────────────────────────────────────────────
+
+export type EventTeam = {
+  id: string;
+  event_id: string;
+  team_number: 1 | 2;
+  name: string;
+  color: string | null;
+  captain_profile_id: string | null;
+  created_at: string;
+};
+
+export type EventTeamSession = {
+  id: string;
+  event_id: string;
+  session_number: number;
+  name: string;
+  format: TeamMatchFormat;
+  event_round_id: string | null;
+  scheduled_at: string | null;
+  points_per_match: number;
+  created_at: string;
+};
+
+export type EventTeamMatchStatus = "scheduled" | "live" | "completed";
+
+export type EventTeamMatch = {
+  id: string;
+  event_id: string;
+  session_id: string;
+  match_number: number;
+  /** Team 1's players. */
+  side_a_profile_ids: string[];
+  /** Team 2's players. */
+  side_b_profile_ids: string[];
+  event_tee_time_id: string | null;
+  round_id: string | null;
+  status: EventTeamMatchStatus;
+  winner: TeamMatchWinner | null;
+  result_text: string | null;
+  side_a_points: number;
+  side_b_points: number;
+  completed_at: string | null;
+};
+
+type TeamMatchPlayer = { id: string; name: string | null; avatar_url: string | null };
+
+/** GET /api/majors/events/[id]/teams */
+export type TeamMatchBoard = {
+  teams: (EventTeam & { members: TeamMatchPlayer[] })[];
+  sessions: (EventTeamSession & {
+    /** team_number → whether that captain has submitted pairings. */
+    pairings_submitted: Record<1 | 2, boolean>;
+    matches: (EventTeamMatch & {
+      side_a: TeamMatchPlayer[];
+      side_b: TeamMatchPlayer[];
+      /** Live state while the match is in play; null before it starts. */
+      live: { lead: number; holes_played: number; display: string } | null;
+    })[];
+  })[];
+  scoreboard: TeamScoreboard;
+  /** Team number the viewer captains, if any. */
+  viewer_captain_of: 1 | 2 | null;
+};
+
+/** One team's record across the editions of a recurring competition. */
+export type TeamMatchHistoryRow = {
+  name: string;
+  played: number;
+  won: number;
+  halved: number;
+  lost: number;
+  points_for: number;
+  points_against: number;
+  editions: { event_id: string; event_name: string; event_date: string | null; points_for: number; points_against: number }[];
+};
+
+// ─── Eclectic ─────────────────────────────────────────────────────────────────
+
+export type EclecticCompetitionStatus = "active" | "closed";
+
+export type EclecticCompetition = {
+  id: string;
+  group_id: string;
+  group_season_id: string;
+  name: string;
+  course_id: string;
+  scoring: EclecticScoring;
+  allowance_pct: number;
+  handicap_mode: EclecticHandicapMode;
+  /** Only rounds accepted into the season's events qualify. */
+  event_rounds_only: boolean;
+  status: EclecticCompetitionStatus;
+  created_by_profile_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** GET /api/majors/eclectics/[eclecticId] */
+export type EclecticLeaderboard = {
+  eclectic: EclecticCompetition & { course_name: string | null };
+  holes: { hole_number: number; par: number; stroke_index: number | null }[];
+  rows: {
+    profile_id: string;
+    name: string | null;
+    avatar_url: string | null;
+    position: number;
+    card: EclecticCard;
+  }[];
+  can_manage: boolean;
+};
+
 // ─── API response shapes ──────────────────────────────────────────────────────
 
 export type MajorGroupSeasonStats = {
@@ -771,6 +970,14 @@ export type MajorScheduleItem = EventWithGroup & {
   entry_status: "entered" | "open" | "closed" | "not_eligible";
 };
 
+/** A public event as listed on the discovery page. */
+export type PublicEventListing = EventWithGroup & {
+  /** From the search point to the event's course; null without a location or course coordinates. */
+  distance_km: number | null;
+  entry_count: number;
+  entry_status: MajorScheduleItem["entry_status"] | "requested";
+};
+
 export type MajorHistoryItem = {
   event: EventWithGroup;
   entry: {
@@ -993,7 +1200,8 @@ export type PrizePotMetricType =
   | "nearest_pin"   // manually recorded
   | "longest_drive" // manually recorded
   | "season_points" // from competition season standings
-  | "custom";       // admin-defined, manually recorded
+  | "custom"        // admin-defined, manually recorded
+  | "eclectic";     // from a linked eclectic competition's leaderboard
 
 export type PrizePotStatus = "active" | "locked" | "distributed";
 
@@ -1012,6 +1220,8 @@ export type PrizePot = {
   prize_table: PrizeTableEntry[] | null;
   metric_type: PrizePotMetricType | null;
   metric_description: string | null;
+  /** metric_type "eclectic": the eclectic whose leaderboard pays out. */
+  eclectic_competition_id: string | null;
   is_monetary: boolean;
   prize_description: string | null;
   /** If true, players are automatically enrolled when joining an event in this pot's scope */
@@ -1060,6 +1270,66 @@ export type PrizePotWithDetails = PrizePot & {
   total_pot: number;
 };
 
+// ─── Clubhouse Displays ───────────────────────────────────────────────────────
+
+/** A revocable, login-free link to the kiosk page for one event or one season. */
+export type DisplayToken = {
+  id: string;
+  token: string;
+  /** Exactly one of these is set */
+  event_id: string | null;
+  group_season_id: string | null;
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  /** Last time the display polled for data. */
+  last_seen_at: string | null;
+};
+
+// ─── Handicap Committee ───────────────────────────────────────────────────────
+
+export type HandicapAdjustmentKind = "winners_cut" | "manual" | "cap";
+
+/** One committee decision about a player's playing handicap. */
+export type HandicapAdjustment = {
+  id: string;
+  group_id: string;
+  profile_id: string;
+  kind: HandicapAdjustmentKind;
+  /** Strokes added to the playing handicap (negative = cut). Null for caps. */
+  strokes: number | null;
+  /** Winner's cuts: strokes given back per later group event. */
+  decay_per_event: number;
+  /** Caps: the highest playing handicap allowed. */
+  cap: number | null;
+  reason: string;
+  /** The win a winner's cut was made for. */
+  source_event_id: string | null;
+  effective_from: string;
+  expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revoke_reason: string | null;
+};
+
+export type HandicapAuditAction = "adjustment_created" | "adjustment_revoked" | "config_updated" | "applied";
+
+export type HandicapAuditEntry = {
+  id: string;
+  group_id: string;
+  action: HandicapAuditAction;
+  adjustment_id: string | null;
+  profile_id: string | null;
+  event_id: string | null;
+  round_id: string | null;
+  actor_profile_id: string | null;
+  payload: Record<string, unknown>;
+  created_at: string;
+};
+
 // ─── Group Charges ────────────────────────────────────────────────────────────
 
 /** Standalone group-level charge not tied to any event or season */
@@ -1091,6 +1361,10 @@ export type EventJoinPreview = {
   entry_fee_amount: number | null;
   current_balance: number;
   projected_balance: number;
+  /** Rules the viewer currently fails — entry will be refused while non-empty. */
+  eligibility_failures: { rule: keyof EventEligibilityRules; message: string }[];
+  /** Entry becomes a request for the organiser to approve. */
+  entry_approval_required: boolean;
 };
 
 // ─── Winnings Summary ─────────────────────────────────────────────────────────
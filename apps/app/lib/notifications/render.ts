@@ -8,6 +8,8 @@ export type NotificationType =
   | "tee_time_assigned"
   | "tee_time_reminder"
   | "waitlist_offered"
+  | "league_fixture_reminder"
+  | "league_fixture_walkover"
   | "event_created"
   | "entry_open"
   | "mention_post"
@@ -22,7 +24,11 @@ export type NotificationType =
   | "fantasy_pick_void"
   | "fantasy_parlay_won"
   | "fantasy_parlay_lost"
-  | "fantasy_parlay_void";
+  | "fantasy_parlay_void"
+  | "fantasy_exchange_matched"
+  | "fantasy_exchange_won"
+  | "fantasy_exchange_lost"
+  | "fantasy_exchange_void";
 
 export type NotificationActor = {
   profile_id: string;
@@ -83,6 +89,13 @@ function formatTeeTime(v: string): string {
   return `${date} at ${time}`;
 }
 
+/** League deadlines close at 23:59 UTC on their last day — show that day. */
+function formatDeadlineDay(v: string): string {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return v;
+  return d.toLocaleDateString([], { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
 export function renderNotification(
   type: string,
   payload: Record<string, any>
@@ -162,6 +175,42 @@ export function renderNotification(
         icon: "rotate-ccw",
       };
 
+    case "fantasy_exchange_matched":
+      return {
+        title: "Exchange offer matched",
+        body: `${p.actor_name ?? "Someone"} took ${p.amount ?? "?"} pts of your ${
+          p.side === "lay" ? "lay" : "back"
+        } offer on ${p.market_label ?? "a market"}`,
+        url: p.event_id ? `/majors/fantasy/events/${p.event_id}` : "/majors/fantasy/picks",
+        icon: "handshake",
+      };
+
+    case "fantasy_exchange_won":
+      return {
+        title: "Exchange bet won! 🎉",
+        body: `You beat ${p.counterparty_name ?? "your opponent"} on ${p.market_label ?? "a market"} — +${
+          p.payout ?? "?"
+        } pts`,
+        url: p.event_id ? `/majors/fantasy/events/${p.event_id}` : "/majors/fantasy/picks",
+        icon: "trophy",
+      };
+
+    case "fantasy_exchange_lost":
+      return {
+        title: "Exchange bet settled",
+        body: `${p.counterparty_name ?? "Your opponent"} won your bet on ${p.market_label ?? "a market"}`,
+        url: p.event_id ? `/majors/fantasy/events/${p.event_id}` : "/majors/fantasy/picks",
+        icon: "flag",
+      };
+
+    case "fantasy_exchange_void":
+      return {
+        title: "Exchange bet voided",
+        body: `Your bet on ${p.market_label ?? "a market"} was voided — ${p.stake ?? "your"} pts returned`,
+        url: p.event_id ? `/majors/fantasy/events/${p.event_id}` : "/majors/fantasy/picks",
+        icon: "rotate-ccw",
+      };
+
     case "mention_post":
       return {
         title: "You were tagged",
@@ -306,6 +355,29 @@ export function renderNotification(
         icon: "ticket",
       };
 
+    case "league_fixture_reminder":
+      return {
+        title: "League match due",
+        body: `Play ${p.opponent_name ?? "your league match"}${
+          p.event_name ? ` in ${p.event_name}` : ""
+        }${p.deadline_at ? ` by ${formatDeadlineDay(p.deadline_at)}` : ""}`,
+        url: p.event_id ? `/majors/events/${p.event_id}` : "/majors",
+        icon: "calendar-clock",
+      };
+
+    case "league_fixture_walkover":
+      return {
+        title: p.outcome === "won" ? "Walkover awarded" : "League match forfeited",
+        body:
+          p.outcome === "won"
+            ? `You've been awarded your match against ${p.opponent_name ?? "your opponent"} — the deadline passed`
+            : `Your match against ${p.opponent_name ?? "your opponent"} wasn't played by the deadline${
+                p.event_name ? ` (${p.event_name})` : ""
+              }`,
+        url: p.event_id ? `/majors/events/${p.event_id}` : "/majors",
+        icon: "calendar-x",
+      };
+
     default:
       return {
         title: typeof p.title === "string" ? p.title : "Notification",
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { computeFormatDisplay } from "@/lib/rounds/formatScoring";
+import { computeFormatDisplay, computeSideGameDisplays, vegasNumber } from "@/lib/rounds/formatScoring";
 import type { Hole, Participant, Score, HoleState } from "@/lib/rounds/hooks/useRoundDetail";
 
 function participant(id: string): Participant {
@@ -121,3 +121,125 @@ describe("computeMatchPlayPair — pickups forfeit the hole", () => {
     expect(result.holeResults["B:1"].cssHint).toBe("halved");
   });
 });
+
+describe("team format tabs", () => {
+  const teams = [
+    { id: "T1", round_id: "r", name: "Team 1", team_number: 1, playing_handicap_used: 9 },
+    { id: "T2", round_id: "r", name: "Team 2", team_number: 2, playing_handicap_used: null },
+  ];
+  const members = [
+    { ...participant("A"), team_id: "T1", playing_handicap_used: 18 },
+    { ...participant("B"), team_id: "T1", playing_handicap_used: 0 },
+    { ...participant("C"), team_id: "T2" },
+    { ...participant("D"), team_id: "T2" },
+  ];
+  const scoresByKey: Record<string, Score> = {};
+  const holeStatesByKey: Record<string, HoleState> = {};
+  for (const [pid, strokes] of [["A", 5], ["B", 4], ["C", 4], ["D", 6]] as const) {
+    scoresByKey[`${pid}:1`] = { participant_id: pid, hole_number: 1, strokes, created_at: "" };
+    holeStatesByKey[`${pid}:1`] = "completed";
+  }
+
+  function run(format: "chapman" | "texas_scramble" | "shamble") {
+    return computeFormatDisplay(format, {}, members, holes(9), scoresByKey, holeStatesByKey, teams, (p) => p.id)[0];
+  }
+
+  it("nets Chapman and Texas Scramble off the team handicap under their own tab", () => {
+    for (const [format, label] of [["chapman", "Chapman"], ["texas_scramble", "Texas Scramble"]] as const) {
+      const d = run(format);
+      expect(d.tabLabel).toBe(label);
+      // First member's card is the team ball; 9 strokes over 9 holes = 1 on hole 1.
+      expect(d.holeResults["T1:1"]).toMatchObject({ displayValue: 4, recv: 1 });
+      expect(d.holeResults["T2:1"].displayValue).toBe(4);
+      expect(d.playingHandicaps).toEqual({ T1: 9 });
+    }
+  });
+
+  it("scores shamble as best ball from each player's own handicap", () => {
+    const d = run("shamble");
+    expect(d.tabLabel).toBe("Shamble");
+    // A: 5 gross with 2 strokes = 3 net beats B's 4.
+    expect(d.holeResults["T1:1"].displayValue).toBe(3);
+    expect(d.holeResults["T2:1"].displayValue).toBe(4);
+  });
+});
+
+describe("party side games", () => {
+  const four = ["A", "B", "C", "D"].map(participant);
+
+  /** `strokes[pid]` = that player's score on each hole from hole 1. */
+  function card(strokes: Record<string, number[]>) {
+    const scoresByKey: Record<string, Score> = {};
+    const holeStatesByKey: Record<string, HoleState> = {};
+    for (const [pid, list] of Object.entries(strokes)) {
+      list.forEach((n, i) => {
+        scoresByKey[`${pid}:${i + 1}`] = { participant_id: pid, hole_number: i + 1, strokes: n, created_at: "" };
+        holeStatesByKey[`${pid}:${i + 1}`] = "completed";
+      });
+    }
+    return { scoresByKey, holeStatesByKey };
+  }
+
+  it("builds Vegas numbers low-first, high-first on a 10+ or a flip", () => {
+    expect(vegasNumber(5, 4)).toBe(45);
+    expect(vegasNumber(4, 10)).toBe(104);
+    expect(vegasNumber(4, 5, true)).toBe(54);
+  });
+
+  it("scores Vegas as the difference between the pairs, flipping on a birdie", () => {
+    const { scoresByKey, holeStatesByKey } = card({ A: [4, 3], B: [5, 5], C: [4, 4], D: [6, 5] });
+    const [d] = computeSideGameDisplays(
+      [{ name: "vegas", enabled: true, config: { value_per_point: 2 } }],
+      four, holes(18), scoresByKey, holeStatesByKey
+    );
+    expect(d.tabLabel).toBe("Vegas");
+    // Hole 1: 45 v 46 → A/B +1. Hole 2: A birdies, so C/D's 45 flips to 54 → 54 − 35 = 19.
+    expect(d.holeResults["A:1"]).toMatchObject({ displayValue: "+1", cssHint: "won" });
+    expect(d.holeResults["C:2"]).toMatchObject({ displayValue: -19, cssHint: "lost" });
+    expect(d.holeResults["A:3"].displayValue).toBeNull();
+    expect(d.summaries.find((s) => s.participantId === "B")?.total).toBe(40);
+    expect(d.summaries.find((s) => s.participantId === "D")?.total).toBe(-40);
+  });
+
+  it("only shows Vegas and Sixes with exactly four players", () => {
+    const { scoresByKey, holeStatesByKey } = card({ A: [4], B: [4], C: [4] });
+    const three = four.slice(0, 3);
+    expect(
+      computeSideGameDisplays(
+        [{ name: "vegas", enabled: true, config: {} }, { name: "sixes", enabled: true, config: {} }],
+        three, holes(18), scoresByKey, holeStatesByKey
+      )
+    ).toEqual([]);
+  });
+
+  it("settles each Sixes match once the lead can't be caught, rotating partners", () => {
+    // A wins holes 1–4 for A/B (4 up with 2 to play); holes 7+ aren't played.
+    const { scoresByKey, holeStatesByKey } = card({ A: [3, 3, 3, 3], B: [5, 5, 5, 5], C: [4, 4, 4, 4], D: [4, 4, 4, 4] });
+    const [d] = computeSideGameDisplays(
+      [{ name: "sixes", enabled: true, config: { value_per_match: 5 } }],
+      four, holes(18), scoresByKey, holeStatesByKey
+    );
+    expect(d.holeResults["A:4"]).toMatchObject({ displayValue: "4UP" });
+    expect(d.holeResults["C:4"]).toMatchObject({ displayValue: "4DN" });
+    expect(d.summaries.map((s) => s.total)).toEqual([5, 5, -5, -5]);
+  });
+
+  it("counts Bingo Bango Bongo markers per hole", () => {
+    const { scoresByKey, holeStatesByKey } = card({ A: [4], B: [4] });
+    const [d] = computeSideGameDisplays(
+      [{ name: "bingo_bango_bongo", enabled: true, config: { value_per_point: 0.5 } }],
+      four.slice(0, 2), holes(18), scoresByKey, holeStatesByKey, {},
+      {
+        1: { bingo_participant_id: "A", bango_participant_id: "A", bongo_participant_id: "B" },
+        12: { bingo_participant_id: "B", bango_participant_id: null, bongo_participant_id: null },
+      }
+    );
+    expect(d.holeResults["A:1"]).toMatchObject({ displayValue: 2, cssHint: "won" });
+    expect(d.holeResults["A:12"].displayValue).toBe("–");
+    expect(d.holeResults["A:2"].displayValue).toBeNull();
+    // Out, In and Total are all points; the stake only comes in at settlement.
+    expect(d.totalsUnit).toBe("pts");
+    expect(d.summaries[0]).toMatchObject({ out: 2, inn: 0, total: 2 });
+    expect(d.summaries[1]).toMatchObject({ out: 1, inn: 1, total: 2 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { buildRoundExport, roundExportFilename, roundExportsToCsv } from "@/lib/rounds/roundExport";
+
+/** Par-4 18-hole snapshot; `strokes[pid]` gives each hole's score, null = not played. */
+function snapshot(over: {
+  status?: string;
+  courseName?: string;
+  formatType?: string;
+  sideGames?: any[];
+  strokes: Record<string, (number | "PU" | null)[]>;
+  courseHandicap?: Record<string, number>;
+}) {
+  const pids = Object.keys(over.strokes);
+  const scores: any[] = [];
+  const hole_states: any[] = [];
+  for (const pid of pids) {
+    over.strokes[pid].forEach((s, i) => {
+      if (s === "PU") hole_states.push({ participant_id: pid, hole_number: i + 1, status: "picked_up" });
+      else if (s != null) {
+        scores.push({ participant_id: pid, hole_number: i + 1, strokes: s, created_at: "" });
+        hole_states.push({ participant_id: pid, hole_number: i + 1, status: "completed" });
+      }
+    });
+  }
+
+  return {
+    round: {
+      id: "r1",
+      name: "Saturday",
+      status: over.status ?? "finished",
+      started_at: "2026-05-02T08:30:00Z",
+      format_type: over.formatType ?? "stableford",
+      format_config: {},
+      side_games: over.sideGames ?? [],
+      course_name: over.courseName ?? "Royal Example",
+      starting_hole: 1,
+    },
+    participants: pids.map((pid) => ({
+      id: pid,
+      profile_id: `prof-${pid}`,
+      is_guest: false,
+      display_name: pid,
+      role: "player",
+      tee_snapshot_id: "t1",
+      course_handicap: over.courseHandicap?.[pid] ?? 0,
+      name: pid,
+      email: `${pid}@example.com`,
+    })),
+    participant_extras: pids.map((pid) => ({ id: pid, playing_handicap_used: null, team_id: null, handicap_index: 10 })),
+    holes: Array.from({ length: 18 }, (_, i) => ({ hole_number: i + 1, par: 4, yardage: 380, stroke_index: i + 1 })),
+    scores,
+    hole_states,
+    teams: [],
+    tee_snapshot: { name: "Yellow", rating: 72, slope: 113, par_total: 72, holes_count: 18 },
+  };
+}
+
+const FOURS = Array(18).fill(4);
+
+describe("buildRoundExport", () => {
+  it("totals gross and net like the scorecard, scoring a pick-up as net double bogey", () => {
+    const alice = [...FOURS];
+    alice[0] = "PU" as any;
+    const r = buildRoundExport(
+      snapshot({ strokes: { alice, bob: [...FOURS] }, courseHandicap: { alice: 18, bob: 0 } })
+    );
+
+    const a = r.players.find((p) => p.name === "alice")!;
+    expect(a.holes[0]).toMatchObject({ strokes: null, status: "picked_up", gross: 7, net: 6 });
+    expect(a.gross).toEqual({ out: 39, inn: 36, total: 75 });
+    // One stroke a hole: 3s everywhere bar the pick-up (par + 2).
+    expect(a.net.total).toBe(6 + 17 * 3);
+    expect(a.toPar).toBe(3);
+    expect(a.accepted).toBe(true);
+
+    expect(r).toMatchObject({ roundId: "r1", courseName: "Royal Example", teeName: "Yellow", playedOn: "2026-05-02" });
+  });
+
+  it("carries the format and side-game results per hole and as standings", () => {
+    const r = buildRoundExport(
+      snapshot({
+        strokes: { alice: [3, ...FOURS.slice(1)], bob: [...FOURS] },
+        sideGames: [{ name: "skins", enabled: true, config: {} }, { name: "nassau", enabled: false, config: {} }],
+      })
+    );
+
+    expect(r.games.map((g) => [g.label, g.side])).toEqual([
+      ["Stableford", false],
+      ["Skins (Side)", true],
+    ]);
+    const a = r.players.find((p) => p.name === "alice")!;
+    expect(a.holes[0].games.Stableford).toBe(3);
+    expect(r.games[0].standings.find((s) => s.name === "alice")?.total).toBe(37);
+  });
+
+  it("doesn't fill in unplayed holes before the round is finished", () => {
+    const r = buildRoundExport(
+      snapshot({ status: "live", strokes: { alice: [...FOURS.slice(0, 9), ...Array(9).fill(null)] } })
+    );
+    const a = r.players[0];
+    expect(a.accepted).toBe(false);
+    expect(a.holes[12]).toMatchObject({ status: "not_started", gross: null, net: null });
+    expect(a.gross.total).toBe(36);
+  });
+});
+
+describe("roundExportsToCsv", () => {
+  it("writes one row per player per hole with game columns, quoting where needed", () => {
+    const r = buildRoundExport(snapshot({ courseName: 'The "Old", Links', strokes: { alice: [...FOURS], bob: [...FOURS] } }));
+    const lines = roundExportsToCsv([r]).trimEnd().split("\r\n");
+
+    expect(lines).toHaveLength(1 + 2 * 18);
+    expect(lines[0]).toMatch(/^Date,Round,Course,Tee,Player,.*,Gross,Net,Stableford$/);
+    expect(lines[1]).toBe('2026-05-02,Saturday,"The ""Old"", Links",Yellow,alice,,10,0,,1,4,1,380,4,completed,4,4,2');
+    expect(roundExportFilename([r], "csv")).toBe("2026-05-02-the-old-links.csv");
+  });
+});
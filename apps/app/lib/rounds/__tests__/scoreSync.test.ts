@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { isRejectedSync, resolveQueuedScore, scorerRank, type ServerHoleState } from "@/lib/rounds/scoreSync";
+
+const T = Date.parse("2026-06-01T10:00:00Z");
+const op = { strokes: 5, holeStatus: "completed" as const, timestamp: T };
+
+function server(over: Partial<ServerHoleState>): ServerHoleState {
+  return { strokes: 4, holeStatus: "completed", enteredAt: "2026-06-01T09:55:00Z", enteredByRole: "player", ...over };
+}
+
+describe("resolveQueuedScore", () => {
+  it("applies when the hole has nothing yet or only older entries", () => {
+    expect(resolveQueuedScore(op, "player", null)).toBe("applied");
+    expect(resolveQueuedScore(op, "player", server({ enteredByRole: "owner" }))).toBe("applied");
+  });
+
+  it("treats the same value as already synced", () => {
+    expect(resolveQueuedScore(op, "player", server({ strokes: 5, enteredAt: "2026-06-01T10:30:00Z" }))).toBe("duplicate");
+    // Same strokes but a different hole state still needs writing.
+    expect(resolveQueuedScore({ ...op, strokes: null, holeStatus: "picked_up" }, "player", server({ strokes: null }))).toBe(
+      "applied"
+    );
+  });
+
+  it("writes an op that only changes the shot stats", () => {
+    const stats = { putts: 2, fairway: "hit" as const, gir: true, sand_save: null, penalty_strokes: null };
+    const synced = server({ strokes: 5, stats });
+    expect(resolveQueuedScore({ ...op, stats }, "player", synced)).toBe("duplicate");
+    expect(resolveQueuedScore({ ...op, stats: { ...stats, putts: 3 } }, "player", synced)).toBe("applied");
+    // An op without stats would clear the recorded ones.
+    expect(resolveQueuedScore(op, "player", synced)).toBe("applied");
+    expect(resolveQueuedScore(op, "player", server({ strokes: 5 }))).toBe("duplicate");
+  });
+
+  it("loses to a newer entry from an equal or higher-ranked scorer", () => {
+    const later = "2026-06-01T10:05:00Z";
+    expect(resolveQueuedScore(op, "player", server({ enteredAt: later, enteredByRole: "player" }))).toBe("superseded");
+    expect(resolveQueuedScore(op, "scorer", server({ enteredAt: later, enteredByRole: "owner" }))).toBe("superseded");
+  });
+
+  it("keeps the marker's offline card over a later player edit", () => {
+    const later = "2026-06-01T10:05:00Z";
+    expect(resolveQueuedScore(op, "owner", server({ enteredAt: later, enteredByRole: "player" }))).toBe("applied");
+    // Someone who has since left the round ranks below everyone.
+    expect(resolveQueuedScore(op, "player", server({ enteredAt: later, enteredByRole: null }))).toBe("applied");
+  });
+});
+
+describe("scorerRank", () => {
+  it("orders owner > scorer > player > unknown", () => {
+    expect(scorerRank("owner")).toBeGreaterThan(scorerRank("scorer"));
+    expect(scorerRank("scorer")).toBeGreaterThan(scorerRank("player"));
+    expect(scorerRank("player")).toBeGreaterThan(scorerRank(null));
+  });
+});
+
+describe("isRejectedSync", () => {
+  it("drops ops the server refused outright, keeps ones that can still sync", () => {
+    expect(isRejectedSync(409, false)).toBe(true);
+    expect(isRejectedSync(403, false)).toBe(true);
+    expect(isRejectedSync(400, false)).toBe(true);
+    expect(isRejectedSync(409, true)).toBe(false);
+    expect(isRejectedSync(401, false)).toBe(false);
+    expect(isRejectedSync(500, false)).toBe(false);
+  });
+});
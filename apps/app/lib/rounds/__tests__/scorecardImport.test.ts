@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkScorecard,
+  matchTeeName,
+  parseImportDate,
+  parseScorecardCsv,
+  parseScorecardTable,
+} from "@/lib/rounds/scorecardImport";
+
+const HOLES = Array.from({ length: 18 }, (_, i) => `H${i + 1}`).join(",");
+const FOURS = Array(18).fill(4).join(",");
+
+describe("parseImportDate", () => {
+  it("reads ISO and day-first dates", () => {
+    expect(parseImportDate("2024-03-09")).toBe("2024-03-09");
+    expect(parseImportDate("2024-03-09T10:15:00Z")).toBe("2024-03-09");
+    expect(parseImportDate("09/03/2024")).toBe("2024-03-09");
+    expect(parseImportDate("9.3.24")).toBe("2024-03-09");
+  });
+
+  it("falls back to month-first only when day-first is impossible", () => {
+    expect(parseImportDate("03/25/2024")).toBe("2024-03-25");
+    expect(parseImportDate("31/02/2024")).toBeNull();
+    expect(parseImportDate("last tuesday")).toBeNull();
+  });
+});
+
+describe("parseScorecardCsv", () => {
+  it("finds columns by header and reads one round per row", () => {
+    const { cards, errors } = parseScorecardCsv(
+      [`Date,Course,Tee,Total,${HOLES}`, `2024-03-09,Royal Example,Yellow,72,${FOURS}`].join("\n")
+    );
+    expect(errors).toEqual([]);
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toMatchObject({
+      row: 2,
+      playedAt: "2024-03-09",
+      courseName: "Royal Example",
+      teeName: "Yellow",
+      total: 72,
+      errors: [],
+    });
+    expect(cards[0].strokes.every((s) => s === 4)).toBe(true);
+  });
+
+  it("accepts bare hole numbers, skips preamble rows and leaves blanks as unplayed", () => {
+    const nine = Array(9).fill(5).join(",");
+    const { cards } = parseScorecardTable([
+      ["Exported from SomeApp"],
+      [],
+      ["played", "club", ...Array.from({ length: 18 }, (_, i) => String(i + 1))],
+      ["09/03/2024", "Links", ...nine.split(","), ...Array(9).fill("")],
+    ]);
+    expect(cards[0].row).toBe(4);
+    expect(cards[0].teeName).toBe("");
+    expect(cards[0].strokes.slice(0, 9)).toEqual(Array(9).fill(5));
+    expect(cards[0].strokes.slice(9)).toEqual(Array(9).fill(null));
+  });
+
+  it("flags unusable rows instead of dropping them", () => {
+    const { cards } = parseScorecardCsv(
+      [`date,course,${HOLES}`, `,Links,${FOURS}`, `2024-03-09,,${FOURS.replace(/^4/, "?")}`, `2099-01-01,Links,${FOURS.replace(/^4/, "44")}`].join("\n")
+    );
+    expect(cards[0].errors).toEqual(["Missing date"]);
+    expect(cards[1].errors).toEqual(["Missing course", "Unreadable score on hole 1"]);
+    expect(cards[2].errors).toEqual(["Date is in the future", "Unreadable score on hole 1"]);
+  });
+
+  it("reports a file without a usable header", () => {
+    const { cards, errors } = parseScorecardCsv("name,score\nme,88\n");
+    expect(cards).toEqual([]);
+    expect(errors[0]).toMatch(/header row/);
+  });
+});
+
+describe("matchTeeName", () => {
+  const tees = [
+    { id: "w", name: "White" },
+    { id: "y", name: "Yellow Tees" },
+    { id: "r", name: "Red (Ladies)" },
+  ];
+
+  it("matches ignoring 'tees' and case, then by containment", () => {
+    expect(matchTeeName("yellow", tees)?.id).toBe("y");
+    expect(matchTeeName("Red", tees)?.id).toBe("r");
+    expect(matchTeeName("Blue", tees)).toBeNull();
+    expect(matchTeeName("", [tees[0]])?.id).toBe("w");
+  });
+});
+
+describe("checkScorecard", () => {
+  const tee18 = { holesCount: 18, pars: Array(18).fill(4) };
+
+  it("blocks scores beyond the tee's holes", () => {
+    const strokes = Array(18).fill(5);
+    const res = checkScorecard({ strokes, total: null }, { holesCount: 9, pars: Array(9).fill(4) });
+    expect(res.blocking[0]).toMatch(/holes 10, 11/);
+  });
+
+  it("warns on a nine on an 18-hole tee and on a total that doesn't add up", () => {
+    const nine = [...Array(9).fill(5), ...Array(9).fill(null)];
+    expect(checkScorecard({ strokes: nine, total: 45 }, tee18).warnings).toEqual([
+      "Only 9 holes scored on an 18-hole tee — this won't count towards your handicap",
+    ]);
+    const full = Array(18).fill(5);
+    expect(checkScorecard({ strokes: full, total: 91 }, tee18).warnings).toEqual([
+      "Card total 91 doesn't match the holes (90)",
+    ]);
+    expect(checkScorecard({ strokes: Array(18).fill(3), total: null }, tee18).warnings[0]).toMatch(/18 under par/);
+  });
+});
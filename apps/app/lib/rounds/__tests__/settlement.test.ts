@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { ledgerTransfers, minimiseTransfers, settleRound } from "@/lib/rounds/settlement";
+import type { Hole, Participant, Score, HoleState } from "@/lib/rounds/hooks/useRoundDetail";
+
+function participant(id: string): Participant {
+  return {
+    id,
+    profile_id: id,
+    is_guest: false,
+    display_name: id,
+    role: "player",
+    tee_snapshot_id: null,
+    playing_handicap_used: 0,
+  };
+}
+
+function holes(count: number): Hole[] {
+  return Array.from({ length: count }, (_, i) => ({
+    hole_number: i + 1,
+    par: 4,
+    yardage: 400,
+    stroke_index: i + 1,
+  }));
+}
+
+/** `strokes[pid]` = that player's score on each hole from hole 1. */
+function card(strokes: Record<string, number[]>) {
+  const scoresByKey: Record<string, Score> = {};
+  const holeStatesByKey: Record<string, HoleState> = {};
+  for (const [pid, list] of Object.entries(strokes)) {
+    list.forEach((n, i) => {
+      scoresByKey[`${pid}:${i + 1}`] = { participant_id: pid, hole_number: i + 1, strokes: n, created_at: "" };
+      holeStatesByKey[`${pid}:${i + 1}`] = "completed";
+    });
+  }
+  return { scoresByKey, holeStatesByKey };
+}
+
+const sumOf = (r: Record<string, number>) => Object.values(r).reduce((a, b) => a + b, 0);
+
+describe("minimiseTransfers", () => {
+  it("pairs equal and opposite balances before netting the rest", () => {
+    const t = minimiseTransfers({ A: 5, B: -5, C: 7, D: -3, E: -4 });
+    expect(t).toContainEqual({ from: "B", to: "A", amount: 5 });
+    expect(t).toHaveLength(3);
+    expect(t.filter((x) => x.to === "C").reduce((a, x) => a + x.amount, 0)).toBe(7);
+  });
+
+  it("needs at most one fewer transfer than there are players", () => {
+    const t = minimiseTransfers({ A: 10.5, B: -3.25, C: -3.25, D: -4 });
+    expect(t).toHaveLength(3);
+    expect(t.every((x) => x.to === "A")).toBe(true);
+    expect(t.reduce((a, x) => a + x.amount, 0)).toBe(10.5);
+  });
+
+  it("returns nothing when everyone is square", () => {
+    expect(minimiseTransfers({ A: 0, B: 0 })).toEqual([]);
+  });
+});
+
+describe("ledgerTransfers", () => {
+  it("nets profile players between themselves, never through a guest", () => {
+    const net = { g: -5, a: -5, b: 5, h: 5 };
+    // Netting everyone pairs each profile with a guest, leaving A → B off the tab.
+    expect(minimiseTransfers(net)).toEqual([
+      { from: "g", to: "b", amount: 5 },
+      { from: "a", to: "h", amount: 5 },
+    ]);
+    const profileOf = new Map<string, string | null>([
+      ["a", "A"],
+      ["b", "B"],
+      ["g", null],
+      ["h", null],
+    ]);
+    expect(ledgerTransfers(net, profileOf)).toEqual([{ from: "A", to: "B", amount: 5 }]);
+  });
+});
+
+describe("settleRound", () => {
+  it("has each skin paid by every other player, carry-overs included", () => {
+    const three = ["A", "B", "C"].map(participant);
+    // Hole 1 halved, carried onto hole 2 which A wins outright: 2 skins.
+    const { scoresByKey, holeStatesByKey } = card({ A: [4, 3], B: [4, 4], C: [4, 5] });
+    const s = settleRound({
+      sideGames: [{ name: "skins", enabled: true, config: { carryover: true, value_per_skin: 1, scoring: "gross" } }],
+      participants: three,
+      holes: holes(2),
+      scoresByKey,
+      holeStatesByKey,
+    });
+    expect(s.games[0].amounts).toEqual({ A: 4, B: -2, C: -2 });
+    expect(s.transfers).toEqual([
+      { from: "B", to: "A", amount: 2 },
+      { from: "C", to: "A", amount: 2 },
+    ]);
+  });
+
+  describe("Nassau presses", () => {
+    const two = ["A", "B"].map(participant);
+    // B wins 1–2, A wins 3–5; everything else halved.
+    const a = [4, 4, 3, 3, 3, ...Array(13).fill(4)];
+    const b = [3, 3, 4, 4, 4, ...Array(13).fill(4)];
+    const { scoresByKey, holeStatesByKey } = card({ A: a, B: b });
+    const run = (config: Record<string, any>) =>
+      settleRound({
+        sideGames: [{ name: "nassau", enabled: true, config }],
+        participants: two,
+        holes: holes(18),
+        scoresByKey,
+        holeStatesByKey,
+      });
+
+    it("settles front, back and overall without presses", () => {
+      // A takes the front (33 v 34) and overall; the back is halved.
+      expect(run({ points: 2 }).net).toEqual({ A: 4, B: -4 });
+    });
+
+    it("starts a press when a bet goes the trigger down, and presses the press", () => {
+      // A 2 down after hole 2 → press on 3–9 (A wins). B then 2 down on that
+      // press after hole 4 → press on 5–9 (A wins). 4 + 2 + 2.
+      const s = run({ points: 2, auto_press: 2 });
+      expect(s.net).toEqual({ A: 8, B: -8 });
+      expect(s.transfers).toEqual([{ from: "B", to: "A", amount: 8 }]);
+    });
+
+    it("plays a nine-hole round as one bet, not front and overall", () => {
+      const nine = card({ A: a.slice(0, 9), B: b.slice(0, 9) });
+      const s = settleRound({
+        sideGames: [{ name: "nassau", enabled: true, config: { points: 2 } }],
+        participants: two,
+        holes: holes(9),
+        ...nine,
+      });
+      expect(s.net).toEqual({ A: 2, B: -2 });
+    });
+  });
+
+  it("pays Bingo Bango Bongo points at the configured value per point", () => {
+    const two = ["A", "B"].map(participant);
+    // A 2 points, B 1: A collects 2 × 0.5 and pays 1 × 0.5.
+    const s = settleRound({
+      sideGames: [{ name: "bingo_bango_bongo", enabled: true, config: { value_per_point: 0.5 } }],
+      participants: two,
+      holes: holes(1),
+      ...card({ A: [4], B: [4] }),
+      bbbAwardsByHole: { 1: { bingo_participant_id: "A", bango_participant_id: "A", bongo_participant_id: "B" } },
+    });
+    expect(s.games[0].amounts).toEqual({ A: 0.5, B: -0.5 });
+  });
+
+  it("pays wolf points at the configured value per point", () => {
+    const three = ["A", "B", "C"].map(participant);
+    // A goes lone wolf on hole 1 and wins it outright: 4 points.
+    const s = settleRound({
+      sideGames: [{ name: "wolf", enabled: true, config: { scoring: "gross", value_per_point: 0.5 } }],
+      participants: three,
+      holes: holes(1),
+      ...card({ A: [3], B: [4], C: [4] }),
+      wolfPicksByHole: { 1: { wolf_participant_id: "A", partner_participant_id: null, wolf_mode: "lone" } },
+    });
+    expect(s.games[0].amounts).toEqual({ A: 4, B: -2, C: -2 });
+  });
+
+  it("adds games together, skips disabled ones, and always sums to zero", () => {
+    const four = ["A", "B", "C", "D"].map(participant);
+    const { scoresByKey, holeStatesByKey } = card({ A: [4, 3, 5], B: [5, 5, 4], C: [4, 4, 4], D: [6, 5, 5] });
+    const s = settleRound({
+      sideGames: [
+        { name: "skins", enabled: true, config: { value_per_skin: 0.5, scoring: "gross" } },
+        { name: "vegas", enabled: true, config: { value_per_point: 0.1 } },
+        { name: "nassau", enabled: false, config: {} },
+      ],
+      participants: four,
+      holes: holes(3),
+      scoresByKey,
+      holeStatesByKey,
+    });
+    expect(s.games.map((g) => g.name)).toEqual(["skins", "vegas"]);
+    for (const g of s.games) expect(sumOf(g.amounts)).toBeCloseTo(0, 6);
+    expect(sumOf(s.net)).toBeCloseTo(0, 6);
+    const paid = s.transfers.reduce((a, t) => a + t.amount, 0);
+    const owed = sumOf(Object.fromEntries(Object.entries(s.net).filter(([, v]) => v > 0)));
+    expect(paid).toBeCloseTo(owed, 6);
+  });
+});
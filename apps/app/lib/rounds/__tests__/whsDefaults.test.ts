@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  getWhsDefaultPolicy,
+  isSingleBallFormat,
+  teamHandicapDescription,
+  teamPlayingHandicap,
+} from "@/lib/rounds/whsDefaults";
+
+describe("teamPlayingHandicap", () => {
+  it("weights Texas Scramble by team size, lowest handicap first", () => {
+    // 0.35 × 8 + 0.15 × 20 = 5.8
+    expect(teamPlayingHandicap("texas_scramble", [20, 8])).toBe(6);
+    // 0.30 × 4 + 0.20 × 10 + 0.10 × 18 = 5.0
+    expect(teamPlayingHandicap("texas_scramble", [18, 4, 10])).toBe(5);
+    // 0.25 × 2 + 0.20 × 9 + 0.15 × 14 + 0.10 × 24 = 6.8
+    expect(teamPlayingHandicap("texas_scramble", [24, 9, 2, 14])).toBe(7);
+    // Only the four lowest count in a bigger team.
+    expect(teamPlayingHandicap("texas_scramble", [24, 9, 2, 14, 30])).toBe(7);
+  });
+
+  it("gives Chapman 60% of the lower and 40% of the higher handicap", () => {
+    expect(teamPlayingHandicap("chapman", [18, 6])).toBe(11); // 3.6 + 7.2
+    expect(teamPlayingHandicap("chapman", [12])).toBe(12);
+  });
+
+  it("keeps the existing scramble, greensomes and foursomes formulas", () => {
+    expect(teamPlayingHandicap("scramble", [20, 8])).toBe(6);
+    expect(teamPlayingHandicap("greensomes", [18, 6])).toBe(11);
+    expect(teamPlayingHandicap("foursomes", [18, 7])).toBe(13); // 12.5 rounds up
+  });
+
+  it("has no team handicap for shamble or an empty team", () => {
+    expect(teamPlayingHandicap("shamble", [10, 12])).toBeNull();
+    expect(teamPlayingHandicap("chapman", [])).toBeNull();
+  });
+});
+
+describe("team format defaults", () => {
+  it("uses 100% of the team handicap for single-ball formats and best-ball allowances for shamble", () => {
+    expect(getWhsDefaultPolicy("chapman").allowance_pct).toBe(100);
+    expect(getWhsDefaultPolicy("texas_scramble").allowance_pct).toBe(100);
+    expect(getWhsDefaultPolicy("shamble", { countPerHole: 1 }).allowance_pct).toBe(75);
+    expect(getWhsDefaultPolicy("shamble", { countPerHole: 2 }).allowance_pct).toBe(85);
+  });
+
+  it("treats Chapman and Texas Scramble as one ball per team, shamble as own balls", () => {
+    expect(isSingleBallFormat("chapman")).toBe(true);
+    expect(isSingleBallFormat("texas_scramble")).toBe(true);
+    expect(isSingleBallFormat("shamble")).toBe(false);
+  });
+
+  it("describes each formula for the team builder", () => {
+    expect(teamHandicapDescription("texas_scramble", 2)).toBe("35% lowest + 15% highest");
+    expect(teamHandicapDescription("texas_scramble", 4)).toBe("25% lowest + 20% second + 15% third + 10% highest");
+    expect(teamHandicapDescription("chapman", 2)).toBe("60% lowest + 40% highest");
+    expect(teamHandicapDescription("foursomes", 2)).toBe("50% combined");
+  });
+});
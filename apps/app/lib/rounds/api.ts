@@ -31,3 +31,30 @@ export async function finishRound(roundId: string, result?: RoundResultInput) {
   if (!res.ok) throw new Error(await res.text());
   return (await res.json()) as { ok: true };
 }
+
+export type RoundExportQuery = { roundId: string } | { from: string; to: string };
+
+/** Download a hole-by-hole export of your own rounds (see /api/rounds/export). */
+export async function downloadRoundExport(query: RoundExportQuery, format: "csv" | "json") {
+  const params = new URLSearchParams({ format });
+  if ("roundId" in query) params.set("round_id", query.roundId);
+  else {
+    params.set("from", query.from);
+    params.set("to", query.to);
+  }
+
+  const res = await authedFetch(`/api/rounds/export?${params}`);
+  if (!res.ok) {
+    const j = await res.json().catch(() => null);
+    throw new Error(j?.error ?? "Export failed");
+  }
+
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `rounds.${format}`;
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -3,12 +3,16 @@ import { emitRoundPlayedFeedItem } from "@/lib/feed/generators/roundPlayed";
 import { emitHoleEventFeedItems } from "@/lib/feed/generators/holeEvents";
 import { emitAchievementFeedItems } from "@/lib/feed/generators/achievements";
 import { tryCompleteEventRound } from "@/lib/majors/tryCompleteEventRound";
+import { syncTeamMatches } from "@/lib/majors/teamMatchData";
 import { notifyFollowersOfRoundActivity, type RoundResult } from "@/lib/notifications/roundActivity";
+import { recordRoundSettlement } from "@/lib/rounds/settlementData";
 
 /**
  * Marks a round as finished and triggers all downstream effects:
  * - Sets rounds.status = 'finished' and finished_at = now()
  * - Auto-submits scores to event if the round is linked to a tee time
+ * - Records team-match results for the round's event (team match events)
+ * - Records side-game money on the players' running tab
  * - Emits feed items (round played, hole events, achievements)
  *
  * Idempotent: if the round is already finished the DB update is a no-op,
@@ -63,9 +67,25 @@ export async function finishRound({
       if (eventRoundId && eventId) {
         await tryCompleteEventRound(eventRoundId, eventId).catch(() => {});
       }
+
+      // A team match is decided by its round, so this is where its result is
+      // stored. A no-op for events without team matches.
+      if (eventId) {
+        await syncTeamMatches(eventId).catch((e) =>
+          console.error(`[finishRound] team match sync failed for ${eventId}:`, e)
+        );
+      }
     }
   }
 
+  // Side-game settlement onto the running tab (rewrites the round's rows, so
+  // safe to repeat). Best-effort like the feed items below.
+  if (roundRow) {
+    await recordRoundSettlement(roundId, actorProfileId).catch((e) =>
+      console.error(`[finishRound] side-game settlement failed for ${roundId}:`, e)
+    );
+  }
+
   // Feed items are best-effort — a failure here must not surface as an error
   // to the caller (the round is already finished).
   await emitRoundPlayedFeedItem({ roundId, actorProfileId }).catch(() => {});
@@ -4,7 +4,7 @@
  * Takes raw round data, returns display-ready results for the "Format" tab.
  */
 
-import type { Participant, Hole, Score, HoleState, Team, RoundFormatType, WolfPick, WolfMode } from "./hooks/useRoundDetail";
+import type { Participant, Hole, Score, HoleState, Team, RoundFormatType, WolfPick, WolfMode, BbbAward } from "./hooks/useRoundDetail";
 import { strokesReceivedOnHole, netFromGross, netDoubleBogeyGross } from "./handicapUtils";
 
 // ── Types ──────────────────────────────────────────────────────────────
@@ -50,6 +50,8 @@ export type FormatDisplayData = {
   filteredParticipantIds?: string[];
   /** Playing handicap per participant for StrokeDots on this format tab */
   playingHandicaps?: Record<string, number>;
+  /** Unit of Out/In/Total where it isn't obvious (e.g. "pts"); shown under the totals on the scorecard. */
+  totalsUnit?: string;
 };
 
 // ── Helpers ────────────────────────────────────────────────────────────
@@ -593,7 +595,8 @@ function computeTeamBestBall(
   holeStatesByKey: Record<string, HoleState>,
   teams: Team[],
   formatConfig: Record<string, any>,
-  notAcceptedIds: Set<string> = new Set()
+  notAcceptedIds: Set<string> = new Set(),
+  tabLabel = "Best Ball"
 ): FormatDisplayData | null {
   if (!teams.length) return null;
   const holeCount = holes.length;
@@ -654,7 +657,7 @@ function computeTeamBestBall(
     total: sumRange(holeResults, t.id, holes, 1, 18),
   }));
 
-  return { tabLabel: "Best Ball", holeResults, summaries, higherIsBetter, isTeamView: true };
+  return { tabLabel, holeResults, summaries, higherIsBetter, isTeamView: true };
 }
 
 // ── Pairs Stableford ──────────────────────────────────────────────────
@@ -731,7 +734,9 @@ function computeTeamSingleScore(
   holeStatesByKey: Record<string, HoleState>,
   teams: Team[]
 ): FormatDisplayData | null {
-  // Scramble, Greensomes, Foursomes — all team members share the same score
+  // Scramble, Texas Scramble, Greensomes, Chapman, Foursomes — all team
+  // members share the same score; the team handicap (stamped at round start by
+  // teamPlayingHandicap) is what differs between them
   // In practice the first member's score is the team score
   if (!teams.length) return null;
   const teamMap = buildTeamMap(participants, teams);
@@ -1137,12 +1142,23 @@ export function computeFormatDisplay(
     case "team_bestball":
       return wrap(computeTeamBestBall(participants, holes, scoresByKey, holeStatesByKey, teams, formatConfig, notAcceptedIds));
 
+    // Shamble scores as best ball once the shared drive is played — own balls,
+    // own handicaps.
+    case "shamble":
+      return wrap(computeTeamBestBall(participants, holes, scoresByKey, holeStatesByKey, teams, formatConfig, notAcceptedIds, "Shamble"));
+
     case "scramble":
       return wrap(computeTeamSingleScore("Scramble", participants, holes, scoresByKey, holeStatesByKey, teams));
 
+    case "texas_scramble":
+      return wrap(computeTeamSingleScore("Texas Scramble", participants, holes, scoresByKey, holeStatesByKey, teams));
+
     case "greensomes":
       return wrap(computeTeamSingleScore("Greensomes", participants, holes, scoresByKey, holeStatesByKey, teams));
 
+    case "chapman":
+      return wrap(computeTeamSingleScore("Chapman", participants, holes, scoresByKey, holeStatesByKey, teams));
+
     case "foursomes":
       return wrap(computeTeamSingleScore("Foursomes", participants, holes, scoresByKey, holeStatesByKey, teams));
 
@@ -1154,6 +1170,206 @@ export function computeFormatDisplay(
   }
 }
 
+// ── Party games (side games) ───────────────────────────────────────────
+
+/**
+ * Bingo Bango Bongo: three points a hole — first on the green (bingo),
+ * closest to the pin once everyone is on (bango), first in the hole (bongo).
+ * Nothing comes off the card; the markers are entered per hole
+ * (round_bbb_awards). Out/In/Total are all points; settlement applies the
+ * stake (value_per_point).
+ */
+function computeBingoBangoBongo(
+  participants: Participant[],
+  holes: Hole[],
+  bbbAwardsByHole: Record<number, BbbAward>
+): FormatDisplayData {
+  const holeResults: Record<string, FormatHoleResult> = {};
+  const ids = new Set(participants.map((p) => p.id));
+  const out: Record<string, number> = {};
+  const inn: Record<string, number> = {};
+  for (const p of participants) out[p.id] = inn[p.id] = 0;
+
+  for (const h of holes) {
+    const award = bbbAwardsByHole[h.hole_number];
+    const pts: Record<string, number> = {};
+    if (award) {
+      for (const pid of [award.bingo_participant_id, award.bango_participant_id, award.bongo_participant_id]) {
+        if (!pid || !ids.has(pid)) continue;
+        pts[pid] = (pts[pid] ?? 0) + 1;
+        if (h.hole_number <= 9) out[pid]++;
+        else inn[pid]++;
+      }
+    }
+    for (const p of participants) {
+      const key = `${p.id}:${h.hole_number}`;
+      if (!award) holeResults[key] = { displayValue: null };
+      else if (pts[p.id]) holeResults[key] = { displayValue: pts[p.id], cssHint: "won" };
+      else holeResults[key] = { displayValue: "–", cssHint: "neutral" };
+    }
+  }
+
+  const summaries: FormatSummary[] = participants.map((p) => ({
+    participantId: p.id,
+    out: out[p.id],
+    inn: inn[p.id],
+    total: out[p.id] + inn[p.id],
+  }));
+
+  return { tabLabel: "Bingo Bango Bongo", holeResults, summaries, higherIsBetter: true, isTeamView: false, totalsUnit: "pts" };
+}
+
+/** Hole score for the pairs games: net (default) or gross, pick-ups at net double bogey. */
+function partyScore(p: Participant, h: Hole, scoresByKey: Record<string, Score>, holeStatesByKey: Record<string, HoleState>, useGross: boolean, holeCount: number): number | null {
+  const hcp = playingHcp(p);
+  const gross = grossForMatchplay(p.id, h.hole_number, scoresByKey, holeStatesByKey, h.par ?? 4, hcp, h.stroke_index, holeCount);
+  if (gross === null) return null;
+  return useGross ? gross : netFromGross(gross, strokesReceivedOnHole(hcp, h.stroke_index, holeCount));
+}
+
+/** Vegas number for a side: low digit first, unless a 10+ pushes the high score to the front. */
+export function vegasNumber(a: number, b: number, flipped = false): number {
+  const low = Math.min(a, b);
+  const high = Math.max(a, b);
+  if (flipped || high >= 10) return high * 10 + low;
+  return low * 10 + high;
+}
+
+/**
+ * Vegas: two pairs (players 1 & 2 v 3 & 4 in card order). Each side's scores
+ * make a two-digit number, lowest first; the difference is what the hole is
+ * worth. With birdie_flip on, a side making birdie reverses the other side's
+ * number (unless they birdied too). Per-hole cells show each player's swing;
+ * Out/In/Total are points × stake, zero-sum across the four.
+ */
+function computeVegas(
+  participants: Participant[],
+  holes: Hole[],
+  scoresByKey: Record<string, Score>,
+  holeStatesByKey: Record<string, HoleState>,
+  config: Record<string, any>
+): FormatDisplayData | null {
+  if (participants.length !== 4) return null;
+  const useGross = config?.scoring === "gross";
+  const birdieFlip = config?.birdie_flip !== false;
+  const valuePerPoint = posNum(config?.value_per_point, 1);
+  const holeCount = holes.length;
+  const sides = [participants.slice(0, 2), participants.slice(2, 4)];
+  const holeResults: Record<string, FormatHoleResult> = {};
+  const out: Record<string, number> = {};
+  const inn: Record<string, number> = {};
+  for (const p of participants) out[p.id] = inn[p.id] = 0;
+
+  for (const h of holes) {
+    const scores = sides.map((side) => side.map((p) => partyScore(p, h, scoresByKey, holeStatesByKey, useGross, holeCount)));
+    if (scores.some((side) => side.some((v) => v === null))) {
+      for (const p of participants) holeResults[`${p.id}:${h.hole_number}`] = { displayValue: null };
+      continue;
+    }
+    const [a, b] = scores as number[][];
+    const par = h.par ?? 4;
+    const aBirdie = birdieFlip && Math.min(...a) < par;
+    const bBirdie = birdieFlip && Math.min(...b) < par;
+    const aNum = vegasNumber(a[0], a[1], bBirdie && !aBirdie);
+    const bNum = vegasNumber(b[0], b[1], aBirdie && !bBirdie);
+    const swing = bNum - aNum; // positive = side A won the hole
+
+    sides.forEach((side, i) => {
+      const mine = i === 0 ? swing : -swing;
+      for (const p of side) {
+        if (h.hole_number <= 9) out[p.id] += mine;
+        else inn[p.id] += mine;
+        holeResults[`${p.id}:${h.hole_number}`] = {
+          displayValue: mine > 0 ? `+${mine}` : mine,
+          cssHint: mine > 0 ? "won" : mine < 0 ? "lost" : "halved",
+        };
+      }
+    });
+  }
+
+  const summaries: FormatSummary[] = participants.map((p) => ({
+    participantId: p.id,
+    out: out[p.id] * valuePerPoint,
+    inn: inn[p.id] * valuePerPoint,
+    total: (out[p.id] + inn[p.id]) * valuePerPoint,
+  }));
+
+  return { tabLabel: "Vegas", holeResults, summaries, higherIsBetter: true, isTeamView: false, playingHandicaps: buildPlayingHandicaps(participants) };
+}
+
+/** Sixes partnerships by card position: each player partners each other player once. */
+const SIXES_PAIRINGS: [number[], number[]][] = [
+  [[0, 1], [2, 3]],
+  [[0, 2], [1, 3]],
+  [[0, 3], [1, 2]],
+];
+
+/**
+ * Sixes (round robin): three six-hole better-ball matches, rotating partners
+ * so each player partners every other once (three-hole matches on a nine).
+ * Cells show the running state of that segment's match; a decided match is
+ * worth value_per_match to each winner and costs each loser the same.
+ */
+function computeSixes(
+  participants: Participant[],
+  holes: Hole[],
+  scoresByKey: Record<string, Score>,
+  holeStatesByKey: Record<string, HoleState>,
+  config: Record<string, any>
+): FormatDisplayData | null {
+  if (participants.length !== 4) return null;
+  const useGross = config?.scoring === "gross";
+  const valuePerMatch = posNum(config?.value_per_match, 1);
+  const holeCount = holes.length;
+  const segmentLength = Math.ceil(holeCount / 3);
+  const holeResults: Record<string, FormatHoleResult> = {};
+  const totals: Record<string, number> = {};
+  for (const p of participants) totals[p.id] = 0;
+
+  SIXES_PAIRINGS.forEach(([aIdx, bIdx], seg) => {
+    const segHoles = holes.slice(seg * segmentLength, (seg + 1) * segmentLength);
+    const sideA = aIdx.map((i) => participants[i]);
+    const sideB = bIdx.map((i) => participants[i]);
+    let state = 0; // + = side A up
+    let played = 0;
+
+    for (const h of segHoles) {
+      const best = (side: Participant[]) => {
+        const vals = side.map((p) => partyScore(p, h, scoresByKey, holeStatesByKey, useGross, holeCount));
+        return vals.some((v) => v === null) ? null : Math.min(...(vals as number[]));
+      };
+      const a = best(sideA);
+      const b = best(sideB);
+      if (a === null || b === null) {
+        for (const p of participants) holeResults[`${p.id}:${h.hole_number}`] = { displayValue: null };
+        continue;
+      }
+      played++;
+      if (a < b) state++;
+      else if (b < a) state--;
+      for (const p of sideA) holeResults[`${p.id}:${h.hole_number}`] = buildMatchHoleResult(state, true);
+      for (const p of sideB) holeResults[`${p.id}:${h.hole_number}`] = buildMatchHoleResult(state, false);
+    }
+
+    // Settled when every hole is in, or the lead can't be caught.
+    const remaining = segHoles.length - played;
+    if (state !== 0 && (remaining === 0 || Math.abs(state) > remaining)) {
+      const [winners, losers] = state > 0 ? [sideA, sideB] : [sideB, sideA];
+      for (const p of winners) totals[p.id] += valuePerMatch;
+      for (const p of losers) totals[p.id] -= valuePerMatch;
+    }
+  });
+
+  const summaries: FormatSummary[] = participants.map((p) => ({
+    participantId: p.id,
+    out: "–",
+    inn: "–",
+    total: totals[p.id],
+  }));
+
+  return { tabLabel: "Sixes", holeResults, summaries, higherIsBetter: true, isTeamView: false, playingHandicaps: buildPlayingHandicaps(participants) };
+}
+
 // ── Side game tab dispatcher ──────────────────────────────────────────
 
 export type SideGameEntry = { name: string; enabled: boolean; config: Record<string, any> };
@@ -1168,7 +1384,8 @@ export function computeSideGameDisplays(
   holes: Hole[],
   scoresByKey: Record<string, Score>,
   holeStatesByKey: Record<string, HoleState>,
-  wolfPicksByHole: Record<number, WolfPick> = {}
+  wolfPicksByHole: Record<number, WolfPick> = {},
+  bbbAwardsByHole: Record<number, BbbAward> = {}
 ): FormatDisplayData[] {
   const results: FormatDisplayData[] = [];
 
@@ -1190,6 +1407,21 @@ export function computeSideGameDisplays(
         results.push(computeWolf(participants, holes, scoresByKey, holeStatesByKey, sg.config, wolfPicksByHole, "Wolf (Side)"));
         break;
       }
+      case "bingo_bango_bongo": {
+        results.push(computeBingoBangoBongo(participants, holes, bbbAwardsByHole));
+        break;
+      }
+      // Vegas and Sixes are four-ball games; with any other field they show no tab.
+      case "vegas": {
+        const data = computeVegas(participants, holes, scoresByKey, holeStatesByKey, sg.config);
+        if (data) results.push(data);
+        break;
+      }
+      case "sixes": {
+        const data = computeSixes(participants, holes, scoresByKey, holeStatesByKey, sg.config);
+        if (data) results.push(data);
+        break;
+      }
     }
   }
 
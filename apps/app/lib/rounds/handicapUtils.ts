@@ -3,6 +3,8 @@
  * Used by scorecard components and format scoring module.
  */
 
+import type { Participant, Hole } from "./hooks/useRoundDetail";
+
 export function strokesReceivedOnHole(
   courseHcp: number | null | undefined,
   holeStrokeIndex: number | null,
@@ -54,3 +56,29 @@ export function netDoubleBogeyGross(
 ): number {
   return par + 2 + strokesReceivedOnHole(courseHcp, strokeIndex, holeCount);
 }
+
+/** Compute set of participant IDs whose rounds don't meet WHS minimum holes */
+export function getNotAcceptedParticipants(
+  participants: Participant[],
+  holesList: Hole[],
+  holeStatesByKey: Record<string, string>
+): { ids: Set<string>; names: string[] } {
+  const holeCount = holesList.length || 18;
+  const minRequired = holeCount <= 9 ? 7 : 14;
+  const ids = new Set<string>();
+  const names: string[] = [];
+
+  for (const p of participants) {
+    let holesStarted = 0;
+    for (const h of holesList) {
+      const st = holeStatesByKey[`${p.id}:${h.hole_number}`] ?? "not_started";
+      if (st !== "not_started") holesStarted++;
+    }
+    if (holesStarted < minRequired) {
+      ids.add(p.id);
+      names.push(p.display_name || "A player");
+    }
+  }
+
+  return { ids, names };
+}
@@ -6,6 +6,7 @@ import { supabase } from "@/lib/supabaseClient";
 import { getViewerSession } from "@/lib/auth/viewerSession";
 import { resolvePlayingHandicapPreview } from "@/lib/rounds/playingHandicapPreview";
 import type { PlayingHandicapMode } from "@/components/rounds/PlayingHandicapSettings";
+import { shotStatsFromRow, type HoleShotStats } from "@/lib/rounds/shotStats";
 
 // Subscribes a realtime channel with automatic reconnect on drop (mobile tabs
 // suspend websockets without warning) and reconciles via `onReconciled` on every
@@ -55,7 +56,7 @@ type ProfileEmbed = { name: string | null; email: string | null; avatar_url: str
 export type RoundFormatType =
   | "strokeplay" | "stableford" | "matchplay" | "pairs_stableford"
   | "team_strokeplay" | "team_stableford" | "team_bestball"
-  | "scramble" | "greensomes" | "foursomes"
+  | "shamble" | "scramble" | "texas_scramble" | "greensomes" | "chapman" | "foursomes"
   | "skins" | "wolf";
 
 export type Team = { id: string; round_id: string; name: string; team_number: number; playing_handicap_used?: number | null };
@@ -86,7 +87,7 @@ export type Participant = {
 };
 
 export type Hole = { hole_number: number; par: number | null; yardage: number | null; stroke_index: number | null };
-export type Score = { participant_id: string; hole_number: number; strokes: number | null; created_at: string };
+export type Score = { participant_id: string; hole_number: number; strokes: number | null; created_at: string } & Partial<HoleShotStats>;
 
 // B: Hole states
 export type HoleState = "completed" | "picked_up" | "not_started";
@@ -100,6 +101,13 @@ export type WolfPick = {
   wolf_mode: WolfMode;
 };
 
+/** Bingo Bango Bongo markers for one hole (participant ids; null = not awarded yet). */
+export type BbbAward = {
+  bingo_participant_id: string | null; // first on the green
+  bango_participant_id: string | null; // closest to the pin once all are on
+  bongo_participant_id: string | null; // first in the hole
+};
+
 export function useRoundDetail(roundId: string, initialSnapshot?: any) {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
@@ -149,6 +157,9 @@ export function useRoundDetail(roundId: string, initialSnapshot?: any) {
   // Wolf game: per-hole picks keyed by hole_number
   const [wolfPicksByHole, setWolfPicksByHole] = useState<Record<number, WolfPick>>({});
 
+  // Bingo Bango Bongo: per-hole markers keyed by hole_number
+  const [bbbAwardsByHole, setBbbAwardsByHole] = useState<Record<number, BbbAward>>({});
+
   const toNumOrNull = (v: any) => {
     if (v == null) return null;
     const n = typeof v === "number" ? v : Number(v);
@@ -287,7 +298,9 @@ export function useRoundDetail(roundId: string, initialSnapshot?: any) {
     // writes) are preserved. Clears arrive as null-stroke events (they overwrite)
     // and genuine removals come via the realtime DELETE subscriptions.
     const scoreMap: Record<string, Score> = {};
-    for (const s of (snap.scores ?? []) as Score[]) scoreMap[`${s.participant_id}:${s.hole_number}`] = s;
+    for (const s of (snap.scores ?? []) as Score[]) {
+      scoreMap[`${s.participant_id}:${s.hole_number}`] = { ...s, ...shotStatsFromRow(s) };
+    }
     setScoresByKey((prev) => ({ ...prev, ...scoreMap }));
 
     const hsMap: Record<string, HoleState> = {};
@@ -376,6 +389,7 @@ export function useRoundDetail(roundId: string, initialSnapshot?: any) {
                   hole_number: row.hole_number,
                   strokes: row.strokes,
                   created_at: row.created_at,
+                  ...shotStatsFromRow(row),
                 },
               }));
             }
@@ -491,6 +505,60 @@ export function useRoundDetail(roundId: string, initialSnapshot?: any) {
     };
   }, [roundId, debouncedFetchAll]);
 
+  // Bingo Bango Bongo markers: initial load + realtime, same as wolf picks.
+  useEffect(() => {
+    if (!roundId) return;
+    let cancelled = false;
+
+    const toAward = (row: any): BbbAward => ({
+      bingo_participant_id: row.bingo_participant_id ?? null,
+      bango_participant_id: row.bango_participant_id ?? null,
+      bongo_participant_id: row.bongo_participant_id ?? null,
+    });
+
+    (async () => {
+      const { data } = await supabase
+        .from("round_bbb_awards")
+        .select("hole_number, bingo_participant_id, bango_participant_id, bongo_participant_id")
+        .eq("round_id", roundId);
+      if (cancelled || !data) return;
+      const map: Record<number, BbbAward> = {};
+      for (const row of data as any[]) map[row.hole_number] = toAward(row);
+      setBbbAwardsByHole(map);
+    })();
+
+    const dispose = subscribeWithChannelRetry({
+      makeChannel: () =>
+        supabase
+          .channel(`round-bbb-awards:${roundId}`)
+          .on(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "round_bbb_awards", filter: `round_id=eq.${roundId}` },
+            (payload) => {
+              if (payload.eventType === "DELETE") {
+                const old: any = payload.old;
+                if (old?.hole_number == null) return;
+                setBbbAwardsByHole((prev) => {
+                  const next = { ...prev };
+                  delete next[old.hole_number];
+                  return next;
+                });
+                return;
+              }
+              const row: any = payload.new;
+              if (row?.hole_number == null) return;
+              setBbbAwardsByHole((prev) => ({ ...prev, [row.hole_number as number]: toAward(row) }));
+            }
+          ),
+      onReconciled: () => debouncedFetchAll(),
+    });
+
+    return () => {
+      cancelled = true;
+      dispose();
+    };
+  }, [roundId, debouncedFetchAll]);
+
   // realtime: meta changes (refetch all, debounced to prevent burst reloads)
   useEffect(() => {
     if (!roundId) return;
@@ -734,6 +802,10 @@ export function useRoundDetail(roundId: string, initialSnapshot?: any) {
     wolfPicksByHole,
     setWolfPicksByHole,
 
+    // Bingo Bango Bongo
+    bbbAwardsByHole,
+    setBbbAwardsByHole,
+
     fetchAll,
     canScore,
   };
@@ -0,0 +1,174 @@
+import { SCORE_SYNC_TAG, isRejectedSync, type QueuedScoreOp, type ScoreSyncResult } from "./scoreSync";
+
+// ── IndexedDB score queue ────────────────────────────────────────────────────
+// Score and hole-state writes that couldn't reach Supabase (no signal) wait
+// here, one entry per participant-hole, until either the round page flushes
+// them or the service worker's background sync does (worker/index.js reads
+// this same database — keep OFFLINE_DB / the store names in step with it).
+//
+// No credentials are stored here. The page fetches a fresh session token when
+// it flushes; the worker sends the session cookies (refreshed by the
+// middleware), and if the user has signed out its ops wait for the page.
+
+export const OFFLINE_DB = "ciaga-offline";
+const DB_VERSION = 2;
+const OPS_STORE = "score_ops";
+/** Held a copy of the access token in version 1; dropped on upgrade. */
+const LEGACY_META_STORE = "meta";
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    const req = indexedDB.open(OFFLINE_DB, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(OPS_STORE)) {
+        // Out-of-line keys: `${roundId}|${key}`, one op per participant-hole.
+        db.createObjectStore(OPS_STORE).createIndex("roundId", "roundId");
+      }
+      if (db.objectStoreNames.contains(LEGACY_META_STORE)) db.deleteObjectStore(LEGACY_META_STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    // Private browsing / storage disabled: behave as an always-empty queue.
+    req.onerror = () => {
+      dbPromise = null;
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise<T | undefined>((resolve, reject) => {
+        if (!db) return resolve(undefined);
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req ? req.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+const opId = (roundId: string, key: string) => `${roundId}|${key}`;
+
+/** Queue (or replace) the pending write for one participant-hole. */
+export async function queueScoreOp(op: QueuedScoreOp): Promise<void> {
+  await run(OPS_STORE, "readwrite", (s) => s.put(op, opId(op.roundId, op.key)));
+}
+
+export async function listScoreOps(roundId: string): Promise<QueuedScoreOp[]> {
+  const ops = (await run<QueuedScoreOp[]>(OPS_STORE, "readonly", (s) => s.index("roundId").getAll(roundId))) ?? [];
+  return ops.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Forget a hole's queued op — a later write for it reached the server directly. */
+export async function dropScoreOp(roundId: string, key: string): Promise<void> {
+  await run(OPS_STORE, "readwrite", (s) => {
+    s.delete(opId(roundId, key));
+  });
+}
+
+/**
+ * Drop ops the server has dealt with — unless the hole was re-entered while
+ * the sync was in flight (the stored op's timestamp no longer matches).
+ */
+export async function removeSyncedOps(roundId: string, results: Pick<ScoreSyncResult, "key" | "timestamp">[]): Promise<void> {
+  if (!results.length) return;
+  const stored = new Map((await listScoreOps(roundId)).map((op) => [op.key, op.timestamp]));
+  const done = results.filter((r) => stored.get(r.key) === r.timestamp);
+  if (!done.length) return;
+  await run(OPS_STORE, "readwrite", (s) => {
+    for (const r of done) s.delete(opId(roundId, r.key));
+  });
+}
+
+/** Ask the service worker to sync when connectivity returns (Chromium only; a no-op elsewhere). */
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  try {
+    const reg = await navigator.serviceWorker.getRegistration();
+    await (reg as any)?.sync?.register(SCORE_SYNC_TAG);
+  } catch {
+    // Background Sync unsupported or denied — the page's online/visibility flush covers it.
+  }
+}
+
+/** Move ops left in the old per-round localStorage queue into IndexedDB. */
+export async function migrateLegacyQueue(roundId: string): Promise<void> {
+  const legacyKey = `ciaga:pendingOps:${roundId}`;
+  let legacy: any[] = [];
+  try {
+    legacy = JSON.parse(localStorage.getItem(legacyKey) ?? "[]");
+  } catch {
+    legacy = [];
+  }
+  if (!Array.isArray(legacy) || !legacy.length) return;
+
+  for (const o of legacy) {
+    await queueScoreOp({
+      key: o.key,
+      roundId,
+      participantId: o.participantId,
+      holeNumber: o.holeNumber,
+      strokes: o.strokes ?? null,
+      holeStatus: o.holeStatus ?? (typeof o.strokes === "number" ? "completed" : "not_started"),
+      timestamp: o.timestamp,
+      stats: o.stats,
+    });
+  }
+  try {
+    localStorage.removeItem(legacyKey);
+  } catch {}
+}
+
+export type SyncRoundResult =
+  | { ok: true; results: ScoreSyncResult[] }
+  | { ok: false; error: string; needsStart?: boolean; network?: boolean; discarded?: number };
+
+/**
+ * POST a round's queued ops to the score-sync route and drop the ones it
+ * handled. A 4xx the ops can't get past by retrying — the round was finished,
+ * we're not in it, an op is invalid — drops them all and reports how many;
+ * a 401 or a round that still needs starting leaves them queued.
+ */
+export async function syncRoundOps(roundId: string, accessToken: string): Promise<SyncRoundResult> {
+  const ops = await listScoreOps(roundId);
+  if (!ops.length) return { ok: true, results: [] };
+
+  let res: Response;
+  try {
+    res = await fetch(`/api/rounds/${roundId}/score-sync`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ ops }),
+    });
+  } catch (e: any) {
+    return { ok: false, error: e?.message ?? "Network error", network: true };
+  }
+
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const needsStart = !!json?.needs_start;
+    const rejected = isRejectedSync(res.status, needsStart);
+    // A partial failure still reports what was written before it.
+    if (rejected) await removeSyncedOps(roundId, ops);
+    else if (Array.isArray(json?.results)) await removeSyncedOps(roundId, json.results);
+    return {
+      ok: false,
+      error: json?.error ?? `Sync failed (${res.status})`,
+      needsStart,
+      discarded: rejected ? ops.length : 0,
+    };
+  }
+
+  const results = (json.results ?? []) as ScoreSyncResult[];
+  await removeSyncedOps(roundId, results);
+  return { ok: true, results };
+}
@@ -0,0 +1,333 @@
+/**
+ * Player round export — hole-by-hole CSV / JSON and the printable scorecard.
+ * Pure: takes the same `get_round_detail_snapshot` payload the round page
+ * hydrates from, so gross/net totals and the format + side-game results
+ * match what the scorecard shows (computeFormatDisplay /
+ * computeSideGameDisplays do the format work).
+ */
+
+import type { Participant, Hole, Score, HoleState, HoleStateRow, Team, RoundFormatType, SideGame, WolfPick, BbbAward } from "./hooks/useRoundDetail";
+import { computeFormatDisplay, computeSideGameDisplays, type FormatDisplayData } from "./formatScoring";
+import { strokesReceivedOnHole, netFromGross, netDoubleBogeyGross, getNotAcceptedParticipants } from "./handicapUtils";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type ExportSplit = { out: number; inn: number; total: number };
+
+export type RoundExportHole = {
+  hole: number;
+  par: number | null;
+  strokeIndex: number | null;
+  yardage: number | null;
+  /** Strokes as entered; null for a pick-up or an unplayed hole. */
+  strokes: number | null;
+  status: HoleState;
+  /** Strokes, or net double bogey where the hole counts but wasn't holed out. */
+  gross: number | null;
+  net: number | null;
+  /** Format / side-game cell for this hole, keyed by game label. */
+  games: Record<string, string | number | null>;
+};
+
+export type RoundExportPlayer = {
+  participantId: string;
+  name: string;
+  isGuest: boolean;
+  teamName: string | null;
+  handicapIndex: number | null;
+  courseHandicap: number | null;
+  playingHandicap: number | null;
+  /** False when too few holes were played for an acceptable score. */
+  accepted: boolean;
+  holes: RoundExportHole[];
+  gross: ExportSplit;
+  net: ExportSplit;
+  /** Gross against par for the holes that count; null without pars. */
+  toPar: number | null;
+};
+
+export type RoundExportGame = {
+  label: string;
+  /** True for side games (skins, nassau, wolf) rather than the round format. */
+  side: boolean;
+  higherIsBetter: boolean;
+  teamView: boolean;
+  /** Unit of the standings where it isn't obvious (e.g. "pts"). */
+  unit: string | null;
+  standings: { name: string; out: number | string; inn: number | string; total: number | string }[];
+};
+
+export type RoundExport = {
+  roundId: string;
+  name: string;
+  courseName: string;
+  teeName: string | null;
+  /** YYYY-MM-DD; null for a round that never started. */
+  playedOn: string | null;
+  status: string;
+  formatType: RoundFormatType;
+  holes: Hole[];
+  players: RoundExportPlayer[];
+  games: RoundExportGame[];
+};
+
+// ── Build ──────────────────────────────────────────────────────────────
+
+const toNumOrNull = (v: unknown): number | null => {
+  if (v == null) return null;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Same resolution as useRoundDetail's hydrate for a live/finished round. */
+export function participantsFromSnapshot(snap: any): Participant[] {
+  const extras = new Map<string, any>(((snap.participant_extras ?? []) as any[]).map((row) => [row.id, row]));
+
+  const tee = snap.tee_snapshot;
+  const rating = toNumOrNull(tee?.rating);
+  const slope = toNumOrNull(tee?.slope);
+  const parTotal = toNumOrNull(tee?.par_total);
+  const computeCH = (hi: number | null): number | null => {
+    if (hi === null || rating === null || slope === null || parTotal === null) return null;
+    const effectiveHi = (tee?.holes_count ?? 18) === 9 ? hi / 2 : hi;
+    return Math.round(effectiveHi * (slope / 113) + (rating - parTotal));
+  };
+
+  return ((snap.participants ?? []) as any[]).map((row) => {
+    const hi =
+      toNumOrNull(row.handicap_index) ??
+      toNumOrNull(row.handicap_index_computed) ??
+      toNumOrNull(extras.get(row.id)?.handicap_index);
+    return {
+      id: row.id,
+      profile_id: row.profile_id,
+      is_guest: !!row.is_guest,
+      display_name: row.display_name,
+      role: row.role,
+      tee_snapshot_id: row.tee_snapshot_id,
+      team_id: extras.get(row.id)?.team_id ?? null,
+      handicap_index: hi,
+      course_handicap: toNumOrNull(row.course_handicap) ?? toNumOrNull(row.course_handicap_computed) ?? computeCH(hi),
+      playing_handicap_used: toNumOrNull(extras.get(row.id)?.playing_handicap_used),
+      profiles: { name: row.name ?? null, email: null, avatar_url: null },
+    };
+  });
+}
+
+/** Display name without falling back to email — exports leave the app. */
+export function playerName(p: Participant): string {
+  const prof = Array.isArray(p.profiles) ? p.profiles[0] : p.profiles;
+  return p.display_name || prof?.name || (p.profile_id ? "Player" : "Guest");
+}
+
+function addTo(split: ExportSplit, hole: number, v: number) {
+  split.total += v;
+  if (hole <= 9) split.out += v;
+  else split.inn += v;
+}
+
+export function buildRoundExport(
+  snap: any,
+  wolfPicksByHole: Record<number, WolfPick> = {},
+  bbbAwardsByHole: Record<number, BbbAward> = {}
+): RoundExport {
+  const r = snap.round ?? {};
+  const formatType = ((r.format_type as RoundFormatType) || "strokeplay");
+  const participants = participantsFromSnapshot(snap);
+  const holes = [...((snap.holes ?? []) as Hole[])].sort((a, b) => a.hole_number - b.hole_number);
+  const teams = (snap.teams ?? []) as Team[];
+  const isFinished = r.status === "finished";
+
+  const scoresByKey: Record<string, Score> = {};
+  for (const s of (snap.scores ?? []) as Score[]) scoresByKey[`${s.participant_id}:${s.hole_number}`] = s;
+  const holeStatesByKey: Record<string, HoleState> = {};
+  for (const row of (snap.hole_states ?? []) as HoleStateRow[]) {
+    holeStatesByKey[`${row.participant_id}:${row.hole_number}`] = row.status;
+  }
+
+  // As on the scorecard: before the round is finished nobody's unplayed holes
+  // are filled in with net double bogey.
+  const notAcceptedIds = isFinished
+    ? getNotAcceptedParticipants(participants, holes, holeStatesByKey).ids
+    : new Set(participants.map((p) => p.id));
+
+  const main = computeFormatDisplay(
+    formatType,
+    (r.format_config as Record<string, any>) || {},
+    participants,
+    holes,
+    scoresByKey,
+    holeStatesByKey,
+    teams,
+    playerName,
+    notAcceptedIds,
+    wolfPicksByHole,
+    toNumOrNull(r.starting_hole) ?? 1
+  );
+  const side = computeSideGameDisplays(
+    (r.side_games as SideGame[]) || [],
+    participants,
+    holes,
+    scoresByKey,
+    holeStatesByKey,
+    wolfPicksByHole,
+    bbbAwardsByHole
+  );
+  const displays: { d: FormatDisplayData; side: boolean }[] = [
+    ...main.map((d) => ({ d, side: false })),
+    ...side.map((d) => ({ d, side: true })),
+  ];
+
+  const teamName = (id: string | null | undefined) => teams.find((t) => t.id === id)?.name ?? null;
+  const holeCount = holes.length;
+
+  const players = participants.map((p): RoundExportPlayer => {
+    const accepted = !notAcceptedIds.has(p.id);
+    const netHcp = p.playing_handicap_used ?? p.course_handicap ?? 0;
+    const gross: ExportSplit = { out: 0, inn: 0, total: 0 };
+    const net: ExportSplit = { out: 0, inn: 0, total: 0 };
+    let parCounted = 0;
+
+    const rows = holes.map((h): RoundExportHole => {
+      const key = `${p.id}:${h.hole_number}`;
+      const status = holeStatesByKey[key] ?? "not_started";
+      const strokes = status === "picked_up" ? null : scoresByKey[key]?.strokes ?? null;
+
+      let g: number | null = null;
+      let n: number | null = null;
+      if (typeof strokes === "number") {
+        g = strokes;
+        n = netFromGross(strokes, strokesReceivedOnHole(netHcp, h.stroke_index, holeCount));
+      } else if (h.par && (status === "picked_up" || (status === "not_started" && accepted))) {
+        g = netDoubleBogeyGross(h.par, p.course_handicap, h.stroke_index, holeCount);
+        n = h.par + 2; // strokes received cancel out
+      }
+      if (g != null) {
+        addTo(gross, h.hole_number, g);
+        if (h.par) parCounted += h.par;
+      }
+      if (n != null) addTo(net, h.hole_number, n);
+
+      const games: Record<string, string | number | null> = {};
+      for (const { d } of displays) {
+        const rowKey = d.isTeamView ? `${p.team_id}:${h.hole_number}` : key;
+        const shown = !d.filteredParticipantIds || d.filteredParticipantIds.includes(p.id);
+        games[d.tabLabel] = shown ? d.holeResults[rowKey]?.displayValue ?? null : null;
+      }
+
+      return {
+        hole: h.hole_number,
+        par: h.par,
+        strokeIndex: h.stroke_index,
+        yardage: h.yardage,
+        strokes,
+        status,
+        gross: g,
+        net: n,
+        games,
+      };
+    });
+
+    return {
+      participantId: p.id,
+      name: playerName(p),
+      isGuest: p.is_guest,
+      teamName: teamName(p.team_id),
+      handicapIndex: p.handicap_index ?? null,
+      courseHandicap: p.course_handicap ?? null,
+      playingHandicap: p.playing_handicap_used ?? null,
+      accepted,
+      holes: rows,
+      gross,
+      net,
+      toPar: parCounted > 0 ? gross.total - parCounted : null,
+    };
+  });
+
+  const nameById = new Map<string, string>([
+    ...participants.map((p) => [p.id, playerName(p)] as [string, string]),
+    ...teams.map((t) => [t.id, t.name] as [string, string]),
+  ]);
+
+  const games = displays.map(({ d, side }): RoundExportGame => ({
+    label: d.tabLabel,
+    side,
+    higherIsBetter: d.higherIsBetter,
+    teamView: d.isTeamView,
+    unit: d.totalsUnit ?? null,
+    standings: d.summaries.map((s) => ({
+      name: nameById.get(s.teamId ?? s.participantId) ?? "—",
+      out: s.out,
+      inn: s.inn,
+      total: s.total,
+    })),
+  }));
+
+  const startedAt: string | null = r.started_at ?? r.created_at ?? null;
+
+  return {
+    roundId: r.id ?? "",
+    name: r.name || r.course_name || "Round",
+    courseName: r.course_name ?? "",
+    teeName: snap.tee_snapshot?.name ?? null,
+    playedOn: startedAt ? startedAt.slice(0, 10) : null,
+    status: r.status ?? "draft",
+    formatType,
+    holes,
+    players,
+    games,
+  };
+}
+
+// ── CSV ────────────────────────────────────────────────────────────────
+
+function csvCell(v: string | number | boolean | null | undefined): string {
+  if (v == null) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const CSV_COLUMNS = [
+  "Date", "Round", "Course", "Tee", "Player", "Team", "Handicap Index", "Course Handicap", "Playing Handicap",
+  "Hole", "Par", "SI", "Yards", "Strokes", "Status", "Gross", "Net",
+];
+
+/**
+ * One row per player per hole. Format and side-game columns are the union
+ * of every round's games, so a date-range export stays one rectangular sheet.
+ */
+export function roundExportsToCsv(rounds: RoundExport[]): string {
+  const gameLabels: string[] = [];
+  for (const r of rounds) {
+    for (const g of r.games) if (!gameLabels.includes(g.label)) gameLabels.push(g.label);
+  }
+
+  const lines = [[...CSV_COLUMNS, ...gameLabels].map(csvCell).join(",")];
+  for (const r of rounds) {
+    for (const p of r.players) {
+      for (const h of p.holes) {
+        lines.push(
+          [
+            r.playedOn, r.name, r.courseName, r.teeName, p.name, p.teamName,
+            p.handicapIndex, p.courseHandicap, p.playingHandicap,
+            h.hole, h.par, h.strokeIndex, h.yardage, h.strokes, h.status, h.gross, h.net,
+            ...gameLabels.map((l) => h.games[l]),
+          ]
+            .map(csvCell)
+            .join(",")
+        );
+      }
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function roundExportFilename(rounds: RoundExport[], ext: "csv" | "json"): string {
+  if (rounds.length === 1) {
+    const r = rounds[0];
+    const slug = r.courseName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "round";
+    return `${r.playedOn ?? "round"}-${slug}.${ext}`;
+  }
+  const dates = rounds.map((r) => r.playedOn).filter((d): d is string => !!d).sort();
+  return dates.length ? `rounds-${dates[0]}-to-${dates[dates.length - 1]}.${ext}` : `rounds.${ext}`;
+}
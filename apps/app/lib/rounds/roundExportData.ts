@@ -0,0 +1,116 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { chunk } from "@/lib/stats/helpers";
+import { buildRoundExport, type RoundExport } from "@/lib/rounds/roundExport";
+import type { BbbAward, WolfMode, WolfPick } from "@/lib/rounds/hooks/useRoundDetail";
+
+/**
+ * Server-side loading for the player round export (/api/rounds/export and
+ * the printable scorecard). A player can only export rounds they played in.
+ */
+
+export const MAX_EXPORT_ROUNDS = 100;
+
+/** True when `profileId` has a participant row in the round. */
+export async function isRoundParticipant(profileId: string, roundId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("round_participants")
+    .select("id")
+    .eq("round_id", roundId)
+    .eq("profile_id", profileId)
+    .limit(1);
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Finished rounds the player took part in, started between `from` and `to`
+ * (YYYY-MM-DD, inclusive), oldest first. Capped at MAX_EXPORT_ROUNDS;
+ * `truncated` says whether more matched.
+ */
+export async function finishedRoundIdsInRange(
+  profileId: string,
+  from: string,
+  to: string
+): Promise<{ roundIds: string[]; truncated: boolean }> {
+  const { data: parts, error: pErr } = await supabaseAdmin
+    .from("round_participants")
+    .select("round_id")
+    .eq("profile_id", profileId);
+  if (pErr) throw pErr;
+
+  const ids = [...new Set((parts ?? []).map((p: any) => p.round_id as string))];
+  if (!ids.length) return { roundIds: [], truncated: false };
+
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  // A long-time player's round list is too long for one `in` filter. Each
+  // batch's oldest MAX_EXPORT_ROUNDS + 1 is enough to find the overall oldest.
+  const matched: { id: string; started_at: string }[] = [];
+  for (const batch of chunk(ids, 100)) {
+    const { data: rounds, error: rErr } = await supabaseAdmin
+      .from("rounds")
+      .select("id, started_at")
+      .in("id", batch)
+      .eq("status", "finished")
+      .gte("started_at", `${from}T00:00:00Z`)
+      .lt("started_at", end.toISOString())
+      .order("started_at", { ascending: true })
+      .limit(MAX_EXPORT_ROUNDS + 1);
+    if (rErr) throw rErr;
+    matched.push(...((rounds ?? []) as { id: string; started_at: string }[]));
+  }
+
+  const roundIds = matched
+    .sort((a, b) => Date.parse(a.started_at) - Date.parse(b.started_at))
+    .map((r) => r.id);
+  return { roundIds: roundIds.slice(0, MAX_EXPORT_ROUNDS), truncated: roundIds.length > MAX_EXPORT_ROUNDS };
+}
+
+export async function loadWolfPicks(roundId: string): Promise<Record<number, WolfPick>> {
+  const { data, error } = await supabaseAdmin
+    .from("round_wolf_picks")
+    .select("hole_number, wolf_participant_id, partner_participant_id, wolf_mode")
+    .eq("round_id", roundId);
+  if (error) throw error;
+
+  const map: Record<number, WolfPick> = {};
+  for (const row of (data ?? []) as any[]) {
+    map[row.hole_number] = {
+      wolf_participant_id: row.wolf_participant_id ?? null,
+      partner_participant_id: row.partner_participant_id ?? null,
+      wolf_mode: (row.wolf_mode as WolfMode) ?? "partner",
+    };
+  }
+  return map;
+}
+
+export async function loadBbbAwards(roundId: string): Promise<Record<number, BbbAward>> {
+  const { data, error } = await supabaseAdmin
+    .from("round_bbb_awards")
+    .select("hole_number, bingo_participant_id, bango_participant_id, bongo_participant_id")
+    .eq("round_id", roundId);
+  if (error) throw error;
+
+  const map: Record<number, BbbAward> = {};
+  for (const row of (data ?? []) as any[]) {
+    map[row.hole_number] = {
+      bingo_participant_id: row.bingo_participant_id ?? null,
+      bango_participant_id: row.bango_participant_id ?? null,
+      bongo_participant_id: row.bongo_participant_id ?? null,
+    };
+  }
+  return map;
+}
+
+/** Snapshot + wolf picks + BBB markers → export; null when the round doesn't exist. */
+export async function loadRoundExport(roundId: string): Promise<RoundExport | null> {
+  const [{ data: snap, error }, wolfPicks, bbbAwards] = await Promise.all([
+    supabaseAdmin.rpc("get_round_detail_snapshot", { _round_id: roundId }),
+    loadWolfPicks(roundId),
+    loadBbbAwards(roundId),
+  ]);
+  if (error) throw error;
+  if (!snap?.round) return null;
+  return buildRoundExport(snap, wolfPicks, bbbAwards);
+}
@@ -0,0 +1,107 @@
+import type { HoleState } from "./hooks/useRoundDetail";
+import { shotStatsForInsert, shotStatsFromRow, type HoleShotStats } from "./shotStats";
+
+// ── Offline score sync ───────────────────────────────────────────────────────
+// Shared by the IndexedDB queue (lib/rounds/offlineQueue.ts), the page flush,
+// the service worker's background sync (worker/index.js) and the server
+// (/api/rounds/[round_id]/score-sync), which is the only place a queued op is
+// written and the only place conflicts are decided.
+
+export const SCORE_SYNC_TAG = "ciaga-score-sync";
+
+/** One hole's pending write. Later entries for the same hole replace earlier ones. */
+export type QueuedScoreOp = {
+  /** `${participantId}:${holeNumber}` — same key as scoresByKey. */
+  key: string;
+  roundId: string;
+  participantId: string;
+  holeNumber: number;
+  strokes: number | null;
+  holeStatus: HoleState;
+  /** Client clock (ms) when the score was entered — what conflicts compare. */
+  timestamp: number;
+  stats?: HoleShotStats;
+  /** The round wasn't live yet when this was entered; sync starts it first. */
+  start?: boolean;
+};
+
+export type ScoreSyncOutcome =
+  /** Written. */
+  | "applied"
+  /** The server already has exactly this (a retried request, or someone else entered the same). */
+  | "duplicate"
+  /** Someone with at least our scoring authority entered this hole after we did. */
+  | "superseded";
+
+export type ScoreSyncResult = {
+  key: string;
+  timestamp: number;
+  outcome: ScoreSyncOutcome;
+  /** What the hole holds on the server now (for the client to adopt when superseded). */
+  strokes: number | null;
+  holeStatus: HoleState;
+};
+
+/** Round roles by scoring authority: the owner keeps the official card. */
+export const SCORER_RANK: Record<string, number> = { owner: 3, scorer: 2, player: 1 };
+
+export function scorerRank(role: string | null | undefined): number {
+  return SCORER_RANK[role ?? ""] ?? 0;
+}
+
+/** Latest server state for the hole a queued op targets. */
+export type ServerHoleState = {
+  strokes: number | null;
+  holeStatus: HoleState;
+  /** created_at of the latest round_score_events row, ISO. */
+  enteredAt: string;
+  /** Round role of whoever entered it (null if they've left the round). */
+  enteredByRole: string | null;
+  /** Shot stats on that row; missing = none recorded. */
+  stats?: HoleShotStats;
+};
+
+const STAT_FIELDS: (keyof HoleShotStats)[] = ["putts", "fairway", "gir", "sand_save", "penalty_strokes"];
+
+/** Whether writing the op would store the same stats the hole already has. */
+function sameStats(op: Pick<QueuedScoreOp, "strokes" | "stats">, server: ServerHoleState): boolean {
+  const next = shotStatsForInsert(op.strokes, op.stats ? shotStatsFromRow(op.stats) : null);
+  const current = shotStatsFromRow(server.stats ?? null);
+  return STAT_FIELDS.every((f) => next[f] === current[f]);
+}
+
+/**
+ * Decide a queued op against what the server already has for that hole.
+ *
+ * Newer wins, except that a later entry by a lower-ranked scorer doesn't
+ * override a queued entry from someone above them — a player's live edit
+ * shouldn't undo the marker's card just because the marker was in a dead
+ * zone. Equal values (strokes, hole state and shot stats) are a no-op either
+ * way.
+ */
+export function resolveQueuedScore(
+  op: Pick<QueuedScoreOp, "strokes" | "holeStatus" | "timestamp" | "stats">,
+  opRole: string | null,
+  server: ServerHoleState | null
+): ScoreSyncOutcome {
+  if (!server) return "applied";
+  if (server.strokes === op.strokes && server.holeStatus === op.holeStatus && sameStats(op, server)) {
+    return "duplicate";
+  }
+
+  const serverAt = Date.parse(server.enteredAt);
+  const serverIsNewer = Number.isFinite(serverAt) && serverAt > op.timestamp;
+  if (serverIsNewer && scorerRank(server.enteredByRole) >= scorerRank(opRole)) return "superseded";
+
+  return "applied";
+}
+
+/**
+ * Whether a failed sync should drop the ops it sent: a 4xx retrying can't fix
+ * (round finished, not a participant, invalid op). A 401 waits for a fresh
+ * session and a round that hasn't started waits for the page to start it.
+ * worker/index.js applies the same rule.
+ */
+export function isRejectedSync(status: number, needsStart: boolean): boolean {
+  return status >= 400 && status < 500 && status !== 401 && !needsStart;
+}
@@ -0,0 +1,265 @@
+import Papa from "papaparse";
+
+// ── Scorecard import (CSV / XLSX) ────────────────────────────────────────────
+// Pure parsing + checks behind the /history/import wizard. Files from other
+// apps vary a lot, so columns are found by header name rather than position:
+//
+//   date    — date, played, played_at, played on, round date
+//   course  — course, course_name, club, venue
+//   tee     — tee, tee_name, tees, tee box (optional)
+//   total   — total, gross, score (optional, cross-checked against the holes)
+//   holes   — 1..18, h1..h18, hole1..hole18, hole_1.., "hole 1"..
+//
+// One row = one round. Hole-by-hole scores are required: adjusted gross
+// score (net double bogey) is worked out per hole, so a bare total can't
+// produce a differential.
+
+export const MAX_IMPORT_ROWS = 500;
+const MAX_HOLE_STROKES = 20;
+
+export type ImportedScorecard = {
+  /** 1-based row in the source sheet, for error messages. */
+  row: number;
+  /** YYYY-MM-DD, null when missing or unreadable. */
+  playedAt: string | null;
+  courseName: string;
+  teeName: string;
+  /** Strokes for holes 1–18 (index 0 = hole 1); null where not played. */
+  strokes: (number | null)[];
+  /** Total as written on the card, if the file has one. */
+  total: number | null;
+  /** Problems that stop this row being imported at all. */
+  errors: string[];
+};
+
+type ColumnMap = {
+  date: number;
+  course: number;
+  tee: number | null;
+  total: number | null;
+  holes: Map<number, number>; // hole number → column index
+};
+
+const DATE_HEADERS = new Set(["date", "played", "played_at", "played on", "playedon", "round date", "round_date"]);
+const COURSE_HEADERS = new Set(["course", "course_name", "course name", "club", "venue"]);
+const TEE_HEADERS = new Set(["tee", "tee_name", "tee name", "tees", "tee box", "tee_box", "teebox"]);
+const TOTAL_HEADERS = new Set(["total", "gross", "score", "gross score", "total score"]);
+
+function normHeader(s: string): string {
+  return (s ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function holeNumberFromHeader(h: string): number | null {
+  const m = /^(?:h|hole|hole_|hole |#)?(\d{1,2})$/.exec(h);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return n >= 1 && n <= 18 ? n : null;
+}
+
+function findColumns(header: string[]): ColumnMap | null {
+  let date = -1;
+  let course = -1;
+  let tee: number | null = null;
+  let total: number | null = null;
+  const holes = new Map<number, number>();
+
+  header.forEach((raw, i) => {
+    const h = normHeader(raw);
+    if (date < 0 && DATE_HEADERS.has(h)) date = i;
+    else if (course < 0 && COURSE_HEADERS.has(h)) course = i;
+    else if (tee == null && TEE_HEADERS.has(h)) tee = i;
+    else if (total == null && TOTAL_HEADERS.has(h)) total = i;
+    else {
+      const n = holeNumberFromHeader(h);
+      if (n != null && !holes.has(n)) holes.set(n, i);
+    }
+  });
+
+  if (date < 0 || course < 0 || holes.size === 0) return null;
+  return { date, course, tee, total, holes };
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (y < 100) y += y >= 70 ? 1900 : 2000;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return dt.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads YYYY-MM-DD (optionally with a time), YYYY/MM/DD and day-first
+ * DD/MM/YYYY or DD-MM-YY. Slash dates are taken as day-first unless the
+ * first part can't be a day-of-month pairing (e.g. 03/25/2024).
+ */
+export function parseImportDate(raw: string): string | null {
+  const s = (raw ?? "").trim();
+  if (!s) return null;
+
+  let m = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/.exec(s);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(s);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    const y = Number(m[3]);
+    return b > 12 && a <= 12 ? isoDate(y, a, b) : isoDate(y, b, a);
+  }
+
+  return null;
+}
+
+function parseStrokes(raw: string): number | null | "bad" {
+  const s = (raw ?? "").trim();
+  if (!s || s === "-" || s.toLowerCase() === "x") return null;
+  const n = Number(s);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_HOLE_STROKES) return "bad";
+  return n;
+}
+
+/**
+ * Parse a sheet (header row first, blank rows allowed before it) into
+ * scorecards. Row-level problems are attached to each card; file-level
+ * problems (no recognisable header, too many rows) come back in `errors`.
+ */
+export function parseScorecardTable(rows: string[][]): { cards: ImportedScorecard[]; errors: string[] } {
+  const headerIdx = rows.findIndex((r) => findColumns(r) != null);
+  if (headerIdx < 0) {
+    return {
+      cards: [],
+      errors: ["Couldn't find a header row with date, course and hole columns (1–18 or H1–H18)."],
+    };
+  }
+
+  const cols = findColumns(rows[headerIdx])!;
+  const body = rows
+    .map((cells, i) => ({ cells, row: i + 1 }))
+    .slice(headerIdx + 1)
+    .filter(({ cells }) => cells.some((c) => (c ?? "").trim() !== ""));
+
+  if (body.length > MAX_IMPORT_ROWS) {
+    return { cards: [], errors: [`Too many rounds in one file (${body.length}) — split it into files of ${MAX_IMPORT_ROWS} or fewer.`] };
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const cards = body.map(({ cells, row }): ImportedScorecard => {
+    const errors: string[] = [];
+    const rawDate = cells[cols.date] ?? "";
+    const playedAt = parseImportDate(rawDate);
+    if (!rawDate.trim()) errors.push("Missing date");
+    else if (!playedAt) errors.push(`Unreadable date "${rawDate.trim()}"`);
+    else if (playedAt > today) errors.push("Date is in the future");
+
+    const courseName = (cells[cols.course] ?? "").trim();
+    if (!courseName) errors.push("Missing course");
+
+    const strokes: (number | null)[] = Array(18).fill(null);
+    const bad: number[] = [];
+    for (const [hole, col] of cols.holes) {
+      const v = parseStrokes(cells[col] ?? "");
+      if (v === "bad") bad.push(hole);
+      else strokes[hole - 1] = v;
+    }
+    if (bad.length) errors.push(`Unreadable score on hole${bad.length > 1 ? "s" : ""} ${bad.join(", ")}`);
+    if (!strokes.some((s) => s != null)) errors.push("No hole-by-hole scores");
+
+    let total: number | null = null;
+    if (cols.total != null) {
+      const t = Number((cells[cols.total] ?? "").trim());
+      total = (cells[cols.total] ?? "").trim() && Number.isFinite(t) ? t : null;
+    }
+
+    return {
+      row,
+      playedAt,
+      courseName,
+      teeName: cols.tee != null ? (cells[cols.tee] ?? "").trim() : "",
+      strokes,
+      total,
+      errors,
+    };
+  });
+
+  return { cards, errors: [] };
+}
+
+export function parseScorecardCsv(text: string): { cards: ImportedScorecard[]; errors: string[] } {
+  const parsed = Papa.parse<string[]>(text, { skipEmptyLines: false });
+  const rows = (parsed.data ?? []).map((r) => (Array.isArray(r) ? r.map((c) => String(c ?? "")) : []));
+  return parseScorecardTable(rows);
+}
+
+export function holesPlayed(strokes: (number | null)[]): number[] {
+  return strokes.flatMap((s, i) => (s != null ? [i + 1] : []));
+}
+
+// ── Tee matching + mismatch checks ───────────────────────────────────────────
+
+function normName(s: string): string {
+  return (s ?? "")
+    .toLowerCase()
+    .replace(/\b(tees?|box|mens?|ladies|womens?)\b/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Best tee for a name written on the card: exact, then contained either way. */
+export function matchTeeName<T extends { id: string; name: string | null }>(teeName: string, tees: T[]): T | null {
+  const want = normName(teeName);
+  if (!want) return tees.length === 1 ? tees[0] : null;
+  const named = tees.map((t) => ({ t, n: normName(t.name ?? "") }));
+  return (
+    named.find((x) => x.n === want)?.t ??
+    named.find((x) => x.n && (x.n.includes(want) || want.includes(x.n)))?.t ??
+    null
+  );
+}
+
+export type ImportTee = {
+  holesCount: number;
+  /** Par per hole, index 0 = hole 1 (length = holesCount). */
+  pars: (number | null)[];
+};
+
+export type ScorecardCheck = {
+  /** Stop the round being imported. */
+  blocking: string[];
+  /** Imported anyway, but worth a look. */
+  warnings: string[];
+};
+
+/** Compare a card against the tee it's been matched to. */
+export function checkScorecard(
+  card: Pick<ImportedScorecard, "strokes" | "total">,
+  tee: ImportTee
+): ScorecardCheck {
+  const blocking: string[] = [];
+  const warnings: string[] = [];
+  const played = holesPlayed(card.strokes);
+
+  const beyond = played.filter((h) => h > tee.holesCount);
+  if (beyond.length) {
+    blocking.push(`Scores on holes ${beyond.join(", ")} but the tee only has ${tee.holesCount} holes`);
+  }
+
+  const onTee = played.filter((h) => h <= tee.holesCount);
+  const sum = onTee.reduce((s, h) => s + (card.strokes[h - 1] ?? 0), 0);
+
+  if (tee.holesCount === 18 && onTee.length === 9) {
+    warnings.push("Only 9 holes scored on an 18-hole tee — this won't count towards your handicap");
+  } else if (onTee.length < tee.holesCount) {
+    warnings.push(`${tee.holesCount - onTee.length} hole${tee.holesCount - onTee.length === 1 ? "" : "s"} without a score`);
+  }
+
+  if (card.total != null && card.total !== sum && onTee.length === played.length) {
+    warnings.push(`Card total ${card.total} doesn't match the holes (${sum})`);
+  }
+
+  const parTotal = tee.pars.reduce<number>((s, p) => s + (p ?? 0), 0);
+  if (parTotal > 0 && onTee.length === tee.holesCount && sum < parTotal - 10) {
+    warnings.push(`${sum} is ${parTotal - sum} under par — check the course and tee`);
+  }
+
+  return { blocking, warnings };
+}
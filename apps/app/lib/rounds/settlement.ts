@@ -0,0 +1,250 @@
+/**
+ * Side-game money settlement.
+ * Pure functions — no React or Supabase dependencies.
+ *
+ * Each enabled side game is run through computeSideGameDisplays on its own and
+ * its result turned into zero-sum amounts per participant (positive = owed
+ * money). The games are then summed and netted into as few transfers as we
+ * can find. The same engine runs on the final-results panel and when a round
+ * finishes (lib/rounds/settlementData.ts records the running tab).
+ */
+
+import { computeSideGameDisplays, type FormatDisplayData, type SideGameEntry } from "./formatScoring";
+import type { Participant, Hole, Score, HoleState, WolfPick, BbbAward } from "./hooks/useRoundDetail";
+
+export type GameSettlement = {
+  name: string;
+  label: string;
+  /** participantId → amount won (+) or lost (−); sums to zero. */
+  amounts: Record<string, number>;
+};
+
+export type SettlementTransfer = { from: string; to: string; amount: number };
+
+export type RoundSettlement = {
+  games: GameSettlement[];
+  /** participantId → net across all games. */
+  net: Record<string, number>;
+  transfers: SettlementTransfer[];
+};
+
+export type SettlementInput = {
+  sideGames: SideGameEntry[];
+  participants: Participant[];
+  holes: Hole[];
+  scoresByKey: Record<string, Score>;
+  holeStatesByKey: Record<string, HoleState>;
+  wolfPicksByHole?: Record<number, WolfPick>;
+  bbbAwardsByHole?: Record<number, BbbAward>;
+};
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+function num(v: number | string | null | undefined): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : 0;
+}
+
+function posNum(v: any, fallback: number): number {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? v : fallback;
+}
+
+/**
+ * Games whose total is what each player collected (skins won × stake, BBB
+ * and wolf points × `valuePerPoint`): every unit is paid by each other
+ * player, so a player nets N × theirs − everyone's.
+ */
+function potAmounts(display: FormatDisplayData, ids: string[], valuePerPoint = 1): Record<string, number> {
+  const won: Record<string, number> = {};
+  for (const id of ids) won[id] = 0;
+  for (const s of display.summaries) if (s.participantId in won) won[s.participantId] = num(s.total) * valuePerPoint;
+  const pool = ids.reduce((sum, id) => sum + won[id], 0);
+  const out: Record<string, number> = {};
+  for (const id of ids) out[id] = won[id] * ids.length - pool;
+  return out;
+}
+
+/** Games that already report a zero-sum total per player (Vegas, Sixes). */
+function totalAmounts(display: FormatDisplayData, ids: string[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const id of ids) out[id] = 0;
+  for (const s of display.summaries) if (s.participantId in out) out[s.participantId] = num(s.total);
+  return out;
+}
+
+/** Net score per hole off the Nassau tab, or null if any player hasn't finished a hole in the range. */
+function nassauNets(display: FormatDisplayData, ids: string[], holes: Hole[]): number[][] | null {
+  const rows: number[][] = [];
+  for (const id of ids) {
+    const row: number[] = [];
+    for (const h of holes) {
+      const v = display.holeResults[`${id}:${h.hole_number}`]?.displayValue;
+      if (typeof v !== "number") return null;
+      row.push(v);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Nassau: front, back and overall are each worth `points`, paid to the outright
+ * lowest net total by every other player (ties push). With `auto_press` set and
+ * two players, falling that many strokes behind on a nine starts a press — a new
+ * bet for `points` over the rest of the nine — and a press can itself be pressed.
+ * A nine-hole round is just that nine: there's no separate overall bet.
+ */
+function nassauAmounts(
+  display: FormatDisplayData,
+  ids: string[],
+  holes: Hole[],
+  config: Record<string, any>
+): Record<string, number> {
+  const points = posNum(config?.points, 2);
+  const pressAt = posNum(config?.auto_press, 0);
+  const out: Record<string, number> = {};
+  for (const id of ids) out[id] = 0;
+
+  const settleBet = (nets: number[][], from: number, to: number) => {
+    const totals = nets.map((row) => row.slice(from, to).reduce((a, b) => a + b, 0));
+    const best = Math.min(...totals);
+    const winners = totals.flatMap((t, i) => (t === best ? [i] : []));
+    if (winners.length !== 1) return;
+    ids.forEach((id, i) => {
+      out[id] += i === winners[0] ? points * (ids.length - 1) : -points;
+    });
+  };
+
+  const front = holes.filter((h) => h.hole_number <= 9);
+  const back = holes.filter((h) => h.hole_number >= 10);
+
+  for (const nine of [front, back]) {
+    const nets = nine.length ? nassauNets(display, ids, nine) : null;
+    if (!nets) continue;
+    settleBet(nets, 0, nine.length);
+
+    if (pressAt > 0 && ids.length === 2) {
+      // Each new press starts the hole after the latest bet went `pressAt` down.
+      const starts = [0];
+      for (let i = 0; i < nine.length - 1; i++) {
+        const from = starts[starts.length - 1];
+        let diff = 0;
+        for (let j = from; j <= i; j++) diff += nets[0][j] - nets[1][j];
+        if (Math.abs(diff) >= pressAt) starts.push(i + 1);
+      }
+      for (const from of starts.slice(1)) settleBet(nets, from, nine.length);
+    }
+  }
+
+  const all = front.length && back.length ? nassauNets(display, ids, holes) : null;
+  if (all) settleBet(all, 0, holes.length);
+
+  return out;
+}
+
+/** Zero-sum amounts for one enabled side game, or null if it produced no result. */
+function gameAmounts(sg: SideGameEntry, input: SettlementInput): GameSettlement | null {
+  const { participants, holes, scoresByKey, holeStatesByKey } = input;
+  const [display] = computeSideGameDisplays(
+    [sg],
+    participants,
+    holes,
+    scoresByKey,
+    holeStatesByKey,
+    input.wolfPicksByHole ?? {},
+    input.bbbAwardsByHole ?? {}
+  );
+  if (!display) return null;
+  const ids = participants.map((p) => p.id);
+
+  let amounts: Record<string, number>;
+  switch (sg.name) {
+    case "skins":
+      amounts = potAmounts(display, ids);
+      break;
+    case "bingo_bango_bongo":
+    case "wolf":
+      amounts = potAmounts(display, ids, posNum(sg.config?.value_per_point, 1));
+      break;
+    case "vegas":
+    case "sixes":
+      amounts = totalAmounts(display, ids);
+      break;
+    case "nassau":
+      amounts = nassauAmounts(display, ids, holes, sg.config);
+      break;
+    default:
+      return null;
+  }
+
+  for (const id of ids) amounts[id] = cents(amounts[id]);
+  return { name: sg.name, label: display.tabLabel, amounts };
+}
+
+/**
+ * Net balances into transfers. Equal and opposite balances are paired first
+ * (one transfer settles both); the rest go largest debtor to largest creditor,
+ * which never needs more than one fewer transfer than there are players.
+ */
+export function minimiseTransfers(balances: Record<string, number>): SettlementTransfer[] {
+  const debtors = Object.entries(balances)
+    .filter(([, v]) => v < -0.005)
+    .map(([id, v]) => ({ id, amount: cents(-v) }));
+  const creditors = Object.entries(balances)
+    .filter(([, v]) => v > 0.005)
+    .map(([id, v]) => ({ id, amount: cents(v) }));
+  const transfers: SettlementTransfer[] = [];
+
+  for (const d of debtors) {
+    const match = creditors.find((c) => c.amount > 0 && c.amount === d.amount);
+    if (!match) continue;
+    transfers.push({ from: d.id, to: match.id, amount: d.amount });
+    d.amount = 0;
+    match.amount = 0;
+  }
+
+  for (;;) {
+    const d = debtors.filter((x) => x.amount > 0.005).sort((a, b) => b.amount - a.amount)[0];
+    const c = creditors.filter((x) => x.amount > 0.005).sort((a, b) => b.amount - a.amount)[0];
+    if (!d || !c) break;
+    const amount = cents(Math.min(d.amount, c.amount));
+    transfers.push({ from: d.id, to: c.id, amount });
+    d.amount = cents(d.amount - amount);
+    c.amount = cents(c.amount - amount);
+  }
+
+  return transfers;
+}
+
+/**
+ * Transfers for the running tab, between profiles: only profile players' net
+ * balances are netted, so a debt between two of them is never routed through
+ * a guest. Whatever is left over is owed to or by guests, who settle on the
+ * day. `profileOf` maps participant → profile (null/missing for guests).
+ */
+export function ledgerTransfers(
+  net: Record<string, number>,
+  profileOf: Map<string, string | null | undefined>
+): SettlementTransfer[] {
+  const balances: Record<string, number> = {};
+  for (const [id, v] of Object.entries(net)) {
+    const profileId = profileOf.get(id);
+    if (profileId) balances[profileId] = cents((balances[profileId] ?? 0) + v);
+  }
+  return minimiseTransfers(balances);
+}
+
+/** Settle every enabled side game of a round. */
+export function settleRound(input: SettlementInput): RoundSettlement {
+  const games: GameSettlement[] = [];
+  for (const sg of input.sideGames) {
+    if (!sg.enabled) continue;
+    const g = gameAmounts(sg, input);
+    if (g) games.push(g);
+  }
+
+  const net: Record<string, number> = {};
+  for (const p of input.participants) net[p.id] = 0;
+  for (const g of games) for (const [id, v] of Object.entries(g.amounts)) net[id] = cents((net[id] ?? 0) + v);
+
+  return { games, net, transfers: minimiseTransfers(net) };
+}
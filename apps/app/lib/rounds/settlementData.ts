@@ -0,0 +1,129 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { participantsFromSnapshot } from "@/lib/rounds/roundExport";
+import { loadBbbAwards, loadWolfPicks } from "@/lib/rounds/roundExportData";
+import { ledgerTransfers, settleRound, type RoundSettlement } from "@/lib/rounds/settlement";
+import type { HoleState, Participant, Score } from "@/lib/rounds/hooks/useRoundDetail";
+
+/**
+ * Server-side side-game settlement: settles a round from its snapshot and
+ * keeps the running tab in side_game_ledger. Balances between two players are
+ * the sum of their 'round' rows less any 'payment' rows — never stored.
+ */
+
+export type LoadedSettlement = {
+  settlement: RoundSettlement;
+  participants: Participant[];
+};
+
+/** Snapshot + wolf picks + BBB markers → settlement; null when the round doesn't exist. */
+export async function loadRoundSettlement(roundId: string): Promise<LoadedSettlement | null> {
+  const [{ data: snap, error }, wolfPicksByHole, bbbAwardsByHole] = await Promise.all([
+    supabaseAdmin.rpc("get_round_detail_snapshot", { _round_id: roundId }),
+    loadWolfPicks(roundId),
+    loadBbbAwards(roundId),
+  ]);
+  if (error) throw error;
+  if (!snap?.round) return null;
+
+  const participants = participantsFromSnapshot(snap);
+  const holes = [...((snap.holes ?? []) as any[])].sort((a, b) => a.hole_number - b.hole_number);
+  const scoresByKey: Record<string, Score> = {};
+  for (const s of (snap.scores ?? []) as Score[]) scoresByKey[`${s.participant_id}:${s.hole_number}`] = s;
+  const holeStatesByKey: Record<string, HoleState> = {};
+  for (const row of (snap.hole_states ?? []) as any[]) {
+    holeStatesByKey[`${row.participant_id}:${row.hole_number}`] = row.status as HoleState;
+  }
+
+  const settlement = settleRound({
+    sideGames: snap.round.side_games || [],
+    participants,
+    holes,
+    scoresByKey,
+    holeStatesByKey,
+    wolfPicksByHole,
+    bbbAwardsByHole,
+  });
+  return { settlement, participants };
+}
+
+/**
+ * Rewrite a finished round's entries on the running tab. Only profile
+ * players' balances are netted (ledgerTransfers) — guests settle on the day.
+ */
+export async function recordRoundSettlement(roundId: string, actorProfileId: string): Promise<void> {
+  const loaded = await loadRoundSettlement(roundId);
+  if (!loaded) return;
+
+  const profileOf = new Map(loaded.participants.map((p) => [p.id, p.is_guest ? null : p.profile_id]));
+  const transfers = ledgerTransfers(loaded.settlement.net, profileOf);
+
+  const { error: delErr } = await supabaseAdmin
+    .from("side_game_ledger")
+    .delete()
+    .eq("round_id", roundId)
+    .eq("kind", "round");
+  if (delErr) throw delErr;
+
+  if (!transfers.length) return;
+  const rows = transfers.map((t) => ({
+    kind: "round",
+    round_id: roundId,
+    payer_profile_id: t.from,
+    payee_profile_id: t.to,
+    amount: t.amount,
+    created_by: actorProfileId,
+  }));
+  const { error } = await supabaseAdmin.from("side_game_ledger").insert(rows);
+  if (error) throw error;
+}
+
+/**
+ * Running balance between `profileId` and each of `otherProfileIds` across
+ * every round: positive = they owe `profileId`, negative = `profileId` owes them.
+ */
+export async function loadRunningBalances(
+  profileId: string,
+  otherProfileIds: string[]
+): Promise<Record<string, number>> {
+  const others = [...new Set(otherProfileIds.filter((id) => id !== profileId))];
+  const balances: Record<string, number> = {};
+  for (const id of others) balances[id] = 0;
+  if (!others.length) return balances;
+
+  const { data, error } = await supabaseAdmin
+    .from("side_game_ledger")
+    .select("kind, payer_profile_id, payee_profile_id, amount")
+    .or(`payer_profile_id.eq.${profileId},payee_profile_id.eq.${profileId}`);
+  if (error) throw error;
+
+  for (const row of (data ?? []) as any[]) {
+    const iAmPayee = row.payee_profile_id === profileId;
+    const other = iAmPayee ? row.payer_profile_id : row.payee_profile_id;
+    if (!(other in balances)) continue;
+    // A round debt raises the payee's claim; a payment reduces it.
+    const sign = (row.kind === "round" ? 1 : -1) * (iAmPayee ? 1 : -1);
+    balances[other] += sign * Number(row.amount);
+  }
+  for (const id of others) balances[id] = Math.round(balances[id] * 100) / 100;
+  return balances;
+}
+
+/** The payee records cash received from the payer. */
+export async function recordPayment({
+  payerProfileId,
+  payeeProfileId,
+  amount,
+}: {
+  payerProfileId: string;
+  payeeProfileId: string;
+  amount: number;
+}): Promise<void> {
+  const { error } = await supabaseAdmin.from("side_game_ledger").insert({
+    kind: "payment",
+    payer_profile_id: payerProfileId,
+    payee_profile_id: payeeProfileId,
+    amount: Math.round(amount * 100) / 100,
+    created_by: payeeProfileId,
+  });
+  if (error) throw error;
+}
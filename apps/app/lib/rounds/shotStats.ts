@@ -0,0 +1,118 @@
+/**
+ * Optional per-hole shot stats captured alongside strokes in ScoreEntrySheet.
+ *
+ * Stored on round_score_events next to `strokes` (see the
+ * 20260723000000_round_score_shot_stats migration), so the latest event for a
+ * hole carries both the score and its stats. Every field is nullable: null
+ * means "not recorded", never zero.
+ */
+
+export type FairwayResult = "hit" | "miss_left" | "miss_right";
+
+export type HoleShotStats = {
+  putts: number | null;
+  fairway: FairwayResult | null;
+  /** Explicit green-in-regulation flag. Null → derived from putts when possible. */
+  gir: boolean | null;
+  /** true = up and down from a greenside bunker, false = in one but didn't, null = not in one. */
+  sand_save: boolean | null;
+  penalty_strokes: number | null;
+};
+
+export const EMPTY_SHOT_STATS: HoleShotStats = {
+  putts: null,
+  fairway: null,
+  gir: null,
+  sand_save: null,
+  penalty_strokes: null,
+};
+
+const FAIRWAY_RESULTS: FairwayResult[] = ["hit", "miss_left", "miss_right"];
+/** Column limit on putts and penalty strokes. */
+const MAX_COUNTED = 10;
+
+function intOrNull(v: unknown): number | null {
+  if (v == null) return null;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.round(n) : null;
+}
+
+function boolOrNull(v: unknown): boolean | null {
+  return typeof v === "boolean" ? v : null;
+}
+
+/** Normalise the stat columns off a score row (snapshot RPC, realtime payload, view row). */
+export function shotStatsFromRow(row: any): HoleShotStats {
+  const fairway = FAIRWAY_RESULTS.includes(row?.fairway) ? (row.fairway as FairwayResult) : null;
+  return {
+    putts: intOrNull(row?.putts),
+    fairway,
+    gir: boolOrNull(row?.gir),
+    sand_save: boolOrNull(row?.sand_save),
+    penalty_strokes: intOrNull(row?.penalty_strokes),
+  };
+}
+
+export function hasShotStats(stats: Partial<HoleShotStats> | null | undefined): boolean {
+  if (!stats) return false;
+  return (
+    stats.putts != null ||
+    stats.fairway != null ||
+    stats.gir != null ||
+    stats.sand_save != null ||
+    stats.penalty_strokes != null
+  );
+}
+
+/** Fairways are only tracked off the tee on par 4s and 5s. */
+export function tracksFairway(par: number | null | undefined): boolean {
+  return typeof par === "number" && par >= 4;
+}
+
+/**
+ * Green in regulation: the explicit flag when recorded, otherwise derived from
+ * strokes and putts (on the green in par − 2 or fewer). Null when unknowable.
+ */
+export function resolveGir(
+  stats: Pick<HoleShotStats, "gir" | "putts">,
+  strokes: number | null | undefined,
+  par: number | null | undefined
+): boolean | null {
+  if (stats.gir != null) return stats.gir;
+  if (stats.putts == null || typeof strokes !== "number" || typeof par !== "number") return null;
+  return strokes - stats.putts <= par - 2;
+}
+
+/** True when putts and penalties add up to more strokes than were taken. */
+export function shotStatsExceedStrokes(
+  strokes: number | null | undefined,
+  stats: Pick<HoleShotStats, "putts" | "penalty_strokes"> | null | undefined
+): boolean {
+  if (typeof strokes !== "number" || !stats) return false;
+  return (stats.putts ?? 0) + (stats.penalty_strokes ?? 0) > strokes;
+}
+
+/**
+ * Stats to persist with a score event. Clearing a score (null strokes) clears
+ * its stats too. Putts and penalties that don't fit inside the strokes are cut
+ * down to fit (putts first, penalties get what's left) rather than tripping the
+ * table's check constraint; ScoreEntrySheet warns before that happens.
+ */
+export function shotStatsForInsert(
+  strokes: number | null,
+  stats: HoleShotStats | null | undefined
+): HoleShotStats {
+  if (strokes == null || !stats) return { ...EMPTY_SHOT_STATS };
+  const putts = stats.putts != null && stats.putts >= 0 ? Math.min(stats.putts, strokes, MAX_COUNTED) : null;
+  const penalties =
+    stats.penalty_strokes != null && stats.penalty_strokes >= 0
+      ? Math.min(stats.penalty_strokes, strokes - (putts ?? 0), MAX_COUNTED)
+      : null;
+  return {
+    putts,
+    fairway: stats.fairway,
+    gir: stats.gir,
+    sand_save: stats.sand_save,
+    penalty_strokes: penalties,
+  };
+}
@@ -59,11 +59,19 @@ export function getWhsDefaultPolicy(
     case "team_bestball":
       return { mode: "allowance_pct", allowance_pct: aggregateAllowance(opts?.countPerHole) };
 
+    // Shamble: everyone plays their own ball in from the chosen drive, so it
+    // scores like best ball — the same count-based allowance applies to each
+    // player's handicap (there is no team handicap).
+    case "shamble":
+      return { mode: "allowance_pct", allowance_pct: aggregateAllowance(opts?.countPerHole) };
+
     // Single-ball team formats: the per-player weighting in the team-handicap
-    // formula (TeamBuilderSheet) already encodes the WHS allowance, so 100% of
-    // the resulting team handicap applies.
+    // formula (teamPlayingHandicap below) already encodes the WHS allowance, so
+    // 100% of the resulting team handicap applies.
     case "scramble":
+    case "texas_scramble":
     case "greensomes":
+    case "chapman":
     case "foursomes":
       return { mode: "allowance_pct", allowance_pct: 100 };
 
@@ -80,6 +88,78 @@ export function getWhsDefaultPolicy(
   }
 }
 
+/** Formats where the team plays one ball and records one score per hole. */
+export const SINGLE_BALL_FORMATS: RoundFormatType[] = [
+  "scramble",
+  "texas_scramble",
+  "greensomes",
+  "chapman",
+  "foursomes",
+];
+
+export function isSingleBallFormat(format: string | null | undefined): boolean {
+  return SINGLE_BALL_FORMATS.includes(format as RoundFormatType);
+}
+
+/**
+ * Team handicap weightings per single-ball format, lowest course handicap
+ * first, keyed by team size (the largest size listed covers bigger teams —
+ * only that many handicaps count). WHS Appendix C:
+ *  - Scramble: 35/15 (2), 30/20/10 (3), 25/20/15/10 (4).
+ *  - Texas Scramble: the same table. What sets it apart is the drive rule
+ *    (each player's tee shot used a minimum number of times), not the allowance.
+ *  - Greensomes / Chapman (Pinehurst): 60% lower + 40% higher.
+ *  - Foursomes: 50% of the combined handicaps.
+ * A pair format played by one person counts their handicap in both slots.
+ */
+const TEAM_HANDICAP_WEIGHTS: Partial<Record<RoundFormatType, Record<number, number[]>>> = {
+  scramble: { 1: [0.35], 2: [0.35, 0.15], 3: [0.3, 0.2, 0.1], 4: [0.25, 0.2, 0.15, 0.1] },
+  texas_scramble: { 1: [0.35], 2: [0.35, 0.15], 3: [0.3, 0.2, 0.1], 4: [0.25, 0.2, 0.15, 0.1] },
+  greensomes: { 2: [0.6, 0.4] },
+  chapman: { 2: [0.6, 0.4] },
+  foursomes: { 2: [0.5, 0.5] },
+};
+
+function teamWeights(format: RoundFormatType, teamSize: number): number[] | null {
+  const table = TEAM_HANDICAP_WEIGHTS[format];
+  if (!table) return null;
+  const sizes = Object.keys(table).map(Number).sort((a, b) => a - b);
+  const size = sizes.find((n) => n >= teamSize) ?? sizes[sizes.length - 1];
+  return table[size];
+}
+
+/**
+ * Team playing handicap for a single-ball format from the members' course
+ * handicaps, rounded to the nearest whole number. Null for formats without a
+ * team handicap (shamble and best ball use each player's own) or no handicaps.
+ */
+export function teamPlayingHandicap(format: RoundFormatType, courseHandicaps: number[]): number | null {
+  const weights = teamWeights(format, courseHandicaps.length);
+  if (!weights || courseHandicaps.length === 0) return null;
+  const sorted = [...courseHandicaps].sort((a, b) => a - b);
+  let total = 0;
+  weights.forEach((w, i) => {
+    total += w * (sorted[i] ?? sorted[sorted.length - 1]);
+  });
+  return Math.round(total);
+}
+
+const RANK_NAMES: Record<number, string[]> = {
+  2: ["lowest", "highest"],
+  3: ["lowest", "second", "highest"],
+  4: ["lowest", "second", "third", "highest"],
+};
+
+/** Short description of the team handicap formula, e.g. "35% lowest + 15% highest". */
+export function teamHandicapDescription(format: RoundFormatType, teamSize: number): string {
+  if (format === "shamble") return "Own handicaps, best-ball allowance";
+  if (format === "foursomes") return "50% combined";
+  const weights = teamWeights(format, Math.max(teamSize, 2));
+  if (!weights) return "";
+  const names = RANK_NAMES[weights.length] ?? [];
+  return weights.map((w, i) => `${Math.round(w * 100)}% ${names[i]}`).join(" + ");
+}
+
 /**
  * Maps competitive event types to the round format whose WHS policy applies.
  * The spec-aligned aliases (stroke_play, *_fixture, team_*) collapse onto their
@@ -99,6 +179,7 @@ const EVENT_TO_FORMAT: Record<EventTypeV2, RoundFormatType> = {
   team_best_ball: "team_bestball",
   aggregate_stroke_play: "team_strokeplay",
   custom: "strokeplay",
+  team_match: "matchplay",
 };
 
 /** WHS default handicap policy to seed when a competitive event format is chosen. */
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  BENCHMARK_BANDS,
+  benchmarkHoles,
+  costliestBucket,
+  expectedStrokes,
+  type BenchmarkSourceRow,
+  type BenchmarkTee,
+} from "@/lib/stats/benchmark";
+
+const [SCRATCH, TEN, TWENTY] = BENCHMARK_BANDS;
+
+const TEE: BenchmarkTee = { rating: 72, slope: 113, par: 72, holes_count: 18 };
+const tees = new Map([["t1", TEE]]);
+
+function row(over: Partial<BenchmarkSourceRow>): BenchmarkSourceRow {
+  return { round_id: "r1", tee_box_id: "t1", par: 4, yardage: 390, stroke_index: 9, strokes: 5, ...over };
+}
+
+describe("expectedStrokes", () => {
+  it("rises with the handicap band", () => {
+    const h = row({});
+    const s = expectedStrokes(SCRATCH, h, TEE)!;
+    const t = expectedStrokes(TEN, h, TEE)!;
+    const w = expectedStrokes(TWENTY, h, TEE)!;
+    expect(s).toBeLessThan(t);
+    expect(t).toBeLessThan(w);
+    // Roughly (HI + gap) / 18 over par per hole on a neutral tee.
+    expect(t - 4).toBeGreaterThan(0.5);
+    expect(t - 4).toBeLessThan(1.1);
+  });
+
+  it("plays long and low-SI holes harder", () => {
+    expect(expectedStrokes(TEN, row({ yardage: 440 }), TEE)!).toBeGreaterThan(
+      expectedStrokes(TEN, row({ yardage: 340 }), TEE)!
+    );
+    expect(expectedStrokes(TEN, row({ stroke_index: 1 }), TEE)!).toBeGreaterThan(
+      expectedStrokes(TEN, row({ stroke_index: 18 }), TEE)!
+    );
+  });
+
+  it("prices a harder tee higher and still works without one", () => {
+    const hard: BenchmarkTee = { rating: 74.5, slope: 140, par: 72, holes_count: 18 };
+    expect(expectedStrokes(TEN, row({}), hard)!).toBeGreaterThan(expectedStrokes(TEN, row({}), TEE)!);
+    expect(expectedStrokes(TEN, row({}), null)).not.toBeNull();
+    expect(expectedStrokes(TEN, row({ par: null }), TEE)).toBeNull();
+  });
+});
+
+describe("benchmarkHoles", () => {
+  it("splits strokes gained by par, length and SI band", () => {
+    const res = benchmarkHoles(
+      [
+        row({ par: 3, yardage: 140, stroke_index: 17, strokes: 3 }),
+        row({ par: 4, yardage: 430, stroke_index: 2, strokes: 7 }),
+        row({ par: 5, yardage: null, stroke_index: 10, strokes: 5 }),
+        row({ strokes: null }),
+      ],
+      tees,
+      TEN
+    );
+
+    expect(res.overall?.holes).toBe(3);
+    expect(res.byPar.map((b) => b.key)).toEqual(["p3", "p4", "p5"]);
+    expect(res.byLength.map((b) => b.key)).toEqual(["p3_short", "p4_long"]);
+    expect(res.bySi.map((b) => b.key)).toEqual(["si_1_6", "si_7_12", "si_13_18"]);
+
+    const p3 = res.byPar[0];
+    expect(p3.gainedPerHole).toBeGreaterThan(0); // par on a short par 3 beats a 10
+    expect(res.byPar[1].gainedPerHole).toBeLessThan(0); // triple on a long par 4
+
+    const total = res.byPar.reduce((s, b) => s + b.gainedTotal, 0);
+    expect(res.overall!.gainedTotal).toBeCloseTo(total);
+    expect(res.gainedPer18).toBeCloseTo((res.overall!.gainedTotal / 3) * 18);
+  });
+
+  it("names the costliest split with enough holes", () => {
+    const rows = [
+      ...Array.from({ length: 10 }, () => row({ par: 3, yardage: 200, strokes: 5 })),
+      ...Array.from({ length: 10 }, () => row({ strokes: 4 })),
+    ];
+    const res = benchmarkHoles(rows, tees, TWENTY);
+    expect(costliestBucket(res)?.label).toBe("Par 3");
+    expect(costliestBucket(res, 50)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { resolveGir, shotStatsExceedStrokes, shotStatsForInsert, shotStatsFromRow } from "@/lib/rounds/shotStats";
+import { recentTrend, shotStatsByRound, summarizeShotStats, type ShotStatSourceRow } from "@/lib/stats/shotStats";
+
+function row(over: Partial<ShotStatSourceRow>): ShotStatSourceRow {
+  return { round_id: "r1", played_at: "2026-05-01", par: 4, strokes: 4, ...over };
+}
+
+describe("resolveGir", () => {
+  it("prefers the explicit flag", () => {
+    expect(resolveGir({ gir: false, putts: 1 }, 3, 4)).toBe(false);
+  });
+
+  it("derives from strokes and putts when not recorded", () => {
+    expect(resolveGir({ gir: null, putts: 2 }, 4, 4)).toBe(true); // on in 2
+    expect(resolveGir({ gir: null, putts: 1 }, 4, 4)).toBe(false); // on in 3
+  });
+
+  it("is unknown without putts", () => {
+    expect(resolveGir({ gir: null, putts: null }, 4, 4)).toBeNull();
+  });
+});
+
+describe("shotStatsForInsert", () => {
+  it("clears stats with the score", () => {
+    expect(shotStatsForInsert(null, { putts: 2, fairway: "hit", gir: true, sand_save: null, penalty_strokes: null }).putts).toBeNull();
+  });
+
+  it("cuts putts and penalties down to fit the strokes, keeping the rest", () => {
+    const out = shotStatsForInsert(3, { putts: 3, fairway: "hit", gir: null, sand_save: null, penalty_strokes: 1 });
+    expect(out).toEqual({ putts: 3, fairway: "hit", gir: null, sand_save: null, penalty_strokes: 0 });
+    expect(shotStatsForInsert(2, { putts: 4, fairway: null, gir: null, sand_save: null, penalty_strokes: null }).putts).toBe(2);
+    expect(shotStatsExceedStrokes(3, { putts: 3, penalty_strokes: 1 })).toBe(true);
+    expect(shotStatsExceedStrokes(4, { putts: 3, penalty_strokes: 1 })).toBe(false);
+  });
+});
+
+describe("shotStatsFromRow", () => {
+  it("ignores unknown fairway values", () => {
+    expect(shotStatsFromRow({ fairway: "bunker" }).fairway).toBeNull();
+  });
+});
+
+describe("summarizeShotStats", () => {
+  it("ignores holes with no stats recorded", () => {
+    const s = summarizeShotStats([row({}), row({ strokes: 5 })]);
+    expect(s.holesTracked).toBe(0);
+    expect(s.puttsPer18).toBeNull();
+    expect(s.girRate).toBeNull();
+  });
+
+  it("aggregates putting, driving and GIR", () => {
+    const s = summarizeShotStats([
+      row({ putts: 2, fairway: "hit" }), // GIR (derived)
+      row({ putts: 1, fairway: "miss_left", strokes: 5 }), // on in 4 → no GIR
+      row({ putts: 3, fairway: "miss_right", strokes: 5 }), // on in 2 → GIR, 3-putt
+      row({ par: 3, strokes: 3, putts: 2, fairway: "hit" }), // par 3 fairway ignored
+      row({ strokes: 6, sand_save: false, penalty_strokes: 1 }),
+    ]);
+
+    expect(s.holesTracked).toBe(5);
+    expect(s.puttHoles).toBe(4);
+    expect(s.puttsPerHole).toBe(2);
+    expect(s.puttsPer18).toBe(36);
+    expect(s.onePuttRate).toBe(0.25);
+    expect(s.threePuttRate).toBe(0.25);
+    expect(s.puttsPerGir).toBeCloseTo(7 / 3);
+
+    expect(s.fairwayAttempts).toBe(3);
+    expect(s.fairwayHitRate).toBeCloseTo(1 / 3);
+    expect(s.missLeftRate).toBeCloseTo(1 / 3);
+
+    expect(s.girAttempts).toBe(4);
+    expect(s.girRate).toBe(0.75);
+
+    expect(s.sandAttempts).toBe(1);
+    expect(s.sandSaveRate).toBe(0);
+    expect(s.penaltiesPer18).toBe(18);
+  });
+});
+
+describe("shotStatsByRound / recentTrend", () => {
+  it("orders rounds oldest first and skips untracked rounds", () => {
+    const rounds = shotStatsByRound([
+      row({ round_id: "b", played_at: "2026-06-01", putts: 1 }),
+      row({ round_id: "a", played_at: "2026-05-01", putts: 2 }),
+      row({ round_id: "c", played_at: "2026-07-01" }),
+    ]);
+    expect(rounds.map((r) => r.roundId)).toEqual(["a", "b"]);
+    expect(rounds[0].puttsPer18).toBe(36);
+  });
+
+  it("compares the recent window with the one before it", () => {
+    expect(recentTrend([36, 34, 32, 30], 2)).toBe(-4);
+    expect(recentTrend([null, 30])).toBeNull();
+  });
+});
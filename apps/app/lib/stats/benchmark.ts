@@ -0,0 +1,249 @@
+// Strokes-gained style benchmarking over hole_scoring_source rows.
+//
+// Each scored hole is compared with what a typical scratch / 10 / 20 handicap
+// would be expected to make on it. The expectation comes straight from the
+// fantasy hole model (holeMu): a synthetic band profile whose differential
+// LEVEL sits at HI + POPULATION_GAP — the same net-consistent level the model
+// anchors thin-data players to — plus a generic par-type / length SHAPE, priced
+// on the tee's rating/slope when we have them. Strokes gained = expected −
+// actual, so positive means the player beat the band on that hole.
+
+import { POPULATION_GAP, holeMu, lengthBand, siBand, splitKey } from "@/lib/fantasy/simulation/holeModel";
+import type { HoleSplits, SimHole, SimPlayerProfile } from "@/lib/fantasy/simulation/types";
+import { safeNum } from "./helpers";
+
+export type BenchmarkBandKey = "scratch" | "hcp10" | "hcp20";
+
+export type BenchmarkBand = {
+  key: BenchmarkBandKey;
+  label: string;
+  handicapIndex: number;
+  /** Per-hole strokes vs the band's own average, by par type. */
+  parTilt: Record<3 | 4 | 5, number>;
+};
+
+// Rough amateur shape: low handicaps pick up shots on par 5s, high handicaps
+// give them back there (three full shots to find trouble on).
+export const BENCHMARK_BANDS: BenchmarkBand[] = [
+  { key: "scratch", label: "Scratch", handicapIndex: 0, parTilt: { 3: 0.05, 4: 0.05, 5: -0.2 } },
+  { key: "hcp10", label: "10 handicap", handicapIndex: 10, parTilt: { 3: -0.02, 4: 0.02, 5: -0.05 } },
+  { key: "hcp20", label: "20 handicap", handicapIndex: 20, parTilt: { 3: -0.08, 4: 0, 5: 0.12 } },
+];
+
+// Length-band tilt on top of the par type, widened for higher handicaps.
+const LENGTH_TILT: Record<"short" | "mid" | "long", number> = { short: -0.15, mid: 0, long: 0.2 };
+
+// Effective sample large enough that the model takes the band level at face
+// value instead of blending toward its thin-data anchor.
+const BAND_SAMPLE = 100;
+
+/** safeNum, but null stays null (Number(null) is 0). */
+function num(v: unknown): number | null {
+  return v == null ? null : safeNum(v);
+}
+
+/** The subset of hole_scoring_source columns the benchmark needs. */
+export type BenchmarkSourceRow = {
+  round_id: string | null;
+  tee_box_id: string | null;
+  par: number | null;
+  yardage: number | null;
+  stroke_index: number | null;
+  strokes: number | null;
+};
+
+/** Rating/slope/par of a source tee box (course_tee_boxes). */
+export type BenchmarkTee = {
+  rating: number | null;
+  slope: number | null;
+  par: number | null;
+  holes_count: number | null;
+};
+
+export type BenchmarkBucket = {
+  key: string;
+  label: string;
+  holes: number;
+  actualAvg: number;
+  expectedAvg: number;
+  /** Expected − actual per hole (positive = better than the band). */
+  gainedPerHole: number;
+  gainedTotal: number;
+};
+
+export type BenchmarkResult = {
+  band: BenchmarkBand;
+  overall: BenchmarkBucket | null;
+  /** Strokes gained per 18 holes, so 9- and 18-hole samples compare. */
+  gainedPer18: number | null;
+  byPar: BenchmarkBucket[];
+  byLength: BenchmarkBucket[];
+  bySi: BenchmarkBucket[];
+};
+
+/** Synthetic hole-model profile for a handicap band. */
+export function bandProfile(band: BenchmarkBand): SimPlayerProfile {
+  const hi = band.handicapIndex;
+  const overall = (hi + POPULATION_GAP) / 18;
+  const widen = 1 + hi / 20;
+
+  const holeSplits: HoleSplits = {};
+  for (const par of [3, 4, 5] as const) {
+    for (const len of ["short", "mid", "long"] as const) {
+      holeSplits[splitKey(par, len)] = {
+        avgVsPar: overall + band.parTilt[par] + LENGTH_TILT[len] * widen,
+        birdieRate: 0,
+        bogeyPlusRate: 0,
+        sample: BAND_SAMPLE,
+      };
+    }
+  }
+
+  return {
+    profileId: `benchmark:${band.key}`,
+    handicapIndex: hi,
+    avgGross: 72 + overall * 18,
+    scoreStddev: null,
+    avgDifferential: hi + POPULATION_GAP,
+    differentialStddev: null,
+    differentialEffectiveN: BAND_SAMPLE,
+    recentForm: null,
+    birdiesPerRound: null,
+    eaglesPerRound: null,
+    parsPerRound: null,
+    bogeysPerRound: null,
+    doublesPlusPerRound: null,
+    par3AvgVsPar: overall + band.parTilt[3],
+    par4AvgVsPar: overall + band.parTilt[4],
+    par5AvgVsPar: overall + band.parTilt[5],
+    holeSplits,
+    sampleSize: BAND_SAMPLE,
+    confidence: "high",
+  };
+}
+
+/** Band course handicap on a tee (18-hole), falling back to the bare index. */
+function bandCourseHandicap(hi: number, tee: BenchmarkTee | null): number {
+  if (tee?.rating == null || tee.slope == null || tee.par == null) return hi;
+  return hi * (tee.slope / 113) + (tee.rating - tee.par);
+}
+
+function simHole(row: BenchmarkSourceRow, par: number, tee: BenchmarkTee | null): SimHole {
+  return {
+    holeNumber: 0,
+    par,
+    yardage: num(row.yardage),
+    strokeIndex: num(row.stroke_index) ?? 9,
+    rating: tee?.rating ?? null,
+    slope: tee?.slope ?? null,
+    parTotal: tee?.par ?? null,
+    holesInRound: tee?.holes_count ?? null,
+  };
+}
+
+/** Expected gross strokes for the band on one hole. */
+export function expectedStrokes(
+  band: BenchmarkBand,
+  row: BenchmarkSourceRow,
+  tee: BenchmarkTee | null,
+  profile: SimPlayerProfile = bandProfile(band)
+): number | null {
+  const par = num(row.par);
+  if (par == null) return null;
+  const mu = holeMu(profile, simHole(row, par, tee), bandCourseHandicap(band.handicapIndex, tee));
+  return par + mu;
+}
+
+type Acc = { label: string; holes: number; actual: number; expected: number };
+
+function add(m: Map<string, Acc>, key: string, label: string, actual: number, expected: number) {
+  const a = m.get(key) ?? { label, holes: 0, actual: 0, expected: 0 };
+  a.holes += 1;
+  a.actual += actual;
+  a.expected += expected;
+  m.set(key, a);
+}
+
+function toBucket(key: string, a: Acc): BenchmarkBucket {
+  return {
+    key,
+    label: a.label,
+    holes: a.holes,
+    actualAvg: a.actual / a.holes,
+    expectedAvg: a.expected / a.holes,
+    gainedPerHole: (a.expected - a.actual) / a.holes,
+    gainedTotal: a.expected - a.actual,
+  };
+}
+
+function buckets(m: Map<string, Acc>, order: string[]): BenchmarkBucket[] {
+  return order.filter((k) => m.has(k)).map((k) => toBucket(k, m.get(k)!));
+}
+
+const LENGTH_LABEL = { short: "Short", mid: "Mid", long: "Long" } as const;
+const SI_LABEL = { si_1_6: "SI 1–6", si_7_12: "SI 7–12", si_13_18: "SI 13–18" } as const;
+
+const PAR_ORDER = ["p3", "p4", "p5"];
+const LENGTH_ORDER = PAR_ORDER.flatMap((p) => ["short", "mid", "long"].map((l) => `${p}_${l}`));
+const SI_ORDER = ["si_1_6", "si_7_12", "si_13_18"];
+
+/**
+ * Strokes gained against a band, overall and split by par type, par × length
+ * band and stroke-index band. Holes without par or strokes are skipped; holes
+ * without yardage only drop out of the length split.
+ */
+export function benchmarkHoles(
+  rows: BenchmarkSourceRow[],
+  tees: Map<string, BenchmarkTee>,
+  band: BenchmarkBand
+): BenchmarkResult {
+  const profile = bandProfile(band);
+  const overall = new Map<string, Acc>();
+  const byPar = new Map<string, Acc>();
+  const byLength = new Map<string, Acc>();
+  const bySi = new Map<string, Acc>();
+
+  for (const r of rows) {
+    const strokes = num(r.strokes);
+    const par = num(r.par);
+    if (strokes == null || par == null) continue;
+
+    const tee = r.tee_box_id ? tees.get(r.tee_box_id) ?? null : null;
+    const expected = expectedStrokes(band, r, tee, profile);
+    if (expected == null) continue;
+
+    const p = par <= 3 ? 3 : par === 4 ? 4 : 5;
+    add(overall, "all", "All holes", strokes, expected);
+    add(byPar, `p${p}`, `Par ${p}`, strokes, expected);
+
+    const len = lengthBand(par, num(r.yardage));
+    if (len) add(byLength, splitKey(par, len), `Par ${p} · ${LENGTH_LABEL[len]}`, strokes, expected);
+
+    const si = num(r.stroke_index);
+    if (si != null) {
+      const sb = siBand(si);
+      add(bySi, sb, SI_LABEL[sb], strokes, expected);
+    }
+  }
+
+  const all = overall.get("all");
+  return {
+    band,
+    overall: all ? toBucket("all", all) : null,
+    gainedPer18: all ? ((all.expected - all.actual) / all.holes) * 18 : null,
+    byPar: buckets(byPar, PAR_ORDER),
+    byLength: buckets(byLength, LENGTH_ORDER),
+    bySi: buckets(bySi, SI_ORDER),
+  };
+}
+
+/** The split that costs the most strokes per hole against the band, if any. */
+export function costliestBucket(result: BenchmarkResult, minHoles = 10): BenchmarkBucket | null {
+  const all = [...result.byPar, ...result.byLength, ...result.bySi].filter((b) => b.holes >= minHoles);
+  let worst: BenchmarkBucket | null = null;
+  for (const b of all) {
+    if (b.gainedPerHole >= 0) continue;
+    if (!worst || b.gainedPerHole < worst.gainedPerHole) worst = b;
+  }
+  return worst;
+}
@@ -2,6 +2,8 @@
 
 import { supabase } from "@/lib/supabaseClient";
 import type { HiPoint } from "@/lib/stats/timeModel";
+import type { HandicapRoundInput } from "@/lib/handicap/whs";
+import { chunk } from "@/lib/stats/helpers";
 
 export type HiRow = { as_of_date: string; handicap_index: number };
 export type FollowProfile = { id: string; name: string | null; avatar_url: string | null };
@@ -41,3 +43,94 @@ export async function getFollowedProfiles(myProfileId: string): Promise<FollowPr
   out.sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""));
   return out;
 }
+
+export type HandicapTeeOption = {
+  /** round_tee_snapshots id of the most recent round on this tee. */
+  id: string;
+  label: string;
+  courseRating: number;
+  slope: number;
+  parTotal: number;
+  is9Hole: boolean;
+};
+
+/**
+ * The player's handicap_round_results as WHS engine inputs (oldest first), plus
+ * the distinct tees they've played — newest first — for the what-if calculator.
+ */
+export async function getHandicapRoundInputs(
+  profileId: string
+): Promise<{ rounds: HandicapRoundInput[]; tees: HandicapTeeOption[] }> {
+  const { data, error } = await supabase
+    .from("handicap_round_results")
+    .select("participant_id, played_at, is_9_hole, accepted, adjusted_gross_score, handicap_index_used, tee_snapshot_id, pcc")
+    .eq("profile_id", profileId)
+    .order("played_at", { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as any[];
+  const teeIds = Array.from(new Set(rows.map((r) => r.tee_snapshot_id).filter(Boolean))) as string[];
+
+  const teeById = new Map<string, any>();
+  const courseNameBySnap = new Map<string, string>();
+
+  for (const ids of chunk(teeIds, 100)) {
+    const { data: tees, error: teeErr } = await supabase
+      .from("round_tee_snapshots")
+      .select("id, name, rating, slope, par_total, holes_count, round_course_snapshot_id")
+      .in("id", ids);
+    if (teeErr) throw teeErr;
+    for (const t of (tees ?? []) as any[]) teeById.set(t.id, t);
+  }
+
+  const courseSnapIds = Array.from(
+    new Set(Array.from(teeById.values()).map((t) => t.round_course_snapshot_id).filter(Boolean))
+  ) as string[];
+
+  for (const ids of chunk(courseSnapIds, 100)) {
+    const { data: courses, error: courseErr } = await supabase
+      .from("round_course_snapshots")
+      .select("id, course_name")
+      .in("id", ids);
+    if (courseErr) throw courseErr;
+    for (const c of (courses ?? []) as any[]) courseNameBySnap.set(c.id, c.course_name ?? "Course");
+  }
+
+  const rounds: HandicapRoundInput[] = rows.map((r) => {
+    const t = r.tee_snapshot_id ? teeById.get(r.tee_snapshot_id) : null;
+    return {
+      id: String(r.participant_id),
+      playedAt: String(r.played_at),
+      is9Hole: !!r.is_9_hole,
+      accepted: !!r.accepted,
+      adjustedGrossScore: r.adjusted_gross_score != null ? Number(r.adjusted_gross_score) : null,
+      courseRating: t?.rating != null ? Number(t.rating) : null,
+      slope: t?.slope != null ? Number(t.slope) : null,
+      handicapIndexUsed: r.handicap_index_used != null ? Number(r.handicap_index_used) : null,
+      pcc: r.pcc != null ? Number(r.pcc) : 0,
+    };
+  });
+
+  // Newest first, one option per course + tee + rating/slope.
+  const tees: HandicapTeeOption[] = [];
+  const seen = new Set<string>();
+  for (const r of rows.slice().reverse()) {
+    const t = r.tee_snapshot_id ? teeById.get(r.tee_snapshot_id) : null;
+    if (!t || t.rating == null || t.slope == null || t.par_total == null) continue;
+    const course = courseNameBySnap.get(t.round_course_snapshot_id) ?? "Course";
+    const key = `${course}|${t.name}|${t.rating}|${t.slope}|${t.holes_count}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    tees.push({
+      id: t.id,
+      label: `${course} · ${t.name}`,
+      courseRating: Number(t.rating),
+      slope: Number(t.slope),
+      parTotal: Number(t.par_total),
+      is9Hole: Number(t.holes_count) === 9,
+    });
+  }
+
+  return { rounds, tees };
+}
@@ -1,9 +1,11 @@
 import { supabase } from "@/lib/supabaseClient";
+import { chunk } from "./helpers";
 
 /**
  * Paginated fetch from the hole_scoring_source view.
  * Returns all rows for the given profile, newest first.
- * Selects the superset of columns used by milestones, hole-scoring, and scoring-breakdown pages.
+ * Selects the superset of columns used by milestones, hole-scoring, and scoring-breakdown pages
+ * (including the optional per-hole shot stats).
  */
 export async function fetchAllHoleScoringSource(profileId: string) {
   const pageSize = 1000;
@@ -16,7 +18,7 @@ export async function fetchAllHoleScoringSource(profileId: string) {
     const { data, error } = await supabase
       .from("hole_scoring_source")
       .select(
-        "profile_id, round_id, played_at, course_id, course_name, tee_box_id, tee_name, hole_number, par, yardage, stroke_index, strokes, to_par, net_strokes, net_to_par, strokes_received, is_double_plus, is_triple_plus"
+        "profile_id, round_id, played_at, course_id, course_name, tee_box_id, tee_name, hole_number, par, yardage, stroke_index, strokes, to_par, net_strokes, net_to_par, strokes_received, is_double_plus, is_triple_plus, putts, fairway, gir, sand_save, penalty_strokes"
       )
       .eq("profile_id", profileId)
       .order("played_at", { ascending: false })
@@ -33,3 +35,32 @@ export async function fetchAllHoleScoringSource(profileId: string) {
 
   return out;
 }
+
+/**
+ * Rating / slope / par for the source tee boxes behind hole_scoring_source
+ * rows, keyed by tee_box_id. Missing or unrated tees are simply absent.
+ */
+export async function fetchTeeBoxRatings(teeBoxIds: string[]) {
+  const out = new Map<string, { rating: number | null; slope: number | null; par: number | null; holes_count: number | null }>();
+  const ids = Array.from(new Set(teeBoxIds.filter(Boolean)));
+
+  for (const batch of chunk(ids, 100)) {
+    const { data, error } = await supabase
+      .from("course_tee_boxes")
+      .select("id, rating, slope, par, holes_count")
+      .in("id", batch);
+
+    if (error) throw error;
+
+    for (const t of (data ?? []) as any[]) {
+      out.set(t.id, {
+        rating: t.rating != null ? Number(t.rating) : null,
+        slope: t.slope != null ? Number(t.slope) : null,
+        par: t.par != null ? Number(t.par) : null,
+        holes_count: t.holes_count != null ? Number(t.holes_count) : null,
+      });
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,184 @@
+// Putting / driving / GIR aggregation over hole_scoring_source rows.
+// Pure functions shared by the scoring-breakdown and hole-scoring pages.
+
+import { resolveGir, shotStatsFromRow, tracksFairway } from "@/lib/rounds/shotStats";
+import { mean, safeNum } from "./helpers";
+
+/** The subset of hole_scoring_source columns the shot-stat aggregations need. */
+export type ShotStatSourceRow = {
+  round_id: string | null;
+  played_at: string | null;
+  par: number | null;
+  strokes: number | null;
+  putts?: number | null;
+  fairway?: string | null;
+  gir?: boolean | null;
+  sand_save?: boolean | null;
+  penalty_strokes?: number | null;
+};
+
+export type ShotStatsSummary = {
+  holesTracked: number;
+  roundsTracked: number;
+
+  puttHoles: number;
+  puttsPerHole: number | null;
+  /** Putts per hole scaled to 18 holes, so 9- and 18-hole rounds compare. */
+  puttsPer18: number | null;
+  puttsPerGir: number | null;
+  onePuttRate: number | null;
+  threePuttRate: number | null;
+
+  fairwayAttempts: number;
+  fairwayHitRate: number | null;
+  missLeftRate: number | null;
+  missRightRate: number | null;
+
+  girAttempts: number;
+  girRate: number | null;
+
+  sandAttempts: number;
+  sandSaveRate: number | null;
+
+  penaltyHoles: number;
+  penaltiesPer18: number | null;
+};
+
+export type RoundShotStats = {
+  roundId: string;
+  playedAt: string | null;
+  puttsPer18: number | null;
+  fairwayHitRate: number | null;
+  girRate: number | null;
+};
+
+function rate(num: number, den: number): number | null {
+  return den > 0 ? num / den : null;
+}
+
+export function summarizeShotStats(rows: ShotStatSourceRow[]): ShotStatsSummary {
+  const rounds = new Set<string>();
+  let holesTracked = 0;
+
+  let puttHoles = 0, totalPutts = 0, onePutts = 0, threePutts = 0;
+  const puttsOnGir: number[] = [];
+  let fairwayAttempts = 0, fairwayHits = 0, missLeft = 0, missRight = 0;
+  let girAttempts = 0, girHits = 0;
+  let sandAttempts = 0, sandSaves = 0;
+  let penaltyHoles = 0, totalPenalties = 0;
+
+  for (const r of rows) {
+    const s = shotStatsFromRow(r);
+    const strokes = safeNum(r.strokes);
+    const par = safeNum(r.par);
+    const gir = resolveGir(s, strokes, par);
+
+    const tracked =
+      s.putts != null || s.fairway != null || gir != null || s.sand_save != null || s.penalty_strokes != null;
+    if (!tracked) continue;
+
+    holesTracked += 1;
+    if (r.round_id) rounds.add(r.round_id);
+
+    if (s.putts != null) {
+      puttHoles += 1;
+      totalPutts += s.putts;
+      if (s.putts === 1) onePutts += 1;
+      if (s.putts >= 3) threePutts += 1;
+      if (gir === true) puttsOnGir.push(s.putts);
+    }
+
+    if (s.fairway != null && tracksFairway(par)) {
+      fairwayAttempts += 1;
+      if (s.fairway === "hit") fairwayHits += 1;
+      else if (s.fairway === "miss_left") missLeft += 1;
+      else missRight += 1;
+    }
+
+    if (gir != null) {
+      girAttempts += 1;
+      if (gir) girHits += 1;
+    }
+
+    if (s.sand_save != null) {
+      sandAttempts += 1;
+      if (s.sand_save) sandSaves += 1;
+    }
+
+    if (s.penalty_strokes != null) {
+      penaltyHoles += 1;
+      totalPenalties += s.penalty_strokes;
+    }
+  }
+
+  const puttsPerHole = puttHoles ? totalPutts / puttHoles : null;
+
+  return {
+    holesTracked,
+    roundsTracked: rounds.size,
+
+    puttHoles,
+    puttsPerHole,
+    puttsPer18: puttsPerHole != null ? puttsPerHole * 18 : null,
+    puttsPerGir: mean(puttsOnGir),
+    onePuttRate: rate(onePutts, puttHoles),
+    threePuttRate: rate(threePutts, puttHoles),
+
+    fairwayAttempts,
+    fairwayHitRate: rate(fairwayHits, fairwayAttempts),
+    missLeftRate: rate(missLeft, fairwayAttempts),
+    missRightRate: rate(missRight, fairwayAttempts),
+
+    girAttempts,
+    girRate: rate(girHits, girAttempts),
+
+    sandAttempts,
+    sandSaveRate: rate(sandSaves, sandAttempts),
+
+    penaltyHoles,
+    penaltiesPer18: penaltyHoles ? (totalPenalties / penaltyHoles) * 18 : null,
+  };
+}
+
+/**
+ * Per-round putting / driving / GIR figures, oldest first — the series the
+ * trend charts plot. Rounds with no recorded stats are omitted.
+ */
+export function shotStatsByRound(rows: ShotStatSourceRow[]): RoundShotStats[] {
+  const byRound = new Map<string, ShotStatSourceRow[]>();
+  for (const r of rows) {
+    if (!r.round_id) continue;
+    const list = byRound.get(r.round_id);
+    if (list) list.push(r);
+    else byRound.set(r.round_id, [r]);
+  }
+
+  const out: RoundShotStats[] = [];
+  for (const [roundId, rs] of byRound) {
+    const s = summarizeShotStats(rs);
+    if (!s.holesTracked) continue;
+    out.push({
+      roundId,
+      playedAt: rs[0]?.played_at ?? null,
+      puttsPer18: s.puttsPer18,
+      fairwayHitRate: s.fairwayHitRate,
+      girRate: s.girRate,
+    });
+  }
+
+  return out.sort((a, b) => String(a.playedAt ?? "").localeCompare(String(b.playedAt ?? "")));
+}
+
+/**
+ * Change between the average of the most recent `window` rounds and the
+ * `window` rounds before them. Null when either side has no values.
+ */
+export function recentTrend(values: Array<number | null>, window = 5): number | null {
+  const xs = values.filter((v): v is number => v != null);
+  if (xs.length < 2) return null;
+  const w = Math.min(window, Math.floor(xs.length / 2));
+  const recent = mean(xs.slice(-w));
+  const previous = mean(xs.slice(-2 * w, -w));
+  if (recent == null || previous == null) return null;
+  return recent - previous;
+}
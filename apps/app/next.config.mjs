@@ -36,8 +36,8 @@ const nextConfig = {
 // if they were live.
 //
 // Score entry — the only flow that genuinely needs to work offline — has its own
-// localStorage op queue in app/round/[round_id]/RoundDetailClient.tsx, so the SW
-// cache adds no capability here. Static assets only.
+// IndexedDB op queue (lib/rounds/offlineQueue.ts, synced by worker/index.js), so
+// the SW cache adds no capability here. Static assets only.
 const runtimeCaching = [
   {
     urlPattern: /^https:\/\/fonts\.(?:gstatic)\.com\/.*/i,
@@ -1,7 +1,8 @@
 /* eslint-disable no-restricted-globals */
 // Custom service-worker logic injected into the next-pwa generated worker.
 // next-pwa compiles this file (worker/index.js) into public/worker-*.js and
-// imports it from the generated sw.js. It handles Web Push delivery + clicks.
+// imports it from the generated sw.js. It handles Web Push delivery + clicks,
+// and background sync of scores queued while offline.
 //
 // NOTE: PWA / service worker is only registered in production builds
 // (see next.config.mjs `disable: !isProd`). Push cannot be tested in `next dev`.
@@ -66,3 +67,105 @@ self.addEventListener("notificationclick", (event) => {
       })
   );
 });
+
+// ── Offline score sync ──────────────────────────────────────────────────────
+// Scores entered with no signal are queued in IndexedDB by the round page
+// (lib/rounds/offlineQueue.ts — same database and store names as below). When
+// the page registers a background sync, the browser wakes us once there's a
+// connection and we post each round's queue to /api/rounds/[id]/score-sync,
+// which resolves conflicts. Background Sync is Chromium-only; on iOS the page
+// flushes the queue itself when it comes back online or to the foreground.
+
+const OFFLINE_DB = "ciaga-offline";
+const SCORE_SYNC_TAG = "ciaga-score-sync";
+
+function idbOpen() {
+  return new Promise((resolve) => {
+    const req = indexedDB.open(OFFLINE_DB);
+    // No database yet: don't create an empty one at version 1 — the page's
+    // upgrade (which makes the stores) would then never run.
+    req.onupgradeneeded = () => req.transaction.abort();
+    req.onsuccess = () => {
+      const db = req.result;
+      // Page hasn't created the stores yet → nothing queued.
+      if (!db.objectStoreNames.contains("score_ops")) {
+        db.close();
+        resolve(null);
+      } else resolve(db);
+    };
+    req.onerror = () => resolve(null);
+  });
+}
+
+function idbGetAll(db, store) {
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(store, "readonly").objectStore(store).getAll();
+    req.onsuccess = () => resolve(req.result || []);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbDeleteSynced(db, roundId, results) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction("score_ops", "readwrite");
+    const store = tx.objectStore("score_ops");
+    for (const r of results) {
+      const id = `${roundId}|${r.key}`;
+      const get = store.get(id);
+      // Leave it if the hole was re-entered while we were syncing.
+      get.onsuccess = () => {
+        if (get.result && get.result.timestamp === r.timestamp) store.delete(id);
+      };
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function syncQueuedScores() {
+  const db = await idbOpen();
+  if (!db) return;
+
+  const ops = await idbGetAll(db, "score_ops");
+  if (!ops.length) return;
+
+  const byRound = new Map();
+  for (const op of ops) {
+    if (!byRound.has(op.roundId)) byRound.set(op.roundId, []);
+    byRound.get(op.roundId).push(op);
+  }
+
+  for (const [roundId, roundOps] of byRound) {
+    // No token is kept for us: the request carries the session cookies, which
+    // the middleware refreshes on the way through. A network failure throws
+    // out of here so the browser retries the sync later.
+    const res = await fetch(`/api/rounds/${roundId}/score-sync`, {
+      method: "POST",
+      credentials: "same-origin",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ops: roundOps }),
+    });
+    // Signed out — leave the queue for the page, don't retry.
+    if (res.status === 401) return;
+
+    const json = await res.json().catch(() => ({}));
+    const results = Array.isArray(json.results) ? json.results : [];
+    // Any other 4xx won't succeed on a retry (round finished, not a player in
+    // it, bad op), so drop the round's ops — except a round that hasn't
+    // started, which the page starts before flushing them itself. Same rule
+    // as isRejectedSync in lib/rounds/scoreSync.ts.
+    const rejected = res.status >= 400 && res.status < 500 && !json.needs_start;
+    const done = rejected ? roundOps : results;
+    if (done.length) await idbDeleteSynced(db, roundId, done);
+
+    const error = res.ok || json.needs_start ? null : json.error || `Score sync failed (${res.status})`;
+    const clientList = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    for (const client of clientList) {
+      client.postMessage({ type: SCORE_SYNC_TAG, roundId, results, error, discarded: rejected ? roundOps.length : 0 });
+    }
+  }
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SCORE_SYNC_TAG) event.waitUntil(syncQueuedScores());
+});
@@ -0,0 +1,253 @@
+-- Optional per-hole shot stats (putts, fairway result, green in regulation,
+-- sand save, penalty strokes) captured alongside strokes in ScoreEntrySheet.
+--
+-- Stored on round_score_events rather than a side table: each entry is already
+-- an append-only event per (participant, hole), so a re-entry or a clear (null
+-- strokes) naturally supersedes the stats along with the score, and
+-- round_current_scores keeps resolving "latest event wins" for both.
+--
+-- All columns are nullable — null means "not recorded", never "zero".
+--   fairway:   'hit' | 'miss_left' | 'miss_right' (par 4/5 tee shots only)
+--   gir:       explicit green-in-regulation flag; when null the app derives it
+--              from strokes - putts <= par - 2 if putts were recorded
+--   sand_save: true = got up and down from a greenside bunker, false = was in a
+--              greenside bunker and did not, null = not in a bunker
+
+ALTER TABLE public.round_score_events
+  ADD COLUMN IF NOT EXISTS putts integer,
+  ADD COLUMN IF NOT EXISTS fairway text,
+  ADD COLUMN IF NOT EXISTS gir boolean,
+  ADD COLUMN IF NOT EXISTS sand_save boolean,
+  ADD COLUMN IF NOT EXISTS penalty_strokes integer;
+
+ALTER TABLE public.round_score_events
+  DROP CONSTRAINT IF EXISTS round_score_events_putts_check,
+  ADD CONSTRAINT round_score_events_putts_check CHECK (putts IS NULL OR (putts >= 0 AND putts <= 10));
+
+ALTER TABLE public.round_score_events
+  DROP CONSTRAINT IF EXISTS round_score_events_fairway_check,
+  ADD CONSTRAINT round_score_events_fairway_check CHECK (fairway IS NULL OR fairway IN ('hit', 'miss_left', 'miss_right'));
+
+ALTER TABLE public.round_score_events
+  DROP CONSTRAINT IF EXISTS round_score_events_penalty_strokes_check,
+  ADD CONSTRAINT round_score_events_penalty_strokes_check CHECK (penalty_strokes IS NULL OR (penalty_strokes >= 0 AND penalty_strokes <= 10));
+
+-- Stats can't exceed the hole's strokes (putts/penalties are part of the score).
+ALTER TABLE public.round_score_events
+  DROP CONSTRAINT IF EXISTS round_score_events_shot_stats_within_strokes,
+  ADD CONSTRAINT round_score_events_shot_stats_within_strokes CHECK (
+    strokes IS NULL
+    OR (COALESCE(putts, 0) + COALESCE(penalty_strokes, 0) <= strokes)
+  );
+
+-- Latest-event view: append the stat columns (CREATE OR REPLACE VIEW allows
+-- adding trailing columns, so dependants are unaffected).
+create or replace view "public"."round_current_scores" as  SELECT DISTINCT ON (round_id, participant_id, hole_number) round_id,
+    participant_id,
+    hole_number,
+    strokes,
+    entered_by,
+    created_at,
+    putts,
+    fairway,
+    gir,
+    sand_save,
+    penalty_strokes
+   FROM public.round_score_events e
+  ORDER BY round_id, participant_id, hole_number, created_at DESC, id DESC;
+
+-- Stats pages read hole_scoring_source; carry the stats through (trailing columns).
+create or replace view "public"."hole_scoring_source" as  WITH latest AS (
+         SELECT DISTINCT ON (rse.participant_id, rse.round_id, rse.hole_number) rse.participant_id,
+            rse.round_id,
+            rse.hole_number,
+            rse.strokes,
+            rse.putts,
+            rse.fairway,
+            rse.gir,
+            rse.sand_save,
+            rse.penalty_strokes
+           FROM public.round_score_events rse
+          WHERE (rse.strokes IS NOT NULL)
+          ORDER BY rse.participant_id, rse.round_id, rse.hole_number, rse.created_at DESC, rse.id DESC
+        )
+ SELECT rp.profile_id,
+    l.round_id,
+    COALESCE(hrr.played_at::timestamptz, r.finished_at, r.started_at, r.created_at) AS played_at,
+    rcs.source_course_id AS course_id,
+    rcs.course_name,
+    rts.source_tee_box_id AS tee_box_id,
+    rts.name AS tee_name,
+    l.hole_number,
+    rhs.par,
+    rhs.yardage,
+    rhs.stroke_index,
+    l.strokes,
+    (l.strokes - rhs.par) AS to_par,
+    (l.strokes >= (rhs.par + 2)) AS is_double_plus,
+    (l.strokes >= (rhs.par + 3)) AS is_triple_plus,
+    hrr.handicap_index_used,
+    hrr.course_handicap_used,
+    public.ciaga_strokes_received_on_hole(
+      hrr.course_handicap_used,
+      rhs.stroke_index,
+      CASE WHEN hrr.is_9_hole THEN 9 ELSE 18 END
+    ) AS strokes_received,
+    (l.strokes - public.ciaga_strokes_received_on_hole(
+      hrr.course_handicap_used,
+      rhs.stroke_index,
+      CASE WHEN hrr.is_9_hole THEN 9 ELSE 18 END
+    )) AS net_strokes,
+    ((l.strokes - public.ciaga_strokes_received_on_hole(
+      hrr.course_handicap_used,
+      rhs.stroke_index,
+      CASE WHEN hrr.is_9_hole THEN 9 ELSE 18 END
+    )) - rhs.par) AS net_to_par,
+    l.putts,
+    l.fairway,
+    l.gir,
+    l.sand_save,
+    l.penalty_strokes
+   FROM ((((((latest l
+     JOIN public.round_participants rp ON ((rp.id = l.participant_id)))
+     JOIN public.rounds r ON ((r.id = l.round_id)))
+     LEFT JOIN public.round_tee_snapshots rts ON ((rts.id = rp.tee_snapshot_id)))
+     LEFT JOIN public.round_course_snapshots rcs ON ((rcs.id = rts.round_course_snapshot_id)))
+     LEFT JOIN public.round_hole_snapshots rhs ON (((rhs.round_tee_snapshot_id = rts.id) AND (rhs.hole_number = l.hole_number))))
+     LEFT JOIN public.handicap_round_results hrr ON (((hrr.round_id = l.round_id) AND (hrr.participant_id = rp.id))));
+
+-- Surface the stats in the round detail snapshot RPC.
+CREATE OR REPLACE FUNCTION public.get_round_detail_snapshot(_round_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _result jsonb;
+  _first_tee_id uuid;
+BEGIN
+  -- Resolve first tee snapshot id (shared across participants)
+  SELECT rp.tee_snapshot_id INTO _first_tee_id
+  FROM round_participants rp
+  WHERE rp.round_id = _round_id
+    AND rp.tee_snapshot_id IS NOT NULL
+  LIMIT 1;
+
+  SELECT jsonb_build_object(
+    'round', (
+      SELECT jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'status', r.status,
+        'started_at', r.started_at,
+        'created_at', r.created_at,
+        'format_type', r.format_type,
+        'format_config', r.format_config,
+        'side_games', r.side_games,
+        'course_name', c.name,
+        'event_tee_time_id', r.event_tee_time_id,
+        'starting_hole', r.starting_hole,
+        'starting_hole_source', r.starting_hole_source
+      )
+      FROM rounds r
+      LEFT JOIN courses c ON c.id = r.course_id
+      WHERE r.id = _round_id
+    ),
+
+    'participants', (
+      SELECT COALESCE(jsonb_agg(row_to_json(p)::jsonb), '[]'::jsonb)
+      FROM get_round_participants(_round_id) p
+    ),
+
+    'participant_extras', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', rp.id,
+        'playing_handicap_used', rp.playing_handicap_used,
+        'team_id', rp.team_id,
+        'handicap_index', rp.handicap_index
+      )), '[]'::jsonb)
+      FROM round_participants rp
+      WHERE rp.round_id = _round_id
+    ),
+
+    'teams', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', t.id,
+        'round_id', t.round_id,
+        'name', t.name,
+        'team_number', t.team_number,
+        'playing_handicap_used', t.playing_handicap_used
+      ) ORDER BY t.team_number), '[]'::jsonb)
+      FROM round_teams t
+      WHERE t.round_id = _round_id
+    ),
+
+    'tee_snapshot', (
+      SELECT CASE WHEN _first_tee_id IS NULL THEN NULL
+      ELSE (
+        SELECT jsonb_build_object(
+          'id', ts.id,
+          'rating', ts.rating,
+          'slope', ts.slope,
+          'par_total', ts.par_total
+        )
+        FROM round_tee_snapshots ts
+        WHERE ts.id = _first_tee_id
+      )
+      END
+    ),
+
+    'holes', (
+      SELECT CASE WHEN _first_tee_id IS NULL THEN '[]'::jsonb
+      ELSE (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'hole_number', h.hole_number,
+          'par', h.par,
+          'yardage', h.yardage,
+          'stroke_index', h.stroke_index
+        ) ORDER BY h.hole_number), '[]'::jsonb)
+        FROM round_hole_snapshots h
+        WHERE h.round_tee_snapshot_id = _first_tee_id
+      )
+      END
+    ),
+
+    'scores', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'participant_id', s.participant_id,
+        'hole_number', s.hole_number,
+        'strokes', s.strokes,
+        'created_at', s.created_at,
+        'putts', s.putts,
+        'fairway', s.fairway,
+        'gir', s.gir,
+        'sand_save', s.sand_save,
+        'penalty_strokes', s.penalty_strokes
+      )), '[]'::jsonb)
+      FROM round_current_scores s
+      WHERE s.round_id = _round_id
+    ),
+
+    'hole_states', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'participant_id', hs.participant_id,
+        'hole_number', hs.hole_number,
+        'status', hs.status
+      )), '[]'::jsonb)
+      FROM round_hole_states hs
+      WHERE hs.round_id = _round_id
+    )
+  ) INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_round_detail_snapshot IS
+  'Returns all data needed by the round detail page in a single call.
+   Includes: round meta (incl. event_tee_time_id, starting_hole, starting_hole_source),
+   participants (with resolved handicaps), participant extras (playing_handicap_used, team_id),
+   teams (with playing_handicap_used), tee snapshot, hole snapshots, current scores
+   (incl. optional shot stats: putts, fairway, gir, sand_save, penalty_strokes), and hole states.';
@@ -0,0 +1,207 @@
+-- Playing Conditions Calculation (PCC).
+--
+-- A daily job (lib/handicap/pccJob.ts) groups accepted 18-hole scores by
+-- source course, tee box and date, and when enough players on one tee-day
+-- scored well above (or below) expectation it records a PCC of -1..+3 here,
+-- together with the inputs and a human-readable reason.
+--
+-- upsert_handicap_round_result folds the PCC for the round's tee-day into the
+-- score differential (WHS: (AGS − CR − PCC) × 113 / slope) and stamps it on
+-- handicap_round_results.pcc, so every replay (ciaga_refresh_handicaps_from /
+-- _step) picks the adjustment up without further changes. ciaga_played9_sd
+-- does the same for nines waiting to be combined. A 9-hole score takes half
+-- the tee-day's PCC (WHS: 9-hole SD uses 0.5 × PCC); the stamped pcc is the
+-- tee-day value either way.
+--
+-- ciaga_apply_pcc replays the handicap pipeline from the tee-day onwards
+-- (ciaga_refresh_handicaps_from), so later rounds' handicap_index_used and
+-- expected 9-hole differentials pick up the corrected index too. Like the
+-- other re-derivations it never touches playing_handicap_used /
+-- course_handicap_used on round_participants.
+
+create table if not exists public.handicap_pcc_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  course_id uuid references public.courses(id) on delete cascade,
+  tee_box_id uuid not null references public.course_tee_boxes(id) on delete cascade,
+  played_at date not null,
+  pcc integer not null default 0,
+  eligible_scores integer not null default 0,
+  mean_excess numeric,
+  reason text not null,
+  inputs jsonb not null default '{}'::jsonb,
+  calculated_at timestamptz not null default now(),
+  constraint handicap_pcc_adjustments_pcc_check check (pcc between -1 and 3),
+  constraint handicap_pcc_adjustments_tee_day_key unique (tee_box_id, played_at)
+);
+
+create index if not exists idx_handicap_pcc_adjustments_played_at
+  on public.handicap_pcc_adjustments using btree (played_at);
+
+alter table public.handicap_pcc_adjustments enable row level security;
+
+-- Read: any authenticated user (mirrors handicap_round_results). Writes come
+-- from the service role only.
+drop policy if exists "handicap_pcc_adjustments: read" on public.handicap_pcc_adjustments;
+create policy "handicap_pcc_adjustments: read"
+  on public.handicap_pcc_adjustments
+  for select
+  to authenticated
+  using (true);
+
+alter table public.handicap_round_results
+  add column if not exists pcc integer not null default 0;
+
+COMMENT ON COLUMN public.handicap_round_results.pcc IS
+  'Playing Conditions Calculation applied to score_differential (-1..+3, see handicap_pcc_adjustments).';
+
+-- PCC for the tee-day a snapshot was played on (0 when none recorded). The
+-- 18-hole value: callers halve it for 9-hole scores (ciaga_pcc_applied).
+CREATE OR REPLACE FUNCTION public.ciaga_pcc_for(p_tee_snapshot_id uuid, p_played_at date)
+ RETURNS integer
+ LANGUAGE sql
+ STABLE
+AS $function$
+select coalesce((
+  select pa.pcc
+  from round_tee_snapshots ts
+  join handicap_pcc_adjustments pa
+    on pa.tee_box_id = ts.source_tee_box_id
+   and pa.played_at = p_played_at
+  where ts.id = p_tee_snapshot_id
+), 0);
+$function$
+;
+
+-- The PCC taken off the course rating for one score: half for a nine.
+CREATE OR REPLACE FUNCTION public.ciaga_pcc_applied(p_pcc integer, p_is_9_hole boolean)
+ RETURNS numeric
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+select case when coalesce(p_is_9_hole, false) then p_pcc * 0.5 else p_pcc::numeric end;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.ciaga_played9_sd(p_participant_id uuid)
+ RETURNS numeric
+ LANGUAGE sql
+ STABLE
+AS $function$
+select round(
+  (
+    (
+      (hrr.adjusted_gross_score::numeric - ts.rating::numeric - ciaga_pcc_applied(hrr.pcc, true)) * 113.0
+    ) / nullif(ts.slope::numeric, 0)
+  ),
+  1
+)
+from handicap_round_results hrr
+join round_tee_snapshots ts on ts.id = hrr.tee_snapshot_id
+where hrr.participant_id = p_participant_id
+  and hrr.is_9_hole = true;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.upsert_handicap_round_result(p_participant_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+AS $function$
+declare
+  r record;
+  v_pcc integer := 0;
+  v_cr numeric;
+  v_slope numeric;
+  v_sd numeric;
+begin
+  select * into r
+  from compute_handicap_round_result(p_participant_id);
+
+  v_sd := r.score_differential;
+
+  if r.tee_snapshot_id is not null and r.played_at is not null then
+    v_pcc := ciaga_pcc_for(r.tee_snapshot_id, r.played_at);
+  end if;
+
+  -- Same arithmetic as compute_handicap_round_result, with PCC taken off the
+  -- course rating (half of it on a nine).
+  if v_pcc <> 0 and v_sd is not null and r.adjusted_gross_score is not null then
+    select ts.rating::numeric, ts.slope::numeric into v_cr, v_slope
+    from round_tee_snapshots ts
+    where ts.id = r.tee_snapshot_id;
+
+    if v_slope is not null and v_slope <> 0 then
+      v_sd := round(
+        ((r.adjusted_gross_score::numeric - v_cr - ciaga_pcc_applied(v_pcc, r.is_9_hole or r.derived_from_9)) * 113.0)
+          / v_slope,
+        1
+      );
+      if r.derived_from_9 then
+        v_sd := round(v_sd + round((r.handicap_index_used * 0.52) + 1.2, 1), 1);
+      end if;
+    end if;
+  end if;
+
+  insert into handicap_round_results (
+    round_id, participant_id, profile_id,
+    played_at, holes_started, holes_completed, is_9_hole,
+    accepted, rejected_reason,
+    handicap_index_used, course_handicap_used, tee_snapshot_id,
+    adjusted_gross_score, score_differential, derived_from_9, pending_9,
+    pcc, calc_version
+  )
+  values (
+    r.round_id, r.participant_id, r.profile_id,
+    r.played_at, r.holes_started, r.holes_completed, r.is_9_hole,
+    r.accepted, r.rejected_reason,
+    r.handicap_index_used, r.course_handicap_used, r.tee_snapshot_id,
+    r.adjusted_gross_score, v_sd, r.derived_from_9, r.pending_9,
+    v_pcc, ciaga_current_handicap_version()
+  )
+  on conflict (participant_id, round_id) do update set
+    played_at = excluded.played_at,
+    holes_started = excluded.holes_started,
+    holes_completed = excluded.holes_completed,
+    is_9_hole = excluded.is_9_hole,
+    accepted = excluded.accepted,
+    rejected_reason = excluded.rejected_reason,
+    handicap_index_used = excluded.handicap_index_used,
+    course_handicap_used = excluded.course_handicap_used,
+    tee_snapshot_id = excluded.tee_snapshot_id,
+    adjusted_gross_score = excluded.adjusted_gross_score,
+    score_differential = excluded.score_differential,
+    derived_from_9 = excluded.derived_from_9,
+    pending_9 = excluded.pending_9,
+    pcc = excluded.pcc,
+    calc_version = ciaga_current_handicap_version(),
+    calculated_at = now();
+end $function$
+;
+
+-- Re-derive every score played off one tee-day after its PCC changed: replay
+-- the pipeline from that date, so the players' later rounds see the corrected
+-- index as well. Returns the number of scores on the tee-day.
+CREATE OR REPLACE FUNCTION public.ciaga_apply_pcc(p_tee_box_id uuid, p_played_at date)
+ RETURNS integer
+ LANGUAGE plpgsql
+AS $function$
+declare
+  v_count integer;
+begin
+  select count(*) into v_count
+  from handicap_round_results hrr
+  join round_tee_snapshots ts on ts.id = hrr.tee_snapshot_id
+  where ts.source_tee_box_id = p_tee_box_id
+    and hrr.played_at = p_played_at;
+
+  -- One replay covers every affected profile (and anyone else who played
+  -- since; their results come out unchanged).
+  if v_count > 0 then
+    perform ciaga_refresh_handicaps_from(p_played_at);
+  end if;
+
+  return v_count;
+end $function$
+;
+
+COMMENT ON FUNCTION public.ciaga_apply_pcc(uuid, date) IS
+  'Replays the handicap pipeline from a tee-day whose PCC changed, so its differentials and every later round''s index pick it up.';
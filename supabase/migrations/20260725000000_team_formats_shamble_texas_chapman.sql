@@ -0,0 +1,14 @@
+-- Team formats: Shamble, Texas Scramble and Chapman (Pinehurst).
+--
+-- Texas Scramble and Chapman are single-ball formats: /api/rounds/start stamps
+-- round_teams.playing_handicap_used from the members' course handicaps using
+-- the WHS team allowance (lib/rounds/whsDefaults.ts teamPlayingHandicap).
+-- Shamble plays own balls after a shared drive and uses individual playing
+-- handicaps, like team_bestball.
+--
+-- NOTE: ALTER TYPE ... ADD VALUE lives in its own migration file (see
+-- 20260219000000_format_overhaul.sql).
+
+ALTER TYPE public.round_format_type ADD VALUE IF NOT EXISTS 'shamble';
+ALTER TYPE public.round_format_type ADD VALUE IF NOT EXISTS 'texas_scramble';
+ALTER TYPE public.round_format_type ADD VALUE IF NOT EXISTS 'chapman';
@@ -0,0 +1,65 @@
+-- Bingo Bango Bongo side game: per-hole markers — first on the green (bingo),
+-- closest to the pin once everyone is on (bango), first in the hole (bongo).
+-- Like round_wolf_picks these are entered live during play, so they get their
+-- own table (not side_games config). RLS + realtime mirror round_wolf_picks.
+
+create table if not exists public.round_bbb_awards (
+  round_id uuid not null references public.rounds(id) on delete cascade,
+  hole_number integer not null,
+  bingo_participant_id uuid references public.round_participants(id) on delete set null,
+  bango_participant_id uuid references public.round_participants(id) on delete set null,
+  bongo_participant_id uuid references public.round_participants(id) on delete set null,
+  updated_at timestamptz not null default now(),
+  primary key (round_id, hole_number),
+  constraint round_bbb_awards_hole_number_check check (hole_number >= 1 and hole_number <= 18)
+);
+
+create index if not exists idx_round_bbb_awards_round on public.round_bbb_awards using btree (round_id);
+
+alter table public.round_bbb_awards enable row level security;
+
+-- Read: any authenticated user (mirrors round_wolf_picks "read").
+drop policy if exists "round_bbb_awards: read" on public.round_bbb_awards;
+create policy "round_bbb_awards: read"
+  on public.round_bbb_awards
+  for select
+  to authenticated
+  using (true);
+
+-- Insert: round participants only.
+drop policy if exists "round_bbb_awards: participant insert" on public.round_bbb_awards;
+create policy "round_bbb_awards: participant insert"
+  on public.round_bbb_awards
+  as permissive
+  for insert
+  to authenticated
+  with check (public.is_round_participant(round_id));
+
+-- Update: round participants only.
+drop policy if exists "round_bbb_awards: participant update" on public.round_bbb_awards;
+create policy "round_bbb_awards: participant update"
+  on public.round_bbb_awards
+  as permissive
+  for update
+  to authenticated
+  using (public.is_round_participant(round_id, auth.uid()))
+  with check (public.is_round_participant(round_id, auth.uid()));
+
+-- Enable Supabase Realtime (idempotent).
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'round_bbb_awards'
+  ) then
+    execute 'alter publication supabase_realtime add table public.round_bbb_awards';
+  end if;
+end;
+$$;
+
+-- Majors events: party games configured on the event are copied onto each
+-- tee time's round when it is created (same shape as rounds.side_games).
+alter table public.events
+  add column if not exists side_games jsonb not null default '[]'::jsonb;
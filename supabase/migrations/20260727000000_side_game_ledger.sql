@@ -0,0 +1,47 @@
+-- ============================================================
+-- Side-game settlement ledger: the running tab between players.
+--
+--   kind = 'round'   — a netted transfer from a finished round's side games
+--                      (lib/rounds/settlement.ts). Rewritten whenever the
+--                      round is settled again, hence unique per round + pair.
+--   kind = 'payment' — cash that changed hands, recorded by the payee; it
+--                      reduces what the payer owes.
+--
+-- Only profile players appear here; guests settle on the day. Balances are
+-- derived (sum per pair), never stored. Reads are limited to the two players
+-- involved; all writes go through the service role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.side_game_ledger (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind             text NOT NULL CHECK (kind IN ('round', 'payment')),
+  round_id         uuid REFERENCES public.rounds(id) ON DELETE CASCADE,
+  payer_profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  payee_profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount           numeric(10,2) NOT NULL CHECK (amount > 0),
+  created_by       uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  CHECK (payer_profile_id <> payee_profile_id),
+  CHECK ((kind = 'round') = (round_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_side_game_ledger_round_pair
+  ON public.side_game_ledger(round_id, payer_profile_id, payee_profile_id)
+  WHERE kind = 'round';
+CREATE INDEX IF NOT EXISTS idx_side_game_ledger_payer ON public.side_game_ledger(payer_profile_id);
+CREATE INDEX IF NOT EXISTS idx_side_game_ledger_payee ON public.side_game_ledger(payee_profile_id);
+
+ALTER TABLE public.side_game_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "side_game_ledger_select" ON public.side_game_ledger
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id IN (side_game_ledger.payer_profile_id, side_game_ledger.payee_profile_id)
+        AND p.owner_user_id = auth.uid()
+    )
+    OR auth.role() = 'service_role'
+  );
+
+GRANT SELECT ON public.side_game_ledger TO authenticated;
+GRANT ALL ON public.side_game_ledger TO service_role;
@@ -0,0 +1,79 @@
+-- ============================================================
+-- Majors: public event discovery + organiser-managed entry approvals.
+--
+--   events.visibility              — 'group' (members only, as before) or
+--                                    'public' (listed on /majors/discover and
+--                                    enterable by non-members).
+--   events.entry_approval_required — entries become requests that an
+--                                    owner/admin approves or rejects.
+--   events.eligibility_rules       — already jsonb; now read by the enter and
+--                                    approval routes (lib/majors/eligibility.ts).
+--   profiles.home_course_id        — the player's home club, for home-club
+--                                    eligibility rules.
+--   event_entry_requests           — the approval queue. Eligibility checks and
+--                                    decisions are recorded in event_audit_log.
+--
+-- Writes are service-role only (API routes); reads for the requester and the
+-- event's group owners/admins.
+-- ============================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'group'
+    CHECK (visibility IN ('group', 'public')),
+  ADD COLUMN IF NOT EXISTS entry_approval_required boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_events_public_date
+  ON public.events(event_date)
+  WHERE visibility = 'public';
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS home_course_id uuid REFERENCES public.courses(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.event_entry_requests (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id              uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  profile_id            uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status                text NOT NULL DEFAULT 'pending' CHECK (
+                          status IN ('pending', 'approved', 'rejected', 'withdrawn')
+                        ),
+  -- Handicap index when the request was made (re-checked on approval).
+  handicap_index        numeric(4,1),
+  -- Optional charges / pots picked in the join drawer, applied on approval.
+  options               jsonb NOT NULL DEFAULT '{}',
+  decision_reason       text,
+  decided_by_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at            timestamptz,
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_entry_requests_pending
+  ON public.event_entry_requests(event_id, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_event_entry_requests_profile
+  ON public.event_entry_requests(profile_id);
+
+ALTER TABLE public.event_entry_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "event_entry_requests_select" ON public.event_entry_requests
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = event_entry_requests.profile_id
+        AND p.owner_user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.events e
+      JOIN public.major_group_memberships m ON m.group_id = e.group_id
+      JOIN public.profiles p ON p.id = m.profile_id
+      WHERE e.id = event_entry_requests.event_id
+        AND m.status = 'active'
+        AND m.role IN ('owner', 'admin')
+        AND p.owner_user_id = auth.uid()
+    )
+    OR auth.role() = 'service_role'
+  );
+
+GRANT SELECT ON public.event_entry_requests TO authenticated;
+GRANT ALL ON public.event_entry_requests TO service_role;
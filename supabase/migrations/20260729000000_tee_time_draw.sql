@@ -0,0 +1,14 @@
+-- ============================================================
+-- Majors: tee-time draw generator.
+--
+--   event_tee_times.start_hole — 1 or 10 on a two-tee (shotgun-style) start
+--                                published from the draw; NULL = off the 1st
+--                                as before.
+--
+-- Draw previews are computed on request (lib/majors/teeTimeDraw.ts) and are
+-- not stored; publishing writes ordinary event_tee_times rows.
+-- ============================================================
+
+ALTER TABLE public.event_tee_times
+  ADD COLUMN IF NOT EXISTS start_hole smallint
+    CHECK (start_hole IS NULL OR start_hole BETWEEN 1 AND 18);
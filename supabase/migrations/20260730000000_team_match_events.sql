@@ -0,0 +1,116 @@
+-- ============================================================
+-- Majors: Ryder Cup style team match events.
+--
+--   event_type 'team_match'  — two named teams play sessions of four-balls,
+--                              foursomes and singles.
+--   event_teams              — the two sides (team_number 1 and 2) with a
+--                              captain. Teams are matched across years by
+--                              name within the same competition.
+--   event_team_members       — which entrant plays for which side.
+--   event_team_sessions      — a session of one format, worth
+--                              points_per_match per match.
+--   event_team_pairings      — each captain's pairings for a session, in
+--                              playing order. Kept private to the API until
+--                              both captains have submitted.
+--   event_team_matches       — one match per pairing slot, played as an
+--                              event tee time. Results are written from the
+--                              live round (lib/majors/teamMatch.ts).
+--
+-- Writes are service-role only (API routes).
+-- ============================================================
+
+ALTER TYPE public.event_type_v2 ADD VALUE IF NOT EXISTS 'team_match';
+
+CREATE TABLE IF NOT EXISTS public.event_teams (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id           uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  team_number        smallint NOT NULL CHECK (team_number IN (1, 2)),
+  name               text NOT NULL,
+  color              text,
+  captain_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, team_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.event_team_members (
+  id         uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id   uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  team_id    uuid NOT NULL REFERENCES public.event_teams(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  UNIQUE (event_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_team_members_team ON public.event_team_members(team_id);
+
+CREATE TABLE IF NOT EXISTS public.event_team_sessions (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id         uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  session_number   integer NOT NULL,
+  name             text NOT NULL,
+  format           text NOT NULL CHECK (format IN ('fourball', 'foursomes', 'singles')),
+  event_round_id   uuid REFERENCES public.event_rounds(id) ON DELETE SET NULL,
+  scheduled_at     timestamptz,
+  points_per_match numeric NOT NULL DEFAULT 1 CHECK (points_per_match > 0),
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, session_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.event_team_pairings (
+  id                      uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id              uuid NOT NULL REFERENCES public.event_team_sessions(id) ON DELETE CASCADE,
+  team_id                 uuid NOT NULL REFERENCES public.event_teams(id) ON DELETE CASCADE,
+  -- Ordered list of sides, each an array of profile ids.
+  pairings                jsonb NOT NULL DEFAULT '[]',
+  submitted_by_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  submitted_at            timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (session_id, team_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.event_team_matches (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id           uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  session_id         uuid NOT NULL REFERENCES public.event_team_sessions(id) ON DELETE CASCADE,
+  match_number       integer NOT NULL,
+  side_a_profile_ids uuid[] NOT NULL,
+  side_b_profile_ids uuid[] NOT NULL,
+  event_tee_time_id  uuid REFERENCES public.event_tee_times(id) ON DELETE SET NULL,
+  round_id           uuid REFERENCES public.rounds(id) ON DELETE SET NULL,
+  status             text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'live', 'completed')),
+  winner             text CHECK (winner IN ('a', 'b', 'halved')),
+  result_text        text,
+  side_a_points      numeric NOT NULL DEFAULT 0,
+  side_b_points      numeric NOT NULL DEFAULT 0,
+  completed_at       timestamptz,
+  UNIQUE (session_id, match_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_team_matches_event ON public.event_team_matches(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_team_matches_round ON public.event_team_matches(round_id);
+
+ALTER TABLE public.event_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_team_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_team_pairings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_team_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "event_teams_select" ON public.event_teams
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "event_team_members_select" ON public.event_team_members
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "event_team_sessions_select" ON public.event_team_sessions
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "event_team_matches_select" ON public.event_team_matches
+  FOR SELECT TO authenticated USING (true);
+-- event_team_pairings: no authenticated policy; the API reveals them once both
+-- captains have submitted.
+
+GRANT SELECT ON public.event_teams TO authenticated;
+GRANT SELECT ON public.event_team_members TO authenticated;
+GRANT SELECT ON public.event_team_sessions TO authenticated;
+GRANT SELECT ON public.event_team_matches TO authenticated;
+GRANT ALL ON public.event_teams TO service_role;
+GRANT ALL ON public.event_team_members TO service_role;
+GRANT ALL ON public.event_team_sessions TO service_role;
+GRANT ALL ON public.event_team_pairings TO service_role;
+GRANT ALL ON public.event_team_matches TO service_role;
@@ -0,0 +1,119 @@
+-- ============================================================
+-- Best-N-of-M counting rules for group season standings.
+--
+-- An order of merit is often scored on "best 8 of 12" or with
+-- the worst two results dropped. Each group season now carries
+-- a counting rule:
+--   • counting_mode 'all'        — every result counts (default)
+--   • counting_mode 'best_n'     — a player's best counting_n results
+--   • counting_mode 'drop_worst' — all but the worst counting_n,
+--                                  measured against events held, so
+--                                  missed events use up the drops
+-- Events listed in counting_mandatory_event_ids (the majors)
+-- always count and are chosen before the best of the rest.
+--
+-- Standings record which results counted and which were dropped.
+-- Wins, top-3s and best finish still cover every result.
+-- Mirrored in apps/app/lib/majors/seasonCounting.ts.
+-- ============================================================
+
+ALTER TABLE public.group_seasons
+  ADD COLUMN IF NOT EXISTS counting_mode text NOT NULL DEFAULT 'all'
+    CHECK (counting_mode IN ('all', 'best_n', 'drop_worst')),
+  ADD COLUMN IF NOT EXISTS counting_n integer
+    CHECK (counting_n IS NULL OR counting_n > 0),
+  ADD COLUMN IF NOT EXISTS counting_mandatory_event_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.group_season_standings_entries
+  ADD COLUMN IF NOT EXISTS counted_event_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS dropped_event_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS dropped_points numeric NOT NULL DEFAULT 0;
+
+-- Base: 20260610000006_standings_respect_playoff_positions.sql
+CREATE OR REPLACE FUNCTION public.ciaga_compute_group_season_standings(p_group_season_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_mode      text;
+  v_n         integer;
+  v_mandatory uuid[];
+  v_held      integer;
+  v_limit     integer;
+BEGIN
+  SELECT counting_mode, counting_n, counting_mandatory_event_ids
+    INTO v_mode, v_n, v_mandatory
+  FROM group_seasons
+  WHERE id = p_group_season_id;
+
+  SELECT COUNT(*)::integer INTO v_held
+  FROM events e
+  WHERE e.group_season_id = p_group_season_id
+    AND e.standings_contribution IN ('season', 'both')
+    AND e.majors_status IN ('completed', 'official');
+
+  -- NULL limit = every result counts.
+  v_limit := CASE
+    WHEN v_mode = 'best_n' AND v_n IS NOT NULL THEN v_n
+    WHEN v_mode = 'drop_worst' AND v_n IS NOT NULL THEN GREATEST(v_held - v_n, 0)
+    ELSE NULL
+  END;
+
+  DELETE FROM group_season_standings_entries
+  WHERE group_season_id = p_group_season_id;
+
+  INSERT INTO group_season_standings_entries
+    (group_season_id, profile_id, season_points, events_played, wins, top_3s, best_finish, position,
+     counted_event_ids, dropped_event_ids, dropped_points, last_computed_at)
+  WITH results AS (
+    SELECT
+      agg.profile_id,
+      agg.event_id,
+      COALESCE(agg.points_earned, 0)                     AS pts,
+      COALESCE(agg.playoff_final_position, agg.position) AS finish,
+      agg.event_id = ANY(COALESCE(v_mandatory, '{}'))    AS mandatory
+    FROM event_leaderboard_entries agg
+    JOIN events e ON e.id = agg.event_id
+    WHERE e.group_season_id = p_group_season_id
+      AND e.standings_contribution IN ('season', 'both')
+      AND e.majors_status IN ('completed', 'official')
+  ),
+  ranked AS (
+    SELECT
+      r.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY r.profile_id
+        ORDER BY r.mandatory DESC, r.pts DESC, r.event_id
+      ) AS rn
+    FROM results r
+  ),
+  flagged AS (
+    SELECT
+      ranked.*,
+      (v_limit IS NULL OR ranked.mandatory OR ranked.rn <= v_limit) AS counts
+    FROM ranked
+  )
+  SELECT
+    p_group_season_id,
+    f.profile_id,
+    COALESCE(SUM(f.pts) FILTER (WHERE f.counts), 0)         AS season_points,
+    COUNT(DISTINCT f.event_id)::integer                     AS events_played,
+    COUNT(*) FILTER (WHERE f.finish = 1)::integer           AS wins,
+    COUNT(*) FILTER (WHERE f.finish <= 3)::integer          AS top_3s,
+    MIN(f.finish)                                           AS best_finish,
+    ROW_NUMBER() OVER (
+      ORDER BY
+        COALESCE(SUM(f.pts) FILTER (WHERE f.counts), 0) DESC,
+        COUNT(*) FILTER (WHERE f.finish = 1) DESC,
+        COUNT(*) FILTER (WHERE f.finish <= 3) DESC
+    )::integer AS position,
+    COALESCE(ARRAY_AGG(f.event_id) FILTER (WHERE f.counts), '{}')     AS counted_event_ids,
+    COALESCE(ARRAY_AGG(f.event_id) FILTER (WHERE NOT f.counts), '{}') AS dropped_event_ids,
+    COALESCE(SUM(f.pts) FILTER (WHERE NOT f.counts), 0)               AS dropped_points,
+    NOW() AS last_computed_at
+  FROM flagged f
+  GROUP BY f.profile_id;
+END;
+$$;
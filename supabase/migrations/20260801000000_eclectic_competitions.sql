@@ -0,0 +1,66 @@
+-- ============================================================
+-- Season-long eclectic competitions.
+--
+--   eclectic_competitions — a group season's eclectic at one
+--                           nominated course: each entrant's best
+--                           score per hole across qualifying rounds
+--                           in the season window, added up into one
+--                           card (lib/majors/eclectic.ts).
+--     scoring          'gross' | 'net' | 'stableford'
+--     allowance_pct    share of each round's course handicap used
+--     handicap_mode    'per_hole'     — strokes taken on the holes
+--                      'deduct_total' — net card built gross, the
+--                                       allowance deducted at the end
+--     event_rounds_only  only rounds accepted into the season's
+--                        events qualify (an event-series eclectic)
+--
+-- Prize pots gain metric_type 'eclectic', linked through
+-- prize_pots.eclectic_competition_id, so a pot pays out on the
+-- eclectic leaderboard.
+--
+-- Leaderboards are computed on read; writes are service-role only.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.eclectic_competitions (
+  id                    uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id              uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  group_season_id       uuid NOT NULL REFERENCES public.group_seasons(id) ON DELETE CASCADE,
+  name                  text NOT NULL,
+  course_id             uuid NOT NULL REFERENCES public.courses(id) ON DELETE RESTRICT,
+  scoring               text NOT NULL DEFAULT 'net'
+    CHECK (scoring IN ('gross', 'net', 'stableford')),
+  allowance_pct         numeric NOT NULL DEFAULT 100
+    CHECK (allowance_pct >= 0 AND allowance_pct <= 100),
+  handicap_mode         text NOT NULL DEFAULT 'per_hole'
+    CHECK (handicap_mode IN ('per_hole', 'deduct_total')),
+  event_rounds_only     boolean NOT NULL DEFAULT false,
+  status                text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'closed')),
+  created_by_profile_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at            timestamptz NOT NULL DEFAULT now(),
+  updated_at            timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eclectic_competitions_season
+  ON public.eclectic_competitions(group_season_id);
+
+ALTER TABLE public.eclectic_competitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "eclectic_competitions_select" ON public.eclectic_competitions
+  FOR SELECT TO authenticated USING (true);
+
+GRANT SELECT ON public.eclectic_competitions TO authenticated;
+GRANT ALL ON public.eclectic_competitions TO service_role;
+
+-- Prize pots paid on an eclectic leaderboard.
+ALTER TABLE public.prize_pots
+  DROP CONSTRAINT IF EXISTS prize_pots_metric_type_check;
+
+ALTER TABLE public.prize_pots
+  ADD CONSTRAINT prize_pots_metric_type_check CHECK (metric_type IN (
+    'twos', 'nearest_pin', 'longest_drive', 'season_points', 'custom', 'eclectic'
+  ));
+
+ALTER TABLE public.prize_pots
+  ADD COLUMN IF NOT EXISTS eclectic_competition_id uuid
+    REFERENCES public.eclectic_competitions(id) ON DELETE SET NULL;
@@ -0,0 +1,36 @@
+-- ============================================================
+-- Round-robin matchplay leagues with play-by deadlines.
+--
+--   events.league_config — per-league rules (lib/majors/matchplayLeague.ts):
+--     legs             1 = single round robin, 2 = home and away
+--     round_days       days each round of fixtures has to be played
+--     reminder_days    days before a deadline both players are nudged
+--     points_win / points_half / points_loss
+--     tiebreakers      ordered: 'head_to_head' | 'holes_up' | 'countback'
+--
+--   matchplay_fixtures
+--     deadline_at          play-by time; the daily cron records a
+--                          walkover (or double forfeit) once it passes
+--     reminder_sent_at     stamped when the deadline reminder goes out
+--     available_entry_ids  entries that have said they're ready to
+--                          play; decides who a walkover goes to
+--
+-- The league table is now computed in the app so it can honour the
+-- configured points and tiebreakers, and so walkovers count. The old
+-- ciaga_compute_matchplay_league_table() still read competition_id
+-- from before the event rename and is dropped.
+-- ============================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS league_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.matchplay_fixtures
+  ADD COLUMN IF NOT EXISTS deadline_at         timestamptz,
+  ADD COLUMN IF NOT EXISTS reminder_sent_at    timestamptz,
+  ADD COLUMN IF NOT EXISTS available_entry_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_matchplay_fixtures_deadline
+  ON public.matchplay_fixtures(deadline_at)
+  WHERE status = 'scheduled' AND deadline_at IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.ciaga_compute_matchplay_league_table(uuid);
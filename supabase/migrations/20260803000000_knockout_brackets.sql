@@ -0,0 +1,38 @@
+-- ============================================================
+-- Knockout bracket templates, seeding and app-side advancement.
+--
+--   events.bracket_config — how the knockout is drawn
+--     (lib/majors/knockoutBracket.ts):
+--     template  'single' | 'double' | 'plate'
+--     seeding   'handicap' | 'order_of_merit' | 'random'
+--     reseed    re-draw the main draw each round, best
+--               remaining seed against the worst
+--
+--   matchplay_stages.bracket_side — which part of the bracket a
+--     stage holds: 'winners' | 'losers' | 'plate' | 'final'.
+--     NULL for league and legacy stages.
+--
+--   matchplay_fixtures.bracket_position — index within its stage
+--     and round, top of the draw first, so the bracket view and
+--     re-seeding can order each round.
+--
+-- Advancement (filling slots from winners and losers, byes as
+-- walkovers) now runs in the app. The old
+-- ciaga_advance_matchplay_bracket() still read competition_id from
+-- before the event rename and is dropped.
+-- ============================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS bracket_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.matchplay_stages
+  ADD COLUMN IF NOT EXISTS bracket_side text
+    CHECK (bracket_side IN ('winners', 'losers', 'plate', 'final'));
+
+ALTER TABLE public.matchplay_fixtures
+  ADD COLUMN IF NOT EXISTS bracket_position integer;
+
+CREATE INDEX IF NOT EXISTS idx_bracket_slots_source_fixture
+  ON public.matchplay_bracket_slots(source_fixture_id);
+
+DROP FUNCTION IF EXISTS public.ciaga_advance_matchplay_bracket(uuid);
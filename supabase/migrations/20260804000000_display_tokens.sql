@@ -0,0 +1,33 @@
+-- ============================================================
+-- Clubhouse display (kiosk / TV) tokens.
+--
+--   display_tokens — a revocable link to the read-only kiosk
+--     page (/kiosk/<token>) for one event or one group season.
+--     Exactly one of event_id / group_season_id is set.
+--     The page needs no login: the token is the credential, so
+--     it is long and random, and revoking sets revoked_at rather
+--     than deleting the row (kept for the audit trail).
+--
+-- Only the service role reads this table; the kiosk API resolves
+-- tokens server-side and applies the leaderboard freeze rules.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.display_tokens (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token           text NOT NULL UNIQUE,
+  event_id        uuid REFERENCES public.events(id) ON DELETE CASCADE,
+  group_season_id uuid REFERENCES public.group_seasons(id) ON DELETE CASCADE,
+  label           text,
+  created_by      uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  revoked_at      timestamptz,
+  last_seen_at    timestamptz,
+  CHECK ((event_id IS NULL) <> (group_season_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_tokens_event
+  ON public.display_tokens(event_id) WHERE event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_display_tokens_season
+  ON public.display_tokens(group_season_id) WHERE group_season_id IS NOT NULL;
+
+ALTER TABLE public.display_tokens ENABLE ROW LEVEL SECURITY;
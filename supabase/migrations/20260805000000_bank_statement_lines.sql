@@ -0,0 +1,33 @@
+-- ============================================================
+-- Bank statement import for group treasurers.
+--
+--   group_bank_statement_lines — one row per bank credit that
+--     has been posted to the group ledger from an imported CSV /
+--     OFX statement. line_key is the bank's FITID / transaction
+--     id, or a key built from date, amount and description when
+--     the bank gives none; UNIQUE (group_id, line_key) stops the
+--     same credit being posted twice from overlapping statements.
+--
+--     transaction_ids lists the group_balance_transactions the
+--     line produced: one payment per settled player charge, plus
+--     one for any part payment / credit on account.
+--
+-- Only the service role reads this table.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.group_bank_statement_lines (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id        uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  line_key        text NOT NULL,
+  posted_on       date,
+  amount          numeric(10,2) NOT NULL,
+  description     text,
+  reference       text,
+  profile_id      uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  transaction_ids uuid[] NOT NULL DEFAULT '{}',
+  imported_by     uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (group_id, line_key)
+);
+
+ALTER TABLE public.group_bank_statement_lines ENABLE ROW LEVEL SECURITY;
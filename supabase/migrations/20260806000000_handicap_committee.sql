@@ -0,0 +1,91 @@
+-- ============================================================
+-- Handicap committee: winner's cuts, caps and society handicaps.
+--
+--   major_groups.handicap_committee — group rules
+--   (lib/majors/handicapCommittee.ts):
+--     winners_cut       { strokes, decay_per_event } | null —
+--                       an event winner is cut `strokes`, given
+--                       back `decay_per_event` per later event
+--     society_handicap  { weight_pct, window_events } | null —
+--                       blends the WHS playing handicap with the
+--                       player's average net-to-par per round over
+--                       their last `window_events` group events
+--
+--   group_handicap_adjustments — one committee decision per row:
+--     kind 'winners_cut'  strokes < 0, decays; source_event_id is
+--                         the win (recorded when the event completes)
+--     kind 'manual'       strokes ± with a reason
+--     kind 'cap'          cap = highest playing handicap allowed
+--     effective_from / expires_at bound the events it applies to.
+--     Revoking stamps revoked_at — rows are never deleted.
+--
+--   handicap_audit_log — every committee action, and every time an
+--   adjustment changed a player's playing handicap at round start
+--   ('applied': base, adjusted value and the steps, per round).
+--
+-- The per-event max_handicap in events.handicap_rules is now
+-- applied with the same resolution. Applied values are stamped on
+-- round_participants.assigned_playing_handicap, which the leaderboard
+-- and ciaga_resolve_playing_handicap already honour.
+--
+-- Only the service role reads these tables.
+-- ============================================================
+
+ALTER TABLE public.major_groups
+  ADD COLUMN IF NOT EXISTS handicap_committee jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.group_handicap_adjustments (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id          uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  profile_id        uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind              text NOT NULL CHECK (kind IN ('winners_cut', 'manual', 'cap')),
+  strokes           numeric(4,1),
+  decay_per_event   numeric(4,1) NOT NULL DEFAULT 0,
+  cap               integer,
+  reason            text NOT NULL,
+  source_event_id   uuid REFERENCES public.events(id) ON DELETE SET NULL,
+  effective_from    date NOT NULL DEFAULT CURRENT_DATE,
+  expires_at        date,
+  created_by        uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  revoked_at        timestamptz,
+  revoked_by        uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  revoke_reason     text,
+  CHECK ((kind = 'cap') = (cap IS NOT NULL)),
+  CHECK (kind = 'cap' OR strokes IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_handicap_adjustments_group
+  ON public.group_handicap_adjustments(group_id, profile_id)
+  WHERE revoked_at IS NULL;
+
+-- One winner's cut per player per win, so completing an event twice
+-- doesn't cut twice.
+CREATE UNIQUE INDEX IF NOT EXISTS uq_group_handicap_winners_cut
+  ON public.group_handicap_adjustments(source_event_id, profile_id)
+  WHERE kind = 'winners_cut';
+
+ALTER TABLE public.group_handicap_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.handicap_audit_log (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id          uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  action            text NOT NULL CHECK (
+                      action IN ('adjustment_created', 'adjustment_revoked', 'config_updated', 'applied')
+                    ),
+  adjustment_id     uuid REFERENCES public.group_handicap_adjustments(id) ON DELETE SET NULL,
+  profile_id        uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event_id          uuid REFERENCES public.events(id) ON DELETE CASCADE,
+  round_id          uuid REFERENCES public.rounds(id) ON DELETE CASCADE,
+  actor_profile_id  uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payload           jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_handicap_audit_log_group
+  ON public.handicap_audit_log(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_handicap_audit_log_event
+  ON public.handicap_audit_log(event_id)
+  WHERE action = 'applied';
+
+ALTER TABLE public.handicap_audit_log ENABLE ROW LEVEL SECURITY;
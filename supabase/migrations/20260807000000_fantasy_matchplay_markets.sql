@@ -0,0 +1,50 @@
+-- ============================================================
+-- Fantasy markets for matchplay events (lib/fantasy/markets/matchplay.ts):
+--
+--   match_winner    one fixture: home / halved (leagues only) / away
+--   match_margin    one fixture: winning margin bucket ("home:3&2")
+--   match_distance  one fixture: does it reach the last hole
+--   bracket_winner  the knockout bracket's champion
+--   league_winner   top of a league or group stage (params.stage_id)
+--
+-- Fixture markets carry params.fixture_id; all are priced by the
+-- hole-by-hole matchplay simulation and settle as soon as their
+-- fixture, the bracket final or the league stage is decided.
+--
+-- The CHECK is re-added as a superset of the previous list.
+-- Fixture results and draws changing also stale the event's odds.
+-- ============================================================
+
+ALTER TABLE public.fantasy_markets
+  DROP CONSTRAINT IF EXISTS fantasy_markets_market_type_check;
+
+ALTER TABLE public.fantasy_markets
+  ADD CONSTRAINT fantasy_markets_market_type_check CHECK (
+    market_type IN (
+      'outright_winner', 'top_n', 'gross_ou', 'net_ou', 'birdies', 'h2h',
+      'finish_position', 'finish_range', 'score_band', 'score_exact',
+      'eagle_count', 'hole_score', 'field_special', 'score_total',
+      'match_winner', 'match_margin', 'match_distance', 'bracket_winner',
+      'league_winner'
+    )
+  );
+
+-- Fixture drawn, started, decided or cancelled.
+CREATE OR REPLACE FUNCTION public.ciaga_fantasy_on_fixture_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM ciaga_fantasy_mark_stale(COALESCE(NEW.event_id, OLD.event_id), 'fixture_change');
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_fantasy_fixture_change ON public.matchplay_fixtures;
+CREATE TRIGGER trg_fantasy_fixture_change
+  AFTER INSERT OR DELETE
+    OR UPDATE OF status, result_type, winning_entry_id, home_entry_id, away_entry_id
+  ON public.matchplay_fixtures
+  FOR EACH ROW EXECUTE FUNCTION public.ciaga_fantasy_on_fixture_change();
@@ -0,0 +1,272 @@
+-- ============================================================
+-- Fantasy draft leagues: a classic fantasy league alongside the odds board.
+-- Enabled per group by fantasy_config.draft (lib/fantasy/config.ts).
+--
+--   fantasy_draft_leagues       — one per group season: setup → drafting →
+--                                 active → completed.
+--   fantasy_draft_managers      — members playing; draft_slot set when the
+--                                 draft starts (snake order).
+--   fantasy_draft_picks         — the draft board. UNIQUE pick_number and
+--                                 player make concurrent picks safe.
+--   fantasy_draft_roster        — who owns whom; released_at closes a spot
+--                                 (trade, waiver). One open spot per player.
+--   fantasy_draft_lineups       — per manager per event: starters, ordered
+--                                 bench, captain. Locked at the event date.
+--   fantasy_draft_trades        — player-for-player offers between managers.
+--   fantasy_draft_waiver_claims — add a free agent / drop a rostered player,
+--                                 processed by the daily cron in waiver order.
+--   fantasy_draft_event_stats   — per-player results of a finished event
+--                                 (position, birdies, eagles, stableford), so
+--                                 the table re-scores under config changes
+--                                 without reloading hole data.
+--
+--   ciaga_fantasy_draft_move    — atomic roster moves for trades and claims.
+--
+-- Same conventions as the parlay tables: group-visible reads, writes
+-- service-role only.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_leagues (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id           uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  group_season_id    uuid NOT NULL REFERENCES public.group_seasons(id) ON DELETE CASCADE,
+  status             text NOT NULL DEFAULT 'setup' CHECK (
+                       status IN ('setup', 'drafting', 'active', 'completed')
+                     ),
+  created_by         uuid REFERENCES public.profiles(id),
+  draft_started_at   timestamptz,
+  draft_completed_at timestamptz,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (group_season_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_draft_leagues_group ON public.fantasy_draft_leagues(group_id);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_managers (
+  league_id   uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  profile_id  uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- 1-based position in round one of the snake; NULL until the draft starts.
+  draft_slot  integer CHECK (draft_slot IS NULL OR draft_slot >= 1),
+  joined_at   timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, profile_id),
+  UNIQUE (league_id, draft_slot)
+);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_picks (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id          uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  -- 0-based overall pick; round and manager follow from the snake order.
+  pick_number        integer NOT NULL CHECK (pick_number >= 0),
+  manager_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  player_profile_id  uuid NOT NULL REFERENCES public.profiles(id),
+  picked_at          timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (league_id, pick_number),
+  UNIQUE (league_id, player_profile_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_roster (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id          uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  manager_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  player_profile_id  uuid NOT NULL REFERENCES public.profiles(id),
+  acquired_via       text NOT NULL CHECK (acquired_via IN ('draft', 'trade', 'waiver')),
+  acquired_at        timestamptz NOT NULL DEFAULT now(),
+  released_at        timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_fantasy_draft_roster_open
+  ON public.fantasy_draft_roster(league_id, player_profile_id)
+  WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fantasy_draft_roster_manager
+  ON public.fantasy_draft_roster(league_id, manager_profile_id)
+  WHERE released_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_lineups (
+  league_id          uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  event_id           uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  manager_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  starters           uuid[] NOT NULL DEFAULT '{}',
+  -- Auto-substitution order for starters who don't play.
+  bench              uuid[] NOT NULL DEFAULT '{}',
+  captain_profile_id uuid REFERENCES public.profiles(id),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (league_id, event_id, manager_profile_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_trades (
+  id                   uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id            uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  proposer_profile_id  uuid NOT NULL REFERENCES public.profiles(id),
+  recipient_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  offered_player_ids   uuid[] NOT NULL,
+  requested_player_ids uuid[] NOT NULL,
+  status               text NOT NULL DEFAULT 'pending' CHECK (
+                         status IN ('pending', 'accepted', 'rejected', 'cancelled', 'failed')
+                       ),
+  created_at           timestamptz NOT NULL DEFAULT now(),
+  resolved_at          timestamptz,
+  CHECK (proposer_profile_id <> recipient_profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_draft_trades_league ON public.fantasy_draft_trades(league_id, status);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_waiver_claims (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id          uuid NOT NULL REFERENCES public.fantasy_draft_leagues(id) ON DELETE CASCADE,
+  manager_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  add_player_id      uuid NOT NULL REFERENCES public.profiles(id),
+  drop_player_id     uuid NOT NULL REFERENCES public.profiles(id),
+  status             text NOT NULL DEFAULT 'pending' CHECK (
+                       status IN ('pending', 'won', 'lost', 'cancelled')
+                     ),
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  processed_at       timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_draft_claims_league ON public.fantasy_draft_waiver_claims(league_id, status);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_draft_event_stats (
+  event_id          uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  profile_id        uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  position          integer,
+  birdies           integer,
+  eagles            integer,
+  stableford_points integer,
+  withdrawn         boolean NOT NULL DEFAULT false,
+  computed_at       timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, profile_id)
+);
+
+ALTER TABLE public.fantasy_draft_leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_managers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_picks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_roster ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_lineups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_waiver_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_draft_event_stats ENABLE ROW LEVEL SECURITY;
+
+-- Group-visible like picks: the whole group sees rosters, lineups and trades.
+CREATE POLICY "fantasy_draft_leagues_select" ON public.fantasy_draft_leagues
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.major_group_memberships m
+      JOIN public.profiles p ON p.id = m.profile_id
+      WHERE m.group_id = fantasy_draft_leagues.group_id
+        AND m.status = 'active'
+        AND p.owner_user_id = auth.uid()
+    )
+    OR auth.role() = 'service_role'
+  );
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'fantasy_draft_managers', 'fantasy_draft_picks', 'fantasy_draft_roster',
+    'fantasy_draft_lineups', 'fantasy_draft_trades', 'fantasy_draft_waiver_claims'
+  ] LOOP
+    EXECUTE format($p$
+      CREATE POLICY %1$I ON public.%2$I
+        FOR SELECT USING (
+          EXISTS (
+            SELECT 1
+            FROM public.fantasy_draft_leagues l
+            JOIN public.major_group_memberships m ON m.group_id = l.group_id AND m.status = 'active'
+            JOIN public.profiles p ON p.id = m.profile_id
+            WHERE l.id = %2$I.league_id
+              AND p.owner_user_id = auth.uid()
+          )
+          OR auth.role() = 'service_role'
+        )
+    $p$, t || '_select', t);
+    EXECUTE format('GRANT SELECT ON public.%I TO authenticated', t);
+    EXECUTE format('GRANT ALL ON public.%I TO service_role', t);
+  END LOOP;
+END;
+$$;
+
+-- Results are public leaderboard data already.
+CREATE POLICY "fantasy_draft_event_stats_select" ON public.fantasy_draft_event_stats
+  FOR SELECT USING (auth.role() = 'authenticated' OR auth.role() = 'service_role');
+
+GRANT SELECT ON public.fantasy_draft_leagues TO authenticated;
+GRANT SELECT ON public.fantasy_draft_event_stats TO authenticated;
+GRANT ALL ON public.fantasy_draft_leagues TO service_role;
+GRANT ALL ON public.fantasy_draft_event_stats TO service_role;
+
+-- ─── Roster moves ─────────────────────────────────────────────────────────────
+-- p_moves: [{"player": "...", "from": "<manager>|null", "to": "<manager>|null"}]
+-- from = null picks up a free agent; to = null releases the player. Every
+-- "from" must still own the player (rows locked), and every "to" must end up
+-- with an open spot — the partial unique index rejects a player owned twice.
+-- Raises on any stale move so trades and claims apply all-or-nothing.
+CREATE FUNCTION public.ciaga_fantasy_draft_move(
+  p_league_id uuid,
+  p_moves jsonb,
+  p_via text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  mv jsonb;
+  v_player uuid;
+  v_from uuid;
+  v_to uuid;
+  v_spot uuid;
+BEGIN
+  IF p_via NOT IN ('trade', 'waiver') THEN
+    RAISE EXCEPTION 'Unknown roster move %', p_via;
+  END IF;
+
+  PERFORM 1 FROM fantasy_draft_leagues WHERE id = p_league_id AND status = 'active' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'League is not active';
+  END IF;
+
+  -- Releases first, so a swap never trips the one-open-spot index.
+  FOR mv IN SELECT * FROM jsonb_array_elements(p_moves) LOOP
+    v_player := (mv->>'player')::uuid;
+    v_from := NULLIF(mv->>'from', '')::uuid;
+    IF v_from IS NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM fantasy_draft_roster
+        WHERE league_id = p_league_id AND player_profile_id = v_player AND released_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'Player is no longer a free agent';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    SELECT id INTO v_spot
+    FROM fantasy_draft_roster
+    WHERE league_id = p_league_id
+      AND player_profile_id = v_player
+      AND manager_profile_id = v_from
+      AND released_at IS NULL
+    FOR UPDATE;
+    IF v_spot IS NULL THEN
+      RAISE EXCEPTION 'Player is no longer on that roster';
+    END IF;
+    UPDATE fantasy_draft_roster SET released_at = now() WHERE id = v_spot;
+  END LOOP;
+
+  FOR mv IN SELECT * FROM jsonb_array_elements(p_moves) LOOP
+    v_to := NULLIF(mv->>'to', '')::uuid;
+    CONTINUE WHEN v_to IS NULL;
+    INSERT INTO fantasy_draft_roster (league_id, manager_profile_id, player_profile_id, acquired_via)
+    VALUES (p_league_id, v_to, (mv->>'player')::uuid, p_via);
+  END LOOP;
+
+  UPDATE fantasy_draft_leagues SET updated_at = now() WHERE id = p_league_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_draft_move(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_draft_move(uuid, jsonb, text) TO service_role;
@@ -0,0 +1,314 @@
+-- ============================================================
+-- Fantasy: peer-to-peer exchange between group members.
+--
+--   fantasy_exchange_offers  — a member's standing offer to back or lay one
+--                              selection of an event market at their own
+--                              odds. size/remaining are in BACKER stake
+--                              points for both sides, so partial matching
+--                              is one subtraction.
+--   fantasy_exchange_matches — one (partial) acceptance: a backer and a
+--                              layer with both sides escrowed.
+--
+--   ciaga_fantasy_match_exchange_offer    — atomic partial/full accept:
+--                                           both wallets locked + balance
+--                                           checked, both stakes debited.
+--   ciaga_fantasy_settle_exchange_matches — idempotent resolution; the
+--                                           winner takes the whole pot,
+--                                           void refunds each side.
+--
+-- No money moves when an offer is posted — escrow happens at match time,
+-- so lapsing/cancelling an unmatched offer is a plain status flip.
+-- Ledger rows reuse stake/payout/void_refund so PnL needs no changes.
+-- Conventions per the 2026-07 security audit: group-visible reads via
+-- profiles.owner_user_id, money ops service-role-only with explicit REVOKEs.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.fantasy_exchange_offers (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id          uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  event_id          uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  market_id         uuid NOT NULL REFERENCES public.fantasy_markets(id) ON DELETE CASCADE,
+  selection_key     text NOT NULL,
+  maker_profile_id  uuid NOT NULL REFERENCES public.profiles(id),
+  -- 'back': the maker backs the selection, takers lay it.
+  -- 'lay':  the maker lays the selection, takers back it.
+  side              text NOT NULL CHECK (side IN ('back', 'lay')),
+  decimal_odds      numeric(8,2) NOT NULL CHECK (decimal_odds > 1.00),
+  size              numeric(12,2) NOT NULL CHECK (size >= 1 AND size = round(size)),
+  remaining         numeric(12,2) NOT NULL CHECK (remaining >= 0 AND remaining <= size),
+  status            text NOT NULL DEFAULT 'open' CHECK (
+                      status IN ('open', 'filled', 'lapsed', 'cancelled')
+                    ),
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  closed_at         timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_offers_event ON public.fantasy_exchange_offers(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_offers_market ON public.fantasy_exchange_offers(market_id);
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_offers_maker ON public.fantasy_exchange_offers(maker_profile_id, status);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_exchange_matches (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id          uuid NOT NULL REFERENCES public.fantasy_exchange_offers(id) ON DELETE CASCADE,
+  group_id          uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  event_id          uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  market_id         uuid NOT NULL REFERENCES public.fantasy_markets(id) ON DELETE CASCADE,
+  selection_key     text NOT NULL,
+  backer_profile_id uuid NOT NULL REFERENCES public.profiles(id),
+  layer_profile_id  uuid NOT NULL REFERENCES public.profiles(id),
+  decimal_odds      numeric(8,2) NOT NULL CHECK (decimal_odds > 1.00),
+  backer_stake      numeric(12,2) NOT NULL CHECK (backer_stake >= 1),
+  -- backer_stake × (odds − 1): what the layer risks and the backer can win.
+  layer_liability   numeric(14,2) NOT NULL CHECK (layer_liability > 0),
+  group_season_id   uuid REFERENCES public.group_seasons(id) ON DELETE SET NULL,
+  -- Outcome of the SELECTION: 'won' pays the backer, 'lost' pays the layer.
+  status            text NOT NULL DEFAULT 'open' CHECK (
+                      status IN ('open', 'won', 'lost', 'void')
+                    ),
+  matched_at        timestamptz NOT NULL DEFAULT now(),
+  settled_at        timestamptz,
+  CHECK (backer_profile_id <> layer_profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_matches_offer ON public.fantasy_exchange_matches(offer_id);
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_matches_event ON public.fantasy_exchange_matches(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_matches_backer ON public.fantasy_exchange_matches(backer_profile_id);
+CREATE INDEX IF NOT EXISTS idx_fantasy_exchange_matches_layer ON public.fantasy_exchange_matches(layer_profile_id);
+
+ALTER TABLE public.fantasy_exchange_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_exchange_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "fantasy_exchange_offers_select" ON public.fantasy_exchange_offers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.major_group_memberships m
+      JOIN public.profiles p ON p.id = m.profile_id
+      WHERE m.group_id = fantasy_exchange_offers.group_id
+        AND m.status = 'active'
+        AND p.owner_user_id = auth.uid()
+    )
+    OR auth.role() = 'service_role'
+  );
+
+CREATE POLICY "fantasy_exchange_matches_select" ON public.fantasy_exchange_matches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1
+      FROM public.major_group_memberships m
+      JOIN public.profiles p ON p.id = m.profile_id
+      WHERE m.group_id = fantasy_exchange_matches.group_id
+        AND m.status = 'active'
+        AND p.owner_user_id = auth.uid()
+    )
+    OR auth.role() = 'service_role'
+  );
+
+GRANT SELECT ON public.fantasy_exchange_offers TO authenticated;
+GRANT SELECT ON public.fantasy_exchange_matches TO authenticated;
+GRANT ALL ON public.fantasy_exchange_offers TO service_role;
+GRANT ALL ON public.fantasy_exchange_matches TO service_role;
+
+-- Ledger rows can reference their exchange match (stake/payout/void_refund).
+ALTER TABLE public.fantasy_wallet_transactions
+  ADD COLUMN IF NOT EXISTS exchange_match_id uuid REFERENCES public.fantasy_exchange_matches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_wallet_tx_exchange_match
+  ON public.fantasy_wallet_transactions(exchange_match_id)
+  WHERE exchange_match_id IS NOT NULL;
+
+-- ─── Match offer ──────────────────────────────────────────────────────────────
+-- p_amount: backer stake points taken from the offer (whole, ≤ remaining).
+-- The offer row is locked FOR UPDATE so two takers can't overfill it; both
+-- wallets then take the same advisory lock ciaga_fantasy_place_pick uses (in
+-- profile-id order, so two opposite matches can't deadlock) before balances
+-- are checked. p_group_season_id / p_scope_event: the group's wallet scope,
+-- shared by both sides.
+CREATE FUNCTION public.ciaga_fantasy_match_exchange_offer(
+  p_offer_id uuid,
+  p_taker_profile_id uuid,
+  p_amount numeric,
+  p_group_season_id uuid,
+  p_scope_event boolean
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_offer record;
+  v_market_status text;
+  v_backer uuid;
+  v_layer uuid;
+  v_liability numeric;
+  v_scope_key text;
+  v_profile uuid;
+  v_need numeric;
+  v_balance numeric;
+  v_match_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount < 1 OR p_amount <> round(p_amount) THEN
+    RAISE EXCEPTION 'Stake must be a whole number of points (min 1)';
+  END IF;
+
+  SELECT * INTO v_offer
+    FROM fantasy_exchange_offers
+   WHERE id = p_offer_id
+     FOR UPDATE;
+  IF v_offer.id IS NULL THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+  IF v_offer.status <> 'open' THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+  IF v_offer.maker_profile_id = p_taker_profile_id THEN
+    RAISE EXCEPTION 'You can''t accept your own offer';
+  END IF;
+  IF p_amount > v_offer.remaining THEN
+    RAISE EXCEPTION 'Only % points of this offer are left', v_offer.remaining;
+  END IF;
+
+  SELECT status INTO v_market_status FROM fantasy_markets WHERE id = v_offer.market_id;
+  IF v_market_status IS DISTINCT FROM 'open' THEN
+    RAISE EXCEPTION 'Market is not open';
+  END IF;
+
+  IF v_offer.side = 'back' THEN
+    v_backer := v_offer.maker_profile_id;
+    v_layer := p_taker_profile_id;
+  ELSE
+    v_backer := p_taker_profile_id;
+    v_layer := v_offer.maker_profile_id;
+  END IF;
+  v_liability := round(p_amount * (v_offer.decimal_odds - 1), 2);
+
+  v_scope_key := CASE
+    WHEN p_scope_event THEN 'e:' || v_offer.event_id::text
+    WHEN p_group_season_id IS NOT NULL THEN 's:' || p_group_season_id::text
+    ELSE 'g'
+  END;
+
+  FOR v_profile IN
+    SELECT x FROM unnest(ARRAY[v_backer, v_layer]) AS x ORDER BY x
+  LOOP
+    PERFORM pg_advisory_xact_lock(
+      hashtextextended(v_offer.group_id::text || '|' || v_profile::text || '|' || v_scope_key, 0)
+    );
+  END LOOP;
+
+  FOR v_profile IN SELECT unnest(ARRAY[v_backer, v_layer])
+  LOOP
+    v_need := CASE WHEN v_profile = v_backer THEN p_amount ELSE v_liability END;
+    SELECT COALESCE(SUM(amount), 0) INTO v_balance
+      FROM fantasy_wallet_transactions
+     WHERE group_id = v_offer.group_id
+       AND profile_id = v_profile
+       AND (
+         (p_scope_event AND event_id = v_offer.event_id)
+         OR (NOT p_scope_event AND p_group_season_id IS NOT NULL AND group_season_id = p_group_season_id)
+         OR (NOT p_scope_event AND p_group_season_id IS NULL)
+       );
+    IF v_balance < v_need THEN
+      IF v_profile = p_taker_profile_id THEN
+        RAISE EXCEPTION 'Insufficient points balance';
+      END IF;
+      RAISE EXCEPTION 'The offer''s maker can no longer cover this amount';
+    END IF;
+  END LOOP;
+
+  INSERT INTO fantasy_exchange_matches (
+    offer_id, group_id, event_id, market_id, selection_key,
+    backer_profile_id, layer_profile_id, decimal_odds,
+    backer_stake, layer_liability, group_season_id
+  ) VALUES (
+    v_offer.id, v_offer.group_id, v_offer.event_id, v_offer.market_id, v_offer.selection_key,
+    v_backer, v_layer, v_offer.decimal_odds,
+    p_amount, v_liability, p_group_season_id
+  )
+  RETURNING id INTO v_match_id;
+
+  INSERT INTO fantasy_wallet_transactions (
+    group_id, profile_id, group_season_id, event_id, exchange_match_id, type, amount, note
+  ) VALUES
+    (v_offer.group_id, v_backer, p_group_season_id, v_offer.event_id, v_match_id,
+     'stake', -p_amount, 'Exchange back stake'),
+    (v_offer.group_id, v_layer, p_group_season_id, v_offer.event_id, v_match_id,
+     'stake', -v_liability, 'Exchange lay liability');
+
+  UPDATE fantasy_exchange_offers
+     SET remaining = remaining - p_amount,
+         status = CASE WHEN remaining - p_amount = 0 THEN 'filled' ELSE status END,
+         closed_at = CASE WHEN remaining - p_amount = 0 THEN now() ELSE closed_at END
+   WHERE id = v_offer.id;
+
+  RETURN v_match_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_match_exchange_offer(uuid, uuid, numeric, uuid, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_match_exchange_offer(uuid, uuid, numeric, uuid, boolean) TO service_role;
+
+-- ─── Settle matches ───────────────────────────────────────────────────────────
+-- p_outcomes: [{"match_id": "...", "outcome": "won"|"lost"|"void"}] — the
+-- selection's outcome, exactly as computed for house picks on the market.
+-- Idempotent: only 'open' matches transition. Ledger rows copy the match's
+-- scope columns (event_id is always set; balances filter by the scope).
+CREATE FUNCTION public.ciaga_fantasy_settle_exchange_matches(
+  p_outcomes jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  rec record;
+  v_match record;
+  v_settled uuid[] := '{}';
+BEGIN
+  FOR rec IN
+    SELECT (o->>'match_id')::uuid AS match_id, o->>'outcome' AS outcome
+    FROM jsonb_array_elements(p_outcomes) AS o
+  LOOP
+    IF rec.outcome NOT IN ('won', 'lost', 'void') THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE fantasy_exchange_matches
+       SET status = rec.outcome, settled_at = now()
+     WHERE id = rec.match_id AND status = 'open'
+    RETURNING * INTO v_match;
+
+    IF v_match.id IS NULL THEN
+      CONTINUE; -- already settled (idempotent re-run)
+    END IF;
+    v_settled := v_settled || v_match.id;
+
+    IF rec.outcome = 'void' THEN
+      INSERT INTO fantasy_wallet_transactions (
+        group_id, profile_id, group_season_id, event_id, exchange_match_id, type, amount, note
+      ) VALUES
+        (v_match.group_id, v_match.backer_profile_id, v_match.group_season_id, v_match.event_id,
+         v_match.id, 'void_refund', v_match.backer_stake, 'Exchange bet voided — stake returned'),
+        (v_match.group_id, v_match.layer_profile_id, v_match.group_season_id, v_match.event_id,
+         v_match.id, 'void_refund', v_match.layer_liability, 'Exchange bet voided — liability returned');
+    ELSE
+      INSERT INTO fantasy_wallet_transactions (
+        group_id, profile_id, group_season_id, event_id, exchange_match_id, type, amount, note
+      ) VALUES (
+        v_match.group_id,
+        CASE WHEN rec.outcome = 'won' THEN v_match.backer_profile_id ELSE v_match.layer_profile_id END,
+        v_match.group_season_id, v_match.event_id, v_match.id,
+        'payout', v_match.backer_stake + v_match.layer_liability,
+        CASE WHEN rec.outcome = 'won' THEN 'Exchange back won' ELSE 'Exchange lay won' END
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('settled', cardinality(v_settled), 'match_ids', to_jsonb(v_settled));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_settle_exchange_matches(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_settle_exchange_matches(jsonb) TO service_role;
@@ -0,0 +1,57 @@
+-- ============================================================
+-- Fantasy: model backtesting.
+--
+--   fantasy_generation_inputs — the simulation inputs an event was priced
+--                               from (field, frozen player profiles with
+--                               their model_version, playing handicaps,
+--                               holes), captured at generation time.
+--                               fantasy_player_profiles is overwritten on
+--                               every rebuild, so this is the only record
+--                               of the profiles as they stood.
+--   fantasy_backtest_runs     — one admin-triggered replay of a group's
+--                               settled events: Brier / log-loss /
+--                               reliability per market type, handicap band
+--                               and model version.
+--
+-- Inputs are re-captured on every pre-event generation (the last one before
+-- the first score is what the board traded on) and never once play starts.
+-- Both tables are read through the owner/admin-gated API.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.fantasy_generation_inputs (
+  event_id        uuid PRIMARY KEY REFERENCES public.events(id) ON DELETE CASCADE,
+  group_id        uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  event_version   integer NOT NULL,
+  ranking_basis   text NOT NULL CHECK (ranking_basis IN ('gross', 'net', 'stableford')),
+  -- [{ profileId, playingHandicap, attendanceProb, handicapIndex,
+  --    modelVersion, profile: SimPlayerProfile }]
+  players         jsonb NOT NULL,
+  -- SimHole[] (round-tagged, with tee rating/slope where known).
+  holes           jsonb NOT NULL,
+  captured_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_generation_inputs_group
+  ON public.fantasy_generation_inputs(group_id, captured_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.fantasy_backtest_runs (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id        uuid NOT NULL REFERENCES public.major_groups(id) ON DELETE CASCADE,
+  created_by      uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event_count     integer NOT NULL DEFAULT 0,
+  forecast_count  integer NOT NULL DEFAULT 0,
+  -- BacktestReport (lib/fantasy/backtest.ts).
+  report          jsonb NOT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_backtest_runs_group
+  ON public.fantasy_backtest_runs(group_id, created_at DESC);
+
+ALTER TABLE public.fantasy_generation_inputs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fantasy_backtest_runs ENABLE ROW LEVEL SECURITY;
+
+-- Admin tooling: no authenticated policy (deny), service_role only.
+
+GRANT ALL ON public.fantasy_generation_inputs TO service_role;
+GRANT ALL ON public.fantasy_backtest_runs TO service_role;
@@ -0,0 +1,460 @@
+-- ============================================================
+-- Fantasy: each-way picks on the outright and season-winner markets.
+--
+-- An each-way pick is two equal bets on one row: WIN at the quoted price
+-- and PLACE at 1/fraction of the odds for a top-`places` finish, per the
+-- group's fantasy_config.eachWay tiers (chosen by field size at pricing).
+--
+--   snapshots (event + season) gain place_probability and the terms the
+--   selection was priced under — NULL terms = win only.
+--   picks (event + season) gain each_way, the locked terms, place_odds and
+--   settled_return. `stake` is the TOTAL (2 × the unit stake) so wallets
+--   and PnL need no special case.
+--
+--   ciaga_fantasy_place_pick / ciaga_fantasy_place_season_pick gain
+--   p_each_way (signature change: dropped + recreated, grants re-applied).
+--   ciaga_fantasy_apply_settlement / ciaga_fantasy_apply_season_settlement
+--   accept an optional per-outcome "payout" — dead-heat shares are computed
+--   in TypeScript (lib/fantasy/eachWayRules.ts) — capped at potential_return.
+-- ============================================================
+
+ALTER TABLE public.fantasy_odds_snapshots
+  ADD COLUMN IF NOT EXISTS place_probability numeric(8,6),
+  ADD COLUMN IF NOT EXISTS each_way_places   smallint,
+  ADD COLUMN IF NOT EXISTS each_way_fraction smallint;
+
+ALTER TABLE public.fantasy_season_odds_snapshots
+  ADD COLUMN IF NOT EXISTS place_probability numeric(8,6),
+  ADD COLUMN IF NOT EXISTS each_way_places   smallint,
+  ADD COLUMN IF NOT EXISTS each_way_fraction smallint;
+
+ALTER TABLE public.fantasy_picks
+  ADD COLUMN IF NOT EXISTS each_way          boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS each_way_places   smallint,
+  ADD COLUMN IF NOT EXISTS each_way_fraction smallint,
+  ADD COLUMN IF NOT EXISTS place_odds        numeric(8,2),
+  ADD COLUMN IF NOT EXISTS settled_return    numeric(12,2);
+
+ALTER TABLE public.fantasy_season_picks
+  ADD COLUMN IF NOT EXISTS each_way          boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS each_way_places   smallint,
+  ADD COLUMN IF NOT EXISTS each_way_fraction smallint,
+  ADD COLUMN IF NOT EXISTS place_odds        numeric(8,2),
+  ADD COLUMN IF NOT EXISTS settled_return    numeric(12,2);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fantasy_picks_each_way_terms') THEN
+    ALTER TABLE public.fantasy_picks
+      ADD CONSTRAINT fantasy_picks_each_way_terms CHECK (
+        NOT each_way
+        OR (each_way_places IS NOT NULL AND each_way_fraction IS NOT NULL
+            AND place_odds IS NOT NULL AND mod(stake, 2) = 0)
+      );
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fantasy_season_picks_each_way_terms') THEN
+    ALTER TABLE public.fantasy_season_picks
+      ADD CONSTRAINT fantasy_season_picks_each_way_terms CHECK (
+        NOT each_way
+        OR (each_way_places IS NOT NULL AND each_way_fraction IS NOT NULL
+            AND place_odds IS NOT NULL AND mod(stake, 2) = 0)
+      );
+  END IF;
+END;
+$$;
+
+-- ─── Place pick ───────────────────────────────────────────────────────────────
+-- p_stake is the per-part stake: an each-way pick debits twice it. The place
+-- price is derived from the snapshot's win price and terms (mirrors placeOdds
+-- in eachWayRules.ts), so the terms can't be picked by the client.
+DROP FUNCTION IF EXISTS public.ciaga_fantasy_place_pick(uuid, uuid, text, numeric, uuid, uuid, boolean);
+
+CREATE FUNCTION public.ciaga_fantasy_place_pick(
+  p_profile_id uuid,
+  p_market_id uuid,
+  p_selection_key text,
+  p_stake numeric,
+  p_snapshot_id uuid,
+  p_group_season_id uuid,
+  p_scope_event boolean,
+  p_each_way boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_market record;
+  v_snapshot record;
+  v_version bigint;
+  v_balance numeric;
+  v_pick_id uuid;
+  v_scope_key text;
+  v_total numeric;
+  v_place_odds numeric;
+  v_return numeric;
+BEGIN
+  IF p_stake IS NULL OR p_stake < 1 OR p_stake <> round(p_stake) THEN
+    RAISE EXCEPTION 'Stake must be a whole number of points (min 1)';
+  END IF;
+
+  SELECT id, event_id, group_id, status
+    INTO v_market
+    FROM fantasy_markets
+   WHERE id = p_market_id;
+  IF v_market.id IS NULL THEN
+    RAISE EXCEPTION 'Market not found';
+  END IF;
+  IF v_market.status <> 'open' THEN
+    RAISE EXCEPTION 'Market is not open';
+  END IF;
+
+  SELECT id, probability, decimal_odds, event_version, status, selection_key, market_id,
+         each_way_places, each_way_fraction
+    INTO v_snapshot
+    FROM fantasy_odds_snapshots
+   WHERE id = p_snapshot_id;
+  IF v_snapshot.id IS NULL
+     OR v_snapshot.market_id <> p_market_id
+     OR v_snapshot.selection_key <> p_selection_key
+     OR v_snapshot.status <> 'active' THEN
+    RAISE EXCEPTION 'Odds are no longer available — refresh and try again';
+  END IF;
+
+  SELECT version INTO v_version
+    FROM fantasy_event_state
+   WHERE event_id = v_market.event_id;
+  IF v_version IS NULL OR v_version <> v_snapshot.event_version THEN
+    RAISE EXCEPTION 'Odds are stale — refresh and try again';
+  END IF;
+
+  IF p_each_way THEN
+    IF v_snapshot.each_way_places IS NULL OR v_snapshot.each_way_fraction IS NULL THEN
+      RAISE EXCEPTION 'Each-way is not offered on this selection';
+    END IF;
+    v_total := p_stake * 2;
+    v_place_odds := GREATEST(1.01, round(1 + (v_snapshot.decimal_odds - 1) / v_snapshot.each_way_fraction, 2));
+    v_return := round(p_stake * v_snapshot.decimal_odds, 2) + round(p_stake * v_place_odds, 2);
+  ELSE
+    v_total := p_stake;
+    v_return := round(p_stake * v_snapshot.decimal_odds, 2);
+  END IF;
+
+  v_scope_key := CASE
+    WHEN p_scope_event THEN 'e:' || v_market.event_id::text
+    WHEN p_group_season_id IS NOT NULL THEN 's:' || p_group_season_id::text
+    ELSE 'g'
+  END;
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(v_market.group_id::text || '|' || p_profile_id::text || '|' || v_scope_key, 0)
+  );
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+    FROM fantasy_wallet_transactions
+   WHERE group_id = v_market.group_id
+     AND profile_id = p_profile_id
+     AND (
+       (p_scope_event AND event_id = v_market.event_id)
+       OR (NOT p_scope_event AND p_group_season_id IS NOT NULL AND group_season_id = p_group_season_id)
+       OR (NOT p_scope_event AND p_group_season_id IS NULL)
+     );
+  IF v_balance < v_total THEN
+    RAISE EXCEPTION 'Insufficient points balance';
+  END IF;
+
+  INSERT INTO fantasy_picks (
+    market_id, event_id, group_id, profile_id, selection_key,
+    stake, decimal_odds, potential_return, odds_snapshot_id,
+    event_version_at_placement,
+    each_way, each_way_places, each_way_fraction, place_odds
+  ) VALUES (
+    p_market_id, v_market.event_id, v_market.group_id, p_profile_id, p_selection_key,
+    v_total, v_snapshot.decimal_odds, v_return, p_snapshot_id,
+    v_snapshot.event_version,
+    p_each_way,
+    CASE WHEN p_each_way THEN v_snapshot.each_way_places END,
+    CASE WHEN p_each_way THEN v_snapshot.each_way_fraction END,
+    v_place_odds
+  )
+  RETURNING id INTO v_pick_id;
+
+  INSERT INTO fantasy_wallet_transactions (
+    group_id, profile_id, group_season_id, event_id, pick_id, type, amount, note
+  ) VALUES (
+    v_market.group_id, p_profile_id, p_group_season_id, v_market.event_id, v_pick_id,
+    'stake', -v_total, CASE WHEN p_each_way THEN 'Each-way pick stake' ELSE 'Pick stake' END
+  );
+
+  RETURN v_pick_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_place_pick(uuid, uuid, text, numeric, uuid, uuid, boolean, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_place_pick(uuid, uuid, text, numeric, uuid, uuid, boolean, boolean) TO service_role;
+
+-- ─── Place a season pick ─────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS public.ciaga_fantasy_place_season_pick(uuid, uuid, text, numeric, uuid);
+
+CREATE FUNCTION public.ciaga_fantasy_place_season_pick(
+  p_profile_id uuid,
+  p_season_market_id uuid,
+  p_selection_key text,
+  p_stake numeric,
+  p_snapshot_id uuid,
+  p_each_way boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_market record;
+  v_snapshot record;
+  v_version bigint;
+  v_balance numeric;
+  v_pick_id uuid;
+  v_total numeric;
+  v_place_odds numeric;
+  v_return numeric;
+BEGIN
+  IF p_stake IS NULL OR p_stake < 1 OR p_stake <> round(p_stake) THEN
+    RAISE EXCEPTION 'Stake must be a whole number of points (min 1)';
+  END IF;
+
+  SELECT id, group_id, group_season_id, status
+    INTO v_market FROM fantasy_season_markets WHERE id = p_season_market_id;
+  IF v_market.id IS NULL THEN RAISE EXCEPTION 'Market not found'; END IF;
+  IF v_market.status <> 'open' THEN RAISE EXCEPTION 'Market is not open'; END IF;
+
+  SELECT id, decimal_odds, season_version, status, selection_key, season_market_id,
+         each_way_places, each_way_fraction
+    INTO v_snapshot FROM fantasy_season_odds_snapshots WHERE id = p_snapshot_id;
+  IF v_snapshot.id IS NULL
+     OR v_snapshot.season_market_id <> p_season_market_id
+     OR v_snapshot.selection_key <> p_selection_key
+     OR v_snapshot.status <> 'active' THEN
+    RAISE EXCEPTION 'Odds are no longer available — refresh and try again';
+  END IF;
+
+  SELECT version INTO v_version FROM fantasy_season_state WHERE group_season_id = v_market.group_season_id;
+  IF v_version IS NULL OR v_version <> v_snapshot.season_version THEN
+    RAISE EXCEPTION 'Odds are stale — refresh and try again';
+  END IF;
+
+  IF p_each_way THEN
+    IF v_snapshot.each_way_places IS NULL OR v_snapshot.each_way_fraction IS NULL THEN
+      RAISE EXCEPTION 'Each-way is not offered on this selection';
+    END IF;
+    v_total := p_stake * 2;
+    v_place_odds := GREATEST(1.01, round(1 + (v_snapshot.decimal_odds - 1) / v_snapshot.each_way_fraction, 2));
+    v_return := round(p_stake * v_snapshot.decimal_odds, 2) + round(p_stake * v_place_odds, 2);
+  ELSE
+    v_total := p_stake;
+    v_return := round(p_stake * v_snapshot.decimal_odds, 2);
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(v_market.group_id::text || '|' || p_profile_id::text || '|s:' || v_market.group_season_id::text, 0)
+  );
+
+  -- Season wallet: all rows scoped to this season pool.
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+    FROM fantasy_wallet_transactions
+   WHERE group_id = v_market.group_id
+     AND profile_id = p_profile_id
+     AND group_season_id = v_market.group_season_id;
+  IF v_balance < v_total THEN RAISE EXCEPTION 'Insufficient points balance'; END IF;
+
+  INSERT INTO fantasy_season_picks (
+    season_market_id, group_season_id, group_id, profile_id, selection_key,
+    stake, decimal_odds, potential_return, odds_snapshot_id, season_version_at_placement,
+    each_way, each_way_places, each_way_fraction, place_odds
+  ) VALUES (
+    p_season_market_id, v_market.group_season_id, v_market.group_id, p_profile_id, p_selection_key,
+    v_total, v_snapshot.decimal_odds, v_return, p_snapshot_id, v_snapshot.season_version,
+    p_each_way,
+    CASE WHEN p_each_way THEN v_snapshot.each_way_places END,
+    CASE WHEN p_each_way THEN v_snapshot.each_way_fraction END,
+    v_place_odds
+  )
+  RETURNING id INTO v_pick_id;
+
+  INSERT INTO fantasy_wallet_transactions (
+    group_id, profile_id, group_season_id, season_pick_id, type, amount, note
+  ) VALUES (
+    v_market.group_id, p_profile_id, v_market.group_season_id, v_pick_id, 'stake', -v_total,
+    CASE WHEN p_each_way THEN 'Each-way season pick stake' ELSE 'Season pick stake' END
+  );
+
+  RETURN v_pick_id;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_place_season_pick(uuid, uuid, text, numeric, uuid, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_place_season_pick(uuid, uuid, text, numeric, uuid, boolean) TO service_role;
+
+-- ─── Apply settlement ─────────────────────────────────────────────────────────
+-- p_outcomes: [{"pick_id", "outcome", "payout"?}, ...]. A 'won' outcome pays
+-- "payout" when given (each-way parts with dead-heat shares), else the full
+-- potential_return as before. Same signature — no grant change.
+CREATE OR REPLACE FUNCTION public.ciaga_fantasy_apply_settlement(
+  p_event_id uuid,
+  p_outcomes jsonb,
+  p_market_ids uuid[],
+  p_final boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  rec record;
+  v_pick record;
+  v_season uuid;
+  v_payout numeric;
+  v_won integer := 0;
+  v_lost integer := 0;
+  v_void integer := 0;
+BEGIN
+  FOR rec IN
+    SELECT (o->>'pick_id')::uuid AS pick_id,
+           o->>'outcome' AS outcome,
+           (o->>'payout')::numeric AS payout
+    FROM jsonb_array_elements(p_outcomes) AS o
+  LOOP
+    IF rec.outcome NOT IN ('won', 'lost', 'void') THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE fantasy_picks
+       SET status = rec.outcome,
+           settled_at = now(),
+           settled_return = CASE rec.outcome
+             WHEN 'won' THEN LEAST(COALESCE(rec.payout, potential_return), potential_return)
+             WHEN 'void' THEN stake
+             ELSE 0
+           END
+     WHERE id = rec.pick_id
+       AND event_id = p_event_id
+       AND status = 'open'
+    RETURNING id, group_id, profile_id, event_id, stake, settled_return
+      INTO v_pick;
+
+    IF v_pick.id IS NULL THEN
+      CONTINUE; -- already settled/cashed out (idempotent re-run)
+    END IF;
+
+    SELECT group_season_id INTO v_season
+      FROM fantasy_wallet_transactions
+     WHERE pick_id = v_pick.id AND type = 'stake'
+     LIMIT 1;
+
+    IF rec.outcome = 'won' THEN
+      v_won := v_won + 1;
+      v_payout := v_pick.settled_return;
+      IF v_payout > 0 THEN
+        INSERT INTO fantasy_wallet_transactions (
+          group_id, profile_id, group_season_id, event_id, pick_id, type, amount, note
+        ) VALUES (
+          v_pick.group_id, v_pick.profile_id, v_season, v_pick.event_id, v_pick.id,
+          'payout', v_payout, 'Pick won'
+        );
+      END IF;
+    ELSIF rec.outcome = 'void' THEN
+      v_void := v_void + 1;
+      INSERT INTO fantasy_wallet_transactions (
+        group_id, profile_id, group_season_id, event_id, pick_id, type, amount, note
+      ) VALUES (
+        v_pick.group_id, v_pick.profile_id, v_season, v_pick.event_id, v_pick.id,
+        'void_refund', v_pick.stake, 'Pick voided — stake returned'
+      );
+    ELSE
+      v_lost := v_lost + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE fantasy_markets
+     SET status = 'settled', settled_at = now(), updated_at = now()
+   WHERE event_id = p_event_id
+     AND id = ANY(p_market_ids)
+     AND status IN ('open', 'suspended');
+
+  IF p_final THEN
+    UPDATE fantasy_event_state
+       SET is_final = true,
+           odds_stale = false,
+           changed_reason = 'settled',
+           updated_at = now()
+     WHERE event_id = p_event_id;
+  END IF;
+
+  RETURN jsonb_build_object('won', v_won, 'lost', v_lost, 'void', v_void);
+END;
+$$;
+
+-- ─── Apply season settlement ─────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.ciaga_fantasy_apply_season_settlement(
+  p_group_season_id uuid,
+  p_outcomes jsonb,
+  p_market_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  rec record;
+  v_pick record;
+  v_won integer := 0;
+  v_lost integer := 0;
+  v_void integer := 0;
+BEGIN
+  FOR rec IN
+    SELECT (o->>'pick_id')::uuid AS pick_id,
+           o->>'outcome' AS outcome,
+           (o->>'payout')::numeric AS payout
+    FROM jsonb_array_elements(p_outcomes) AS o
+  LOOP
+    IF rec.outcome NOT IN ('won', 'lost', 'void') THEN CONTINUE; END IF;
+
+    UPDATE fantasy_season_picks
+       SET status = rec.outcome,
+           settled_at = now(),
+           settled_return = CASE rec.outcome
+             WHEN 'won' THEN LEAST(COALESCE(rec.payout, potential_return), potential_return)
+             WHEN 'void' THEN stake
+             ELSE 0
+           END
+     WHERE id = rec.pick_id AND group_season_id = p_group_season_id AND status = 'open'
+    RETURNING id, group_id, profile_id, group_season_id, stake, settled_return INTO v_pick;
+    IF v_pick.id IS NULL THEN CONTINUE; END IF;
+
+    IF rec.outcome = 'won' THEN
+      v_won := v_won + 1;
+      IF v_pick.settled_return > 0 THEN
+        INSERT INTO fantasy_wallet_transactions (group_id, profile_id, group_season_id, season_pick_id, type, amount, note)
+        VALUES (v_pick.group_id, v_pick.profile_id, v_pick.group_season_id, v_pick.id, 'payout', v_pick.settled_return, 'Season pick won');
+      END IF;
+    ELSIF rec.outcome = 'void' THEN
+      v_void := v_void + 1;
+      INSERT INTO fantasy_wallet_transactions (group_id, profile_id, group_season_id, season_pick_id, type, amount, note)
+      VALUES (v_pick.group_id, v_pick.profile_id, v_pick.group_season_id, v_pick.id, 'void_refund', v_pick.stake, 'Season pick voided — stake returned');
+    ELSE
+      v_lost := v_lost + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE fantasy_season_markets
+     SET status = 'settled', settled_at = now(), updated_at = now()
+   WHERE group_season_id = p_group_season_id AND id = ANY(p_market_ids) AND status IN ('open', 'suspended');
+
+  UPDATE fantasy_season_state
+     SET is_final = true, odds_stale = false, changed_reason = 'settled', updated_at = now()
+   WHERE group_season_id = p_group_season_id;
+
+  RETURN jsonb_build_object('won', v_won, 'lost', v_lost, 'void', v_void);
+END;
+$$;
@@ -0,0 +1,38 @@
+-- ============================================================
+-- Fantasy draft: record a pick and its roster spot in one transaction.
+--
+--   ciaga_fantasy_draft_pick — inserts the board row and the drafted
+--   player's roster spot together, so a failed roster insert can't leave a
+--   pick on the board that nobody owns. The UNIQUE (league, pick_number) and
+--   (league, player) constraints still settle races (23505 to the caller).
+-- ============================================================
+
+CREATE FUNCTION public.ciaga_fantasy_draft_pick(
+  p_league_id uuid,
+  p_pick_number integer,
+  p_manager_id uuid,
+  p_player_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM 1 FROM fantasy_draft_leagues WHERE id = p_league_id AND status = 'drafting' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The draft is not open';
+  END IF;
+
+  INSERT INTO fantasy_draft_picks (league_id, pick_number, manager_profile_id, player_profile_id)
+  VALUES (p_league_id, p_pick_number, p_manager_id, p_player_id);
+
+  INSERT INTO fantasy_draft_roster (league_id, manager_profile_id, player_profile_id, acquired_via)
+  VALUES (p_league_id, p_manager_id, p_player_id, 'draft');
+
+  UPDATE fantasy_draft_leagues SET updated_at = now() WHERE id = p_league_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ciaga_fantasy_draft_pick(uuid, integer, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ciaga_fantasy_draft_pick(uuid, integer, uuid, uuid) TO service_role;